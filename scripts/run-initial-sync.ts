@@ -58,6 +58,7 @@ async function runInitialSync() {
       console.log(`   - Processed: ${result.stats.products.productsProcessed}`);
       console.log(`   - Created: ${result.stats.products.productsCreated}`);
       console.log(`   - Updated: ${result.stats.products.productsUpdated}`);
+      console.log(`   - Unchanged: ${result.stats.products.productsUnchanged}`);
       console.log(`   - Total: ${result.stats.totalProducts}`);
       console.log(`   - Errors: ${result.stats.products.errors}`);
     }
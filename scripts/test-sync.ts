@@ -69,6 +69,7 @@ async function main() {
       console.log(`   - Processed: ${syncResult.stats.products.productsProcessed}`);
       console.log(`   - Created: ${syncResult.stats.products.productsCreated}`);
       console.log(`   - Updated: ${syncResult.stats.products.productsUpdated}`);
+      console.log(`   - Unchanged: ${syncResult.stats.products.productsUnchanged}`);
       console.log(`   - Total: ${syncResult.stats.totalProducts}`);
       console.log(`   - Errors: ${syncResult.stats.products.errors}`);
     }
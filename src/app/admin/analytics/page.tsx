@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase/client'
+import { PriceHistoryChart } from '@/components/PriceHistoryChart'
 
 interface AnalyticsData {
   totalRevenue: number
@@ -62,6 +63,7 @@ export default function AdminAnalyticsPage() {
   })
   const [loading, setLoading] = useState(true)
   const [dateRange, setDateRange] = useState('30') // days
+  const [priceHistoryProductId, setPriceHistoryProductId] = useState<string>('')
   // Using imported supabase client
 
   useEffect(() => {
@@ -390,6 +392,33 @@ export default function AdminAnalyticsPage() {
         </div>
       </div>
 
+      {/* Market Price History */}
+      {analytics.topProducts.length > 0 && (
+        <div className="bg-white rounded-lg shadow mb-8">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900">Market Price History</h2>
+            <select
+              value={priceHistoryProductId || analytics.topProducts[0].product_id}
+              onChange={(e) => setPriceHistoryProductId(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {analytics.topProducts.map((product) => (
+                <option key={product.product_id} value={product.product_id}>
+                  {product.product_name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="p-6">
+            <PriceHistoryChart
+              productId={priceHistoryProductId || analytics.topProducts[0].product_id}
+              initialRange="90d"
+              title="Lowest ask / last sale"
+            />
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Users by Role */}
         <div className="bg-white rounded-lg shadow">
@@ -0,0 +1,162 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { SUPPORTED_CURRENCIES } from '@/services/pricing'
+import type { Currency, FxRate, FxRateTable } from '@/types/pricing'
+
+export default function FxRatesPage() {
+  const [base, setBase] = useState<Currency>('EUR')
+  const [rates, setRates] = useState<FxRateTable['rates']>({})
+  const [history, setHistory] = useState<FxRate[]>([])
+  const [drafts, setDrafts] = useState<Partial<Record<Currency, string>>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<Currency | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRates = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/fx-rates')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load FX rates')
+      }
+
+      setBase(data.base)
+      setRates(data.rates || {})
+      setHistory(data.history || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRates()
+  }, [fetchRates])
+
+  const handleSave = async (currency: Currency) => {
+    const rate = parseFloat(drafts[currency] || '')
+    if (!Number.isFinite(rate) || rate <= 0) {
+      setError('Rate must be a positive number')
+      return
+    }
+
+    setSaving(currency)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/fx-rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ currency, rate })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save rate')
+      }
+
+      setDrafts(current => ({ ...current, [currency]: '' }))
+      await fetchRates()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">FX Rates</h1>
+        <p className="text-gray-600 mt-1">
+          Catalog prices are in {base}. New orders lock the current rate for the buyer&apos;s currency.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading rates...</div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-6 py-3">Currency</th>
+                  <th className="px-6 py-3">Current rate (1 {base} =)</th>
+                  <th className="px-6 py-3">Since</th>
+                  <th className="px-6 py-3">New rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-sm">
+                {SUPPORTED_CURRENCIES.filter(currency => currency !== base).map((currency) => (
+                  <tr key={currency}>
+                    <td className="px-6 py-4 font-medium">{currency}</td>
+                    <td className="px-6 py-4">{rates[currency]?.rate ?? '—'}</td>
+                    <td className="px-6 py-4 text-gray-500">
+                      {rates[currency] ? new Date(rates[currency]!.effectiveAt).toLocaleString() : '—'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="number"
+                          step="any"
+                          min="0"
+                          value={drafts[currency] || ''}
+                          onChange={(e) => setDrafts(current => ({ ...current, [currency]: e.target.value }))}
+                          className="w-32 px-3 py-1 border border-gray-300 rounded-md"
+                        />
+                        <button
+                          onClick={() => handleSave(currency)}
+                          disabled={saving === currency || !drafts[currency]}
+                          className="px-3 py-1 bg-black text-white rounded-md text-sm hover:bg-gray-800 disabled:bg-gray-300"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h2 className="text-xl font-semibold mb-4">History</h2>
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-6 py-3">Effective</th>
+                  <th className="px-6 py-3">Currency</th>
+                  <th className="px-6 py-3">Rate</th>
+                  <th className="px-6 py-3">Source</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-sm">
+                {history.map((row) => (
+                  <tr key={row.id}>
+                    <td className="px-6 py-3 text-gray-500">{new Date(row.effective_at).toLocaleString()}</td>
+                    <td className="px-6 py-3">{row.quote_currency}</td>
+                    <td className="px-6 py-3">{row.rate}</td>
+                    <td className="px-6 py-3 capitalize">{row.source}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
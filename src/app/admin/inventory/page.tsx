@@ -74,6 +74,14 @@ export default function AdminInventoryPage() {
   }
 
   async function updateStock(stockId: string, updates: { quantity: number; reserved_quantity?: number }) {
+    const item = inventory.find(entry => entry.id === stockId)
+
+    // Added units are a restock: it goes through the server so the size's waitlist is offered them first
+    if (item && updates.quantity > item.quantity && (updates.reserved_quantity ?? 0) === (item.reserved_quantity || 0)) {
+      await restockStock(item, updates.quantity - item.quantity)
+      return
+    }
+
     try {
       const available_quantity = updates.quantity - (updates.reserved_quantity || 0)
 
@@ -97,6 +105,34 @@ export default function AdminInventoryPage() {
     }
   }
 
+  async function restockStock(item: InventoryItem, quantity: number) {
+    try {
+      const response = await fetch('/api/admin/inventory', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ productId: item.product_id, size: item.size, quantity })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restock')
+      }
+
+      if (data.waitlistOffers > 0) {
+        alert(`${data.waitlistOffers} of the new units are held for customers on the waitlist`)
+      }
+
+      await fetchInventory()
+      setIsEditModalOpen(false)
+      setSelectedItem(null)
+    } catch (err) {
+      console.error('Error restocking:', err)
+      alert(err instanceof Error ? err.message : 'Failed to restock')
+    }
+  }
+
   const filteredInventory = inventory.filter(item => {
     const productName = `${item.product?.brands?.name || ''} ${item.product?.name || ''}`.toLowerCase()
     const matchesSearch = productName.includes(searchTerm.toLowerCase()) ||
@@ -63,6 +63,12 @@ export default function AdminLayout({
               >
                 Orders
               </Link>
+              <Link
+                href="/admin/returns"
+                className="block px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                Returns
+              </Link>
               <Link
                 href="/admin/users"
                 className="block px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
@@ -87,6 +93,42 @@ export default function AdminLayout({
               >
                 Analytics
               </Link>
+              <Link
+                href="/admin/matches"
+                className="block px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                Product Matches
+              </Link>
+              <Link
+                href="/admin/fx-rates"
+                className="block px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                FX Rates
+              </Link>
+              <Link
+                href="/admin/pricing-rules"
+                className="block px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                Tax &amp; Shipping
+              </Link>
+              <Link
+                href="/admin/promotions"
+                className="block px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                Promotions
+              </Link>
+              <Link
+                href="/admin/search"
+                className="block px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                Search
+              </Link>
+              <Link
+                href="/admin/webhooks"
+                className="block px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                Webhooks
+              </Link>
               <hr className="my-4 border-gray-700" />
               <Link
                 href="/"
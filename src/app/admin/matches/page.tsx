@@ -0,0 +1,202 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+
+type ReviewStatus = 'pending' | 'merged' | 'rejected'
+
+interface MatchProduct {
+  id: string
+  name: string
+  sku?: string
+  colorway?: string
+  release_date?: string
+  retail_price?: number
+}
+
+interface MatchReview {
+  id: string
+  similarity: number
+  conflicting_fields: string[]
+  status: ReviewStatus
+  reviewed_at?: string
+  created_at: string
+  listing?: { platform: 'stockx' | 'goat'; kicksdb_id: string; external_slug: string }
+  product?: MatchProduct
+  candidate?: MatchProduct
+}
+
+const FIELDS: Array<{ key: keyof MatchProduct; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'sku', label: 'SKU' },
+  { key: 'colorway', label: 'Colorway' },
+  { key: 'release_date', label: 'Release' },
+  { key: 'retail_price', label: 'Retail' }
+]
+
+export default function ProductMatchesPage() {
+  const [status, setStatus] = useState<ReviewStatus>('pending')
+  const [reviews, setReviews] = useState<MatchReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [resolving, setResolving] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/kicks/matches?status=${status}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load match reviews')
+      }
+
+      setReviews(data.reviews || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchReviews()
+  }, [fetchReviews])
+
+  const handleResolve = async (id: string, action: 'merge' | 'reject') => {
+    setResolving(id)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/kicks/matches', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ id, action })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to resolve match')
+      }
+
+      setReviews(current => current.filter(review => review.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Product Matches</h1>
+          <p className="text-gray-600 mt-1">
+            Listings that look like a product from the other marketplace but were not merged automatically
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {(['pending', 'merged', 'rejected'] as ReviewStatus[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setStatus(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium capitalize ${
+                status === option ? 'bg-black text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading matches...</div>
+      ) : reviews.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center text-gray-500">
+          No {status} matches
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {reviews.map((review) => (
+            <div key={review.id} className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="text-sm text-gray-600">
+                  <span className="font-semibold text-gray-900">
+                    {Math.round(review.similarity * 100)}% similar
+                  </span>
+                  {review.listing && (
+                    <span> · new {review.listing.platform.toUpperCase()} listing {review.listing.external_slug}</span>
+                  )}
+                </div>
+                {review.status === 'pending' ? (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleResolve(review.id, 'merge')}
+                      disabled={resolving === review.id}
+                      className="px-4 py-2 bg-black text-white rounded-lg text-sm hover:bg-gray-800 disabled:bg-gray-300"
+                    >
+                      Merge
+                    </button>
+                    <button
+                      onClick={() => handleResolve(review.id, 'reject')}
+                      disabled={resolving === review.id}
+                      className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 disabled:text-gray-400"
+                    >
+                      Keep Separate
+                    </button>
+                  </div>
+                ) : (
+                  <span className="text-sm text-gray-500">
+                    {review.status} {review.reviewed_at && new Date(review.reviewed_at).toLocaleString()}
+                  </span>
+                )}
+              </div>
+
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2 pr-4 w-32" />
+                    <th className="py-2 pr-4">New listing</th>
+                    <th className="py-2">Existing product</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {FIELDS.map(({ key, label }) => (
+                    <tr
+                      key={key}
+                      className={review.conflicting_fields.includes(key === 'retail_price' ? 'retailPrice' : key) ? 'bg-yellow-50' : ''}
+                    >
+                      <td className="py-2 pr-4 text-gray-500">{label}</td>
+                      <td className="py-2 pr-4">{review.product?.[key] ?? '—'}</td>
+                      <td className="py-2">
+                        {review.candidate ? (
+                          key === 'name' ? (
+                            <Link href={`/products/${review.candidate.id}`} className="text-blue-600 hover:text-blue-800">
+                              {review.candidate.name}
+                            </Link>
+                          ) : (
+                            review.candidate[key] ?? '—'
+                          )
+                        ) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
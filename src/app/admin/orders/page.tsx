@@ -2,6 +2,12 @@
 
 import { useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase/client'
+import { PricingService } from '@/services/pricing'
+import type { OrderRefund, OrderStatus, OrderStatusChange } from '@/types/order'
+import type { FulfilmentItem, OrderFulfilment } from '@/services/shipments'
+import { CARRIERS, resolveCarrierCode, TRACKING_STATUS_LABELS } from '@/lib/carriers'
+import type { CarrierCode } from '@/lib/carriers'
+import type { DiscountLine } from '@/types/promotion'
 
 interface Order {
   id: string
@@ -11,8 +17,14 @@ interface Order {
   tax_amount: number | null
   shipping_amount: number | null
   discount_amount: number | null
+  discount_lines: DiscountLine[] | null
   total_amount: number
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded'
+  currency: string | null
+  refunded_amount: number | null
+  store_credit_amount: number | null
+  refund_requested_at: string | null
+  refund_request_reason: string | null
+  status: OrderStatus
   payment_status: string | null
   shipping_method: string | null
   tracking_number: string | null
@@ -28,6 +40,14 @@ interface Order {
   }
 }
 
+// Orders that have shipped or can ship
+const FULFILMENT_STATUSES: OrderStatus[] = ['processing', 'partially_shipped', 'shipped', 'delivered']
+
+const formatStatus = (status: string) => {
+  const label = status.replace('_', ' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
 export default function AdminOrdersPage() {
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
@@ -36,8 +56,11 @@ export default function AdminOrdersPage() {
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [isUpdateModalOpen, setIsUpdateModalOpen] = useState(false)
+  const [refundOrder, setRefundOrder] = useState<Order | null>(null)
+  const [detailOrder, setDetailOrder] = useState<Order | null>(null)
+  const [shipmentsOrder, setShipmentsOrder] = useState<Order | null>(null)
 
-  const orderStatuses = ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded']
+  const orderStatuses = ['pending', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded']
 
   useEffect(() => {
     fetchOrders()
@@ -70,36 +93,19 @@ export default function AdminOrdersPage() {
     }
   }
 
-  async function updateOrderStatus(orderId: string, newStatus: string, trackingNumber?: string) {
-    try {
-      const updateData: any = {
-        status: newStatus,
-        updated_at: new Date().toISOString()
-      }
-
-      if (newStatus === 'shipped' && trackingNumber) {
-        updateData.tracking_number = trackingNumber
-        updateData.shipped_at = new Date().toISOString()
-      }
-
-      if (newStatus === 'delivered') {
-        updateData.delivered_at = new Date().toISOString()
-      }
-
-      const { error } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', orderId)
-
-      if (error) throw error
+  // Throws the API's message so the modal can show why a change was refused
+  async function updateOrderStatus(orderId: string, newStatus: OrderStatus, trackingNumber?: string, note?: string) {
+    const response = await fetch(`/api/admin/orders/${orderId}/status`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: newStatus, trackingNumber, note })
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to update order status')
 
-      await fetchOrders()
-      setIsUpdateModalOpen(false)
-      setSelectedOrder(null)
-    } catch (err) {
-      console.error('Error updating order:', err)
-      alert('Failed to update order status')
-    }
+    await fetchOrders()
+    setIsUpdateModalOpen(false)
+    setSelectedOrder(null)
   }
 
   const filteredOrders = orders.filter(order => {
@@ -113,10 +119,21 @@ export default function AdminOrdersPage() {
     return matchesSearch && matchesStatus
   })
 
+  const getPaymentStatusColor = (status: string | null) => {
+    switch (status) {
+      case 'completed': return 'text-green-700'
+      case 'failed': return 'text-red-700'
+      case 'partially_refunded': return 'text-orange-700'
+      case 'refunded': return 'text-gray-700'
+      default: return 'text-gray-500'
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800'
       case 'processing': return 'bg-blue-100 text-blue-800'
+      case 'partially_shipped': return 'bg-indigo-100 text-indigo-800'
       case 'shipped': return 'bg-gray-100 text-gray-800'
       case 'delivered': return 'bg-green-100 text-green-800'
       case 'cancelled': return 'bg-red-100 text-red-800'
@@ -183,7 +200,7 @@ export default function AdminOrdersPage() {
                 <option value="all">All Status</option>
                 {orderStatuses.map(status => (
                   <option key={status} value={status}>
-                    {status.charAt(0).toUpperCase() + status.slice(1)}
+                    {formatStatus(status)}
                   </option>
                 ))}
               </select>
@@ -246,12 +263,25 @@ export default function AdminOrdersPage() {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      €{parseFloat(order.total_amount.toString()).toFixed(2)}
+                      {PricingService.formatPrice(Number(order.total_amount), order.currency || 'EUR')}
+                      {Number(order.refunded_amount) > 0 && (
+                        <div className="text-xs text-gray-500">
+                          Refunded {PricingService.formatPrice(Number(order.refunded_amount), order.currency || 'EUR')}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(order.status)}`}>
-                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                        {formatStatus(order.status)}
                       </span>
+                      <div className={`text-xs mt-1 ${getPaymentStatusColor(order.payment_status)}`}>
+                        Payment: {(order.payment_status || 'pending').replace('_', ' ')}
+                      </div>
+                      {order.refund_requested_at && order.payment_status !== 'refunded' && (
+                        <div className="text-xs mt-1 text-orange-700" title={order.refund_request_reason || undefined}>
+                          Refund requested
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {new Date(order.created_at).toLocaleDateString()}
@@ -266,11 +296,24 @@ export default function AdminOrdersPage() {
                       >
                         Update Status
                       </button>
+                      {FULFILMENT_STATUSES.includes(order.status) && (
+                        <button
+                          onClick={() => setShipmentsOrder(order)}
+                          className="text-indigo-600 hover:text-indigo-900 mr-3"
+                        >
+                          Shipments
+                        </button>
+                      )}
+                      {(order.payment_status === 'completed' || order.payment_status === 'partially_refunded') && (
+                        <button
+                          onClick={() => setRefundOrder(order)}
+                          className="text-red-600 hover:text-red-900 mr-3"
+                        >
+                          Refund
+                        </button>
+                      )}
                       <button
-                        onClick={() => {
-                          // TODO: Implement order details view
-                          alert('Order details view not implemented yet')
-                        }}
+                        onClick={() => setDetailOrder(order)}
                         className="text-gray-600 hover:text-gray-900"
                       >
                         View Details
@@ -295,6 +338,35 @@ export default function AdminOrdersPage() {
           onUpdate={updateOrderStatus}
         />
       )}
+
+      {/* Order Detail Modal */}
+      {detailOrder && (
+        <OrderDetailModal
+          order={detailOrder}
+          onClose={() => setDetailOrder(null)}
+        />
+      )}
+
+      {/* Shipments Modal */}
+      {shipmentsOrder && (
+        <ShipmentsModal
+          order={shipmentsOrder}
+          onClose={() => setShipmentsOrder(null)}
+          onChanged={fetchOrders}
+        />
+      )}
+
+      {/* Refund Modal */}
+      {refundOrder && (
+        <RefundModal
+          order={refundOrder}
+          onClose={() => setRefundOrder(null)}
+          onRefunded={async () => {
+            setRefundOrder(null)
+            await fetchOrders()
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -306,17 +378,49 @@ function UpdateStatusModal({
 }: {
   order: Order
   onClose: () => void
-  onUpdate: (orderId: string, status: string, trackingNumber?: string) => void
+  onUpdate: (orderId: string, status: OrderStatus, trackingNumber?: string, note?: string) => Promise<void>
 }) {
-  const [newStatus, setNewStatus] = useState(order.status)
+  const [allowedStatuses, setAllowedStatuses] = useState<OrderStatus[]>([])
+  const [newStatus, setNewStatus] = useState<OrderStatus | ''>('')
   const [trackingNumber, setTrackingNumber] = useState(order.tracking_number || '')
-  const [notes, setNotes] = useState(order.notes || '')
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Only the statuses the order can move to from where it is now
+  useEffect(() => {
+    async function fetchAllowedStatuses() {
+      try {
+        const response = await fetch(`/api/admin/orders/${order.id}/status`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load order status')
+
+        setAllowedStatuses(data.allowedStatuses)
+        setNewStatus(data.allowedStatuses[0] || '')
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load order status')
+      } finally {
+        setLoading(false)
+      }
+    }
 
-  const orderStatuses = ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded']
+    fetchAllowedStatuses()
+  }, [order.id])
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    onUpdate(order.id, newStatus, trackingNumber || undefined)
+    if (!newStatus) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      await onUpdate(order.id, newStatus, trackingNumber || undefined, notes || undefined)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order status')
+    } finally {
+      setSubmitting(false)
+    }
   }
 
   return (
@@ -327,51 +431,69 @@ function UpdateStatusModal({
             Update Order #{order.order_number}
           </h3>
 
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-sm text-red-600">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="animate-pulse h-24 bg-gray-200 rounded"></div>
+          ) : allowedStatuses.length === 0 ? (
+            <p className="text-sm text-gray-600 mb-4">
+              A {formatStatus(order.status).toLowerCase()} order cannot be changed by hand. Payments, shipments
+              and refunds move it on.
+            </p>
+          ) : null}
+
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Status
-              </label>
-              <select
-                value={newStatus}
-                onChange={(e) => setNewStatus(e.target.value as any)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                {orderStatuses.map(status => (
-                  <option key={status} value={status}>
-                    {status.charAt(0).toUpperCase() + status.slice(1)}
-                  </option>
-                ))}
-              </select>
-            </div>
+            {allowedStatuses.length > 0 && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Status
+                  </label>
+                  <select
+                    value={newStatus}
+                    onChange={(e) => setNewStatus(e.target.value as OrderStatus)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {allowedStatuses.map(status => (
+                      <option key={status} value={status}>
+                        {formatStatus(status)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
 
-            {(newStatus === 'shipped' || order.tracking_number) && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Tracking Number
-                </label>
-                <input
-                  type="text"
-                  value={trackingNumber}
-                  onChange={(e) => setTrackingNumber(e.target.value)}
-                  placeholder="Enter tracking number"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
-              </div>
-            )}
+                {newStatus === 'shipped' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Tracking Number
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      value={trackingNumber}
+                      onChange={(e) => setTrackingNumber(e.target.value)}
+                      placeholder="Enter tracking number"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Admin Notes
-              </label>
-              <textarea
-                value={notes}
-                onChange={(e) => setNotes(e.target.value)}
-                placeholder="Internal notes (optional)"
-                rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Note
+                  </label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder={newStatus === 'cancelled' ? 'Reason (sent to the customer)' : 'Shown on the order timeline (optional)'}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </>
+            )}
 
             <div className="flex justify-end space-x-3 pt-4">
               <button
@@ -383,7 +505,8 @@ function UpdateStatusModal({
               </button>
               <button
                 type="submit"
-                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                disabled={loading || submitting || !newStatus || (newStatus === 'shipped' && !trackingNumber.trim())}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
               >
                 Update Order
               </button>
@@ -393,4 +516,668 @@ function UpdateStatusModal({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+function OrderDetailModal({
+  order,
+  onClose
+}: {
+  order: Order
+  onClose: () => void
+}) {
+  const [history, setHistory] = useState<OrderStatusChange[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const currency = order.currency || 'EUR'
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        const response = await fetch(`/api/admin/orders/${order.id}/status`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load order history')
+
+        setHistory(data.history)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load order history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [order.id])
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">
+          Order #{order.order_number}
+        </h3>
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm mb-6">
+          <dt className="text-gray-500">Customer</dt>
+          <dd className="text-gray-900">{order.user?.full_name || 'N/A'} ({order.user?.email || 'N/A'})</dd>
+          <dt className="text-gray-500">Placed</dt>
+          <dd className="text-gray-900">{new Date(order.created_at).toLocaleString()}</dd>
+          <dt className="text-gray-500">Total</dt>
+          <dd className="text-gray-900">
+            {PricingService.formatPrice(Number(order.total_amount), currency)}
+            {Number(order.refunded_amount) > 0 && (
+              <> (refunded {PricingService.formatPrice(Number(order.refunded_amount), currency)})</>
+            )}
+          </dd>
+          {order.discount_lines && order.discount_lines.length > 0 && (
+            <>
+              <dt className="text-gray-500">Discounts</dt>
+              <dd className="text-gray-900">
+                {order.discount_lines.map(line => (
+                  <div key={`${line.promotionId}-${line.target}`}>
+                    {line.code} · {line.target === 'shipping' ? 'free shipping' : line.name} · -{PricingService.formatPrice(line.amount, currency)}
+                  </div>
+                ))}
+              </dd>
+            </>
+          )}
+          <dt className="text-gray-500">Status</dt>
+          <dd className="text-gray-900">
+            {order.status} · payment {(order.payment_status || 'pending').replace('_', ' ')}
+          </dd>
+          {order.tracking_number && (
+            <>
+              <dt className="text-gray-500">Tracking</dt>
+              <dd className="text-gray-900">{order.tracking_number}</dd>
+            </>
+          )}
+          {order.customer_notes && (
+            <>
+              <dt className="text-gray-500">Customer Notes</dt>
+              <dd className="text-gray-900">{order.customer_notes}</dd>
+            </>
+          )}
+        </dl>
+
+        <h4 className="text-sm font-medium text-gray-900 mb-2">Timeline</h4>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-sm text-red-600">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="animate-pulse h-24 bg-gray-200 rounded"></div>
+        ) : (
+          <ol className="border-l-2 border-gray-200 ml-2 space-y-4 mb-4">
+            {history.map(change => (
+              <li key={change.id} className="ml-4">
+                <div className="text-sm text-gray-900">
+                  {change.fromStatus ? `${change.fromStatus} → ${change.toStatus}` : change.toStatus}
+                  {change.fromPaymentStatus !== change.toPaymentStatus && change.toPaymentStatus && (
+                    <span className="text-gray-500"> · payment {change.toPaymentStatus.replace('_', ' ')}</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(change.createdAt).toLocaleString()}
+                  {change.changedBy && ` · by ${change.changedBy === order.user_id ? 'customer' : 'admin'}`}
+                </div>
+                {change.note && <div className="text-xs text-gray-600 mt-1 whitespace-pre-line">{change.note}</div>}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function ShipmentsModal({
+  order,
+  onClose,
+  onChanged
+}: {
+  order: Order
+  onClose: () => void
+  onChanged: () => void
+}) {
+  const [fulfilment, setFulfilment] = useState<OrderFulfilment | null>(null)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [carrierCode, setCarrierCode] = useState<CarrierCode | ''>('')
+  const [carrier, setCarrier] = useState('')
+  const [trackingNumber, setTrackingNumber] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // A known carrier is tracked automatically; "Other" takes a free-text name
+  const carrierName = carrierCode
+    ? CARRIERS.find(option => option.code === carrierCode)?.name || carrier
+    : carrier
+
+  async function fetchFulfilment() {
+    try {
+      const response = await fetch(`/api/admin/orders/${order.id}/shipments`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load shipments')
+
+      setFulfilment(data)
+      setCarrier(current => current || data.defaultCarrier)
+      setCarrierCode(current => current || resolveCarrierCode(data.defaultCarrier) || '')
+      // Everything left to ship is selected by default
+      setQuantities(Object.fromEntries(
+        data.items.map((item: FulfilmentItem) => [item.id, item.unshippedQuantity])
+      ))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load shipments')
+    }
+  }
+
+  useEffect(() => {
+    fetchFulfilment()
+  }, [order.id])
+
+  const selectedItems = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+
+  const canShip = fulfilment !== null &&
+    (fulfilment.status === 'processing' || fulfilment.status === 'partially_shipped') &&
+    fulfilment.items.some(item => item.unshippedQuantity > 0)
+
+  async function createShipment(e: React.FormEvent) {
+    e.preventDefault()
+
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const response = await fetch(`/api/admin/orders/${order.id}/shipments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: selectedItems, carrier: carrierName, carrierCode: carrierCode || undefined, trackingNumber })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to create shipment')
+
+      setTrackingNumber('')
+      await fetchFulfilment()
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create shipment')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  async function markDelivered(shipmentId: string) {
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const response = await fetch(`/api/admin/orders/${order.id}/shipments/${shipmentId}/deliver`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to mark shipment delivered')
+
+      await fetchFulfilment()
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark shipment delivered')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  async function refreshTracking() {
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const response = await fetch('/api/admin/shipments/track', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: order.id })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to refresh tracking')
+      if (data.failed > 0) setError(`${data.failed} shipment(s) could not be tracked; see the server logs`)
+
+      await fetchFulfilment()
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh tracking')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const itemLabel = (orderItemId: string) => {
+    const item = fulfilment?.items.find(candidate => candidate.id === orderItemId)
+    return item ? `${item.productBrand} ${item.productName} (Size ${item.size})` : 'Unknown item'
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">
+          Shipments for Order #{order.order_number}
+        </h3>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-sm text-red-600">{error}</div>
+        )}
+
+        {!fulfilment ? (
+          <div className="animate-pulse h-24 bg-gray-200 rounded"></div>
+        ) : (
+          <>
+            {fulfilment.shipments.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">Nothing has shipped yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mb-4">
+                {fulfilment.shipments.map(shipment => (
+                  <li key={shipment.id} className="py-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">
+                        Shipment {shipment.shipmentNumber} · {shipment.carrier} · <span className="font-mono">{shipment.trackingNumber}</span>
+                      </span>
+                      {shipment.status === 'delivered' ? (
+                        <span className="text-green-700">
+                          Delivered {shipment.deliveredAt && new Date(shipment.deliveredAt).toLocaleDateString()}
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => markDelivered(shipment.id)}
+                          disabled={submitting}
+                          className="text-blue-600 hover:text-blue-900 disabled:text-gray-400"
+                        >
+                          Mark Delivered
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Shipped {new Date(shipment.shippedAt).toLocaleDateString()}
+                      {' · '}
+                      {shipment.items.map(line => `${itemLabel(line.orderItemId)} × ${line.quantity}`).join(', ')}
+                    </div>
+                    <div className="flex items-center gap-2 mt-1 text-xs">
+                      {shipment.carrierCode === null ? (
+                        <span className="text-gray-400">Not tracked automatically</span>
+                      ) : (
+                        <span className="text-gray-600">
+                          {shipment.trackingStatus ? TRACKING_STATUS_LABELS[shipment.trackingStatus] : 'Waiting for the carrier'}
+                        </span>
+                      )}
+                      {shipment.stuckAt && shipment.status !== 'delivered' && (
+                        <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800">
+                          Stuck since {new Date(shipment.stuckAt).toLocaleDateString()}
+                        </span>
+                      )}
+                      {shipment.trackingUrl && (
+                        <a
+                          href={shipment.trackingUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          Carrier tracking
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {fulfilment.shipments.some(shipment => shipment.status !== 'delivered' && shipment.carrierCode !== null) && (
+              <div className="flex justify-end mb-4">
+                <button
+                  onClick={refreshTracking}
+                  disabled={submitting}
+                  className="text-sm text-blue-600 hover:text-blue-900 disabled:text-gray-400"
+                >
+                  Refresh Tracking
+                </button>
+              </div>
+            )}
+
+            {canShip && (
+              <form onSubmit={createShipment} className="border-t border-gray-200 pt-4 space-y-3">
+                <h4 className="text-sm font-medium text-gray-900">New Shipment</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 uppercase">
+                      <th className="py-2">Item</th>
+                      <th className="py-2">Shipped</th>
+                      <th className="py-2">Ship Now</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {fulfilment.items.map(item => (
+                      <tr key={item.id}>
+                        <td className="py-2">
+                          <div className="font-medium text-gray-900">{item.productBrand} {item.productName}</div>
+                          <div className="text-xs text-gray-500">Size {item.size}</div>
+                        </td>
+                        <td className="py-2">
+                          {item.shippedQuantity} / {item.quantity - item.refundedQuantity}
+                        </td>
+                        <td className="py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            max={item.unshippedQuantity}
+                            disabled={item.unshippedQuantity === 0}
+                            value={quantities[item.id] || 0}
+                            onChange={(e) => setQuantities({
+                              ...quantities,
+                              [item.id]: Math.max(0, Math.min(item.unshippedQuantity, parseInt(e.target.value) || 0))
+                            })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <select
+                    value={carrierCode}
+                    onChange={(e) => setCarrierCode(e.target.value as CarrierCode | '')}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {CARRIERS.map(option => (
+                      <option key={option.code} value={option.code}>{option.name}</option>
+                    ))}
+                    <option value="">Other (not tracked)</option>
+                  </select>
+                  {carrierCode === '' && (
+                    <input
+                      type="text"
+                      required
+                      value={carrier}
+                      onChange={(e) => setCarrier(e.target.value)}
+                      placeholder="Carrier"
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  )}
+                  <input
+                    type="text"
+                    required
+                    value={trackingNumber}
+                    onChange={(e) => setTrackingNumber(e.target.value)}
+                    placeholder="Tracking number"
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={submitting || selectedItems.length === 0 || !carrierName.trim() || !trackingNumber.trim()}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                  >
+                    Ship Selected Items
+                  </button>
+                </div>
+              </form>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface RefundableLine {
+  id: string
+  productName: string
+  productBrand: string
+  size: string
+  quantity: number
+  refundedQuantity: number
+  unitPrice: number
+}
+
+function RefundModal({
+  order,
+  onClose,
+  onRefunded
+}: {
+  order: Order
+  onClose: () => void
+  onRefunded: () => void
+}) {
+  const [lines, setLines] = useState<RefundableLine[]>([])
+  const [refunds, setRefunds] = useState<OrderRefund[]>([])
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [reason, setReason] = useState(order.refund_request_reason || '')
+  const [restock, setRestock] = useState(true)
+  const [asStoreCredit, setAsStoreCredit] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const currency = order.currency || 'EUR'
+
+  useEffect(() => {
+    async function fetchRefunds() {
+      try {
+        const response = await fetch(`/api/admin/orders/${order.id}/refunds`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load refunds')
+
+        setLines(data.order.items)
+        setRefunds(data.refunds)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load refunds')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRefunds()
+  }, [order.id])
+
+  const selectedItems = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+
+  async function submitRefund(items?: Array<{ orderItemId: string; quantity: number }>) {
+    const message = items
+      ? 'Refund the selected items to the customer?'
+      : 'Refund everything left on this order, including shipping?'
+    if (!confirm(message)) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const response = await fetch(`/api/admin/orders/${order.id}/refunds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items, reason: reason || undefined, restock, asStoreCredit })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Refund failed')
+
+      onRefunded()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Refund failed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">
+          Refund Order #{order.order_number}
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Paid {PricingService.formatPrice(Number(order.total_amount), currency)}
+          {' · '}
+          Refunded {PricingService.formatPrice(Number(order.refunded_amount || 0), currency)}
+          {Number(order.store_credit_amount || 0) > 0 && (
+            <>
+              {' · '}
+              {PricingService.formatPrice(Number(order.store_credit_amount), currency)} paid with store credit
+            </>
+          )}
+        </p>
+
+        {order.refund_requested_at && (
+          <div className="bg-orange-50 border border-orange-200 rounded p-3 mb-4 text-sm text-orange-800">
+            Customer requested a refund on {new Date(order.refund_requested_at).toLocaleDateString()}
+            {order.refund_request_reason && <>: “{order.refund_request_reason}”</>}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-sm text-red-600">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="animate-pulse h-24 bg-gray-200 rounded"></div>
+        ) : (
+          <>
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2">Item</th>
+                  <th className="py-2">Unit Price</th>
+                  <th className="py-2">Refunded</th>
+                  <th className="py-2">Refund Qty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map(line => {
+                  const remaining = line.quantity - line.refundedQuantity
+                  return (
+                    <tr key={line.id}>
+                      <td className="py-2">
+                        <div className="font-medium text-gray-900">{line.productBrand} {line.productName}</div>
+                        <div className="text-xs text-gray-500">Size {line.size}</div>
+                      </td>
+                      <td className="py-2">{PricingService.formatPrice(line.unitPrice, currency)}</td>
+                      <td className="py-2">{line.refundedQuantity} / {line.quantity}</td>
+                      <td className="py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          disabled={remaining === 0}
+                          value={quantities[line.id] || 0}
+                          onChange={(e) => setQuantities({
+                            ...quantities,
+                            [line.id]: Math.max(0, Math.min(remaining, parseInt(e.target.value) || 0))
+                          })}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+
+            <div className="space-y-3 mb-4">
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (shown to the customer)"
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={restock}
+                  onChange={(e) => setRestock(e.target.checked)}
+                  className="mr-2"
+                />
+                Return refunded sizes to stock
+              </label>
+              {order.user_id && (
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={asStoreCredit}
+                    onChange={(e) => setAsStoreCredit(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Refund as store credit instead of to the card
+                </label>
+              )}
+            </div>
+
+            {refunds.length > 0 && (
+              <div className="mb-4">
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Previous Refunds</h4>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  {refunds.map(refund => (
+                    <li key={refund.id}>
+                      {new Date(refund.createdAt).toLocaleString()}
+                      {' · '}
+                      {PricingService.formatPrice(refund.amount, refund.currency)}
+                      {refund.storeCreditAmount > 0 && ` (${PricingService.formatPrice(refund.storeCreditAmount, refund.currency)} as store credit)`}
+                      {' · '}
+                      {refund.status}
+                      {refund.source === 'provider' && ' (issued in payment provider)'}
+                      {refund.reason && ` · ${refund.reason}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => submitRefund(selectedItems)}
+            disabled={loading || submitting || selectedItems.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-gray-400"
+          >
+            Refund Selected
+          </button>
+          <button
+            type="button"
+            onClick={() => submitRefund()}
+            disabled={loading || submitting}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-800 rounded-md hover:bg-red-900 disabled:bg-gray-400"
+          >
+            Refund Everything Left
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,425 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { ShippingRate, ShippingZone, TaxRule } from '@/types/pricing'
+
+type RuleType = 'zone' | 'rate' | 'tax'
+
+const EMPTY_ZONE = { name: '', countries: '' }
+const EMPTY_RATE = {
+  zone_id: '',
+  carrier: '',
+  service_level: 'standard',
+  base_amount: '',
+  per_item_amount: '0',
+  per_kg_amount: '0',
+  min_quantity: '1',
+  max_quantity: '',
+  max_weight_kg: '',
+  free_shipping_threshold: '',
+  estimated_days_min: '',
+  estimated_days_max: ''
+}
+const EMPTY_TAX = { country: '', region: '', name: 'VAT', rate: '', applies_to_shipping: true }
+
+function toNumber(value: string): number | null {
+  if (value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toDraft(value: number | null): string {
+  return value === null ? '' : String(value)
+}
+
+export default function PricingRulesPage() {
+  const [zones, setZones] = useState<ShippingZone[]>([])
+  const [rates, setRates] = useState<ShippingRate[]>([])
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([])
+  const [zoneDraft, setZoneDraft] = useState<typeof EMPTY_ZONE & { id?: string }>(EMPTY_ZONE)
+  const [rateDraft, setRateDraft] = useState<typeof EMPTY_RATE & { id?: string }>(EMPTY_RATE)
+  const [taxDraft, setTaxDraft] = useState<typeof EMPTY_TAX & { id?: string }>(EMPTY_TAX)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/pricing-rules')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load pricing rules')
+      }
+
+      setZones(data.zones || [])
+      setRates(data.rates || [])
+      setTaxRules(data.taxRules || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const saveRule = async (type: RuleType, rule: Record<string, unknown>): Promise<boolean> => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/pricing-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ type, rule })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save rule')
+      }
+
+      await fetchRules()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveZone = async () => {
+    const countries = zoneDraft.countries.split(',').map(c => c.trim()).filter(Boolean)
+    if (!zoneDraft.name || countries.length === 0) {
+      setError('A zone needs a name and at least one country')
+      return
+    }
+    if (await saveRule('zone', { id: zoneDraft.id, name: zoneDraft.name, countries })) {
+      setZoneDraft(EMPTY_ZONE)
+    }
+  }
+
+  const handleSaveRate = async () => {
+    const baseAmount = toNumber(rateDraft.base_amount)
+    if (!rateDraft.zone_id || !rateDraft.carrier || baseAmount === null) {
+      setError('A rate needs a zone, a carrier and a base amount')
+      return
+    }
+    const saved = await saveRule('rate', {
+      id: rateDraft.id,
+      zone_id: rateDraft.zone_id,
+      carrier: rateDraft.carrier,
+      service_level: rateDraft.service_level || 'standard',
+      base_amount: baseAmount,
+      per_item_amount: toNumber(rateDraft.per_item_amount) ?? 0,
+      per_kg_amount: toNumber(rateDraft.per_kg_amount) ?? 0,
+      min_quantity: toNumber(rateDraft.min_quantity) ?? 1,
+      max_quantity: toNumber(rateDraft.max_quantity),
+      max_weight_kg: toNumber(rateDraft.max_weight_kg),
+      free_shipping_threshold: toNumber(rateDraft.free_shipping_threshold),
+      estimated_days_min: toNumber(rateDraft.estimated_days_min),
+      estimated_days_max: toNumber(rateDraft.estimated_days_max)
+    })
+    if (saved) setRateDraft(EMPTY_RATE)
+  }
+
+  const handleSaveTax = async () => {
+    const percent = toNumber(taxDraft.rate)
+    if (!taxDraft.country || !taxDraft.name || percent === null) {
+      setError('A tax rule needs a country, a name and a rate')
+      return
+    }
+    const saved = await saveRule('tax', {
+      id: taxDraft.id,
+      country: taxDraft.country,
+      region: taxDraft.region || null,
+      name: taxDraft.name,
+      rate: percent / 100,
+      applies_to_shipping: taxDraft.applies_to_shipping
+    })
+    if (saved) setTaxDraft(EMPTY_TAX)
+  }
+
+  const zoneName = (zoneId: string) => zones.find(zone => zone.id === zoneId)?.name || '—'
+
+  const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm'
+  const buttonClass = 'px-3 py-1 bg-black text-white rounded-md text-sm hover:bg-gray-800 disabled:bg-gray-300'
+
+  const activeToggle = (type: RuleType, rule: { id: string; is_active: boolean }) => (
+    <button
+      onClick={() => saveRule(type, { id: rule.id, is_active: !rule.is_active })}
+      disabled={saving}
+      className={`px-2 py-1 text-xs rounded-full ${
+        rule.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+      }`}
+    >
+      {rule.is_active ? 'Active' : 'Inactive'}
+    </button>
+  )
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Tax &amp; Shipping</h1>
+        <p className="text-gray-600 mt-1">
+          Order totals are computed from these rules at checkout. Amounts are in EUR.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading rules...</div>
+      ) : (
+        <>
+          <h2 className="text-xl font-semibold mb-4">Shipping zones</h2>
+          <div className="bg-white rounded-lg shadow overflow-hidden mb-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-6 py-3">Name</th>
+                  <th className="px-6 py-3">Countries</th>
+                  <th className="px-6 py-3">Status</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-sm">
+                {zones.map((zone) => (
+                  <tr key={zone.id}>
+                    <td className="px-6 py-3 font-medium">{zone.name}</td>
+                    <td className="px-6 py-3">{zone.countries.join(', ')}</td>
+                    <td className="px-6 py-3">{activeToggle('zone', zone)}</td>
+                    <td className="px-6 py-3 text-right">
+                      <button
+                        onClick={() => setZoneDraft({ id: zone.id, name: zone.name, countries: zone.countries.join(', ') })}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Edit
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-10">
+            <input
+              placeholder="Zone name"
+              value={zoneDraft.name}
+              onChange={(e) => setZoneDraft({ ...zoneDraft, name: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              placeholder="Countries (DE, FR, ...)"
+              value={zoneDraft.countries}
+              onChange={(e) => setZoneDraft({ ...zoneDraft, countries: e.target.value })}
+              className={`${inputClass} w-72`}
+            />
+            <button onClick={handleSaveZone} disabled={saving} className={buttonClass}>
+              {zoneDraft.id ? 'Update zone' : 'Add zone'}
+            </button>
+            {zoneDraft.id && (
+              <button onClick={() => setZoneDraft(EMPTY_ZONE)} className="text-sm text-gray-600">Cancel</button>
+            )}
+          </div>
+
+          <h2 className="text-xl font-semibold mb-4">Carrier rates</h2>
+          <div className="bg-white rounded-lg shadow overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-4 py-3">Zone</th>
+                  <th className="px-4 py-3">Carrier</th>
+                  <th className="px-4 py-3">Base</th>
+                  <th className="px-4 py-3">Per item</th>
+                  <th className="px-4 py-3">Per kg</th>
+                  <th className="px-4 py-3">Quantity</th>
+                  <th className="px-4 py-3">Max kg</th>
+                  <th className="px-4 py-3">Free over</th>
+                  <th className="px-4 py-3">Days</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-sm">
+                {rates.map((rate) => (
+                  <tr key={rate.id}>
+                    <td className="px-4 py-3">{zoneName(rate.zone_id)}</td>
+                    <td className="px-4 py-3 font-medium">{rate.carrier} {rate.service_level}</td>
+                    <td className="px-4 py-3">{rate.base_amount}</td>
+                    <td className="px-4 py-3">{rate.per_item_amount}</td>
+                    <td className="px-4 py-3">{rate.per_kg_amount}</td>
+                    <td className="px-4 py-3">{rate.min_quantity}–{rate.max_quantity ?? '∞'}</td>
+                    <td className="px-4 py-3">{rate.max_weight_kg ?? '—'}</td>
+                    <td className="px-4 py-3">{rate.free_shipping_threshold ?? '—'}</td>
+                    <td className="px-4 py-3">
+                      {rate.estimated_days_min ?? '?'}–{rate.estimated_days_max ?? '?'}
+                    </td>
+                    <td className="px-4 py-3">{activeToggle('rate', rate)}</td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => setRateDraft({
+                          id: rate.id,
+                          zone_id: rate.zone_id,
+                          carrier: rate.carrier,
+                          service_level: rate.service_level,
+                          base_amount: String(rate.base_amount),
+                          per_item_amount: String(rate.per_item_amount),
+                          per_kg_amount: String(rate.per_kg_amount),
+                          min_quantity: String(rate.min_quantity),
+                          max_quantity: toDraft(rate.max_quantity),
+                          max_weight_kg: toDraft(rate.max_weight_kg),
+                          free_shipping_threshold: toDraft(rate.free_shipping_threshold),
+                          estimated_days_min: toDraft(rate.estimated_days_min),
+                          estimated_days_max: toDraft(rate.estimated_days_max)
+                        })}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Edit
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-10">
+            <select
+              value={rateDraft.zone_id}
+              onChange={(e) => setRateDraft({ ...rateDraft, zone_id: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Zone</option>
+              {zones.map((zone) => (
+                <option key={zone.id} value={zone.id}>{zone.name}</option>
+              ))}
+            </select>
+            {([
+              ['carrier', 'Carrier'],
+              ['service_level', 'Service level'],
+              ['base_amount', 'Base'],
+              ['per_item_amount', 'Per item'],
+              ['per_kg_amount', 'Per kg'],
+              ['min_quantity', 'Min qty'],
+              ['max_quantity', 'Max qty'],
+              ['max_weight_kg', 'Max kg'],
+              ['free_shipping_threshold', 'Free over'],
+              ['estimated_days_min', 'Min days'],
+              ['estimated_days_max', 'Max days']
+            ] as Array<[keyof typeof EMPTY_RATE, string]>).map(([field, label]) => (
+              <input
+                key={field}
+                placeholder={label}
+                value={rateDraft[field]}
+                onChange={(e) => setRateDraft({ ...rateDraft, [field]: e.target.value })}
+                className={`${inputClass} w-28`}
+              />
+            ))}
+            <button onClick={handleSaveRate} disabled={saving} className={buttonClass}>
+              {rateDraft.id ? 'Update rate' : 'Add rate'}
+            </button>
+            {rateDraft.id && (
+              <button onClick={() => setRateDraft(EMPTY_RATE)} className="text-sm text-gray-600">Cancel</button>
+            )}
+          </div>
+
+          <h2 className="text-xl font-semibold mb-4">Tax rules</h2>
+          <div className="bg-white rounded-lg shadow overflow-hidden mb-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-6 py-3">Country</th>
+                  <th className="px-6 py-3">Region</th>
+                  <th className="px-6 py-3">Name</th>
+                  <th className="px-6 py-3">Rate</th>
+                  <th className="px-6 py-3">On shipping</th>
+                  <th className="px-6 py-3">Status</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-sm">
+                {taxRules.map((rule) => (
+                  <tr key={rule.id}>
+                    <td className="px-6 py-3 font-medium">{rule.country}</td>
+                    <td className="px-6 py-3">{rule.region || 'All'}</td>
+                    <td className="px-6 py-3">{rule.name}</td>
+                    <td className="px-6 py-3">{(Number(rule.rate) * 100).toFixed(2)}%</td>
+                    <td className="px-6 py-3">{rule.applies_to_shipping ? 'Yes' : 'No'}</td>
+                    <td className="px-6 py-3">{activeToggle('tax', rule)}</td>
+                    <td className="px-6 py-3 text-right">
+                      <button
+                        onClick={() => setTaxDraft({
+                          id: rule.id,
+                          country: rule.country,
+                          region: rule.region || '',
+                          name: rule.name,
+                          rate: String(Number(rule.rate) * 100),
+                          applies_to_shipping: rule.applies_to_shipping
+                        })}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Edit
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              placeholder="Country"
+              value={taxDraft.country}
+              onChange={(e) => setTaxDraft({ ...taxDraft, country: e.target.value })}
+              className={`${inputClass} w-24`}
+            />
+            <input
+              placeholder="Region"
+              value={taxDraft.region}
+              onChange={(e) => setTaxDraft({ ...taxDraft, region: e.target.value })}
+              className={`${inputClass} w-24`}
+            />
+            <input
+              placeholder="Name"
+              value={taxDraft.name}
+              onChange={(e) => setTaxDraft({ ...taxDraft, name: e.target.value })}
+              className={`${inputClass} w-32`}
+            />
+            <input
+              placeholder="Rate %"
+              value={taxDraft.rate}
+              onChange={(e) => setTaxDraft({ ...taxDraft, rate: e.target.value })}
+              className={`${inputClass} w-24`}
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={taxDraft.applies_to_shipping}
+                onChange={(e) => setTaxDraft({ ...taxDraft, applies_to_shipping: e.target.checked })}
+                className="mr-2"
+              />
+              Applies to shipping
+            </label>
+            <button onClick={handleSaveTax} disabled={saving} className={buttonClass}>
+              {taxDraft.id ? 'Update rule' : 'Add rule'}
+            </button>
+            {taxDraft.id && (
+              <button onClick={() => setTaxDraft(EMPTY_TAX)} className="text-sm text-gray-600">Cancel</button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
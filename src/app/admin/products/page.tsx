@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase/client'
 import Link from 'next/link'
+import type { RaffleEntryStatus, RaffleSummary, ReleaseMode } from '@/types/raffle'
 
 interface Product {
   id: string
@@ -14,6 +15,7 @@ interface Product {
   current_price: number
   is_active: boolean
   is_featured: boolean
+  release_mode: ReleaseMode
   created_at: string
   product_stock: Array<{
     size: string
@@ -26,6 +28,7 @@ export default function AdminProducts() {
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [filterActive, setFilterActive] = useState<'all' | 'active' | 'inactive'>('all')
+  const [raffleProduct, setRaffleProduct] = useState<Product | null>(null)
   // Using imported supabase client
 
   useEffect(() => {
@@ -272,6 +275,11 @@ export default function AdminProducts() {
                         Featured
                       </span>
                     )}
+                    {product.release_mode === 'raffle' && (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
+                        Raffle
+                      </span>
+                    )}
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -296,6 +304,12 @@ export default function AdminProducts() {
                     >
                       {product.is_featured ? 'Unfeature' : 'Feature'}
                     </button>
+                    <button
+                      onClick={() => setRaffleProduct(product)}
+                      className="text-purple-600 hover:text-purple-900"
+                    >
+                      Raffle
+                    </button>
                     <button
                       onClick={() => deleteProduct(product.id)}
                       className="text-red-600 hover:text-red-900"
@@ -321,6 +335,280 @@ export default function AdminProducts() {
       <div className="mt-4 text-sm text-gray-600">
         Showing {filteredProducts.length} of {products.length} products
       </div>
+
+      {raffleProduct && (
+        <RaffleModal
+          product={raffleProduct}
+          onClose={() => setRaffleProduct(null)}
+          onReleaseModeChange={(releaseMode) => {
+            setProducts(products.map(p =>
+              p.id === raffleProduct.id ? { ...p, release_mode: releaseMode } : p
+            ))
+            setRaffleProduct({ ...raffleProduct, release_mode: releaseMode })
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+const ENTRY_STATUSES: RaffleEntryStatus[] = ['entered', 'won', 'alternate', 'claimed', 'expired', 'withdrawn']
+
+// Raffle release settings of one product: schedule a raffle, draw it once entries close, and switch
+// the product between raffle and standard release
+function RaffleModal({
+  product,
+  onClose,
+  onReleaseModeChange
+}: {
+  product: Product
+  onClose: () => void
+  onReleaseModeChange: (releaseMode: ReleaseMode) => void
+}) {
+  const [raffles, setRaffles] = useState<RaffleSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [entryOpensAt, setEntryOpensAt] = useState('')
+  const [entryClosesAt, setEntryClosesAt] = useState('')
+  const [claimMinutes, setClaimMinutes] = useState(60)
+
+  useEffect(() => {
+    loadRaffles()
+  }, [product.id])
+
+  const loadRaffles = async () => {
+    try {
+      const response = await fetch(`/api/admin/raffles?productId=${product.id}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load raffles')
+      setRaffles(data.raffles || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load raffles')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const send = async (url: string, method: string, body: unknown): Promise<any> => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Request failed')
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await send('/api/admin/raffles', 'POST', {
+      productId: product.id,
+      // datetime-local values are in the admin's time zone
+      entryOpensAt: new Date(entryOpensAt).toISOString(),
+      entryClosesAt: new Date(entryClosesAt).toISOString(),
+      claimMinutes
+    })
+    if (data) {
+      onReleaseModeChange('raffle')
+      await loadRaffles()
+    }
+  }
+
+  const handleAction = async (raffle: RaffleSummary, action: 'draw' | 'cancel') => {
+    const question = action === 'draw'
+      ? 'Draw this raffle now? Winners are notified and the seed is revealed.'
+      : 'Cancel this raffle? All entries are withdrawn.'
+    if (!confirm(question)) return
+
+    const data = await send(`/api/admin/raffles/${raffle.id}`, 'POST', { action })
+    if (data) {
+      if (action === 'draw') {
+        alert(`Drawn: ${data.wins} winner(s), ${data.alternates} alternate(s)`)
+      }
+      await loadRaffles()
+    }
+  }
+
+  const handleReleaseMode = async () => {
+    const releaseMode: ReleaseMode = product.release_mode === 'raffle' ? 'standard' : 'raffle'
+    const data = await send('/api/admin/raffles', 'PATCH', { productId: product.id, releaseMode })
+    if (data) {
+      onReleaseModeChange(releaseMode)
+    }
+  }
+
+  const scheduled = raffles.some(raffle => raffle.status === 'scheduled')
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+        <div className="mt-3 space-y-4">
+          <div className="flex justify-between items-start">
+            <h3 className="text-lg font-medium text-gray-900">
+              Raffle Release: {product.brand?.name} {product.name}
+            </h3>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              Close
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between bg-gray-50 p-3 rounded-md text-sm">
+            <span className="text-gray-700">
+              Release mode: <strong>{product.release_mode === 'raffle' ? 'Raffle (winners only)' : 'Standard'}</strong>
+            </span>
+            <button
+              onClick={handleReleaseMode}
+              disabled={saving}
+              className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+            >
+              {product.release_mode === 'raffle' ? 'Switch to standard release' : 'Switch to raffle mode'}
+            </button>
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          {loading ? (
+            <div className="text-sm text-gray-500">Loading raffles...</div>
+          ) : raffles.length === 0 ? (
+            <div className="text-sm text-gray-500">No raffles yet</div>
+          ) : (
+            <div className="space-y-3">
+              {raffles.map((raffle) => {
+                const closed = new Date(raffle.entry_closes_at) <= new Date()
+                return (
+                  <div key={raffle.id} className="border border-gray-200 rounded-md p-3 text-sm space-y-2">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-gray-900 capitalize">{raffle.status}</span>
+                      <span className="text-gray-500">
+                        {new Date(raffle.entry_opens_at).toLocaleString()} – {new Date(raffle.entry_closes_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="text-gray-600">
+                      Winners have {raffle.claim_minutes} minutes to pay
+                    </div>
+                    <div className="text-gray-600 break-all">
+                      Seed commitment: <code>{raffle.seed_commitment}</code>
+                    </div>
+                    {raffle.seed && (
+                      <div className="text-gray-600 break-all">
+                        Seed: <code>{raffle.seed}</code>
+                      </div>
+                    )}
+                    {Object.keys(raffle.entries).length > 0 ? (
+                      <table className="min-w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="pr-3">Size</th>
+                            {ENTRY_STATUSES.map(status => (
+                              <th key={status} className="pr-3 capitalize">{status}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {Object.entries(raffle.entries).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true })).map(([size, counts]) => (
+                            <tr key={size}>
+                              <td className="pr-3 font-medium">{size}</td>
+                              {ENTRY_STATUSES.map(status => (
+                                <td key={status} className="pr-3">{counts[status] || 0}</td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <div className="text-gray-500">No entries</div>
+                    )}
+                    {raffle.status === 'scheduled' && (
+                      <div className="flex justify-end gap-3">
+                        <button
+                          onClick={() => handleAction(raffle, 'cancel')}
+                          disabled={saving}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          Cancel Raffle
+                        </button>
+                        <button
+                          onClick={() => handleAction(raffle, 'draw')}
+                          disabled={saving || !closed}
+                          title={closed ? undefined : 'Entries are still open'}
+                          className="px-3 py-1 text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                        >
+                          Draw Winners
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {!loading && !scheduled && (
+            <form onSubmit={handleSchedule} className="space-y-3 border-t pt-4">
+              <h4 className="text-sm font-medium text-gray-900">Schedule a raffle</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Entries open</label>
+                  <input
+                    type="datetime-local"
+                    value={entryOpensAt}
+                    onChange={(e) => setEntryOpensAt(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Entries close</label>
+                  <input
+                    type="datetime-local"
+                    value={entryClosesAt}
+                    onChange={(e) => setEntryClosesAt(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Claim minutes</label>
+                  <input
+                    type="number"
+                    value={claimMinutes}
+                    onChange={(e) => setClaimMinutes(parseInt(e.target.value) || 0)}
+                    min="10"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+              <div className="text-xs text-gray-500">
+                Scheduling puts the product in raffle mode: it can then only be bought by drawn winners.
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  Schedule Raffle
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,413 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { PricingService } from '@/services/pricing'
+import { PROMOTION_TYPE_LABELS } from '@/types/promotion'
+import type { PromotionType, PromotionWithUsage } from '@/types/promotion'
+
+const EMPTY_PROMOTION = {
+  code: '',
+  name: '',
+  description: '',
+  type: 'percentage' as PromotionType,
+  value: '',
+  buy_quantity: '',
+  get_quantity: '',
+  brand_ids: '',
+  category_ids: '',
+  product_ids: '',
+  min_subtotal: '',
+  usage_limit: '',
+  usage_limit_per_user: '',
+  starts_at: '',
+  ends_at: '',
+  is_active: true
+}
+
+type PromotionDraft = typeof EMPTY_PROMOTION & { id?: string }
+
+function toNumber(value: string): number | null {
+  if (value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toDraft(value: number | null): string {
+  return value === null ? '' : String(value)
+}
+
+function toIds(value: string): string[] {
+  return value.split(',').map(id => id.trim()).filter(Boolean)
+}
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(iso: string | null): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function toIso(local: string): string | null {
+  return local ? new Date(local).toISOString() : null
+}
+
+function describeValue(promotion: PromotionWithUsage): string {
+  switch (promotion.type) {
+    case 'percentage':
+      return `${promotion.value}% off`
+    case 'fixed_amount':
+      return `${PricingService.formatPrice(promotion.value, 'EUR')} off`
+    case 'free_shipping':
+      return 'Free shipping'
+    case 'buy_x_get_y':
+      return `Buy ${promotion.buy_quantity} get ${promotion.get_quantity} at ${promotion.value}% off`
+  }
+}
+
+function describeWindow(promotion: PromotionWithUsage): string {
+  const format = (iso: string) => new Date(iso).toLocaleDateString()
+  if (promotion.starts_at && promotion.ends_at) return `${format(promotion.starts_at)} – ${format(promotion.ends_at)}`
+  if (promotion.starts_at) return `From ${format(promotion.starts_at)}`
+  if (promotion.ends_at) return `Until ${format(promotion.ends_at)}`
+  return 'Always'
+}
+
+export default function PromotionsPage() {
+  const [promotions, setPromotions] = useState<PromotionWithUsage[]>([])
+  const [draft, setDraft] = useState<PromotionDraft>(EMPTY_PROMOTION)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPromotions = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/promotions')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load promotions')
+      }
+
+      setPromotions(data.promotions || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPromotions()
+  }, [fetchPromotions])
+
+  const savePromotion = async (promotion: Record<string, unknown>): Promise<boolean> => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/promotions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ promotion })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save promotion')
+      }
+
+      await fetchPromotions()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!draft.code || !draft.name) {
+      setError('A promotion needs a code and a name')
+      return
+    }
+    const isBuyXGetY = draft.type === 'buy_x_get_y'
+    const saved = await savePromotion({
+      id: draft.id,
+      code: draft.code,
+      name: draft.name,
+      description: draft.description || null,
+      type: draft.type,
+      value: draft.type === 'free_shipping' ? 0 : toNumber(draft.value) ?? 0,
+      buy_quantity: isBuyXGetY ? toNumber(draft.buy_quantity) : null,
+      get_quantity: isBuyXGetY ? toNumber(draft.get_quantity) : null,
+      brand_ids: toIds(draft.brand_ids),
+      category_ids: toIds(draft.category_ids),
+      product_ids: toIds(draft.product_ids),
+      min_subtotal: toNumber(draft.min_subtotal),
+      usage_limit: toNumber(draft.usage_limit),
+      usage_limit_per_user: toNumber(draft.usage_limit_per_user),
+      starts_at: toIso(draft.starts_at),
+      ends_at: toIso(draft.ends_at),
+      is_active: draft.is_active
+    })
+    if (saved) setDraft(EMPTY_PROMOTION)
+  }
+
+  const handleDeactivate = async (promotion: PromotionWithUsage) => {
+    if (!confirm(`Deactivate ${promotion.code}? Customers will no longer be able to use it.`)) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/promotions?id=${promotion.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to deactivate promotion')
+      }
+
+      await fetchPromotions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const editPromotion = (promotion: PromotionWithUsage) => setDraft({
+    id: promotion.id,
+    code: promotion.code,
+    name: promotion.name,
+    description: promotion.description || '',
+    type: promotion.type,
+    value: String(promotion.value),
+    buy_quantity: toDraft(promotion.buy_quantity),
+    get_quantity: toDraft(promotion.get_quantity),
+    brand_ids: promotion.brand_ids.join(', '),
+    category_ids: promotion.category_ids.join(', '),
+    product_ids: promotion.product_ids.join(', '),
+    min_subtotal: toDraft(promotion.min_subtotal),
+    usage_limit: toDraft(promotion.usage_limit),
+    usage_limit_per_user: toDraft(promotion.usage_limit_per_user),
+    starts_at: toLocalInput(promotion.starts_at),
+    ends_at: toLocalInput(promotion.ends_at),
+    is_active: promotion.is_active
+  })
+
+  const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm'
+  const buttonClass = 'px-3 py-1 bg-black text-white rounded-md text-sm hover:bg-gray-800 disabled:bg-gray-300'
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Promotions</h1>
+        <p className="text-gray-600 mt-1">
+          Discount codes customers apply in the cart. Amounts are in EUR and codes are checked again when the order is placed.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading promotions...</div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-4 py-3">Code</th>
+                  <th className="px-4 py-3">Discount</th>
+                  <th className="px-4 py-3">Targets</th>
+                  <th className="px-4 py-3">Min subtotal</th>
+                  <th className="px-4 py-3">Used</th>
+                  <th className="px-4 py-3">Dates</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-sm">
+                {promotions.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-6 text-center text-gray-500">No promotions yet</td>
+                  </tr>
+                )}
+                {promotions.map((promotion) => {
+                  const targets = promotion.brand_ids.length + promotion.category_ids.length + promotion.product_ids.length
+                  return (
+                    <tr key={promotion.id}>
+                      <td className="px-4 py-3">
+                        <div className="font-mono font-medium">{promotion.code}</div>
+                        <div className="text-xs text-gray-500">{promotion.name}</div>
+                      </td>
+                      <td className="px-4 py-3">{describeValue(promotion)}</td>
+                      <td className="px-4 py-3">{targets === 0 ? 'Everything' : `${targets} targets`}</td>
+                      <td className="px-4 py-3">
+                        {promotion.min_subtotal === null ? '—' : PricingService.formatPrice(promotion.min_subtotal, 'EUR')}
+                      </td>
+                      <td className="px-4 py-3">
+                        {promotion.times_used}
+                        {promotion.usage_limit !== null && ` / ${promotion.usage_limit}`}
+                        {promotion.usage_limit_per_user !== null && (
+                          <div className="text-xs text-gray-500">{promotion.usage_limit_per_user} per customer</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">{describeWindow(promotion)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 text-xs rounded-full ${
+                          promotion.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                        }`}>
+                          {promotion.is_active ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <button onClick={() => editPromotion(promotion)} className="text-blue-600 hover:underline">
+                          Edit
+                        </button>
+                        {promotion.is_active && (
+                          <button
+                            onClick={() => handleDeactivate(promotion)}
+                            disabled={saving}
+                            className="ml-3 text-red-600 hover:underline"
+                          >
+                            Deactivate
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h2 className="text-xl font-semibold mb-4">{draft.id ? `Edit ${draft.code}` : 'New promotion'}</h2>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <input
+              placeholder="Code"
+              value={draft.code}
+              onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })}
+              className={`${inputClass} w-36 font-mono`}
+            />
+            <input
+              placeholder="Name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={`${inputClass} w-56`}
+            />
+            <input
+              placeholder="Description"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              className={`${inputClass} w-72`}
+            />
+            <select
+              value={draft.type}
+              onChange={(e) => setDraft({ ...draft, type: e.target.value as PromotionType })}
+              className={inputClass}
+            >
+              {Object.entries(PROMOTION_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            {draft.type !== 'free_shipping' && (
+              <input
+                placeholder={draft.type === 'fixed_amount' ? 'Amount' : 'Percent off'}
+                value={draft.value}
+                onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                className={`${inputClass} w-28`}
+              />
+            )}
+            {draft.type === 'buy_x_get_y' && (
+              <>
+                <input
+                  placeholder="Buy"
+                  value={draft.buy_quantity}
+                  onChange={(e) => setDraft({ ...draft, buy_quantity: e.target.value })}
+                  className={`${inputClass} w-20`}
+                />
+                <input
+                  placeholder="Get"
+                  value={draft.get_quantity}
+                  onChange={(e) => setDraft({ ...draft, get_quantity: e.target.value })}
+                  className={`${inputClass} w-20`}
+                />
+              </>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            {([
+              ['brand_ids', 'Brand ids'],
+              ['category_ids', 'Category ids'],
+              ['product_ids', 'Product ids']
+            ] as Array<['brand_ids' | 'category_ids' | 'product_ids', string]>).map(([field, label]) => (
+              <input
+                key={field}
+                placeholder={`${label} (comma separated)`}
+                value={draft[field]}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                className={`${inputClass} w-72`}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {([
+              ['min_subtotal', 'Min subtotal'],
+              ['usage_limit', 'Total uses'],
+              ['usage_limit_per_user', 'Uses per customer']
+            ] as Array<['min_subtotal' | 'usage_limit' | 'usage_limit_per_user', string]>).map(([field, label]) => (
+              <input
+                key={field}
+                placeholder={label}
+                value={draft[field]}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                className={`${inputClass} w-36`}
+              />
+            ))}
+            <label className="flex items-center text-sm text-gray-700">
+              Starts
+              <input
+                type="datetime-local"
+                value={draft.starts_at}
+                onChange={(e) => setDraft({ ...draft, starts_at: e.target.value })}
+                className={`${inputClass} ml-2`}
+              />
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              Ends
+              <input
+                type="datetime-local"
+                value={draft.ends_at}
+                onChange={(e) => setDraft({ ...draft, ends_at: e.target.value })}
+                className={`${inputClass} ml-2`}
+              />
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.is_active}
+                onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                className="mr-2"
+              />
+              Active
+            </label>
+            <button onClick={handleSave} disabled={saving} className={buttonClass}>
+              {draft.id ? 'Update promotion' : 'Add promotion'}
+            </button>
+            {draft.id && (
+              <button onClick={() => setDraft(EMPTY_PROMOTION)} className="text-sm text-gray-600">Cancel</button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
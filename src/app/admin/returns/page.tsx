@@ -0,0 +1,309 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { RETURN_REASON_LABELS } from '@/types/order'
+import type { OrderReturn, ReturnInspectionOutcome, ReturnStatus } from '@/types/order'
+
+const RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'rejected', 'received', 'refunded']
+
+type ReturnAction =
+  | { action: 'approve' }
+  | { action: 'reject'; reason: string }
+  | { action: 'receive'; outcome: ReturnInspectionOutcome; notes?: string }
+  | { action: 'refund' }
+
+export default function AdminReturnsPage() {
+  const [returns, setReturns] = useState<OrderReturn[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<string>('requested')
+  const [selectedReturn, setSelectedReturn] = useState<OrderReturn | null>(null)
+
+  useEffect(() => {
+    fetchReturns()
+  }, [statusFilter])
+
+  async function fetchReturns() {
+    try {
+      setLoading(true)
+      setError(null)
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`
+      const response = await fetch(`/api/admin/returns${query}`)
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load returns')
+
+      setReturns(data.returns)
+    } catch (err) {
+      console.error('Error fetching returns:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load returns')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function updateReturn(returnId: string, body: ReturnAction): Promise<string | null> {
+    const response = await fetch(`/api/admin/returns/${returnId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json()
+
+    // A failed refund still leaves the return received, so refresh either way
+    await fetchReturns()
+
+    if (!response.ok) return data.error || 'Failed to update return'
+
+    setSelectedReturn(null)
+    return null
+  }
+
+  const getStatusColor = (status: ReturnStatus) => {
+    switch (status) {
+      case 'requested':
+        return 'bg-yellow-100 text-yellow-800'
+      case 'approved':
+        return 'bg-blue-100 text-blue-800'
+      case 'rejected':
+        return 'bg-red-100 text-red-800'
+      case 'received':
+        return 'bg-purple-100 text-purple-800'
+      case 'refunded':
+        return 'bg-green-100 text-green-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  return (
+    <div className="p-6">
+      <div className="bg-white rounded-lg shadow">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">Returns</h1>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Status</option>
+            {RETURN_STATUSES.map(status => (
+              <option key={status} value={status}>
+                {status.charAt(0).toUpperCase() + status.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="m-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">Error: {error}</p>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="p-6 animate-pulse space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="h-12 bg-gray-300 rounded"></div>
+              ))}
+            </div>
+          ) : returns.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">No returns found</div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['RMA', 'Order', 'Item', 'Reason', 'Status', 'Opened', 'Actions'].map(heading => (
+                    <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {returns.map(orderReturn => (
+                  <tr key={orderReturn.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{orderReturn.rmaNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{orderReturn.orderNumber}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {orderReturn.item?.productBrand} {orderReturn.item?.productName}
+                      <div className="text-gray-500">Size {orderReturn.item?.size} × {orderReturn.quantity}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{RETURN_REASON_LABELS[orderReturn.reason]}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(orderReturn.status)}`}>
+                        {orderReturn.status.charAt(0).toUpperCase() + orderReturn.status.slice(1)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(orderReturn.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => setSelectedReturn(orderReturn)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Review
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {selectedReturn && (
+        <ReturnReviewModal
+          orderReturn={selectedReturn}
+          onClose={() => setSelectedReturn(null)}
+          onAction={(body) => updateReturn(selectedReturn.id, body)}
+        />
+      )}
+    </div>
+  )
+}
+
+function ReturnReviewModal({
+  orderReturn,
+  onClose,
+  onAction,
+}: {
+  orderReturn: OrderReturn
+  onClose: () => void
+  onAction: (body: ReturnAction) => Promise<string | null>
+}) {
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [outcome, setOutcome] = useState<ReturnInspectionOutcome>('restock')
+  const [notes, setNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (body: ReturnAction) => {
+    setSubmitting(true)
+    setError(null)
+    const message = await onAction(body)
+    setError(message)
+    setSubmitting(false)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border max-w-xl shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Return {orderReturn.rmaNumber}</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Order {orderReturn.orderNumber} • {orderReturn.item?.productBrand} {orderReturn.item?.productName},
+          size {orderReturn.item?.size} × {orderReturn.quantity}
+        </p>
+
+        <div className="space-y-2 text-sm text-gray-700 mb-4">
+          <p><span className="font-medium">Reason:</span> {RETURN_REASON_LABELS[orderReturn.reason]}</p>
+          {orderReturn.details && <p><span className="font-medium">Details:</span> {orderReturn.details}</p>}
+          {orderReturn.labelReference && (
+            <p><span className="font-medium">Return label:</span> <span className="font-mono">{orderReturn.labelReference}</span></p>
+          )}
+          {orderReturn.rejectionReason && <p><span className="font-medium">Rejected:</span> {orderReturn.rejectionReason}</p>}
+          {orderReturn.inspectionOutcome && (
+            <p>
+              <span className="font-medium">Inspection:</span>{' '}
+              {orderReturn.inspectionOutcome === 'restock' ? 'Restocked' : 'Written off'}
+              {orderReturn.inspectionNotes ? ` - ${orderReturn.inspectionNotes}` : ''}
+            </p>
+          )}
+        </div>
+
+        {orderReturn.photoUrls.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {orderReturn.photoUrls.map((url, index) => (
+              <a key={index} href={url} target="_blank" rel="noopener noreferrer">
+                <img src={url} alt={`Return photo ${index + 1}`} className="w-20 h-20 object-cover rounded border" />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {orderReturn.status === 'requested' && (
+          <div className="space-y-3">
+            <textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              rows={2}
+              placeholder="Reason for rejecting (sent to the customer)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => run({ action: 'reject', reason: rejectionReason })}
+                disabled={submitting || !rejectionReason.trim()}
+                className="px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => run({ action: 'approve' })}
+                disabled={submitting}
+                className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                Approve &amp; Issue Label
+              </button>
+            </div>
+          </div>
+        )}
+
+        {orderReturn.status === 'approved' && (
+          <div className="space-y-3">
+            <div className="flex space-x-4 text-sm">
+              <label className="flex items-center space-x-2">
+                <input type="radio" checked={outcome === 'restock'} onChange={() => setOutcome('restock')} />
+                <span>Restock</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input type="radio" checked={outcome === 'write_off'} onChange={() => setOutcome('write_off')} />
+                <span>Write off</span>
+              </label>
+            </div>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="Inspection notes"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={() => run({ action: 'receive', outcome, notes })}
+                disabled={submitting}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Mark Received &amp; Refund
+              </button>
+            </div>
+          </div>
+        )}
+
+        {orderReturn.status === 'received' && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">Received but not refunded yet.</p>
+            <button
+              onClick={() => run({ action: 'refund' })}
+              disabled={submitting}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Retry Refund
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+        <div className="flex justify-end mt-4">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { SearchSynonym, ZeroResultQuery } from '@/types/search'
+
+const EMPTY_SYNONYM = { term: '', expansion: '' }
+
+type SynonymDraft = typeof EMPTY_SYNONYM & { id?: string }
+
+export default function SearchAdminPage() {
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([])
+  const [zeroResultQueries, setZeroResultQueries] = useState<ZeroResultQuery[]>([])
+  const [days, setDays] = useState(30)
+  const [draft, setDraft] = useState<SynonymDraft>(EMPTY_SYNONYM)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSearchData = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/admin/search?days=${days}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load search data')
+      }
+
+      setSynonyms(data.synonyms || [])
+      setZeroResultQueries(data.zeroResultQueries || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchSearchData()
+  }, [fetchSearchData])
+
+  const handleSave = async () => {
+    if (!draft.term.trim() || !draft.expansion.trim()) {
+      setError('A synonym needs a term and what it stands for')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/admin/search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ synonym: draft })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save synonym')
+      }
+
+      setDraft(EMPTY_SYNONYM)
+      await fetchSearchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (synonym: SearchSynonym) => {
+    if (!confirm(`Delete the synonym "${synonym.term}"?`)) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/search?id=${synonym.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete synonym')
+      }
+
+      await fetchSearchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'px-3 py-1 border border-gray-300 rounded-md text-sm'
+  const buttonClass = 'px-3 py-1 bg-black text-white rounded-md text-sm hover:bg-gray-800 disabled:bg-gray-300'
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Search</h1>
+        <p className="text-gray-600 mt-1">
+          Synonyms expand nicknames before products are matched, so &quot;aj1&quot; finds Air Jordan 1.
+          Searches that found nothing show which ones are missing.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading search data...</div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Searches with no results</h2>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className={inputClass}
+            >
+              {[7, 30, 90].map((option) => (
+                <option key={option} value={option}>Last {option} days</option>
+              ))}
+            </select>
+          </div>
+          <div className="bg-white rounded-lg shadow overflow-x-auto mb-8">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-4 py-3">Query</th>
+                  <th className="px-4 py-3">Searches</th>
+                  <th className="px-4 py-3">Last searched</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-sm">
+                {zeroResultQueries.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-6 text-center text-gray-500">Every search found something</td>
+                  </tr>
+                )}
+                {zeroResultQueries.map((row) => (
+                  <tr key={row.query}>
+                    <td className="px-4 py-3 font-mono">{row.query}</td>
+                    <td className="px-4 py-3">{row.searches}</td>
+                    <td className="px-4 py-3">{new Date(row.last_searched_at).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => setDraft({ term: row.query, expansion: '' })}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Add synonym
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h2 className="text-xl font-semibold mb-4">Synonyms</h2>
+          <div className="bg-white rounded-lg shadow overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-4 py-3">Term</th>
+                  <th className="px-4 py-3">Searches for</th>
+                  <th className="px-4 py-3">Updated</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 text-sm">
+                {synonyms.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-6 text-center text-gray-500">No synonyms yet</td>
+                  </tr>
+                )}
+                {synonyms.map((synonym) => (
+                  <tr key={synonym.id}>
+                    <td className="px-4 py-3 font-mono">{synonym.term}</td>
+                    <td className="px-4 py-3">{synonym.expansion}</td>
+                    <td className="px-4 py-3">{new Date(synonym.updated_at).toLocaleDateString()}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => setDraft({ id: synonym.id, term: synonym.term, expansion: synonym.expansion })}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(synonym)}
+                        disabled={saving}
+                        className="ml-3 text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              placeholder="Term, e.g. aj1"
+              value={draft.term}
+              onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+              className={`${inputClass} w-48 font-mono`}
+            />
+            <input
+              placeholder="Searches for, e.g. air jordan 1"
+              value={draft.expansion}
+              onChange={(e) => setDraft({ ...draft, expansion: e.target.value })}
+              className={`${inputClass} w-72`}
+            />
+            <button onClick={handleSave} disabled={saving} className={buttonClass}>
+              {draft.id ? 'Update synonym' : 'Add synonym'}
+            </button>
+            {(draft.id || draft.term) && (
+              <button onClick={() => setDraft(EMPTY_SYNONYM)} className="text-sm text-gray-600">Cancel</button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
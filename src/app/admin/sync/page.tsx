@@ -1,25 +1,101 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 
+type SyncJobType = 'full' | 'incremental' | 'brands' | 'products' | 'images' | 'market_data'
+
+interface SyncJob {
+  id: string
+  sync_type: string
+  status: string
+  priority?: number
+  scheduled_at?: string
+  started_at?: string
+  completed_at?: string
+  items_processed: number
+  items_created: number
+  items_updated: number
+  items_unchanged?: number
+  items_failed: number
+  error_message?: string
+}
+
+const JOB_CARDS: Array<{ type: SyncJobType; title: string; description: string }> = [
+  {
+    type: 'incremental',
+    title: 'Product Data Sync',
+    description: 'Discover new listings and refresh the least recently synced products'
+  },
+  {
+    type: 'full',
+    title: 'Full Catalog Sync',
+    description: 'Sync all brands, then products from StockX and GOAT'
+  },
+  {
+    type: 'brands',
+    title: 'Brand Sync',
+    description: 'Update brand names, logos and product counts'
+  },
+  {
+    type: 'images',
+    title: 'Product Image Sync',
+    description: 'Fetch up to 2 images for products that have none'
+  },
+  {
+    type: 'market_data',
+    title: 'Market Data Sync',
+    description: 'Refresh prices and record market history snapshots'
+  }
+]
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  syncing: 'bg-blue-100 text-blue-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+}
+
 export default function SyncPage() {
-  const [syncing, setSyncing] = useState(false)
-  const [syncResult, setSyncResult] = useState<any>(null)
+  const [jobs, setJobs] = useState<SyncJob[]>([])
+  const [activeType, setActiveType] = useState<SyncJobType | null>(null)
+  const [lastResult, setLastResult] = useState<any>(null)
   const [error, setError] = useState<string | null>(null)
   const router = useRouter()
 
-  const handleSyncImages = async () => {
-    setSyncing(true)
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/kicks/sync')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load sync jobs')
+      }
+
+      setJobs(data.jobs || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchJobs()
+  }, [fetchJobs])
+
+  const handleJob = async (type: SyncJobType, mode: 'run' | 'queue') => {
+    setActiveType(type)
     setError(null)
-    setSyncResult(null)
+    setLastResult(null)
 
     try {
-      const response = await fetch('/api/kicks/sync-images', {
+      const response = await fetch('/api/kicks/sync', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
-        }
+        },
+        body: JSON.stringify({ type, mode })
       })
 
       const data = await response.json()
@@ -28,16 +104,32 @@ export default function SyncPage() {
         throw new Error(data.error || 'Sync failed')
       }
 
-      setSyncResult(data)
+      setLastResult({ type, ...data })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setActiveType(null)
+      fetchJobs()
+    }
+  }
+
+  const handleCancel = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/kicks/sync?id=${jobId}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel job')
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
-      setSyncing(false)
+      fetchJobs()
     }
   }
 
   return (
-    <div className="p-8 max-w-4xl mx-auto">
+    <div className="p-8 max-w-6xl mx-auto">
       <div className="mb-6">
         <button
           onClick={() => router.back()}
@@ -49,100 +141,141 @@ export default function SyncPage() {
 
       <h1 className="text-3xl font-bold mb-8">Data Sync Management</h1>
 
-      {/* Image Sync Section */}
-      <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-xl font-semibold mb-4">Product Image Sync</h2>
-        <p className="text-gray-600 mb-4">
-          Sync product images from the Kicks API. This will fetch up to 2 images per product.
-        </p>
-
-        <button
-          onClick={handleSyncImages}
-          disabled={syncing}
-          className={`px-6 py-2 rounded-lg font-medium transition-colors ${
-            syncing
-              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-              : 'bg-black text-white hover:bg-gray-800'
-          }`}
-        >
-          {syncing ? 'Syncing Images...' : 'Start Image Sync'}
-        </button>
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
 
-        {error && (
-          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
-            <p className="text-red-600">{error}</p>
+      {lastResult && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <h3 className="font-semibold text-green-800 mb-2">
+            {lastResult.status === 'pending' ? 'Job queued' : `Sync ${lastResult.status}`}
+          </h3>
+          <div className="text-sm text-green-700 space-y-1">
+            <p>Job: <span className="font-mono">{lastResult.job_id}</span></p>
+            {lastResult.stats && (
+              <>
+                <p>Products processed: {lastResult.stats.productsProcessed}</p>
+                <p>
+                  Created: {lastResult.stats.productsCreated + lastResult.stats.brandsCreated},
+                  {' '}updated: {lastResult.stats.productsUpdated + lastResult.stats.brandsUpdated},
+                  {' '}unchanged: {lastResult.stats.productsUnchanged}
+                </p>
+                <p>
+                  Merged across marketplaces: {lastResult.stats.productsMerged},
+                  {' '}queued for review: {lastResult.stats.matchReviewsQueued}
+                </p>
+                <p>Images synced: {lastResult.stats.imagesSynced}</p>
+                {lastResult.stats.errors > 0 && (
+                  <p className="text-red-600">Errors: {lastResult.stats.errors}</p>
+                )}
+              </>
+            )}
           </div>
-        )}
-
-        {syncResult && (
-          <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
-            <h3 className="font-semibold text-green-800 mb-2">Sync Complete!</h3>
-            <div className="text-sm text-green-700 space-y-1">
-              <p>Total products: {syncResult.total_products}</p>
-              <p>Products needing images: {syncResult.products_needing_images}</p>
-              <p>Successfully synced: {syncResult.synced}</p>
-              {syncResult.failed > 0 && (
-                <p className="text-red-600">Failed: {syncResult.failed}</p>
-              )}
+        </div>
+      )}
+
+      {/* Job Types */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        {JOB_CARDS.map((card) => (
+          <div key={card.type} className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold mb-3">{card.title}</h3>
+            <p className="text-gray-600 text-sm mb-4">{card.description}</p>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleJob(card.type, 'run')}
+                disabled={activeType !== null}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  activeType !== null
+                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    : 'bg-black text-white hover:bg-gray-800'
+                }`}
+              >
+                {activeType === card.type ? 'Syncing...' : 'Run Now'}
+              </button>
+              <button
+                onClick={() => handleJob(card.type, 'queue')}
+                disabled={activeType !== null}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 disabled:cursor-not-allowed disabled:text-gray-400"
+              >
+                Queue
+              </button>
             </div>
           </div>
-        )}
+        ))}
       </div>
 
-      {/* Additional Sync Options */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <div className="bg-white rounded-lg shadow p-6">
-          <h3 className="text-lg font-semibold mb-3">Product Data Sync</h3>
-          <p className="text-gray-600 text-sm mb-4">
-            Update product information, prices, and availability
-          </p>
-          <button
-            disabled
-            className="px-4 py-2 bg-gray-100 text-gray-400 rounded-lg text-sm cursor-not-allowed"
-          >
-            Coming Soon
-          </button>
-        </div>
-
-        <div className="bg-white rounded-lg shadow p-6">
-          <h3 className="text-lg font-semibold mb-3">Inventory Sync</h3>
-          <p className="text-gray-600 text-sm mb-4">
-            Synchronize stock levels and size availability
-          </p>
-          <button
-            disabled
-            className="px-4 py-2 bg-gray-100 text-gray-400 rounded-lg text-sm cursor-not-allowed"
-          >
-            Coming Soon
+      {/* Recent Jobs */}
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Recent Jobs</h2>
+          <button onClick={fetchJobs} className="text-sm text-blue-600 hover:text-blue-800">
+            Refresh
           </button>
         </div>
-
-        <div className="bg-white rounded-lg shadow p-6">
-          <h3 className="text-lg font-semibold mb-3">Price Monitor</h3>
-          <p className="text-gray-600 text-sm mb-4">
-            Track price changes and market trends
-          </p>
-          <button
-            disabled
-            className="px-4 py-2 bg-gray-100 text-gray-400 rounded-lg text-sm cursor-not-allowed"
-          >
-            Coming Soon
-          </button>
-        </div>
-
-        <div className="bg-white rounded-lg shadow p-6">
-          <h3 className="text-lg font-semibold mb-3">Cleanup Old Data</h3>
-          <p className="text-gray-600 text-sm mb-4">
-            Remove expired reservations and old logs
-          </p>
-          <button
-            disabled
-            className="px-4 py-2 bg-gray-100 text-gray-400 rounded-lg text-sm cursor-not-allowed"
-          >
-            Coming Soon
-          </button>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Started</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Processed</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Created / Updated / Unchanged</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Failed</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {jobs.map((job) => (
+                <tr key={job.id}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{job.sync_type}</td>
+                  <td className="px-6 py-4 text-sm">
+                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[job.status] || 'bg-gray-100 text-gray-600'}`}>
+                      {job.status}
+                    </span>
+                    {job.error_message && (
+                      <p className="text-xs text-red-600 mt-1 max-w-xs truncate" title={job.error_message}>
+                        {job.error_message}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {job.started_at
+                      ? new Date(job.started_at).toLocaleString()
+                      : job.scheduled_at
+                      ? `Scheduled ${new Date(job.scheduled_at).toLocaleString()}`
+                      : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{job.items_processed}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {job.items_created} / {job.items_updated} / {job.items_unchanged || 0}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{job.items_failed}</td>
+                  <td className="px-6 py-4 text-sm text-right">
+                    {job.status === 'pending' && (
+                      <button
+                        onClick={() => handleCancel(job.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {jobs.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
+                    No sync jobs yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
         </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
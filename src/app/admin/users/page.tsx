@@ -2,6 +2,9 @@
 
 import { useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase/client'
+import { PricingService } from '@/services/pricing'
+import { STORE_CREDIT_ENTRY_LABELS } from '@/types/store-credit'
+import type { StoreCreditAccount } from '@/types/store-credit'
 
 interface User {
   id: string
@@ -26,6 +29,7 @@ export default function AdminUsersPage() {
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
+  const [creditUser, setCreditUser] = useState<User | null>(null)
 
   const userRoles = ['user', 'vendor', 'admin']
 
@@ -292,6 +296,12 @@ export default function AdminUsersPage() {
                       >
                         {user.is_active ? 'Deactivate' : 'Activate'}
                       </button>
+                      <button
+                        onClick={() => setCreditUser(user)}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        Credit
+                      </button>
                     </td>
                   </tr>
                 ))}
@@ -312,6 +322,13 @@ export default function AdminUsersPage() {
           onUpdate={updateUser}
         />
       )}
+
+      {creditUser && (
+        <StoreCreditModal
+          user={creditUser}
+          onClose={() => setCreditUser(null)}
+        />
+      )}
     </div>
   )
 }
@@ -455,4 +472,139 @@ function EditUserModal({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Store credit balances are in the base currency; every adjustment is recorded in the ledger and audit log
+function StoreCreditModal({
+  user,
+  onClose
+}: {
+  user: User
+  onClose: () => void
+}) {
+  const [account, setAccount] = useState<StoreCreditAccount | null>(null)
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function fetchAccount() {
+    try {
+      const response = await fetch(`/api/admin/store-credit?userId=${user.id}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load store credit')
+      setAccount(data.account)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load store credit')
+    }
+  }
+
+  useEffect(() => {
+    fetchAccount()
+  }, [user.id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = parseFloat(amount)
+    if (!Number.isFinite(value) || value === 0) {
+      setError('Enter a positive amount to add credit or a negative amount to remove it')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const response = await fetch('/api/admin/store-credit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: user.id, amount: value, reason })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to adjust store credit')
+
+      setAmount('')
+      setReason('')
+      await fetchAccount()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to adjust store credit')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border max-w-lg shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">
+          Store Credit: {user.full_name || user.email}
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Balance {account ? PricingService.formatPrice(account.balance) : '—'}
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-sm text-red-600">{error}</div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4">
+          <input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount (negative to remove credit)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            required
+          />
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (shown to the customer)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            required
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Close
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              Adjust Balance
+            </button>
+          </div>
+        </form>
+
+        {account && account.entries.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Ledger</h4>
+            <ul className="text-sm text-gray-600 divide-y divide-gray-200 max-h-64 overflow-y-auto">
+              {account.entries.map(entry => (
+                <li key={entry.id} className="py-2 flex justify-between">
+                  <span>
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {' · '}
+                    {STORE_CREDIT_ENTRY_LABELS[entry.type]}
+                    {entry.note && ` · ${entry.note}`}
+                  </span>
+                  <span className={entry.amount > 0 ? 'text-green-700' : 'text-gray-900'}>
+                    {entry.amount > 0 ? '+' : ''}{PricingService.formatPrice(entry.amount)}
+                    <span className="text-xs text-gray-400 ml-2">= {PricingService.formatPrice(entry.balanceAfter)}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import type { StripeWebhookEvent, StripeWebhookEventStatus } from '@/lib/webhook/stripe-queue'
+
+const STATUS_LABELS: Record<StripeWebhookEventStatus, string> = {
+  pending: 'Pending',
+  processed: 'Processed',
+  dead_letter: 'Dead-lettered',
+}
+
+type Stats = Record<StripeWebhookEventStatus, number> & { total: number }
+
+export default function AdminWebhooksPage() {
+  const [events, setEvents] = useState<StripeWebhookEvent[]>([])
+  const [stats, setStats] = useState<Stats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<string>('dead_letter')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchEvents()
+  }, [statusFilter])
+
+  async function fetchEvents() {
+    try {
+      setLoading(true)
+      setError(null)
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`
+      const response = await fetch(`/api/admin/webhooks${query}`)
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load webhook events')
+
+      setEvents(data.events)
+      setStats(data.stats)
+    } catch (err) {
+      console.error('Error fetching webhook events:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load webhook events')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function replayEvent(event: StripeWebhookEvent) {
+    setReplayingId(event.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${event.id}/replay`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to replay event')
+      } else if (data.event?.status !== 'processed') {
+        setError(`Replay of ${event.event_id} failed again: ${data.event?.last_error || 'unknown error'}`)
+      }
+
+      await fetchEvents()
+    } catch (err) {
+      console.error('Error replaying webhook event:', err)
+      setError('Failed to replay event')
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  const getStatusColor = (status: StripeWebhookEventStatus) => {
+    switch (status) {
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800'
+      case 'processed':
+        return 'bg-green-100 text-green-800'
+      case 'dead_letter':
+        return 'bg-red-100 text-red-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  return (
+    <div className="p-6">
+      <div className="bg-white rounded-lg shadow">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-2xl font-bold text-gray-900">Stripe Webhooks</h1>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All Status</option>
+              {(Object.keys(STATUS_LABELS) as StripeWebhookEventStatus[]).map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+
+          {stats && (
+            <div className="grid grid-cols-3 gap-4">
+              {(Object.keys(STATUS_LABELS) as StripeWebhookEventStatus[]).map(status => (
+                <div key={status} className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-2xl font-semibold text-gray-900">{stats[status]}</p>
+                  <p className="text-sm text-gray-600">{STATUS_LABELS[status]}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="m-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="p-6 animate-pulse space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="h-12 bg-gray-300 rounded"></div>
+              ))}
+            </div>
+          ) : events.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">No webhook events found</div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Event', 'Type', 'Status', 'Attempts', 'Received', 'Actions'].map(heading => (
+                    <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {events.map(event => (
+                  <Fragment key={event.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{event.event_id}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{event.event_type}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(event.status)}`}>
+                          {STATUS_LABELS[event.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {event.attempts}
+                        {event.received_count > 1 && (
+                          <span className="text-gray-400"> • delivered {event.received_count}×</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(event.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                        <button
+                          onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          {expandedId === event.id ? 'Hide' : 'Details'}
+                        </button>
+                        {event.status === 'dead_letter' && (
+                          <button
+                            onClick={() => replayEvent(event)}
+                            disabled={replayingId === event.id}
+                            className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                          >
+                            {replayingId === event.id ? 'Replaying...' : 'Replay'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === event.id && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 bg-gray-50 text-sm">
+                          {event.last_error && (
+                            <p className="text-red-600 mb-2">Last error: {event.last_error}</p>
+                          )}
+                          {event.replayed_at && (
+                            <p className="text-gray-600 mb-2">Replayed {new Date(event.replayed_at).toLocaleString()}</p>
+                          )}
+                          <pre className="text-xs bg-white border rounded p-3 overflow-x-auto max-h-64">
+                            {JSON.stringify(event.payload, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { supabase } from '@/lib/supabase/server'
+import { PricingService, BASE_CURRENCY } from '@/services/pricing'
+import type { FxRate } from '@/types/pricing'
+
+/**
+ * GET /api/admin/fx-rates
+ * Current rate per currency plus recent rate changes
+ */
+export async function GET() {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select('*')
+      .eq('base_currency', BASE_CURRENCY)
+      .order('effective_at', { ascending: false })
+      .limit(100)
+
+    if (error) throw error
+
+    const history = (data || []) as FxRate[]
+    return NextResponse.json({
+      base: BASE_CURRENCY,
+      rates: PricingService.buildRateTable(history).rates,
+      history
+    })
+  } catch (error) {
+    console.error('Error getting FX rates:', error)
+    return NextResponse.json({ error: 'Failed to get FX rates' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/fx-rates
+ * Record a new rate for a currency: { currency, rate, effectiveAt? }
+ * Rates are never updated in place so orders keep pointing at the rate they locked.
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const { currency, rate, effectiveAt } = await request.json() as {
+      currency?: string
+      rate?: number
+      effectiveAt?: string
+    }
+
+    if (!currency || !PricingService.isSupportedCurrency(currency) || currency === BASE_CURRENCY) {
+      return NextResponse.json({ error: `A supported currency other than ${BASE_CURRENCY} is required` }, { status: 400 })
+    }
+
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      return NextResponse.json({ error: 'Rate must be a positive number' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .insert({
+        base_currency: BASE_CURRENCY,
+        quote_currency: currency,
+        rate,
+        source: 'admin',
+        effective_at: effectiveAt || new Date().toISOString(),
+        created_by: admin.id
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ rate: data })
+  } catch (error) {
+    console.error('Error recording FX rate:', error)
+    return NextResponse.json(
+      { error: 'Failed to record FX rate', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
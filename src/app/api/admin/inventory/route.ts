@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { StockManager } from '@/lib/stock/manager'
+
+/**
+ * POST /api/admin/inventory
+ * Restock a size: { productId, size, quantity, reason? }. New units go to the size's waitlist first.
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const quantity = Number(body?.quantity)
+
+    if (!body?.productId || !body?.size) {
+      return NextResponse.json({ error: 'productId and size are required' }, { status: 400 })
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return NextResponse.json({ error: 'quantity must be a positive whole number' }, { status: 400 })
+    }
+
+    const result = await new StockManager().restockInventory(
+      body.productId,
+      body.size,
+      quantity,
+      body.reason || 'Inventory restock',
+      admin.id
+    )
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ newQuantity: result.newQuantity, waitlistOffers: result.waitlistOffers || 0 })
+  } catch (error) {
+    console.error('Error restocking inventory:', error)
+    return NextResponse.json({ error: 'Failed to restock inventory' }, { status: 500 })
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { RefundService, RefundError, RefundErrorCode } from '@/services/refunds'
+import type { RefundRequest } from '@/types/order'
+
+const ERROR_STATUS: Record<RefundErrorCode, number> = {
+  [RefundErrorCode.NOT_FOUND]: 404,
+  [RefundErrorCode.NOT_REFUNDABLE]: 409,
+  [RefundErrorCode.INVALID_REQUEST]: 400,
+  [RefundErrorCode.AMOUNT_EXCEEDED]: 409,
+  [RefundErrorCode.QUANTITY_EXCEEDED]: 409,
+  [RefundErrorCode.PROVIDER_FAILED]: 502
+}
+
+/**
+ * GET /api/admin/orders/[id]/refunds
+ * The order's refundable lines and its refunds so far
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const [order, refunds] = await Promise.all([
+      RefundService.loadOrder(params.id),
+      RefundService.getOrderRefunds(params.id)
+    ])
+
+    return NextResponse.json({ order, refunds })
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error getting order refunds:', error)
+    return NextResponse.json({ error: 'Failed to get order refunds' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/refunds
+ * Refund the order through the payment provider: { items?: [{ orderItemId, quantity }], reason?, restock?, asStoreCredit? }
+ * Without items everything not yet refunded is returned, including shipping. With asStoreCredit the
+ * amount goes to the customer's store credit instead of the card.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  let body: RefundRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (body.items !== undefined && !Array.isArray(body.items)) {
+    return NextResponse.json({ error: 'items must be an array' }, { status: 400 })
+  }
+
+  try {
+    const refund = await RefundService.refundOrder(params.id, {
+      items: body.items?.map(item => ({ orderItemId: String(item.orderItemId), quantity: Number(item.quantity) })),
+      reason: typeof body.reason === 'string' ? body.reason : undefined,
+      restock: body.restock !== false,
+      asStoreCredit: body.asStoreCredit === true
+    }, (admin as { id: string }).id)
+
+    return NextResponse.json({ refund }, { status: 201 })
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Error refunding order:', error)
+    return NextResponse.json({ error: 'Failed to refund order' }, { status: 500 })
+  }
+}
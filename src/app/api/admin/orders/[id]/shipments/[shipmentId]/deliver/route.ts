@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { ShipmentService, ShipmentError, ShipmentErrorCode } from '@/services/shipments'
+
+/**
+ * POST /api/admin/orders/[id]/shipments/[shipmentId]/deliver
+ * Mark a shipment delivered. Returns the order's status, which is delivered with the last shipment.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; shipmentId: string } }
+) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const status = await ShipmentService.markDelivered(params.id, params.shipmentId, (admin as { id: string }).id)
+    return NextResponse.json({ status })
+  } catch (error) {
+    if (error instanceof ShipmentError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === ShipmentErrorCode.NOT_FOUND ? 404 : 409 }
+      )
+    }
+
+    console.error('Error marking shipment delivered:', error)
+    return NextResponse.json({ error: 'Failed to mark shipment delivered' }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { ShipmentService, ShipmentError, ShipmentErrorCode } from '@/services/shipments'
+import type { ShipmentRequest } from '@/services/shipments'
+
+const ERROR_STATUS: Record<ShipmentErrorCode, number> = {
+  [ShipmentErrorCode.NOT_FOUND]: 404,
+  [ShipmentErrorCode.NOT_SHIPPABLE]: 409,
+  [ShipmentErrorCode.INVALID_REQUEST]: 400,
+  [ShipmentErrorCode.TRACKING_REQUIRED]: 400,
+  [ShipmentErrorCode.QUANTITY_EXCEEDED]: 409
+}
+
+/**
+ * GET /api/admin/orders/[id]/shipments
+ * The order's lines with what is left to ship, and its shipments so far
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    return NextResponse.json(await ShipmentService.getFulfilment(params.id))
+  } catch (error) {
+    if (error instanceof ShipmentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error loading shipments:', error)
+    return NextResponse.json({ error: 'Failed to load shipments' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/shipments
+ * Ship some or all of what is left: { items: [{ orderItemId, quantity }], carrier, trackingNumber, carrierCode? }
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  let body: ShipmentRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    const shipment = await ShipmentService.createShipment(
+      params.id,
+      {
+        items: Array.isArray(body.items)
+          ? body.items.map(item => ({ orderItemId: String(item.orderItemId), quantity: Number(item.quantity) }))
+          : [],
+        carrier: String(body.carrier || ''),
+        trackingNumber: String(body.trackingNumber || ''),
+        carrierCode: body.carrierCode || undefined
+      },
+      (admin as { id: string }).id
+    )
+
+    return NextResponse.json({ shipment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ShipmentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error creating shipment:', error)
+    return NextResponse.json({ error: 'Failed to create shipment' }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { nextManualStatuses } from '@/lib/orders'
+import { OrderStatusService, OrderStatusError, OrderStatusErrorCode } from '@/services/order-status'
+import type { OrderStatus } from '@/types/order'
+
+const ERROR_STATUS: Record<OrderStatusErrorCode, number> = {
+  [OrderStatusErrorCode.NOT_FOUND]: 404,
+  [OrderStatusErrorCode.NO_CHANGE]: 409,
+  [OrderStatusErrorCode.INVALID_TRANSITION]: 409,
+  [OrderStatusErrorCode.TRACKING_REQUIRED]: 400,
+  [OrderStatusErrorCode.PAYMENT_REQUIRED]: 409,
+  [OrderStatusErrorCode.INSUFFICIENT_CREDIT]: 409,
+  [OrderStatusErrorCode.CONFLICT]: 409
+}
+
+/**
+ * GET /api/admin/orders/[id]/status
+ * The order's status timeline and the statuses it can be moved to by hand
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const [state, history] = await Promise.all([
+      OrderStatusService.getState(params.id),
+      OrderStatusService.getHistory(params.id)
+    ])
+
+    return NextResponse.json({ ...state, history, allowedStatuses: nextManualStatuses(state) })
+  } catch (error) {
+    if (error instanceof OrderStatusError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error loading order status history:', error)
+    return NextResponse.json({ error: 'Failed to load order history' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/status
+ * Move the order on: { status, trackingNumber?, note? }. Shipping needs a tracking number.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  let body: { status?: OrderStatus; trackingNumber?: string; note?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (!body.status) {
+    return NextResponse.json({ error: 'status is required' }, { status: 400 })
+  }
+
+  try {
+    const state = await OrderStatusService.getState(params.id)
+
+    // Processing and refunded follow payments and refunds; they are never set by hand
+    if (!nextManualStatuses(state).includes(body.status)) {
+      return NextResponse.json(
+        { error: `An order cannot be moved from ${state.status} to ${body.status} by hand`, code: OrderStatusErrorCode.INVALID_TRANSITION },
+        { status: 409 }
+      )
+    }
+
+    const { order } = await OrderStatusService.transition(
+      params.id,
+      { status: body.status },
+      {
+        actorId: (admin as { id: string }).id,
+        note: typeof body.note === 'string' ? body.note : null,
+        trackingNumber: typeof body.trackingNumber === 'string' ? body.trackingNumber : null
+      }
+    )
+
+    return NextResponse.json({
+      status: order.status,
+      paymentStatus: order.payment_status,
+      history: await OrderStatusService.getHistory(params.id)
+    })
+  } catch (error) {
+    if (error instanceof OrderStatusError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error updating order status:', error)
+    return NextResponse.json({ error: 'Failed to update order status' }, { status: 500 })
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { supabase } from '@/lib/supabase/server'
+
+type RuleType = 'zone' | 'rate' | 'tax'
+
+const RULE_TABLES: Record<RuleType, string> = {
+  zone: 'shipping_zones',
+  rate: 'shipping_rates',
+  tax: 'tax_rules'
+}
+
+// Columns an admin may set for each rule type
+const RULE_FIELDS: Record<RuleType, string[]> = {
+  zone: ['name', 'countries', 'is_active'],
+  rate: [
+    'zone_id', 'carrier', 'service_level', 'base_amount', 'per_item_amount', 'per_kg_amount',
+    'min_weight_kg', 'max_weight_kg', 'min_quantity', 'max_quantity', 'free_shipping_threshold',
+    'estimated_days_min', 'estimated_days_max', 'is_active'
+  ],
+  tax: ['country', 'region', 'name', 'rate', 'applies_to_shipping', 'is_active']
+}
+
+function isRuleType(value: unknown): value is RuleType {
+  return typeof value === 'string' && value in RULE_TABLES
+}
+
+function validateRule(type: RuleType, rule: Record<string, any>): string | null {
+  if (type === 'zone') {
+    if (rule.countries !== undefined && (!Array.isArray(rule.countries) || rule.countries.some((c: unknown) => typeof c !== 'string' || c.length !== 2))) {
+      return 'Countries must be two-letter ISO codes'
+    }
+  }
+
+  if (type === 'rate') {
+    for (const field of ['base_amount', 'per_item_amount', 'per_kg_amount']) {
+      if (rule[field] !== undefined && (typeof rule[field] !== 'number' || rule[field] < 0)) {
+        return `${field} must be a non-negative number`
+      }
+    }
+  }
+
+  if (type === 'tax') {
+    if (rule.rate !== undefined && (typeof rule.rate !== 'number' || rule.rate < 0 || rule.rate >= 1)) {
+      return 'Tax rate must be a fraction between 0 and 1'
+    }
+    if (rule.country !== undefined && (typeof rule.country !== 'string' || rule.country.length !== 2)) {
+      return 'Country must be a two-letter ISO code'
+    }
+  }
+
+  return null
+}
+
+/**
+ * GET /api/admin/pricing-rules
+ * All shipping zones, carrier rates and tax rules, including inactive ones
+ */
+export async function GET() {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const [zones, rates, taxRules] = await Promise.all([
+      supabase.from('shipping_zones').select('*').order('name'),
+      supabase.from('shipping_rates').select('*').order('base_amount'),
+      supabase.from('tax_rules').select('*').order('country').order('region', { nullsFirst: true })
+    ])
+
+    const error = zones.error || rates.error || taxRules.error
+    if (error) throw error
+
+    return NextResponse.json({
+      zones: zones.data || [],
+      rates: rates.data || [],
+      taxRules: taxRules.data || []
+    })
+  } catch (error) {
+    console.error('Error getting pricing rules:', error)
+    return NextResponse.json({ error: 'Failed to get pricing rules' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/pricing-rules
+ * Create or update a rule: { type: 'zone' | 'rate' | 'tax', rule: { id?, ...columns } }
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const { type, rule } = await request.json() as { type?: string; rule?: Record<string, any> }
+
+    if (!isRuleType(type) || !rule) {
+      return NextResponse.json({ error: 'type (zone, rate or tax) and rule are required' }, { status: 400 })
+    }
+
+    const values: Record<string, any> = {}
+    for (const field of RULE_FIELDS[type]) {
+      if (rule[field] !== undefined) values[field] = rule[field]
+    }
+    if (type === 'zone' && values.countries) {
+      values.countries = values.countries.map((c: string) => c.toUpperCase())
+    }
+    if (type === 'tax') {
+      if (values.country) values.country = values.country.toUpperCase()
+      if (values.region) values.region = values.region.toUpperCase()
+    }
+
+    const validationError = validateRule(type, values)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const table = RULE_TABLES[type]
+    const query = rule.id
+      ? supabase.from(table).update({ ...values, updated_at: new Date().toISOString() }).eq('id', rule.id)
+      : supabase.from(table).insert(values)
+
+    const { data, error } = await query.select().single()
+    if (error) throw error
+
+    return NextResponse.json({ rule: data })
+  } catch (error) {
+    console.error('Error saving pricing rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to save pricing rule', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/pricing-rules?type=rate&id=...
+ * Rules are deactivated rather than removed so existing orders keep their shipping_rate_id
+ */
+export async function DELETE(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const type = request.nextUrl.searchParams.get('type')
+  const id = request.nextUrl.searchParams.get('id')
+
+  if (!isRuleType(type) || !id) {
+    return NextResponse.json({ error: 'type and id are required' }, { status: 400 })
+  }
+
+  try {
+    const { error } = await supabase
+      .from(RULE_TABLES[type])
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deactivating pricing rule:', error)
+    return NextResponse.json({ error: 'Failed to deactivate pricing rule' }, { status: 500 })
+  }
+}
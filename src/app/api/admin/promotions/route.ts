@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { PromotionService } from '@/services/promotions'
+
+/**
+ * GET /api/admin/promotions
+ * All promotions, including inactive ones, with how often each was used
+ */
+export async function GET() {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    return NextResponse.json({ promotions: await PromotionService.listPromotions() })
+  } catch (error) {
+    console.error('Error getting promotions:', error)
+    return NextResponse.json({ error: 'Failed to get promotions' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/promotions
+ * Create or update a promotion: { promotion: { id?, ...columns } }
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const { promotion } = await request.json() as { promotion?: Record<string, any> }
+    if (!promotion || typeof promotion !== 'object') {
+      return NextResponse.json({ error: 'promotion is required' }, { status: 400 })
+    }
+
+    const result = await PromotionService.savePromotion(promotion, (admin as { id: string }).id)
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ promotion: result.promotion })
+  } catch (error) {
+    console.error('Error saving promotion:', error)
+    return NextResponse.json(
+      { error: 'Failed to save promotion', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/promotions?id=...
+ * Promotions are deactivated rather than removed so past orders keep their redemptions
+ */
+export async function DELETE(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 })
+  }
+
+  try {
+    await PromotionService.deactivatePromotion(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deactivating promotion:', error)
+    return NextResponse.json({ error: 'Failed to deactivate promotion' }, { status: 500 })
+  }
+}
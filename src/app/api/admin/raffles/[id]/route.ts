@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { RaffleService } from '@/services/raffles'
+
+/**
+ * POST /api/admin/raffles/[id]
+ * { action: 'draw' } once entries have closed, or { action: 'cancel' } before the draw
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  let body: { action?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    switch (body.action) {
+      case 'draw': {
+        const result = await RaffleService.draw((admin as { id: string }).id, params.id)
+        if (result.error) {
+          return NextResponse.json({ error: result.error }, { status: 409 })
+        }
+        return NextResponse.json({ wins: result.wins, alternates: result.alternates })
+      }
+      case 'cancel': {
+        const result = await RaffleService.cancel(params.id)
+        if (result.error) {
+          return NextResponse.json({ error: result.error }, { status: 409 })
+        }
+        return NextResponse.json({ success: true })
+      }
+      default:
+        return NextResponse.json({ error: 'action must be draw or cancel' }, { status: 400 })
+    }
+  } catch (error) {
+    console.error(`Error processing raffle ${body.action}:`, error)
+    return NextResponse.json({ error: 'Failed to update raffle' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { RaffleService, type RaffleScheduleInput } from '@/services/raffles'
+import type { ReleaseMode } from '@/types/raffle'
+
+/**
+ * GET /api/admin/raffles?productId=...
+ * A product's raffles with entry counts per size
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const productId = request.nextUrl.searchParams.get('productId')
+  if (!productId) {
+    return NextResponse.json({ error: 'productId is required' }, { status: 400 })
+  }
+
+  try {
+    const raffles = await RaffleService.listForProduct(productId)
+    return NextResponse.json({ raffles })
+  } catch (error) {
+    console.error('Error getting raffles:', error)
+    return NextResponse.json({ error: 'Failed to get raffles' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/raffles
+ * Schedule a raffle and put the product in raffle mode: { productId, entryOpensAt, entryClosesAt, claimMinutes? }
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const input = await request.json() as RaffleScheduleInput
+    const result = await RaffleService.schedule((admin as { id: string }).id, input || {})
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ raffle: { ...result.raffle, seed: null } })
+  } catch (error) {
+    console.error('Error scheduling raffle:', error)
+    return NextResponse.json({ error: 'Failed to schedule raffle' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/admin/raffles
+ * Switch a product's release mode: { productId, releaseMode: 'standard' | 'raffle' }
+ */
+export async function PATCH(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json() as { productId?: string; releaseMode?: ReleaseMode }
+    if (!body?.productId) {
+      return NextResponse.json({ error: 'productId is required' }, { status: 400 })
+    }
+
+    const result = await RaffleService.setReleaseMode(body.productId, body.releaseMode as ReleaseMode)
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error updating release mode:', error)
+    return NextResponse.json({ error: 'Failed to update release mode' }, { status: 500 })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { ReturnService, ReturnError, ReturnErrorCode } from '@/services/returns'
+import type { ReturnInspectionOutcome } from '@/types/order'
+
+const ERROR_STATUS: Record<ReturnErrorCode, number> = {
+  [ReturnErrorCode.NOT_FOUND]: 404,
+  [ReturnErrorCode.NOT_RETURNABLE]: 409,
+  [ReturnErrorCode.INVALID_REQUEST]: 400,
+  [ReturnErrorCode.INVALID_STATE]: 409,
+  [ReturnErrorCode.REFUND_FAILED]: 502
+}
+
+interface ReturnActionBody {
+  action: 'approve' | 'reject' | 'receive' | 'refund'
+  reason?: string
+  outcome?: ReturnInspectionOutcome
+  notes?: string
+}
+
+/**
+ * POST /api/admin/returns/[id]
+ * Move a return along: { action: 'approve' } | { action: 'reject', reason } |
+ * { action: 'receive', outcome: 'restock' | 'write_off', notes? } | { action: 'refund' }
+ * Receiving a return refunds it; 'refund' retries a refund that failed.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  let body: ReturnActionBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const adminId = (admin as { id: string }).id
+
+  try {
+    switch (body.action) {
+      case 'approve':
+        return NextResponse.json({ return: await ReturnService.approveReturn(params.id, adminId) })
+      case 'reject':
+        return NextResponse.json({ return: await ReturnService.rejectReturn(params.id, adminId, String(body.reason || '')) })
+      case 'receive':
+        return NextResponse.json({
+          return: await ReturnService.receiveReturn(params.id, adminId, {
+            outcome: body.outcome as ReturnInspectionOutcome,
+            notes: typeof body.notes === 'string' ? body.notes : undefined
+          })
+        })
+      case 'refund':
+        return NextResponse.json({ return: await ReturnService.refundReturn(params.id, adminId) })
+      default:
+        return NextResponse.json({ error: 'action must be approve, reject, receive or refund' }, { status: 400 })
+    }
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error(`Error processing return ${body.action}:`, error)
+    return NextResponse.json({ error: 'Failed to update return' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { ReturnService } from '@/services/returns'
+import type { ReturnStatus } from '@/types/order'
+
+const STATUSES: ReturnStatus[] = ['requested', 'approved', 'rejected', 'received', 'refunded']
+
+/**
+ * GET /api/admin/returns?status=requested
+ * Returns for review, newest first, with signed photo URLs
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const status = request.nextUrl.searchParams.get('status')
+  if (status && !STATUSES.includes(status as ReturnStatus)) {
+    return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 })
+  }
+
+  try {
+    const returns = await ReturnService.listReturns((status as ReturnStatus) || undefined)
+    return NextResponse.json({ returns })
+  } catch (error) {
+    console.error('Error listing returns:', error)
+    return NextResponse.json({ error: 'Failed to list returns' }, { status: 500 })
+  }
+}
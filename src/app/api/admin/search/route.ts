@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { SearchSynonymService } from '@/services/search-synonyms'
+
+/**
+ * GET /api/admin/search?days=30
+ * Search synonyms and the searches that found nothing in the last `days` days
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const days = Number(request.nextUrl.searchParams.get('days') || 30)
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return NextResponse.json({ error: 'days must be between 1 and 365' }, { status: 400 })
+  }
+
+  try {
+    const [synonyms, zeroResultQueries] = await Promise.all([
+      SearchSynonymService.listSynonyms(),
+      SearchSynonymService.listZeroResultQueries(days)
+    ])
+    return NextResponse.json({ synonyms, zeroResultQueries })
+  } catch (error) {
+    console.error('Error getting search synonyms:', error)
+    return NextResponse.json({ error: 'Failed to get search synonyms' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/search
+ * Create or update a synonym: { synonym: { id?, term, expansion } }
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const { synonym } = await request.json() as { synonym?: { id?: string; term?: string; expansion?: string } }
+    if (!synonym || typeof synonym !== 'object') {
+      return NextResponse.json({ error: 'synonym is required' }, { status: 400 })
+    }
+
+    const result = await SearchSynonymService.saveSynonym(synonym, (admin as { id: string }).id)
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ synonym: result.synonym })
+  } catch (error) {
+    console.error('Error saving search synonym:', error)
+    return NextResponse.json(
+      { error: 'Failed to save search synonym', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/search?id=...
+ */
+export async function DELETE(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 })
+  }
+
+  try {
+    await SearchSynonymService.deleteSynonym(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting search synonym:', error)
+    return NextResponse.json({ error: 'Failed to delete search synonym' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { ShipmentTrackingService } from '@/services/shipment-tracking'
+
+/**
+ * POST /api/admin/shipments/track
+ * Poll the carriers now instead of waiting for the scheduled run; { orderId? } limits it to one order
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  let body: { orderId?: string } = {}
+  try {
+    body = await request.json()
+  } catch {
+    // No body: poll every shipment that is due
+  }
+
+  try {
+    const result = await ShipmentTrackingService.pollShipments({
+      orderId: typeof body.orderId === 'string' ? body.orderId : undefined
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error polling shipment tracking:', error)
+    return NextResponse.json({ error: 'Failed to refresh tracking' }, { status: 500 })
+  }
+}
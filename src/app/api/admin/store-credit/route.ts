@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { StoreCreditService, StoreCreditError, StoreCreditErrorCode } from '@/services/store-credit'
+
+const ERROR_STATUS: Record<StoreCreditErrorCode, number> = {
+  [StoreCreditErrorCode.INVALID_REQUEST]: 400,
+  [StoreCreditErrorCode.NO_ACCOUNT]: 400,
+  [StoreCreditErrorCode.INSUFFICIENT_CREDIT]: 409,
+  [StoreCreditErrorCode.GIFT_CARD_NOT_FOUND]: 404,
+  [StoreCreditErrorCode.GIFT_CARD_REDEEMED]: 409
+}
+
+/**
+ * GET /api/admin/store-credit?userId=
+ * A customer's store credit balance and ledger
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const userId = request.nextUrl.searchParams.get('userId')
+  if (!userId) {
+    return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+  }
+
+  try {
+    const account = await StoreCreditService.getAccount(userId, 100)
+    return NextResponse.json({ account })
+  } catch (error) {
+    console.error('Error getting store credit:', error)
+    return NextResponse.json({ error: 'Failed to get store credit' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/store-credit
+ * Adjust a customer's balance: { userId, amount, reason }. A negative amount takes credit away;
+ * the adjustment is written to the audit log.
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  let body: { userId?: unknown; amount?: unknown; reason?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (typeof body.userId !== 'string' || typeof body.amount !== 'number' || typeof body.reason !== 'string') {
+    return NextResponse.json({ error: 'userId, amount and reason are required' }, { status: 400 })
+  }
+
+  try {
+    const entry = await StoreCreditService.adjustBalance(body.userId, body.amount, body.reason, (admin as { id: string }).id)
+    return NextResponse.json({ entry }, { status: 201 })
+  } catch (error) {
+    if (error instanceof StoreCreditError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error adjusting store credit:', error)
+    return NextResponse.json({ error: 'Failed to adjust store credit' }, { status: 500 })
+  }
+}
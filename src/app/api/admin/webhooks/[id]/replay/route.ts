@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { getStripeWebhookQueue } from '@/services/stripe-webhooks'
+
+/**
+ * POST /api/admin/webhooks/[id]/replay
+ * Process a dead-lettered Stripe event again; responds with the event after the replay attempt
+ */
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const queue = getStripeWebhookQueue()
+
+    const existing = await queue.getEvent(params.id)
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook event not found' }, { status: 404 })
+    }
+
+    const queueItemId = await queue.replay(params.id, (admin as { id: string }).id)
+    if (!queueItemId) {
+      return NextResponse.json(
+        { error: `Only dead-lettered events can be replayed; this one is ${existing.status}` },
+        { status: 409 }
+      )
+    }
+
+    const event = await queue.getEvent(params.id)
+    return NextResponse.json({ event })
+  } catch (error) {
+    console.error('Error replaying Stripe webhook event:', error)
+    return NextResponse.json({ error: 'Failed to replay webhook event' }, { status: 500 })
+  }
+}
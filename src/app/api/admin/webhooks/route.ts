@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { getStripeWebhookQueue } from '@/services/stripe-webhooks'
+import type { StripeWebhookEventStatus } from '@/lib/webhook/stripe-queue'
+
+const STATUSES: StripeWebhookEventStatus[] = ['pending', 'processed', 'dead_letter']
+
+/**
+ * GET /api/admin/webhooks?status=dead_letter
+ * Stored Stripe events, newest first, with counts by status
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const status = request.nextUrl.searchParams.get('status')
+  if (status && !STATUSES.includes(status as StripeWebhookEventStatus)) {
+    return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 })
+  }
+
+  try {
+    const queue = getStripeWebhookQueue()
+    const [events, stats] = await Promise.all([
+      queue.listEvents({ status: (status as StripeWebhookEventStatus) || undefined }),
+      queue.getStats()
+    ])
+
+    return NextResponse.json({ events, stats })
+  } catch (error) {
+    console.error('Error listing Stripe webhook events:', error)
+    return NextResponse.json({ error: 'Failed to list webhook events' }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { PromotionError } from '@/lib/promotions'
+import type { PromotionErrorCode } from '@/lib/promotions'
+import { PromotionService } from '@/services/promotions'
+
+const ERROR_STATUS: Record<PromotionErrorCode, number> = {
+  NOT_FOUND: 404,
+  NOT_STARTED: 422,
+  EXPIRED: 422,
+  MIN_SUBTOTAL: 422,
+  NO_ELIGIBLE_ITEMS: 422,
+  USAGE_LIMIT: 409,
+  BUYER_USAGE_LIMIT: 409
+}
+
+/**
+ * POST /api/checkout/discount
+ * Apply a discount code in the cart: { code, items: [{ productId, quantity }], email? }
+ * Returns the discount on the items (base currency); checkout prices and redeems the code again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { code, items, email } = await request.json() as {
+      code?: string
+      items?: Array<{ productId: string; quantity: number }>
+      email?: string
+    }
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'Please enter a discount code' }, { status: 400 })
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json({ error: 'Your cart is empty' }, { status: 400 })
+    }
+
+    if (items.some(item => !item.productId || !Number.isInteger(item.quantity) || item.quantity < 1)) {
+      return NextResponse.json({ error: 'Each item needs a productId and a positive quantity' }, { status: 400 })
+    }
+
+    const user = await getSupabaseServerUser()
+    const discount = await PromotionService.previewDiscount(code, items, {
+      userId: user?.id,
+      email: user?.email || email
+    })
+
+    return NextResponse.json({ discount })
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error applying discount code:', error)
+    return NextResponse.json({ error: 'Failed to apply discount code' }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { PromotionError } from '@/lib/promotions'
+import { OrderPricingService } from '@/services/order-pricing'
+import { PromotionService } from '@/services/promotions'
+import type { Promotion } from '@/types/promotion'
+
+/**
+ * POST /api/checkout/quote
+ * Shipping options, tax, discounts and totals (base currency) for a cart and destination:
+ * { items: [{ productId, quantity }], country, region?, shippingRateId?, discountCode?, email? }
+ * A discount code that does not apply is left out of the quote and explained in discountError.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { items, country, region, shippingRateId, discountCode, email } = await request.json() as {
+      items?: Array<{ productId: string; quantity: number }>
+      country?: string
+      region?: string
+      shippingRateId?: string
+      discountCode?: string
+      email?: string
+    }
+
+    if (!Array.isArray(items) || items.length === 0 || !country) {
+      return NextResponse.json({ error: 'Items and a destination country are required' }, { status: 400 })
+    }
+
+    if (items.some(item => !item.productId || !Number.isInteger(item.quantity) || item.quantity < 1)) {
+      return NextResponse.json({ error: 'Each item needs a productId and a positive quantity' }, { status: 400 })
+    }
+
+    let promotion: Promotion | null = null
+    let discountError: string | undefined
+    if (discountCode) {
+      const user = await getSupabaseServerUser()
+      try {
+        promotion = await PromotionService.findByCode(discountCode, { userId: user?.id, email: user?.email || email })
+      } catch (error) {
+        if (!(error instanceof PromotionError)) throw error
+        discountError = error.message
+      }
+    }
+
+    try {
+      const quote = await OrderPricingService.quoteOrder(items, { country, region }, shippingRateId, promotion)
+      return NextResponse.json({ quote, discountError })
+    } catch (error) {
+      if (!(promotion && error instanceof PromotionError)) throw error
+
+      const quote = await OrderPricingService.quoteOrder(items, { country, region }, shippingRateId)
+      return NextResponse.json({ quote, discountError: error.message })
+    }
+  } catch (error) {
+    console.error('Error quoting order:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to price order' },
+      { status: 422 }
+    )
+  }
+}
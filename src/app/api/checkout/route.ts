@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { CheckoutService, CheckoutError, CheckoutErrorCode } from '@/services/checkout'
+import type { CheckoutBuyer } from '@/services/checkout'
+import { GuestOrderService } from '@/services/guest-orders'
+import { PricingService } from '@/services/pricing'
+import type { CheckoutRequest, ShippingAddress } from '@/types/order'
+
+const REQUIRED_ADDRESS_FIELDS: Array<keyof ShippingAddress> = [
+  'firstName', 'lastName', 'address', 'city', 'state', 'postalCode', 'country'
+]
+
+const ERROR_STATUS: Record<CheckoutErrorCode, number> = {
+  [CheckoutErrorCode.EMPTY_CART]: 400,
+  [CheckoutErrorCode.INVALID_REQUEST]: 422,
+  [CheckoutErrorCode.PRICE_CHANGED]: 409,
+  [CheckoutErrorCode.OUT_OF_STOCK]: 409,
+  [CheckoutErrorCode.PROMOTION_INVALID]: 422,
+  [CheckoutErrorCode.INSUFFICIENT_CREDIT]: 409,
+  [CheckoutErrorCode.IDEMPOTENCY_MISMATCH]: 422,
+  [CheckoutErrorCode.IN_PROGRESS]: 409,
+  [CheckoutErrorCode.PAYMENT_FAILED]: 502,
+  [CheckoutErrorCode.FAILED]: 500
+}
+
+/**
+ * POST /api/checkout
+ * Place an order from the buyer's saved cart and create its payment intent.
+ * Body: { shippingAddress, shippingRateId?, currency?, notes?, expectedTotal?, discountCode?, useStoreCredit? }
+ * Guests also send { email, cartSessionId } and get a lookupToken back with the order.
+ * paymentIntent is null when store credit paid the whole order.
+ * Send an Idempotency-Key header to make retries safe; one is generated and returned when omitted.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+
+  const idempotencyKey = request.headers.get('idempotency-key') || crypto.randomUUID()
+  if (idempotencyKey.length > 255) {
+    return NextResponse.json({ error: 'Idempotency-Key must be at most 255 characters' }, { status: 400 })
+  }
+
+  let body: CheckoutRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const missingFields = REQUIRED_ADDRESS_FIELDS.filter(field => !body.shippingAddress?.[field])
+  if (missingFields.length > 0) {
+    return NextResponse.json(
+      { error: 'Shipping address is incomplete', fields: missingFields },
+      { status: 400 }
+    )
+  }
+
+  if (body.currency && !PricingService.isSupportedCurrency(body.currency)) {
+    return NextResponse.json({ error: `Unsupported currency: ${body.currency}` }, { status: 400 })
+  }
+
+  if (body.expectedTotal !== undefined && (typeof body.expectedTotal !== 'number' || !Number.isFinite(body.expectedTotal))) {
+    return NextResponse.json({ error: 'expectedTotal must be a number' }, { status: 400 })
+  }
+
+  if (body.discountCode !== undefined && typeof body.discountCode !== 'string') {
+    return NextResponse.json({ error: 'discountCode must be a string' }, { status: 400 })
+  }
+
+  if (body.useStoreCredit !== undefined && typeof body.useStoreCredit !== 'boolean') {
+    return NextResponse.json({ error: 'useStoreCredit must be a boolean' }, { status: 400 })
+  }
+
+  let buyer: CheckoutBuyer
+  if (user) {
+    buyer = { userId: user.id, email: user.email }
+  } else {
+    if (typeof body.email !== 'string' || !GuestOrderService.isValidEmail(body.email)) {
+      return NextResponse.json({ error: 'Please enter a valid email address', fields: ['email'] }, { status: 400 })
+    }
+    if (typeof body.cartSessionId !== 'string' || !body.cartSessionId) {
+      return NextResponse.json({ error: 'cartSessionId is required to check out as a guest' }, { status: 400 })
+    }
+    buyer = { userId: null, email: body.email, cartSessionId: body.cartSessionId }
+  }
+
+  try {
+    const result = await CheckoutService.checkout(buyer, {
+      shippingAddress: body.shippingAddress,
+      shippingRateId: body.shippingRateId,
+      currency: body.currency,
+      notes: body.notes,
+      expectedTotal: body.expectedTotal,
+      discountCode: body.discountCode || undefined,
+      useStoreCredit: body.useStoreCredit || undefined
+    }, idempotencyKey)
+
+    return NextResponse.json(result, {
+      status: result.replayed ? 200 : 201,
+      headers: { 'Idempotency-Key': idempotencyKey }
+    })
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details, idempotencyKey },
+        { status: ERROR_STATUS[error.code], headers: { 'Idempotency-Key': idempotencyKey } }
+      )
+    }
+
+    console.error('Error in checkout:', error)
+    return NextResponse.json({ error: 'Failed to place order' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { GiftCardService } from '@/services/gift-cards'
+import { StoreCreditError } from '@/services/store-credit'
+import type { GiftCardPurchaseRequest } from '@/types/store-credit'
+
+/**
+ * GET /api/gift-cards
+ * Gift cards the signed-in user has bought, newest first
+ */
+export async function GET() {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const giftCards = await GiftCardService.listPurchased(user.id)
+    return NextResponse.json({ giftCards })
+  } catch (error) {
+    console.error('Error getting gift cards:', error)
+    return NextResponse.json({ error: 'Failed to get gift cards' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/gift-cards
+ * Buy a gift card: { amount, recipientEmail, recipientName?, message? }. Returns the pending card and
+ * its payment intent, which is confirmed through /api/payments/confirm like an order payment.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  let body: GiftCardPurchaseRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (typeof body.amount !== 'number' || typeof body.recipientEmail !== 'string') {
+    return NextResponse.json({ error: 'amount and recipientEmail are required' }, { status: 400 })
+  }
+  if (
+    (body.recipientName !== undefined && typeof body.recipientName !== 'string') ||
+    (body.message !== undefined && typeof body.message !== 'string')
+  ) {
+    return NextResponse.json({ error: 'recipientName and message must be strings' }, { status: 400 })
+  }
+
+  try {
+    const { giftCard, paymentIntent } = await GiftCardService.purchaseGiftCard(user.id, {
+      amount: body.amount,
+      recipientEmail: body.recipientEmail,
+      recipientName: body.recipientName,
+      message: body.message
+    })
+
+    return NextResponse.json({
+      giftCard,
+      paymentIntent: {
+        id: paymentIntent.id,
+        clientSecret: paymentIntent.clientSecret ?? null,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        status: paymentIntent.status
+      }
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof StoreCreditError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 })
+    }
+
+    console.error('Error buying gift card:', error)
+    return NextResponse.json({ error: 'Failed to buy gift card' }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { DatabaseService } from '@/lib/database/client'
+import type { ProductMatchReviewStatus } from '@/types/database'
+
+const REVIEW_STATUSES: ProductMatchReviewStatus[] = ['pending', 'merged', 'rejected']
+
+/**
+ * GET /api/kicks/matches?status=pending
+ * Cross-marketplace matches waiting for (or resolved by) an admin
+ */
+export async function GET(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const status = (request.nextUrl.searchParams.get('status') || 'pending') as ProductMatchReviewStatus
+  if (!REVIEW_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `Invalid status. Expected one of: ${REVIEW_STATUSES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const reviews = await new DatabaseService().getProductMatchReviews(status)
+    return NextResponse.json({ reviews })
+  } catch (error) {
+    console.error('Error getting product match reviews:', error)
+    return NextResponse.json({ error: 'Failed to get product match reviews' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/kicks/matches
+ * Resolve a review: `merge` links the listing to the candidate product, `reject` keeps them separate
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const { id, action } = await request.json() as { id?: string; action?: 'merge' | 'reject' }
+
+    if (!id || (action !== 'merge' && action !== 'reject')) {
+      return NextResponse.json({ error: 'Review id and an action of merge or reject are required' }, { status: 400 })
+    }
+
+    const review = await new DatabaseService().resolveProductMatchReview(id, action === 'merge', admin.id)
+    return NextResponse.json({ review })
+  } catch (error) {
+    console.error('Error resolving product match review:', error)
+    return NextResponse.json(
+      { error: 'Failed to resolve product match review', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerAdmin } from '@/lib/auth/server'
+import { syncOrchestrator } from '@/lib/sync'
+import type { SyncJobType } from '@/types/database'
+
+/**
+ * GET /api/kicks/sync
+ * Recent sync jobs and the available job types
+ */
+export async function GET() {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const jobs = await syncOrchestrator.getJobs(20)
+
+    return NextResponse.json({
+      jobs,
+      job_types: syncOrchestrator.getJobTypes()
+    })
+  } catch (error) {
+    console.error('Error getting sync jobs:', error)
+    return NextResponse.json({ error: 'Failed to get sync jobs' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/kicks/sync
+ * Run a sync job now, or queue it for the sync worker with `mode: 'queue'`
+ */
+export async function POST(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const { type, mode = 'run', maxProducts, marketplace, priority } = body as {
+      type: SyncJobType
+      mode?: 'run' | 'queue'
+      maxProducts?: number
+      marketplace?: 'stockx' | 'goat' | 'both'
+      priority?: number
+    }
+
+    if (!type || !syncOrchestrator.getJobTypes().includes(type)) {
+      return NextResponse.json(
+        { error: `Invalid job type. Expected one of: ${syncOrchestrator.getJobTypes().join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const options = { maxProducts, marketplace }
+    const enqueueOptions = { priority, requestedBy: admin.id }
+
+    if (mode === 'queue') {
+      const jobId = await syncOrchestrator.enqueueJob(type, options, enqueueOptions)
+      return NextResponse.json({ job_id: jobId, status: 'pending' }, { status: 202 })
+    }
+
+    const result = await syncOrchestrator.runJob(type, options, enqueueOptions)
+
+    return NextResponse.json({
+      job_id: result.syncLogId,
+      status: result.success ? 'completed' : 'failed',
+      stats: result.stats,
+      duration: result.duration,
+      errors: result.errors.slice(0, 5) // Return first 5 errors for debugging
+    })
+  } catch (error) {
+    console.error('Sync job error:', error)
+    return NextResponse.json(
+      { error: 'Failed to run sync job', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/kicks/sync?id=...
+ * Cancel a queued job
+ */
+export async function DELETE(request: NextRequest) {
+  const admin = await getSupabaseServerAdmin()
+  if (!admin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const jobId = request.nextUrl.searchParams.get('id')
+  if (!jobId) {
+    return NextResponse.json({ error: 'Job id is required' }, { status: 400 })
+  }
+
+  try {
+    const cancelled = await syncOrchestrator.cancelJob(jobId)
+
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Only pending jobs can be cancelled' }, { status: 409 })
+    }
+
+    return NextResponse.json({ job_id: jobId, status: 'cancelled' })
+  } catch (error) {
+    console.error('Error cancelling sync job:', error)
+    return NextResponse.json({ error: 'Failed to cancel sync job' }, { status: 500 })
+  }
+}
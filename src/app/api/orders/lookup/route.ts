@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { GuestOrderService, GuestOrderError, GuestOrderErrorCode } from '@/services/guest-orders'
+
+const ERROR_STATUS: Record<GuestOrderErrorCode, number> = {
+  [GuestOrderErrorCode.NOT_FOUND]: 404,
+  [GuestOrderErrorCode.INVALID_REQUEST]: 400,
+  [GuestOrderErrorCode.CLAIMED]: 409
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof GuestOrderError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+  }
+
+  console.error('Error looking up guest order:', error)
+  return NextResponse.json({ error: 'Failed to look up order' }, { status: 500 })
+}
+
+/**
+ * GET /api/orders/lookup?order=SX-12345678&token=...
+ * A guest order from the signed link in its confirmation email
+ */
+export async function GET(request: NextRequest) {
+  const orderNumber = request.nextUrl.searchParams.get('order') || ''
+  const token = request.nextUrl.searchParams.get('token') || ''
+
+  try {
+    return NextResponse.json(await GuestOrderService.findOrderByToken(orderNumber, token))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * POST /api/orders/lookup
+ * A guest order by order number and the email it was placed with: { orderNumber, email }
+ */
+export async function POST(request: NextRequest) {
+  let body: { orderNumber?: string; email?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await GuestOrderService.findOrder(String(body.orderNumber || ''), String(body.email || '')))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
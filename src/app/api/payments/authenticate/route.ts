@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { PaymentProviderError } from '@/lib/payments'
+import { PaymentService } from '@/services/payments'
+import { GuestOrderService } from '@/services/guest-orders'
+
+/**
+ * POST /api/payments/authenticate
+ * Complete a simulated 3D Secure challenge: { paymentIntentId, approve }
+ * Guests send the lookupToken returned by checkout instead of signing in.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+
+  try {
+    const { paymentIntentId, lookupToken, approve } = await request.json() as {
+      paymentIntentId?: string
+      lookupToken?: string
+      approve?: boolean
+    }
+
+    if (!paymentIntentId || typeof approve !== 'boolean') {
+      return NextResponse.json({ error: 'paymentIntentId and approve are required' }, { status: 400 })
+    }
+
+    if (!user && !lookupToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const intent = await PaymentService.retrievePaymentIntent(paymentIntentId)
+    const allowed = user
+      ? intent.metadata?.userId === user.id
+      : await GuestOrderService.canAccessOrder(intent.metadata?.orderId, lookupToken!)
+    if (!allowed) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+    }
+
+    const result = await PaymentService.authenticatePayment(paymentIntentId, approve)
+    return NextResponse.json(result, { status: result.status === 'failed' ? 402 : 200 })
+  } catch (error) {
+    console.error('Error authenticating payment:', error)
+
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+
+    return NextResponse.json({ error: 'Failed to authenticate payment' }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { PaymentProviderError } from '@/lib/payments'
+import { PaymentService } from '@/services/payments'
+import { GuestOrderService } from '@/services/guest-orders'
+
+/**
+ * POST /api/payments/confirm
+ * Pay for a checkout order: { paymentIntentId, card: { cardNumber } | { token }, returnUrl? }
+ * Guests send the lookupToken returned by checkout instead of signing in.
+ * Responds with the outcome: succeeded, failed, requires_action (3D Secure) or processing.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+
+  try {
+    const { paymentIntentId, lookupToken, card, returnUrl } = await request.json() as {
+      paymentIntentId?: string
+      lookupToken?: string
+      card?: { cardNumber?: string; token?: string }
+      returnUrl?: string
+    }
+
+    if (!paymentIntentId || (!card?.cardNumber && !card?.token)) {
+      return NextResponse.json({ error: 'paymentIntentId and a card are required' }, { status: 400 })
+    }
+
+    if (!user && !lookupToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const intent = await PaymentService.retrievePaymentIntent(paymentIntentId)
+    const allowed = user
+      ? intent.metadata?.userId === user.id
+      : await GuestOrderService.canAccessOrder(intent.metadata?.orderId, lookupToken!)
+    if (!allowed) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+    }
+
+    const result = await PaymentService.processPayment({
+      paymentIntentId,
+      paymentMethod: { type: 'card', details: card },
+      return_url: returnUrl || ''
+    })
+
+    return NextResponse.json(result, { status: result.status === 'failed' ? 402 : 200 })
+  } catch (error) {
+    console.error('Error confirming payment:', error)
+
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+
+    return NextResponse.json({ error: 'Failed to confirm payment' }, { status: 500 })
+  }
+}
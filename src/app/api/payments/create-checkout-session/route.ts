@@ -1,62 +0,0 @@
-import { NextRequest, NextResponse } from 'next/server'
-import Stripe from 'stripe'
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2025-08-27.basil',
-})
-
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { line_items, success_url, cancel_url, orderId, userId } = body
-
-    if (!line_items || !success_url || !cancel_url || !orderId) {
-      return NextResponse.json(
-        { error: 'Missing required fields: line_items, success_url, cancel_url, orderId' },
-        { status: 400 }
-      )
-    }
-
-    // Create Stripe checkout session
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items,
-      mode: 'payment',
-      success_url: `${success_url}?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url,
-      metadata: {
-        orderId,
-        userId: userId || '',
-      },
-      // Optional: collect customer information
-      customer_creation: 'if_required',
-      billing_address_collection: 'required',
-      shipping_address_collection: {
-        allowed_countries: ['US', 'CA', 'GB', 'FR', 'DE', 'ES', 'IT', 'NL', 'BE'],
-      },
-      // Enable automatic tax calculation (optional)
-      automatic_tax: {
-        enabled: false, // Set to true if you want Stripe to calculate taxes
-      },
-    })
-
-    return NextResponse.json({
-      sessionId: session.id,
-      url: session.url,
-    })
-  } catch (error) {
-    console.error('Error creating checkout session:', error)
-
-    if (error instanceof Stripe.errors.StripeError) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.statusCode || 500 }
-      )
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
-  }
-}
\ No newline at end of file
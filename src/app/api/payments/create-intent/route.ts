@@ -1,56 +0,0 @@
-import { NextRequest, NextResponse } from 'next/server'
-import Stripe from 'stripe'
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2025-08-27.basil',
-})
-
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { amount, currency = 'eur', orderId, userId, metadata = {} } = body
-
-    if (!amount || !orderId) {
-      return NextResponse.json(
-        { error: 'Amount and orderId are required' },
-        { status: 400 }
-      )
-    }
-
-    // Create payment intent with Stripe
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100), // Convert to cents
-      currency: currency.toLowerCase(),
-      automatic_payment_methods: {
-        enabled: true,
-      },
-      metadata: {
-        orderId,
-        userId: userId || '',
-        ...metadata,
-      },
-    })
-
-    return NextResponse.json({
-      id: paymentIntent.id,
-      client_secret: paymentIntent.client_secret,
-      amount: paymentIntent.amount,
-      currency: paymentIntent.currency,
-      status: paymentIntent.status,
-    })
-  } catch (error) {
-    console.error('Error creating payment intent:', error)
-
-    if (error instanceof Stripe.errors.StripeError) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.statusCode || 500 }
-      )
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
-  }
-}
\ No newline at end of file
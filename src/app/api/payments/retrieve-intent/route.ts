@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Stripe from 'stripe'
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2025-08-27.basil',
-})
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { PaymentProviderError } from '@/lib/payments'
+import { PaymentService } from '@/services/payments'
+import { GuestOrderService } from '@/services/guest-orders'
 
+/**
+ * GET /api/payments/retrieve-intent?payment_intent_id=...
+ * The buyer's own payment intent. Guests pass the lookup_token returned by checkout instead of signing in.
+ */
 export async function GET(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+
   try {
     const { searchParams } = new URL(request.url)
     const paymentIntentId = searchParams.get('payment_intent_id')
+    const lookupToken = searchParams.get('lookup_token')
 
     if (!paymentIntentId) {
       return NextResponse.json(
@@ -17,12 +23,22 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Retrieve payment intent from Stripe
-    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId)
+    if (!user && !lookupToken) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    // Retrieve payment intent from the configured provider
+    const paymentIntent = await PaymentService.retrievePaymentIntent(paymentIntentId)
+    const allowed = user
+      ? paymentIntent.metadata?.userId === user.id
+      : await GuestOrderService.canAccessOrder(paymentIntent.metadata?.orderId, lookupToken!)
+    if (!allowed) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+    }
 
     return NextResponse.json({
       id: paymentIntent.id,
-      client_secret: paymentIntent.client_secret,
+      client_secret: paymentIntent.clientSecret,
       amount: paymentIntent.amount,
       currency: paymentIntent.currency,
       status: paymentIntent.status,
@@ -31,10 +47,10 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('Error retrieving payment intent:', error)
 
-    if (error instanceof Stripe.errors.StripeError) {
+    if (error instanceof PaymentProviderError) {
       return NextResponse.json(
         { error: error.message },
-        { status: error.statusCode || 500 }
+        { status: error.statusCode }
       )
     }
 
@@ -43,4 +59,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { RaffleService } from '@/services/raffles'
+
+/**
+ * GET /api/raffles/[id]
+ * The signed-in user's raffle entry with its product, for the claim page winners are emailed
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const claim = await RaffleService.getClaim(user.id, params.id)
+    if (!claim) {
+      return NextResponse.json({ error: 'Raffle entry not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(claim)
+  } catch (error) {
+    console.error('Error getting raffle entry:', error)
+    return NextResponse.json({ error: 'Failed to get raffle entry' }, { status: 500 })
+  }
+}
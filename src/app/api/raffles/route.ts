@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { RaffleService, type RaffleEntryInput } from '@/services/raffles'
+
+/**
+ * GET /api/raffles?productId=...
+ * The product's current raffle, with the signed-in user's entry; the seed only once drawn
+ */
+export async function GET(request: NextRequest) {
+  const productId = request.nextUrl.searchParams.get('productId')
+  if (!productId) {
+    return NextResponse.json({ error: 'productId is required' }, { status: 400 })
+  }
+
+  try {
+    const user = await getSupabaseServerUser()
+    const result = await RaffleService.getForProduct(productId, user?.id)
+    return NextResponse.json({ raffle: result?.raffle || null, entry: result?.entry || null })
+  } catch (error) {
+    console.error('Error getting raffle:', error)
+    return NextResponse.json({ error: 'Failed to get raffle' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/raffles
+ * Enter a raffle for one size while entries are open: { raffleId, size }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const input = await request.json() as RaffleEntryInput
+    const result = await RaffleService.enter(user.id, input || {})
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ entry: result.entry })
+  } catch (error) {
+    console.error('Error entering raffle:', error)
+    return NextResponse.json({ error: 'Failed to enter raffle' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/raffles?id=...
+ * Withdraw an entry; a pair held for the user rolls down to the next alternate
+ */
+export async function DELETE(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 })
+  }
+
+  try {
+    const result = await RaffleService.withdraw(user.id, id)
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error withdrawing raffle entry:', error)
+    return NextResponse.json({ error: 'Failed to withdraw raffle entry' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { ReturnService, ReturnError, ReturnErrorCode, type ReturnPhoto } from '@/services/returns'
+import type { ReturnReason } from '@/types/order'
+
+const ERROR_STATUS: Record<ReturnErrorCode, number> = {
+  [ReturnErrorCode.NOT_FOUND]: 404,
+  [ReturnErrorCode.NOT_RETURNABLE]: 409,
+  [ReturnErrorCode.INVALID_REQUEST]: 400,
+  [ReturnErrorCode.INVALID_STATE]: 409,
+  [ReturnErrorCode.REFUND_FAILED]: 502
+}
+
+/**
+ * GET /api/returns
+ * The signed-in user's returns, newest first
+ */
+export async function GET() {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const returns = await ReturnService.getUserReturns(user.id)
+    return NextResponse.json({ returns })
+  } catch (error) {
+    console.error('Error getting returns:', error)
+    return NextResponse.json({ error: 'Failed to get returns' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/returns
+ * Open a return for an item on a delivered order. Multipart form data:
+ * orderId, orderItemId, quantity, reason, details?, photos (repeatable image files)
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return NextResponse.json({ error: 'Expected multipart form data' }, { status: 400 })
+  }
+
+  const orderId = form.get('orderId')
+  const orderItemId = form.get('orderItemId')
+  if (typeof orderId !== 'string' || typeof orderItemId !== 'string' || !orderId || !orderItemId) {
+    return NextResponse.json({ error: 'orderId and orderItemId are required' }, { status: 400 })
+  }
+
+  const photos: ReturnPhoto[] = []
+  for (const entry of form.getAll('photos')) {
+    if (typeof entry === 'string') continue
+    photos.push({
+      name: entry.name,
+      type: entry.type,
+      size: entry.size,
+      data: await entry.arrayBuffer()
+    })
+  }
+
+  try {
+    const orderReturn = await ReturnService.requestReturn(user.id, {
+      orderId,
+      orderItemId,
+      quantity: Number(form.get('quantity') || 1),
+      reason: String(form.get('reason') || '') as ReturnReason,
+      details: typeof form.get('details') === 'string' ? String(form.get('details')) : undefined
+    }, photos)
+
+    return NextResponse.json({ return: orderReturn }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error requesting return:', error)
+    return NextResponse.json({ error: 'Failed to request return' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { StoreCreditService, StoreCreditError, StoreCreditErrorCode } from '@/services/store-credit'
+
+const ERROR_STATUS: Record<StoreCreditErrorCode, number> = {
+  [StoreCreditErrorCode.INVALID_REQUEST]: 400,
+  [StoreCreditErrorCode.NO_ACCOUNT]: 400,
+  [StoreCreditErrorCode.INSUFFICIENT_CREDIT]: 409,
+  [StoreCreditErrorCode.GIFT_CARD_NOT_FOUND]: 404,
+  [StoreCreditErrorCode.GIFT_CARD_REDEEMED]: 409
+}
+
+/**
+ * POST /api/store-credit/redeem
+ * Add a gift card to the signed-in user's store credit: { code }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  let body: { code?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (typeof body.code !== 'string') {
+    return NextResponse.json({ error: 'code is required' }, { status: 400 })
+  }
+
+  try {
+    const entry = await StoreCreditService.redeemGiftCard(user.id, body.code)
+    return NextResponse.json({ entry }, { status: 201 })
+  } catch (error) {
+    if (error instanceof StoreCreditError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] })
+    }
+
+    console.error('Error redeeming gift card:', error)
+    return NextResponse.json({ error: 'Failed to redeem gift card' }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { StoreCreditService } from '@/services/store-credit'
+
+/**
+ * GET /api/store-credit
+ * The signed-in user's store credit balance (base currency) and recent ledger entries
+ */
+export async function GET() {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const account = await StoreCreditService.getAccount(user.id)
+    return NextResponse.json({ account })
+  } catch (error) {
+    console.error('Error getting store credit:', error)
+    return NextResponse.json({ error: 'Failed to get store credit' }, { status: 500 })
+  }
+}
@@ -62,6 +62,7 @@ export async function POST(request: NextRequest) {
         result = await EmailService.sendShipmentTracking({
           orderNumber: `TEST-${Date.now()}`,
           customerName: email, // Using email as name for simplicity
+          customerEmail: email,
           trackingNumber: 'TN123456789FR',
           carrier: 'Chronopost',
           trackingUrl: 'https://www.chronopost.fr/tracking-no-cms/suivi-page?listeNumerosLT=TN123456789FR',
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { StockWaitlistService, type WaitlistInput } from '@/services/stock-waitlist'
+
+/**
+ * GET /api/waitlist?productId=...
+ * The signed-in user's open waitlist places, optionally for one product, with any unit held for them
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const productId = request.nextUrl.searchParams.get('productId') || undefined
+    const places = await StockWaitlistService.listPlaces(user.id, productId)
+    return NextResponse.json({ places })
+  } catch (error) {
+    console.error('Error getting waitlist:', error)
+    return NextResponse.json({ error: 'Failed to get waitlist' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/waitlist
+ * Join the waitlist for a sold-out size: { productId, size }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const input = await request.json() as WaitlistInput
+    const result = await StockWaitlistService.join(user.id, input || {})
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ place: result.place })
+  } catch (error) {
+    console.error('Error joining waitlist:', error)
+    return NextResponse.json({ error: 'Failed to join waitlist' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/waitlist?id=...
+ * Leave the waitlist; a unit held for the user passes to the next in line
+ */
+export async function DELETE(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 })
+  }
+
+  try {
+    const result = await StockWaitlistService.leave(user.id, id)
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error leaving waitlist:', error)
+    return NextResponse.json({ error: 'Failed to leave waitlist' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServerUser } from '@/lib/auth/server'
+import { WatchlistService, type WatchInput } from '@/services/watchlist'
+
+/**
+ * GET /api/watchlist
+ * The signed-in user's watched products with their current price and available sizes
+ */
+export async function GET() {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const watchlist = await WatchlistService.listWatchlist(user.id)
+    return NextResponse.json({ watchlist })
+  } catch (error) {
+    console.error('Error getting watchlist:', error)
+    return NextResponse.json({ error: 'Failed to get watchlist' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/watchlist
+ * Watch a product: { productId, size?, targetPrice?, notifyPriceDrop?, notifyRestock? }. Watching it
+ * again in the same size updates the target price and alert choices.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const input = await request.json() as WatchInput
+    const result = await WatchlistService.watchProduct(user.id, input || {})
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ item: result.item })
+  } catch (error) {
+    console.error('Error watching product:', error)
+    return NextResponse.json({ error: 'Failed to watch product' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/watchlist?id=...
+ */
+export async function DELETE(request: NextRequest) {
+  const user = await getSupabaseServerUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 })
+  }
+
+  try {
+    await WatchlistService.unwatch(user.id, id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing watchlist item:', error)
+    return NextResponse.json({ error: 'Failed to remove watchlist item' }, { status: 500 })
+  }
+}
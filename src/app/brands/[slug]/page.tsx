@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { supabase } from '@/lib/supabase/client'
+import { ProductsWithFilters } from '@/components/ProductsWithFilters'
+
+interface Brand {
+  id: string
+  name: string
+  logoUrl?: string
+}
+
+export default function BrandPage() {
+  const params = useParams()
+  const [brand, setBrand] = useState<Brand | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchBrand() {
+      try {
+        const { data, error } = await supabase
+          .from('brands')
+          .select('id, name, logo_url')
+          .eq('slug', params.slug as string)
+          .maybeSingle()
+
+        if (error) throw error
+        setBrand(data ? { id: data.id, name: data.name, logoUrl: data.logo_url || undefined } : null)
+      } catch (err) {
+        console.error('Error fetching brand:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBrand()
+  }, [params.slug])
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse bg-gray-300 h-10 rounded w-1/3"></div>
+      </div>
+    )
+  }
+
+  if (!brand) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <h1 className="text-2xl font-bold text-gray-900">Brand not found</h1>
+        <Link href="/brands" className="text-blue-600 hover:text-blue-800 mt-2 inline-block">
+          See all brands
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-8 pb-4">
+        <div className="flex items-center space-x-4">
+          {brand.logoUrl && (
+            <img src={brand.logoUrl} alt={brand.name} className="h-12 w-12 object-contain" />
+          )}
+          <h1 className="text-4xl font-bold text-gray-900">{brand.name}</h1>
+        </div>
+      </div>
+
+      <ProductsWithFilters brand={brand} />
+    </div>
+  )
+}
@@ -1,4 +1,33 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { productApiService } from '@/services/api/products'
+import type { BrandFacet } from '@/services/api/product-search'
+
 export default function BrandsPage() {
+  const [brands, setBrands] = useState<BrandFacet[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchBrands() {
+      try {
+        // The brand facet of an unfiltered search counts each brand's active products
+        const response = await productApiService.getProductFacets('')
+        if (response.error) throw response.error
+        setBrands([...response.data!.brands].sort((a, b) => a.value.localeCompare(b.value)))
+      } catch (err) {
+        console.error('Error fetching brands:', err)
+        setError('Failed to load brands')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBrands()
+  }, [])
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
@@ -10,9 +39,30 @@ export default function BrandsPage() {
         </p>
       </div>
 
-      <div className="text-center py-8">
-        <p className="text-gray-600">Loading brands...</p>
-      </div>
+      {loading ? (
+        <div className="text-center py-8">
+          <p className="text-gray-600">Loading brands...</p>
+        </div>
+      ) : error ? (
+        <div className="text-center py-8">
+          <p className="text-red-600">{error}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {brands.map(brand => (
+            <Link
+              key={brand.id}
+              href={`/brands/${brand.slug}`}
+              className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-lg transition-shadow"
+            >
+              <h2 className="text-lg font-semibold text-gray-900">{brand.value}</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {brand.count} {brand.count === 1 ? 'product' : 'products'}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -4,11 +4,21 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { useCart } from '@/contexts/CartContext'
 import { useAuth } from '@/contexts/AuthContext'
+import { useSizeSystem } from '@/contexts/UserPreferencesContext'
+import { formatSize } from '@/lib/sizing'
+import { usePricing } from '@/hooks/usePricing'
 
 export default function CartPage() {
   const { cart, actions, loading, stockWarnings, stockConnected, hasStockIssues } = useCart()
   const { user } = useAuth()
+  const { sizeSystem } = useSizeSystem()
+  const { formatPrice } = usePricing()
   const [updatingItemId, setUpdatingItemId] = useState<string | null>(null)
+  const [discountCode, setDiscountCode] = useState('')
+  const [discountError, setDiscountError] = useState<string | null>(null)
+  const [applyingDiscount, setApplyingDiscount] = useState(false)
+
+  const discountAmount = cart.discount?.amount ?? 0
 
   const handleQuantityChange = async (itemId: string, newQuantity: number) => {
     setUpdatingItemId(itemId)
@@ -23,6 +33,22 @@ export default function CartPage() {
     actions.removeItem(itemId)
   }
 
+  const handleApplyDiscount = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!discountCode.trim()) return
+
+    setApplyingDiscount(true)
+    setDiscountError(null)
+    try {
+      await actions.applyDiscountCode(discountCode)
+      setDiscountCode('')
+    } catch (error) {
+      setDiscountError(error instanceof Error ? error.message : 'Invalid discount code')
+    } finally {
+      setApplyingDiscount(false)
+    }
+  }
+
   const handleClearCart = () => {
     if (confirm('Are you sure you want to clear your cart?')) {
       actions.clearCart()
@@ -150,9 +176,11 @@ export default function CartPage() {
                     {item.product.name}
                   </Link>
                   <p className="text-sm text-gray-600">{item.product.brand}</p>
-                  <p className="text-sm text-gray-600">Size: {item.size}</p>
+                  <p className="text-sm text-gray-600">
+                    Size: {formatSize(item.size, sizeSystem, { brand: item.product.brand, gender: item.product.gender })}
+                  </p>
                   <p className="text-lg font-semibold text-gray-900 mt-1">
-                    €{item.product.price.toFixed(2)}
+                    {formatPrice(item.product.price)}
                   </p>
                 </div>
 
@@ -201,8 +229,24 @@ export default function CartPage() {
               <div className="space-y-3 mb-6">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Items ({cart.totalItems})</span>
-                  <span className="text-gray-900">€{cart.totalPrice.toFixed(2)}</span>
+                  <span className="text-gray-900">{formatPrice(cart.totalPrice)}</span>
                 </div>
+                {cart.discount && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-green-700">
+                      {cart.discount.name} ({cart.discount.code})
+                      <button
+                        onClick={actions.removeDiscountCode}
+                        className="ml-2 text-xs text-gray-500 hover:text-gray-700 underline"
+                      >
+                        Remove
+                      </button>
+                    </span>
+                    <span className="text-green-700">
+                      {cart.discount.freeShipping && discountAmount === 0 ? 'Free shipping' : `-${formatPrice(discountAmount)}`}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Shipping</span>
                   <span className="text-gray-900">Free</span>
@@ -210,27 +254,49 @@ export default function CartPage() {
                 <div className="border-t pt-3">
                   <div className="flex justify-between text-lg font-semibold">
                     <span>Total</span>
-                    <span>€{cart.totalPrice.toFixed(2)}</span>
+                    <span>{formatPrice(cart.totalPrice - discountAmount)}</span>
                   </div>
                 </div>
               </div>
 
-              {user ? (
-                hasStockIssues ? (
-                  <button
-                    disabled
-                    className="w-full bg-gray-400 text-white py-3 px-4 rounded-lg cursor-not-allowed text-center block"
-                  >
-                    Resolve Stock Issues First
-                  </button>
-                ) : (
-                  <Link
-                    href="/checkout"
-                    className="w-full bg-black text-white py-3 px-4 rounded-lg hover:bg-gray-800 transition-colors text-center block"
-                  >
-                    Proceed to Checkout
-                  </Link>
-                )
+              {!cart.discount && (
+                <form onSubmit={handleApplyDiscount} className="mb-4">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={discountCode}
+                      onChange={(e) => setDiscountCode(e.target.value)}
+                      placeholder="Discount code"
+                      className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md uppercase focus:outline-none focus:ring-2 focus:ring-black"
+                    />
+                    <button
+                      type="submit"
+                      disabled={applyingDiscount || !discountCode.trim()}
+                      className="px-4 py-2 text-sm border border-black rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {applyingDiscount ? 'Applying...' : 'Apply'}
+                    </button>
+                  </div>
+                  {(discountError || cart.discountError) && (
+                    <p className="text-xs text-red-600 mt-2">{discountError || cart.discountError}</p>
+                  )}
+                </form>
+              )}
+
+              {hasStockIssues ? (
+                <button
+                  disabled
+                  className="w-full bg-gray-400 text-white py-3 px-4 rounded-lg cursor-not-allowed text-center block"
+                >
+                  Resolve Stock Issues First
+                </button>
+              ) : user ? (
+                <Link
+                  href="/checkout"
+                  className="w-full bg-black text-white py-3 px-4 rounded-lg hover:bg-gray-800 transition-colors text-center block"
+                >
+                  Proceed to Checkout
+                </Link>
               ) : (
                 <div className="space-y-3">
                   <Link
@@ -239,6 +305,12 @@ export default function CartPage() {
                   >
                     Sign In to Checkout
                   </Link>
+                  <Link
+                    href="/checkout"
+                    className="w-full border border-black text-black py-3 px-4 rounded-lg hover:bg-gray-50 transition-colors text-center block"
+                  >
+                    Checkout as Guest
+                  </Link>
                   <p className="text-xs text-gray-500 text-center">
                     New customer? <Link href="/signup" className="text-black hover:text-gray-700">Create account</Link>
                   </p>
@@ -2,22 +2,53 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { useCart } from '@/contexts/CartContext'
 import { useAuth } from '@/contexts/AuthContext'
-import { OrderService } from '@/services/orders'
-import PaymentService from '@/services/payments'
-import type { ShippingAddress, PaymentMethod, CheckoutData } from '@/types/order'
-import type { PaymentIntent } from '@/services/payments'
+import { useSizeSystem } from '@/contexts/UserPreferencesContext'
+import { formatSize } from '@/lib/sizing'
+import { usePricing } from '@/hooks/usePricing'
+import StripePaymentForm from '@/components/StripePaymentForm'
+import { SIMULATOR_TEST_CARDS } from '@/lib/payments/simulator-provider'
+import { PricingService } from '@/services/pricing'
+import { getCartSessionId } from '@/hooks/useCart'
+import type { ShippingAddress, CheckoutRequest, CheckoutResult, Order } from '@/types/order'
+import type { PaymentIntent, ProcessPaymentResult } from '@/services/payments'
+import type { OrderQuote } from '@/types/pricing'
+
+// Cards the payment simulator understands; only offered when the simulator takes the payment
+const TEST_CARD_OPTIONS = [
+  { label: 'Succeeds', number: SIMULATOR_TEST_CARDS.success },
+  { label: 'Declined', number: SIMULATOR_TEST_CARDS.declined },
+  { label: 'Insufficient funds', number: SIMULATOR_TEST_CARDS.insufficientFunds },
+  { label: 'Requires authentication', number: SIMULATOR_TEST_CARDS.requiresAuthentication },
+  { label: 'Succeeds after a delay', number: SIMULATOR_TEST_CARDS.delayedSuccess },
+  { label: 'Declined after a delay', number: SIMULATOR_TEST_CARDS.delayedDecline },
+]
 
 export default function CheckoutPage() {
   const router = useRouter()
   const { cart, actions } = useCart()
   const { user } = useAuth()
+  const { sizeSystem } = useSizeSystem()
+  const { currency, formatPrice } = usePricing()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [step, setStep] = useState<'shipping' | 'payment' | 'review'>('shipping')
   const [paymentIntent, setPaymentIntent] = useState<PaymentIntent | null>(null)
+  const [placedOrder, setPlacedOrder] = useState<Order | null>(null)
   const [processingPayment, setProcessingPayment] = useState(false)
+  const [quote, setQuote] = useState<OrderQuote | null>(null)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
+  const [discountError, setDiscountError] = useState<string | null>(null)
+  const [shippingRateId, setShippingRateId] = useState<string | null>(null)
+  const [checkoutKey, setCheckoutKey] = useState(() => crypto.randomUUID())
+  // Guest checkout: the email gets the confirmation and order link; the token lets the guest pay and view the order
+  const [guestEmail, setGuestEmail] = useState('')
+  const [lookupToken, setLookupToken] = useState<string | null>(null)
+  // Store credit (base currency) for signed-in buyers; the server takes it at the order's locked rate
+  const [storeCreditBalance, setStoreCreditBalance] = useState(0)
+  const [useStoreCredit, setUseStoreCredit] = useState(false)
 
   const [shippingAddress, setShippingAddress] = useState<ShippingAddress>({
     firstName: '',
@@ -30,28 +61,88 @@ export default function CheckoutPage() {
     phone: '',
   })
 
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>({
-    id: 'mock-payment',
-    type: 'card',
-    last4: '4242',
-    brand: 'visa',
-    expiryMonth: 12,
-    expiryYear: 2025,
-  })
-
-  // Calculate totals
-  const subtotal = cart.totalPrice
-  const shipping = subtotal > 100 ? 0 : 9.99 // Free shipping over €100
-  const tax = subtotal * 0.21 // 21% VAT for EU
-  const total = subtotal + shipping + tax
+  // Simulator payments only; Stripe collects the card in its own Elements iframe
+  const [cardNumber, setCardNumber] = useState('')
+  const [authenticationRequired, setAuthenticationRequired] = useState(false)
+
+  // Totals preview from the tax/shipping rules (base currency); the order recomputes them when it is created
+  const subtotal = quote?.subtotal ?? cart.totalPrice
+  const shipping = quote?.shipping ?? 0
+  const tax = quote?.tax ?? 0
+  const discount = quote?.discount ?? cart.discount?.amount ?? 0
+  const total = quote?.total ?? subtotal - discount
+  const cartKey = cart.items.map(item => `${item.product.id}:${item.quantity}`).join(',')
+  const discountCode = cart.discount?.code
+  const storeCreditApplied = useStoreCredit ? Math.min(storeCreditBalance, total) : 0
+  const paidWithCredit = useStoreCredit && storeCreditBalance >= total
 
   useEffect(() => {
-    // Redirect if not authenticated
     if (!user) {
-      router.push('/login?redirect=/checkout')
+      setStoreCreditBalance(0)
+      setUseStoreCredit(false)
       return
     }
 
+    let cancelled = false
+
+    fetch('/api/store-credit')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data) setStoreCreditBalance(data.account.balance)
+      })
+      .catch(err => console.error('Failed to load store credit:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (cart.items.length === 0 || !shippingAddress.country) return
+
+    let cancelled = false
+
+    async function fetchQuote() {
+      try {
+        const response = await fetch('/api/checkout/quote', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            items: cart.items.map(item => ({ productId: item.product.id, quantity: item.quantity })),
+            country: shippingAddress.country,
+            region: shippingAddress.state,
+            shippingRateId,
+            discountCode
+          })
+        })
+        const data = await response.json()
+
+        if (cancelled) return
+
+        if (!response.ok) {
+          setQuote(null)
+          setQuoteError(data.error || 'Unable to calculate shipping and tax')
+          return
+        }
+
+        setQuote(data.quote)
+        setQuoteError(null)
+        setDiscountError(data.discountError || null)
+      } catch (err) {
+        if (!cancelled) setQuoteError('Unable to calculate shipping and tax')
+      }
+    }
+
+    fetchQuote()
+
+    return () => {
+      cancelled = true
+    }
+  }, [cartKey, shippingAddress.country, shippingAddress.state, shippingRateId, discountCode])
+
+  useEffect(() => {
     // Redirect if cart is empty
     if (cart.items.length === 0) {
       router.push('/cart')
@@ -59,7 +150,7 @@ export default function CheckoutPage() {
     }
 
     // Pre-fill with user data if available
-    if (user.user_metadata) {
+    if (user?.user_metadata) {
       const fullName = user.user_metadata.full_name || ''
       const [firstName, ...lastNameParts] = fullName.split(' ')
       setShippingAddress(prev => ({
@@ -83,6 +174,18 @@ export default function CheckoutPage() {
       return
     }
 
+    if (!user && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(guestEmail.trim())) {
+      setError('Please enter a valid email address')
+      return
+    }
+
+    if (quoteError) {
+      setError(quoteError)
+      return
+    }
+
+    // A new checkout attempt; retries of the payment step reuse this key and cannot place a second order
+    setCheckoutKey(crypto.randomUUID())
     setStep('payment')
   }
 
@@ -92,55 +195,108 @@ export default function CheckoutPage() {
     setLoading(true)
 
     try {
-      // Ensure user is authenticated
-      if (!user) {
-        router.push('/login?redirect=/checkout')
-        return
+      // The server re-reads the saved cart, recomputes totals, reserves stock and creates the order
+      // and its payment intent; the order locks the exchange rate and is charged in the buyer's currency
+      const response = await fetch('/api/checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': checkoutKey,
+        },
+        body: JSON.stringify({
+          shippingAddress,
+          currency,
+          shippingRateId: quote?.shippingRateId,
+          discountCode,
+          useStoreCredit: useStoreCredit || undefined,
+          // Guests check out the cart saved under their cart session
+          ...(user ? {} : { email: guestEmail.trim(), cartSessionId: getCartSessionId() }),
+        } satisfies CheckoutRequest),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        // The code stopped applying since it was added to the cart; the next attempt is a new checkout
+        if (data.code === 'PROMOTION_INVALID') {
+          actions.removeDiscountCode()
+          setCheckoutKey(crypto.randomUUID())
+          throw new Error(`${data.error}. The discount code was removed from your cart.`)
+        }
+        throw new Error(data.error || 'Failed to place order')
       }
 
-      // Create order first (with pending status)
-      const checkoutData: CheckoutData = {
-        shippingAddress,
-        paymentMethod,
-        items: cart.items,
-        subtotal,
-        shipping,
-        tax,
-        total,
+      const { order, paymentIntent: createdIntent, lookupToken: orderToken } = data as CheckoutResult
+
+      // Store credit paid for everything and the order is already confirmed
+      if (!createdIntent) {
+        router.push(`/order-success?orderId=${order.id}`)
+        actions.clearCart()
+        return
       }
 
-      const { order } = await OrderService.createOrder(user.id, checkoutData)
-
-      // Create payment intent
-      const intent = await PaymentService.createPaymentIntent({
-        amount: total,
-        currency: 'eur',
-        orderId: order.id,
-        userId: user.id,
-        metadata: {
-          customerEmail: user.email || '',
-          orderNumber: `ORD-${Date.now()}`,
-        },
-      })
+      const intent: PaymentIntent = {
+        id: createdIntent.id,
+        amount: createdIntent.amount,
+        currency: createdIntent.currency,
+        status: createdIntent.status,
+        clientSecret: createdIntent.clientSecret,
+        metadata: { orderId: order.id },
+        provider: createdIntent.provider,
+      }
 
       setPaymentIntent(intent)
+      setPlacedOrder(order)
+      setLookupToken(orderToken || null)
       setStep('review')
     } catch (err) {
-      setError('Failed to prepare payment. Please try again.')
+      setError(err instanceof Error ? err.message : 'Failed to prepare payment. Please try again.')
       console.error('Payment preparation error:', err)
     } finally {
       setLoading(false)
     }
   }
 
-  const handlePlaceOrder = async () => {
-    if (!paymentIntent) {
-      setError('Payment not initialized. Please try again.')
+  // Apply the outcome reported by /api/payments/confirm or /api/payments/authenticate
+  const handlePaymentResult = (result: ProcessPaymentResult) => {
+    if (result.status === 'requires_action') {
+      // Stripe sends the buyer to the card issuer; the simulator challenge is answered in place
+      if (result.nextAction?.url) {
+        window.location.href = result.nextAction.url
+        return
+      }
+      setAuthenticationRequired(true)
       return
     }
 
-    if (!user) {
-      setError('Please log in to complete your order.')
+    setAuthenticationRequired(false)
+
+    if (result.status === 'succeeded' || result.status === 'processing') {
+      router.push(successUrl())
+      actions.clearCart()
+      return
+    }
+
+    // Declined: the order was cancelled and its stock released, so the next attempt places a new one
+    setError(result.error || 'Your payment was declined. Please try another card.')
+    setPlacedOrder(null)
+    setPaymentIntent(null)
+    setLookupToken(null)
+    setCheckoutKey(crypto.randomUUID())
+    setStep('payment')
+  }
+
+  // Guests have no order history to land on, so they go to their order's lookup page
+  const successUrl = () => {
+    if (!user && placedOrder?.orderNumber && lookupToken) {
+      const params = new URLSearchParams({ order: placedOrder.orderNumber, token: lookupToken, placed: '1' })
+      return `/orders/lookup?${params}`
+    }
+    return `/order-success?orderId=${placedOrder?.id}`
+  }
+
+  const handlePlaceOrder = async () => {
+    if (!paymentIntent || !placedOrder) {
+      setError('Payment not initialized. Please try again.')
       return
     }
 
@@ -148,31 +304,26 @@ export default function CheckoutPage() {
     setError(null)
 
     try {
-      // Use mock payment system (replace with your custom payment implementation)
-      const session = await PaymentService.createCheckoutSession({
-        line_items: cart.items.map(item => ({
-          price_data: {
-            currency: 'eur',
-            product_data: {
-              name: `${item.product.brand} ${item.product.name}`,
-              description: `Size: ${item.size}`,
-              images: [item.product.imageUrl],
-            },
-            unit_amount: Math.round(item.product.price * 100), // Convert to cents
-          },
-          quantity: item.quantity,
-        })),
-        success_url: `${window.location.origin}/order-success?session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${window.location.origin}/checkout`,
-        orderId: paymentIntent.metadata?.orderId || '',
-        userId: user.id,
+      const response = await fetch('/api/payments/confirm', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          paymentIntentId: paymentIntent.id,
+          lookupToken: lookupToken || undefined,
+          // Provider payment method references (pm_...) go through as tokens
+          card: cardNumber.startsWith('pm_') ? { token: cardNumber } : { cardNumber },
+          returnUrl: `${window.location.origin}${successUrl()}`,
+        }),
       })
+      const data = await response.json()
 
-      // Clear cart before redirect (since payment will be processed)
-      actions.clearCart()
+      if (!response.ok && !data.status) {
+        throw new Error(data.error || 'Failed to process payment')
+      }
 
-      // Redirect to payment processing
-      await PaymentService.redirectToCheckout(session.sessionId)
+      handlePaymentResult(data as ProcessPaymentResult)
     } catch (err) {
       setError('Failed to process payment. Please try again.')
       console.error('Payment processing error:', err)
@@ -181,7 +332,36 @@ export default function CheckoutPage() {
     }
   }
 
-  if (!user || cart.items.length === 0) {
+  const handleAuthenticate = async (approve: boolean) => {
+    if (!paymentIntent) return
+
+    setProcessingPayment(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/payments/authenticate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ paymentIntentId: paymentIntent.id, lookupToken: lookupToken || undefined, approve }),
+      })
+      const data = await response.json()
+
+      if (!response.ok && !data.status) {
+        throw new Error(data.error || 'Failed to authenticate payment')
+      }
+
+      handlePaymentResult(data as ProcessPaymentResult)
+    } catch (err) {
+      setError('Failed to authenticate payment. Please try again.')
+      console.error('Payment authentication error:', err)
+    } finally {
+      setProcessingPayment(false)
+    }
+  }
+
+  if (cart.items.length === 0) {
     return (
       <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="text-center">
@@ -237,6 +417,28 @@ export default function CheckoutPage() {
             <div className="bg-white border border-gray-200 rounded-lg p-6">
               <h2 className="text-xl font-semibold mb-4">Shipping Information</h2>
               <form onSubmit={handleShippingSubmit} className="space-y-4">
+                {!user && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Email *
+                    </label>
+                    <input
+                      type="email"
+                      required
+                      value={guestEmail}
+                      onChange={(e) => setGuestEmail(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      We will send your confirmation and a link to your order here.{' '}
+                      <Link href="/login?redirect=/checkout" className="text-blue-600 hover:text-blue-800">
+                        Sign in
+                      </Link>{' '}
+                      to check out with your account instead.
+                    </p>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -324,7 +526,10 @@ export default function CheckoutPage() {
                     <select
                       required
                       value={shippingAddress.country}
-                      onChange={(e) => setShippingAddress(prev => ({ ...prev, country: e.target.value }))}
+                      onChange={(e) => {
+                        setShippingAddress(prev => ({ ...prev, country: e.target.value }))
+                        setShippingRateId(null)
+                      }}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
                       <option value="US">United States</option>
@@ -368,39 +573,29 @@ export default function CheckoutPage() {
             <div className="bg-white border border-gray-200 rounded-lg p-6">
               <h2 className="text-xl font-semibold mb-4">Payment Information</h2>
               <form onSubmit={handlePaymentSubmit} className="space-y-4">
-                <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-4">
-                  <div className="flex items-center">
-                    <svg className="w-5 h-5 text-blue-600 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
-                    </svg>
-                    <p className="text-sm text-blue-800">
-                      Mock payment system. Custom payment processing will be implemented later.
-                    </p>
-                  </div>
-                </div>
-
-                <div className="border border-gray-300 rounded-lg p-4 bg-gray-50">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      <div className="w-8 h-8 bg-blue-600 rounded flex items-center justify-center">
-                        <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 20 20">
-                          <path d="M4 4a2 2 0 00-2 2v1h16V6a2 2 0 00-2-2H4z" />
-                          <path fillRule="evenodd" d="M18 9H2v5a2 2 0 002 2h12a2 2 0 002-2V9zM4 13a1 1 0 011-1h1a1 1 0 110 2H5a1 1 0 01-1-1zm5-1a1 1 0 100 2h1a1 1 0 100-2H9z" clipRule="evenodd" />
-                        </svg>
-                      </div>
-                      <div className="ml-3">
-                        <p className="text-sm font-medium text-gray-900">Mock Payment Method</p>
-                        <p className="text-xs text-gray-600">Custom payment system will be integrated</p>
-                      </div>
-                    </div>
+                {user && storeCreditBalance > 0 && (
+                  <label className="flex items-start space-x-3 border border-gray-200 rounded-md p-4 cursor-pointer">
                     <input
-                      type="radio"
-                      checked
-                      readOnly
-                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      type="checkbox"
+                      checked={useStoreCredit}
+                      onChange={(e) => setUseStoreCredit(e.target.checked)}
+                      className="mt-1"
                     />
-                  </div>
-                </div>
+                    <span>
+                      <span className="block text-sm font-medium text-gray-900">Use store credit</span>
+                      <span className="block text-xs text-gray-600">
+                        {formatPrice(storeCreditBalance)} available
+                        {useStoreCredit && !paidWithCredit && ` · the remaining ${formatPrice(total - storeCreditApplied)} is charged to your card`}
+                      </span>
+                    </span>
+                  </label>
+                )}
+
+                {!paidWithCredit && (
+                  <p className="text-sm text-gray-600">
+                    Your order is reserved when you continue; you enter your card to pay for it on the next step.
+                  </p>
+                )}
 
                 <div className="flex justify-between">
                   <button
@@ -412,9 +607,10 @@ export default function CheckoutPage() {
                   </button>
                   <button
                     type="submit"
+                    disabled={loading}
                     className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
-                    Review Order
+                    {paidWithCredit ? 'Place Order' : 'Review Order'}
                   </button>
                 </div>
               </form>
@@ -435,15 +631,88 @@ export default function CheckoutPage() {
                   <p>{shippingAddress.city}, {shippingAddress.state} {shippingAddress.postalCode}</p>
                   <p>{shippingAddress.country}</p>
                   {shippingAddress.phone && <p>{shippingAddress.phone}</p>}
+                  {!user && <p>{guestEmail}</p>}
                 </div>
               </div>
 
               {/* Payment Method */}
               <div className="mb-6">
                 <h3 className="font-medium text-gray-900 mb-2">Payment Method</h3>
-                <p className="text-sm text-gray-600">Mock Payment Method (Custom system will be integrated)</p>
+                {paymentIntent?.provider === 'stripe' && paymentIntent.clientSecret ? (
+                  <StripePaymentForm
+                    clientSecret={paymentIntent.clientSecret}
+                    returnUrl={`${window.location.origin}${successUrl()}`}
+                    disabled={processingPayment}
+                    onResult={handlePaymentResult}
+                  />
+                ) : (
+                  <div className="space-y-4">
+                    <div>
+                      <label htmlFor="cardNumber" className="block text-sm font-medium text-gray-700 mb-1">
+                        Card Number
+                      </label>
+                      <input
+                        type="text"
+                        id="cardNumber"
+                        required
+                        value={cardNumber}
+                        onChange={(e) => setCardNumber(e.target.value)}
+                        placeholder="4242 4242 4242 4242"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+
+                    <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+                      <p className="text-sm font-medium text-blue-800 mb-2">Test cards</p>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 text-xs text-blue-800">
+                        {TEST_CARD_OPTIONS.map(({ label, number }) => (
+                          <button
+                            key={number}
+                            type="button"
+                            onClick={() => setCardNumber(number)}
+                            className="text-left hover:underline"
+                          >
+                            <span className="font-mono">{number}</span> — {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {placedOrder?.storeCredit ? (
+                  <p className="text-sm text-gray-600">
+                    Store credit: {PricingService.formatPrice(placedOrder.storeCredit, placedOrder.currency)}
+                  </p>
+                ) : null}
               </div>
 
+              {authenticationRequired && (
+                <div className="mb-6 border border-yellow-300 bg-yellow-50 rounded-md p-4">
+                  <h3 className="font-medium text-gray-900 mb-1">Confirm this payment</h3>
+                  <p className="text-sm text-gray-600 mb-3">
+                    Your card issuer needs you to authenticate this payment.
+                  </p>
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => handleAuthenticate(true)}
+                      disabled={processingPayment}
+                      className="px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleAuthenticate(false)}
+                      disabled={processingPayment}
+                      className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Order Items */}
               <div className="mb-6">
                 <h3 className="font-medium text-gray-900 mb-2">Order Items</h3>
@@ -457,10 +726,12 @@ export default function CheckoutPage() {
                       />
                       <div className="flex-1">
                         <p className="text-sm font-medium text-gray-900">{item.product.name}</p>
-                        <p className="text-xs text-gray-600">{item.product.brand} • Size {item.size}</p>
+                        <p className="text-xs text-gray-600">
+                          {item.product.brand} • Size {formatSize(item.size, sizeSystem, { brand: item.product.brand, gender: item.product.gender })}
+                        </p>
                       </div>
                       <div className="text-sm">
-                        <p className="text-gray-900">€{item.product.price.toFixed(2)} × {item.quantity}</p>
+                        <p className="text-gray-900">{formatPrice(item.product.price)} × {item.quantity}</p>
                       </div>
                     </div>
                   ))}
@@ -475,17 +746,19 @@ export default function CheckoutPage() {
                 >
                   ← Back to Payment
                 </button>
-                <button
-                  onClick={handlePlaceOrder}
-                  disabled={loading}
-                  className={`px-6 py-2 rounded-md font-medium ${
-                    loading
-                      ? 'bg-gray-400 text-gray-700 cursor-not-allowed'
-                      : 'bg-green-600 text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500'
-                  }`}
-                >
-                  {loading ? 'Processing...' : 'Place Order'}
-                </button>
+                {paymentIntent?.provider !== 'stripe' && (
+                  <button
+                    onClick={handlePlaceOrder}
+                    disabled={processingPayment || authenticationRequired || !cardNumber.trim()}
+                    className={`px-6 py-2 rounded-md font-medium ${
+                      processingPayment || authenticationRequired || !cardNumber.trim()
+                        ? 'bg-gray-400 text-gray-700 cursor-not-allowed'
+                        : 'bg-green-600 text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500'
+                    }`}
+                  >
+                    {processingPayment ? 'Processing...' : 'Place Order'}
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -499,29 +772,102 @@ export default function CheckoutPage() {
             <div className="space-y-3 mb-6">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Subtotal</span>
-                <span className="text-gray-900">€{subtotal.toFixed(2)}</span>
+                <span className="text-gray-900">{formatPrice(subtotal)}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Shipping</span>
                 <span className="text-gray-900">
-                  {shipping === 0 ? 'Free' : `€${shipping.toFixed(2)}`}
+                  {!quote ? '—' : shipping === 0 ? 'Free' : formatPrice(shipping)}
                 </span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Tax</span>
-                <span className="text-gray-900">€{tax.toFixed(2)}</span>
-              </div>
+              {quote && quote.shippingOptions.length > 1 && !placedOrder && (
+                <select
+                  value={quote.shippingRateId}
+                  onChange={(e) => setShippingRateId(e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  aria-label="Shipping method"
+                >
+                  {quote.shippingOptions.map((option) => (
+                    <option key={option.rateId} value={option.rateId}>
+                      {option.carrier} {option.serviceLevel} · {option.amount === 0 ? 'Free' : formatPrice(option.amount)}
+                      {option.estimatedDays.min && option.estimatedDays.max
+                        ? ` · ${option.estimatedDays.min}-${option.estimatedDays.max} days`
+                        : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {quote
+                ? quote.discountLines.map((line) => (
+                    <div key={`${line.promotionId}-${line.target}`} className="flex justify-between text-sm">
+                      <span className="text-green-700">
+                        {line.target === 'shipping' ? 'Free shipping' : line.name} ({line.code})
+                      </span>
+                      <span className="text-green-700">-{formatPrice(line.amount)}</span>
+                    </div>
+                  ))
+                : cart.discount && discount > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-green-700">{cart.discount.name} ({cart.discount.code})</span>
+                      <span className="text-green-700">-{formatPrice(discount)}</span>
+                    </div>
+                  )}
+              {quote && quote.taxLines.length > 0 ? (
+                quote.taxLines.map((line) => (
+                  <div key={line.ruleId} className="flex justify-between text-sm">
+                    <span className="text-gray-600">{line.name} ({(line.rate * 100).toFixed(2).replace(/\.?0+$/, '')}%)</span>
+                    <span className="text-gray-900">{formatPrice(line.amount)}</span>
+                  </div>
+                ))
+              ) : (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Tax</span>
+                  <span className="text-gray-900">{quote ? formatPrice(tax) : '—'}</span>
+                </div>
+              )}
               <div className="border-t pt-3">
                 <div className="flex justify-between text-lg font-semibold">
                   <span>Total</span>
-                  <span>€{total.toFixed(2)}</span>
+                  <span>{placedOrder ? PricingService.formatPrice(placedOrder.total, placedOrder.currency) : formatPrice(total)}</span>
                 </div>
               </div>
+              {(placedOrder ? !!placedOrder.storeCredit : storeCreditApplied > 0) && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Store credit</span>
+                    <span className="text-gray-900">
+                      -{placedOrder
+                        ? PricingService.formatPrice(placedOrder.storeCredit!, placedOrder.currency)
+                        : formatPrice(storeCreditApplied)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-sm font-medium">
+                    <span>To pay by card</span>
+                    <span>
+                      {placedOrder
+                        ? PricingService.formatPrice(placedOrder.total - placedOrder.storeCredit!, placedOrder.currency)
+                        : formatPrice(total - storeCreditApplied)}
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
 
-            {subtotal < 100 && (
+            {discountError && (
+              <div className="text-xs text-red-600 bg-red-50 p-3 rounded-md mb-3">
+                {discountCode}: {discountError}
+              </div>
+            )}
+
+            {quoteError && (
+              <div className="text-xs text-red-600 bg-red-50 p-3 rounded-md mb-3">
+                {quoteError}
+              </div>
+            )}
+
+            {quote?.freeShippingRemaining && (
               <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded-md">
-                Add €{(100 - subtotal).toFixed(2)} more for free shipping!
+                Add {formatPrice(quote.freeShippingRemaining)} more for free shipping!
               </div>
             )}
           </div>
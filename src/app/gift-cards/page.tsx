@@ -0,0 +1,307 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { SIMULATOR_TEST_CARDS } from '@/lib/payments/simulator-provider'
+import { PricingService } from '@/services/pricing'
+import type { ProcessPaymentResult } from '@/services/payments'
+import type { GiftCard, GiftCardPurchaseRequest } from '@/types/store-credit'
+
+// Gift cards are sold in the base currency
+const AMOUNT_OPTIONS = [25, 50, 100, 200]
+
+const TEST_CARD_OPTIONS = [
+  { label: 'Succeeds', number: SIMULATOR_TEST_CARDS.success },
+  { label: 'Declined', number: SIMULATOR_TEST_CARDS.declined },
+  { label: 'Requires authentication', number: SIMULATOR_TEST_CARDS.requiresAuthentication },
+]
+
+const STATUS_LABELS: Record<GiftCard['status'], string> = {
+  pending: 'Awaiting payment',
+  active: 'Sent',
+  redeemed: 'Redeemed',
+  void: 'Payment failed',
+}
+
+export default function GiftCardsPage() {
+  const { user, isLoading } = useAuth()
+  const [giftCards, setGiftCards] = useState<GiftCard[]>([])
+  const [form, setForm] = useState({ amount: 50, recipientEmail: '', recipientName: '', message: '' })
+  const [cardNumber, setCardNumber] = useState<string>(SIMULATOR_TEST_CARDS.success)
+  const [paymentIntentId, setPaymentIntentId] = useState<string | null>(null)
+  const [authenticationRequired, setAuthenticationRequired] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  async function fetchGiftCards() {
+    try {
+      const response = await fetch('/api/gift-cards')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load gift cards')
+      setGiftCards(data.giftCards)
+    } catch (err) {
+      console.error('Error fetching gift cards:', err)
+    }
+  }
+
+  useEffect(() => {
+    if (user) fetchGiftCards()
+  }, [user])
+
+  // Apply the outcome reported by /api/payments/confirm or /api/payments/authenticate
+  const handlePaymentResult = async (result: ProcessPaymentResult) => {
+    if (result.status === 'requires_action') {
+      if (result.nextAction?.url) {
+        window.location.href = result.nextAction.url
+        return
+      }
+      setAuthenticationRequired(true)
+      return
+    }
+
+    setAuthenticationRequired(false)
+    setPaymentIntentId(null)
+
+    if (result.status === 'succeeded' || result.status === 'processing') {
+      setMessage({ type: 'success', text: `Your gift card is on its way to ${form.recipientEmail}` })
+      setForm({ amount: 50, recipientEmail: '', recipientName: '', message: '' })
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Your payment was declined. Please try another card.' })
+    }
+
+    await fetchGiftCards()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/gift-cards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount: form.amount,
+          recipientEmail: form.recipientEmail.trim(),
+          recipientName: form.recipientName.trim() || undefined,
+          message: form.message.trim() || undefined,
+        } satisfies GiftCardPurchaseRequest),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to buy gift card')
+
+      setPaymentIntentId(data.paymentIntent.id)
+
+      const confirmResponse = await fetch('/api/payments/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          paymentIntentId: data.paymentIntent.id,
+          card: cardNumber.startsWith('pm_') ? { token: cardNumber } : { cardNumber },
+          returnUrl: `${window.location.origin}/gift-cards`,
+        }),
+      })
+      const result = await confirmResponse.json()
+      if (!confirmResponse.ok && !result.status) {
+        throw new Error(result.error || 'Failed to process payment')
+      }
+
+      await handlePaymentResult(result as ProcessPaymentResult)
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to buy gift card' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleAuthenticate = async (approve: boolean) => {
+    if (!paymentIntentId) return
+
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/payments/authenticate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paymentIntentId, approve }),
+      })
+      const result = await response.json()
+      if (!response.ok && !result.status) {
+        throw new Error(result.error || 'Failed to authenticate payment')
+      }
+
+      await handlePaymentResult(result as ProcessPaymentResult)
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to authenticate payment' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse bg-gray-300 h-8 rounded w-1/3"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <h1 className="text-2xl font-bold text-gray-900">Gift Cards</h1>
+        <p className="text-gray-600 mt-2">
+          Please <Link href="/login?redirect=/gift-cards" className="text-blue-600 hover:text-blue-800">sign in</Link> to buy a gift card.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Gift Cards</h1>
+        <p className="text-gray-600 mt-2">
+          Send a SneaksX gift card by email. The recipient redeems it into their store credit.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-6 p-4 rounded ${
+          message.type === 'success'
+            ? 'bg-green-50 border border-green-200 text-green-700'
+            : 'bg-red-50 border border-red-200 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+          <div className="flex space-x-2">
+            {AMOUNT_OPTIONS.map(amount => (
+              <button
+                key={amount}
+                type="button"
+                onClick={() => setForm(prev => ({ ...prev, amount }))}
+                className={`px-4 py-2 rounded-md border text-sm font-medium ${
+                  form.amount === amount
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {PricingService.formatPrice(amount)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Recipient Email *</label>
+          <input
+            type="email"
+            required
+            value={form.recipientEmail}
+            onChange={(e) => setForm(prev => ({ ...prev, recipientEmail: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Recipient Name</label>
+          <input
+            type="text"
+            value={form.recipientName}
+            onChange={(e) => setForm(prev => ({ ...prev, recipientName: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+          <textarea
+            rows={3}
+            maxLength={500}
+            value={form.message}
+            onChange={(e) => setForm(prev => ({ ...prev, message: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="cardNumber" className="block text-sm font-medium text-gray-700 mb-1">Card Number</label>
+          <input
+            type="text"
+            id="cardNumber"
+            required
+            value={cardNumber}
+            onChange={(e) => setCardNumber(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="mt-2 flex flex-wrap gap-x-4 text-xs text-blue-800">
+            {TEST_CARD_OPTIONS.map(({ label, number }) => (
+              <button key={number} type="button" onClick={() => setCardNumber(number)} className="hover:underline">
+                <span className="font-mono">{number}</span> — {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {authenticationRequired && (
+          <div className="border border-yellow-300 bg-yellow-50 rounded-md p-4">
+            <p className="text-sm text-gray-600 mb-3">Your card issuer needs you to authenticate this payment.</p>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => handleAuthenticate(true)}
+                disabled={submitting}
+                className="px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400"
+              >
+                Approve
+              </button>
+              <button
+                type="button"
+                onClick={() => handleAuthenticate(false)}
+                disabled={submitting}
+                className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={submitting || authenticationRequired}
+            className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {submitting ? 'Processing...' : `Pay ${PricingService.formatPrice(form.amount)}`}
+          </button>
+        </div>
+      </form>
+
+      {giftCards.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6 mt-8">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Gift Cards You've Sent</h2>
+          <ul className="divide-y divide-gray-200 text-sm">
+            {giftCards.map(card => (
+              <li key={card.id} className="py-2 flex justify-between">
+                <div>
+                  <p className="text-gray-900">{card.recipientName || card.recipientEmail}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(card.createdAt).toLocaleDateString()} · {STATUS_LABELS[card.status]}
+                  </p>
+                </div>
+                <span className="text-gray-900">{PricingService.formatPrice(card.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,8 +3,10 @@ import { Inter } from 'next/font/google'
 import './globals.css'
 import { AuthProvider } from '@/contexts/AuthContext'
 import { CartProvider } from '@/contexts/CartContext'
+import { UserPreferencesProvider } from '@/contexts/UserPreferencesContext'
 import Navigation from '@/components/Navigation'
 import { PriceChangeNotification } from '@/components/PriceChangeNotification'
+import { WatchlistAlertListener } from '@/components/WatchlistAlertListener'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -22,15 +24,18 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <AuthProvider>
-          <CartProvider>
-            <div className="min-h-screen bg-white">
-              <Navigation />
-              <main>
-                {children}
-              </main>
-              <PriceChangeNotification />
-            </div>
-          </CartProvider>
+          <UserPreferencesProvider>
+            <CartProvider>
+              <div className="min-h-screen bg-white">
+                <Navigation />
+                <main>
+                  {children}
+                </main>
+                <PriceChangeNotification />
+                <WatchlistAlertListener />
+              </div>
+            </CartProvider>
+          </UserPreferencesProvider>
         </AuthProvider>
       </body>
     </html>
@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { OrderService } from '@/services/orders'
+import { BASE_CURRENCY } from '@/services/pricing'
 import type { Order } from '@/types/order'
 
 export default function OrderSuccessPage() {
@@ -50,6 +51,8 @@ export default function OrderSuccessPage() {
           shipping: 0,
           tax: 0,
           total: 0,
+          currency: BASE_CURRENCY,
+          fxRate: 1,
           status: 'processing',
           shippingAddress: null,
           paymentMethod: { id: 'temp', type: 'card', last4: '****' },
@@ -66,6 +69,8 @@ export default function OrderSuccessPage() {
           shipping: 0,
           tax: 0,
           total: 0,
+          currency: BASE_CURRENCY,
+          fxRate: 1,
           status: 'processing',
           shippingAddress: null,
           paymentMethod: { id: 'temp', type: 'card', last4: '****' },
@@ -0,0 +1,240 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { PricingService } from '@/services/pricing'
+import { TRACKING_STATUS_LABELS } from '@/lib/carriers'
+import type { GuestOrderLookup } from '@/services/guest-orders'
+
+const formatStatus = (status: string) => {
+  const label = status.replace('_', ' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export default function OrderLookupPage() {
+  const searchParams = useSearchParams()
+  const linkOrderNumber = searchParams.get('order') || ''
+  const linkToken = searchParams.get('token') || ''
+  const justPlaced = searchParams.get('placed') === '1'
+
+  const [orderNumber, setOrderNumber] = useState(linkOrderNumber)
+  const [email, setEmail] = useState('')
+  const [result, setResult] = useState<GuestOrderLookup | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [claimed, setClaimed] = useState(false)
+
+  async function lookup(request: () => Promise<Response>) {
+    try {
+      setLoading(true)
+      setError(null)
+      setClaimed(false)
+
+      const response = await request()
+      const data = await response.json()
+      if (!response.ok) {
+        setClaimed(data.code === 'CLAIMED')
+        throw new Error(data.error || 'Failed to look up order')
+      }
+
+      setResult(data)
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : 'Failed to look up order')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Signed link from the confirmation email (or straight after a guest checkout)
+  useEffect(() => {
+    if (!linkOrderNumber || !linkToken) return
+
+    const params = new URLSearchParams({ order: linkOrderNumber, token: linkToken })
+    lookup(() => fetch(`/api/orders/lookup?${params}`))
+  }, [linkOrderNumber, linkToken])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    lookup(() => fetch('/api/orders/lookup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderNumber, email }),
+    }))
+  }
+
+  const order = result?.order
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Find Your Order</h1>
+      <p className="text-gray-600 mb-8">
+        Checked out as a guest? Enter your order number and the email you used at checkout.
+      </p>
+
+      {!order && (
+        <form onSubmit={handleSubmit} className="bg-white border border-gray-200 rounded-lg p-6 space-y-4 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Order Number</label>
+              <input
+                type="text"
+                required
+                value={orderNumber}
+                onChange={(e) => setOrderNumber(e.target.value)}
+                placeholder="SX-12345678"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded p-3 text-sm text-red-600">
+              {error}
+              {claimed && (
+                <Link href="/login?redirect=/orders" className="ml-2 font-medium underline">Sign in</Link>
+              )}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {loading ? 'Looking up...' : 'Find Order'}
+          </button>
+        </form>
+      )}
+
+      {order && (
+        <div className="space-y-6">
+          {justPlaced && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-800">
+              Thank you for your order! We have emailed a confirmation with a link back to this page to {order.customerEmail}.
+            </div>
+          )}
+
+          <div className="bg-white border border-gray-200 rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">Order {order.orderNumber}</h2>
+                <p className="text-sm text-gray-600">Placed on {formatDate(order.createdAt)}</p>
+              </div>
+              <div className="text-right">
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
+                  {formatStatus(order.status)}
+                </span>
+                <p className="text-lg font-semibold text-gray-900 mt-1">
+                  {PricingService.formatPrice(order.total, order.currency)}
+                </p>
+              </div>
+            </div>
+
+            <ul className="divide-y divide-gray-200 mb-4">
+              {order.items.map(item => (
+                <li key={item.id} className="py-3 flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{item.productBrand} {item.productName}</p>
+                    <p className="text-gray-600">Size {item.size} × {item.quantity}</p>
+                  </div>
+                  <span className="text-gray-900">{PricingService.formatPrice(item.totalPrice, order.currency)}</span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="text-sm text-gray-600 space-y-1 border-t border-gray-200 pt-3">
+              <div className="flex justify-between"><span>Subtotal</span><span>{PricingService.formatPrice(order.subtotal, order.currency)}</span></div>
+              <div className="flex justify-between"><span>Shipping</span><span>{PricingService.formatPrice(order.shipping, order.currency)}</span></div>
+              {order.discountLines?.map(line => (
+                <div key={`${line.promotionId}-${line.target}`} className="flex justify-between text-green-700">
+                  <span>{line.target === 'shipping' ? 'Free shipping' : line.name} ({line.code})</span>
+                  <span>-{PricingService.formatPrice(line.amount, order.currency)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between"><span>Tax</span><span>{PricingService.formatPrice(order.tax, order.currency)}</span></div>
+            </div>
+          </div>
+
+          {order.shipments && order.shipments.length > 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+              <h3 className="text-md font-medium text-gray-900">Shipments</h3>
+              {order.shipments.map(shipment => (
+                <div key={shipment.id} className="text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-900">
+                      {order.shipments!.length > 1 ? `Shipment ${shipment.shipmentNumber}` : 'Shipment'} • {shipment.carrier}
+                    </span>
+                    <span className="text-gray-600">
+                      {shipment.status === 'delivered'
+                        ? 'Delivered'
+                        : shipment.trackingStatus ? TRACKING_STATUS_LABELS[shipment.trackingStatus] : 'On its way'}
+                      {' • '}
+                      {shipment.trackingUrl ? (
+                        <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-600 hover:text-blue-800">
+                          {shipment.trackingNumber}
+                        </a>
+                      ) : (
+                        <span className="font-mono">{shipment.trackingNumber}</span>
+                      )}
+                    </span>
+                  </div>
+                  {shipment.events && shipment.events.length > 0 && (
+                    <ol className="mt-2 space-y-1 border-l border-gray-300 pl-3">
+                      {[...shipment.events].reverse().map(event => (
+                        <li key={`${event.occurredAt}-${event.status}-${event.description}`} className="text-xs text-gray-600">
+                          <span className="text-gray-900">{event.description}</span>
+                          {event.location && ` • ${event.location}`}
+                          <span className="text-gray-400"> • {new Date(event.occurredAt).toLocaleString()}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.history.length > 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h3 className="text-md font-medium text-gray-900 mb-3">Timeline</h3>
+              <ol className="space-y-2">
+                {result.history.map(change => (
+                  <li key={change.id} className="text-sm text-gray-600">
+                    <span className="text-gray-900">{formatStatus(change.toStatus)}</span>
+                    {change.note && ` • ${change.note}`}
+                    <span className="text-gray-400"> • {new Date(change.createdAt).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+            Create an account with {order.customerEmail} and this order will be added to your order history.{' '}
+            <Link href="/signup" className="text-blue-600 hover:text-blue-800 font-medium">Sign up</Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
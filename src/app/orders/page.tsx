@@ -4,13 +4,35 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { OrderService } from '@/services/orders'
+import { PricingService } from '@/services/pricing'
+import { usePricing } from '@/hooks/usePricing'
 import { useRealTimeOrders, useOrderStatusMonitor } from '@/hooks/useRealTimeOrders'
-import type { Order } from '@/types/order'
+import { RETURN_REASON_LABELS } from '@/types/order'
+import { TRACKING_STATUS_LABELS } from '@/lib/carriers'
+import type { Order, OrderReturn, OrderStatusChange, ReturnReason, ReturnStatus } from '@/types/order'
+
+const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Return requested',
+  approved: 'Return approved',
+  rejected: 'Return rejected',
+  received: 'Return received',
+  refunded: 'Returned & refunded',
+}
+
+const formatStatus = (status: string) => {
+  const label = status.replace('_', ' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
 
 export default function OrdersPage() {
   const { user, isLoading: authLoading } = useAuth()
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
+  const [returns, setReturns] = useState<OrderReturn[]>([])
+  const [returnOrder, setReturnOrder] = useState<Order | null>(null)
+  const [timelines, setTimelines] = useState<Record<string, OrderStatusChange[]>>({})
+  const [openTimelineId, setOpenTimelineId] = useState<string | null>(null)
+  const { formatPrice } = usePricing()
 
   // Real-time order monitoring
   const {
@@ -42,6 +64,7 @@ export default function OrdersPage() {
 
         setOrders(userOrders)
         setStats(orderStats)
+        await fetchReturns()
         setLoading(false)
       } else if (!authLoading && !user) {
         setLoading(false)
@@ -51,12 +74,41 @@ export default function OrdersPage() {
     fetchOrders()
   }, [user, authLoading])
 
+  const fetchReturns = async () => {
+    try {
+      const response = await fetch('/api/returns')
+      if (response.ok) {
+        const data = await response.json()
+        setReturns(data.returns)
+      }
+    } catch (error) {
+      console.error('Error fetching returns:', error)
+    }
+  }
+
+  const toggleTimeline = async (orderId: string) => {
+    if (openTimelineId === orderId) {
+      setOpenTimelineId(null)
+      return
+    }
+
+    setOpenTimelineId(orderId)
+    try {
+      const history = await OrderService.getOrderHistory(orderId)
+      setTimelines(current => ({ ...current, [orderId]: history }))
+    } catch (error) {
+      console.error('Error fetching order timeline:', error)
+    }
+  }
+
   const getStatusColor = (status: Order['status']) => {
     switch (status) {
       case 'pending':
         return 'bg-yellow-100 text-yellow-800'
       case 'processing':
         return 'bg-blue-100 text-blue-800'
+      case 'partially_shipped':
+        return 'bg-indigo-100 text-indigo-800'
       case 'shipped':
         return 'bg-gray-100 text-gray-800'
       case 'delivered':
@@ -108,6 +160,10 @@ export default function OrdersPage() {
           >
             Sign In
           </Link>
+          <p className="text-sm text-gray-600 mt-4">
+            Checked out as a guest?{' '}
+            <Link href="/orders/lookup" className="text-blue-600 hover:text-blue-800">Find your order</Link>
+          </p>
         </div>
       </div>
     )
@@ -217,7 +273,7 @@ export default function OrdersPage() {
               </svg>
             </div>
             <div className="ml-4">
-              <p className="text-2xl font-semibold text-gray-900">€{stats.totalSpent.toFixed(2)}</p>
+              <p className="text-2xl font-semibold text-gray-900">{formatPrice(stats.totalSpent)}</p>
               <p className="text-sm text-gray-600">Total Spent</p>
             </div>
           </div>
@@ -279,15 +335,20 @@ export default function OrdersPage() {
                       <span className={`px-2 py-1 text-xs font-medium rounded-full transition-all duration-300 ${
                         getStatusColor(realTimeStatus)
                       } ${hasStatusUpdate ? 'animate-pulse' : ''}`}>
-                        {realTimeStatus.charAt(0).toUpperCase() + realTimeStatus.slice(1)}
+                        {formatStatus(realTimeStatus)}
                       </span>
                       {hasStatusUpdate && (
                         <span className="text-xs text-blue-600">Live update</span>
                       )}
                     </div>
                     <div className="text-right">
-                      <p className="text-lg font-semibold text-gray-900">€{order.total.toFixed(2)}</p>
+                      <p className="text-lg font-semibold text-gray-900">{PricingService.formatPrice(order.total, order.currency)}</p>
                       <p className="text-sm text-gray-600">{order.items.length} item{order.items.length > 1 ? 's' : ''}</p>
+                      {!!order.discount && (
+                        <p className="text-xs text-green-700">
+                          Saved {PricingService.formatPrice(order.discount, order.currency)} with {order.discountLines?.[0]?.code}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -325,6 +386,114 @@ export default function OrdersPage() {
                 </div>
               )}
 
+              {/* Shipments */}
+              {order.shipments && order.shipments.length > 0 && (
+                <div className="mb-4 space-y-2">
+                  {order.shipments.map(shipment => (
+                    <div key={shipment.id} className="text-sm bg-gray-50 rounded-md px-3 py-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-900">
+                          {order.shipments!.length > 1 ? `Shipment ${shipment.shipmentNumber}` : 'Shipment'} • {shipment.carrier}
+                        </span>
+                        <span className="text-gray-600">
+                          {shipment.status === 'delivered'
+                            ? 'Delivered'
+                            : shipment.trackingStatus ? TRACKING_STATUS_LABELS[shipment.trackingStatus] : 'On its way'}
+                          {' • '}
+                          {shipment.trackingUrl ? (
+                            <a
+                              href={shipment.trackingUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-blue-600 hover:text-blue-800"
+                            >
+                              {shipment.trackingNumber}
+                            </a>
+                          ) : (
+                            <span className="font-mono">{shipment.trackingNumber}</span>
+                          )}
+                        </span>
+                      </div>
+                      <p className="text-gray-600 mt-1">
+                        {shipment.items.map(line => {
+                          const item = order.items.find(candidate => candidate.id === line.orderItemId)
+                          return `${item?.productName || 'Item'} (Size ${item?.size}) × ${line.quantity}`
+                        }).join(', ')}
+                      </p>
+                      {shipment.status !== 'delivered' && shipment.estimatedDelivery && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Estimated delivery {new Date(shipment.estimatedDelivery).toLocaleDateString()}
+                        </p>
+                      )}
+                      {shipment.events && shipment.events.length > 0 && (
+                        <ol className="mt-2 space-y-1 border-l border-gray-300 pl-3">
+                          {[...shipment.events].reverse().map(event => (
+                            <li key={`${event.occurredAt}-${event.status}-${event.description}`} className="text-xs text-gray-600">
+                              <span className="text-gray-900">{event.description}</span>
+                              {event.location && ` • ${event.location}`}
+                              <span className="text-gray-400"> • {new Date(event.occurredAt).toLocaleString()}</span>
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  ))}
+                  {order.status === 'partially_shipped' && (
+                    <p className="text-xs text-gray-500">The rest of this order will follow in a separate shipment.</p>
+                  )}
+                </div>
+              )}
+
+              {/* Returns */}
+              {returns.some(orderReturn => orderReturn.orderId === order.id) && (
+                <div className="mb-4 space-y-2">
+                  {returns.filter(orderReturn => orderReturn.orderId === order.id).map(orderReturn => (
+                    <div key={orderReturn.id} className="text-sm bg-gray-50 rounded-md px-3 py-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-900">
+                          {orderReturn.item?.productName} (Size {orderReturn.item?.size}) × {orderReturn.quantity}
+                        </span>
+                        <span className="text-gray-600">
+                          {orderReturn.rmaNumber} • {RETURN_STATUS_LABELS[orderReturn.status]}
+                        </span>
+                      </div>
+                      {orderReturn.status === 'approved' && orderReturn.labelReference && (
+                        <p className="text-gray-600 mt-1">Return label: <span className="font-mono">{orderReturn.labelReference}</span></p>
+                      )}
+                      {orderReturn.status === 'rejected' && orderReturn.rejectionReason && (
+                        <p className="text-gray-600 mt-1">{orderReturn.rejectionReason}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Timeline */}
+              {openTimelineId === order.id && (
+                <div className="mb-4">
+                  {!timelines[order.id] ? (
+                    <div className="animate-pulse h-16 bg-gray-100 rounded"></div>
+                  ) : (
+                    <ol className="border-l-2 border-gray-200 ml-2 space-y-3">
+                      {timelines[order.id].map(change => (
+                        <li key={change.id} className="ml-4 text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="text-gray-900">
+                              {formatStatus(change.toStatus)}
+                              {change.fromPaymentStatus !== change.toPaymentStatus && change.toPaymentStatus && (
+                                <span className="text-gray-600"> · Payment {change.toPaymentStatus.replace('_', ' ')}</span>
+                              )}
+                            </span>
+                            <span className="text-gray-500">{new Date(change.createdAt).toLocaleString()}</span>
+                          </div>
+                          {change.note && <p className="text-gray-600">{change.note}</p>}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex items-center justify-between pt-4 border-t border-gray-200">
                 <div className="flex space-x-3">
@@ -334,11 +503,25 @@ export default function OrdersPage() {
                   >
                     View Details
                   </Link>
+                  <button
+                    onClick={() => toggleTimeline(order.id)}
+                    className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                  >
+                    {openTimelineId === order.id ? 'Hide Timeline' : 'Show Timeline'}
+                  </button>
                   {order.status === 'delivered' && (
                     <button className="text-blue-600 hover:text-blue-800 text-sm font-medium">
                       Leave Review
                     </button>
                   )}
+                  {order.status === 'delivered' && (
+                    <button
+                      onClick={() => setReturnOrder(order)}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                    >
+                      Return an Item
+                    </button>
+                  )}
                 </div>
                 {order.status === 'pending' && (
                   <button className="text-red-600 hover:text-red-800 text-sm font-medium">
@@ -351,6 +534,180 @@ export default function OrdersPage() {
           })}
         </div>
       )}
+
+      {returnOrder && (
+        <ReturnRequestModal
+          order={returnOrder}
+          openReturns={returns.filter(orderReturn =>
+            orderReturn.orderId === returnOrder.id && orderReturn.status !== 'rejected' && orderReturn.status !== 'refunded'
+          )}
+          onClose={() => setReturnOrder(null)}
+          onRequested={async () => {
+            setReturnOrder(null)
+            await fetchReturns()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function ReturnRequestModal({
+  order,
+  openReturns,
+  onClose,
+  onRequested,
+}: {
+  order: Order
+  openReturns: OrderReturn[]
+  onClose: () => void
+  onRequested: () => Promise<void>
+}) {
+  // Units of each line not yet refunded or already on an open return
+  const returnable = (item: Order['items'][number]) =>
+    item.quantity - (item.refundedQuantity || 0) -
+    openReturns.filter(orderReturn => orderReturn.orderItemId === item.id).reduce((sum, orderReturn) => sum + orderReturn.quantity, 0)
+
+  const items = order.items.filter(item => returnable(item) > 0)
+  const [orderItemId, setOrderItemId] = useState(items[0]?.id || '')
+  const [quantity, setQuantity] = useState(1)
+  const [reason, setReason] = useState<ReturnReason>('wrong_size')
+  const [details, setDetails] = useState('')
+  const [photos, setPhotos] = useState<File[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = items.find(item => item.id === orderItemId)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected) return
+
+    setSubmitting(true)
+    setError(null)
+
+    const form = new FormData()
+    form.append('orderId', order.id)
+    form.append('orderItemId', selected.id)
+    form.append('quantity', String(quantity))
+    form.append('reason', reason)
+    form.append('details', details)
+    photos.forEach(photo => form.append('photos', photo))
+
+    try {
+      const response = await fetch('/api/returns', { method: 'POST', body: form })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to request return')
+        return
+      }
+
+      await onRequested()
+    } catch (err) {
+      console.error('Error requesting return:', err)
+      setError('Failed to request return')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Return an Item</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-600">Every item on this order already has a return open or has been refunded.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Item</label>
+              <select
+                value={orderItemId}
+                onChange={(e) => {
+                  setOrderItemId(e.target.value)
+                  setQuantity(1)
+                }}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              >
+                {items.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.productBrand} {item.productName} (Size {item.size})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selected && returnable(selected) > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={returnable(selected)}
+                  value={quantity}
+                  onChange={(e) => setQuantity(Math.max(1, Math.min(returnable(selected), Number(e.target.value) || 1)))}
+                  className="w-24 border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value as ReturnReason)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              >
+                {(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map(key => (
+                  <option key={key} value={key}>{RETURN_REASON_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Details</label>
+              <textarea
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                rows={3}
+                placeholder="Tell us what's wrong with the item"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Photos (up to 5)</label>
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, 5))}
+                className="text-sm"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting || !selected}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {submitting ? 'Submitting...' : 'Request Return'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
     </div>
   )
 }
\ No newline at end of file
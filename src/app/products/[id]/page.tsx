@@ -1,10 +1,21 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabase/client'
 import AddToCartButton from '@/components/AddToCartButton'
+import WatchButton from '@/components/WatchButton'
+import SizeWaitlist from '@/components/SizeWaitlist'
+import RaffleEntry from '@/components/RaffleEntry'
+import { PriceHistoryChart } from '@/components/PriceHistoryChart'
 import type { Product as CartProduct } from '@/services/products'
+import { useAuth } from '@/contexts/AuthContext'
+import { useSizeSystem } from '@/contexts/UserPreferencesContext'
+import { usePricing } from '@/hooks/usePricing'
+import { SIZE_SYSTEMS, compareSizes, formatSize, type SizeSystem } from '@/lib/sizing'
+import type { RafflePhase } from '@/lib/raffles'
+import type { PublicRaffle, RaffleEntry as RaffleEntryRow, ReleaseMode } from '@/types/raffle'
+import type { WaitlistPlace } from '@/types/waitlist'
 
 interface Product {
   id: string
@@ -14,12 +25,20 @@ interface Product {
   imageUrl: string
   description?: string
   category: string
+  gender?: string
   sizes: Array<{ size: string; quantity: number; available: boolean }>
   stockCount: number
   createdAt: string
   retailPrice: number
   colorway?: string
   releaseDate?: string
+  releaseMode: ReleaseMode
+  listings: Array<{ platform: 'stockx' | 'goat'; lowestAsk?: number; lastSale?: number }>
+}
+
+const MARKETPLACE_NAMES: Record<string, string> = {
+  stockx: 'StockX',
+  goat: 'GOAT'
 }
 
 export default function ProductDetailPage() {
@@ -31,6 +50,63 @@ export default function ProductDetailPage() {
   const [error, setError] = useState<string | null>(null)
   const [selectedSize, setSelectedSize] = useState<string>('')
   const [sizeError, setSizeError] = useState<string | null>(null)
+  const { sizeSystem, setSizeSystem } = useSizeSystem()
+  const { formatPrice } = usePricing()
+  const { user } = useAuth()
+  const [waitlistPlaces, setWaitlistPlaces] = useState<WaitlistPlace[]>([])
+  const [raffle, setRaffle] = useState<(PublicRaffle & { phase: RafflePhase }) | null>(null)
+  const [raffleEntry, setRaffleEntry] = useState<RaffleEntryRow | null>(null)
+  const isRaffle = product?.releaseMode === 'raffle'
+
+  const fetchWaitlistPlaces = useCallback(async () => {
+    if (!user || !params.id) {
+      setWaitlistPlaces([])
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/waitlist?productId=${params.id}`)
+      const data = await response.json()
+      if (response.ok) {
+        setWaitlistPlaces(data.places || [])
+      }
+    } catch (err) {
+      console.error('Error fetching waitlist:', err)
+    }
+  }, [user, params.id])
+
+  useEffect(() => {
+    fetchWaitlistPlaces()
+  }, [fetchWaitlistPlaces])
+
+  // Refetched when the user signs in or out, as the response carries their entry
+  const fetchRaffle = useCallback(async () => {
+    if (!isRaffle || !params.id) return
+
+    try {
+      const response = await fetch(`/api/raffles?productId=${params.id}`)
+      const data = await response.json()
+      if (response.ok) {
+        setRaffle(data.raffle)
+        setRaffleEntry(data.entry)
+      }
+    } catch (err) {
+      console.error('Error fetching raffle:', err)
+    }
+  }, [isRaffle, params.id, user])
+
+  useEffect(() => {
+    fetchRaffle()
+  }, [fetchRaffle])
+
+  // Sizes held for this user by a waitlist offer or raffle win can be bought by them although they
+  // show as sold out
+  const heldSizes = waitlistPlaces
+    .filter(place => place.status === 'offered' && new Date(place.offer_expires_at!) > new Date())
+    .map(place => place.size)
+  if (raffleEntry?.status === 'won' && new Date(raffleEntry.claim_expires_at!) > new Date()) {
+    heldSizes.push(raffleEntry.size)
+  }
 
   useEffect(() => {
     async function fetchProduct() {
@@ -42,7 +118,8 @@ export default function ProductDetailPage() {
           .select(`
             *,
             brands(name, display_name),
-            stock_entries(size, quantity, reserved_quantity)
+            stock_entries(size, quantity, reserved_quantity),
+            product_listings(platform, current_price, market_data)
           `)
           .eq('id', params.id)
           .eq('is_active', true)
@@ -62,7 +139,7 @@ export default function ProductDetailPage() {
             quantity: Math.max(0, (entry.quantity || 0) - (entry.reserved_quantity || 0)),
             available: (entry.quantity - entry.reserved_quantity) > 0
           }))
-          .sort((a: any, b: any) => parseFloat(a.size) - parseFloat(b.size))
+          .sort((a: any, b: any) => compareSizes(a.size, b.size))
 
         const imageUrl = productData.image_urls?.[0] ||
                         'https://images.unsplash.com/photo-1549298916-b41d501d3772?w=800&h=800&fit=crop&crop=center'
@@ -75,12 +152,19 @@ export default function ProductDetailPage() {
           imageUrl,
           description: productData.description,
           category: productData.category || 'Sneakers',
+          gender: productData.gender,
           sizes: availableSizes,
           stockCount: totalStock,
           createdAt: productData.created_at,
           retailPrice: productData.retail_price || 0,
           colorway: productData.colorway,
-          releaseDate: productData.release_date
+          releaseDate: productData.release_date,
+          releaseMode: productData.release_mode || 'standard',
+          listings: (productData.product_listings || []).map((listing: any) => ({
+            platform: listing.platform,
+            lowestAsk: listing.market_data?.lowestAsk,
+            lastSale: listing.market_data?.lastSale || listing.current_price
+          }))
         }
 
         setProduct(transformedProduct)
@@ -94,6 +178,7 @@ export default function ProductDetailPage() {
           imageUrl,
           description: productData.description,
           category: productData.category || 'Sneakers',
+          gender: productData.gender,
           sizes: availableSizes.filter((s: any) => s.available).map((s: any) => s.size),
           stockCount: totalStock,
           createdAt: productData.created_at
@@ -173,7 +258,7 @@ export default function ProductDetailPage() {
             <p className="text-lg text-gray-600 mb-2">{product.brand}</p>
             <h1 className="text-3xl font-bold text-gray-900 mb-4">{product.name}</h1>
             <div className="text-3xl font-bold text-gray-900">
-              €{product.price.toFixed(2)}
+              {formatPrice(product.price)}
             </div>
           </div>
 
@@ -193,53 +278,90 @@ export default function ProductDetailPage() {
 
           {/* Size Selection */}
           <div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-3">Size</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-gray-900">Size</h3>
+              <select
+                value={sizeSystem}
+                onChange={(e) => setSizeSystem(e.target.value as SizeSystem)}
+                className="text-sm border border-gray-300 rounded-md px-2 py-1"
+                aria-label="Size system"
+              >
+                {SIZE_SYSTEMS.map((system) => (
+                  <option key={system} value={system}>{system}</option>
+                ))}
+              </select>
+            </div>
             <div className="grid grid-cols-4 gap-2">
-              {product.sizes.map((sizeOption) => (
-                <button
-                  key={sizeOption.size}
-                  onClick={() => {
-                    if (sizeOption.available) {
-                      setSelectedSize(sizeOption.size)
-                      setSizeError(null)
-                    }
-                  }}
-                  disabled={!sizeOption.available}
-                  className={`
-                    p-3 border rounded-lg text-center transition-colors
-                    ${selectedSize === sizeOption.size
-                      ? 'border-blue-600 bg-blue-50 text-blue-600'
-                      : sizeOption.available
-                      ? 'border-gray-300 hover:border-gray-400'
-                      : 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed'
-                    }
-                  `}
-                >
-                  <div className="font-medium">{sizeOption.size}</div>
-                  {!sizeOption.available && (
-                    <div className="text-xs">Out of Stock</div>
-                  )}
-                </button>
-              ))}
+              {product.sizes.map((sizeOption) => {
+                // Raffle releases are only sold to winners, in the size they won
+                const held = (isRaffle || !sizeOption.available) && heldSizes.includes(sizeOption.size)
+                const available = held || (!isRaffle && sizeOption.available)
+                return (
+                  <button
+                    key={sizeOption.size}
+                    onClick={() => {
+                      if (available) {
+                        setSelectedSize(sizeOption.size)
+                        setSizeError(null)
+                      }
+                    }}
+                    disabled={!available}
+                    className={`
+                      p-3 border rounded-lg text-center transition-colors
+                      ${selectedSize === sizeOption.size
+                        ? 'border-blue-600 bg-blue-50 text-blue-600'
+                        : available
+                        ? 'border-gray-300 hover:border-gray-400'
+                        : 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed'
+                      }
+                    `}
+                  >
+                    <div className="font-medium">
+                      {formatSize(sizeOption.size, sizeSystem, { brand: product.brand, gender: product.gender })}
+                    </div>
+                    {held ? (
+                      <div className="text-xs text-green-700">Held for you</div>
+                    ) : !available && (
+                      <div className="text-xs">{isRaffle ? 'Raffle' : 'Out of Stock'}</div>
+                    )}
+                  </button>
+                )
+              })}
             </div>
             {product.sizes.length === 0 && (
               <p className="text-gray-500 text-sm">No sizes available</p>
             )}
           </div>
 
+          {isRaffle && (
+            <RaffleEntry
+              raffle={raffle}
+              entry={raffleEntry}
+              sizes={product.sizes.map(option => option.size)}
+              sizeSystem={sizeSystem}
+              brand={product.brand}
+              gender={product.gender}
+              onChange={fetchRaffle}
+            />
+          )}
+
           {/* Stock Info */}
-          <div className="text-sm text-gray-600">
-            {product.stockCount > 0 ? (
-              <span className="text-green-600">✓ {product.stockCount} in stock</span>
-            ) : (
-              <span className="text-red-600">✗ Out of stock</span>
-            )}
-          </div>
+          {!isRaffle && (
+            <div className="text-sm text-gray-600">
+              {product.stockCount > 0 ? (
+                <span className="text-green-600">✓ {product.stockCount} in stock</span>
+              ) : (
+                <span className="text-red-600">✗ Out of stock</span>
+              )}
+            </div>
+          )}
 
           {/* Add to Cart Button */}
-          {cartProduct && (
+          {cartProduct && (!isRaffle || heldSizes.length > 0) && (
             <AddToCartButton
-              product={cartProduct}
+              product={heldSizes.length > 0
+                ? { ...cartProduct, stockCount: cartProduct.stockCount + heldSizes.length }
+                : cartProduct}
               selectedSize={selectedSize}
               onSizeRequired={() => setSizeError('Please select a size first')}
               className="py-3 px-6 text-base"
@@ -252,6 +374,27 @@ export default function ProductDetailPage() {
             </div>
           )}
 
+          {user && !isRaffle && (
+            <SizeWaitlist
+              productId={product.id}
+              soldOutSizes={product.sizes.filter(option => !option.available).map(option => option.size)}
+              places={waitlistPlaces}
+              sizeSystem={sizeSystem}
+              brand={product.brand}
+              gender={product.gender}
+              onChange={fetchWaitlistPlaces}
+            />
+          )}
+
+          <WatchButton
+            productId={product.id}
+            sizes={product.sizes}
+            selectedSize={selectedSize}
+            sizeSystem={sizeSystem}
+            brand={product.brand}
+            gender={product.gender}
+          />
+
           {/* Product Info */}
           <div className="border-t pt-6 space-y-3 text-sm">
             <div className="flex justify-between">
@@ -271,6 +414,31 @@ export default function ProductDetailPage() {
               <span className="font-medium font-mono text-xs">{product.id}</span>
             </div>
           </div>
+
+          {/* Marketplace Prices */}
+          {product.listings.length > 0 && (
+            <div className="border-t pt-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Marketplace Prices</h3>
+              <div className="grid grid-cols-2 gap-4">
+                {product.listings.map((listing) => (
+                  <div key={listing.platform} className="border rounded-lg p-4">
+                    <div className="font-medium text-gray-900">{MARKETPLACE_NAMES[listing.platform] || listing.platform}</div>
+                    <div className="text-sm text-gray-600 mt-1">
+                      Lowest ask: {listing.lowestAsk ? `$${listing.lowestAsk}` : '—'}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      Last sale: {listing.lastSale ? `$${listing.lastSale}` : '—'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Market Price History */}
+          <div className="border-t pt-6">
+            <PriceHistoryChart productId={product.id} title="Market Price History" />
+          </div>
         </div>
       </div>
     </div>
@@ -1,8 +1,12 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { updateProfile } from '@/lib/supabase/auth'
+import { usePricing } from '@/hooks/usePricing'
+import { STORE_CREDIT_ENTRY_LABELS } from '@/types/store-credit'
+import type { StoreCreditAccount } from '@/types/store-credit'
 
 export default function ProfilePage() {
   const { user, isLoading: loading } = useAuth()
@@ -199,6 +203,126 @@ export default function ProfilePage() {
           </div>
         </div>
       </div>
+
+      <StoreCreditPanel />
+    </div>
+  )
+}
+
+// Balance, history and gift card redemption; amounts are stored in the base currency
+function StoreCreditPanel() {
+  const { formatPrice } = usePricing()
+  const [account, setAccount] = useState<StoreCreditAccount | null>(null)
+  const [code, setCode] = useState('')
+  const [redeeming, setRedeeming] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  async function fetchAccount() {
+    try {
+      const response = await fetch('/api/store-credit')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load store credit')
+      setAccount(data.account)
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load store credit' })
+    }
+  }
+
+  useEffect(() => {
+    fetchAccount()
+  }, [])
+
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setRedeeming(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/store-credit/redeem', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to redeem gift card')
+
+      setMessage({ type: 'success', text: `${formatPrice(data.entry.amount)} was added to your store credit` })
+      setCode('')
+      await fetchAccount()
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to redeem gift card' })
+    } finally {
+      setRedeeming(false)
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg mt-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-medium text-gray-900">Store Credit</h2>
+          <Link href="/gift-cards" className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+            Buy a gift card
+          </Link>
+        </div>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        <div>
+          <p className="text-sm text-gray-600">Available balance</p>
+          <p className="text-3xl font-bold text-gray-900">{account ? formatPrice(account.balance) : '—'}</p>
+          <p className="text-xs text-gray-500 mt-1">Choose to use it on the payment step at checkout.</p>
+        </div>
+
+        {message && (
+          <div className={`p-4 rounded ${
+            message.type === 'success'
+              ? 'bg-green-50 border border-green-200 text-green-700'
+              : 'bg-red-50 border border-red-200 text-red-700'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        <form onSubmit={handleRedeem} className="flex space-x-3">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="SXGC-XXXX-XXXX-XXXX"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono sm:text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={redeeming || !code.trim()}
+            className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {redeeming ? 'Redeeming...' : 'Redeem Gift Card'}
+          </button>
+        </form>
+
+        {account && account.entries.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">History</h3>
+            <ul className="divide-y divide-gray-200 text-sm">
+              {account.entries.map(entry => (
+                <li key={entry.id} className="py-2 flex justify-between">
+                  <div>
+                    <p className="text-gray-900">{STORE_CREDIT_ENTRY_LABELS[entry.type]}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(entry.createdAt).toLocaleDateString()}
+                      {entry.type === 'adjustment' && entry.note && ` · ${entry.note}`}
+                    </p>
+                  </div>
+                  <span className={entry.amount > 0 ? 'text-green-700' : 'text-gray-900'}>
+                    {entry.amount > 0 ? '+' : '-'}{formatPrice(Math.abs(entry.amount))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCart } from '@/contexts/CartContext'
+import { useSizeSystem } from '@/contexts/UserPreferencesContext'
+import { usePricing } from '@/hooks/usePricing'
+import { formatSize } from '@/lib/sizing'
+import type { RaffleClaim } from '@/types/raffle'
+
+/**
+ * Claim page raffle winners are emailed: pay for the held pair before the claim expires, or decline it
+ * so it rolls down to the next alternate straight away
+ */
+export default function RaffleClaimPage() {
+  const params = useParams()
+  const router = useRouter()
+  const { user, isLoading: authLoading } = useAuth()
+  const { actions } = useCart()
+  const { sizeSystem } = useSizeSystem()
+  const { formatPrice } = usePricing()
+  const [claim, setClaim] = useState<RaffleClaim | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchClaim = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/raffles/${params.id}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load raffle entry')
+      }
+
+      setClaim(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [params.id])
+
+  useEffect(() => {
+    if (!user) return
+    fetchClaim()
+  }, [user, fetchClaim])
+
+  const handlePay = async () => {
+    if (!claim) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const { entry, product } = claim
+      await actions.addItem({
+        id: product.id,
+        name: product.name,
+        brand: product.brand || 'Unknown',
+        price: product.price || 0,
+        imageUrl: product.image_url || '',
+        category: product.category || 'Sneakers',
+        gender: product.gender || undefined,
+        sizes: [entry.size],
+        stockCount: 1,
+        createdAt: entry.created_at
+      }, entry.size)
+      router.push('/checkout')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add to cart')
+      setSaving(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    if (!claim || !confirm('Decline your pair? It goes to the next alternate and cannot be undone.')) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/raffles?id=${claim.entry.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to decline')
+      }
+
+      await fetchClaim()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (authLoading || (user && loading)) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="bg-gray-300 h-8 rounded w-1/3 mb-6"></div>
+          <div className="bg-gray-300 h-32 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900">Access Denied</h1>
+          <p className="text-gray-600 mt-2">
+            Please <Link href="/login" className="text-blue-600 hover:underline">log in</Link> to claim your raffle win.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!claim) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900">Raffle Entry Not Found</h1>
+          <p className="text-gray-600 mt-2">{error || 'This raffle entry does not exist.'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const { entry, product } = claim
+  const displaySize = formatSize(entry.size, sizeSystem, { brand: product.brand || undefined, gender: product.gender || undefined })
+  // The link stops working once the claim expires; the held pair has gone to the next alternate by then
+  const claimable = entry.status === 'won' && new Date(entry.claim_expires_at!) > new Date()
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">Raffle Release</h1>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex gap-4">
+          {product.image_url && (
+            <img src={product.image_url} alt={product.name} className="w-24 h-24 object-cover rounded-lg" />
+          )}
+          <div>
+            <Link href={`/products/${product.id}`} className="text-lg font-semibold text-gray-900 hover:underline">
+              {product.brand ? `${product.brand} ${product.name}` : product.name}
+            </Link>
+            <p className="text-gray-600">
+              Size {displaySize}
+              {product.price !== null ? ` · ${formatPrice(product.price)}` : ''}
+            </p>
+          </div>
+        </div>
+
+        {claimable ? (
+          <>
+            <p className="text-green-700">
+              You won! Your pair is held until{' '}
+              <strong>{new Date(entry.claim_expires_at!).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</strong>.
+              Pay before then or it goes to the next alternate.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handlePay}
+                disabled={saving}
+                className="flex-1 bg-black text-white py-3 px-6 rounded-lg hover:bg-gray-800 disabled:opacity-50"
+              >
+                {saving ? 'Please wait...' : 'Pay Now'}
+              </button>
+              <button
+                onClick={handleDecline}
+                disabled={saving}
+                className="px-4 py-3 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-700">
+            {entry.status === 'claimed' && 'You have claimed this pair. Thank you for your order!'}
+            {(entry.status === 'expired' || entry.status === 'won') && 'Your claim expired and the pair went to the next alternate.'}
+            {entry.status === 'withdrawn' && 'You withdrew from this raffle.'}
+            {entry.status === 'alternate' && 'You are on the alternate list. We will email you if a pair comes your way.'}
+            {entry.status === 'entered' && 'You are entered. Winners are drawn after entries close.'}
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { useSizeSystem } from '@/contexts/UserPreferencesContext'
+import { usePricing } from '@/hooks/usePricing'
+import { supabase } from '@/lib/supabase/client'
+import { formatSize } from '@/lib/sizing'
+import type { UserNotification, WatchlistEntry } from '@/types/watchlist'
+import type { WaitlistPlace } from '@/types/waitlist'
+
+export default function WatchlistPage() {
+  const { user, isLoading: authLoading } = useAuth()
+  const { sizeSystem } = useSizeSystem()
+  const { formatPrice, rate, currency } = usePricing()
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>([])
+  const [alerts, setAlerts] = useState<UserNotification[]>([])
+  const [places, setPlaces] = useState<WaitlistPlace[]>([])
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchWatchlist = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/watchlist')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load watchlist')
+      }
+
+      setWatchlist(data.watchlist || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchPlaces = useCallback(async () => {
+    try {
+      const response = await fetch('/api/waitlist')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load waitlist')
+      }
+
+      setPlaces(data.places || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }, [])
+
+  const fetchAlerts = useCallback(async () => {
+    if (!user) return
+
+    const { data } = await supabase
+      .from('user_notifications')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    setAlerts(data || [])
+
+    // Seeing them here counts as reading them
+    const unread = (data || []).filter(alert => !alert.read_at).map(alert => alert.id)
+    if (unread.length > 0) {
+      await supabase
+        .from('user_notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', unread)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!user) return
+    fetchWatchlist()
+    fetchPlaces()
+    fetchAlerts()
+  }, [user, fetchWatchlist, fetchPlaces, fetchAlerts])
+
+  const saveWatch = async (item: WatchlistEntry, changes: Record<string, unknown>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/watchlist', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          productId: item.product_id,
+          size: item.size,
+          targetPrice: item.target_price,
+          notifyPriceDrop: item.notify_price_drop,
+          notifyRestock: item.notify_restock,
+          ...changes
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update watchlist')
+      }
+
+      await fetchWatchlist()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveTarget = (item: WatchlistEntry) => {
+    const value = (targets[item.id] ?? '').trim()
+    // Targets are typed in the shopper's currency and stored in the base currency
+    const targetPrice = value === '' ? null : Math.round((Number(value) / rate) * 100) / 100
+    if (targetPrice !== null && !(targetPrice > 0)) {
+      setError('The target price must be a positive amount')
+      return
+    }
+    saveWatch(item, { targetPrice })
+  }
+
+  const handleRemove = async (item: WatchlistEntry) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/watchlist?id=${item.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove from watchlist')
+      }
+
+      await fetchWatchlist()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleLeaveWaitlist = async (place: WaitlistPlace) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/waitlist?id=${place.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to leave waitlist')
+      }
+
+      await fetchPlaces()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="bg-gray-300 h-8 rounded w-1/3 mb-6"></div>
+          <div className="bg-gray-300 h-32 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900">Access Denied</h1>
+          <p className="text-gray-600 mt-2">Please log in to view your watchlist.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Watchlist</h1>
+        <p className="text-gray-600 mt-2">
+          We let you know when a product you watch drops in price or comes back in stock. Choose how in your{' '}
+          <Link href="/profile" className="text-blue-600 hover:underline">preferences</Link>.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading watchlist...</div>
+      ) : watchlist.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          You are not watching any products yet.{' '}
+          <Link href="/products" className="text-blue-600 hover:underline">Browse products</Link>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+          {watchlist.map((item) => {
+            const ctx = { brand: item.product.brand, gender: undefined }
+            const inStock = item.size === null
+              ? item.product.available_sizes.length > 0
+              : item.product.available_sizes.includes(item.size)
+            return (
+              <div key={item.id} className="p-4 flex flex-wrap items-center gap-4">
+                {item.product.image_url && (
+                  <img src={item.product.image_url} alt={item.product.name} className="w-16 h-16 object-cover rounded" />
+                )}
+                <div className="flex-1 min-w-[12rem]">
+                  <Link href={`/products/${item.product_id}`} className="font-medium text-gray-900 hover:underline">
+                    {item.product.brand ? `${item.product.brand} ${item.product.name}` : item.product.name}
+                  </Link>
+                  <div className="text-sm text-gray-600">
+                    {item.size ? formatSize(item.size, sizeSystem, ctx) : 'Any size'}
+                    {' · '}
+                    {item.product.price !== null ? formatPrice(item.product.price) : 'No price yet'}
+                    {' · '}
+                    <span className={inStock ? 'text-green-600' : 'text-red-600'}>
+                      {inStock ? 'In stock' : 'Out of stock'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4 mt-2 text-sm text-gray-700">
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={item.notify_price_drop}
+                        disabled={saving}
+                        onChange={(e) => saveWatch(item, { notifyPriceDrop: e.target.checked })}
+                        className="mr-2"
+                      />
+                      Price drops
+                    </label>
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={item.notify_restock}
+                        disabled={saving}
+                        onChange={(e) => saveWatch(item, { notifyRestock: e.target.checked })}
+                        className="mr-2"
+                      />
+                      Restocks
+                    </label>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    placeholder={item.target_price !== null ? formatPrice(item.target_price) : `Target (${currency})`}
+                    value={targets[item.id] ?? ''}
+                    onChange={(e) => setTargets({ ...targets, [item.id]: e.target.value })}
+                    className="px-3 py-1 border border-gray-300 rounded-md text-sm w-32"
+                  />
+                  <button
+                    onClick={() => saveTarget(item)}
+                    disabled={saving}
+                    className="px-3 py-1 bg-black text-white rounded-md text-sm hover:bg-gray-800 disabled:bg-gray-300"
+                  >
+                    Set target
+                  </button>
+                  <button
+                    onClick={() => handleRemove(item)}
+                    disabled={saving}
+                    className="text-sm text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {places.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-xl font-semibold mb-4">Waitlists</h2>
+          <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+            {places.map((place) => (
+              <div key={place.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <Link href={`/products/${place.product_id}`} className="font-medium text-gray-900 hover:underline">
+                    {place.product.brand ? `${place.product.brand} ${place.product.name}` : place.product.name}
+                  </Link>
+                  <div className="text-sm text-gray-600">
+                    Size {formatSize(place.size, sizeSystem, { brand: place.product.brand || undefined, gender: place.product.gender || undefined })}
+                    {' · '}
+                    {place.status === 'offered' ? (
+                      <span className="text-green-600">
+                        Held for you until{' '}
+                        {new Date(place.offer_expires_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    ) : (
+                      <span>#{place.position} in line</span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleLeaveWaitlist(place)}
+                  disabled={saving}
+                  className="text-sm text-red-600 hover:underline"
+                >
+                  Leave
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {alerts.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-xl font-semibold mb-4">Recent alerts</h2>
+          <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+            {alerts.map((alert) => (
+              <div key={alert.id} className="p-4">
+                <div className="flex justify-between">
+                  <span className={`font-medium ${alert.read_at ? 'text-gray-700' : 'text-gray-900'}`}>{alert.title}</span>
+                  <span className="text-xs text-gray-500">{new Date(alert.created_at).toLocaleString()}</span>
+                </div>
+                <p className="text-sm text-gray-600 whitespace-pre-line mt-1">{alert.message}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,10 +3,14 @@
 import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { useCart } from '@/contexts/CartContext'
+import { useCurrency } from '@/contexts/UserPreferencesContext'
+import { SUPPORTED_CURRENCIES } from '@/services/pricing'
+import type { Currency } from '@/types/pricing'
 
 export default function Navigation() {
   const { user, isLoading: loading, logout } = useAuth()
   const { cart } = useCart()
+  const { currency, setCurrency } = useCurrency()
 
   const handleSignOut = async () => {
     await logout()
@@ -33,6 +37,17 @@ export default function Navigation() {
           </nav>
 
           <div className="flex items-center space-x-4">
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as Currency)}
+              className="text-sm text-gray-700 bg-transparent border-none focus:outline-none cursor-pointer"
+              aria-label="Currency"
+            >
+              {SUPPORTED_CURRENCIES.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+
             {/* SneakX cart icon - minimalist shopping bag */}
             <Link
               href="/cart"
@@ -70,6 +85,12 @@ export default function Navigation() {
                 >
                   Orders
                 </Link>
+                <Link
+                  href="/watchlist"
+                  className="text-sm text-gray-600 hover:text-black px-3 py-2 rounded-md transition-colors duration-200"
+                >
+                  Watchlist
+                </Link>
                 <button
                   onClick={handleSignOut}
                   className="text-sm text-gray-600 hover:text-black px-2 py-1 rounded-md transition-colors duration-200"
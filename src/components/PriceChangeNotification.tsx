@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react'
 import { useRealTimeStock } from '@/hooks/useRealTimeStock'
+import { usePricing } from '@/hooks/usePricing'
 
 interface PriceChangeToast {
   id: string
@@ -15,6 +16,7 @@ interface PriceChangeToast {
 
 export function PriceChangeNotification() {
   const { priceUpdates, isConnected } = useRealTimeStock()
+  const { formatPrice } = usePricing()
   const [toasts, setToasts] = useState<PriceChangeToast[]>([])
 
   useEffect(() => {
@@ -89,12 +91,12 @@ export function PriceChangeNotification() {
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-2">
                   <span className="text-sm text-gray-500 line-through">
-                    €{toast.oldPrice.toFixed(2)}
+                    {formatPrice(toast.oldPrice)}
                   </span>
                   <span className={`text-sm font-medium ${
                     toast.changePercentage > 0 ? 'text-red-600' : 'text-green-600'
                   }`}>
-                    €{toast.newPrice.toFixed(2)}
+                    {formatPrice(toast.newPrice)}
                   </span>
                 </div>
 
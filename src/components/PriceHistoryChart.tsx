@@ -0,0 +1,145 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  MarketHistoryService,
+  getPointPrice,
+  type PriceHistory,
+  type PriceHistoryRange
+} from '@/services/market-history'
+
+const RANGES: PriceHistoryRange[] = ['24h', '7d', '30d', '90d', '1y', 'all']
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 8
+
+interface PriceHistoryChartProps {
+  productId: string
+  initialRange?: PriceHistoryRange
+  currencySymbol?: string
+  title?: string
+}
+
+export function PriceHistoryChart({
+  productId,
+  initialRange = '30d',
+  currencySymbol = '€',
+  title = 'Price History'
+}: PriceHistoryChartProps) {
+  const [range, setRange] = useState<PriceHistoryRange>(initialRange)
+  const [history, setHistory] = useState<PriceHistory | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function fetchHistory() {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const data = await MarketHistoryService.getPriceHistory(productId, range)
+        if (!cancelled) setHistory(data)
+      } catch (err) {
+        console.error('Error fetching price history:', err)
+        if (!cancelled) setError('Price history is unavailable')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchHistory()
+
+    return () => {
+      cancelled = true
+    }
+  }, [productId, range])
+
+  const prices = (history?.points || [])
+    .map(point => ({ timestamp: point.timestamp, price: getPointPrice(point) }))
+    .filter((point): point is { timestamp: string; price: number } => point.price !== null)
+
+  const min = prices.length > 0 ? Math.min(...prices.map(p => p.price)) : 0
+  const max = prices.length > 0 ? Math.max(...prices.map(p => p.price)) : 0
+  const spread = max - min || 1
+
+  const path = prices
+    .map((point, index) => {
+      const x = prices.length === 1
+        ? WIDTH / 2
+        : PADDING + (index / (prices.length - 1)) * (WIDTH - PADDING * 2)
+      const y = HEIGHT - PADDING - ((point.price - min) / spread) * (HEIGHT - PADDING * 2)
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  const summary = history?.summary
+  const isUp = (summary?.change ?? 0) >= 0
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <div className="flex space-x-1">
+          {RANGES.map(option => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-2 py-1 text-xs rounded ${
+                range === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-48 bg-gray-100 rounded animate-pulse" />
+      ) : error ? (
+        <p className="text-sm text-gray-500">{error}</p>
+      ) : prices.length === 0 ? (
+        <p className="text-sm text-gray-500">No market data recorded for this period</p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-48 bg-gray-50 rounded"
+            preserveAspectRatio="none"
+          >
+            <polyline
+              points={path}
+              fill="none"
+              stroke={isUp ? '#16a34a' : '#dc2626'}
+              strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          {summary && (
+            <div className="grid grid-cols-3 gap-4 mt-3 text-sm">
+              <div>
+                <span className="text-gray-600">Low: </span>
+                <span className="font-medium">{currencySymbol}{summary.low?.toFixed(2)}</span>
+              </div>
+              <div>
+                <span className="text-gray-600">High: </span>
+                <span className="font-medium">{currencySymbol}{summary.high?.toFixed(2)}</span>
+              </div>
+              <div>
+                <span className="text-gray-600">Change: </span>
+                <span className={`font-medium ${isUp ? 'text-green-600' : 'text-red-600'}`}>
+                  {isUp ? '+' : ''}{summary.changePercentage !== null ? `${summary.changePercentage}%` : '—'}
+                </span>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import AddToCartButton from '@/components/AddToCartButton'
+import { usePricing } from '@/hooks/usePricing'
 import { Badge } from '@/components/ui/badge'
 
 export interface Product {
@@ -40,6 +41,7 @@ export function ProductCard({
   showBadges = true,
   badgeVariants = { lowStock: 5 }
 }: ProductCardProps) {
+  const { formatPrice } = usePricing()
   const [selectedSize, setSelectedSize] = useState<string>('')
   const [showSizeError, setShowSizeError] = useState(false)
   const [stockUpdated, setStockUpdated] = useState(false)
@@ -191,7 +193,7 @@ export function ProductCard({
         <p className="text-sm text-slate-600 mb-2">{product.brand}</p>
         <div className="flex justify-between items-center mb-3">
           <span className="price text-lg">
-            €{product.price.toFixed(2)}
+            {formatPrice(product.price)}
           </span>
           <div className="flex flex-col items-end">
             <span className={`text-sm transition-colors duration-300 ${
@@ -2,200 +2,207 @@
 
 import { useEffect, useState, useMemo } from 'react'
 import Link from 'next/link'
-import { supabase } from '@/lib/supabase/client'
 import { useProductStockMonitor } from '@/hooks/useRealTimeStock'
 import AddToCartButton from '@/components/AddToCartButton'
-
-interface Product {
-  id: string
-  name: string
-  brand: string
-  price: number
-  imageUrl: string
-  description?: string
-  category: string
-  sizes: string[]
-  stockCount: number
-  createdAt: string
-}
+import { useSizeSystem } from '@/contexts/UserPreferencesContext'
+import { convertSize } from '@/lib/sizing'
+import { usePricing } from '@/hooks/usePricing'
+import {
+  productApiService,
+  type Product,
+  type ProductFilters,
+  type ProductSortOptions
+} from '@/services/api/products'
+import { PRICE_BUCKET_EDGES, priceBucketRange, type ProductFacets } from '@/services/api/product-search'
 
 interface Filters {
   search: string
-  brands: string[]
-  minPrice: number
-  maxPrice: number
+  brandIds: string[]
   sizes: string[]
+  priceBucket: number | null
+  colors: string[]
+  gender: ProductFilters['gender'] | null
+  marketplace: ProductFilters['marketplace'] | null
   inStock: boolean
-  sortBy: 'newest' | 'price-low' | 'price-high' | 'name'
+  sortBy: 'relevance' | 'newest' | 'price-low' | 'price-high' | 'name'
+}
+
+interface ProductsWithFiltersProps {
+  // Brand pages show a single brand's products, so the brand filter is fixed
+  brand?: { id: string; name: string }
 }
 
 const initialFilters: Filters = {
   search: '',
-  brands: [],
-  minPrice: 0,
-  maxPrice: 1000,
+  brandIds: [],
   sizes: [],
+  priceBucket: null,
+  colors: [],
+  gender: null,
+  marketplace: null,
   inStock: false,
-  sortBy: 'newest'
+  sortBy: 'relevance'
+}
+
+const PAGE_SIZE = 24
+
+const SORT_OPTIONS: Record<Filters['sortBy'], ProductSortOptions> = {
+  relevance: { field: 'relevance', direction: 'desc' },
+  newest: { field: 'created_at', direction: 'desc' },
+  'price-low': { field: 'price', direction: 'asc' },
+  'price-high': { field: 'price', direction: 'desc' },
+  name: { field: 'name', direction: 'asc' }
 }
 
-export function ProductsWithFilters() {
+const GENDER_LABELS: Record<string, string> = {
+  men: 'Men',
+  women: 'Women',
+  unisex: 'Unisex'
+}
+
+const MARKETPLACE_NAMES: Record<string, string> = {
+  stockx: 'StockX',
+  goat: 'GOAT'
+}
+
+export function ProductsWithFilters({ brand }: ProductsWithFiltersProps = {}) {
   const [products, setProducts] = useState<Product[]>([])
-  const [allBrands, setAllBrands] = useState<string[]>([])
+  const [facets, setFacets] = useState<ProductFacets | null>(null)
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [hasNextPage, setHasNextPage] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [filters, setFilters] = useState<Filters>(initialFilters)
+  const [query, setQuery] = useState('')
   const [showFilters, setShowFilters] = useState(false)
+  const { sizeSystem } = useSizeSystem()
+  const { formatPrice } = usePricing()
 
-  const { stockData, isConnected } = useProductStockMonitor(
-    products.map(p => p.id)
-  )
+  const productIds = useMemo(() => products.map(p => p.id), [products])
+  const { stockData, isConnected } = useProductStockMonitor(productIds)
+
+  // The home page search and autocomplete link here with ?search=
+  useEffect(() => {
+    const search = new URLSearchParams(window.location.search).get('search')
+    if (search) setFilters(prev => ({ ...prev, search }))
+  }, [])
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(filters.search.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [filters.search])
+
+  // Selected sizes are in the previous system's values once the system changes
+  useEffect(() => {
+    setFilters(prev => ({ ...prev, sizes: [] }))
+  }, [sizeSystem])
+
+  const brandId = brand?.id
+  const brandName = brand?.name
+
+  const productFilters = useMemo<ProductFilters>(() => {
+    const priceRange = filters.priceBucket !== null ? priceBucketRange(filters.priceBucket) : undefined
+
+    return {
+      brandIds: brandId ? [brandId] : filters.brandIds,
+      sizes: filters.sizes,
+      sizeSystem,
+      colors: filters.colors,
+      gender: filters.gender || undefined,
+      marketplace: filters.marketplace || undefined,
+      minPrice: priceRange?.min,
+      maxPrice: priceRange?.max,
+      inStock: filters.inStock || undefined
+    }
+  }, [brandId, filters.brandIds, filters.sizes, filters.priceBucket, filters.colors, filters.gender, filters.marketplace, filters.inStock, sizeSystem])
 
-  // Available sizes (common sneaker sizes)
-  const availableSizes = ['6', '6.5', '7', '7.5', '8', '8.5', '9', '9.5', '10', '10.5', '11', '11.5', '12', '13']
+  const sort = SORT_OPTIONS[filters.sortBy]
 
   useEffect(() => {
+    let cancelled = false
+
     async function fetchData() {
+      setLoading(true)
+      setError(null)
+
       try {
-        // Fetch products with proper joins
-        const { data: productsData, error: productsError } = await supabase
-          .from('products')
-          .select(`
-            *,
-            brands(name, slug),
-            product_stock(size, quantity, reserved_quantity),
-            product_images(image_url, is_primary),
-            categories(name)
-          `)
-          .eq('is_active', true)
-          .order('created_at', { ascending: false })
-          .limit(100)
-
-        if (productsError) throw productsError
-
-        // Fetch unique brands
-        const { data: brandsData, error: brandsError } = await supabase
-          .from('brands')
-          .select('name')
-          .eq('is_active', true)
-          .order('name')
-
-        if (brandsError) throw brandsError
-
-        const transformedProducts = productsData?.map(product => {
-          const stockEntries = product.product_stock || []
-          const totalStock = stockEntries.reduce((sum: number, entry: any) =>
-            sum + (entry.quantity - (entry.reserved_quantity || 0)), 0
-          )
-
-          const availableSizes = stockEntries
-            .filter((entry: any) => (entry.quantity - (entry.reserved_quantity || 0)) > 0)
-            .map((entry: any) => entry.size)
-
-          const primaryImage = product.product_images?.find((img: any) => img.is_primary)
-          const imageUrl = primaryImage?.image_url || product.product_images?.[0]?.image_url || '/placeholder-product.jpg'
-
-          return {
-            id: product.id,
-            name: product.name,
-            brand: Array.isArray(product.brands) ? product.brands[0]?.name : product.brands?.name || 'Unknown',
-            price: product.current_price || product.retail_price || 0,
-            imageUrl,
-            description: product.description,
-            category: Array.isArray(product.categories) ? product.categories[0]?.name : product.categories?.name || 'Sneakers',
-            sizes: availableSizes,
-            stockCount: totalStock,
-            createdAt: product.created_at
-          }
-        }) || []
-
-        setProducts(transformedProducts)
-        setAllBrands(brandsData?.map(b => b.name) || [])
+        const [productsResponse, facetsResponse] = await Promise.all([
+          productApiService.searchProducts(query, { page: 1, limit: PAGE_SIZE }, productFilters, sort),
+          productApiService.getProductFacets(query, productFilters)
+        ])
+
+        if (productsResponse.error) throw productsResponse.error
+        if (facetsResponse.error) throw facetsResponse.error
+        if (cancelled) return
+
+        setProducts(productsResponse.data!.products)
+        setTotal(productsResponse.data!.total)
+        setHasNextPage(productsResponse.data!.hasNextPage)
+        setPage(1)
+        setFacets(facetsResponse.data)
       } catch (error) {
         console.error('Error fetching products:', error)
-        setError('Failed to load products')
+        if (!cancelled) setError('Failed to load products')
       } finally {
-        setLoading(false)
+        if (!cancelled) setLoading(false)
       }
     }
 
     fetchData()
-  }, [])
-
-  // Filter and sort products
-  const filteredProducts = useMemo(() => {
-    let filtered = products.filter(product => {
-      // Search filter
-      if (filters.search && !product.name.toLowerCase().includes(filters.search.toLowerCase()) &&
-          !product.brand.toLowerCase().includes(filters.search.toLowerCase())) {
-        return false
-      }
-
-      // Brand filter
-      if (filters.brands.length > 0 && !filters.brands.includes(product.brand)) {
-        return false
-      }
-
-      // Price filter
-      if (product.price < filters.minPrice || product.price > filters.maxPrice) {
-        return false
-      }
 
-      // Size filter
-      if (filters.sizes.length > 0 && !filters.sizes.some(size => product.sizes.includes(size))) {
-        return false
-      }
-
-      // In stock filter
-      if (filters.inStock && product.stockCount <= 0) {
-        return false
-      }
+    return () => {
+      cancelled = true
+    }
+  }, [query, productFilters, sort])
+
+  const loadMore = async () => {
+    setLoadingMore(true)
+    try {
+      const response = await productApiService.searchProducts(query, { page: page + 1, limit: PAGE_SIZE }, productFilters, sort)
+      if (response.error) throw response.error
+
+      setProducts(prev => [...prev, ...response.data!.products])
+      setHasNextPage(response.data!.hasNextPage)
+      setPage(page + 1)
+    } catch (error) {
+      console.error('Error loading more products:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
 
-      return true
+  // Size facets count canonical US sizes; show them in the user's size system
+  const sizeOptions = useMemo(() => {
+    const counts = new Map<string, number>()
+    facets?.sizes.forEach(({ value, count }) => {
+      const label = convertSize(value, 'US', sizeSystem, { brand: brandName }) || value
+      counts.set(label, Math.max(counts.get(label) || 0, count))
     })
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+  }, [facets, sizeSystem, brandName])
 
-    // Sort products
-    switch (filters.sortBy) {
-      case 'price-low':
-        filtered.sort((a, b) => a.price - b.price)
-        break
-      case 'price-high':
-        filtered.sort((a, b) => b.price - a.price)
-        break
-      case 'name':
-        filtered.sort((a, b) => a.name.localeCompare(b.name))
-        break
-      case 'newest':
-      default:
-        filtered.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        break
-    }
-
-    return filtered
-  }, [products, filters])
+  const priceLabel = (bucket: number) => {
+    if (bucket === 0) return `Under ${formatPrice(PRICE_BUCKET_EDGES[0])}`
+    if (bucket === PRICE_BUCKET_EDGES.length) return `${formatPrice(PRICE_BUCKET_EDGES[bucket - 1])} and up`
+    return `${formatPrice(PRICE_BUCKET_EDGES[bucket - 1])} – ${formatPrice(PRICE_BUCKET_EDGES[bucket])}`
+  }
 
-  const updateFilter = (key: keyof Filters, value: any) => {
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
     setFilters(prev => ({ ...prev, [key]: value }))
   }
 
-  const clearFilters = () => {
-    setFilters(initialFilters)
+  const toggleValue = (key: 'brandIds' | 'sizes' | 'colors', value: string, checked: boolean) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: checked ? [...prev[key], value] : prev[key].filter(v => v !== value)
+    }))
   }
 
-  if (loading) {
-    return (
-      <div className="max-w-7xl mx-auto px-4 py-8">
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {Array.from({ length: 8 }).map((_, i) => (
-            <div key={i} className="animate-pulse">
-              <div className="bg-gray-200 aspect-square rounded-lg mb-4"></div>
-              <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
-              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
-            </div>
-          ))}
-        </div>
-      </div>
-    )
+  const clearFilters = () => {
+    setFilters(initialFilters)
   }
 
   if (error) {
@@ -213,7 +220,7 @@ export function ProductsWithFilters() {
         <div className="relative">
           <input
             type="text"
-            placeholder="Search products by name or brand..."
+            placeholder={brand ? `Search ${brand.name} products...` : 'Search products by name, brand, colorway or SKU...'}
             value={filters.search}
             onChange={(e) => updateFilter('search', e.target.value)}
             className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
@@ -241,9 +248,10 @@ export function ProductsWithFilters() {
 
           <select
             value={filters.sortBy}
-            onChange={(e) => updateFilter('sortBy', e.target.value)}
+            onChange={(e) => updateFilter('sortBy', e.target.value as Filters['sortBy'])}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
           >
+            <option value="relevance">Best Match</option>
             <option value="newest">Newest First</option>
             <option value="price-low">Price: Low to High</option>
             <option value="price-high">Price: High to Low</option>
@@ -252,84 +260,137 @@ export function ProductsWithFilters() {
         </div>
 
         <div className="text-sm text-gray-600">
-          Showing {filteredProducts.length} of {products.length} products
+          Showing {products.length} of {total} products
         </div>
       </div>
 
-      {/* Filters Panel */}
-      {showFilters && (
+      {/* Filters Panel: every option shows how many products it would leave */}
+      {showFilters && facets && (
         <div className="bg-gray-50 p-6 rounded-lg mb-6">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
             {/* Brand Filter */}
+            {!brand && (
+              <div>
+                <h3 className="font-medium text-gray-900 mb-3">Brands</h3>
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                  {facets.brands.map(facet => (
+                    <label key={facet.id} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={filters.brandIds.includes(facet.id)}
+                        onChange={(e) => toggleValue('brandIds', facet.id, e.target.checked)}
+                        className="rounded border-gray-300 text-black focus:ring-black"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{facet.value}</span>
+                      <span className="ml-auto text-xs text-gray-500">{facet.count}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Size Filter */}
             <div>
-              <h3 className="font-medium text-gray-900 mb-3">Brands</h3>
+              <h3 className="font-medium text-gray-900 mb-3">Sizes ({sizeSystem})</h3>
+              <div className="grid grid-cols-3 gap-2 max-h-40 overflow-y-auto">
+                {sizeOptions.map(({ value, count }) => (
+                  <label key={value} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={filters.sizes.includes(value)}
+                      onChange={(e) => toggleValue('sizes', value, e.target.checked)}
+                      className="rounded border-gray-300 text-black focus:ring-black"
+                    />
+                    <span className="ml-1 text-sm text-gray-700">{value}</span>
+                    <span className="ml-1 text-xs text-gray-500">({count})</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Price Filter */}
+            <div>
+              <h3 className="font-medium text-gray-900 mb-3">Price</h3>
+              <div className="space-y-2">
+                {facets.prices.map((bucket, index) => (
+                  <label key={index} className="flex items-center">
+                    <input
+                      type="radio"
+                      name="price"
+                      checked={filters.priceBucket === index}
+                      onChange={() => updateFilter('priceBucket', index)}
+                      disabled={bucket.count === 0 && filters.priceBucket !== index}
+                      className="border-gray-300 text-black focus:ring-black"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{priceLabel(index)}</span>
+                    <span className="ml-auto text-xs text-gray-500">{bucket.count}</span>
+                  </label>
+                ))}
+                {filters.priceBucket !== null && (
+                  <button
+                    onClick={() => updateFilter('priceBucket', null)}
+                    className="text-xs text-black hover:text-gray-700 underline"
+                  >
+                    Any price
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Colorway Filter */}
+            <div>
+              <h3 className="font-medium text-gray-900 mb-3">Colorway</h3>
               <div className="space-y-2 max-h-40 overflow-y-auto">
-                {allBrands.map(brand => (
-                  <label key={brand} className="flex items-center">
+                {facets.colors.map(facet => (
+                  <label key={facet.value} className="flex items-center">
                     <input
                       type="checkbox"
-                      checked={filters.brands.includes(brand)}
-                      onChange={(e) => {
-                        const newBrands = e.target.checked
-                          ? [...filters.brands, brand]
-                          : filters.brands.filter(b => b !== brand)
-                        updateFilter('brands', newBrands)
-                      }}
+                      checked={filters.colors.includes(facet.value)}
+                      onChange={(e) => toggleValue('colors', facet.value, e.target.checked)}
                       className="rounded border-gray-300 text-black focus:ring-black"
                     />
-                    <span className="ml-2 text-sm text-gray-700">{brand}</span>
+                    <span className="ml-2 text-sm text-gray-700 capitalize">{facet.value}</span>
+                    <span className="ml-auto text-xs text-gray-500">{facet.count}</span>
                   </label>
                 ))}
               </div>
             </div>
 
-            {/* Size Filter */}
+            {/* Gender Filter */}
             <div>
-              <h3 className="font-medium text-gray-900 mb-3">Sizes</h3>
-              <div className="grid grid-cols-3 gap-2">
-                {availableSizes.map(size => (
-                  <label key={size} className="flex items-center">
+              <h3 className="font-medium text-gray-900 mb-3">Gender</h3>
+              <div className="space-y-2">
+                {facets.genders.map(facet => (
+                  <label key={facet.value} className="flex items-center">
                     <input
                       type="checkbox"
-                      checked={filters.sizes.includes(size)}
-                      onChange={(e) => {
-                        const newSizes = e.target.checked
-                          ? [...filters.sizes, size]
-                          : filters.sizes.filter(s => s !== size)
-                        updateFilter('sizes', newSizes)
-                      }}
+                      checked={filters.gender === facet.value}
+                      onChange={(e) => updateFilter('gender', e.target.checked ? facet.value as Filters['gender'] : null)}
                       className="rounded border-gray-300 text-black focus:ring-black"
                     />
-                    <span className="ml-1 text-sm text-gray-700">{size}</span>
+                    <span className="ml-2 text-sm text-gray-700">{GENDER_LABELS[facet.value] || facet.value}</span>
+                    <span className="ml-auto text-xs text-gray-500">{facet.count}</span>
                   </label>
                 ))}
               </div>
             </div>
 
-            {/* Price Filter */}
+            {/* Marketplace Filter */}
             <div>
-              <h3 className="font-medium text-gray-900 mb-3">Price Range</h3>
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-sm text-gray-700 mb-1">Min Price</label>
-                  <input
-                    type="number"
-                    value={filters.minPrice}
-                    onChange={(e) => updateFilter('minPrice', parseInt(e.target.value) || 0)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-black focus:border-transparent"
-                    min="0"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm text-gray-700 mb-1">Max Price</label>
-                  <input
-                    type="number"
-                    value={filters.maxPrice}
-                    onChange={(e) => updateFilter('maxPrice', parseInt(e.target.value) || 1000)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-black focus:border-transparent"
-                    min="0"
-                  />
-                </div>
+              <h3 className="font-medium text-gray-900 mb-3">Marketplace</h3>
+              <div className="space-y-2">
+                {facets.marketplaces.map(facet => (
+                  <label key={facet.value} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={filters.marketplace === facet.value}
+                      onChange={(e) => updateFilter('marketplace', e.target.checked ? facet.value as Filters['marketplace'] : null)}
+                      className="rounded border-gray-300 text-black focus:ring-black"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{MARKETPLACE_NAMES[facet.value] || facet.value}</span>
+                    <span className="ml-auto text-xs text-gray-500">{facet.count}</span>
+                  </label>
+                ))}
               </div>
             </div>
 
@@ -358,7 +419,17 @@ export function ProductsWithFilters() {
       )}
 
       {/* Products Grid */}
-      {filteredProducts.length === 0 ? (
+      {loading ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {Array.from({ length: 8 }).map((_, i) => (
+            <div key={i} className="animate-pulse">
+              <div className="bg-gray-200 aspect-square rounded-lg mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          ))}
+        </div>
+      ) : products.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-gray-600 text-lg">No products found matching your criteria.</p>
           <button
@@ -369,65 +440,79 @@ export function ProductsWithFilters() {
           </button>
         </div>
       ) : (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {filteredProducts.map(product => (
-            <div key={product.id} className="product-card bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow">
-              <Link href={`/products/${product.id}`}>
-                <div className="aspect-square bg-gray-100">
-                  <img
-                    src={product.imageUrl}
-                    alt={product.name}
-                    className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
-                  />
-                </div>
-              </Link>
-
-              <div className="p-4">
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {products.map(product => (
+              <div key={product.id} className="product-card bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow">
                 <Link href={`/products/${product.id}`}>
-                  <h3 className="font-semibold text-gray-900 mb-1 hover:text-black line-clamp-2">
-                    {product.name}
-                  </h3>
+                  <div className="aspect-square bg-gray-100">
+                    <img
+                      src={product.imageUrl}
+                      alt={product.name}
+                      className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
+                    />
+                  </div>
                 </Link>
 
-                <p className="text-sm text-gray-600 mb-2">{product.brand}</p>
-
-                <div className="flex items-center justify-between mb-3">
-                  <span className="text-lg font-bold text-gray-900">
-                    ${product.price.toFixed(2)}
-                  </span>
-
-                  {product.stockCount <= 0 ? (
-                    <span className="text-sm text-red-600 font-medium">Out of Stock</span>
-                  ) : product.stockCount <= 5 ? (
-                    <span className="text-sm text-orange-600 font-medium">Low Stock</span>
-                  ) : (
-                    <span className="text-sm text-green-600 font-medium">In Stock</span>
-                  )}
+                <div className="p-4">
+                  <Link href={`/products/${product.id}`}>
+                    <h3 className="font-semibold text-gray-900 mb-1 hover:text-black line-clamp-2">
+                      {product.name}
+                    </h3>
+                  </Link>
+
+                  <p className="text-sm text-gray-600 mb-2">{product.brand}</p>
+
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="text-lg font-bold text-gray-900">
+                      {formatPrice(product.price)}
+                    </span>
+
+                    {product.stockCount <= 0 ? (
+                      <span className="text-sm text-red-600 font-medium">Out of Stock</span>
+                    ) : product.stockCount <= 5 ? (
+                      <span className="text-sm text-orange-600 font-medium">Low Stock</span>
+                    ) : (
+                      <span className="text-sm text-green-600 font-medium">In Stock</span>
+                    )}
+                  </div>
+
+                  <AddToCartButton
+                    product={{
+                      id: product.id,
+                      name: product.name,
+                      price: product.price,
+                      sizes: product.sizes.filter(size => size.isAvailable).map(size => size.size),
+                      stockCount: product.stockCount,
+                      brand: product.brand,
+                      imageUrl: product.imageUrl,
+                      category: product.category,
+                      createdAt: product.createdAt
+                    }}
+                    selectedSize=""
+                    onSizeRequired={() => {
+                      // TODO: Show size selection modal or redirect to product detail page
+                      window.location.href = `/products/${product.id}`
+                    }}
+                  />
                 </div>
-
-                <AddToCartButton
-                  product={{
-                    id: product.id,
-                    name: product.name,
-                    price: product.price,
-                    sizes: product.sizes,
-                    stockCount: product.stockCount,
-                    brand: product.brand,
-                    imageUrl: product.imageUrl,
-                    category: product.category,
-                    createdAt: product.createdAt
-                  }}
-                  selectedSize=""
-                  onSizeRequired={() => {
-                    // TODO: Show size selection modal or redirect to product detail page
-                    window.location.href = `/products/${product.id}`
-                  }}
-                />
               </div>
+            ))}
+          </div>
+
+          {hasNextPage && (
+            <div className="text-center mt-8">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </button>
             </div>
-          ))}
-        </div>
+          )}
+        </>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { formatSize, type SizeSystem } from '@/lib/sizing'
+import type { RafflePhase } from '@/lib/raffles'
+import type { PublicRaffle, RaffleEntry as Entry } from '@/types/raffle'
+
+interface RaffleEntryProps {
+  raffle: (PublicRaffle & { phase: RafflePhase }) | null
+  entry: Entry | null // the signed-in user's entry
+  sizes: string[]
+  sizeSystem: SizeSystem
+  brand?: string
+  gender?: string
+  onChange: () => void
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+
+/**
+ * Enter a raffle release for one size and follow the entry through the draw
+ */
+export default function RaffleEntry({
+  raffle,
+  entry,
+  sizes,
+  sizeSystem,
+  brand,
+  gender,
+  onChange
+}: RaffleEntryProps) {
+  const { user } = useAuth()
+  const [size, setSize] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const display = (value: string) => formatSize(value, sizeSystem, { brand, gender })
+
+  const handleEnter = async () => {
+    if (!raffle) return
+    if (!size) {
+      setError('Choose the size to enter for')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/raffles', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ raffleId: raffle.id, size })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to enter raffle')
+      }
+
+      setSize('')
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enter raffle')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleWithdraw = async () => {
+    if (!entry || !confirm('Withdraw your raffle entry?')) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/raffles?id=${entry.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to withdraw entry')
+      }
+
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw entry')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderEntry = (current: Entry) => {
+    switch (current.status) {
+      case 'entered':
+        return <span className="text-gray-700">You are entered for size {display(current.size)}</span>
+      case 'won':
+        return (
+          <span className="text-green-700">
+            You won size {display(current.size)}! It is held for you until {formatTime(current.claim_expires_at!)}.{' '}
+            <Link href={`/raffles/${current.id}`} className="text-blue-600 hover:underline">Claim and pay</Link>
+          </span>
+        )
+      case 'alternate':
+        return <span className="text-gray-700">You are on the alternate list for size {display(current.size)}</span>
+      case 'claimed':
+        return <span className="text-green-700">You claimed your pair in size {display(current.size)}</span>
+      case 'expired':
+        return <span className="text-gray-500">Your win in size {display(current.size)} was not claimed in time</span>
+      default:
+        return <span className="text-gray-500">You withdrew your entry</span>
+    }
+  }
+
+  const open = entry && ['entered', 'alternate', 'won'].includes(entry.status)
+
+  return (
+    <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900">Raffle Release</h3>
+
+      {!raffle ? (
+        <p className="text-sm text-gray-700">
+          This release is sold by raffle. Entries are not open yet.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-700">
+            {raffle.phase === 'upcoming' && `Entries open ${formatTime(raffle.entry_opens_at)}.`}
+            {raffle.phase === 'open' && `Entries are open until ${formatTime(raffle.entry_closes_at)}.`}
+            {raffle.phase === 'closed' && 'Entries are closed. Winners will be drawn soon.'}
+            {raffle.phase === 'drawn' && `Winners were drawn ${formatTime(raffle.drawn_at!)}.`}
+            {raffle.phase === 'cancelled' && 'This raffle was cancelled.'}
+            {' '}Winners have {raffle.claim_minutes} minutes to pay before their pair goes to the next alternate.
+          </p>
+
+          {entry && (
+            <div className="flex items-center justify-between text-sm">
+              {renderEntry(entry)}
+              {open && (
+                <button
+                  onClick={handleWithdraw}
+                  disabled={isSaving}
+                  className="text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Withdraw
+                </button>
+              )}
+            </div>
+          )}
+
+          {raffle.phase === 'open' && !entry && (
+            user ? (
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={size}
+                  onChange={(e) => setSize(e.target.value)}
+                  className="text-sm border border-gray-300 rounded-md px-2 py-1"
+                  aria-label="Raffle size"
+                >
+                  <option value="">Size...</option>
+                  {sizes.map((value) => (
+                    <option key={value} value={value}>{display(value)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleEnter}
+                  disabled={isSaving}
+                  className="px-4 py-1 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+                >
+                  {isSaving ? 'Entering...' : 'Enter Raffle'}
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                <Link href="/login" className="text-blue-600 hover:underline">Sign in</Link> to enter the raffle.
+              </p>
+            )
+          )}
+
+          {/* Published up front so the draw can be checked once the seed is revealed */}
+          <p className="text-xs text-gray-500 break-all">
+            Draw commitment (SHA-256 of the seed): <code>{raffle.seed_commitment}</code>
+            {raffle.seed && (
+              <>
+                <br />
+                Revealed seed: <code>{raffle.seed}</code>
+              </>
+            )}
+          </p>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
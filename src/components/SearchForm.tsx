@@ -1,12 +1,48 @@
 'use client'
 
+import { useEffect, useState } from 'react'
+import { productApiService, type SearchSuggestion } from '@/services/api/products'
+
+function suggestionHref(suggestion: SearchSuggestion): string {
+  switch (suggestion.type) {
+    case 'brand':
+      return `/brands/${suggestion.slug}`
+    case 'product':
+      return `/products/${suggestion.id}`
+    default:
+      return `/products?search=${encodeURIComponent(suggestion.text)}`
+  }
+}
+
 export function SearchForm() {
+  const [query, setQuery] = useState('')
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
+  const [open, setOpen] = useState(false)
+
+  // Suggest once the user pauses typing
+  useEffect(() => {
+    const text = query.trim()
+    if (text.length < 2) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      const response = await productApiService.getSearchSuggestions(text, 8)
+      if (!cancelled) setSuggestions(response.data || [])
+    }, 200)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query])
+
   return (
     <div className="max-w-2xl mx-auto mb-8">
       <form onSubmit={(e) => {
         e.preventDefault()
-        const formData = new FormData(e.target as HTMLFormElement)
-        const query = formData.get('search') as string
         if (query.trim()) {
           window.location.href = `/products?search=${encodeURIComponent(query.trim())}`
         }
@@ -15,6 +51,14 @@ export function SearchForm() {
           <input
             type="text"
             name="search"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setOpen(true)
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setTimeout(() => setOpen(false), 150)}
+            autoComplete="off"
             placeholder="Search for sneakers, brands, or styles..."
             className="w-full pl-4 pr-4 py-1 text-sm border-2 border-gray-300 rounded-full focus:ring-2 focus:ring-black focus:border-black transition-all"
             style={{ height: '24px' }}
@@ -24,8 +68,27 @@ export function SearchForm() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
             </svg>
           </div>
+          {open && suggestions.length > 0 && (
+            <ul className="absolute z-20 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg text-sm overflow-hidden">
+              {suggestions.map((suggestion) => (
+                <li key={`${suggestion.type}:${suggestion.id}`}>
+                  <a
+                    href={suggestionHref(suggestion)}
+                    className="flex items-center justify-between px-4 py-2 hover:bg-gray-50"
+                  >
+                    <span className="truncate">{suggestion.text}</span>
+                    <span className="ml-3 text-xs text-gray-400">
+                      {suggestion.type === 'brand'
+                        ? `Brand${suggestion.count ? ` · ${suggestion.count}` : ''}`
+                        : suggestion.type === 'query' ? 'Search' : ''}
+                    </span>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </form>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { supabase } from '@/lib/supabase/client'
 import { useProductStockMonitor } from '@/hooks/useRealTimeStock'
 import AddToCartButton from '@/components/AddToCartButton'
+import { usePricing } from '@/hooks/usePricing'
 
 interface Product {
   id: string
@@ -167,6 +168,7 @@ function ProductCard({ product, stockData, isConnected }: {
   stockData: Record<string, any>
   isConnected: boolean
 }) {
+  const { formatPrice } = usePricing()
   const [selectedSize, setSelectedSize] = useState<string>('')
   const [showSizeError, setShowSizeError] = useState(false)
   const [stockUpdated, setStockUpdated] = useState(false)
@@ -250,7 +252,7 @@ function ProductCard({ product, stockData, isConnected }: {
         </Link>
         <p className="product-brand">{product.brand}</p>
         <div className="flex justify-between items-center mb-3">
-          <span className="product-price">€{product.price.toFixed(2)}</span>
+          <span className="product-price">{formatPrice(product.price)}</span>
           <div className="flex flex-col items-end">
             <span className={`text-sm transition-colors duration-300 ${totalAvailable > 0 ? 'text-gray-500' : 'text-black'} ${stockUpdated ? 'text-black font-medium' : ''}`}>
               {totalAvailable > 0 ? `${totalAvailable} left` : 'Out of stock'}
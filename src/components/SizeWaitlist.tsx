@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import { formatSize, type SizeSystem } from '@/lib/sizing'
+import type { WaitlistPlace } from '@/types/waitlist'
+
+interface SizeWaitlistProps {
+  productId: string
+  soldOutSizes: string[]
+  places: WaitlistPlace[] // the signed-in user's open places for this product
+  sizeSystem: SizeSystem
+  brand?: string
+  gender?: string
+  onChange: () => void
+}
+
+/**
+ * Join the queue for a sold-out size; restocked units are held for the front of the queue in turn
+ */
+export default function SizeWaitlist({
+  productId,
+  soldOutSizes,
+  places,
+  sizeSystem,
+  brand,
+  gender,
+  onChange
+}: SizeWaitlistProps) {
+  const [size, setSize] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const display = (value: string) => formatSize(value, sizeSystem, { brand, gender })
+  const joinable = soldOutSizes.filter(value => !places.some(place => place.size === value))
+
+  if (joinable.length === 0 && places.length === 0) return null
+
+  const handleJoin = async () => {
+    if (!size) {
+      setError('Choose the size to wait for')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/waitlist', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ productId, size })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to join waitlist')
+      }
+
+      setSize('')
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join waitlist')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleLeave = async (place: WaitlistPlace) => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/waitlist?id=${place.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to leave waitlist')
+      }
+
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to leave waitlist')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900">Waitlist</h3>
+
+      {places.map((place) => (
+        <div key={place.id} className="flex items-center justify-between text-sm">
+          {place.status === 'offered' ? (
+            <span className="text-green-700">
+              Size {display(place.size)} is held for you until{' '}
+              {new Date(place.offer_expires_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          ) : (
+            <span className="text-gray-700">
+              #{place.position} in line for size {display(place.size)}
+            </span>
+          )}
+          <button
+            onClick={() => handleLeave(place)}
+            disabled={isSaving}
+            className="text-red-600 hover:underline disabled:opacity-50"
+          >
+            Leave
+          </button>
+        </div>
+      ))}
+
+      {joinable.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={size}
+            onChange={(e) => setSize(e.target.value)}
+            className="text-sm border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Sold-out size"
+          >
+            <option value="">Sold-out size...</option>
+            {joinable.map((value) => (
+              <option key={value} value={value}>{display(value)}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleJoin}
+            disabled={isSaving}
+            className="px-4 py-1 text-sm border border-gray-900 rounded-md hover:bg-gray-100 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Join Waitlist'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
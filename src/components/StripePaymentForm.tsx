@@ -0,0 +1,94 @@
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { loadStripe } from '@stripe/stripe-js'
+import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js'
+import type { ProcessPaymentResult } from '@/services/payments'
+
+// Loaded once for the page; card details go straight from Stripe's iframe to Stripe, never to our server
+const stripePromise = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
+  ? loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY)
+  : null
+
+interface StripePaymentFormProps {
+  clientSecret: string
+  returnUrl: string // where Stripe sends the buyer back after a redirect (e.g. 3D Secure)
+  disabled?: boolean
+  onResult: (result: ProcessPaymentResult) => void
+}
+
+/**
+ * Collect the card with Stripe Elements and confirm the payment intent in the browser.
+ * The order is settled by the payment_intent webhook, not by this form.
+ */
+export default function StripePaymentForm({ clientSecret, ...props }: StripePaymentFormProps) {
+  if (!stripePromise) {
+    return <p className="text-sm text-red-600">Card payments are not configured.</p>
+  }
+
+  return (
+    <Elements stripe={stripePromise} options={{ clientSecret }}>
+      <StripeConfirmForm {...props} />
+    </Elements>
+  )
+}
+
+function StripeConfirmForm({ returnUrl, disabled, onResult }: Omit<StripePaymentFormProps, 'clientSecret'>) {
+  const stripe = useStripe()
+  const elements = useElements()
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!stripe || !elements) return
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const { error: confirmError, paymentIntent } = await stripe.confirmPayment({
+        elements,
+        confirmParams: { return_url: returnUrl },
+        redirect: 'if_required',
+      })
+
+      if (confirmError) {
+        // Incomplete card details can be fixed in place; anything else was a failed payment attempt
+        if (confirmError.type === 'validation_error') {
+          setError(confirmError.message || 'Please check your card details')
+          return
+        }
+        onResult({ success: false, status: 'failed', error: confirmError.message, errorCode: confirmError.code })
+        return
+      }
+
+      if (paymentIntent?.status === 'succeeded' || paymentIntent?.status === 'processing') {
+        onResult({ success: paymentIntent.status === 'succeeded', status: paymentIntent.status })
+        return
+      }
+
+      onResult({ success: false, status: 'failed', error: 'Your payment could not be completed. Please try another card.' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={!stripe || submitting || disabled}
+        className={`w-full px-6 py-2 rounded-md font-medium ${
+          !stripe || submitting || disabled
+            ? 'bg-gray-400 text-gray-700 cursor-not-allowed'
+            : 'bg-green-600 text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500'
+        }`}
+      >
+        {submitting ? 'Processing...' : 'Place Order'}
+      </button>
+    </form>
+  )
+}
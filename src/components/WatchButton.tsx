@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { usePricing } from '@/hooks/usePricing'
+import { formatSize, type SizeSystem } from '@/lib/sizing'
+
+interface WatchButtonProps {
+  productId: string
+  sizes: Array<{ size: string; available: boolean }>
+  selectedSize?: string
+  sizeSystem: SizeSystem
+  brand?: string
+  gender?: string
+}
+
+export default function WatchButton({
+  productId,
+  sizes,
+  selectedSize,
+  sizeSystem,
+  brand,
+  gender
+}: WatchButtonProps) {
+  const { user } = useAuth()
+  const { rate, currency } = usePricing()
+  const [size, setSize] = useState('')
+  const [targetPrice, setTargetPrice] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null)
+
+  // Follow the size picked for the cart; sold-out sizes can still be chosen here to wait for a restock
+  useEffect(() => {
+    if (selectedSize) setSize(selectedSize)
+  }, [selectedSize])
+
+  if (!user) {
+    return (
+      <p className="text-sm text-gray-600">
+        <Link href="/login" className="text-blue-600 hover:underline">Sign in</Link> to watch this product for price drops and restocks.
+      </p>
+    )
+  }
+
+  const handleWatch = async () => {
+    const target = targetPrice.trim()
+    // Targets are typed in the shopper's currency and stored in the base currency
+    const baseTarget = target === '' ? null : Math.round((Number(target) / rate) * 100) / 100
+    if (baseTarget !== null && !(baseTarget > 0)) {
+      setMessage({ text: 'The target price must be a positive amount', ok: false })
+      return
+    }
+
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/watchlist', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ productId, size: size || null, targetPrice: baseTarget })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to watch product')
+      }
+
+      setMessage({ text: 'Added to your watchlist', ok: true })
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to watch product', ok: false })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900">Watch this product</h3>
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={size}
+          onChange={(e) => setSize(e.target.value)}
+          className="text-sm border border-gray-300 rounded-md px-2 py-1"
+          aria-label="Watched size"
+        >
+          <option value="">Any size</option>
+          {sizes.map((option) => (
+            <option key={option.size} value={option.size}>
+              {formatSize(option.size, sizeSystem, { brand, gender })}{option.available ? '' : ' (sold out)'}
+            </option>
+          ))}
+        </select>
+        <input
+          value={targetPrice}
+          onChange={(e) => setTargetPrice(e.target.value)}
+          placeholder={`Target price (${currency}, optional)`}
+          className="text-sm border border-gray-300 rounded-md px-2 py-1 flex-1 min-w-[10rem]"
+        />
+        <button
+          onClick={handleWatch}
+          disabled={isSaving}
+          className="px-4 py-1 text-sm border border-gray-900 rounded-md hover:bg-gray-100 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Watch'}
+        </button>
+      </div>
+      {message && (
+        <p className={`text-sm ${message.ok ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+          {message.ok && (
+            <>
+              {' · '}
+              <Link href="/watchlist" className="text-blue-600 hover:underline">View watchlist</Link>
+            </>
+          )}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/AuthContext'
+import { notificationSystem } from '@/services/realtime/notification-system'
+import type { UserNotification } from '@/types/watchlist'
+
+/**
+ * Shows watchlist alerts as they are delivered to the signed-in user's notification feed
+ */
+export function WatchlistAlertListener() {
+  const { user } = useAuth()
+
+  useEffect(() => {
+    if (!user) return
+
+    const channel = supabase
+      .channel(`user-notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'user_notifications',
+          filter: `user_id=eq.${user.id}`
+        },
+        (payload) => {
+          notificationSystem.notifyWatchlistAlert(payload.new as UserNotification)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user])
+
+  return null
+}
@@ -5,8 +5,10 @@ import { supabase as supabaseClient } from '@/lib/supabase/client'
 import { useAuth } from '@/contexts/AuthContext'
 import { InventoryService } from '@/services/inventory'
 import { useCartStockMonitor } from '@/hooks/useRealTimeStock'
+import { getCartSessionId } from '@/hooks/useCart'
 import type { CartItem, Cart, CartActions, CartContextType } from '@/types/cart'
 import type { Product } from '@/services/products'
+import type { CartDiscount } from '@/types/promotion'
 
 type CartAction =
   | { type: 'ADD_ITEM'; payload: { product: Product; size: string; quantity: number } }
@@ -17,14 +19,40 @@ type CartAction =
   | { type: 'SET_LOADING'; payload: { loading: boolean } }
   | { type: 'SET_STOCK_STATUS'; payload: { productId: string; size: string; available: boolean; availableQuantity: number } }
   | { type: 'SET_STOCK_WARNINGS'; payload: { warnings: Array<{ itemId: string; message: string; severity: 'low' | 'out' }> } }
+  | { type: 'SET_DISCOUNT'; payload: { code: string | null; discount: CartDiscount | null; error?: string | null } }
 
 const STORAGE_KEY = 'sneaksx-cart'
+const DISCOUNT_STORAGE_KEY = 'sneaksx-cart-discount'
 
 interface CartState {
   items: CartItem[]
   loading: boolean
   stockStatus: Record<string, { available: boolean; availableQuantity: number }>
   stockWarnings: Array<{ itemId: string; message: string; severity: 'low' | 'out' }>
+  discountCode: string | null
+  discount: CartDiscount | null
+  discountError: string | null
+}
+
+// Discount a code gives these items; the server prices it again at checkout
+async function fetchCartDiscount(code: string, items: CartItem[]): Promise<CartDiscount> {
+  const response = await fetch('/api/checkout/discount', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      code,
+      items: items.map(item => ({ productId: item.productId, quantity: item.quantity }))
+    })
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Invalid discount code')
+  }
+
+  return data.discount
 }
 
 function cartReducer(state: CartState, action: CartAction): CartState {
@@ -79,7 +107,7 @@ function cartReducer(state: CartState, action: CartAction): CartState {
     }
 
     case 'CLEAR_CART':
-      return { ...state, items: [] }
+      return { ...state, items: [], discountCode: null, discount: null, discountError: null }
 
     case 'LOAD_CART':
       return { ...state, items: action.payload.items }
@@ -105,6 +133,14 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         stockWarnings: action.payload.warnings
       }
 
+    case 'SET_DISCOUNT':
+      return {
+        ...state,
+        discountCode: action.payload.code,
+        discount: action.payload.discount,
+        discountError: action.payload.error ?? null
+      }
+
     default:
       return state
   }
@@ -115,6 +151,8 @@ const CartContext = createContext<CartContextType>({
     items: [],
     totalItems: 0,
     totalPrice: 0,
+    discount: null,
+    discountError: null,
     updatedAt: new Date().toISOString(),
   },
   loading: true,
@@ -126,6 +164,8 @@ const CartContext = createContext<CartContextType>({
     getItemByProductAndSize: () => undefined,
     getStockStatus: () => ({ available: false, availableQuantity: 0 }),
     validateCart: async () => {},
+    applyDiscountCode: async () => {},
+    removeDiscountCode: () => {},
   },
   stockWarnings: [],
   stockConnected: false,
@@ -137,7 +177,10 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     items: [],
     loading: true,
     stockStatus: {},
-    stockWarnings: []
+    stockWarnings: [],
+    discountCode: null,
+    discount: null,
+    discountError: null
   })
   const { user } = useAuth()
   const supabase = supabaseClient
@@ -204,6 +247,11 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           dispatch({ type: 'LOAD_CART', payload: { items: parsedCart } })
         }
 
+        const savedCode = localStorage.getItem(DISCOUNT_STORAGE_KEY)
+        if (savedCode) {
+          dispatch({ type: 'SET_DISCOUNT', payload: { code: savedCode, discount: null } })
+        }
+
         // Then sync with Supabase if user is logged in
         if (user) {
           await syncCartFromSupabase()
@@ -228,13 +276,37 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         console.error('Failed to save cart to localStorage:', error)
       }
 
-      // Sync to Supabase if user is logged in
-      if (user) {
-        syncCartToSupabase()
-      }
+      // Sync to Supabase; guests' carts are saved under their cart session for guest checkout
+      syncCartToSupabase()
     }
   }, [state.items, state.loading, user])
 
+  // Price the applied code again whenever the cart changes; it is removed once it no longer applies
+  const cartKey = state.items.map(item => `${item.productId}:${item.size}:${item.quantity}`).join(',')
+  useEffect(() => {
+    const code = state.discountCode
+    if (state.loading || !code || state.items.length === 0) return
+
+    let cancelled = false
+
+    fetchCartDiscount(code, state.items)
+      .then(discount => {
+        if (!cancelled) dispatch({ type: 'SET_DISCOUNT', payload: { code, discount } })
+      })
+      .catch(error => {
+        if (cancelled) return
+        localStorage.removeItem(DISCOUNT_STORAGE_KEY)
+        dispatch({
+          type: 'SET_DISCOUNT',
+          payload: { code: null, discount: null, error: `${code} was removed: ${error instanceof Error ? error.message : 'it no longer applies'}` }
+        })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [cartKey, state.loading])
+
   // Sync cart from Supabase
   async function syncCartFromSupabase() {
     if (!user) return
@@ -296,20 +368,30 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  // Sync cart to Supabase
+  // Sync cart to Supabase, for the user or, signed out, for the cart session
   async function syncCartToSupabase() {
-    if (!user || state.items.length === 0) return
+    if (state.items.length === 0) return
+
+    const sessionId = getCartSessionId()
 
     try {
-      // Delete existing cart items for this user
-      await supabase
-        .from('shopping_cart')
-        .delete()
-        .eq('user_id', user.id)
+      // Delete existing cart items for this user or guest session
+      if (user) {
+        await supabase
+          .from('shopping_cart')
+          .delete()
+          .eq('user_id', user.id)
+      } else {
+        await supabase
+          .from('shopping_cart')
+          .delete()
+          .eq('session_id', sessionId)
+          .is('user_id', null)
+      }
 
       // Insert current cart items
       const cartData = state.items.map(item => ({
-        user_id: user.id,
+        ...(user ? { user_id: user.id } : { session_id: sessionId }),
         product_id: item.productId,
         size: item.size,
         quantity: item.quantity,
@@ -361,9 +443,11 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       items: state.items,
       totalItems,
       totalPrice,
+      discount: state.discount,
+      discountError: state.discountError,
       updatedAt: new Date().toISOString(),
     }
-  }, [state.items])
+  }, [state.items, state.discount, state.discountError])
 
   const actions = useMemo((): CartActions => ({
     addItem: async (product: Product, size: string, quantity = 1) => {
@@ -371,7 +455,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         // Check stock availability first
         const availability = await InventoryService.checkStockAvailability([
           { productId: product.id, size, quantity }
-        ])
+        ], { userId: user?.id })
 
         const stockInfo = availability[0]
         if (!stockInfo.isAvailable) {
@@ -388,7 +472,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           // Validate total quantity after addition
           const totalAvailability = await InventoryService.checkStockAvailability([
             { productId: product.id, size, quantity: newQuantity }
-          ])
+          ], { userId: user?.id })
 
           if (!totalAvailability[0].isAvailable) {
             throw new Error(`Only ${stockInfo.availableQuantity} items available in size ${size}`)
@@ -442,6 +526,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     },
 
     clearCart: () => {
+      localStorage.removeItem(DISCOUNT_STORAGE_KEY)
       dispatch({ type: 'CLEAR_CART' })
     },
 
@@ -459,7 +544,19 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     validateCart: async () => {
       await validateCartStock(state.items)
     },
-  }), [state.items, state.stockStatus, validateCartStock])
+
+    // Throws with the reason when the code does not apply to this cart
+    applyDiscountCode: async (code: string) => {
+      const discount = await fetchCartDiscount(code, state.items)
+      localStorage.setItem(DISCOUNT_STORAGE_KEY, discount.code)
+      dispatch({ type: 'SET_DISCOUNT', payload: { code: discount.code, discount } })
+    },
+
+    removeDiscountCode: () => {
+      localStorage.removeItem(DISCOUNT_STORAGE_KEY)
+      dispatch({ type: 'SET_DISCOUNT', payload: { code: null, discount: null } })
+    },
+  }), [state.items, state.stockStatus, validateCartStock, user])
 
   const value = useMemo(() => ({
     cart,
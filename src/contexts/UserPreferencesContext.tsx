@@ -3,15 +3,17 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, useReducer } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase/client'
+import type { SizeSystem } from '@/lib/sizing'
+import type { Currency } from '@/types/pricing'
 
 // Currency options
-export type Currency = 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD' | 'JPY'
+export type { Currency }
 
 // Language options
 export type Language = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'ja' | 'ko'
 
 // Size preference (US, UK, EU, etc.)
-export type SizeSystem = 'US' | 'UK' | 'EU' | 'CM' | 'JP'
+export type { SizeSystem }
 
 // Layout preferences
 export type GridLayout = 'grid' | 'list' | 'compact'
@@ -526,6 +528,11 @@ export const useLanguage = () => {
   return { language: preferences.language, setLanguage }
 }
 
+export const useSizeSystem = () => {
+  const { preferences, setSizeSystem } = useUserPreferences()
+  return { sizeSystem: preferences.sizeSystem, setSizeSystem }
+}
+
 export const useGridLayout = () => {
   const { preferences, setGridLayout } = useUserPreferences()
   return { gridLayout: preferences.gridLayout, setGridLayout }
@@ -395,9 +395,9 @@ export function useApplyDiscount(
   return useMutation({
     mutationFn: ({ code, sessionId }) =>
       ecommerceService.applyDiscountCode(code, sessionId),
-    onSuccess: (data) => {
+    onSuccess: (data, { sessionId }) => {
       // Update cart summary with discount applied
-      queryClient.setQueryData(cartQueryKeys.summary(), data);
+      queryClient.setQueryData([...cartQueryKeys.summary(), sessionId], data);
       toast.success('Discount applied successfully');
     },
     onError: (error) => {
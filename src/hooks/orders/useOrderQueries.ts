@@ -15,7 +15,7 @@ import {
 } from '@tanstack/react-query';
 import { OrderService } from '@/services/orders';
 import { ecommerceService } from '@/services/api/ecommerce';
-import type { Order, OrderItem, CheckoutData, OrderStatus } from '@/types/order';
+import type { Order, OrderItem, CheckoutData, OrderStatus, OrderTracking } from '@/types/order';
 import type { CheckoutRequest, CheckoutResponse } from '@/services/api/ecommerce';
 import { STALE_TIME, CACHE_TIME } from '@/lib/react-query/config';
 import { toast } from 'sonner';
@@ -152,17 +152,7 @@ export function useOrderStats(
  */
 export function useOrderTracking(
   orderId: string | undefined,
-  options?: UseQueryOptions<{
-    status: OrderStatus;
-    trackingNumber?: string;
-    estimatedDelivery?: string;
-    updates: Array<{
-      status: string;
-      timestamp: string;
-      location?: string;
-      description: string;
-    }>;
-  }, Error>
+  options?: UseQueryOptions<OrderTracking, Error>
 ) {
   return useQuery({
     queryKey: orderQueryKeys.tracking(orderId!),
@@ -380,7 +370,8 @@ export function useRequestRefund(
 export function useCanCancelOrder(order?: Order) {
   if (!order) return false;
 
-  const cancellableStatuses: OrderStatus[] = ['pending', 'processing', 'confirmed'];
+  // Paid orders are refunded rather than cancelled (see lib/orders)
+  const cancellableStatuses: OrderStatus[] = ['pending'];
   const hoursSinceOrder =
     (Date.now() - new Date(order.createdAt).getTime()) / (1000 * 60 * 60);
 
@@ -17,8 +17,8 @@ export const cartKeys = {
   items: (sessionId: string, userId?: string) => [...cartKeys.all, 'items', sessionId, userId] as const,
 }
 
-// Generate or retrieve session ID
-function getSessionId(): string {
+// Generate or retrieve the cart session ID; guest carts are saved and checked out under it
+export function getCartSessionId(): string {
   if (typeof window === 'undefined') return 'ssr-session'
 
   let sessionId = localStorage.getItem('cart_session_id')
@@ -32,7 +32,7 @@ function getSessionId(): string {
 // Get cart contents with intelligent caching
 export function useCart() {
   const { user } = useAuth()
-  const sessionId = getSessionId()
+  const sessionId = getCartSessionId()
 
   return useQuery({
     queryKey: cartKeys.summary(sessionId, user?.id),
@@ -50,7 +50,7 @@ export function useCart() {
 // Validate cart contents
 export function useCartValidation() {
   const { user } = useAuth()
-  const sessionId = getSessionId()
+  const sessionId = getCartSessionId()
 
   return useQuery({
     queryKey: cartKeys.validation(sessionId, user?.id),
@@ -66,7 +66,7 @@ export function useCartValidation() {
 export function useAddToCart() {
   const queryClient = useQueryClient()
   const { user } = useAuth()
-  const sessionId = getSessionId()
+  const sessionId = getCartSessionId()
 
   return useMutation({
     mutationFn: (request: Omit<AddToCartRequest, 'sessionId' | 'userId'>) =>
@@ -135,7 +135,7 @@ export function useAddToCart() {
 export function useUpdateCartItem() {
   const queryClient = useQueryClient()
   const { user } = useAuth()
-  const sessionId = getSessionId()
+  const sessionId = getCartSessionId()
 
   return useMutation({
     mutationFn: (request: UpdateCartItemRequest) => ecommerceService.updateCartItem(request),
@@ -190,7 +190,7 @@ export function useUpdateCartItem() {
 export function useRemoveFromCart() {
   const queryClient = useQueryClient()
   const { user } = useAuth()
-  const sessionId = getSessionId()
+  const sessionId = getCartSessionId()
 
   return useMutation({
     mutationFn: (cartItemId: string) => ecommerceService.removeFromCart(cartItemId),
@@ -241,7 +241,7 @@ export function useRemoveFromCart() {
 export function useClearCart() {
   const queryClient = useQueryClient()
   const { user } = useAuth()
-  const sessionId = getSessionId()
+  const sessionId = getCartSessionId()
 
   return useMutation({
     mutationFn: () => ecommerceService.clearCart(sessionId, user?.id),
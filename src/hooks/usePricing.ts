@@ -0,0 +1,46 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useCurrency } from '@/contexts/UserPreferencesContext'
+import { PricingService, BASE_CURRENCY } from '@/services/pricing'
+import type { Currency, FxRateTable } from '@/types/pricing'
+
+/**
+ * Prices in the user's preferred currency. Falls back to the base currency
+ * until rates load or when the preferred currency has no stored rate.
+ */
+export function usePricing() {
+  const { currency: preferredCurrency } = useCurrency()
+  const [rates, setRates] = useState<FxRateTable | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    PricingService.getRates()
+      .then(table => {
+        if (!cancelled) setRates(table)
+      })
+      .catch(error => console.error('Error loading FX rates:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const rate = rates?.rates[preferredCurrency]?.rate
+  const currency: Currency = rate ? preferredCurrency : BASE_CURRENCY
+
+  const convert = useCallback((amount: number) => {
+    return rate ? PricingService.convert(amount, rate, currency) : amount
+  }, [rate, currency])
+
+  const formatPrice = useCallback((amount: number) => {
+    return PricingService.formatPrice(convert(amount), currency)
+  }, [convert, currency])
+
+  return { currency, rate: rate || 1, rates, loading, convert, formatPrice }
+}
@@ -136,7 +136,7 @@ export function useSearchProducts(query: string, limit = 20) {
         query,
         { page: 1, limit },
         {},
-        { field: 'name', direction: 'asc' }
+        { field: 'relevance', direction: 'desc' }
       )
       if (response.error) throw response.error
       return response.data!.products
@@ -99,6 +99,8 @@ export function useRealTimeOrders() {
     switch (update.newStatus) {
       case 'processing':
         return 'Your order is being processed'
+      case 'partially_shipped':
+        return 'Part of your order has been shipped'
       case 'shipped':
         return 'Your order has been shipped'
       case 'delivered':
@@ -116,6 +118,8 @@ export function useRealTimeOrders() {
         return 'bg-yellow-100 text-yellow-800'
       case 'processing':
         return 'bg-blue-100 text-blue-800'
+      case 'partially_shipped':
+        return 'bg-indigo-100 text-indigo-800'
       case 'shipped':
         return 'bg-gray-100 text-gray-800'
       case 'delivered':
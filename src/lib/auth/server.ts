@@ -102,4 +102,13 @@ export const getSupabaseServerProfile = async () => {
     console.error('Error in getSupabaseServerProfile:', error);
     return null;
   }
-};
\ No newline at end of file
+};
+export const getSupabaseServerAdmin = async () => {
+  const profile = await getSupabaseServerProfile();
+
+  if (!profile || (profile as { role?: string }).role !== 'admin') {
+    return null;
+  }
+
+  return profile;
+};
@@ -0,0 +1,212 @@
+import {
+  CarrierError,
+  FetchCarrierClient,
+  toTrackingResult,
+  type CarrierAdapter,
+  type CarrierClient,
+  type CarrierCode,
+  type TrackingEvent,
+  type TrackingResult,
+  type TrackingStatus,
+} from './carrier';
+
+/**
+ * Shared request/response handling; each carrier supplies its endpoint and response parsing
+ */
+abstract class HttpCarrierAdapter implements CarrierAdapter {
+  abstract readonly code: CarrierCode;
+  abstract readonly name: string;
+
+  constructor(protected readonly client: CarrierClient = new FetchCarrierClient()) {}
+
+  abstract trackingUrl(trackingNumber: string): string;
+
+  /** Endpoint and auth headers for one tracking number; throws not_configured without credentials */
+  protected abstract request(trackingNumber: string): { url: string; headers: Record<string, string> };
+
+  /** Events and estimated delivery from the carrier's response body */
+  abstract parse(body: unknown): { events: TrackingEvent[]; estimatedDelivery: string | null };
+
+  async track(trackingNumber: string): Promise<TrackingResult> {
+    let body: unknown | null;
+    try {
+      body = await this.client.getJson(this.request(trackingNumber));
+    } catch (error) {
+      if (error instanceof CarrierError) throw error;
+      throw new CarrierError(
+        error instanceof Error ? error.message : `${this.name} tracking request failed`,
+        'request_failed',
+        this.code
+      );
+    }
+
+    if (body === null) return toTrackingResult(trackingNumber, []);
+
+    try {
+      const { events, estimatedDelivery } = this.parse(body);
+      return toTrackingResult(trackingNumber, events, estimatedDelivery);
+    } catch (error) {
+      throw new CarrierError(
+        `Unexpected ${this.name} tracking response: ${error instanceof Error ? error.message : error}`,
+        'invalid_response',
+        this.code
+      );
+    }
+  }
+
+  protected requireKey(envName: string): string {
+    const key = process.env[envName];
+    if (!key) {
+      throw new CarrierError(`${envName} is not set`, 'not_configured', this.code);
+    }
+    return key;
+  }
+}
+
+/**
+ * DHL Shipment Tracking - Unified API
+ */
+export class DhlCarrierAdapter extends HttpCarrierAdapter {
+  readonly code = 'dhl' as const;
+  readonly name = 'DHL';
+
+  trackingUrl(trackingNumber: string): string {
+    return `https://www.dhl.com/global-en/home/tracking/tracking-express.html?tracking-id=${encodeURIComponent(trackingNumber)}`;
+  }
+
+  protected request(trackingNumber: string) {
+    return {
+      url: `https://api-eu.dhl.com/track/shipments?trackingNumber=${encodeURIComponent(trackingNumber)}`,
+      headers: { 'DHL-API-Key': this.requireKey('DHL_API_KEY') },
+    };
+  }
+
+  parse(body: unknown) {
+    const shipment = (body as { shipments?: any[] }).shipments?.[0];
+    if (!shipment) return { events: [], estimatedDelivery: null };
+
+    const STATUS: Record<string, TrackingStatus> = {
+      'pre-transit': 'label_created',
+      transit: 'in_transit',
+      delivered: 'delivered',
+      failure: 'exception',
+    };
+
+    return {
+      events: (shipment.events || []).map((event: any): TrackingEvent => ({
+        status: /out for delivery/i.test(event.description || '')
+          ? 'out_for_delivery'
+          : STATUS[event.statusCode] || 'in_transit',
+        description: event.description || event.status || 'Status update',
+        location: event.location?.address?.addressLocality || null,
+        occurredAt: new Date(event.timestamp).toISOString(),
+      })),
+      estimatedDelivery: shipment.estimatedTimeOfDelivery || null,
+    };
+  }
+}
+
+/**
+ * UPS Tracking API; UPS_ACCESS_TOKEN is an OAuth token refreshed outside the app
+ */
+export class UpsCarrierAdapter extends HttpCarrierAdapter {
+  readonly code = 'ups' as const;
+  readonly name = 'UPS';
+
+  trackingUrl(trackingNumber: string): string {
+    return `https://www.ups.com/track?tracknum=${encodeURIComponent(trackingNumber)}`;
+  }
+
+  protected request(trackingNumber: string) {
+    return {
+      url: `https://onlinetools.ups.com/api/track/v1/details/${encodeURIComponent(trackingNumber)}`,
+      headers: {
+        Authorization: `Bearer ${this.requireKey('UPS_ACCESS_TOKEN')}`,
+        transId: `sneaksx-${Date.now()}`,
+        transactionSrc: 'sneaksx',
+      },
+    };
+  }
+
+  parse(body: unknown) {
+    const pkg = (body as any).trackResponse?.shipment?.[0]?.package?.[0];
+    if (!pkg) return { events: [], estimatedDelivery: null };
+
+    // UPS status types: M manifest, I in transit, O out for delivery, D delivered, X exception
+    const STATUS: Record<string, TrackingStatus> = {
+      M: 'label_created',
+      P: 'in_transit',
+      I: 'in_transit',
+      O: 'out_for_delivery',
+      D: 'delivered',
+      X: 'exception',
+      RS: 'exception',
+    };
+
+    const parseDate = (date: string, time = '000000') =>
+      `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}Z`;
+
+    const delivery = (pkg.deliveryDate || []).find((entry: any) => entry.type === 'SDD' || entry.type === 'RDD');
+
+    return {
+      events: (pkg.activity || []).map((activity: any): TrackingEvent => {
+        const address = activity.location?.address;
+        return {
+          status: STATUS[activity.status?.type] || 'in_transit',
+          description: activity.status?.description?.trim() || 'Status update',
+          location: address ? [address.city, address.country].filter(Boolean).join(', ') || null : null,
+          occurredAt: parseDate(activity.date, activity.time),
+        };
+      }),
+      estimatedDelivery: delivery ? parseDate(delivery.date).slice(0, 10) : null,
+    };
+  }
+}
+
+/**
+ * La Poste Suivi API; Colissimo parcels are tracked through the same API
+ */
+export class LaPosteCarrierAdapter extends HttpCarrierAdapter {
+  readonly code: CarrierCode = 'la_poste';
+  readonly name: string = 'La Poste';
+
+  trackingUrl(trackingNumber: string): string {
+    return `https://www.laposte.fr/outils/suivre-vos-envois?code=${encodeURIComponent(trackingNumber)}`;
+  }
+
+  protected request(trackingNumber: string) {
+    return {
+      url: `https://api.laposte.fr/suivi/v2/idships/${encodeURIComponent(trackingNumber)}?lang=en_GB`,
+      headers: { 'X-Okapi-Key': this.requireKey('LAPOSTE_API_KEY') },
+    };
+  }
+
+  parse(body: unknown) {
+    const shipment = (body as any).shipment;
+    if (!shipment) return { events: [], estimatedDelivery: null };
+
+    // Event codes: DR1 declared, PC/ET/EP in transit, MD2 out for delivery, DI delivered, ND/AG/RE problems
+    const statusFor = (code: string): TrackingStatus => {
+      if (code.startsWith('DR')) return 'label_created';
+      if (code.startsWith('MD')) return 'out_for_delivery';
+      if (code.startsWith('DI')) return 'delivered';
+      if (code.startsWith('ND') || code.startsWith('AG') || code.startsWith('RE')) return 'exception';
+      return 'in_transit';
+    };
+
+    return {
+      events: (shipment.event || []).map((event: any): TrackingEvent => ({
+        status: statusFor(String(event.code || '')),
+        description: event.label || 'Status update',
+        location: null,
+        occurredAt: new Date(event.date).toISOString(),
+      })),
+      estimatedDelivery: shipment.estimDate || null,
+    };
+  }
+}
+
+export class ColissimoCarrierAdapter extends LaPosteCarrierAdapter {
+  readonly code: CarrierCode = 'colissimo';
+  readonly name: string = 'Colissimo';
+}
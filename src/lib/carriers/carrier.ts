@@ -0,0 +1,103 @@
+/**
+ * Carrier tracking abstraction
+ * Shipments are tracked through a carrier adapter: it builds the public tracking URL and turns the
+ * carrier's tracking response into normalized events. The HTTP call itself goes through a
+ * CarrierClient, so tests and local development can swap it out.
+ */
+
+export type CarrierCode = 'dhl' | 'ups' | 'colissimo' | 'la_poste' | 'fake';
+
+export type TrackingStatus =
+  | 'label_created'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception';
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  description: string;
+  location: string | null;
+  /** ISO timestamp reported by the carrier */
+  occurredAt: string;
+}
+
+export interface TrackingResult {
+  trackingNumber: string;
+  /** Status of the latest event; label_created when the carrier has no events yet */
+  status: TrackingStatus;
+  /** Oldest first */
+  events: TrackingEvent[];
+  estimatedDelivery: string | null;
+}
+
+export interface CarrierRequest {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Transport used by the adapters. Returns the parsed JSON body, or null when the carrier does not
+ * know the tracking number (yet).
+ */
+export interface CarrierClient {
+  getJson(request: CarrierRequest): Promise<unknown | null>;
+}
+
+export interface CarrierAdapter {
+  readonly code: CarrierCode;
+  /** Name shown to customers and admins */
+  readonly name: string;
+  trackingUrl(trackingNumber: string): string;
+  track(trackingNumber: string): Promise<TrackingResult>;
+}
+
+export class CarrierError extends Error {
+  constructor(
+    message: string,
+    public code: 'not_configured' | 'request_failed' | 'invalid_response',
+    public carrier: CarrierCode
+  ) {
+    super(message);
+    this.name = 'CarrierError';
+  }
+}
+
+/**
+ * CarrierClient over fetch; non-2xx responses other than 404 are errors
+ */
+export class FetchCarrierClient implements CarrierClient {
+  constructor(private readonly timeoutMs = 10000) {}
+
+  async getJson(request: CarrierRequest): Promise<unknown | null> {
+    const response = await fetch(request.url, {
+      headers: { Accept: 'application/json', ...(request.headers || {}) },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Carrier responded ${response.status} for ${request.url}`);
+    }
+
+    return response.json();
+  }
+}
+
+/**
+ * Build a result from events in any order; the latest event decides the status
+ */
+export function toTrackingResult(
+  trackingNumber: string,
+  events: TrackingEvent[],
+  estimatedDelivery: string | null = null
+): TrackingResult {
+  const sorted = [...events].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+  return {
+    trackingNumber,
+    status: sorted.length > 0 ? sorted[sorted.length - 1].status : 'label_created',
+    events: sorted,
+    estimatedDelivery,
+  };
+}
@@ -0,0 +1,80 @@
+import { toTrackingResult, type CarrierAdapter, type TrackingEvent, type TrackingResult, type TrackingStatus } from './carrier';
+
+export interface FakeCarrierOptions {
+  /** Clock for events added without a timestamp */
+  now?: () => Date;
+}
+
+/**
+ * In-memory carrier for local development and tests.
+ *
+ * Tracking numbers start with no events (label created). Tests script what the carrier reports with
+ * advance() or script(); unknown tracking numbers are accepted like a real carrier that has not
+ * scanned the parcel yet. Pass failures with fail() to simulate an outage for one number.
+ */
+export class FakeCarrierAdapter implements CarrierAdapter {
+  readonly code = 'fake' as const;
+  readonly name = 'Test Carrier';
+  private readonly events = new Map<string, TrackingEvent[]>();
+  private readonly failures = new Set<string>();
+  private readonly now: () => Date;
+
+  constructor(options: FakeCarrierOptions = {}) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  trackingUrl(trackingNumber: string): string {
+    return `https://carrier.test/track/${encodeURIComponent(trackingNumber)}`;
+  }
+
+  async track(trackingNumber: string): Promise<TrackingResult> {
+    if (this.failures.has(trackingNumber)) {
+      throw new Error(`Test carrier is unavailable for ${trackingNumber}`);
+    }
+
+    return toTrackingResult(trackingNumber, this.events.get(trackingNumber) || []);
+  }
+
+  /**
+   * Report a new scan for the tracking number
+   */
+  advance(
+    trackingNumber: string,
+    status: TrackingStatus,
+    details: { description?: string; location?: string; occurredAt?: Date } = {}
+  ): void {
+    const events = this.events.get(trackingNumber) || [];
+    events.push({
+      status,
+      description: details.description ?? DEFAULT_DESCRIPTIONS[status],
+      location: details.location ?? null,
+      occurredAt: (details.occurredAt ?? this.now()).toISOString(),
+    });
+    this.events.set(trackingNumber, events);
+  }
+
+  /**
+   * Replace everything reported for the tracking number
+   */
+  script(trackingNumber: string, events: TrackingEvent[]): void {
+    this.events.set(trackingNumber, [...events]);
+  }
+
+  fail(trackingNumber: string, failing = true): void {
+    if (failing) this.failures.add(trackingNumber);
+    else this.failures.delete(trackingNumber);
+  }
+
+  reset(): void {
+    this.events.clear();
+    this.failures.clear();
+  }
+}
+
+const DEFAULT_DESCRIPTIONS: Record<TrackingStatus, string> = {
+  label_created: 'Shipping label created',
+  in_transit: 'Parcel in transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery problem reported',
+};
@@ -0,0 +1,86 @@
+/**
+ * Carrier tracking - Export all components
+ */
+export { CarrierError, FetchCarrierClient, toTrackingResult } from './carrier';
+export type {
+  CarrierAdapter,
+  CarrierClient,
+  CarrierCode,
+  CarrierRequest,
+  TrackingEvent,
+  TrackingResult,
+  TrackingStatus,
+} from './carrier';
+export { DhlCarrierAdapter, UpsCarrierAdapter, LaPosteCarrierAdapter, ColissimoCarrierAdapter } from './adapters';
+export { FakeCarrierAdapter } from './fake-carrier';
+export type { FakeCarrierOptions } from './fake-carrier';
+export { isShipmentStuck, resolveCarrierCode, STUCK_SHIPMENT_HOURS, TRACKING_STATUS_LABELS } from './tracking';
+
+// Re-export types
+export type { TrackedShipment } from './tracking';
+
+import type { CarrierAdapter, CarrierCode } from './carrier';
+import { DhlCarrierAdapter, UpsCarrierAdapter, LaPosteCarrierAdapter, ColissimoCarrierAdapter } from './adapters';
+import { FakeCarrierAdapter } from './fake-carrier';
+
+/** Carriers admins can pick when shipping; the fake carrier is only offered outside production */
+export const CARRIERS: Array<{ code: CarrierCode; name: string }> = [
+  { code: 'dhl', name: 'DHL' },
+  { code: 'ups', name: 'UPS' },
+  { code: 'colissimo', name: 'Colissimo' },
+  { code: 'la_poste', name: 'La Poste' },
+  ...(process.env.NODE_ENV === 'production' ? [] : [{ code: 'fake' as const, name: 'Test Carrier' }]),
+];
+
+// Kept on globalThis so the fake carrier's scripted events survive module reloads in development
+const globalForCarriers = globalThis as unknown as { carrierAdapters?: Map<CarrierCode, CarrierAdapter> };
+
+/**
+ * Adapter for a carrier. With CARRIER_TRACKING=fake every carrier is tracked through the
+ * in-memory fake carrier, for local development without carrier credentials.
+ */
+export function getCarrierAdapter(code: CarrierCode): CarrierAdapter {
+  if (!globalForCarriers.carrierAdapters) {
+    globalForCarriers.carrierAdapters = new Map();
+  }
+
+  const adapters = globalForCarriers.carrierAdapters;
+  const key: CarrierCode = process.env.CARRIER_TRACKING === 'fake' ? 'fake' : code;
+  if (!adapters.has(key)) {
+    adapters.set(key, createCarrierAdapter(key));
+  }
+  return adapters.get(key)!;
+}
+
+/**
+ * Replace the adapter for a carrier, e.g. with a fake carrier in tests
+ */
+export function setCarrierAdapter(code: CarrierCode, adapter: CarrierAdapter): void {
+  if (!globalForCarriers.carrierAdapters) {
+    globalForCarriers.carrierAdapters = new Map();
+  }
+  globalForCarriers.carrierAdapters.set(code, adapter);
+}
+
+export function createCarrierAdapter(code: CarrierCode): CarrierAdapter {
+  switch (code) {
+    case 'dhl':
+      return new DhlCarrierAdapter();
+    case 'ups':
+      return new UpsCarrierAdapter();
+    case 'colissimo':
+      return new ColissimoCarrierAdapter();
+    case 'la_poste':
+      return new LaPosteCarrierAdapter();
+    case 'fake':
+      return new FakeCarrierAdapter();
+  }
+}
+
+/**
+ * Public tracking page for a shipment; safe to call in the browser, no credentials involved
+ */
+export function trackingUrlFor(code: CarrierCode | null, trackingNumber: string): string | null {
+  if (!code || !trackingNumber) return null;
+  return createCarrierAdapter(code).trackingUrl(trackingNumber);
+}
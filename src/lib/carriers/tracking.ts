@@ -0,0 +1,55 @@
+/**
+ * Shipment tracking rules shared by the poller, the admin screens and the customer orders page
+ */
+
+import type { CarrierCode, TrackingStatus } from './carrier';
+
+/** Hours without a new carrier event before an undelivered shipment counts as stuck */
+export const STUCK_SHIPMENT_HOURS = 72;
+
+export interface TrackedShipment {
+  trackingStatus: TrackingStatus | null;
+  /** Latest carrier event, or null before the carrier has scanned the parcel */
+  lastEventAt: string | null;
+  shippedAt: string;
+}
+
+/**
+ * A shipment is stuck when the carrier reports a delivery problem, or when nothing has moved for
+ * STUCK_SHIPMENT_HOURS since the last event (or since it shipped, if the carrier never scanned it)
+ */
+export function isShipmentStuck(
+  shipment: TrackedShipment,
+  now: Date = new Date(),
+  thresholdHours: number = STUCK_SHIPMENT_HOURS
+): boolean {
+  if (shipment.trackingStatus === 'delivered') return false;
+  if (shipment.trackingStatus === 'exception') return true;
+
+  const since = new Date(shipment.lastEventAt || shipment.shippedAt).getTime();
+  return now.getTime() - since > thresholdHours * 60 * 60 * 1000;
+}
+
+const CARRIER_NAMES: Array<[RegExp, CarrierCode]> = [
+  [/\bdhl\b/i, 'dhl'],
+  [/\bups\b/i, 'ups'],
+  [/colissimo/i, 'colissimo'],
+  [/la\s*poste/i, 'la_poste'],
+];
+
+/**
+ * Carrier for a name typed in by an admin or taken from a shipping rate, e.g. "DHL Express";
+ * null when the carrier is not one we can track
+ */
+export function resolveCarrierCode(name: string | null | undefined): CarrierCode | null {
+  if (!name) return null;
+  return CARRIER_NAMES.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+}
+
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  label_created: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery problem',
+};
@@ -1,5 +1,19 @@
 import { createClient } from '@supabase/supabase-js';
-import type { DBProduct, DBBrand, DBSyncLog, DBSyncError } from '@/types/database';
+import type {
+  DBProduct,
+  DBBrand,
+  DBSyncLog,
+  DBSyncError,
+  DBProductMarket,
+  DBProductImage,
+  DBProductSize,
+  DBProductListing,
+  DBProductMatchReview,
+  ProductMatchReviewStatus,
+  SyncJobType,
+  SyncCheckpoint,
+} from '@/types/database';
+import type { ProductMatchCandidate } from '@/lib/sync/product-matcher';
 
 // Supabase client configuration
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -101,6 +115,7 @@ export class DatabaseService {
         items_processed: 0,
         items_created: 0,
         items_updated: 0,
+        items_unchanged: 0,
         items_failed: 0,
       })
       .select('id')
@@ -113,19 +128,134 @@ export class DatabaseService {
     return syncLog.id;
   }
 
+  /**
+   * Queue a sync job; sync_logs doubles as the persisted job table
+   */
+  async enqueueSyncJob(data: {
+    sync_type: SyncJobType;
+    metadata?: Record<string, any>;
+    priority?: number;
+    scheduled_at?: string;
+    requested_by?: string;
+  }): Promise<string> {
+    const { data: job, error } = await this.client
+      .from('sync_logs')
+      .insert({
+        ...data,
+        priority: data.priority || 0,
+        scheduled_at: data.scheduled_at || new Date().toISOString(),
+        status: 'pending',
+        items_processed: 0,
+        items_created: 0,
+        items_updated: 0,
+        items_unchanged: 0,
+        items_failed: 0,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to enqueue sync job: ${error.message}`);
+    }
+
+    return job.id;
+  }
+
+  /**
+   * Claim a due pending job (or a specific one) under a lease for this worker.
+   * Running jobs whose lease expired are reclaimed so they can resume from their checkpoint.
+   */
+  async claimSyncJob(workerId: string, leaseSeconds: number, jobId?: string): Promise<DBSyncLog | null> {
+    const { data, error } = await this.client.rpc('claim_sync_job', {
+      p_worker_id: workerId,
+      p_lease_seconds: leaseSeconds,
+      p_job_id: jobId || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim sync job: ${error.message}`);
+    }
+
+    return (data as DBSyncLog[] | null)?.[0] || null;
+  }
+
+  /**
+   * Renew a job lease, saving the checkpoint if given. Returns false if the lease was lost.
+   */
+  async heartbeatSyncJob(
+    jobId: string,
+    workerId: string,
+    leaseSeconds: number,
+    checkpoint?: SyncCheckpoint
+  ): Promise<boolean> {
+    const { data, error } = await this.client.rpc('heartbeat_sync_job', {
+      p_job_id: jobId,
+      p_worker_id: workerId,
+      p_lease_seconds: leaseSeconds,
+      p_checkpoint: checkpoint || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to heartbeat sync job: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Cancel a sync job that has not started yet
+   */
+  async cancelSyncJob(id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('sync_logs')
+      .update({
+        status: 'cancelled',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to cancel sync job: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Get a sync log (job) by ID
+   */
+  async getSyncLog(id: string): Promise<DBSyncLog | null> {
+    const { data, error } = await this.client
+      .from('sync_logs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to get sync log: ${error.message}`);
+    }
+
+    return data;
+  }
+
   /**
    * Update sync log with progress
    */
   async updateSyncLog(
     id: string,
     updates: {
-      status?: 'running' | 'completed' | 'failed' | 'cancelled';
+      status?: 'syncing' | 'running' | 'completed' | 'failed' | 'cancelled';
       completed_at?: string;
       items_processed?: number;
       items_created?: number;
       items_updated?: number;
+      items_unchanged?: number;
       items_failed?: number;
       error_message?: string;
+      lease_owner?: null;
+      lease_expires_at?: null;
     }
   ): Promise<void> {
     const { error } = await this.client
@@ -231,6 +361,342 @@ export class DatabaseService {
     return data;
   }
 
+  /**
+   * Get a marketplace listing by KicksDB ID
+   */
+  async getProductListing(kicksdbId: string): Promise<DBProductListing | null> {
+    const { data, error } = await this.client
+      .from('product_listings')
+      .select('*')
+      .eq('kicksdb_id', kicksdbId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to get product listing: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Upsert a marketplace listing of a canonical product
+   */
+  async upsertProductListing(listing: Partial<DBProductListing>): Promise<DBProductListing> {
+    const { data, error } = await this.client
+      .from('product_listings')
+      .upsert(listing, { onConflict: 'kicksdb_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to upsert product listing: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Mark a listing as checked without rewriting its content
+   */
+  async touchProductListing(listingId: string): Promise<void> {
+    const { error } = await this.client
+      .from('product_listings')
+      .update({ last_sync_at: new Date().toISOString() })
+      .eq('id', listingId);
+
+    if (error) {
+      throw new Error(`Failed to touch product listing: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rebuild the words that misspelled searches are corrected to from the products' search keywords
+   */
+  async refreshSearchVocabulary(): Promise<void> {
+    const { error } = await this.client.rpc('refresh_search_vocabulary');
+
+    if (error) {
+      throw new Error(`Failed to refresh search vocabulary: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get listings ordered by staleness (least recently synced first)
+   */
+  async getStaleListings(
+    limit: number,
+    marketplace?: 'stockx' | 'goat'
+  ): Promise<Array<Pick<DBProductListing, 'id' | 'product_id' | 'kicksdb_id' | 'external_slug' | 'platform' | 'is_primary'>>> {
+    const { data, error } = await this.client
+      .from('product_listings')
+      .select('id, product_id, kicksdb_id, external_slug, platform, is_primary')
+      .in('platform', marketplace ? [marketplace] : ['stockx', 'goat'])
+      .order('last_sync_at', { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get stale listings: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get active canonical products an incoming listing could belong to:
+   * products with the same normalized style code, or the same brand and model
+   */
+  async getProductMatchCandidates(criteria: {
+    normalizedSku: string | null;
+    brandId: string;
+    model?: string | null;
+    limit?: number;
+  }): Promise<ProductMatchCandidate[]> {
+    const select = 'id, kicksdb_id, name, sku, model, colorway, brands(name), product_listings(platform)';
+    const queries = [];
+
+    if (criteria.normalizedSku) {
+      queries.push(this.client
+        .from('products')
+        .select(select)
+        .eq('normalized_sku', criteria.normalizedSku)
+        .eq('is_active', true)
+        .limit(criteria.limit || 50));
+    }
+
+    if (criteria.model) {
+      queries.push(this.client
+        .from('products')
+        .select(select)
+        .eq('brand_id', criteria.brandId)
+        .eq('model', criteria.model)
+        .eq('is_active', true)
+        .limit(criteria.limit || 50));
+    }
+
+    const candidates = new Map<string, ProductMatchCandidate>();
+
+    for (const { data, error } of await Promise.all(queries)) {
+      if (error) {
+        throw new Error(`Failed to get product match candidates: ${error.message}`);
+      }
+
+      for (const product of (data || []) as any[]) {
+        candidates.set(product.id, {
+          id: product.id,
+          kicksdb_id: product.kicksdb_id,
+          name: product.name,
+          brand_name: product.brands?.name,
+          sku: product.sku,
+          model: product.model,
+          colorway: product.colorway,
+          platforms: (product.product_listings || []).map((listing: { platform: 'stockx' | 'goat' }) => listing.platform),
+        });
+      }
+    }
+
+    return Array.from(candidates.values());
+  }
+
+  /**
+   * Queue an ambiguous match for admin review
+   */
+  async createProductMatchReview(review: {
+    listing_id: string;
+    product_id: string;
+    candidate_product_id: string;
+    similarity: number;
+    conflicting_fields: string[];
+  }): Promise<void> {
+    const { error } = await this.client
+      .from('product_match_reviews')
+      .insert({
+        ...review,
+        similarity: Math.round(review.similarity * 10000) / 10000,
+      });
+
+    if (error) {
+      throw new Error(`Failed to create product match review: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get match reviews with the listing and both products
+   */
+  async getProductMatchReviews(
+    status: ProductMatchReviewStatus = 'pending',
+    limit: number = 50
+  ): Promise<DBProductMatchReview[]> {
+    const { data, error } = await this.client
+      .from('product_match_reviews')
+      .select(`
+        *,
+        listing:product_listings(*),
+        product:products!product_match_reviews_product_id_fkey(id, name, sku, colorway, release_date, retail_price),
+        candidate:products!product_match_reviews_candidate_product_id_fkey(id, name, sku, colorway, release_date, retail_price)
+      `)
+      .eq('status', status)
+      .order('similarity', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get product match reviews: ${error.message}`);
+    }
+
+    return (data || []) as DBProductMatchReview[];
+  }
+
+  /**
+   * Merge the reviewed listing's product into its candidate, or keep both products separate
+   */
+  async resolveProductMatchReview(
+    reviewId: string,
+    merge: boolean,
+    reviewedBy?: string
+  ): Promise<DBProductMatchReview> {
+    const { data, error } = await this.client.rpc('resolve_product_match_review', {
+      p_review_id: reviewId,
+      p_merge: merge,
+      p_reviewed_by: reviewedBy || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to resolve product match review: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Replace a product's images (callers enforce the 2-image limit)
+   */
+  async replaceProductImages(productId: string, images: DBProductImage[]): Promise<void> {
+    const { error: deleteError } = await this.client
+      .from('product_images')
+      .delete()
+      .eq('product_id', productId);
+
+    if (deleteError) {
+      throw new Error(`Failed to clear product images: ${deleteError.message}`);
+    }
+
+    if (images.length === 0) return;
+
+    const { error } = await this.client
+      .from('product_images')
+      .insert(images.map(({ id, ...image }) => image));
+
+    if (error) {
+      throw new Error(`Failed to insert product images: ${error.message}`);
+    }
+  }
+
+  /**
+   * Upsert a listing's size prices for its canonical product
+   */
+  async upsertProductSizes(sizes: DBProductSize[]): Promise<void> {
+    if (sizes.length === 0) return;
+
+    const { error } = await this.client
+      .from('product_sizes')
+      .upsert(sizes.map(({ id, created_at, ...size }) => size), { onConflict: 'product_id,platform,size' });
+
+    if (error) {
+      throw new Error(`Failed to upsert product sizes: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get synced products that have no images yet
+   */
+  async getProductsWithoutImages(limit: number): Promise<Array<Pick<DBProduct, 'id' | 'kicksdb_id' | 'slug' | 'name'> & {
+    external_slug?: string;
+    platform: 'stockx' | 'goat';
+  }>> {
+    const { data, error } = await this.client
+      .from('products')
+      .select('id, kicksdb_id, slug, name, external_slug, platform, product_images!left(id)')
+      .not('kicksdb_id', 'is', null)
+      .in('platform', ['stockx', 'goat'])
+      .is('product_images', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get products without images: ${error.message}`);
+    }
+
+    return (data || []).map(({ product_images, ...product }: any) => product);
+  }
+
+  /**
+   * Update a listing's current market data; the primary listing also sets the product price
+   */
+  async updateListingMarketData(
+    listing: Pick<DBProductListing, 'id' | 'product_id' | 'is_primary'>,
+    updates: { current_price?: number; market_data: Record<string, any> }
+  ): Promise<void> {
+    const { error } = await this.client
+      .from('product_listings')
+      .update({
+        ...updates,
+        last_sync_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', listing.id);
+
+    if (error) {
+      throw new Error(`Failed to update listing market data: ${error.message}`);
+    }
+
+    if (!listing.is_primary) return;
+
+    const { error: productError } = await this.client
+      .from('products')
+      .update({
+        ...updates,
+        price_last_updated: new Date().toISOString(),
+      })
+      .eq('id', listing.product_id);
+
+    if (productError) {
+      throw new Error(`Failed to update product market data: ${productError.message}`);
+    }
+  }
+
+  /**
+   * Append a raw market snapshot to the product time series
+   */
+  async insertMarketSnapshot(snapshot: Partial<DBProductMarket>): Promise<void> {
+    const { error } = await this.client
+      .from('product_market_data')
+      .insert({
+        ...snapshot,
+        granularity: 'raw',
+      });
+
+    if (error) {
+      throw new Error(`Failed to insert market snapshot: ${error.message}`);
+    }
+  }
+
+  /**
+   * Downsample market history (raw -> hourly -> daily -> weekly) and drop expired points
+   */
+  async compactMarketData(): Promise<{
+    raw_rolled_up: number;
+    hourly_rolled_up: number;
+    daily_rolled_up: number;
+    weekly_expired: number;
+  }> {
+    const { data, error } = await this.client.rpc('compact_product_market_data');
+
+    if (error) {
+      throw new Error(`Failed to compact market data: ${error.message}`);
+    }
+
+    return data;
+  }
+
   /**
    * Get recent sync logs
    */
@@ -7,6 +7,8 @@ import type {
   RateLimitInfo,
 } from '@/types/kicksdb';
 import { RateLimiter } from './rate-limiter';
+import type { KicksDBTransport } from './transport';
+import { createTransportFromEnv } from './fixture-transport';
 import {
   KicksDBAPIError,
   RateLimitError,
@@ -15,16 +17,21 @@ import {
   createErrorFromResponse,
 } from './api-error';
 
+export interface KicksDBClientOptions extends Partial<APIConfig> {
+  transport?: KicksDBTransport;
+}
+
 /**
  * KicksDB API Client with rate limiting and error handling
  */
 export class KicksDBClient {
   private readonly config: APIConfig;
   private readonly rateLimiter: RateLimiter;
+  private readonly transport: KicksDBTransport;
   private requestCount: number = 0;
   private lastRequestTime: number = 0;
 
-  constructor(config: Partial<APIConfig> = {}) {
+  constructor({ transport, ...config }: KicksDBClientOptions = {}) {
     this.config = {
       baseURL: 'https://api.kicks.dev',
       apiKey: process.env.KICKSDB_API_KEY || 'KICKS-97EF-725F-A605-58232DC70EED',
@@ -36,6 +43,7 @@ export class KicksDBClient {
     };
 
     this.rateLimiter = new RateLimiter(this.config.rateLimitPerMinute);
+    this.transport = transport || createTransportFromEnv();
   }
 
   /**
@@ -65,8 +73,11 @@ export class KicksDBClient {
       this.requestCount++;
       this.lastRequestTime = Date.now();
 
-      const response = await fetch(url.toString(), {
+      const response = await this.transport.send({
         method: 'GET',
+        url: url.toString(),
+        endpoint,
+        params,
         headers: {
           'Authorization': `Bearer ${this.config.apiKey}`,
           'Content-Type': 'application/json',
@@ -79,7 +90,7 @@ export class KicksDBClient {
 
       // Handle rate limiting
       if (response.status === 429) {
-        const retryAfter = response.headers.get('retry-after');
+        const retryAfter = response.headers['retry-after'];
         const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 60000;
 
         if (retryCount < this.config.maxRetries) {
@@ -97,23 +108,27 @@ export class KicksDBClient {
       }
 
       // Handle other HTTP errors
-      if (!response.ok) {
-        const errorText = await response.text();
+      if (response.status < 200 || response.status >= 300) {
         let errorData;
         try {
-          errorData = JSON.parse(errorText);
+          errorData = JSON.parse(response.body);
         } catch {
-          errorData = { message: errorText };
+          errorData = { message: response.body };
         }
 
         throw createErrorFromResponse(
           response.status,
           errorData.message || `HTTP ${response.status}`,
-          { data: errorData, headers: Object.fromEntries(response.headers) }
+          { data: errorData, headers: response.headers }
         );
       }
 
-      const data = await response.json();
+      let data;
+      try {
+        data = JSON.parse(response.body);
+      } catch {
+        throw new KicksDBAPIError('Invalid response format', 'INVALID_RESPONSE');
+      }
 
       // Validate response structure
       if (!data || typeof data !== 'object') {
@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  FetchTransport,
+  createRequestKey,
+  createAbortError,
+  type KicksDBTransport,
+  type KicksDBTransportRequest,
+  type KicksDBTransportResponse,
+} from './transport';
+import { KicksDBAPIError } from './api-error';
+
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * A single recorded outcome. Either an HTTP response or a simulated transport failure.
+ */
+export type FixtureEntry =
+  | {
+      status: number;
+      headers?: Record<string, string>;
+      body: unknown;
+    }
+  | {
+      error: 'timeout' | 'network';
+      message?: string;
+    };
+
+export interface FixtureFile {
+  key: string;
+  endpoint: string;
+  params: Record<string, any>;
+  recordedAt: string;
+  responses: FixtureEntry[];
+}
+
+export interface FixtureTransportOptions {
+  mode: FixtureMode;
+  fixturesDir: string;
+  inner?: KicksDBTransport;
+}
+
+/**
+ * Record/replay transport for offline and deterministic KicksDB runs
+ *
+ * In record mode every request goes through the inner transport and the outcome is
+ * appended to a JSON fixture keyed by endpoint and params. In replay mode the fixture
+ * responses are served in order, repeating the last one once the sequence is exhausted,
+ * so 429 → 200 and timeout → 200 sequences can be replayed exactly as they happened.
+ */
+export class FixtureTransport implements KicksDBTransport {
+  private readonly mode: FixtureMode;
+  private readonly fixturesDir: string;
+  private readonly inner: KicksDBTransport;
+  private readonly cursors = new Map<string, number>();
+  private readonly recordedKeys = new Set<string>();
+
+  constructor(options: FixtureTransportOptions) {
+    this.mode = options.mode;
+    this.fixturesDir = options.fixturesDir;
+    this.inner = options.inner || new FetchTransport();
+  }
+
+  async send(request: KicksDBTransportRequest): Promise<KicksDBTransportResponse> {
+    return this.mode === 'record'
+      ? this.record(request)
+      : this.replay(request);
+  }
+
+  /**
+   * Reset replay cursors so sequences start from the first response again
+   */
+  rewind(): void {
+    this.cursors.clear();
+  }
+
+  /**
+   * Resolve the fixture path for an endpoint and params
+   */
+  getFixturePath(endpoint: string, params: Record<string, any> = {}): string {
+    const key = createRequestKey(endpoint, params);
+    const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 12);
+    const name = endpoint.replace(/^\/+/, '').replace(/[^a-zA-Z0-9]+/g, '_');
+
+    return path.join(this.fixturesDir, `${name}-${hash}.json`);
+  }
+
+  /**
+   * Write a fixture directly, used to script error paths that are hard to capture live
+   */
+  async writeFixture(
+    endpoint: string,
+    params: Record<string, any>,
+    responses: FixtureEntry[]
+  ): Promise<string> {
+    const filePath = this.getFixturePath(endpoint, params);
+    const fixture: FixtureFile = {
+      key: createRequestKey(endpoint, params),
+      endpoint,
+      params,
+      recordedAt: new Date().toISOString(),
+      responses,
+    };
+
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2));
+
+    return filePath;
+  }
+
+  private async replay(request: KicksDBTransportRequest): Promise<KicksDBTransportResponse> {
+    const fixture = await this.readFixture(request.endpoint, request.params);
+
+    if (!fixture || fixture.responses.length === 0) {
+      throw new KicksDBAPIError(
+        `No fixture recorded for ${createRequestKey(request.endpoint, request.params)}`,
+        'FIXTURE_NOT_FOUND',
+        undefined,
+        { path: this.getFixturePath(request.endpoint, request.params) }
+      );
+    }
+
+    const cursor = this.cursors.get(fixture.key) || 0;
+    const entry = fixture.responses[Math.min(cursor, fixture.responses.length - 1)];
+    this.cursors.set(fixture.key, cursor + 1);
+
+    if ('error' in entry) {
+      if (entry.error === 'timeout') {
+        throw createAbortError(entry.message);
+      }
+      throw new TypeError(entry.message || 'fetch failed');
+    }
+
+    return {
+      status: entry.status,
+      headers: entry.headers || {},
+      body: typeof entry.body === 'string' ? entry.body : JSON.stringify(entry.body),
+    };
+  }
+
+  private async record(request: KicksDBTransportRequest): Promise<KicksDBTransportResponse> {
+    let entry: FixtureEntry;
+    let response: KicksDBTransportResponse | undefined;
+    let failure: unknown;
+
+    try {
+      response = await this.inner.send(request);
+      entry = {
+        status: response.status,
+        headers: response.headers,
+        body: this.parseBody(response.body),
+      };
+    } catch (error) {
+      failure = error;
+      entry = {
+        error: error instanceof Error && error.name === 'AbortError' ? 'timeout' : 'network',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    await this.appendEntry(request, entry);
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+
+    return response!;
+  }
+
+  private async appendEntry(request: KicksDBTransportRequest, entry: FixtureEntry): Promise<void> {
+    const key = createRequestKey(request.endpoint, request.params);
+
+    // The first hit of a key in this session replaces whatever was recorded before;
+    // subsequent hits (retries) extend the sequence.
+    const existing = this.recordedKeys.has(key)
+      ? await this.readFixture(request.endpoint, request.params)
+      : null;
+
+    await this.writeFixture(
+      request.endpoint,
+      request.params,
+      [...(existing?.responses || []), entry]
+    );
+
+    this.recordedKeys.add(key);
+  }
+
+  private async readFixture(endpoint: string, params: Record<string, any>): Promise<FixtureFile | null> {
+    try {
+      const content = await fs.readFile(this.getFixturePath(endpoint, params), 'utf8');
+      return JSON.parse(content) as FixtureFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private parseBody(body: string): unknown {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+}
+
+/**
+ * Build the transport selected by KICKSDB_FIXTURE_MODE, falling back to live fetch
+ */
+export function createTransportFromEnv(): KicksDBTransport {
+  const mode = process.env.KICKSDB_FIXTURE_MODE;
+
+  if (mode === 'record' || mode === 'replay') {
+    return new FixtureTransport({
+      mode,
+      fixturesDir: process.env.KICKSDB_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'kicksdb'),
+    });
+  }
+
+  return new FetchTransport();
+}
@@ -2,6 +2,7 @@
  * KicksDB API Client - Export all components
  */
 export { KicksDBClient } from './client';
+export type { KicksDBClientOptions } from './client';
 export { RateLimiter } from './rate-limiter';
 export {
   KicksDBAPIError,
@@ -11,14 +12,22 @@ export {
   ValidationError,
   createErrorFromResponse,
 } from './api-error';
+export { FetchTransport, createRequestKey } from './transport';
+export type {
+  KicksDBTransport,
+  KicksDBTransportRequest,
+  KicksDBTransportResponse,
+} from './transport';
+export { FixtureTransport, createTransportFromEnv } from './fixture-transport';
+export type { FixtureMode, FixtureEntry, FixtureFile } from './fixture-transport';
 
 // Import the class to create instances
-import { KicksDBClient } from './client';
+import { KicksDBClient, type KicksDBClientOptions } from './client';
 
 // Create default client instance
 export const kicksDBClient = new KicksDBClient();
 
 // Export client factory for custom configurations
-export const createKicksDBClient = (config?: Parameters<typeof KicksDBClient>[0]) => {
+export const createKicksDBClient = (config?: KicksDBClientOptions) => {
   return new KicksDBClient(config);
 };
\ No newline at end of file
@@ -0,0 +1,68 @@
+/**
+ * Transport layer for the KicksDB API client
+ * Decouples request execution from the client so it can be swapped for fixtures in tests
+ */
+export interface KicksDBTransportRequest {
+  method: 'GET';
+  url: string;
+  endpoint: string;
+  params: Record<string, any>;
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface KicksDBTransportResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface KicksDBTransport {
+  send(request: KicksDBTransportRequest): Promise<KicksDBTransportResponse>;
+}
+
+/**
+ * Default transport backed by the global fetch implementation
+ */
+export class FetchTransport implements KicksDBTransport {
+  async send(request: KicksDBTransportRequest): Promise<KicksDBTransportResponse> {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    return {
+      status: response.status,
+      headers,
+      body: await response.text(),
+    };
+  }
+}
+
+/**
+ * Build a stable lookup key for a request from its endpoint and query params
+ */
+export function createRequestKey(endpoint: string, params: Record<string, any> = {}): string {
+  const query = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map(key => `${key}=${String(params[key])}`)
+    .join('&');
+
+  return query ? `GET ${endpoint}?${query}` : `GET ${endpoint}`;
+}
+
+/**
+ * Create an error that the client treats the same way as an aborted fetch
+ */
+export function createAbortError(message: string = 'The operation was aborted'): Error {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
@@ -3,6 +3,8 @@ import { MonitorConfigService } from './config';
 import { StockManager } from '../stock/manager';
 import { AuditLogger, SystemMonitor } from '../monitoring/audit';
 import { FeatureFlagService } from '../features/flags';
+import { WatchlistAlertService } from '@/services/watchlist-alerts';
+import { RaffleService } from '@/services/raffles';
 
 export interface MonitorOrchestrator {
   startMonitoring(): Promise<void>;
@@ -81,6 +83,32 @@ export class KicksDBMonitorOrchestrator implements MonitorOrchestrator {
       // Clean up expired stock reservations (every minute)
       setInterval(async () => {
         try {
+          // Waitlist offers first: their held units pass to the next in line rather than going on sale
+          const offers = await this.stockManager.expireWaitlistOffers();
+          if (offers.expired > 0) {
+            await this.auditLogger.logEvent({
+              event_type: 'stock_cleanup',
+              entity_type: 'stock',
+              action: 'expire_waitlist_offers',
+              metadata: { expired_count: offers.expired, passed_count: offers.passed },
+              severity: 'info',
+              source: 'stock_manager'
+            });
+          }
+
+          // Unclaimed raffle wins likewise roll down to the next alternate
+          const wins = await RaffleService.expireUnclaimedWins();
+          if (wins.expired > 0) {
+            await this.auditLogger.logEvent({
+              event_type: 'stock_cleanup',
+              entity_type: 'stock',
+              action: 'expire_raffle_wins',
+              metadata: { expired_count: wins.expired, passed_count: wins.passed },
+              severity: 'info',
+              source: 'stock_manager'
+            });
+          }
+
           const result = await this.stockManager.cleanupExpiredReservations();
           if (result.released > 0) {
             await this.auditLogger.logEvent({
@@ -97,6 +125,15 @@ export class KicksDBMonitorOrchestrator implements MonitorOrchestrator {
         }
       }, 60 * 1000); // 1 minute
 
+      // Match price and stock events against watchlists and send the alerts (every minute)
+      setInterval(async () => {
+        try {
+          await WatchlistAlertService.processAlerts();
+        } catch (error) {
+          console.error('Watchlist alerts failed:', error);
+        }
+      }, 60 * 1000); // 1 minute
+
       this.isRunning = true;
 
       await this.auditLogger.logEvent({
@@ -422,6 +459,15 @@ export class KicksDBMonitorOrchestrator implements MonitorOrchestrator {
       errors++;
     }
 
+    // Alert watchers about this batch's price and stock events right away
+    if (processed > 0) {
+      try {
+        await WatchlistAlertService.processAlerts();
+      } catch (error) {
+        console.error('Error matching watchlist alerts:', error);
+      }
+    }
+
     return { processed, errors };
   }
 
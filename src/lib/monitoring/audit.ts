@@ -166,6 +166,65 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log a manual store credit adjustment (amounts in the base currency)
+   */
+  async logStoreCreditAdjustment(
+    userId: string,
+    amount: number,
+    balanceBefore: number,
+    balanceAfter: number,
+    reason: string,
+    adminUserId: string,
+    entryId: string
+  ): Promise<void> {
+    await this.logEvent({
+      event_type: 'store_credit_adjustment',
+      entity_type: 'store_credit',
+      entity_id: userId,
+      user_id: adminUserId,
+      action: amount > 0 ? 'credit' : 'debit',
+      old_values: { balance: balanceBefore },
+      new_values: { balance: balanceAfter },
+      metadata: { amount, reason, ledger_entry_id: entryId },
+      severity: 'info',
+      source: 'admin'
+    });
+  }
+
+  /**
+   * Log a raffle draw with everything needed to recompute it: the revealed seed, its commitment and
+   * every entry's rank and result
+   */
+  async logRaffleDraw(
+    raffleId: string,
+    productId: string,
+    adminUserId: string,
+    draw: {
+      seed: string;
+      seedCommitment: string;
+      entries: Array<{ entry_id: string; user_id: string; size: string; rank: number; result: 'won' | 'alternate' }>;
+    }
+  ): Promise<void> {
+    await this.logEvent({
+      event_type: 'raffle_draw',
+      entity_type: 'raffle',
+      entity_id: raffleId,
+      user_id: adminUserId,
+      action: 'draw',
+      old_values: { status: 'scheduled' },
+      new_values: { status: 'drawn' },
+      metadata: {
+        product_id: productId,
+        seed: draw.seed,
+        seed_commitment: draw.seedCommitment,
+        entries: draw.entries
+      },
+      severity: 'info',
+      source: 'admin'
+    });
+  }
+
   /**
    * Log security event
    */
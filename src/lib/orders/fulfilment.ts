@@ -0,0 +1,86 @@
+/**
+ * Order fulfilment
+ *
+ * An order ships in one or more shipments. Each order line can be split across shipments, and
+ * units that were refunded before they shipped are never sent. The create_order_shipment RPC
+ * applies the same rules under a lock; these helpers give the admin UI and the service the same
+ * answer up front.
+ */
+
+import type { OrderStatus } from '@/types/order';
+
+export interface FulfilmentLine {
+  id: string;
+  quantity: number;
+  refundedQuantity: number;
+  shippedQuantity: number;
+}
+
+export interface ShipmentLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+export type ShipmentPlanErrorCode = 'EMPTY' | 'UNKNOWN_ITEM' | 'INVALID_QUANTITY' | 'QUANTITY_EXCEEDED';
+
+export class ShipmentPlanError extends Error {
+  constructor(
+    public code: ShipmentPlanErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ShipmentPlanError';
+  }
+}
+
+/** Statuses an order can ship from */
+export const SHIPPABLE_ORDER_STATUSES: OrderStatus[] = ['processing', 'partially_shipped'];
+
+/**
+ * Units of a line still to ship
+ */
+export function unshippedQuantity(line: FulfilmentLine): number {
+  return Math.max(0, line.quantity - line.refundedQuantity - line.shippedQuantity);
+}
+
+/**
+ * Check the lines of a new shipment against what is left to ship. Lines for the same item are
+ * merged and zero quantities dropped. Throws ShipmentPlanError when the shipment is not possible.
+ */
+export function planShipment(lines: FulfilmentLine[], requested: ShipmentLine[]): ShipmentLine[] {
+  const quantities = new Map<string, number>();
+
+  for (const line of requested) {
+    if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+      throw new ShipmentPlanError('INVALID_QUANTITY', 'Quantities must be whole numbers');
+    }
+    if (line.quantity === 0) continue;
+
+    quantities.set(line.orderItemId, (quantities.get(line.orderItemId) || 0) + line.quantity);
+  }
+
+  if (quantities.size === 0) {
+    throw new ShipmentPlanError('EMPTY', 'Choose at least one item to ship');
+  }
+
+  return Array.from(quantities, ([orderItemId, quantity]) => {
+    const line = lines.find(candidate => candidate.id === orderItemId);
+    if (!line) {
+      throw new ShipmentPlanError('UNKNOWN_ITEM', 'This item is not part of the order');
+    }
+
+    const remaining = unshippedQuantity(line);
+    if (quantity > remaining) {
+      throw new ShipmentPlanError('QUANTITY_EXCEEDED', `Only ${remaining} of this item left to ship`);
+    }
+
+    return { orderItemId, quantity };
+  });
+}
+
+/**
+ * The order status once the lines have shipped as given
+ */
+export function fulfilmentStatus(lines: FulfilmentLine[]): OrderStatus {
+  return lines.some(line => unshippedQuantity(line) > 0) ? 'partially_shipped' : 'shipped';
+}
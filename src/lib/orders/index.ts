@@ -0,0 +1,43 @@
+/**
+ * Order lifecycle module exports
+ */
+export {
+  ORDER_STATUS_TRANSITIONS,
+  PAYMENT_STATUS_TRANSITIONS,
+  MANUAL_ORDER_STATUSES,
+  OrderTransitionError,
+  canTransitionStatus,
+  canTransitionPayment,
+  nextManualStatuses,
+  planTransition,
+} from './state-machine';
+
+export {
+  SHIPPABLE_ORDER_STATUSES,
+  ShipmentPlanError,
+  unshippedQuantity,
+  planShipment,
+  fulfilmentStatus,
+} from './fulfilment';
+
+export {
+  MAX_NUMBER_ATTEMPTS,
+  generateOrderNumber,
+  generateRmaNumber,
+} from './numbers';
+
+// Re-export types
+export type {
+  StockEffect,
+  OrderEmail,
+  OrderState,
+  TransitionContext,
+  TransitionPlan,
+  TransitionErrorCode,
+} from './state-machine';
+
+export type {
+  FulfilmentLine,
+  ShipmentLine,
+  ShipmentPlanErrorCode,
+} from './fulfilment';
@@ -0,0 +1,28 @@
+/**
+ * Order and return numbers
+ *
+ * Customers quote these numbers to support and use them to look up guest orders, so they must never
+ * repeat. Each one is a random code checked by a unique index in the database, and whoever inserts
+ * the row draws a new number if that index rejects it.
+ */
+
+// No 0/O or 1/I/L so numbers can be read out over the phone
+const NUMBER_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const NUMBER_LENGTH = 8;
+
+// Times a caller draws a new number after a unique violation before giving up
+export const MAX_NUMBER_ATTEMPTS = 5;
+
+function randomCode(): string {
+  const values = new Uint32Array(NUMBER_LENGTH);
+  crypto.getRandomValues(values);
+  return Array.from(values, value => NUMBER_ALPHABET[value % NUMBER_ALPHABET.length]).join('');
+}
+
+export function generateOrderNumber(): string {
+  return `SX-${randomCode()}`;
+}
+
+export function generateRmaNumber(): string {
+  return `RMA-${randomCode()}`;
+}
@@ -0,0 +1,167 @@
+/**
+ * Order state machine
+ *
+ * An order carries two statuses that move together: the fulfilment status and the payment status.
+ * Every change is checked against the transitions below, both here (for the app's side effects and
+ * error messages) and by the orders_status_guard trigger, which mirrors these tables and records
+ * each change in order_status_history.
+ */
+
+import type { OrderStatus, PaymentStatus } from '@/types/order';
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['partially_shipped', 'shipped', 'refunded'],
+  partially_shipped: ['shipped', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  // Reopened only when a failed payment is retried successfully
+  cancelled: ['processing'],
+  refunded: [],
+};
+
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['completed', 'failed'],
+  failed: ['completed'],
+  completed: ['partially_refunded', 'refunded'],
+  // Back to completed when a pending refund fails at the provider
+  partially_refunded: ['completed', 'refunded'],
+  refunded: [],
+};
+
+/**
+ * Order statuses an admin can set by hand; the rest follow payments, refunds and shipments
+ * (see fulfilment.ts)
+ */
+export const MANUAL_ORDER_STATUSES: OrderStatus[] = ['cancelled'];
+
+export type StockEffect = 'reserve_and_commit' | 'commit' | 'release';
+
+// Shipments send their own tracking email
+export type OrderEmail = 'delivered' | 'cancelled';
+
+export interface OrderState {
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+}
+
+export interface TransitionContext {
+  trackingNumber?: string | null;
+}
+
+export interface TransitionPlan {
+  from: OrderState;
+  to: OrderState;
+  /** What happens to the order's stock */
+  stock: StockEffect | null;
+  /** Customer email to send once the change is saved */
+  email: OrderEmail | null;
+}
+
+export type TransitionErrorCode = 'INVALID_TRANSITION' | 'TRACKING_REQUIRED' | 'PAYMENT_REQUIRED' | 'NO_CHANGE';
+
+export class OrderTransitionError extends Error {
+  constructor(
+    public code: TransitionErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+export function canTransitionStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || ORDER_STATUS_TRANSITIONS[from]?.includes(to) === true;
+}
+
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+  return from === to || PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) === true;
+}
+
+/**
+ * Statuses an admin can move the order to from where it is now
+ */
+export function nextManualStatuses(state: OrderState): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[state.status].filter(status => {
+    try {
+      planTransition(state, { status }, { trackingNumber: 'check' });
+      return MANUAL_ORDER_STATUSES.includes(status);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Check a change of status and/or payment status and work out its side effects.
+ * Throws OrderTransitionError when the change is not allowed.
+ */
+export function planTransition(
+  from: OrderState,
+  change: Partial<OrderState>,
+  context: TransitionContext = {}
+): TransitionPlan {
+  const to: OrderState = {
+    status: change.status ?? from.status,
+    paymentStatus: change.paymentStatus ?? from.paymentStatus,
+  };
+
+  if (to.status === from.status && to.paymentStatus === from.paymentStatus) {
+    throw new OrderTransitionError('NO_CHANGE', `Order is already ${to.status} with payment ${to.paymentStatus}`);
+  }
+
+  if (!canTransitionStatus(from.status, to.status)) {
+    throw new OrderTransitionError('INVALID_TRANSITION', `An order cannot go from ${from.status} to ${to.status}`);
+  }
+
+  if (!canTransitionPayment(from.paymentStatus, to.paymentStatus)) {
+    throw new OrderTransitionError(
+      'INVALID_TRANSITION',
+      `Payment cannot go from ${from.paymentStatus.replace('_', ' ')} to ${to.paymentStatus.replace('_', ' ')}`
+    );
+  }
+
+  const paid = to.paymentStatus === 'completed' || to.paymentStatus === 'partially_refunded';
+
+  if (to.status === 'processing' && from.status !== 'processing' && !paid) {
+    throw new OrderTransitionError('PAYMENT_REQUIRED', 'An order is only processed once it has been paid');
+  }
+
+  if (from.status === 'cancelled' && to.status === 'processing' && from.paymentStatus !== 'failed') {
+    throw new OrderTransitionError('INVALID_TRANSITION', 'Only orders cancelled for a failed payment can be reopened');
+  }
+
+  if (to.status === 'cancelled' && from.status !== 'cancelled' && paid) {
+    throw new OrderTransitionError('INVALID_TRANSITION', 'Paid orders are refunded, not cancelled');
+  }
+
+  if (isShipped(to.status) && !isShipped(from.status) && !context.trackingNumber?.trim()) {
+    throw new OrderTransitionError('TRACKING_REQUIRED', 'A tracking number is required to ship an order');
+  }
+
+  if (to.status === 'refunded' && to.paymentStatus !== 'refunded') {
+    throw new OrderTransitionError('INVALID_TRANSITION', 'Orders become refunded once their payment is fully refunded');
+  }
+
+  return {
+    from,
+    to,
+    stock: stockEffect(from, to),
+    email: to.status !== from.status && (to.status === 'delivered' || to.status === 'cancelled') ? to.status : null,
+  };
+}
+
+function isShipped(status: OrderStatus): boolean {
+  return status === 'partially_shipped' || status === 'shipped';
+}
+
+function stockEffect(from: OrderState, to: OrderState): StockEffect | null {
+  if (to.status === from.status) return null;
+
+  // Reservations were released when the payment failed, so a reopened order needs its stock again
+  if (from.status === 'cancelled' && to.status === 'processing') return 'reserve_and_commit';
+  if (from.status === 'pending' && to.status === 'processing') return 'commit';
+  if (from.status === 'pending' && to.status === 'cancelled') return 'release';
+
+  return null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Payment providers - Export all components
+ */
+export { PaymentProviderError } from './provider';
+export type {
+  PaymentProvider,
+  PaymentProviderName,
+  ProviderPaymentIntent,
+  ProviderPaymentStatus,
+  CreateProviderIntentParams,
+  ConfirmProviderIntentParams,
+  ProviderRefund,
+  ProviderRefundStatus,
+  CreateProviderRefundParams,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentEventListener,
+} from './provider';
+export { StripePaymentProvider } from './stripe-provider';
+export type { StripePaymentProviderOptions } from './stripe-provider';
+export { SimulatorPaymentProvider, SIMULATOR_TEST_CARDS } from './simulator-provider';
+export type { SimulatorPaymentProviderOptions } from './simulator-provider';
+
+import { PaymentProviderError, type PaymentProvider, type PaymentProviderName } from './provider';
+import { StripePaymentProvider } from './stripe-provider';
+import { SimulatorPaymentProvider } from './simulator-provider';
+
+// Kept on globalThis so the simulator's intents survive module reloads in development
+const globalForPayments = globalThis as unknown as { paymentProvider?: PaymentProvider };
+
+/**
+ * Provider named by PAYMENT_PROVIDER ('stripe' | 'simulator'), which must be set.
+ * The simulator accepts test cards as payment, so it is refused in production.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!globalForPayments.paymentProvider) {
+    globalForPayments.paymentProvider = createPaymentProvider(resolveProviderName());
+  }
+  return globalForPayments.paymentProvider;
+}
+
+/**
+ * Replace the active provider, e.g. with a simulator in tests
+ */
+export function setPaymentProvider(provider: PaymentProvider): void {
+  globalForPayments.paymentProvider = provider;
+}
+
+export function createPaymentProvider(name: PaymentProviderName): PaymentProvider {
+  return name === 'stripe' ? new StripePaymentProvider() : new SimulatorPaymentProvider();
+}
+
+function resolveProviderName(): PaymentProviderName {
+  const configured = process.env.PAYMENT_PROVIDER;
+  if (configured !== 'stripe' && configured !== 'simulator') {
+    throw new PaymentProviderError(
+      `PAYMENT_PROVIDER must be 'stripe' or 'simulator' (got ${configured ? `'${configured}'` : 'nothing'})`,
+      'provider_not_configured'
+    );
+  }
+  if (configured === 'simulator' && process.env.NODE_ENV === 'production') {
+    throw new PaymentProviderError('The payment simulator cannot take payments in production', 'provider_not_configured');
+  }
+  return configured;
+}
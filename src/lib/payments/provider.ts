@@ -0,0 +1,145 @@
+/**
+ * Payment provider abstraction
+ * Checkout and order payment handling talk to this interface; Stripe and the local simulator implement it.
+ */
+
+export type PaymentProviderName = 'stripe' | 'simulator';
+
+export type ProviderPaymentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'succeeded'
+  | 'canceled';
+
+export interface ProviderPaymentIntent {
+  id: string;
+  /** Amount in the currency's smallest unit */
+  amount: number;
+  /** Lower-case ISO currency code */
+  currency: string;
+  status: ProviderPaymentStatus;
+  clientSecret: string | null;
+  metadata: Record<string, string>;
+  /** Set while the buyer has to authenticate (3D Secure) */
+  nextAction: { type: 'authenticate'; url: string | null } | null;
+  /** Why the last payment attempt failed; the intent goes back to requires_payment_method */
+  lastError: { code: string; message: string } | null;
+}
+
+export interface CreateProviderIntentParams {
+  /** Amount in the currency's smallest unit */
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+  /** Repeating a create with the same key returns the same intent */
+  idempotencyKey?: string;
+}
+
+export interface ConfirmProviderIntentParams {
+  paymentMethod: {
+    type: 'card';
+    /** Provider payment method reference, e.g. a Stripe pm_ id */
+    token?: string;
+    /** Raw test card number; only accepted by the simulator */
+    cardNumber?: string;
+  };
+  returnUrl?: string;
+}
+
+export type ProviderRefundStatus = 'pending' | 'succeeded' | 'failed' | 'canceled';
+
+export interface ProviderRefund {
+  id: string;
+  intentId: string;
+  /** Amount in the currency's smallest unit */
+  amount: number;
+  currency: string;
+  status: ProviderRefundStatus;
+  reason: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface CreateProviderRefundParams {
+  intentId: string;
+  /** Amount in the currency's smallest unit; the whole unrefunded amount when omitted */
+  amount?: number;
+  reason?: string;
+  metadata?: Record<string, string>;
+  /** Repeating a refund with the same key returns the same refund */
+  idempotencyKey?: string;
+}
+
+export type PaymentEventType =
+  | 'payment_intent.succeeded'
+  | 'payment_intent.payment_failed'
+  | 'payment_intent.requires_action'
+  | 'payment_intent.processing'
+  | 'payment_intent.canceled'
+  | 'charge.refunded';
+
+export interface PaymentEvent {
+  id: string;
+  /** Provider event type; payment intent events use the PaymentEventType names */
+  type: PaymentEventType | string;
+  /** The payment intent the event is about, for payment_intent.* events */
+  intent: ProviderPaymentIntent | null;
+  /** For charge.refunded: everything refunded on the intent so far, in minor units */
+  refund: { intentId: string; amountRefunded: number; currency: string } | null;
+  /** The provider's raw event object */
+  data: unknown;
+  createdAt: string;
+}
+
+export type PaymentEventListener = (event: PaymentEvent) => void | Promise<void>;
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  createIntent(params: CreateProviderIntentParams): Promise<ProviderPaymentIntent>;
+
+  retrieveIntent(intentId: string): Promise<ProviderPaymentIntent>;
+
+  /**
+   * Attempt the payment. Resolves with the updated intent for declines as well as successes;
+   * a decline leaves the intent in requires_payment_method with lastError set.
+   */
+  confirmIntent(intentId: string, params: ConfirmProviderIntentParams): Promise<ProviderPaymentIntent>;
+
+  cancelIntent(intentId: string): Promise<ProviderPaymentIntent>;
+
+  /** Refund all or part of a succeeded payment */
+  refundIntent(params: CreateProviderRefundParams): Promise<ProviderRefund>;
+
+  /**
+   * Complete or fail a pending authentication challenge.
+   * Only providers that run the challenge themselves (the simulator) implement this.
+   */
+  resolveAction?(intentId: string, approve: boolean): Promise<ProviderPaymentIntent>;
+
+  /** Verify and parse a webhook request body */
+  parseWebhook(payload: string, signature: string | null): Promise<PaymentEvent>;
+
+  /**
+   * Subscribe to events delivered in-process. Providers that deliver events through the
+   * webhook route (Stripe) do not implement this.
+   */
+  onEvent?(listener: PaymentEventListener): () => void;
+}
+
+/**
+ * Error raised by a provider call that could not be completed (network, auth, invalid request).
+ * Card declines are not errors; they are reported on the returned intent.
+ */
+export class PaymentProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = 'provider_error',
+    public readonly statusCode: number = 500
+  ) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
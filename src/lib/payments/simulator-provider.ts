@@ -0,0 +1,369 @@
+import {
+  PaymentProviderError,
+  type ConfirmProviderIntentParams,
+  type CreateProviderIntentParams,
+  type CreateProviderRefundParams,
+  type PaymentEvent,
+  type PaymentEventListener,
+  type PaymentEventType,
+  type PaymentProvider,
+  type ProviderPaymentIntent,
+  type ProviderRefund,
+} from './provider';
+
+/**
+ * Test cards understood by the simulator. Each one scripts a single outcome.
+ */
+export const SIMULATOR_TEST_CARDS = {
+  success: '4242424242424242',
+  declined: '4000000000000002',
+  insufficientFunds: '4000000000009995',
+  requiresAuthentication: '4000002500003155',
+  delayedSuccess: '4000000000000077',
+  delayedDecline: '4000000000000085',
+} as const;
+
+type SimulatedOutcome =
+  | { kind: 'succeed' }
+  | { kind: 'decline'; code: string; message: string }
+  | { kind: 'authenticate' }
+  | { kind: 'delayed'; then: 'succeed' | 'decline' };
+
+const CARD_OUTCOMES: Record<string, SimulatedOutcome> = {
+  [SIMULATOR_TEST_CARDS.success]: { kind: 'succeed' },
+  [SIMULATOR_TEST_CARDS.declined]: { kind: 'decline', code: 'card_declined', message: 'Your card was declined.' },
+  [SIMULATOR_TEST_CARDS.insufficientFunds]: {
+    kind: 'decline',
+    code: 'insufficient_funds',
+    message: 'Your card has insufficient funds.',
+  },
+  [SIMULATOR_TEST_CARDS.requiresAuthentication]: { kind: 'authenticate' },
+  [SIMULATOR_TEST_CARDS.delayedSuccess]: { kind: 'delayed', then: 'succeed' },
+  [SIMULATOR_TEST_CARDS.delayedDecline]: { kind: 'delayed', then: 'decline' },
+};
+
+// Stripe test payment method ids, so the same scripts run against the simulator and Stripe test mode
+const TOKEN_CARDS: Record<string, string> = {
+  pm_card_visa: SIMULATOR_TEST_CARDS.success,
+  pm_card_chargeDeclined: SIMULATOR_TEST_CARDS.declined,
+  pm_card_chargeDeclinedInsufficientFunds: SIMULATOR_TEST_CARDS.insufficientFunds,
+  pm_card_authenticationRequired: SIMULATOR_TEST_CARDS.requiresAuthentication,
+};
+
+const DELAYED_DECLINE_ERROR = { code: 'card_declined', message: 'Your card was declined.' };
+
+export interface SimulatorPaymentProviderOptions {
+  /** How long a delayed outcome takes to arrive as an event */
+  webhookDelayMs?: number;
+  /** Deliver queued events on a timer; turn off in tests and call flush() instead */
+  autoDeliver?: boolean;
+}
+
+/**
+ * Deterministic in-memory payment provider for local development and tests.
+ *
+ * The outcome of a confirm is decided by the test card: immediate success or decline, a 3D Secure
+ * challenge settled with resolveAction(), or a delayed result that arrives later as an event,
+ * the way a Stripe webhook would. Refunds succeed immediately and are followed by a charge.refunded
+ * event. Intent, refund and event ids are sequential so runs are repeatable.
+ */
+export class SimulatorPaymentProvider implements PaymentProvider {
+  readonly name = 'simulator' as const;
+  private readonly intents = new Map<string, ProviderPaymentIntent>();
+  private readonly idempotentIntents = new Map<string, string>();
+  private readonly pendingOutcomes = new Map<string, 'succeed' | 'decline'>();
+  private readonly refunds = new Map<string, ProviderRefund>();
+  private readonly idempotentRefunds = new Map<string, string>();
+  private readonly refundedAmounts = new Map<string, number>();
+  private readonly listeners = new Set<PaymentEventListener>();
+  private queue: Array<{ type: PaymentEventType; intentId: string }> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private intentCount = 0;
+  private refundCount = 0;
+  private eventCount = 0;
+  private readonly webhookDelayMs: number;
+  private readonly autoDeliver: boolean;
+
+  constructor(options: SimulatorPaymentProviderOptions = {}) {
+    this.webhookDelayMs = options.webhookDelayMs ?? 3000;
+    this.autoDeliver = options.autoDeliver ?? true;
+  }
+
+  async createIntent(params: CreateProviderIntentParams): Promise<ProviderPaymentIntent> {
+    if (!Number.isInteger(params.amount) || params.amount <= 0) {
+      throw new PaymentProviderError('Amount must be a positive integer in minor units', 'invalid_amount', 400);
+    }
+
+    if (params.idempotencyKey) {
+      const existingId = this.idempotentIntents.get(params.idempotencyKey);
+      if (existingId) return this.snapshot(existingId);
+    }
+
+    this.intentCount++;
+    const id = `pi_sim_${String(this.intentCount).padStart(6, '0')}`;
+
+    this.intents.set(id, {
+      id,
+      amount: params.amount,
+      currency: params.currency.toLowerCase(),
+      status: 'requires_payment_method',
+      clientSecret: `${id}_secret_sim`,
+      metadata: { ...(params.metadata || {}) },
+      nextAction: null,
+      lastError: null,
+    });
+
+    if (params.idempotencyKey) {
+      this.idempotentIntents.set(params.idempotencyKey, id);
+    }
+
+    return this.snapshot(id);
+  }
+
+  async retrieveIntent(intentId: string): Promise<ProviderPaymentIntent> {
+    return this.snapshot(intentId);
+  }
+
+  async confirmIntent(intentId: string, params: ConfirmProviderIntentParams): Promise<ProviderPaymentIntent> {
+    const intent = this.get(intentId);
+
+    if (intent.status !== 'requires_payment_method' && intent.status !== 'requires_confirmation') {
+      throw new PaymentProviderError(
+        `Payment intent ${intentId} cannot be confirmed while ${intent.status}`,
+        'payment_intent_unexpected_state',
+        400
+      );
+    }
+
+    const cardNumber = params.paymentMethod.cardNumber?.replace(/\s+/g, '')
+      || (params.paymentMethod.token ? TOKEN_CARDS[params.paymentMethod.token] : undefined);
+
+    const outcome: SimulatedOutcome = (cardNumber && CARD_OUTCOMES[cardNumber]) || {
+      kind: 'decline',
+      code: 'incorrect_number',
+      message: 'Use one of the simulator test cards.',
+    };
+
+    intent.lastError = null;
+    intent.nextAction = null;
+
+    switch (outcome.kind) {
+      case 'succeed':
+        intent.status = 'succeeded';
+        break;
+
+      case 'decline':
+        intent.status = 'requires_payment_method';
+        intent.lastError = { code: outcome.code, message: outcome.message };
+        break;
+
+      case 'authenticate':
+        intent.status = 'requires_action';
+        // No redirect: the challenge is answered in place through resolveAction()
+        intent.nextAction = { type: 'authenticate', url: null };
+        break;
+
+      case 'delayed':
+        intent.status = 'processing';
+        this.pendingOutcomes.set(intent.id, outcome.then);
+        this.enqueue('payment_intent.processing', intent.id);
+        break;
+    }
+
+    return this.snapshot(intentId);
+  }
+
+  async resolveAction(intentId: string, approve: boolean): Promise<ProviderPaymentIntent> {
+    const intent = this.get(intentId);
+
+    if (intent.status !== 'requires_action') {
+      throw new PaymentProviderError(
+        `Payment intent ${intentId} has no pending authentication`,
+        'payment_intent_unexpected_state',
+        400
+      );
+    }
+
+    intent.nextAction = null;
+    if (approve) {
+      intent.status = 'succeeded';
+    } else {
+      intent.status = 'requires_payment_method';
+      intent.lastError = {
+        code: 'payment_intent_authentication_failure',
+        message: 'The card could not be authenticated.',
+      };
+    }
+
+    return this.snapshot(intentId);
+  }
+
+  async cancelIntent(intentId: string): Promise<ProviderPaymentIntent> {
+    const intent = this.get(intentId);
+
+    if (intent.status === 'succeeded') {
+      throw new PaymentProviderError('A succeeded payment cannot be canceled', 'payment_intent_unexpected_state', 400);
+    }
+
+    intent.status = 'canceled';
+    intent.nextAction = null;
+    this.pendingOutcomes.delete(intentId);
+
+    return this.snapshot(intentId);
+  }
+
+  async refundIntent(params: CreateProviderRefundParams): Promise<ProviderRefund> {
+    if (params.idempotencyKey) {
+      const existingId = this.idempotentRefunds.get(params.idempotencyKey);
+      if (existingId) return { ...this.refunds.get(existingId)! };
+    }
+
+    const intent = this.get(params.intentId);
+
+    if (intent.status !== 'succeeded') {
+      throw new PaymentProviderError(
+        `Payment intent ${intent.id} has not succeeded and cannot be refunded`,
+        'charge_not_refundable',
+        400
+      );
+    }
+
+    const refunded = this.refundedAmounts.get(intent.id) || 0;
+    const amount = params.amount ?? intent.amount - refunded;
+
+    if (!Number.isInteger(amount) || amount <= 0 || refunded + amount > intent.amount) {
+      throw new PaymentProviderError(
+        `Refund amount ${amount} exceeds the ${intent.amount - refunded} left on ${intent.id}`,
+        'amount_too_large',
+        400
+      );
+    }
+
+    this.refundCount++;
+    const refund: ProviderRefund = {
+      id: `re_sim_${String(this.refundCount).padStart(6, '0')}`,
+      intentId: intent.id,
+      amount,
+      currency: intent.currency,
+      status: 'succeeded',
+      reason: params.reason || null,
+      metadata: { ...(params.metadata || {}) },
+    };
+
+    this.refunds.set(refund.id, refund);
+    this.refundedAmounts.set(intent.id, refunded + amount);
+    if (params.idempotencyKey) {
+      this.idempotentRefunds.set(params.idempotencyKey, refund.id);
+    }
+
+    this.enqueue('charge.refunded', intent.id);
+
+    return { ...refund, metadata: { ...refund.metadata } };
+  }
+
+  async parseWebhook(payload: string): Promise<PaymentEvent> {
+    try {
+      return JSON.parse(payload) as PaymentEvent;
+    } catch {
+      throw new PaymentProviderError('Invalid simulator event payload', 'invalid_payload', 400);
+    }
+  }
+
+  onEvent(listener: PaymentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Settle every delayed outcome and deliver all queued events now
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Delayed outcomes settle when their processing event goes out
+    while (this.queue.length > 0) {
+      const batch = this.queue;
+      this.queue = [];
+
+      for (const { type, intentId } of batch) {
+        await this.deliver(type, intentId);
+        if (type === 'payment_intent.processing') {
+          this.settle(intentId);
+        }
+      }
+    }
+  }
+
+  private settle(intentId: string): void {
+    const then = this.pendingOutcomes.get(intentId);
+    if (!then) return;
+
+    this.pendingOutcomes.delete(intentId);
+    const intent = this.get(intentId);
+
+    if (then === 'succeed') {
+      intent.status = 'succeeded';
+      this.queue.push({ type: 'payment_intent.succeeded', intentId });
+    } else {
+      intent.status = 'requires_payment_method';
+      intent.lastError = { ...DELAYED_DECLINE_ERROR };
+      this.queue.push({ type: 'payment_intent.payment_failed', intentId });
+    }
+  }
+
+  private enqueue(type: PaymentEventType, intentId: string): void {
+    this.queue.push({ type, intentId });
+
+    if (this.autoDeliver && !this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush().catch(error => console.error('Simulator event delivery failed:', error));
+      }, this.webhookDelayMs);
+    }
+  }
+
+  private async deliver(type: PaymentEventType, intentId: string): Promise<void> {
+    this.eventCount++;
+    const event: PaymentEvent = {
+      id: `evt_sim_${String(this.eventCount).padStart(6, '0')}`,
+      type,
+      intent: this.snapshot(intentId),
+      refund: type === 'charge.refunded'
+        ? { intentId, amountRefunded: this.refundedAmounts.get(intentId) || 0, currency: this.get(intentId).currency }
+        : null,
+      data: null,
+      createdAt: new Date().toISOString(),
+    };
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error(`Simulator event listener failed for ${event.id}:`, error);
+      }
+    }
+  }
+
+  private get(intentId: string): ProviderPaymentIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new PaymentProviderError(`No such payment intent: ${intentId}`, 'resource_missing', 404);
+    }
+    return intent;
+  }
+
+  private snapshot(intentId: string): ProviderPaymentIntent {
+    const intent = this.get(intentId);
+    return {
+      ...intent,
+      metadata: { ...intent.metadata },
+      nextAction: intent.nextAction ? { ...intent.nextAction } : null,
+      lastError: intent.lastError ? { ...intent.lastError } : null,
+    };
+  }
+}
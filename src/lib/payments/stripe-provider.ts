@@ -0,0 +1,177 @@
+import Stripe from 'stripe';
+import {
+  PaymentProviderError,
+  type ConfirmProviderIntentParams,
+  type CreateProviderIntentParams,
+  type CreateProviderRefundParams,
+  type PaymentEvent,
+  type PaymentProvider,
+  type ProviderPaymentIntent,
+  type ProviderRefund,
+} from './provider';
+
+export interface StripePaymentProviderOptions {
+  secretKey?: string;
+  webhookSecret?: string;
+  client?: Stripe;
+}
+
+/**
+ * Payment provider backed by the Stripe API. Events arrive through /api/webhooks/stripe.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  private readonly stripe: Stripe;
+  private readonly webhookSecret: string;
+
+  constructor(options: StripePaymentProviderOptions = {}) {
+    this.stripe = options.client || new Stripe(options.secretKey || process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: '2025-08-27.basil',
+    });
+    this.webhookSecret = options.webhookSecret || process.env.STRIPE_WEBHOOK_SECRET || '';
+  }
+
+  async createIntent(params: CreateProviderIntentParams): Promise<ProviderPaymentIntent> {
+    return this.call(async () => {
+      const intent = await this.stripe.paymentIntents.create({
+        amount: params.amount,
+        currency: params.currency.toLowerCase(),
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        metadata: params.metadata || {},
+      }, params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined);
+
+      return toProviderIntent(intent);
+    });
+  }
+
+  async retrieveIntent(intentId: string): Promise<ProviderPaymentIntent> {
+    return this.call(async () => toProviderIntent(await this.stripe.paymentIntents.retrieve(intentId)));
+  }
+
+  async confirmIntent(intentId: string, params: ConfirmProviderIntentParams): Promise<ProviderPaymentIntent> {
+    if (!params.paymentMethod.token) {
+      throw new PaymentProviderError('Stripe payments need a payment method token', 'invalid_payment_method', 400);
+    }
+
+    try {
+      const intent = await this.stripe.paymentIntents.confirm(intentId, {
+        payment_method: params.paymentMethod.token,
+        return_url: params.returnUrl,
+      });
+      return toProviderIntent(intent);
+    } catch (error) {
+      // Declines come back as card errors; report them on the intent like the simulator does
+      if (error instanceof Stripe.errors.StripeCardError) {
+        const intent = await this.retrieveIntent(intentId);
+        return {
+          ...intent,
+          lastError: intent.lastError || { code: error.code || 'card_declined', message: error.message },
+        };
+      }
+      throw toProviderError(error);
+    }
+  }
+
+  async cancelIntent(intentId: string): Promise<ProviderPaymentIntent> {
+    return this.call(async () => toProviderIntent(await this.stripe.paymentIntents.cancel(intentId)));
+  }
+
+  async refundIntent(params: CreateProviderRefundParams): Promise<ProviderRefund> {
+    return this.call(async () => {
+      const refund = await this.stripe.refunds.create({
+        payment_intent: params.intentId,
+        amount: params.amount,
+        metadata: {
+          ...params.metadata,
+          ...(params.reason ? { reason: params.reason } : {}),
+        },
+      }, params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined);
+
+      return {
+        id: refund.id,
+        intentId: params.intentId,
+        amount: refund.amount,
+        currency: refund.currency,
+        status: toRefundStatus(refund.status),
+        reason: params.reason || null,
+        metadata: (refund.metadata || {}) as Record<string, string>,
+      };
+    });
+  }
+
+  async parseWebhook(payload: string, signature: string | null): Promise<PaymentEvent> {
+    if (!signature) {
+      throw new PaymentProviderError('Missing Stripe signature', 'invalid_signature', 400);
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(payload, signature, this.webhookSecret);
+    } catch (error) {
+      throw new PaymentProviderError(
+        error instanceof Error ? error.message : 'Invalid signature',
+        'invalid_signature',
+        400
+      );
+    }
+
+    const object = event.data.object as { object?: string };
+    const charge = object.object === 'charge' ? object as Stripe.Charge : null;
+    const chargeIntentId = typeof charge?.payment_intent === 'string' ? charge.payment_intent : charge?.payment_intent?.id;
+
+    return {
+      id: event.id,
+      type: event.type,
+      intent: object.object === 'payment_intent' ? toProviderIntent(object as Stripe.PaymentIntent) : null,
+      refund: charge && chargeIntentId
+        ? { intentId: chargeIntentId, amountRefunded: charge.amount_refunded, currency: charge.currency }
+        : null,
+      data: event.data.object,
+      createdAt: new Date(event.created * 1000).toISOString(),
+    };
+  }
+
+  private async call<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+}
+
+function toProviderIntent(intent: Stripe.PaymentIntent): ProviderPaymentIntent {
+  const redirectUrl = intent.next_action?.redirect_to_url?.url || null;
+
+  return {
+    id: intent.id,
+    amount: intent.amount,
+    currency: intent.currency,
+    // Stripe's requires_capture is not used: intents capture automatically
+    status: intent.status === 'requires_capture' ? 'processing' : intent.status,
+    clientSecret: intent.client_secret,
+    metadata: intent.metadata || {},
+    nextAction: intent.status === 'requires_action' ? { type: 'authenticate', url: redirectUrl } : null,
+    lastError: intent.last_payment_error
+      ? {
+          code: intent.last_payment_error.decline_code || intent.last_payment_error.code || 'payment_failed',
+          message: intent.last_payment_error.message || 'Payment failed',
+        }
+      : null,
+  };
+}
+
+function toRefundStatus(status: string | null): ProviderRefund['status'] {
+  // requires_action only happens for some non-card methods; the refund is still outstanding
+  return status === 'succeeded' || status === 'failed' || status === 'canceled' ? status : 'pending';
+}
+
+function toProviderError(error: unknown): PaymentProviderError {
+  if (error instanceof PaymentProviderError) return error;
+  if (error instanceof Stripe.errors.StripeError) {
+    return new PaymentProviderError(error.message, error.code || error.type, error.statusCode || 500);
+  }
+  return new PaymentProviderError(error instanceof Error ? error.message : 'Payment provider request failed');
+}
@@ -0,0 +1,191 @@
+/**
+ * Promotion rules
+ *
+ * Pure evaluation of a promotion against an order's priced items: whether it can be used right now
+ * and how much it takes off. Usage limits depend on past orders; PromotionService checks them when a
+ * code is applied and place_checkout_order checks them again, under a lock, when the order is placed.
+ */
+
+import type { Promotion } from '@/types/promotion';
+
+export type PromotionErrorCode =
+  | 'NOT_FOUND'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'MIN_SUBTOTAL'
+  | 'NO_ELIGIBLE_ITEMS'
+  | 'USAGE_LIMIT'
+  | 'BUYER_USAGE_LIMIT';
+
+export class PromotionError extends Error {
+  constructor(
+    public code: PromotionErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+// An order line priced in the base currency, with what promotions can target
+export interface PromotionItem {
+  productId: string;
+  brandId?: string | null;
+  categoryId?: string | null;
+  price: number;
+  quantity: number;
+}
+
+export interface PromotionDiscount {
+  itemDiscount: number; // taken off the items, base currency
+  lineDiscounts: number[]; // itemDiscount split over the items, in the order they were given
+  freeShipping: boolean;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatBaseAmount(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR' }).format(amount);
+}
+
+/**
+ * Split a discount over lines in proportion to their weights. The parts are rounded and add up to the
+ * discount exactly: the last weighted line takes the rounding remainder.
+ */
+export function spreadDiscount(
+  amount: number,
+  weights: number[],
+  round: (amount: number) => number = roundMoney
+): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (amount <= 0 || totalWeight <= 0) return weights.map(() => 0);
+
+  const last = weights.reduce((found, weight, index) => (weight > 0 ? index : found), -1);
+  let allocated = 0;
+
+  return weights.map((weight, index) => {
+    if (index === last) return round(amount - allocated);
+    const part = round(amount * weight / totalWeight);
+    allocated += part;
+    return part;
+  });
+}
+
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Whether an item counts towards the promotion: it matches any targeted brand, category or product,
+ * and every item counts when the promotion targets nothing
+ */
+export function isPromotionTarget(
+  promotion: Pick<Promotion, 'brand_ids' | 'category_ids' | 'product_ids'>,
+  item: PromotionItem
+): boolean {
+  const targeted = promotion.brand_ids.length + promotion.category_ids.length + promotion.product_ids.length > 0;
+  if (!targeted) return true;
+
+  return promotion.product_ids.includes(item.productId) ||
+    (!!item.brandId && promotion.brand_ids.includes(item.brandId)) ||
+    (!!item.categoryId && promotion.category_ids.includes(item.categoryId));
+}
+
+/**
+ * Throws when the promotion is switched off or outside its date window
+ */
+export function checkPromotionWindow(
+  promotion: Pick<Promotion, 'is_active' | 'starts_at' | 'ends_at'>,
+  now: Date = new Date()
+): void {
+  if (!promotion.is_active) {
+    throw new PromotionError('NOT_FOUND', 'This discount code is not valid');
+  }
+  if (promotion.starts_at && Date.parse(promotion.starts_at) > now.getTime()) {
+    throw new PromotionError('NOT_STARTED', 'This discount code is not active yet');
+  }
+  if (promotion.ends_at && Date.parse(promotion.ends_at) <= now.getTime()) {
+    throw new PromotionError('EXPIRED', 'This discount code has expired');
+  }
+}
+
+/**
+ * The discount a promotion gives these items. Throws a PromotionError when it does not apply; the
+ * minimum subtotal is measured on the whole order, the discount only on the items it targets.
+ */
+export function applyPromotion(
+  promotion: Promotion,
+  items: PromotionItem[],
+  now: Date = new Date()
+): PromotionDiscount {
+  checkPromotionWindow(promotion, now);
+
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  if (promotion.min_subtotal !== null && subtotal < promotion.min_subtotal) {
+    throw new PromotionError(
+      'MIN_SUBTOTAL',
+      `Add ${formatBaseAmount(roundMoney(promotion.min_subtotal - subtotal))} more to use this discount code`
+    );
+  }
+
+  const isEligible = (item: PromotionItem) => item.quantity > 0 && isPromotionTarget(promotion, item);
+  const eligible = items.filter(isEligible);
+  const eligibleSubtotal = roundMoney(eligible.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  if (eligible.length === 0) {
+    throw new PromotionError('NO_ELIGIBLE_ITEMS', 'This discount code does not apply to the items in your cart');
+  }
+
+  // Order-wide amounts are shared by the eligible lines in proportion to their value
+  const eligibleValues = items.map(item => (isEligible(item) ? item.price * item.quantity : 0));
+  const onEligible = (itemDiscount: number): PromotionDiscount => ({
+    itemDiscount,
+    lineDiscounts: spreadDiscount(itemDiscount, eligibleValues),
+    freeShipping: false,
+  });
+
+  switch (promotion.type) {
+    case 'percentage':
+      return onEligible(roundMoney(eligibleSubtotal * promotion.value / 100));
+
+    case 'fixed_amount':
+      return onEligible(roundMoney(Math.min(promotion.value, eligibleSubtotal)));
+
+    case 'free_shipping':
+      return { itemDiscount: 0, lineDiscounts: items.map(() => 0), freeShipping: true };
+
+    case 'buy_x_get_y': {
+      const buy = promotion.buy_quantity ?? 1;
+      const get = promotion.get_quantity ?? 1;
+
+      // One entry per pair, most expensive first; the cheapest pairs of each full group are discounted
+      const pairs = items
+        .flatMap((item, line) =>
+          isEligible(item) ? Array.from({ length: item.quantity }, () => ({ line, price: item.price })) : []
+        )
+        .sort((a, b) => b.price - a.price);
+      const discountedPairs = Math.floor(pairs.length / (buy + get)) * get;
+
+      if (discountedPairs === 0) {
+        const missing = buy + get - pairs.length;
+        throw new PromotionError(
+          'NO_ELIGIBLE_ITEMS',
+          `Add ${missing} more eligible ${missing === 1 ? 'pair' : 'pairs'} to use this discount code`
+        );
+      }
+
+      // The discount belongs to the lines the free or reduced pairs came from
+      const discounted = pairs.slice(pairs.length - discountedPairs);
+      const discountedValues = items.map((_, line) =>
+        discounted.filter(pair => pair.line === line).reduce((sum, pair) => sum + pair.price, 0)
+      );
+      const itemDiscount = roundMoney(discounted.reduce((sum, pair) => sum + pair.price, 0) * promotion.value / 100);
+
+      return { itemDiscount, lineDiscounts: spreadDiscount(itemDiscount, discountedValues), freeShipping: false };
+    }
+
+    default:
+      throw new PromotionError('NOT_FOUND', 'This discount code is not valid');
+  }
+}
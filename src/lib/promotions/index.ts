@@ -0,0 +1,18 @@
+/**
+ * Promotions module exports
+ */
+export {
+  PromotionError,
+  normalizePromotionCode,
+  isPromotionTarget,
+  checkPromotionWindow,
+  applyPromotion,
+  spreadDiscount,
+} from './engine';
+
+// Re-export types
+export type {
+  PromotionErrorCode,
+  PromotionItem,
+  PromotionDiscount,
+} from './engine';
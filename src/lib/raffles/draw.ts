@@ -0,0 +1,104 @@
+/**
+ * Raffle draws
+ *
+ * A raffle's draw order is fixed by a secret seed chosen when the raffle is scheduled. Only the
+ * seed's sha256 commitment is published while entries are open; the draw reveals the seed, and
+ * anyone holding it and the entry ids can recompute every size's order and check it against the
+ * commitment. Each entry's place comes from hashing the seed with the entry id, so the order does not
+ * depend on when or in which order people entered.
+ */
+
+import crypto from 'crypto';
+import type { Raffle } from '@/types/raffle';
+
+/** Minutes a winner has to pay for their held unit before it rolls down to the next alternate */
+export const DEFAULT_CLAIM_MINUTES = 60;
+export const MIN_CLAIM_MINUTES = 10;
+export const MAX_CLAIM_MINUTES = 72 * 60;
+
+export type RafflePhase = 'upcoming' | 'open' | 'closed' | 'drawn' | 'cancelled';
+
+export interface DrawEntry {
+  id: string;
+  size: string;
+}
+
+export interface RankedEntry extends DrawEntry {
+  rank: number; // 1-based within the size
+  score: string;
+}
+
+/**
+ * A new secret seed for a raffle
+ */
+export function generateSeed(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * The published commitment to a seed
+ */
+export function seedCommitment(seed: string): string {
+  return crypto.createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * An entry's score under a seed; lower scores are drawn first
+ */
+export function drawScore(seed: string, entryId: string): string {
+  return crypto.createHash('sha256').update(`${seed}:${entryId}`).digest('hex');
+}
+
+/**
+ * Every entry ranked within its size, sizes in order. The entry id breaks (practically impossible)
+ * score ties so the order is total.
+ */
+export function drawOrder(seed: string, entries: DrawEntry[]): RankedEntry[] {
+  const bySize = new Map<string, Array<DrawEntry & { score: string }>>();
+
+  for (const entry of entries) {
+    const scored = { id: entry.id, size: entry.size, score: drawScore(seed, entry.id) };
+    bySize.set(entry.size, [...(bySize.get(entry.size) || []), scored]);
+  }
+
+  return Array.from(bySize.keys())
+    .sort()
+    .flatMap(size =>
+      bySize
+        .get(size)!
+        .sort((a, b) => a.score.localeCompare(b.score) || a.id.localeCompare(b.id))
+        .map((entry, index) => ({ ...entry, rank: index + 1 }))
+    );
+}
+
+/**
+ * Whether a revealed seed matches the commitment and reproduces the recorded ranks
+ */
+export function verifyDraw(
+  seed: string,
+  commitment: string,
+  recorded: Array<DrawEntry & { rank: number | null }>
+): boolean {
+  if (seedCommitment(seed) !== commitment) {
+    return false;
+  }
+
+  const ranks = new Map(drawOrder(seed, recorded).map(entry => [entry.id, entry.rank]));
+  return recorded.every(entry => ranks.get(entry.id) === entry.rank);
+}
+
+/**
+ * Where a raffle stands at a moment: entries are taken while open, and it can be drawn once closed
+ */
+export function rafflePhase(
+  raffle: Pick<Raffle, 'status' | 'entry_opens_at' | 'entry_closes_at'>,
+  now: Date = new Date()
+): RafflePhase {
+  if (raffle.status !== 'scheduled') {
+    return raffle.status;
+  }
+  if (now < new Date(raffle.entry_opens_at)) {
+    return 'upcoming';
+  }
+  return now < new Date(raffle.entry_closes_at) ? 'open' : 'closed';
+}
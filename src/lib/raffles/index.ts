@@ -0,0 +1,17 @@
+/**
+ * Raffles module exports
+ */
+export {
+  DEFAULT_CLAIM_MINUTES,
+  MAX_CLAIM_MINUTES,
+  MIN_CLAIM_MINUTES,
+  drawOrder,
+  drawScore,
+  generateSeed,
+  rafflePhase,
+  seedCommitment,
+  verifyDraw,
+} from './draw';
+
+// Re-export types
+export type { DrawEntry, RafflePhase, RankedEntry } from './draw';
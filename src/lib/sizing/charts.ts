@@ -0,0 +1,115 @@
+export type SizeSystem = 'US' | 'UK' | 'EU' | 'CM' | 'JP';
+
+export type SizeGender = 'men' | 'women' | 'kids';
+
+export type SizeChartRow = Record<SizeSystem, string>;
+
+export interface SizeChart {
+  id: string;
+  gender: SizeGender;
+  rows: SizeChartRow[];
+}
+
+// [US, UK, EU, CM]; JP sizing is the foot length in centimetres, so it matches CM
+type ChartEntry = [number, number, string, number];
+
+function buildChart(id: string, gender: SizeGender, entries: ChartEntry[]): SizeChart {
+  return {
+    id,
+    gender,
+    rows: entries.map(([us, uk, eu, cm]) => ({
+      US: String(us),
+      UK: String(uk),
+      EU: eu,
+      CM: String(cm),
+      JP: String(cm),
+    })),
+  };
+}
+
+const NIKE_MEN: ChartEntry[] = [
+  [3.5, 3, '35.5', 22.5], [4, 3.5, '36', 23], [4.5, 4, '36.5', 23.5], [5, 4.5, '37.5', 23.5],
+  [5.5, 5, '38', 24], [6, 5.5, '38.5', 24], [6.5, 6, '39', 24.5], [7, 6, '40', 25],
+  [7.5, 6.5, '40.5', 25.5], [8, 7, '41', 26], [8.5, 7.5, '42', 26.5], [9, 8, '42.5', 27],
+  [9.5, 8.5, '43', 27.5], [10, 9, '44', 28], [10.5, 9.5, '44.5', 28.5], [11, 10, '45', 29],
+  [11.5, 10.5, '45.5', 29.5], [12, 11, '46', 30], [12.5, 11.5, '47', 30.5], [13, 12, '47.5', 31],
+  [14, 13, '48.5', 32], [15, 14, '49.5', 33],
+];
+
+const NIKE_WOMEN: ChartEntry[] = [
+  [5, 2.5, '35.5', 22], [5.5, 3, '36', 22.5], [6, 3.5, '36.5', 23], [6.5, 4, '37.5', 23.5],
+  [7, 4.5, '38', 24], [7.5, 5, '38.5', 24.5], [8, 5.5, '39', 25], [8.5, 6, '40', 25.5],
+  [9, 6.5, '40.5', 26], [9.5, 7, '41', 26.5], [10, 7.5, '42', 27], [10.5, 8, '42.5', 27.5],
+  [11, 8.5, '43', 28], [11.5, 9, '44', 28.5], [12, 9.5, '44.5', 29],
+];
+
+// Grade school sizes, written with a "Y" in US sizing
+const NIKE_KIDS: ChartEntry[] = [
+  [3.5, 3, '35.5', 22.5], [4, 3.5, '36', 23], [4.5, 4, '36.5', 23.5], [5, 4.5, '37.5', 23.5],
+  [5.5, 5, '38', 24], [6, 5.5, '38.5', 24], [6.5, 6, '39', 24.5], [7, 6, '40', 25],
+];
+
+const ADIDAS_MEN: ChartEntry[] = [
+  [4, 3.5, '36', 22.5], [4.5, 4, '36 2/3', 23], [5, 4.5, '37 1/3', 23.5], [5.5, 5, '38', 23.5],
+  [6, 5.5, '38 2/3', 24], [6.5, 6, '39 1/3', 24.5], [7, 6.5, '40', 25], [7.5, 7, '40 2/3', 25.5],
+  [8, 7.5, '41 1/3', 26], [8.5, 8, '42', 26.5], [9, 8.5, '42 2/3', 27], [9.5, 9, '43 1/3', 27.5],
+  [10, 9.5, '44', 28], [10.5, 10, '44 2/3', 28.5], [11, 10.5, '45 1/3', 29], [11.5, 11, '46', 29.5],
+  [12, 11.5, '46 2/3', 30], [12.5, 12, '47 1/3', 30.5], [13, 12.5, '48', 31], [14, 13.5, '49 1/3', 32],
+];
+
+// Adidas women's US sizes run one size above men's for the same UK/EU size
+const ADIDAS_WOMEN: ChartEntry[] = ADIDAS_MEN
+  .filter(([us]) => us <= 11)
+  .map(([us, uk, eu, cm]) => [us + 1, uk, eu, cm]);
+
+const NEW_BALANCE_MEN: ChartEntry[] = [
+  [4, 3.5, '36', 22], [4.5, 4, '37', 22.5], [5, 4.5, '37.5', 23], [5.5, 5, '38', 23.5],
+  [6, 5.5, '38.5', 24], [6.5, 6, '39.5', 24.5], [7, 6.5, '40', 25], [7.5, 7, '40.5', 25.5],
+  [8, 7.5, '41.5', 26], [8.5, 8, '42', 26.5], [9, 8.5, '42.5', 27], [9.5, 9, '43', 27.5],
+  [10, 9.5, '44', 28], [10.5, 10, '44.5', 28.5], [11, 10.5, '45', 29], [11.5, 11, '45.5', 29.5],
+  [12, 11.5, '46.5', 30], [13, 12.5, '47.5', 31], [14, 13.5, '49', 32],
+];
+
+// New Balance women's US sizes run 1.5 above men's
+const NEW_BALANCE_WOMEN: ChartEntry[] = NEW_BALANCE_MEN
+  .filter(([us]) => us <= 10.5)
+  .map(([us, uk, eu, cm]) => [us + 1.5, uk, eu, cm]);
+
+export const SIZE_CHARTS: Record<string, Record<SizeGender, SizeChart>> = {
+  nike: {
+    men: buildChart('nike-men', 'men', NIKE_MEN),
+    women: buildChart('nike-women', 'women', NIKE_WOMEN),
+    kids: buildChart('nike-kids', 'kids', NIKE_KIDS),
+  },
+  adidas: {
+    men: buildChart('adidas-men', 'men', ADIDAS_MEN),
+    women: buildChart('adidas-women', 'women', ADIDAS_WOMEN),
+    kids: buildChart('nike-kids', 'kids', NIKE_KIDS),
+  },
+  'new-balance': {
+    men: buildChart('new-balance-men', 'men', NEW_BALANCE_MEN),
+    women: buildChart('new-balance-women', 'women', NEW_BALANCE_WOMEN),
+    kids: buildChart('nike-kids', 'kids', NIKE_KIDS),
+  },
+};
+
+// Brands that share another brand's last; anything unlisted uses the default chart
+const BRAND_CHARTS: Record<string, string> = {
+  nike: 'nike',
+  jordan: 'nike',
+  'air jordan': 'nike',
+  converse: 'nike',
+  adidas: 'adidas',
+  yeezy: 'adidas',
+  'new balance': 'new-balance',
+};
+
+export const DEFAULT_CHART_BRAND = 'nike';
+
+/**
+ * Resolve the chart family for a brand name
+ */
+export function getChartBrand(brand?: string | null): string {
+  const key = (brand || '').trim().toLowerCase();
+  return BRAND_CHARTS[key] || DEFAULT_CHART_BRAND;
+}
@@ -0,0 +1,172 @@
+/**
+ * Size conversion between US, UK, EU, CM and JP sizing
+ *
+ * Stock, cart items and orders are keyed on one canonical size: the plain US
+ * size for the product's gender (men's US for men and unisex, women's US for
+ * women, youth US for kids). Every other system is a display concern.
+ */
+
+import {
+  SIZE_CHARTS,
+  getChartBrand,
+  type SizeChart,
+  type SizeChartRow,
+  type SizeGender,
+  type SizeSystem,
+} from './charts';
+
+export const SIZE_SYSTEMS: SizeSystem[] = ['US', 'UK', 'EU', 'CM', 'JP'];
+
+export interface SizeContext {
+  brand?: string | null;
+  gender?: string | null;
+}
+
+/**
+ * Map a product gender onto a chart gender; unisex and unknown use the men's chart
+ */
+export function getSizeGender(gender?: string | null): SizeGender {
+  switch ((gender || '').trim().toLowerCase()) {
+    case 'women':
+    case 'womens':
+    case 'female':
+    case 'w':
+      return 'women';
+    case 'kids':
+    case 'child':
+    case 'youth':
+    case 'gs':
+    case 'preschool':
+    case 'toddler':
+    case 'infant':
+      return 'kids';
+    default:
+      return 'men';
+  }
+}
+
+/**
+ * Conversion chart for a brand and gender
+ */
+export function getSizeChart(ctx: SizeContext = {}): SizeChart {
+  return SIZE_CHARTS[getChartBrand(ctx.brand)][getSizeGender(ctx.gender)];
+}
+
+/**
+ * Normalize a size value for comparison: strips the system prefix, gender
+ * suffixes and trailing zeros ("US 10.0", "10", "10 W" and "5Y" all compare
+ * by their number)
+ */
+function normalizeValue(raw: string): string {
+  const value = raw
+    .trim()
+    .toUpperCase()
+    .replace(/^(US|UK|EU|CM|JP)\s*/, '')
+    .replace(/^(M|W)\s+/, '')
+    .replace(/\s*(Y|C|W|M)$/, '')
+    .trim();
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return String(parseFloat(value));
+  }
+
+  return value.replace(/\s+/g, ' ');
+}
+
+function findRow(chart: SizeChart, size: string, system: SizeSystem): SizeChartRow | undefined {
+  const value = normalizeValue(size);
+  return chart.rows.find(row => normalizeValue(row[system]) === value);
+}
+
+/**
+ * Convert a size between systems; returns null when the chart has no such size
+ */
+export function convertSize(
+  size: string,
+  from: SizeSystem,
+  to: SizeSystem,
+  ctx: SizeContext = {}
+): string | null {
+  const row = findRow(getSizeChart(ctx), size, from);
+  return row ? row[to] : null;
+}
+
+/**
+ * Canonical (US) stock size for a size entered in any system.
+ * Sizes outside the chart are kept as-is so odd marketplace sizes still round-trip.
+ */
+export function toCanonicalSize(
+  size: string,
+  ctx: SizeContext = {},
+  system: SizeSystem = 'US'
+): string {
+  const row = findRow(getSizeChart(ctx), size, system);
+  if (row) return row.US;
+
+  return system === 'US' ? normalizeValue(size) : size.trim();
+}
+
+/**
+ * Display label for a canonical size in the given system, e.g. "US 10", "US W 8",
+ * "US 5Y", "EU 44". Falls back to the stored value when the size is not on the chart.
+ */
+export function formatSize(
+  size: string,
+  system: SizeSystem = 'US',
+  ctx: SizeContext = {}
+): string {
+  const gender = getSizeGender(ctx.gender);
+  const row = findRow(getSizeChart(ctx), size, 'US');
+
+  if (!row) return size;
+
+  if (system === 'US') {
+    if (gender === 'women') return `US W ${row.US}`;
+    if (gender === 'kids') return `US ${row.US}Y`;
+  }
+
+  return `${system} ${row[system]}`;
+}
+
+/**
+ * Every canonical size that matches the given sizes in a system, across all
+ * brand charts. Used to filter stock when the brand is not yet known.
+ */
+export function canonicalSizesFor(
+  sizes: string[],
+  system: SizeSystem = 'US',
+  gender?: string | null
+): string[] {
+  const genders: SizeGender[] = gender ? [getSizeGender(gender)] : ['men', 'women', 'kids'];
+  const values = new Set(sizes.map(normalizeValue));
+  const result = new Set<string>();
+
+  if (system === 'US') {
+    values.forEach(value => result.add(value));
+  }
+
+  Object.values(SIZE_CHARTS).forEach(charts => {
+    genders.forEach(g => {
+      charts[g].rows.forEach(row => {
+        if (values.has(normalizeValue(row[system]))) {
+          result.add(row.US);
+        }
+      });
+    });
+  });
+
+  return Array.from(result);
+}
+
+/**
+ * Sort comparator for canonical sizes: numeric sizes ascending, anything else after
+ */
+export function compareSizes(a: string, b: string): number {
+  const numA = parseFloat(normalizeValue(a));
+  const numB = parseFloat(normalizeValue(b));
+
+  if (isNaN(numA) && isNaN(numB)) return a.localeCompare(b);
+  if (isNaN(numA)) return 1;
+  if (isNaN(numB)) return -1;
+  return numA - numB;
+}
@@ -0,0 +1,18 @@
+/**
+ * Size conversion module exports
+ */
+export {
+  SIZE_SYSTEMS,
+  getSizeGender,
+  getSizeChart,
+  convertSize,
+  toCanonicalSize,
+  formatSize,
+  canonicalSizesFor,
+  compareSizes,
+} from './converter';
+export { SIZE_CHARTS, DEFAULT_CHART_BRAND, getChartBrand } from './charts';
+
+// Re-export types
+export type { SizeContext } from './converter';
+export type { SizeSystem, SizeGender, SizeChart, SizeChartRow } from './charts';
@@ -1,4 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
+import { formatSize, toCanonicalSize } from '@/lib/sizing';
+import { sellingPrice } from '@/lib/watchlist';
+import { EmailService } from '@/services/email/EmailService';
+import { BASE_CURRENCY } from '@/services/pricing';
+import type { WaitlistOffer } from '@/types/waitlist';
+
+/** Minutes a unit offered to the waitlist is held before it passes to the next user in line */
+export const WAITLIST_OFFER_MINUTES = 30;
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || '';
 
 export interface StockReservation {
   id: string;
@@ -350,27 +360,20 @@ export class StockManager {
     quantity: number,
     reason: string = 'Inventory restock',
     userId?: string
-  ): Promise<{ success: boolean; newQuantity?: number; error?: string }> {
+  ): Promise<{ success: boolean; newQuantity?: number; waitlistOffers?: number; error?: string }> {
+    // Stock is keyed on the canonical US size whatever format the size came in
+    size = toCanonicalSize(size);
+
     try {
-      // Ensure we have a product_stock record
-      await this.supabase
-        .from('product_stock')
-        .upsert({
-          product_id: productId,
-          size: size,
-          quantity: 0,
-          reserved_quantity: 0
-        }, {
-          onConflict: 'product_id,size',
-          ignoreDuplicates: true
-        });
-
-      // Add to existing stock
-      const { data, error } = await this.supabase.rpc('adjust_stock', {
+      // The restock, its inventory move and the waitlist offers commit together: the size's waitlist
+      // gets the new units before anyone else can buy them
+      const { data, error } = await this.supabase.rpc('restock_product_stock', {
         p_product_id: productId,
         p_size: size,
-        p_adjustment: quantity,
-        p_user_id: userId
+        p_quantity: quantity,
+        p_reason: reason,
+        p_user_id: userId,
+        p_ttl_minutes: WAITLIST_OFFER_MINUTES
       });
 
       if (error) {
@@ -380,20 +383,13 @@ export class StockManager {
         };
       }
 
-      // Log inventory move
-      await this.logInventoryMove({
-        product_id: productId,
-        size: size,
-        move_type: 'restock',
-        quantity: quantity,
-        reference_type: 'restock',
-        reason,
-        user_id: userId
-      });
+      const offers: WaitlistOffer[] = data?.offers || [];
+      await this.notifyWaitlistOffers(offers);
 
       return {
         success: true,
-        newQuantity: data?.new_quantity
+        newQuantity: data?.new_quantity,
+        waitlistOffers: offers.length
       };
 
     } catch (error) {
@@ -405,6 +401,185 @@ export class StockManager {
     }
   }
 
+  /**
+   * Offer a size's available units to its waitlist, first come first served, one unit per user held
+   * for ttlMinutes, and tell each user in queue order
+   */
+  async offerToWaitlist(
+    productId: string,
+    size: string,
+    ttlMinutes: number = WAITLIST_OFFER_MINUTES
+  ): Promise<{ offers: WaitlistOffer[]; error?: string }> {
+    try {
+      const { data, error } = await this.supabase.rpc('offer_waitlist_stock', {
+        p_product_id: productId,
+        p_size: size,
+        p_ttl_minutes: ttlMinutes
+      });
+
+      if (error) {
+        console.error('Error offering stock to waitlist:', error);
+        return {
+          offers: [],
+          error: `Failed to offer stock to waitlist: ${error.message}`
+        };
+      }
+
+      const offers: WaitlistOffer[] = data || [];
+      await this.notifyWaitlistOffers(offers);
+
+      return { offers };
+
+    } catch (error) {
+      console.error('Error offering stock to waitlist:', error);
+      return {
+        offers: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Close a waitlist place. An open offer's held unit passes to the next user in line, who is told,
+   * or goes back on sale when nobody is waiting.
+   */
+  async passWaitlistOffer(
+    entryId: string,
+    status: 'expired' | 'cancelled',
+    ttlMinutes: number = WAITLIST_OFFER_MINUTES
+  ): Promise<{ success: boolean; nextOffer?: WaitlistOffer; error?: string }> {
+    try {
+      const { data, error } = await this.supabase.rpc('pass_waitlist_offer', {
+        p_entry_id: entryId,
+        p_status: status,
+        p_ttl_minutes: ttlMinutes
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to close waitlist place: ${error.message}`
+        };
+      }
+
+      if (data) {
+        await this.notifyWaitlistOffers([data]);
+      }
+
+      return {
+        success: true,
+        nextOffer: data || undefined
+      };
+
+    } catch (error) {
+      console.error('Error passing waitlist offer:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Pass on waitlist offers that were not bought in time.
+   * Runs before cleanupExpiredReservations, which would otherwise put their held units back on sale.
+   */
+  async expireWaitlistOffers(): Promise<{
+    expired: number;
+    passed: number;
+    error?: string;
+  }> {
+    try {
+      const { data, error } = await this.supabase
+        .from('stock_waitlist')
+        .select('id')
+        .eq('status', 'offered')
+        .lte('offer_expires_at', new Date().toISOString())
+        .order('offer_expires_at', { ascending: true });
+
+      if (error) {
+        return {
+          expired: 0,
+          passed: 0,
+          error: error.message
+        };
+      }
+
+      let passed = 0;
+      for (const entry of data || []) {
+        const result = await this.passWaitlistOffer(entry.id, 'expired');
+        if (result.error) {
+          console.error(`Error expiring waitlist offer ${entry.id}:`, result.error);
+        } else if (result.nextOffer) {
+          passed++;
+        }
+      }
+
+      return {
+        expired: (data || []).length,
+        passed
+      };
+
+    } catch (error) {
+      console.error('Error expiring waitlist offers:', error);
+      return {
+        expired: 0,
+        passed: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Record returned units that cannot be resold.
+   * They were never put back into sellable stock, so stock levels are unchanged; the adjustment
+   * move records the loss against the return.
+   */
+  async recordWriteOff(
+    productId: string,
+    size: string,
+    quantity: number,
+    referenceId: string,
+    reason: string,
+    userId?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    size = toCanonicalSize(size);
+
+    try {
+      // Written directly rather than through logInventoryMove: here the move is the record
+      const move: StockMove = {
+        product_id: productId,
+        size: size,
+        move_type: 'adjustment',
+        quantity: -quantity,
+        reference_id: referenceId,
+        reference_type: 'return_write_off',
+        reason,
+        user_id: userId
+      };
+
+      const { error } = await this.supabase
+        .from('inventory_moves')
+        .insert([move]);
+
+      if (error) {
+        return {
+          success: false,
+          error: `Failed to record write-off: ${error.message}`
+        };
+      }
+
+      return { success: true };
+
+    } catch (error) {
+      console.error('Error recording write-off:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Get inventory move history
    */
@@ -494,6 +669,76 @@ export class StockManager {
     }
   }
 
+  /**
+   * Tell users their waitlisted size is held for them, by email and in the notification feed.
+   * The offer stands whether or not the message gets through: it also shows on the product page.
+   */
+  private async notifyWaitlistOffers(offers: WaitlistOffer[]): Promise<void> {
+    for (const offer of offers) {
+      try {
+        const [{ data: product }, { data: preferenceRow }, { data: account }] = await Promise.all([
+          this.supabase
+            .from('products')
+            .select('name, gender, image_urls, retail_price, current_price, brands (name, display_name)')
+            .eq('id', offer.product_id)
+            .single(),
+          this.supabase
+            .from('user_preferences')
+            .select('preferences')
+            .eq('user_id', offer.user_id)
+            .maybeSingle(),
+          this.supabase.auth.admin.getUserById(offer.user_id)
+        ]);
+
+        const brands: any = product?.brands;
+        const productName = product?.name || 'A product you waited for';
+        const sizeSystem = preferenceRow?.preferences?.sizeSystem;
+        const displaySize = formatSize(offer.size, sizeSystem, { brand: brands?.name, gender: product?.gender });
+        const minutes = Math.max(1, Math.round((new Date(offer.offer_expires_at).getTime() - Date.now()) / 60000));
+
+        const { error } = await this.supabase
+          .from('user_notifications')
+          .insert([{
+            user_id: offer.user_id,
+            type: 'waitlist_offer',
+            title: 'Your size is back!',
+            message: `${productName} in ${displaySize} is held for you for the next ${minutes} minutes`,
+            data: {
+              productId: offer.product_id,
+              size: offer.size,
+              waitlistId: offer.id,
+              expiresAt: offer.offer_expires_at
+            }
+          }]);
+
+        if (error) {
+          console.error(`Error storing waitlist offer notification ${offer.id}:`, error);
+        }
+
+        const email = account?.user?.email;
+        if (email) {
+          const price = product ? sellingPrice(product) : null;
+          await EmailService.sendWaitlistOffer({
+            customerEmail: email,
+            customerName: account.user?.user_metadata?.full_name || 'there',
+            productName,
+            brand: brands?.display_name || brands?.name || undefined,
+            gender: product?.gender || undefined,
+            image: product?.image_urls?.[0] || undefined,
+            size: offer.size,
+            price: price === null ? undefined : price,
+            currency: BASE_CURRENCY,
+            sizeSystem,
+            productUrl: `${SITE_URL}/products/${offer.product_id}`,
+            expiresAt: offer.offer_expires_at
+          });
+        }
+      } catch (error) {
+        console.error(`Error notifying waitlist offer ${offer.id}:`, error);
+      }
+    }
+  }
+
   /**
    * Get low stock alerts
    */
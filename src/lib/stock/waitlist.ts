@@ -0,0 +1,19 @@
+/**
+ * Waitlist stock
+ *
+ * Restocked units of a size go to its waitlist before anyone else can buy them. The queue itself is
+ * run by the restock_product_stock, offer_waitlist_stock and pass_waitlist_offer RPCs under a lock on
+ * the size's stock row; StockWaitlistService uses this helper to tell whether a size can be queued for.
+ */
+
+export interface StockLevel {
+  quantity: number;
+  reserved_quantity: number;
+}
+
+/**
+ * Units of a size that nobody holds: what the waitlist can be offered, or the public can buy
+ */
+export function availableUnits(stock: StockLevel): number {
+  return Math.max(0, stock.quantity - stock.reserved_quantity);
+}
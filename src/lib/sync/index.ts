@@ -4,14 +4,23 @@
 export { SyncEngine } from './sync-engine';
 export { SyncMonitor } from './monitor';
 export { SyncRecovery } from './recovery';
+export { SyncJobQueue } from './job-queue';
+export { ProductMatcher, normalizeSku } from './product-matcher';
 export * from './transformers';
 
 // Re-export types
-export type { SyncOptions, SyncResult } from './sync-engine';
+export { SyncLeaseLostError } from './sync-engine';
+export type { SyncOptions, SyncResult, SyncJobHandler, SyncJobContext, SyncJobRun } from './sync-engine';
+export type { SyncJobOptions, EnqueueSyncJobOptions, SyncJobQueueOptions } from './job-queue';
+export type { ProductMatchCandidate, ProductMatchDecision } from './product-matcher';
 
+import { KicksDBClient, kicksDBClient } from '@/lib/kicksdb';
 import { SyncEngine } from './sync-engine';
 import { SyncMonitor } from './monitor';
 import { SyncRecovery } from './recovery';
+import { SyncJobQueue, type SyncJobOptions, type EnqueueSyncJobOptions } from './job-queue';
+import type { SyncResult } from './sync-engine';
+import type { DBSyncLog, SyncJobType } from '@/types/database';
 
 /**
  * Main sync orchestrator class
@@ -20,11 +29,63 @@ export class SyncOrchestrator {
   private engine: SyncEngine;
   private monitor: SyncMonitor;
   private recovery: SyncRecovery;
+  private jobs: SyncJobQueue;
 
-  constructor() {
-    this.engine = new SyncEngine();
-    this.monitor = new SyncMonitor();
-    this.recovery = new SyncRecovery();
+  constructor(kicksDB: KicksDBClient = kicksDBClient) {
+    this.engine = new SyncEngine(kicksDB);
+    this.monitor = new SyncMonitor(kicksDB);
+    this.recovery = new SyncRecovery(kicksDB);
+    this.jobs = new SyncJobQueue(this.engine);
+  }
+
+  /**
+   * Run a sync job of any registered type now, recording it in the job table
+   */
+  async runJob(
+    type: SyncJobType,
+    options: SyncJobOptions = {},
+    enqueueOptions: EnqueueSyncJobOptions = {}
+  ): Promise<SyncResult> {
+    return this.jobs.run(type, options, enqueueOptions);
+  }
+
+  /**
+   * Queue a sync job for a worker (`npm run sync:worker`)
+   */
+  async enqueueJob(
+    type: SyncJobType,
+    options: SyncJobOptions = {},
+    enqueueOptions: EnqueueSyncJobOptions = {}
+  ): Promise<string> {
+    return this.jobs.enqueue(type, options, enqueueOptions);
+  }
+
+  /**
+   * Run due queued jobs
+   */
+  async processPendingJobs(maxJobs: number = 10): Promise<SyncResult[]> {
+    return this.jobs.drain(maxJobs);
+  }
+
+  /**
+   * Cancel a queued job
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    return this.jobs.cancel(jobId);
+  }
+
+  /**
+   * Recent jobs with their status and counters
+   */
+  async getJobs(limit: number = 20): Promise<DBSyncLog[]> {
+    return this.jobs.listJobs(limit);
+  }
+
+  /**
+   * Registered job types
+   */
+  getJobTypes(): SyncJobType[] {
+    return this.engine.getJobTypes();
   }
 
   /**
@@ -41,9 +102,7 @@ export class SyncOrchestrator {
 
       // 1. First sync brands
       console.log('Step 1: Syncing brands...');
-      const brandSync = await this.engine.sync({
-        syncType: 'brands',
-      });
+      const brandSync = await this.jobs.run('brands');
 
       if (!brandSync.success) {
         return {
@@ -56,20 +115,21 @@ export class SyncOrchestrator {
 
       // 2. Sync products to meet 100+ requirement
       console.log('Step 2: Syncing products (targeting 100+ products)...');
-      const productSync = await this.engine.sync({
-        syncType: 'products',
+      const productSync = await this.jobs.run('products', {
         maxProducts: 150, // Target 150 to ensure we get 100+ after any failures
         marketplace: 'both', // StockX and GOAT
       });
 
-      const totalProducts = productSync.stats.productsCreated + productSync.stats.productsUpdated;
+      // Unchanged products are already in the catalog and count toward the target
+      const totalProducts = productSync.stats.productsCreated +
+                            productSync.stats.productsUpdated +
+                            productSync.stats.productsUnchanged;
 
       if (totalProducts < 100) {
         console.log(`Only ${totalProducts} products synced, attempting additional sync...`);
 
         // Try additional sync to reach target
-        const additionalSync = await this.engine.sync({
-          syncType: 'products',
+        const additionalSync = await this.jobs.run('products', {
           maxProducts: 100 - totalProducts + 20, // Extra buffer
           marketplace: 'both',
         });
@@ -78,11 +138,18 @@ export class SyncOrchestrator {
         productSync.stats.productsProcessed += additionalSync.stats.productsProcessed;
         productSync.stats.productsCreated += additionalSync.stats.productsCreated;
         productSync.stats.productsUpdated += additionalSync.stats.productsUpdated;
+        productSync.stats.productsUnchanged += additionalSync.stats.productsUnchanged;
+        productSync.stats.productsMerged += additionalSync.stats.productsMerged;
+        productSync.stats.matchReviewsQueued += additionalSync.stats.matchReviewsQueued;
+        productSync.stats.imagesSynced += additionalSync.stats.imagesSynced;
+        productSync.stats.marketSnapshots += additionalSync.stats.marketSnapshots;
         productSync.stats.errors += additionalSync.stats.errors;
         productSync.errors.push(...additionalSync.errors);
       }
 
-      const finalProductCount = productSync.stats.productsCreated + productSync.stats.productsUpdated;
+      const finalProductCount = productSync.stats.productsCreated +
+                                productSync.stats.productsUpdated +
+                                productSync.stats.productsUnchanged;
       const success = finalProductCount >= 100;
 
       const recommendations: string[] = [];
@@ -152,8 +219,7 @@ export class SyncOrchestrator {
 
       console.log(`Running scheduled ${syncType} sync...`);
 
-      const result = await this.engine.sync({
-        syncType,
+      const result = await this.jobs.run(syncType, {
         maxProducts: syncType === 'incremental' ? 100 : 500,
       });
 
@@ -163,6 +229,14 @@ export class SyncOrchestrator {
         await this.recovery.retryFailedItems(result.syncLogId);
       }
 
+      // Keep the market price history compact; failures here should not fail the sync
+      try {
+        const compaction = await this.recovery.compactMarketHistory();
+        console.log('Market history compacted:', compaction);
+      } catch (error) {
+        console.error('Market history compaction failed:', error);
+      }
+
       return {
         success: result.success,
         message: `${syncType} sync completed`,
@@ -0,0 +1,149 @@
+import os from 'os';
+import crypto from 'crypto';
+import { DatabaseService } from '@/lib/database/client';
+import { SyncEngine, type SyncOptions, type SyncResult } from './sync-engine';
+import type { DBSyncLog, SyncJobType } from '@/types/database';
+
+export interface EnqueueSyncJobOptions {
+  priority?: number;
+  scheduledAt?: Date;
+  requestedBy?: string;
+}
+
+export type SyncJobOptions = Omit<SyncOptions, 'syncType'>;
+
+export interface SyncJobQueueOptions {
+  workerId?: string;
+  leaseSeconds?: number;
+}
+
+// A job whose worker stops heartbeating for this long can be reclaimed by another worker
+const DEFAULT_LEASE_SECONDS = 300;
+
+/**
+ * Persisted sync job queue backed by the sync_logs table.
+ * Admin requests and scripts enqueue jobs; any worker can claim and run them through the sync engine.
+ * Claimed jobs are leased to one worker; jobs whose lease expires resume from their last checkpoint.
+ */
+export class SyncJobQueue {
+  private engine: SyncEngine;
+  private database: DatabaseService;
+  readonly workerId: string;
+  private leaseSeconds: number;
+
+  constructor(
+    engine: SyncEngine,
+    options: SyncJobQueueOptions = {},
+    database: DatabaseService = new DatabaseService()
+  ) {
+    this.engine = engine;
+    this.database = database;
+    this.workerId = options.workerId || `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+    this.leaseSeconds = options.leaseSeconds || DEFAULT_LEASE_SECONDS;
+  }
+
+  /**
+   * Queue a job to be picked up by a worker
+   */
+  async enqueue(
+    type: SyncJobType,
+    options: SyncJobOptions = {},
+    enqueueOptions: EnqueueSyncJobOptions = {}
+  ): Promise<string> {
+    this.assertJobType(type);
+
+    const jobId = await this.database.enqueueSyncJob({
+      sync_type: type,
+      metadata: { ...options, syncType: type },
+      priority: enqueueOptions.priority,
+      scheduled_at: enqueueOptions.scheduledAt?.toISOString(),
+      requested_by: enqueueOptions.requestedBy,
+    });
+
+    console.log(`Queued ${type} sync job: ${jobId}`);
+    return jobId;
+  }
+
+  /**
+   * Queue a job and run it immediately in this process
+   */
+  async run(
+    type: SyncJobType,
+    options: SyncJobOptions = {},
+    enqueueOptions: EnqueueSyncJobOptions = {}
+  ): Promise<SyncResult> {
+    const jobId = await this.enqueue(type, options, enqueueOptions);
+    const job = await this.database.claimSyncJob(this.workerId, this.leaseSeconds, jobId);
+
+    if (!job) {
+      throw new Error(`Sync job ${jobId} was claimed by another worker`);
+    }
+
+    return this.execute(job);
+  }
+
+  /**
+   * Claim and run the next due job, including interrupted jobs whose lease expired.
+   * Returns null when the queue is empty.
+   */
+  async runNext(): Promise<SyncResult | null> {
+    const job = await this.database.claimSyncJob(this.workerId, this.leaseSeconds);
+    if (!job) return null;
+
+    return this.execute(job);
+  }
+
+  /**
+   * Run due jobs until the queue is empty or the limit is reached
+   */
+  async drain(maxJobs: number = 10): Promise<SyncResult[]> {
+    const results: SyncResult[] = [];
+
+    while (results.length < maxJobs) {
+      const result = await this.runNext();
+      if (!result) break;
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Cancel a job that has not started yet
+   */
+  async cancel(jobId: string): Promise<boolean> {
+    return this.database.cancelSyncJob(jobId);
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(jobId: string): Promise<DBSyncLog | null> {
+    return this.database.getSyncLog(jobId);
+  }
+
+  /**
+   * List the most recent jobs of every type and status
+   */
+  async listJobs(limit: number = 20): Promise<DBSyncLog[]> {
+    return this.database.getRecentSyncLogs(limit);
+  }
+
+  private async execute(job: DBSyncLog): Promise<SyncResult> {
+    const { syncType: _syncType, ...options } = (job.metadata || {}) as SyncOptions;
+
+    console.log(`Running ${job.sync_type} sync job: ${job.id} (attempt ${job.attempts || 1}, worker ${this.workerId})`);
+    return this.engine.sync({ ...options, syncType: job.sync_type }, {
+      id: job.id,
+      workerId: this.workerId,
+      leaseSeconds: this.leaseSeconds,
+      checkpoint: job.checkpoint,
+    });
+  }
+
+  private assertJobType(type: SyncJobType): void {
+    if (!this.engine.getJobTypes().includes(type)) {
+      throw new Error(`Unknown sync job type: ${type}`);
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { DatabaseService } from '@/lib/database/client';
-import { KicksDBClient } from '@/lib/kicksdb';
+import { KicksDBClient, kicksDBClient } from '@/lib/kicksdb';
 import type { DBSyncLog, DBSyncError } from '@/types/database';
 
 export interface SyncMonitorStats {
@@ -10,6 +10,7 @@ export interface SyncMonitorStats {
   totalItemsProcessed: number;
   totalItemsCreated: number;
   totalItemsUpdated: number;
+  totalItemsUnchanged: number;
   totalErrors: number;
   lastSyncAt?: string;
   nextSyncAt?: string;
@@ -34,9 +35,9 @@ export class SyncMonitor {
   private database: DatabaseService;
   private kicksDB: KicksDBClient;
 
-  constructor() {
+  constructor(kicksDB: KicksDBClient = kicksDBClient) {
     this.database = new DatabaseService();
-    this.kicksDB = new KicksDBClient();
+    this.kicksDB = kicksDB;
   }
 
   /**
@@ -59,6 +60,7 @@ export class SyncMonitor {
         totalItemsProcessed: 0,
         totalItemsCreated: 0,
         totalItemsUpdated: 0,
+        totalItemsUnchanged: 0,
         totalErrors: 0,
         currentRateLimit: this.kicksDB.getRateLimitStatus(),
       };
@@ -78,6 +80,7 @@ export class SyncMonitor {
           stats.totalItemsProcessed += log.items_processed || 0;
           stats.totalItemsCreated += log.items_created || 0;
           stats.totalItemsUpdated += log.items_updated || 0;
+          stats.totalItemsUnchanged += log.items_unchanged || 0;
           stats.totalErrors += log.items_failed || 0;
         });
 
@@ -0,0 +1,117 @@
+import { DataTransformer } from '@/services/data-transformer';
+import type { KicksDBProduct } from '@/types/kicksdb';
+
+/**
+ * An existing canonical product that an incoming listing could belong to
+ */
+export interface ProductMatchCandidate {
+  id: string;
+  kicksdb_id?: string | null;
+  name: string;
+  brand_name?: string;
+  sku?: string | null;
+  model?: string | null;
+  colorway?: string | null;
+  platforms: Array<'stockx' | 'goat'>;
+}
+
+export type ProductMatchAction = 'merge' | 'review' | 'create';
+
+export interface ProductMatchDecision {
+  action: ProductMatchAction;
+  productId?: string;
+  similarity: number;
+  conflictingFields: string[];
+}
+
+// Candidates at least this similar are queued for admin review even below the duplicate threshold
+export const REVIEW_SIMILARITY = 0.7;
+
+/**
+ * Normalize a style code so StockX and GOAT formats compare equal (e.g. "DD1391-100" and "dd1391 100")
+ */
+export function normalizeSku(sku?: string | null): string | null {
+  const normalized = (sku || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return normalized.length > 0 ? normalized : null;
+}
+
+/**
+ * Decides whether an incoming marketplace listing is a product already in the catalog.
+ * Same style code or an exact duplicate merges outright; fuzzy matches from DataTransformer's
+ * Levenshtein similarity are queued for review, and anything less similar becomes a new product.
+ */
+export class ProductMatcher {
+  async match(
+    listing: KicksDBProduct,
+    candidates: ProductMatchCandidate[]
+  ): Promise<ProductMatchDecision> {
+    const marketplace = listing.marketplace;
+    const sku = normalizeSku(listing.sku);
+
+    // A canonical product has at most one listing per marketplace
+    const eligible = candidates.filter(candidate => !candidate.platforms.includes(marketplace));
+    if (eligible.length === 0) {
+      return { action: 'create', similarity: 0, conflictingFields: [] };
+    }
+
+    const skuMatch = sku ? eligible.find(candidate => normalizeSku(candidate.sku) === sku) : undefined;
+    if (skuMatch) {
+      return { action: 'merge', productId: skuMatch.id, similarity: 1, conflictingFields: [] };
+    }
+
+    const data = this.toComparable(listing);
+    const existing = eligible.map(candidate => ({
+      id: candidate.id,
+      kicksdb_id: candidate.kicksdb_id,
+      name: candidate.name,
+      brand: candidate.brand_name,
+      brand_name: candidate.brand_name,
+      sku: normalizeSku(candidate.sku) || undefined,
+      model: candidate.model || undefined,
+      colorway: candidate.colorway || undefined,
+    }));
+
+    const duplicate = await DataTransformer.checkDuplicateProduct(data, existing);
+
+    if (duplicate.isDuplicate && duplicate.existingId) {
+      const { similarity, conflictingFields } = DataTransformer.scoreProductMatch(
+        data,
+        existing.find(candidate => candidate.id === duplicate.existingId)
+      );
+      // Only an exact duplicate without a conflicting style code is safe to merge unattended
+      const exact = duplicate.similarity === 1 && !conflictingFields.includes('sku');
+
+      return {
+        action: exact ? 'merge' : 'review',
+        productId: duplicate.existingId,
+        similarity: Math.max(similarity, duplicate.similarity || 0),
+        conflictingFields,
+      };
+    }
+
+    // Below the duplicate threshold: the closest candidate is still worth a look if it is near
+    let best: ProductMatchDecision = { action: 'create', similarity: 0, conflictingFields: [] };
+    for (const candidate of existing) {
+      const { similarity, conflictingFields } = DataTransformer.scoreProductMatch(data, candidate);
+      if (similarity > best.similarity) {
+        best = { action: 'create', productId: candidate.id, similarity, conflictingFields };
+      }
+    }
+
+    if (best.similarity >= REVIEW_SIMILARITY) {
+      return { ...best, action: 'review' };
+    }
+
+    return { action: 'create', similarity: best.similarity, conflictingFields: [] };
+  }
+
+  private toComparable(listing: KicksDBProduct) {
+    return {
+      id: listing.id,
+      name: listing.name,
+      brand: listing.brand,
+      sku: normalizeSku(listing.sku) || undefined,
+      colorway: listing.colorway || undefined,
+    };
+  }
+}
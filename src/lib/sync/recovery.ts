@@ -1,4 +1,5 @@
 import { DatabaseService } from '@/lib/database/client';
+import { KicksDBClient, kicksDBClient } from '@/lib/kicksdb';
 import { SyncEngine, type SyncOptions, type SyncResult } from './sync-engine';
 import { SyncMonitor } from './monitor';
 import type { DBSyncError, DBSyncLog } from '@/types/database';
@@ -27,10 +28,10 @@ export class SyncRecovery {
   private syncEngine: SyncEngine;
   private monitor: SyncMonitor;
 
-  constructor() {
+  constructor(kicksDB: KicksDBClient = kicksDBClient) {
     this.database = new DatabaseService();
-    this.syncEngine = new SyncEngine();
-    this.monitor = new SyncMonitor();
+    this.syncEngine = new SyncEngine(kicksDB);
+    this.monitor = new SyncMonitor(kicksDB);
   }
 
   /**
@@ -284,6 +285,25 @@ export class SyncRecovery {
     }
   }
 
+  /**
+   * Downsample the market price history and apply its retention policy
+   */
+  async compactMarketHistory(): Promise<{
+    rawRolledUp: number;
+    hourlyRolledUp: number;
+    dailyRolledUp: number;
+    weeklyExpired: number;
+  }> {
+    const result = await this.database.compactMarketData();
+
+    return {
+      rawRolledUp: result?.raw_rolled_up || 0,
+      hourlyRolledUp: result?.hourly_rolled_up || 0,
+      dailyRolledUp: result?.daily_rolled_up || 0,
+      weeklyExpired: result?.weekly_expired || 0,
+    };
+  }
+
   /**
    * Generate recovery recommendations
    */
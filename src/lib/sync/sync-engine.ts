@@ -1,20 +1,24 @@
-import { KicksDBClient } from '@/lib/kicksdb';
+import { KicksDBClient, kicksDBClient } from '@/lib/kicksdb';
 import { DatabaseService } from '@/lib/database/client';
 import {
   transformBrand,
   transformProduct,
   transformProductImages,
+  transformProductListing,
   transformProductSizes,
   transformProductMarketData,
+  transformMarketData,
+  computeProductContentHash,
   validateTransformedProduct,
   validateTransformedBrand,
   validateImageUrls,
 } from './transformers';
+import { ProductMatcher, normalizeSku } from './product-matcher';
 import type { KicksDBProduct, KicksDBBrand, KicksDBSearchParams } from '@/types/kicksdb';
-import type { DBProduct, DBBrand, SyncConfig } from '@/types/database';
+import type { DBProduct, DBBrand, SyncConfig, SyncJobType, SyncCheckpoint } from '@/types/database';
 
 export interface SyncOptions {
-  syncType: 'full' | 'incremental' | 'brands' | 'products';
+  syncType: SyncJobType;
   maxProducts?: number;
   marketplace?: 'stockx' | 'goat' | 'both';
   brands?: string[];
@@ -32,6 +36,11 @@ export interface SyncResult {
     productsProcessed: number;
     productsCreated: number;
     productsUpdated: number;
+    productsUnchanged: number;
+    productsMerged: number;
+    matchReviewsQueued: number;
+    imagesSynced: number;
+    marketSnapshots: number;
     errors: number;
   };
   errors: Array<{
@@ -42,24 +51,94 @@ export interface SyncResult {
   duration: number;
 }
 
+/**
+ * A job claimed from the job table, run under a lease that the engine keeps alive
+ */
+export interface SyncJobRun {
+  id: string;
+  workerId: string;
+  leaseSeconds: number;
+  checkpoint?: SyncCheckpoint | null;
+}
+
+/**
+ * Checkpoint state handed to job handlers; handlers update it after each batch and save it
+ */
+export interface SyncJobContext {
+  checkpoint: SyncCheckpoint;
+  saveCheckpoint(): Promise<void>;
+}
+
+/**
+ * Runs one sync job type against a result that the engine persists to the job table
+ */
+export type SyncJobHandler = (
+  result: SyncResult,
+  options: Required<SyncOptions>,
+  context: SyncJobContext
+) => Promise<void>;
+
+/**
+ * Raised when a job's lease expired and another worker took it over
+ */
+export class SyncLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost lease on sync job ${jobId}`);
+    this.name = 'SyncLeaseLostError';
+  }
+}
+
+// Share of an incremental sync budget spent discovering new listings; the rest re-fetches stale products
+const INCREMENTAL_DISCOVERY_SHARE = 0.25;
+
 /**
  * Main synchronization engine for KicksDB data
  */
 export class SyncEngine {
   private kicksDB: KicksDBClient;
   private database: DatabaseService;
+  private matcher = new ProductMatcher();
+  private handlers = new Map<SyncJobType, SyncJobHandler>();
+
+  constructor(kicksDB: KicksDBClient = kicksDBClient, database: DatabaseService = new DatabaseService()) {
+    this.kicksDB = kicksDB;
+    this.database = database;
+
+    this.registerJobType('brands', (result, options, context) =>
+      this.runStep(context, 'brands', () => this.syncBrands(result, options)));
+    this.registerJobType('products', (result, options, context) => this.syncProducts(result, options, context));
+    this.registerJobType('full', async (result, options, context) => {
+      await this.runStep(context, 'brands', () => this.syncBrands(result, options));
+      await this.syncProducts(result, options, context);
+    });
+    this.registerJobType('incremental', (result, options, context) =>
+      this.syncProductsIncremental(result, options, context));
+    this.registerJobType('images', (result, options, context) => this.syncImages(result, options, context));
+    this.registerJobType('market_data', (result, options, context) => this.syncMarketData(result, options, context));
+  }
+
+  /**
+   * Register (or replace) the handler for a sync job type
+   */
+  registerJobType(type: SyncJobType, handler: SyncJobHandler): void {
+    this.handlers.set(type, handler);
+  }
 
-  constructor() {
-    this.kicksDB = new KicksDBClient();
-    this.database = new DatabaseService();
+  /**
+   * Get the registered sync job types
+   */
+  getJobTypes(): SyncJobType[] {
+    return Array.from(this.handlers.keys());
   }
 
   /**
-   * Execute synchronization with the specified options
+   * Execute synchronization with the specified options.
+   * Pass a claimed job to run it under its lease, resuming from its checkpoint;
+   * otherwise a new job record is created.
    */
-  async sync(options: SyncOptions): Promise<SyncResult> {
+  async sync(options: SyncOptions, job?: SyncJobRun): Promise<SyncResult> {
     const startTime = Date.now();
-    const syncLogId = await this.database.createSyncLog({
+    const syncLogId = job?.id || await this.database.createSyncLog({
       sync_type: options.syncType,
       started_at: new Date().toISOString(),
       metadata: options,
@@ -75,14 +154,26 @@ export class SyncEngine {
         productsProcessed: 0,
         productsCreated: 0,
         productsUpdated: 0,
+        productsUnchanged: 0,
+        productsMerged: 0,
+        matchReviewsQueued: 0,
+        imagesSynced: 0,
+        marketSnapshots: 0,
         errors: 0,
       },
       errors: [],
       duration: 0,
     };
 
+    const context = this.createJobContext(result, job);
+
     try {
-      console.log(`Starting ${options.syncType} sync...`);
+      if (job?.checkpoint?.stats) {
+        Object.assign(result.stats, job.checkpoint.stats);
+        console.log(`Resuming ${options.syncType} sync from checkpoint saved at ${job.checkpoint.updatedAt}...`);
+      } else {
+        console.log(`Starting ${options.syncType} sync...`);
+      }
 
       // Test API connectivity first
       const connectionTest = await this.kicksDB.testConnection();
@@ -103,37 +194,35 @@ export class SyncEngine {
         batchSize: options.batchSize || config.batch_size,
       };
 
-      // Execute sync based on type
-      switch (options.syncType) {
-        case 'brands':
-          await this.syncBrands(result, finalOptions);
-          break;
-        case 'products':
-          await this.syncProducts(result, finalOptions);
-          break;
-        case 'full':
-          await this.syncBrands(result, finalOptions);
-          await this.syncProducts(result, finalOptions);
-          break;
-        case 'incremental':
-          await this.syncProductsIncremental(result, finalOptions);
-          break;
-        default:
-          throw new Error(`Unknown sync type: ${options.syncType}`);
+      // Execute the registered handler for this job type
+      const handler = this.handlers.get(options.syncType);
+      if (!handler) {
+        throw new Error(`Unknown sync type: ${options.syncType}`);
       }
 
-      result.success = result.errors.length === 0;
+      await handler(result, finalOptions, context);
+
+      // New and changed products bring new words for search to correct misspellings to
+      if (result.stats.productsCreated + result.stats.productsUpdated > 0) {
+        try {
+          await this.database.refreshSearchVocabulary();
+        } catch (error) {
+          console.warn('Failed to refresh search vocabulary:', error);
+        }
+      }
+
+      // Errors restored from a checkpoint count too
+      result.success = result.stats.errors === 0;
       result.duration = Date.now() - startTime;
 
       // Update sync log
       await this.database.updateSyncLog(syncLogId, {
+        ...this.getSyncLogCounters(result),
         status: result.success ? 'completed' : 'failed',
         completed_at: new Date().toISOString(),
-        items_processed: result.stats.brandsProcessed + result.stats.productsProcessed,
-        items_created: result.stats.brandsCreated + result.stats.productsCreated,
-        items_updated: result.stats.brandsUpdated + result.stats.productsUpdated,
-        items_failed: result.stats.errors,
         error_message: result.errors.length > 0 ? result.errors[0].message : undefined,
+        lease_owner: null,
+        lease_expires_at: null,
       });
 
       console.log(`Sync completed in ${result.duration}ms:`, result.stats);
@@ -149,18 +238,136 @@ export class SyncEngine {
       });
       result.stats.errors++;
 
+      // The worker now holding the lease owns the job record
+      if (error instanceof SyncLeaseLostError) {
+        console.warn(error.message);
+        return result;
+      }
+
       await this.database.updateSyncLog(syncLogId, {
         status: 'failed',
         completed_at: new Date().toISOString(),
         items_failed: 1,
         error_message: error instanceof Error ? error.message : 'Unknown error',
+        lease_owner: null,
+        lease_expires_at: null,
       });
 
       console.error('Sync failed:', error);
       return result;
+    } finally {
+      context.close();
+    }
+  }
+
+  /**
+   * Build the checkpoint context for a run. Claimed jobs get a background heartbeat that keeps
+   * their lease alive, and each saved checkpoint also renews the lease and records progress.
+   */
+  private createJobContext(result: SyncResult, job?: SyncJobRun): SyncJobContext & { close(): void } {
+    const checkpoint: SyncCheckpoint = {
+      completedSteps: [],
+      cursors: {},
+      processedIds: {},
+      ...(job?.checkpoint || {}),
+    };
+
+    if (!job) {
+      return { checkpoint, saveCheckpoint: async () => {}, close: () => {} };
+    }
+
+    let leaseLost = false;
+
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!await this.database.heartbeatSyncJob(job.id, job.workerId, job.leaseSeconds)) {
+          leaseLost = true;
+        }
+      } catch (error) {
+        console.warn(`Heartbeat failed for sync job ${job.id}:`, error);
+      }
+    }, Math.max(1000, (job.leaseSeconds * 1000) / 3));
+    heartbeat.unref?.();
+
+    return {
+      checkpoint,
+      saveCheckpoint: async () => {
+        if (leaseLost) {
+          throw new SyncLeaseLostError(job.id);
+        }
+
+        checkpoint.stats = { ...result.stats };
+        checkpoint.updatedAt = new Date().toISOString();
+
+        if (!await this.database.heartbeatSyncJob(job.id, job.workerId, job.leaseSeconds, checkpoint)) {
+          leaseLost = true;
+          throw new SyncLeaseLostError(job.id);
+        }
+
+        await this.database.updateSyncLog(job.id, this.getSyncLogCounters(result));
+      },
+      close: () => clearInterval(heartbeat),
+    };
+  }
+
+  /**
+   * Run a job step once; completed steps are skipped when a job resumes
+   */
+  private async runStep(context: SyncJobContext, step: string, run: () => Promise<void>): Promise<void> {
+    if (context.checkpoint.completedSteps.includes(step)) {
+      console.log(`Skipping completed step: ${step}`);
+      return;
+    }
+
+    await run();
+
+    context.checkpoint.completedSteps.push(step);
+    await context.saveCheckpoint();
+  }
+
+  /**
+   * Process items in batches, checkpointing processed IDs after each batch.
+   * On resume, already processed items are skipped and count against the budget.
+   */
+  private async processInBatches<T extends { id: string }>(
+    items: T[],
+    step: string,
+    budget: number,
+    options: Required<SyncOptions>,
+    context: SyncJobContext,
+    processItem: (item: T) => Promise<void>
+  ): Promise<void> {
+    const processed = context.checkpoint.processedIds[step] || [];
+    const processedSet = new Set(processed);
+    const remaining = items
+      .filter(item => !processedSet.has(item.id))
+      .slice(0, Math.max(0, budget - processed.length));
+
+    for (let i = 0; i < remaining.length; i += options.batchSize) {
+      const batch = remaining.slice(i, i + options.batchSize);
+
+      for (const item of batch) {
+        await processItem(item);
+      }
+
+      context.checkpoint.processedIds[step] = [
+        ...(context.checkpoint.processedIds[step] || []),
+        ...batch.map(item => item.id),
+      ];
+      await context.saveCheckpoint();
     }
   }
 
+  private getSyncLogCounters(result: SyncResult) {
+    return {
+      items_processed: result.stats.brandsProcessed + result.stats.productsProcessed,
+      items_created: result.stats.brandsCreated + result.stats.productsCreated,
+      items_updated: result.stats.brandsUpdated + result.stats.productsUpdated + result.stats.productsMerged,
+      items_unchanged: result.stats.productsUnchanged,
+      items_failed: result.stats.errors,
+    };
+  }
+
   /**
    * Sync brands from KicksDB
    */
@@ -239,19 +446,34 @@ export class SyncEngine {
   }
 
   /**
-   * Sync products from both marketplaces
+   * Sync products from both marketplaces, checkpointing the page cursor after each batch
    */
-  private async syncProducts(result: SyncResult, options: Required<SyncOptions>): Promise<void> {
+  private async syncProducts(
+    result: SyncResult,
+    options: Required<SyncOptions>,
+    context: SyncJobContext,
+    stepPrefix: string = 'products'
+  ): Promise<void> {
     const marketplaces = options.marketplace === 'both' ? ['stockx', 'goat'] : [options.marketplace];
 
     for (const marketplace of marketplaces) {
+      const step = `${stepPrefix}:${marketplace}`;
+      if (context.checkpoint.completedSteps.includes(step)) {
+        console.log(`Skipping completed step: ${step}`);
+        continue;
+      }
+
       try {
-        console.log(`Syncing products from ${marketplace}...`);
+        const cursor = context.checkpoint.cursors[step];
 
-        // Get products in batches
-        let page = 1;
+        // Get products in batches, starting from the checkpointed page
+        let page = cursor?.page || 1;
         let hasMore = true;
-        let totalProcessed = 0;
+        let totalProcessed = cursor?.processed || 0;
+
+        console.log(cursor
+          ? `Resuming ${marketplace} products from page ${page}...`
+          : `Syncing products from ${marketplace}...`);
 
         while (hasMore && totalProcessed < options.maxProducts) {
           const searchParams: KicksDBSearchParams = {
@@ -282,13 +504,21 @@ export class SyncEngine {
           hasMore = products.length === options.batchSize && totalProcessed < options.maxProducts;
           page++;
 
+          context.checkpoint.cursors[step] = { page, processed: totalProcessed };
+          await context.saveCheckpoint();
+
           // Rate limiting delay
           await new Promise(resolve => setTimeout(resolve, 100));
         }
 
+        context.checkpoint.completedSteps.push(step);
+        await context.saveCheckpoint();
+
         console.log(`${marketplace} products sync completed: ${totalProcessed} processed`);
 
       } catch (error) {
+        if (error instanceof SyncLeaseLostError) throw error;
+
         result.errors.push({
           type: 'api',
           item: `${marketplace}_products`,
@@ -337,28 +567,77 @@ export class SyncEngine {
           continue;
         }
 
-        // Check if product exists
-        const existingProduct = await this.database.getProductByKicksDBId(kicksDBProduct.id);
+        // Check if this marketplace listing is already linked to a product
+        const existingListing = await this.database.getProductListing(kicksDBProduct.id);
+        const contentHash = computeProductContentHash(kicksDBProduct);
+
+        // Skip unchanged listings, only recording that they were checked
+        if (existingListing && existingListing.content_hash === contentHash) {
+          await this.database.touchProductListing(existingListing.id);
+          if (kicksDBProduct.market) {
+            await this.handleProductMarketData(kicksDBProduct, existingListing.product_id, result);
+          }
+          result.stats.productsUnchanged++;
+          continue;
+        }
 
         let productId: string;
-        if (existingProduct) {
-          // Update existing product
-          const updatedProduct = await this.database.upsertProduct({
-            ...transformedProduct,
-            id: existingProduct.id,
-          });
-          productId = updatedProduct.id;
+        let isPrimary: boolean;
+        if (existingListing) {
+          // Only the primary listing owns the canonical product's catalog content
+          productId = existingListing.product_id;
+          isPrimary = existingListing.is_primary;
+          if (isPrimary) {
+            await this.database.upsertProduct({
+              ...transformedProduct,
+              content_hash: contentHash,
+              id: productId,
+            });
+          }
+          await this.database.upsertProductListing(
+            transformProductListing(kicksDBProduct, productId, isPrimary, contentHash)
+          );
           result.stats.productsUpdated++;
         } else {
-          // Create new product
-          const newProduct = await this.database.upsertProduct(transformedProduct);
-          productId = newProduct.id;
-          result.stats.productsCreated++;
+          const match = await this.matchProduct(kicksDBProduct, transformedProduct, brand.id);
+
+          if (match.action === 'merge' && match.productId) {
+            // Same shoe listed on the other marketplace: link it to the existing product
+            productId = match.productId;
+            isPrimary = false;
+            await this.database.upsertProductListing(
+              transformProductListing(kicksDBProduct, productId, isPrimary, contentHash)
+            );
+            result.stats.productsMerged++;
+          } else {
+            // Create new product
+            const newProduct = await this.database.upsertProduct({
+              ...transformedProduct,
+              content_hash: contentHash,
+            });
+            productId = newProduct.id;
+            isPrimary = true;
+            const listing = await this.database.upsertProductListing(
+              transformProductListing(kicksDBProduct, productId, isPrimary, contentHash)
+            );
+            result.stats.productsCreated++;
+
+            if (match.action === 'review' && match.productId) {
+              await this.database.createProductMatchReview({
+                listing_id: listing.id,
+                product_id: productId,
+                candidate_product_id: match.productId,
+                similarity: match.similarity,
+                conflicting_fields: match.conflictingFields,
+              });
+              result.stats.matchReviewsQueued++;
+            }
+          }
         }
 
-        // Handle images (enforce 2-image limit)
-        if (kicksDBProduct.images && kicksDBProduct.images.length > 0) {
-          await this.handleProductImages(kicksDBProduct, productId);
+        // Handle images (enforce 2-image limit); merged listings keep the canonical product's images
+        if (isPrimary && kicksDBProduct.images && kicksDBProduct.images.length > 0) {
+          await this.handleProductImages(kicksDBProduct, productId, result);
         }
 
         // Handle sizes
@@ -368,7 +647,7 @@ export class SyncEngine {
 
         // Handle market data
         if (kicksDBProduct.market) {
-          await this.handleProductMarketData(kicksDBProduct, productId);
+          await this.handleProductMarketData(kicksDBProduct, productId, result);
         }
 
       } catch (error) {
@@ -391,6 +670,23 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Match a new listing against canonical products with the same style code or model
+   */
+  private async matchProduct(
+    kicksDBProduct: KicksDBProduct,
+    transformedProduct: Partial<DBProduct>,
+    brandId: string
+  ) {
+    const candidates = await this.database.getProductMatchCandidates({
+      normalizedSku: normalizeSku(kicksDBProduct.sku),
+      brandId,
+      model: (transformedProduct as { model?: string }).model,
+    });
+
+    return this.matcher.match(kicksDBProduct, candidates);
+  }
+
   /**
    * Find or create brand by name
    */
@@ -421,39 +717,181 @@ export class SyncEngine {
   /**
    * Handle product images with 2-image limit
    */
-  private async handleProductImages(kicksDBProduct: KicksDBProduct, productId: string): Promise<void> {
-    // Implementation would handle image management
-    // For now, we store URLs in the market_data field to respect the 2-image limit
+  private async handleProductImages(
+    kicksDBProduct: KicksDBProduct,
+    productId: string,
+    result: SyncResult
+  ): Promise<void> {
     const validImages = validateImageUrls(kicksDBProduct.images);
+    if (validImages.length === 0) return;
 
-    // Store in product's market_data for now, or implement proper image table management
-    console.log(`Product ${productId} has ${validImages.length} valid images (limited to 2)`);
+    await this.database.replaceProductImages(
+      productId,
+      transformProductImages({ ...kicksDBProduct, images: validImages }, productId)
+    );
+    result.stats.imagesSynced += validImages.length;
   }
 
   /**
-   * Handle product sizes
+   * Handle a listing's size prices
    */
   private async handleProductSizes(kicksDBProduct: KicksDBProduct, productId: string): Promise<void> {
-    // Implementation would handle size data management
-    console.log(`Product ${productId} has ${kicksDBProduct.sizes?.length || 0} sizes`);
+    await this.database.upsertProductSizes(transformProductSizes(kicksDBProduct, productId));
   }
 
   /**
-   * Handle product market data
+   * Images job: fetch images for synced products that have none
    */
-  private async handleProductMarketData(kicksDBProduct: KicksDBProduct, productId: string): Promise<void> {
-    // Implementation would handle market data storage
-    console.log(`Product ${productId} market data updated`);
+  private async syncImages(
+    result: SyncResult,
+    options: Required<SyncOptions>,
+    context: SyncJobContext
+  ): Promise<void> {
+    const products = await this.database.getProductsWithoutImages(options.maxProducts);
+    console.log(`Syncing images for ${products.length} products...`);
+
+    await this.processInBatches(products, 'images', options.maxProducts, options, context, async (product) => {
+      result.stats.productsProcessed++;
+
+      try {
+        const details = await this.kicksDB.getProductDetails(
+          product.external_slug || product.slug,
+          product.platform
+        );
+
+        await this.handleProductImages(details, product.id, result);
+        result.stats.productsUpdated++;
+      } catch (error) {
+        result.errors.push({
+          type: 'api',
+          item: `product:${product.kicksdb_id}`,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        result.stats.errors++;
+      }
+    });
   }
 
   /**
-   * Incremental sync for recently updated products
+   * Market data job: refresh prices and record snapshots for the least recently synced listings
    */
-  private async syncProductsIncremental(result: SyncResult, options: Required<SyncOptions>): Promise<void> {
-    // For incremental sync, we would typically fetch only recently updated products
-    // Since KicksDB doesn't provide timestamp-based filtering, we'll do a limited sync
-    const limitedOptions = { ...options, maxProducts: Math.min(options.maxProducts, 100) };
-    await this.syncProducts(result, limitedOptions);
+  private async syncMarketData(
+    result: SyncResult,
+    options: Required<SyncOptions>,
+    context: SyncJobContext
+  ): Promise<void> {
+    const marketplace = options.marketplace === 'both' ? undefined : options.marketplace;
+    const listings = await this.database.getStaleListings(options.maxProducts, marketplace);
+    console.log(`Refreshing market data for ${listings.length} listings...`);
+
+    await this.processInBatches(listings, 'market_data', options.maxProducts, options, context, async (listing) => {
+      result.stats.productsProcessed++;
+
+      try {
+        const details = await this.kicksDB.getProductDetails(listing.external_slug, listing.platform);
+
+        if (!details.market) {
+          result.stats.productsUnchanged++;
+          return;
+        }
+
+        await this.database.updateListingMarketData(listing, {
+          current_price: details.market.lastSale || undefined,
+          market_data: transformMarketData(details.market),
+        });
+        await this.handleProductMarketData({ ...details, marketplace: listing.platform }, listing.product_id, result);
+        result.stats.productsUpdated++;
+      } catch (error) {
+        result.errors.push({
+          type: 'api',
+          item: `product:${listing.kicksdb_id}`,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        result.stats.errors++;
+      }
+    });
+  }
+
+  /**
+   * Record a market snapshot so price history keeps a point for every sync
+   */
+  private async handleProductMarketData(
+    kicksDBProduct: KicksDBProduct,
+    productId: string,
+    result?: SyncResult
+  ): Promise<void> {
+    await this.database.insertMarketSnapshot(transformProductMarketData(kicksDBProduct, productId));
+    if (result) result.stats.marketSnapshots++;
+  }
+
+  /**
+   * Incremental sync: discover new listings, then re-fetch the stalest known products.
+   * KicksDB has no timestamp filter, so changes are detected through content hashes and
+   * successive runs rotate through the whole catalog by last sync time.
+   */
+  private async syncProductsIncremental(
+    result: SyncResult,
+    options: Required<SyncOptions>,
+    context: SyncJobContext
+  ): Promise<void> {
+    const discoveryBudget = Math.max(1, Math.ceil(options.maxProducts * INCREMENTAL_DISCOVERY_SHARE));
+    const refreshBudget = options.maxProducts - discoveryBudget;
+
+    await this.syncProducts(result, {
+      ...options,
+      maxProducts: discoveryBudget,
+      batchSize: Math.min(options.batchSize, discoveryBudget),
+    }, context, 'discovery');
+
+    if (refreshBudget > 0) {
+      await this.refreshStaleProducts(result, options, refreshBudget, context);
+    }
+  }
+
+  /**
+   * Re-fetch the least recently synced listings from their marketplace
+   */
+  private async refreshStaleProducts(
+    result: SyncResult,
+    options: Required<SyncOptions>,
+    limit: number,
+    context: SyncJobContext
+  ): Promise<void> {
+    const marketplace = options.marketplace === 'both' ? undefined : options.marketplace;
+
+    let staleListings;
+    try {
+      staleListings = await this.database.getStaleListings(limit, marketplace);
+    } catch (error) {
+      result.errors.push({
+        type: 'database',
+        item: 'stale_listings',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      result.stats.errors++;
+      return;
+    }
+
+    console.log(`Refreshing ${staleListings.length} stale listings...`);
+
+    await this.processInBatches(staleListings, 'refresh', limit, options, context, async (staleListing) => {
+      try {
+        const details = await this.kicksDB.getProductDetails(staleListing.external_slug, staleListing.platform);
+
+        await this.processProductBatch(
+          [{ ...details, marketplace: staleListing.platform }],
+          staleListing.platform,
+          result
+        );
+      } catch (error) {
+        result.errors.push({
+          type: 'api',
+          item: `product:${staleListing.kicksdb_id}`,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        result.stats.errors++;
+      }
+    });
   }
 
   /**
@@ -1,5 +1,7 @@
+import crypto from 'crypto';
 import type { KicksDBProduct, KicksDBBrand } from '@/types/kicksdb';
-import type { DBProduct, DBBrand, DBProductImage, DBProductMarket, DBProductSize } from '@/types/database';
+import type { DBProduct, DBBrand, DBProductImage, DBProductListing, DBProductMarket, DBProductSize } from '@/types/database';
+import { DataTransformer } from '@/services/data-transformer';
 
 /**
  * Transform KicksDB brand to database format
@@ -27,6 +29,8 @@ export function transformProduct(
 ): Partial<DBProduct> {
   const marketplace = kicksDBProduct.marketplace === 'stockx' ? 'stockx' :
                      kicksDBProduct.marketplace === 'goat' ? 'goat' : 'internal';
+  const model = extractModel(kicksDBProduct.name);
+  const gender = normalizeGender(kicksDBProduct.gender);
 
   return {
     kicksdb_id: kicksDBProduct.id,
@@ -35,13 +39,13 @@ export function transformProduct(
     description: kicksDBProduct.description || null,
     brand_id: brandId,
     category_id: categoryId || null,
-    model: extractModel(kicksDBProduct.name),
+    model,
     colorway: kicksDBProduct.colorway,
     release_date: kicksDBProduct.releaseDate ? new Date(kicksDBProduct.releaseDate).toISOString().split('T')[0] : null,
     retail_price: kicksDBProduct.retailPrice,
     current_price: kicksDBProduct.market?.lastSale || kicksDBProduct.retailPrice,
     sku: kicksDBProduct.sku,
-    gender: normalizeGender(kicksDBProduct.gender),
+    gender,
     platform: marketplace as any,
     external_id: kicksDBProduct.id,
     external_slug: kicksDBProduct.slug,
@@ -50,6 +54,13 @@ export function transformProduct(
     sync_status: 'completed' as any,
     price_last_updated: new Date().toISOString(),
     market_data: transformMarketData(kicksDBProduct.market),
+    search_keywords: DataTransformer.generateSearchKeywords({
+      brand: kicksDBProduct.brand,
+      name: kicksDBProduct.name,
+      model,
+      colorway: kicksDBProduct.colorway,
+      gender,
+    }),
     is_active: true,
     is_featured: false,
     is_monitored: false,
@@ -57,6 +68,65 @@ export function transformProduct(
   };
 }
 
+/**
+ * Transform a KicksDB product to a marketplace listing of a canonical product
+ */
+export function transformProductListing(
+  kicksDBProduct: KicksDBProduct,
+  productId: string,
+  isPrimary: boolean,
+  contentHash: string
+): Partial<DBProductListing> {
+  return {
+    product_id: productId,
+    platform: kicksDBProduct.marketplace,
+    kicksdb_id: kicksDBProduct.id,
+    external_slug: kicksDBProduct.slug,
+    sku: kicksDBProduct.sku || null,
+    is_primary: isPrimary,
+    current_price: kicksDBProduct.market?.lastSale || kicksDBProduct.retailPrice,
+    market_data: transformMarketData(kicksDBProduct.market),
+    content_hash: contentHash,
+    last_sync_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Compute a content hash over the fields a sync can change (price, sizes, images, metadata).
+ * Volatile fields such as timestamps are excluded so unchanged products hash identically.
+ */
+export function computeProductContentHash(kicksDBProduct: KicksDBProduct): string {
+  const market = kicksDBProduct.market;
+  const sizes = [...(kicksDBProduct.sizes || [])]
+    .map(size => [size.size, size.price, size.currency || 'USD'])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0]), undefined, { numeric: true }));
+
+  const content = {
+    price: {
+      retail: kicksDBProduct.retailPrice ?? null,
+      lowestAsk: market?.lowestAsk ?? null,
+      highestBid: market?.highestBid ?? null,
+      lastSale: market?.lastSale ?? null,
+    },
+    sizes,
+    images: validateImageUrls(kicksDBProduct.images || []),
+    metadata: {
+      name: kicksDBProduct.name,
+      slug: kicksDBProduct.slug,
+      brand: kicksDBProduct.brand,
+      colorway: kicksDBProduct.colorway ?? null,
+      description: kicksDBProduct.description ?? null,
+      sku: kicksDBProduct.sku ?? null,
+      category: kicksDBProduct.category ?? null,
+      gender: kicksDBProduct.gender ?? null,
+      releaseDate: kicksDBProduct.releaseDate ?? null,
+    },
+  };
+
+  return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
 /**
  * Transform market data to JSONB format
  */
@@ -101,7 +171,7 @@ export function transformProductImages(
 }
 
 /**
- * Transform product sizes
+ * Transform a listing's size prices (kept per marketplace)
  */
 export function transformProductSizes(
   kicksDBProduct: KicksDBProduct,
@@ -112,6 +182,7 @@ export function transformProductSizes(
   return sizes.map(size => ({
     id: '', // Will be generated by database
     product_id: productId,
+    platform: kicksDBProduct.marketplace,
     size: size.size,
     price: size.price,
     currency: size.currency || 'USD',
@@ -133,6 +204,7 @@ export function transformProductMarketData(
 
   return {
     product_id: productId,
+    platform: kicksDBProduct.marketplace,
     lowest_ask: market.lowestAsk,
     highest_bid: market.highestBid,
     last_sale: market.lastSale,
@@ -0,0 +1,137 @@
+/**
+ * Watchlist alert rules
+ *
+ * Pure decisions behind watchlist alerts: whether a watch is alerted about a new price or a restock,
+ * which channels a user wants each alert on, and when a user's pending alerts may be delivered.
+ * WatchlistAlertService loads the state, applies these and stores the outcome.
+ */
+
+import type { WatchlistAlertKind, WatchlistItem } from '@/types/watchlist';
+
+/** Without a target price, a drop smaller than this share of the watched price is not alerted */
+export const MIN_PRICE_DROP = 0.05;
+
+/** Hours before the same watch can be alerted about a restock again */
+export const RESTOCK_COOLDOWN_HOURS = 24;
+
+/** Minutes between two deliveries to one user; alerts matched in between go out together as a digest */
+export const ALERT_INTERVAL_MINUTES = 60;
+
+/** Deliveries to one user in any 24 hours */
+export const MAX_DELIVERIES_PER_DAY = 4;
+
+export type WatchRule = Pick<
+  WatchlistItem,
+  'size' | 'target_price' | 'notify_price_drop' | 'notify_restock' | 'watched_price' | 'last_restock_alert_at'
+>;
+
+export interface AlertChannels {
+  email: boolean;
+  inApp: boolean;
+}
+
+// The notification toggles of UserPreferences; in-app alerts follow the push toggles
+interface NotificationPreferences {
+  email?: { priceDrops?: boolean; restockAlerts?: boolean };
+  push?: { priceDrops?: boolean; restockAlerts?: boolean };
+}
+
+// Same defaults as UserPreferencesContext, for users who never saved their preferences
+const DEFAULT_CHANNELS: Record<WatchlistAlertKind, AlertChannels> = {
+  price_drop: { email: true, inApp: false },
+  restock: { email: true, inApp: true },
+};
+
+/**
+ * The price a product sells for, as orders price it: the retail price, else the current market price
+ */
+export function sellingPrice(product: {
+  retail_price?: number | string | null;
+  current_price?: number | string | null;
+}): number | null {
+  const price = product.retail_price ?? product.current_price;
+  return price === null || price === undefined ? null : Number(price);
+}
+
+/**
+ * Whether a new price is worth alerting a watch about. With a target price, the alert comes once the
+ * price reaches it; without one, when it is at least MIN_PRICE_DROP below the watched price. Either
+ * way the price has to be below the last one the user was alerted at, so the same price is never
+ * alerted twice. Returns the price the watch was measured against, or null for no alert.
+ */
+export function priceDropAlert(watch: WatchRule, price: number | null): { previousPrice: number | null } | null {
+  if (!watch.notify_price_drop || price === null) return null;
+
+  const watched = watch.watched_price === null ? null : Number(watch.watched_price);
+  if (watched !== null && price >= watched) return null;
+
+  if (watch.target_price !== null) {
+    return price <= Number(watch.target_price) ? { previousPrice: watched } : null;
+  }
+
+  if (watched === null || price > watched * (1 - MIN_PRICE_DROP)) return null;
+  return { previousPrice: watched };
+}
+
+/**
+ * Sizes of a restock a watch is alerted about: the restocked sizes it watches that are still
+ * available, unless the watch had a restock alert within RESTOCK_COOLDOWN_HOURS (stock that keeps
+ * coming back as carts expire would otherwise alert every time)
+ */
+export function restockAlertSizes(
+  watch: WatchRule,
+  restockedSizes: string[],
+  availableSizes: string[],
+  now: Date = new Date()
+): string[] {
+  if (!watch.notify_restock) return [];
+
+  if (watch.last_restock_alert_at) {
+    const since = now.getTime() - new Date(watch.last_restock_alert_at).getTime();
+    if (since < RESTOCK_COOLDOWN_HOURS * 60 * 60 * 1000) return [];
+  }
+
+  return Array.from(new Set(restockedSizes)).filter(size =>
+    availableSizes.includes(size) && (watch.size === null || watch.size === size)
+  );
+}
+
+/**
+ * Channels a user wants an alert on, from their saved notification preferences
+ */
+export function alertChannels(
+  preferences: { notifications?: NotificationPreferences } | null | undefined,
+  kind: WatchlistAlertKind
+): AlertChannels {
+  const toggle = kind === 'price_drop' ? 'priceDrops' : 'restockAlerts';
+  const notifications = preferences?.notifications;
+
+  return {
+    email: notifications?.email?.[toggle] ?? DEFAULT_CHANNELS[kind].email,
+    inApp: notifications?.push?.[toggle] ?? DEFAULT_CHANNELS[kind].inApp,
+  };
+}
+
+/**
+ * When a user can next be sent alerts, given their earlier deliveries: ALERT_INTERVAL_MINUTES after
+ * the last one, and no more than MAX_DELIVERIES_PER_DAY in any 24 hours. Returns `now` when they can
+ * be sent right away.
+ */
+export function nextDeliveryAt(deliveries: Array<string | Date>, now: Date = new Date()): Date {
+  const day = 24 * 60 * 60 * 1000;
+  const times = deliveries
+    .map(delivery => new Date(delivery).getTime())
+    .filter(time => now.getTime() - time < day)
+    .sort((a, b) => a - b);
+
+  let next = now.getTime();
+  if (times.length > 0) {
+    next = Math.max(next, times[times.length - 1] + ALERT_INTERVAL_MINUTES * 60 * 1000);
+  }
+  if (times.length >= MAX_DELIVERIES_PER_DAY) {
+    // The oldest delivery that has to leave the window before another fits
+    next = Math.max(next, times[times.length - MAX_DELIVERIES_PER_DAY] + day);
+  }
+
+  return new Date(next);
+}
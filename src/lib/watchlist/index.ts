@@ -0,0 +1,17 @@
+/**
+ * Watchlist module exports
+ */
+export {
+  ALERT_INTERVAL_MINUTES,
+  MAX_DELIVERIES_PER_DAY,
+  MIN_PRICE_DROP,
+  RESTOCK_COOLDOWN_HOURS,
+  alertChannels,
+  nextDeliveryAt,
+  priceDropAlert,
+  restockAlertSizes,
+  sellingPrice,
+} from './alerts';
+
+// Re-export types
+export type { AlertChannels, WatchRule } from './alerts';
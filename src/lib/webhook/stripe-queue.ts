@@ -0,0 +1,389 @@
+import { createClient } from '@supabase/supabase-js';
+import type { PaymentEvent } from '../payments';
+
+export type StripeWebhookEventStatus = 'pending' | 'processed' | 'dead_letter';
+
+export interface StripeWebhookEvent {
+  id: string;
+  event_id: string;
+  event_type: string;
+  payload: PaymentEvent;
+  status: StripeWebhookEventStatus;
+  attempts: number;
+  last_error: string | null;
+  received_count: number;
+  processed_at: string | null;
+  replayed_at: string | null;
+  replayed_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StripeWebhookQueueItem {
+  id: string;
+  stripe_webhook_event_id: string;
+  scheduled_for: string;
+  processing_attempts: number;
+  max_attempts: number;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  error_details?: any;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StripeWebhookHandler = (event: PaymentEvent) => Promise<void>;
+
+export interface StoreResult {
+  event: StripeWebhookEvent;
+  duplicate: boolean;
+  queueItemId: string | null; // null when a duplicate is already queued or handled
+}
+
+/** What happens to a queue item after a failed attempt */
+export interface FailureOutcome {
+  status: 'pending' | 'failed';
+  scheduledFor: string | null;
+  deadLetter: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Retries wait 30s, 2m, 8m, 32m...; capped at six hours
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Items left in processing this long (e.g. the function timed out) are picked up again
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Stores Stripe events once per event id and hands them to the handler through a retrying queue.
+ * Modelled on the KicksDB WebhookQueue; events that keep failing are dead-lettered for an admin to replay.
+ */
+export class StripeWebhookQueue {
+  private supabase;
+
+  constructor(private handler: StripeWebhookHandler) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  /**
+   * Delay before the next attempt once `attempts` attempts have failed
+   */
+  static retryDelayMs(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * Math.pow(4, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Retry later, or dead-letter once the item has used all its attempts
+   */
+  static failureOutcome(attempts: number, maxAttempts: number, now: Date = new Date()): FailureOutcome {
+    if (attempts >= maxAttempts) {
+      return { status: 'failed', scheduledFor: null, deadLetter: true };
+    }
+
+    return {
+      status: 'pending',
+      scheduledFor: new Date(now.getTime() + StripeWebhookQueue.retryDelayMs(attempts)).toISOString(),
+      deadLetter: false,
+    };
+  }
+
+  /**
+   * Persist a verified event together with its queue item. A redelivered event id is reported as a
+   * duplicate and only queued again when it is still pending and nothing is queued to handle it.
+   */
+  async store(event: PaymentEvent): Promise<StoreResult> {
+    const { data, error } = await this.supabase
+      .rpc('store_stripe_webhook_event', {
+        p_event_id: event.id,
+        p_event_type: event.type,
+        p_payload: event,
+        p_max_attempts: DEFAULT_MAX_ATTEMPTS,
+      });
+
+    if (error || !data) {
+      throw error || new Error('Failed to store Stripe webhook event');
+    }
+
+    return {
+      event: data.event as StripeWebhookEvent,
+      duplicate: data.duplicate,
+      queueItemId: data.queue_item_id,
+    };
+  }
+
+  /**
+   * Add a stored event to the processing queue
+   */
+  async enqueue(webhookEventId: string, scheduledFor?: Date): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('stripe_webhook_queue')
+      .insert([{
+        stripe_webhook_event_id: webhookEventId,
+        scheduled_for: scheduledFor?.toISOString() || new Date().toISOString(),
+        max_attempts: DEFAULT_MAX_ATTEMPTS,
+        status: 'pending',
+      }])
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      console.error('Error enqueuing Stripe webhook event:', error);
+      throw error || new Error('Failed to enqueue Stripe webhook event');
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Process one queue item now. Returns false when another worker already claimed it.
+   */
+  async process(queueItemId: string): Promise<boolean> {
+    const { data: queueItem } = await this.supabase
+      .from('stripe_webhook_queue')
+      .select('*')
+      .eq('id', queueItemId)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (!queueItem) return false;
+
+    return this.run(queueItem as StripeWebhookQueueItem);
+  }
+
+  /**
+   * Process the next due item. Returns false when nothing is due.
+   */
+  async processNext(): Promise<boolean> {
+    try {
+      const { data: queueItems } = await this.supabase
+        .from('stripe_webhook_queue')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('scheduled_for', new Date().toISOString())
+        .order('scheduled_for', { ascending: true })
+        .limit(1);
+
+      if (!queueItems || queueItems.length === 0) {
+        return false;
+      }
+
+      // Still true when another worker won the claim: more items may be due
+      await this.run(queueItems[0] as StripeWebhookQueueItem);
+      return true;
+    } catch (error) {
+      console.error('Error processing Stripe webhook queue item:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Drain everything due, after requeuing items abandoned mid-processing
+   */
+  async processPending(limit: number = 100): Promise<{ processed: number; stale: number }> {
+    const stale = await this.requeueStale();
+
+    let processed = 0;
+    while (processed < limit && await this.processNext()) {
+      processed++;
+    }
+
+    return { processed, stale };
+  }
+
+  /**
+   * Queue a dead-lettered event again with a fresh set of attempts and make the first one now.
+   * Returns null when the event is not dead-lettered.
+   */
+  async replay(webhookEventId: string, replayedBy?: string): Promise<string | null> {
+    const { data: event, error } = await this.supabase
+      .from('stripe_webhook_events')
+      .update({
+        status: 'pending',
+        last_error: null,
+        replayed_at: new Date().toISOString(),
+        replayed_by: replayedBy || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', webhookEventId)
+      .eq('status', 'dead_letter')
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!event) return null;
+
+    const queueItemId = await this.enqueue(webhookEventId);
+    await this.process(queueItemId);
+
+    return queueItemId;
+  }
+
+  async getEvent(webhookEventId: string): Promise<StripeWebhookEvent | null> {
+    const { data, error } = await this.supabase
+      .from('stripe_webhook_events')
+      .select('*')
+      .eq('id', webhookEventId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as StripeWebhookEvent | null;
+  }
+
+  async listEvents(options: { status?: StripeWebhookEventStatus; limit?: number } = {}): Promise<StripeWebhookEvent[]> {
+    let query = this.supabase
+      .from('stripe_webhook_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 100);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []) as StripeWebhookEvent[];
+  }
+
+  /**
+   * Event counts by status over the last 1000 events
+   */
+  async getStats(): Promise<Record<StripeWebhookEventStatus, number> & { total: number }> {
+    const { data } = await this.supabase
+      .from('stripe_webhook_events')
+      .select('status')
+      .order('created_at', { ascending: false })
+      .limit(1000);
+
+    const stats = { pending: 0, processed: 0, dead_letter: 0, total: data?.length || 0 };
+
+    data?.forEach(item => {
+      stats[item.status as StripeWebhookEventStatus]++;
+    });
+
+    return stats;
+  }
+
+  private async run(queueItem: StripeWebhookQueueItem): Promise<boolean> {
+    const attempts = queueItem.processing_attempts + 1;
+
+    // Claim by moving pending -> processing; only one worker gets the row back
+    const { data: claimed } = await this.supabase
+      .from('stripe_webhook_queue')
+      .update({
+        status: 'processing',
+        processing_attempts: attempts,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', queueItem.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (!claimed?.length) return false;
+
+    const webhookEvent = await this.getEvent(queueItem.stripe_webhook_event_id);
+    if (!webhookEvent) {
+      await this.updateQueueItem(queueItem.id, { status: 'failed', error_details: { error: 'Event not found' } });
+      return true;
+    }
+
+    if (webhookEvent.status === 'processed') {
+      // Already handled through another queue item
+      await this.updateQueueItem(queueItem.id, { status: 'completed' });
+      return true;
+    }
+
+    try {
+      await this.handler(webhookEvent.payload);
+
+      await this.updateQueueItem(queueItem.id, { status: 'completed' });
+      await this.updateEvent(webhookEvent.id, {
+        status: 'processed',
+        attempts: webhookEvent.attempts + 1,
+        last_error: null,
+        processed_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown processing error';
+      console.error(`Stripe webhook event ${webhookEvent.event_id} failed (attempt ${attempts}):`, error);
+
+      await this.handleProcessingFailure(queueItem, webhookEvent, attempts, message);
+    }
+
+    return true;
+  }
+
+  private async handleProcessingFailure(
+    queueItem: StripeWebhookQueueItem,
+    webhookEvent: StripeWebhookEvent,
+    attempts: number,
+    errorMessage: string
+  ): Promise<void> {
+    const outcome = StripeWebhookQueue.failureOutcome(attempts, queueItem.max_attempts || DEFAULT_MAX_ATTEMPTS);
+
+    await this.updateQueueItem(queueItem.id, {
+      status: outcome.status,
+      ...(outcome.scheduledFor ? { scheduled_for: outcome.scheduledFor } : {}),
+      error_details: { error: errorMessage, attempts },
+    });
+
+    await this.updateEvent(webhookEvent.id, {
+      status: outcome.deadLetter ? 'dead_letter' : 'pending',
+      attempts: webhookEvent.attempts + 1,
+      last_error: errorMessage,
+    });
+
+    if (outcome.deadLetter) {
+      console.error(`Stripe webhook event ${webhookEvent.event_id} dead-lettered after ${attempts} attempts`);
+    }
+  }
+
+  private async requeueStale(): Promise<number> {
+    const cutoff = new Date(Date.now() - PROCESSING_TIMEOUT_MS).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('stripe_webhook_queue')
+      .update({ status: 'pending', scheduled_for: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('status', 'processing')
+      .lt('updated_at', cutoff)
+      .select('id');
+
+    if (error) {
+      console.error('Error requeuing stale Stripe webhook items:', error);
+      return 0;
+    }
+
+    return data?.length || 0;
+  }
+
+  private async updateQueueItem(id: string, updates: Partial<StripeWebhookQueueItem>): Promise<void> {
+    const { error } = await this.supabase
+      .from('stripe_webhook_queue')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating Stripe webhook queue item:', error);
+    }
+  }
+
+  private async updateEvent(id: string, updates: Partial<StripeWebhookEvent>): Promise<void> {
+    const { error } = await this.supabase
+      .from('stripe_webhook_events')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating Stripe webhook event:', error);
+    }
+  }
+}
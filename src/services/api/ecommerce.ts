@@ -6,6 +6,7 @@ import { InventoryService } from '@/services/inventory'
 import type { Order, OrderItem, CheckoutData } from '@/types/order'
 import type { CreatePaymentIntentRequest, ProcessPaymentRequest, PaymentIntent } from '@/services/payments'
 import type { StockAvailability, StockReservation } from '@/services/inventory'
+import type { CartDiscount } from '@/types/promotion'
 
 export interface CartItem {
   id: string
@@ -30,6 +31,7 @@ export interface CartSummary {
   estimatedShipping: number
   estimatedTax: number
   estimatedTotal: number
+  discount?: CartDiscount // applied discount code; checkout prices it again
 }
 
 export interface AddToCartRequest {
@@ -479,6 +481,43 @@ export class EcommerceService extends BaseApiService {
     return InventoryService.getLowStockItems(threshold)
   }
 
+  // DISCOUNTS
+
+  async applyDiscountCode(code: string, sessionId?: string, userId?: string): Promise<CartSummary> {
+    const cart = await this.getCart(sessionId || '', userId)
+    if (cart.items.length === 0) {
+      throw new Error('Your cart is empty')
+    }
+
+    const response = await fetch('/api/checkout/discount', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        code,
+        items: cart.items.map(item => ({ productId: item.productId, quantity: item.quantity }))
+      })
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Invalid discount code')
+    }
+
+    const discount: CartDiscount = data.discount
+    const discountedSubtotal = cart.subtotal - discount.amount
+    const estimatedShipping = discount.freeShipping ? 0 : cart.estimatedShipping
+    // The tax estimate follows the discounted subtotal
+    const estimatedTax = cart.subtotal > 0 ? cart.estimatedTax * discountedSubtotal / cart.subtotal : 0
+
+    return {
+      ...cart,
+      discount,
+      estimatedShipping,
+      estimatedTax,
+      estimatedTotal: discountedSubtotal + estimatedShipping + estimatedTax
+    }
+  }
+
   // UTILITY METHODS
 
   private generateSessionId(): string {
@@ -0,0 +1,156 @@
+/**
+ * Product Search Helpers
+ * Builds the filter payload for the search_products and product_search_facets RPCs and reads the
+ * facet counts and suggestions the search RPCs return
+ */
+
+import { canonicalSizesFor, compareSizes } from '@/lib/sizing';
+import type { ProductFilters, SearchSuggestion } from './products';
+
+// Price facet buckets are split at these retail prices, in the base currency
+export const PRICE_BUCKET_EDGES = [100, 150, 200, 300, 500];
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface BrandFacet extends FacetCount {
+  id: string;
+  slug: string;
+}
+
+export interface PriceBucket {
+  min?: number;
+  max?: number;
+  count: number;
+}
+
+export interface ProductFacets {
+  total: number;
+  brands: BrandFacet[];
+  sizes: FacetCount[];
+  prices: PriceBucket[];
+  colors: FacetCount[];
+  genders: FacetCount[];
+  marketplaces: FacetCount[];
+}
+
+export type SearchFilterPayload = Omit<ProductFilters, 'search' | 'sizeSystem'>;
+
+/**
+ * Filters as the search RPCs expect them: empty values dropped and sizes converted from the
+ * shopper's size system to the canonical US sizes stock is keyed on. The query itself is sent
+ * separately, so `search` is left out.
+ */
+export function toSearchFilters(filters: ProductFilters = {}): SearchFilterPayload {
+  const { search: _search, sizeSystem, ...rest } = filters;
+  const payload: SearchFilterPayload = {};
+
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value) && value.length === 0) return;
+    payload[key] = value;
+  });
+
+  if (payload.sizes) {
+    payload.sizes = canonicalSizesFor(payload.sizes, sizeSystem, filters.gender);
+  }
+
+  return payload;
+}
+
+/**
+ * Price range of a bucket returned by product_search_facets: bucket 0 is below the first edge and the
+ * last bucket is open-ended. The upper bound stops a cent short so a product priced exactly on an
+ * edge only falls in the bucket above.
+ */
+export function priceBucketRange(
+  bucket: number,
+  edges: number[] = PRICE_BUCKET_EDGES
+): { min?: number; max?: number } {
+  return {
+    min: bucket > 0 ? edges[bucket - 1] : undefined,
+    max: bucket < edges.length ? Math.round((edges[bucket] - 0.01) * 100) / 100 : undefined
+  };
+}
+
+/**
+ * Read the JSON returned by product_search_facets. Every price bucket is listed, empty ones with a
+ * count of 0, so the filter panel keeps a stable layout.
+ */
+export function toProductFacets(raw: any, edges: number[] = PRICE_BUCKET_EDGES): ProductFacets {
+  const toCounts = (rows: any[] | undefined): FacetCount[] =>
+    (rows || []).map(row => ({ value: String(row.value), count: Number(row.count) }));
+
+  const priceCounts = new Map<number, number>(
+    (raw?.prices || []).map((row: any) => [Number(row.bucket), Number(row.count)])
+  );
+
+  return {
+    total: Number(raw?.total || 0),
+    brands: (raw?.brands || []).map((row: any) => ({
+      id: row.id,
+      value: row.name,
+      slug: row.slug,
+      count: Number(row.count)
+    })),
+    sizes: toCounts(raw?.sizes).sort((a, b) => compareSizes(a.value, b.value)),
+    prices: Array.from({ length: edges.length + 1 }, (_, bucket) => ({
+      ...priceBucketRange(bucket, edges),
+      count: priceCounts.get(bucket) || 0
+    })),
+    colors: toCounts(raw?.colors),
+    genders: toCounts(raw?.genders),
+    marketplaces: toCounts(raw?.marketplaces)
+  };
+}
+
+// Autocomplete shows at most this many past searches and brands; products fill the rest
+const MAX_QUERY_SUGGESTIONS = 3;
+const MAX_BRAND_SUGGESTIONS = 3;
+
+/**
+ * Assemble the rows returned by search_suggestions: past searches and synonyms first, then brands,
+ * then products, each most popular first. A search that is also a synonym's expansion is listed once.
+ */
+export function toSearchSuggestions(rows: any[], limit = 10): SearchSuggestion[] {
+  const byPopularity = (kind: string) => rows
+    .filter(row => row.kind === kind)
+    .sort((a, b) => Number(b.popularity) - Number(a.popularity));
+
+  const queries = new Map<string, SearchSuggestion>();
+  byPopularity('query').forEach(row => {
+    if (!queries.has(row.label)) {
+      queries.set(row.label, {
+        id: `query:${row.label}`,
+        text: row.label,
+        type: 'query',
+        popularity: Number(row.popularity)
+      });
+    }
+  });
+
+  const brands: SearchSuggestion[] = byPopularity('brand').slice(0, MAX_BRAND_SUGGESTIONS).map(row => ({
+    id: row.ref_id,
+    text: row.label,
+    type: 'brand',
+    slug: row.ref_slug,
+    count: Number(row.popularity),
+    popularity: Number(row.popularity)
+  }));
+
+  const products: SearchSuggestion[] = byPopularity('product').map(row => ({
+    id: row.ref_id,
+    text: row.label,
+    type: 'product',
+    slug: row.ref_slug || undefined,
+    popularity: Number(row.popularity)
+  }));
+
+  return [
+    ...Array.from(queries.values()).slice(0, MAX_QUERY_SUGGESTIONS),
+    ...brands,
+    ...products
+  ].slice(0, limit);
+}
@@ -6,6 +6,14 @@
 import { BaseApiService, type ApiResponse, type PaginationParams, type FilterParams } from './base';
 import { supabase } from '@/lib/supabase/client';
 import type { DBProduct } from '@/types/database';
+import type { SizeSystem } from '@/lib/sizing';
+import {
+  PRICE_BUCKET_EDGES,
+  toProductFacets,
+  toSearchFilters,
+  toSearchSuggestions,
+  type ProductFacets
+} from './product-search';
 
 // Enhanced Product Types
 export interface Product {
@@ -75,6 +83,7 @@ export interface ProductFilters extends FilterParams {
   minPrice?: number;
   maxPrice?: number;
   sizes?: string[];
+  sizeSystem?: SizeSystem;
   colors?: string[];
   status?: 'active' | 'inactive' | 'discontinued';
   marketplace?: 'stockx' | 'goat';
@@ -86,7 +95,7 @@ export interface ProductFilters extends FilterParams {
 }
 
 export interface ProductSortOptions {
-  field: 'name' | 'price' | 'retail_price' | 'release_date' | 'created_at' | 'last_sale' | 'popularity';
+  field: 'relevance' | 'name' | 'price' | 'retail_price' | 'release_date' | 'created_at' | 'last_sale' | 'popularity';
   direction: 'asc' | 'desc';
 }
 
@@ -111,10 +120,47 @@ export interface ProductRecommendations {
 export interface SearchSuggestion {
   id: string;
   text: string;
-  type: 'product' | 'brand' | 'category';
+  type: 'product' | 'brand' | 'category' | 'query';
   count?: number;
+  slug?: string;
+  popularity?: number;
 }
 
+// Everything a product card needs, as loaded for listings and search results
+const PRODUCT_SELECT = `
+  *,
+  brands(
+    id,
+    name,
+    slug,
+    logo_url
+  ),
+  product_images(
+    id,
+    image_url,
+    alt_text,
+    is_primary,
+    sort_order
+  ),
+  product_stock(
+    size,
+    quantity,
+    reserved_quantity
+  ),
+  product_market(
+    lowest_ask,
+    highest_bid,
+    last_sale,
+    change_value,
+    change_percentage,
+    volatility,
+    deadstock_sold,
+    annual_high,
+    annual_low,
+    recorded_at
+  )
+`;
+
 // Cache Configuration
 interface CacheConfig {
   ttl: number;
@@ -146,68 +192,7 @@ class ProductApiService extends BaseApiService {
     }
 
     return this.handleApiCall(async () => {
-      let query = supabase
-        .from('products')
-        .select(`
-          *,
-          brands!inner(
-            id,
-            name,
-            slug,
-            logo_url
-          ),
-          product_images(
-            id,
-            image_url,
-            alt_text,
-            is_primary,
-            sort_order
-          ),
-          product_stock(
-            size,
-            quantity,
-            reserved_quantity
-          ),
-          product_market!left(
-            lowest_ask,
-            highest_bid,
-            last_sale,
-            change_value,
-            change_percentage,
-            volatility,
-            deadstock_sold,
-            annual_high,
-            annual_low,
-            recorded_at
-          )
-        `, { count: 'exact' });
-
-      // Apply filters
-      query = this.applyFilters(query, filters);
-
-      // Apply sorting
-      query = this.applySorting(query, sort);
-
-      // Apply pagination
-      query = this.buildPaginationQuery(query, pagination);
-
-      const { data, error, count } = await query;
-
-      if (error) throw error;
-
-      const products = (data || []).map(this.transformProduct);
-      const total = count || 0;
-      const totalPages = Math.ceil(total / (pagination.limit || 20));
-
-      const result: ProductsResponse = {
-        products,
-        total,
-        page: pagination.page || 1,
-        limit: pagination.limit || 20,
-        totalPages,
-        hasNextPage: (pagination.page || 1) < totalPages,
-        hasPrevPage: (pagination.page || 1) > 1
-      };
+      const result = await this.runSearch(filters.search || '', pagination, filters, sort);
 
       // Cache the result
       this.setCached(cacheKey, result, 5 * 60 * 1000); // 5 minutes
@@ -283,13 +268,13 @@ class ProductApiService extends BaseApiService {
   }
 
   /**
-   * Search products with full-text search
+   * Search products with full-text search, best matches first unless another sort is given
    */
   async searchProducts(
     query: string,
     pagination: PaginationParams = { page: 1, limit: 20 },
     filters: ProductFilters = {},
-    sort: ProductSortOptions = { field: 'name', direction: 'asc' }
+    sort: ProductSortOptions = { field: 'relevance', direction: 'desc' }
   ): Promise<ApiResponse<ProductsResponse>> {
     if (!query.trim()) {
       return this.getProducts(pagination, filters, sort);
@@ -303,80 +288,44 @@ class ProductApiService extends BaseApiService {
     }
 
     return this.handleApiCall(async () => {
-      let searchQuery = supabase
-        .from('products')
-        .select(`
-          *,
-          brands!inner(
-            id,
-            name,
-            slug,
-            logo_url
-          ),
-          product_images(
-            id,
-            image_url,
-            alt_text,
-            is_primary,
-            sort_order
-          ),
-          product_stock(
-            size,
-            quantity,
-            reserved_quantity
-          ),
-          product_market!left(
-            lowest_ask,
-            highest_bid,
-            last_sale,
-            change_value,
-            change_percentage,
-            volatility,
-            deadstock_sold,
-            annual_high,
-            annual_low,
-            recorded_at
-          )
-        `, { count: 'exact' })
-        .or(`name.ilike.%${query}%,description.ilike.%${query}%,colorway.ilike.%${query}%,sku.ilike.%${query}%,brands.name.ilike.%${query}%`)
-        .eq('status', 'active');
+      const result = await this.runSearch(query, pagination, filters, sort);
 
-      // Apply additional filters
-      searchQuery = this.applyFilters(searchQuery, filters);
+      // Cache the result for shorter duration (search results change more frequently)
+      this.setCached(cacheKey, result, 2 * 60 * 1000); // 2 minutes
 
-      // Apply sorting with search relevance
-      if (sort.field === 'name') {
-        // Sort by relevance first, then by name
-        searchQuery = searchQuery.order('name', { ascending: sort.direction === 'asc' });
-      } else {
-        searchQuery = this.applySorting(searchQuery, sort);
+      if ((pagination.page || 1) === 1) {
+        this.logSearch(query);
       }
 
-      // Apply pagination
-      searchQuery = this.buildPaginationQuery(searchQuery, pagination);
+      return { data: result, error: null };
+    });
+  }
+
+  /**
+   * Facet counts (brand, size, price, color, gender, marketplace) for a search or product listing
+   */
+  async getProductFacets(query: string, filters: ProductFilters = {}): Promise<ApiResponse<ProductFacets>> {
+    const cacheKey = this.generateCacheKey('facets', { query, filters });
+    const cached = this.getCached<ProductFacets>(cacheKey);
+
+    if (cached) {
+      return { data: cached, error: null };
+    }
 
-      const { data, error, count } = await searchQuery;
+    return this.handleApiCall(async () => {
+      const { data, error } = await supabase.rpc('product_search_facets', {
+        p_query: query.trim(),
+        p_filters: toSearchFilters(filters),
+        p_price_edges: PRICE_BUCKET_EDGES
+      });
 
       if (error) throw error;
 
-      const products = (data || []).map(this.transformProduct);
-      const total = count || 0;
-      const totalPages = Math.ceil(total / (pagination.limit || 20));
-
-      const result: ProductsResponse = {
-        products,
-        total,
-        page: pagination.page || 1,
-        limit: pagination.limit || 20,
-        totalPages,
-        hasNextPage: (pagination.page || 1) < totalPages,
-        hasPrevPage: (pagination.page || 1) > 1
-      };
+      const facets = toProductFacets(data);
 
-      // Cache the result for shorter duration (search results change more frequently)
-      this.setCached(cacheKey, result, 2 * 60 * 1000); // 2 minutes
+      this.setCached(cacheKey, facets, 2 * 60 * 1000); // 2 minutes
 
-      return { data: result, error: null };
+      return { data: facets, error: null };
     });
   }
 
@@ -396,35 +345,15 @@ class ProductApiService extends BaseApiService {
     }
 
     return this.handleApiCall(async () => {
-      // Get product suggestions
-      const { data: products } = await supabase
-        .from('products')
-        .select('id, name')
-        .ilike('name', `%${query}%`)
-        .eq('status', 'active')
-        .limit(Math.ceil(limit * 0.6));
+      // Misspellings and nicknames are expanded by the RPC; each kind comes back most popular first
+      const { data, error } = await supabase.rpc('search_suggestions', {
+        p_query: query,
+        p_limit: limit
+      });
 
-      // Get brand suggestions
-      const { data: brands } = await supabase
-        .from('brands')
-        .select('id, name, product_count')
-        .ilike('name', `%${query}%`)
-        .gt('product_count', 0)
-        .limit(Math.ceil(limit * 0.4));
-
-      const suggestions: SearchSuggestion[] = [
-        ...(products || []).map(p => ({
-          id: p.id,
-          text: p.name,
-          type: 'product' as const
-        })),
-        ...(brands || []).map(b => ({
-          id: b.id,
-          text: b.name,
-          type: 'brand' as const,
-          count: b.product_count
-        }))
-      ].slice(0, limit);
+      if (error) throw error;
+
+      const suggestions = toSearchSuggestions(data || [], limit);
 
       // Cache suggestions
       this.setCached(cacheKey, suggestions, 10 * 60 * 1000); // 10 minutes
@@ -625,68 +554,68 @@ class ProductApiService extends BaseApiService {
 
   // Private helper methods
 
-  private applyFilters(query: any, filters: ProductFilters) {
-    let filteredQuery = query.eq('status', filters.status || 'active');
-
-    if (filters.brand) {
-      filteredQuery = filteredQuery.eq('brands.name', filters.brand);
-    }
-
-    if (filters.brandIds && filters.brandIds.length > 0) {
-      filteredQuery = filteredQuery.in('brand_id', filters.brandIds);
-    }
-
-    if (filters.category) {
-      filteredQuery = filteredQuery.eq('category', filters.category);
-    }
-
-    if (filters.categories && filters.categories.length > 0) {
-      filteredQuery = filteredQuery.in('category', filters.categories);
-    }
-
-    if (filters.gender) {
-      filteredQuery = filteredQuery.eq('gender', filters.gender);
-    }
+  /**
+   * Record a search for suggestion popularity and the zero-result report; the database counts what it
+   * finds. Searching never waits for or fails on this.
+   */
+  private logSearch(query: string): void {
+    supabase
+      .rpc('log_search_query', { p_query: query })
+      .then(({ error }) => {
+        if (error) console.warn('Failed to log search:', error.message);
+      });
+  }
 
-    if (filters.minPrice !== undefined) {
-      filteredQuery = filteredQuery.gte('retail_price', filters.minPrice);
-    }
+  /**
+   * Run the search_products RPC for one page, then load those products in the order it ranked them
+   */
+  private async runSearch(
+    query: string,
+    pagination: PaginationParams,
+    filters: ProductFilters,
+    sort: ProductSortOptions
+  ): Promise<ProductsResponse> {
+    const page = pagination.page || 1;
+    const limit = pagination.limit || 20;
+
+    const { data: matches, error } = await supabase.rpc('search_products', {
+      p_query: query.trim(),
+      p_filters: toSearchFilters(filters),
+      p_sort: sort.field,
+      p_direction: sort.direction,
+      p_limit: limit,
+      p_offset: (page - 1) * limit
+    });
 
-    if (filters.maxPrice !== undefined) {
-      filteredQuery = filteredQuery.lte('retail_price', filters.maxPrice);
-    }
+    if (error) throw error;
 
-    if (filters.marketplace) {
-      filteredQuery = filteredQuery.eq('marketplace', filters.marketplace);
-    }
+    const ids: string[] = (matches || []).map((match: any) => match.product_id);
+    let products: Product[] = [];
 
-    if (filters.releasedAfter) {
-      filteredQuery = filteredQuery.gte('release_date', filters.releasedAfter);
-    }
+    if (ids.length > 0) {
+      const { data, error: productsError } = await supabase
+        .from('products')
+        .select(PRODUCT_SELECT)
+        .in('id', ids);
 
-    if (filters.releasedBefore) {
-      filteredQuery = filteredQuery.lte('release_date', filters.releasedBefore);
-    }
+      if (productsError) throw productsError;
 
-    if (filters.inStock === true) {
-      filteredQuery = filteredQuery.gt('product_stock.quantity', 'product_stock.reserved_quantity');
+      const byId = new Map((data || []).map((row: any) => [row.id, this.transformProduct(row)]));
+      products = ids.map(id => byId.get(id)).filter((product): product is Product => !!product);
     }
 
-    return filteredQuery;
-  }
+    const total = Number(matches?.[0]?.total_count || 0);
+    const totalPages = Math.ceil(total / limit);
 
-  private applySorting(query: any, sort: ProductSortOptions) {
-    // Map sort fields to database columns and handle foreign table sorting
-    switch (sort.field) {
-      case 'price':
-        return query.order('retail_price', { ascending: sort.direction === 'asc' });
-      case 'last_sale':
-        return query.order('last_sale', { ascending: sort.direction === 'asc', foreignTable: 'product_market' });
-      case 'popularity':
-        return query.order('deadstock_sold', { ascending: sort.direction === 'asc', foreignTable: 'product_market' });
-      default:
-        return query.order(sort.field, { ascending: sort.direction === 'asc' });
-    }
+    return {
+      products,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPrevPage: page > 1
+    };
   }
 
   private async getSimilarProducts(productId: string, limit: number): Promise<ApiResponse<Product[]>> {
@@ -0,0 +1,513 @@
+import { createHash } from 'crypto'
+import { supabase } from '@/lib/supabase/server'
+import { OrderService } from '@/services/orders'
+import { OrderStatusService } from '@/services/order-status'
+import { PricingService } from '@/services/pricing'
+import { PaymentService, type PaymentIntent } from '@/services/payments'
+import { GuestOrderService } from '@/services/guest-orders'
+import { PromotionService, PROMOTION_RPC_ERRORS } from '@/services/promotions'
+import { StoreCreditService } from '@/services/store-credit'
+import { PromotionError, normalizePromotionCode } from '@/lib/promotions'
+import { generateOrderNumber, MAX_NUMBER_ATTEMPTS } from '@/lib/orders'
+import type { CheckoutRequest, CheckoutResult, Order } from '@/types/order'
+import type { Promotion } from '@/types/promotion'
+
+// Minutes the buyer has to complete payment before reserved stock is released
+const RESERVATION_MINUTES = 15
+
+// A request still marked processing after this long was interrupted and may be retried
+const STALE_REQUEST_MS = 2 * 60 * 1000
+
+export enum CheckoutErrorCode {
+  EMPTY_CART = 'EMPTY_CART',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  PRICE_CHANGED = 'PRICE_CHANGED',
+  OUT_OF_STOCK = 'OUT_OF_STOCK',
+  PROMOTION_INVALID = 'PROMOTION_INVALID',
+  INSUFFICIENT_CREDIT = 'INSUFFICIENT_CREDIT',
+  IDEMPOTENCY_MISMATCH = 'IDEMPOTENCY_MISMATCH',
+  IN_PROGRESS = 'IN_PROGRESS',
+  PAYMENT_FAILED = 'PAYMENT_FAILED',
+  FAILED = 'FAILED'
+}
+
+export class CheckoutError extends Error {
+  constructor(
+    public code: CheckoutErrorCode,
+    message: string,
+    public details?: any
+  ) {
+    super(message)
+    this.name = 'CheckoutError'
+  }
+}
+
+// A signed-in user, or a guest checking out the cart saved under their cart session
+export type CheckoutBuyer =
+  | { userId: string; email?: string | null }
+  | { userId: null; email: string; cartSessionId: string }
+
+interface SavedCartLine {
+  productId: string
+  size: string
+  quantity: number
+  productName: string
+  productBrand: string
+  productImageUrl: string
+}
+
+export class CheckoutService {
+  /**
+   * Place an order from the buyer's saved cart. Prices, totals and stock are checked on the server,
+   * the order and its reservations are created in one transaction, then the payment intent is created.
+   * Repeating a request with the same idempotency key returns the original order and intent.
+   * Guest orders also get the lookup token that lets the guest pay for and view the order.
+   * With useStoreCredit the buyer's balance pays first and the intent is for what is left; an order
+   * paid entirely with credit has no intent and is completed straight away.
+   */
+  static async checkout(buyer: CheckoutBuyer, request: CheckoutRequest, idempotencyKey: string): Promise<CheckoutResult> {
+    const userId = buyer.userId
+    const cartSessionId = buyer.userId === null ? buyer.cartSessionId : null
+    const email = buyer.email ? GuestOrderService.normalizeEmail(buyer.email) : null
+
+    if (userId === null && (!email || !GuestOrderService.isValidEmail(email))) {
+      throw new CheckoutError(CheckoutErrorCode.INVALID_REQUEST, 'Please enter a valid email address')
+    }
+    if (userId === null && request.useStoreCredit) {
+      throw new CheckoutError(CheckoutErrorCode.INVALID_REQUEST, 'Please sign in to pay with store credit')
+    }
+
+    const cart = await this.loadCart(buyer)
+    if (cart.length === 0) {
+      throw new CheckoutError(CheckoutErrorCode.EMPTY_CART, 'Your cart is empty')
+    }
+
+    const requestHash = this.hashRequest(cart, { ...request, email: email || undefined })
+    const replay = await this.claimRequest(idempotencyKey, buyer, requestHash)
+    if (replay) return replay
+
+    let orderId: string | null = null
+
+    try {
+      // The code applied in the cart is checked again: it may have expired or run out of uses since
+      let promotion: Promotion | null = null
+      if (request.discountCode) {
+        promotion = await PromotionService.findByCode(request.discountCode, { userId, email })
+          .catch(error => { throw this.promotionError(error) })
+      }
+
+      // Unavailable products, destinations or shipping services make the request unfulfillable
+      const { quote, lockedRate, priced } = await OrderService.priceOrder(
+        cart.map(line => ({ productId: line.productId, quantity: line.quantity })),
+        { country: request.shippingAddress.country, region: request.shippingAddress.state },
+        { currency: request.currency, shippingRateId: request.shippingRateId, promotion }
+      ).catch(error => {
+        if (error instanceof PromotionError) throw this.promotionError(error)
+        throw new CheckoutError(
+          CheckoutErrorCode.INVALID_REQUEST,
+          error instanceof Error ? error.message : 'This order cannot be priced'
+        )
+      })
+
+      if (
+        request.expectedTotal !== undefined &&
+        PricingService.round(request.expectedTotal, lockedRate.currency) !== priced.total
+      ) {
+        throw new CheckoutError(
+          CheckoutErrorCode.PRICE_CHANGED,
+          'Prices have changed since you started checkout. Please review your order.',
+          { total: priced.total, currency: lockedRate.currency, quote }
+        )
+      }
+
+      const discountLines = quote.discountLines.map((line, index) => ({ ...line, amount: priced.discountAmounts[index] }))
+
+      // place_checkout_order takes the credit from the balance and refuses it if the balance has dropped since
+      const credit = userId !== null && request.useStoreCredit
+        ? StoreCreditService.planCreditPayment(
+          await StoreCreditService.getBalance(userId), priced.total, lockedRate.rate, lockedRate.currency
+        )
+        : { amount: 0, baseAmount: 0 }
+      const cardAmount = PricingService.round(priced.total - credit.amount, lockedRate.currency)
+
+      orderId = crypto.randomUUID()
+      let orderNumber = generateOrderNumber()
+      const createdAt = new Date().toISOString()
+
+      const placeOrder = () => supabase.rpc('place_checkout_order', {
+        p_order: {
+          id: orderId,
+          user_id: userId,
+          customer_email: email,
+          cart_session_id: cartSessionId,
+          order_number: orderNumber,
+          subtotal: priced.subtotal,
+          shipping_amount: priced.shipping,
+          tax_amount: priced.tax,
+          discount_amount: priced.discount,
+          total_amount: priced.total,
+          store_credit_amount: credit.amount,
+          store_credit_base_amount: credit.baseAmount,
+          currency: lockedRate.currency,
+          fx_rate: lockedRate.rate,
+          fx_rate_id: lockedRate.rateId,
+          fx_locked_at: lockedRate.lockedAt,
+          shipping_rate_id: quote.shippingRateId,
+          tax_lines: quote.taxLines,
+          discount_lines: discountLines,
+          promotion_id: promotion?.id || null,
+          customer_notes: request.notes || null,
+        },
+        p_items: cart.map((line, index) => ({
+          product_id: line.productId,
+          size: line.size,
+          quantity: line.quantity,
+          unit_price: priced.unitPrices[index],
+          total_price: PricingService.round(priced.unitPrices[index] * line.quantity, lockedRate.currency),
+          discount_amount: priced.lineDiscounts[index],
+          product_name: line.productName,
+          product_brand: line.productBrand,
+          product_image_url: line.productImageUrl,
+        })),
+        p_address: {
+          first_name: request.shippingAddress.firstName,
+          last_name: request.shippingAddress.lastName,
+          address_line_1: request.shippingAddress.address,
+          city: request.shippingAddress.city,
+          postal_code: request.shippingAddress.postalCode,
+          country: request.shippingAddress.country,
+        },
+        p_reservation_expires_at: new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000).toISOString(),
+      })
+
+      let placed = await placeOrder()
+      for (let attempt = 1; this.isOrderNumberTaken(placed.error) && attempt < MAX_NUMBER_ATTEMPTS; attempt++) {
+        // Another order drew the same number; draw again
+        orderNumber = generateOrderNumber()
+        placed = await placeOrder()
+      }
+      const { data: reservations, error: placeError } = placed
+
+      if (placeError) {
+        orderId = null
+        if (placeError.hint === 'insufficient_stock' || placeError.hint === 'raffle_only') {
+          throw new CheckoutError(CheckoutErrorCode.OUT_OF_STOCK, placeError.message)
+        }
+        if (placeError.hint === 'insufficient_credit') {
+          throw new CheckoutError(
+            CheckoutErrorCode.INSUFFICIENT_CREDIT,
+            'Your store credit balance has changed. Please review your order.'
+          )
+        }
+        if (placeError.hint && PROMOTION_RPC_ERRORS[placeError.hint]) {
+          throw this.promotionError(new PromotionError(PROMOTION_RPC_ERRORS[placeError.hint], placeError.message))
+        }
+        throw placeError
+      }
+
+      console.log('Checkout order placed with stock reservations:', orderId, reservations)
+
+      let paymentIntent: PaymentIntent | null = null
+      if (cardAmount > 0) {
+        try {
+          // Keyed by order so a retried create can never charge the same order twice
+          paymentIntent = await PaymentService.createPaymentIntent({
+            amount: cardAmount,
+            currency: lockedRate.currency,
+            orderId,
+            userId: userId || undefined,
+            metadata: { orderNumber },
+            idempotencyKey: `checkout-order-${orderId}`,
+          })
+        } catch (error) {
+          await this.cancelOrder(orderId, 'Payment setup failed')
+          orderId = null
+          throw new CheckoutError(
+            CheckoutErrorCode.PAYMENT_FAILED,
+            error instanceof Error ? error.message : 'Failed to set up payment'
+          )
+        }
+
+        await supabase
+          .from('orders')
+          .update({ stripe_payment_intent_id: paymentIntent.id })
+          .eq('id', orderId)
+      } else {
+        // Nothing to charge: store credit paid for it all, so the order is paid as placed
+        try {
+          await OrderStatusService.transition(
+            orderId,
+            { status: 'processing', paymentStatus: 'completed' },
+            { note: 'Paid with store credit' }
+          )
+        } catch (error) {
+          console.error(`Failed to complete store credit payment for order ${orderId}:`, error)
+          throw new CheckoutError(CheckoutErrorCode.PAYMENT_FAILED, 'Failed to complete the store credit payment')
+        }
+      }
+
+      const order: Order = {
+        id: orderId,
+        userId,
+        orderNumber,
+        customerEmail: email || undefined,
+        items: cart.map((line, index) => ({
+          id: reservations[index].order_item_id,
+          productId: line.productId,
+          productName: line.productName,
+          productBrand: line.productBrand,
+          productImageUrl: line.productImageUrl,
+          size: line.size,
+          quantity: line.quantity,
+          price: priced.unitPrices[index],
+          totalPrice: PricingService.round(priced.unitPrices[index] * line.quantity, lockedRate.currency),
+        })),
+        subtotal: priced.subtotal,
+        shipping: priced.shipping,
+        tax: priced.tax,
+        discount: priced.discount,
+        discountLines,
+        total: priced.total,
+        storeCredit: credit.amount,
+        currency: lockedRate.currency,
+        fxRate: lockedRate.rate,
+        status: paymentIntent ? 'pending' : 'processing',
+        shippingAddress: request.shippingAddress,
+        createdAt,
+        updatedAt: createdAt,
+      }
+
+      const result: CheckoutResult = {
+        idempotencyKey,
+        replayed: false,
+        order,
+        paymentIntent: paymentIntent && {
+          id: paymentIntent.id,
+          clientSecret: paymentIntent.clientSecret ?? null,
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency,
+          status: paymentIntent.status,
+          provider: paymentIntent.provider,
+        },
+        lookupToken: userId === null && email ? GuestOrderService.createLookupToken(orderId, email) : undefined,
+      }
+
+      await this.completeRequest(idempotencyKey, result)
+      return result
+    } catch (error) {
+      if (orderId) {
+        await this.cancelOrder(orderId, 'Checkout failed')
+      }
+      await this.failRequest(idempotencyKey, error)
+
+      if (error instanceof CheckoutError) throw error
+      console.error('Checkout failed:', error)
+      throw new CheckoutError(
+        CheckoutErrorCode.FAILED,
+        error instanceof Error ? error.message : 'Failed to place order'
+      )
+    }
+  }
+
+  // Cart lines as saved for the buyer, with the product details copied onto order items
+  private static async loadCart(buyer: CheckoutBuyer): Promise<SavedCartLine[]> {
+    let query = supabase
+      .from('shopping_cart')
+      .select(`
+        product_id,
+        size,
+        quantity,
+        added_at,
+        products (
+          name,
+          brands (name),
+          product_images (image_url, is_primary)
+        )
+      `)
+      .order('added_at', { ascending: true })
+
+    query = buyer.userId === null
+      ? query.eq('session_id', buyer.cartSessionId).is('user_id', null)
+      : query.eq('user_id', buyer.userId)
+
+    const { data, error } = await query
+
+    if (error) throw new Error(`Failed to load cart: ${error.message}`)
+
+    return (data || []).map((line: any) => ({
+      productId: line.product_id,
+      size: line.size,
+      quantity: line.quantity,
+      productName: line.products?.name || 'Unknown Product',
+      productBrand: line.products?.brands?.name || 'Unknown Brand',
+      productImageUrl: line.products?.product_images?.find((img: any) => img.is_primary)?.image_url || '',
+    }))
+  }
+
+  // Fingerprint of what is being bought and where it ships; a reused key must match it
+  static hashRequest(
+    cart: Array<{ productId: string; size: string; quantity: number }>,
+    request: CheckoutRequest
+  ): string {
+    const lines = cart
+      .map(line => `${line.productId}:${line.size}:${line.quantity}`)
+      .sort()
+
+    return createHash('sha256')
+      .update(JSON.stringify({
+        lines,
+        shippingAddress: request.shippingAddress,
+        shippingRateId: request.shippingRateId || null,
+        currency: request.currency || null,
+        notes: request.notes || null,
+        email: request.email || null,
+        discountCode: request.discountCode ? normalizePromotionCode(request.discountCode) : null,
+        useStoreCredit: request.useStoreCredit || false,
+      }))
+      .digest('hex')
+  }
+
+  /**
+   * Record the key before any work is done. Returns the stored result when the key has already
+   * completed; a failed or interrupted attempt may be retried with the same key.
+   */
+  private static async claimRequest(
+    idempotencyKey: string,
+    buyer: CheckoutBuyer,
+    requestHash: string
+  ): Promise<CheckoutResult | null> {
+    const cartSessionId = buyer.userId === null ? buyer.cartSessionId : null
+
+    const { error: insertError } = await supabase
+      .from('checkout_requests')
+      .insert({
+        idempotency_key: idempotencyKey,
+        user_id: buyer.userId,
+        cart_session_id: cartSessionId,
+        request_hash: requestHash,
+        status: 'processing',
+      })
+
+    if (!insertError) return null
+    if (insertError.code !== '23505') {
+      throw new Error(`Failed to record checkout request: ${insertError.message}`)
+    }
+
+    const { data: existing, error } = await supabase
+      .from('checkout_requests')
+      .select('*')
+      .eq('idempotency_key', idempotencyKey)
+      .single()
+
+    if (error) throw new Error(`Failed to load checkout request: ${error.message}`)
+
+    const sameBuyer = buyer.userId === null
+      ? existing.user_id === null && existing.cart_session_id === cartSessionId
+      : existing.user_id === buyer.userId
+    if (!sameBuyer || existing.request_hash !== requestHash) {
+      throw new CheckoutError(
+        CheckoutErrorCode.IDEMPOTENCY_MISMATCH,
+        'This idempotency key was already used for a different checkout'
+      )
+    }
+
+    if (existing.status === 'completed') {
+      const stored = existing.response as CheckoutResult
+      if (!existing.payment_intent_id) {
+        // Paid with store credit; there is no intent to fetch
+        return { ...stored, replayed: true, paymentIntent: null }
+      }
+
+      const intent = await PaymentService.retrievePaymentIntent(existing.payment_intent_id)
+
+      return {
+        ...stored,
+        replayed: true,
+        paymentIntent: {
+          id: intent.id,
+          clientSecret: intent.clientSecret ?? null,
+          amount: intent.amount,
+          currency: intent.currency,
+          status: intent.status,
+          provider: intent.provider,
+        },
+      }
+    }
+
+    const stale = Date.parse(existing.updated_at) < Date.now() - STALE_REQUEST_MS
+    if (existing.status === 'failed' || stale) {
+      // Only one retry can take over the key: the update matches the row as it was read
+      const { data: reclaimed } = await supabase
+        .from('checkout_requests')
+        .update({ status: 'processing', error: null, updated_at: new Date().toISOString() })
+        .eq('idempotency_key', idempotencyKey)
+        .eq('status', existing.status)
+        .eq('updated_at', existing.updated_at)
+        .select('id')
+
+      if (reclaimed && reclaimed.length > 0) return null
+    }
+
+    throw new CheckoutError(
+      CheckoutErrorCode.IN_PROGRESS,
+      'This checkout is already being processed'
+    )
+  }
+
+  private static async completeRequest(idempotencyKey: string, result: CheckoutResult): Promise<void> {
+    // The client secret is fetched from the payment provider again on replay rather than stored
+    const { paymentIntent, ...stored } = result
+
+    const { error } = await supabase
+      .from('checkout_requests')
+      .update({
+        status: 'completed',
+        order_id: result.order.id,
+        payment_intent_id: paymentIntent?.id ?? null,
+        response: stored,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('idempotency_key', idempotencyKey)
+
+    if (error) {
+      console.error('Failed to record completed checkout request:', error)
+    }
+  }
+
+  private static async failRequest(idempotencyKey: string, failure: unknown): Promise<void> {
+    const { error } = await supabase
+      .from('checkout_requests')
+      .update({
+        status: 'failed',
+        error: failure instanceof Error ? failure.message : String(failure),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('idempotency_key', idempotencyKey)
+
+    if (error) {
+      console.error('Failed to record failed checkout request:', error)
+    }
+  }
+
+  private static isOrderNumberTaken(error: { code?: string; message?: string } | null): boolean {
+    return error?.code === '23505' && !!error.message?.includes('idx_orders_order_number')
+  }
+
+  private static promotionError(error: unknown): unknown {
+    if (!(error instanceof PromotionError)) return error
+    return new CheckoutError(CheckoutErrorCode.PROMOTION_INVALID, error.message, { reason: error.code })
+  }
+
+  private static async cancelOrder(orderId: string, reason: string): Promise<void> {
+    const { error } = await supabase.rpc('cancel_checkout_order', {
+      p_order_id: orderId,
+      p_reason: reason,
+    })
+
+    if (error) {
+      console.error(`Failed to cancel checkout order ${orderId}:`, error)
+    }
+  }
+}
+
+export default CheckoutService
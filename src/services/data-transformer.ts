@@ -283,7 +283,7 @@ export class DataTransformer {
     // Check for exact matches
     const exactMatch = existingProducts.find(p =>
       p.kicksdb_id === data.id ||
-      p.sku === data.sku ||
+      (data.sku && p.sku === data.sku) ||
       (p.name === data.name && p.brand_name === data.brand)
     )
 
@@ -317,6 +317,16 @@ export class DataTransformer {
     return { isDuplicate: false }
   }
 
+  /**
+   * Score how closely a product resembles an existing one, without applying the duplicate threshold
+   */
+  static scoreProductMatch(data: any, existing: any): { similarity: number; conflictingFields: string[] } {
+    return {
+      similarity: this.calculateSimilarity(data, existing),
+      conflictingFields: this.getConflictingFields(data, existing)
+    }
+  }
+
   // Normalization methods
   private static normalizeText(value: string): string {
     if (!value) return ''
@@ -643,7 +653,11 @@ export class DataTransformer {
     return 'Sneakers'
   }
 
-  private static generateSearchKeywords(product: any): string[] {
+  /**
+   * Lowercase keywords for a product (brand, name words, model, colorway parts, category, gender);
+   * stored on products.search_keywords and used to correct misspelled searches
+   */
+  static generateSearchKeywords(product: any): string[] {
     const keywords = new Set<string>()
 
     // Add basic fields
@@ -2,7 +2,15 @@ import { Resend } from 'resend'
 import { OrderConfirmationEmail } from './templates/OrderConfirmationEmail'
 import { ShipmentTrackingEmail } from './templates/ShipmentTrackingEmail'
 import { PasswordResetEmail } from './templates/PasswordResetEmail'
+import { RefundConfirmationEmail } from './templates/RefundConfirmationEmail'
+import { ReturnUpdateEmail } from './templates/ReturnUpdateEmail'
+import { OrderStatusUpdateEmail } from './templates/OrderStatusUpdateEmail'
+import { GiftCardEmail } from './templates/GiftCardEmail'
+import { WatchlistAlertEmail } from './templates/WatchlistAlertEmail'
+import { WaitlistOfferEmail } from './templates/WaitlistOfferEmail'
+import { RaffleWinEmail } from './templates/RaffleWinEmail'
 import { render } from '@react-email/render'
+import type { SizeSystem } from '@/lib/sizing'
 
 const resend = process.env.RESEND_API_KEY ? new Resend(process.env.RESEND_API_KEY) : null
 
@@ -22,14 +30,19 @@ export interface OrderConfirmationData {
     name: string
     brand: string
     size: string
+    gender?: string
     quantity: number
     price: number
     image: string
   }>
+  sizeSystem?: SizeSystem // sizes are canonical; rendered in the buyer's size system
   subtotal: number
   shipping: number
   tax: number
+  discounts?: Array<{ label: string; amount: number }> // discount codes applied at checkout
   total: number
+  storeCredit?: number // part of the total paid with store credit
+  currency?: string // order currency; amounts above are already converted
   shippingAddress?: {
     name: string
     address: string
@@ -38,11 +51,13 @@ export interface OrderConfirmationData {
     country: string
   }
   estimatedDelivery?: string
+  orderLookupUrl?: string // guest orders: signed link to /orders/lookup
 }
 
 export interface ShipmentTrackingData {
   orderNumber: string
   customerName: string
+  customerEmail: string
   trackingNumber: string
   carrier: string
   trackingUrl: string
@@ -53,6 +68,113 @@ export interface ShipmentTrackingData {
     quantity: number
     image: string
   }>
+  shipmentNumber?: number // orders can ship in several shipments; one email goes out per shipment
+  remainingItems?: number // units of the order still to ship after this one
+}
+
+export interface RefundConfirmationData {
+  orderNumber: string
+  customerName: string
+  customerEmail: string
+  amount: number // in `currency`
+  currency: string
+  storeCredit?: number // part of `amount` added to the customer's store credit instead of the card
+  reason?: string
+  fullRefund: boolean // nothing is left to refund on the order
+  items: Array<{
+    name: string
+    brand: string
+    size: string
+    quantity: number
+    amount: number
+  }>
+}
+
+export interface ReturnUpdateData {
+  stage: 'requested' | 'approved' | 'rejected' | 'received'
+  rmaNumber: string
+  orderNumber: string
+  customerName: string
+  customerEmail: string
+  item: {
+    name: string
+    brand: string
+    size: string
+    quantity: number
+  }
+  reason: string
+  labelReference?: string // set once approved
+  rejectionReason?: string
+  inspectionOutcome?: 'restock' | 'write_off'
+}
+
+export interface OrderStatusUpdateData {
+  status: 'delivered' | 'cancelled'
+  orderNumber: string
+  customerName: string
+  customerEmail: string
+  reason?: string // why a cancelled order was cancelled
+}
+
+export interface GiftCardData {
+  recipientEmail: string
+  recipientName?: string
+  senderName: string
+  message?: string
+  code: string
+  amount: number // base currency
+  currency: string
+  redeemUrl: string
+}
+
+export interface WatchlistAlertData {
+  customerEmail: string
+  customerName: string
+  alerts: Array<{
+    kind: 'price_drop' | 'restock'
+    productName: string
+    brand?: string
+    gender?: string
+    image?: string
+    size?: string // restock: canonical size that came back
+    price?: number // price_drop: new price
+    previousPrice?: number // price_drop: price the user was watching
+    productUrl: string
+  }> // more than one makes the email a digest
+  currency: string // prices above are in this currency
+  sizeSystem?: SizeSystem
+  watchlistUrl: string
+}
+
+export interface WaitlistOfferData {
+  customerEmail: string
+  customerName: string
+  productName: string
+  brand?: string
+  gender?: string
+  image?: string
+  size: string // canonical size held for the customer
+  price?: number
+  currency: string // price above is in this currency
+  sizeSystem?: SizeSystem
+  productUrl: string
+  expiresAt: string // when the held unit goes to the next in line
+}
+
+export interface RaffleWinData {
+  customerEmail: string
+  customerName: string
+  productName: string
+  brand?: string
+  gender?: string
+  image?: string
+  size: string // canonical size held for the winner
+  price?: number
+  currency: string // price above is in this currency
+  sizeSystem?: SizeSystem
+  claimUrl: string
+  expiresAt: string // when the held unit rolls down to the next alternate
+  alternate?: boolean // won when an earlier winner's spot rolled down
 }
 
 export interface PasswordResetData {
@@ -97,12 +219,19 @@ export class EmailService {
 
   static async sendShipmentTracking(data: ShipmentTrackingData): Promise<boolean> {
     try {
-      const emailHtml = render(ShipmentTrackingEmail(data))
+      if (!resend) {
+        console.warn('Email service not configured - RESEND_API_KEY missing')
+        return false
+      }
+
+      const emailHtml = await render(ShipmentTrackingEmail(data))
 
       const result = await resend.emails.send({
         from: this.fromEmail,
-        to: data.customerName, // This should be email, will fix when we get proper data
-        subject: `Your Order ${data.orderNumber} Has Shipped!`,
+        to: data.customerEmail,
+        subject: data.remainingItems
+          ? `Part of Your Order ${data.orderNumber} Has Shipped!`
+          : `Your Order ${data.orderNumber} Has Shipped!`,
         html: emailHtml,
         replyTo: this.replyToEmail,
       })
@@ -120,6 +249,235 @@ export class EmailService {
     }
   }
 
+  static async sendRefundConfirmation(data: RefundConfirmationData): Promise<boolean> {
+    try {
+      if (!resend) {
+        console.warn('Email service not configured - RESEND_API_KEY missing')
+        return false
+      }
+
+      const emailHtml = await render(RefundConfirmationEmail(data))
+
+      const result = await resend.emails.send({
+        from: this.fromEmail,
+        to: data.customerEmail,
+        subject: `Refund for Order ${data.orderNumber}`,
+        html: emailHtml,
+        replyTo: this.replyToEmail,
+      })
+
+      if (result.error) {
+        console.error('Failed to send refund confirmation email:', result.error)
+        return false
+      }
+
+      console.log('Refund confirmation email sent successfully:', result.data?.id)
+      return true
+    } catch (error) {
+      console.error('Error sending refund confirmation email:', error)
+      return false
+    }
+  }
+
+  static async sendReturnUpdate(data: ReturnUpdateData): Promise<boolean> {
+    const subjects: Record<ReturnUpdateData['stage'], string> = {
+      requested: `Return ${data.rmaNumber} Received - Order ${data.orderNumber}`,
+      approved: `Return ${data.rmaNumber} Approved - Your Return Label`,
+      rejected: `Update on Return ${data.rmaNumber}`,
+      received: `We've Received Your Return ${data.rmaNumber}`,
+    }
+
+    try {
+      if (!resend) {
+        console.warn('Email service not configured - RESEND_API_KEY missing')
+        return false
+      }
+
+      const emailHtml = await render(ReturnUpdateEmail(data))
+
+      const result = await resend.emails.send({
+        from: this.fromEmail,
+        to: data.customerEmail,
+        subject: subjects[data.stage],
+        html: emailHtml,
+        replyTo: this.replyToEmail,
+      })
+
+      if (result.error) {
+        console.error('Failed to send return update email:', result.error)
+        return false
+      }
+
+      console.log('Return update email sent successfully:', result.data?.id)
+      return true
+    } catch (error) {
+      console.error('Error sending return update email:', error)
+      return false
+    }
+  }
+
+  static async sendOrderStatusUpdate(data: OrderStatusUpdateData): Promise<boolean> {
+    const subjects: Record<OrderStatusUpdateData['status'], string> = {
+      delivered: `Your Order ${data.orderNumber} Has Been Delivered`,
+      cancelled: `Your Order ${data.orderNumber} Has Been Cancelled`,
+    }
+
+    try {
+      if (!resend) {
+        console.warn('Email service not configured - RESEND_API_KEY missing')
+        return false
+      }
+
+      const emailHtml = await render(OrderStatusUpdateEmail(data))
+
+      const result = await resend.emails.send({
+        from: this.fromEmail,
+        to: data.customerEmail,
+        subject: subjects[data.status],
+        html: emailHtml,
+        replyTo: this.replyToEmail,
+      })
+
+      if (result.error) {
+        console.error('Failed to send order status email:', result.error)
+        return false
+      }
+
+      console.log('Order status email sent successfully:', result.data?.id)
+      return true
+    } catch (error) {
+      console.error('Error sending order status email:', error)
+      return false
+    }
+  }
+
+  static async sendGiftCard(data: GiftCardData): Promise<boolean> {
+    try {
+      if (!resend) {
+        console.warn('Email service not configured - RESEND_API_KEY missing')
+        return false
+      }
+
+      const emailHtml = await render(GiftCardEmail(data))
+
+      const result = await resend.emails.send({
+        from: this.fromEmail,
+        to: data.recipientEmail,
+        subject: `${data.senderName} sent you a SneaksX gift card`,
+        html: emailHtml,
+        replyTo: this.replyToEmail,
+      })
+
+      if (result.error) {
+        console.error('Failed to send gift card email:', result.error)
+        return false
+      }
+
+      console.log('Gift card email sent successfully:', result.data?.id)
+      return true
+    } catch (error) {
+      console.error('Error sending gift card email:', error)
+      return false
+    }
+  }
+
+  static async sendWatchlistAlert(data: WatchlistAlertData): Promise<boolean> {
+    const [first] = data.alerts
+    const subject = data.alerts.length > 1
+      ? `${data.alerts.length} Updates on Your SneaksX Watchlist`
+      : first.kind === 'price_drop'
+        ? `Price Drop: ${first.productName}`
+        : `Back in Stock: ${first.productName}`
+
+    try {
+      if (!resend) {
+        console.warn('Email service not configured - RESEND_API_KEY missing')
+        return false
+      }
+
+      const emailHtml = await render(WatchlistAlertEmail(data))
+
+      const result = await resend.emails.send({
+        from: this.fromEmail,
+        to: data.customerEmail,
+        subject,
+        html: emailHtml,
+        replyTo: this.replyToEmail,
+      })
+
+      if (result.error) {
+        console.error('Failed to send watchlist alert email:', result.error)
+        return false
+      }
+
+      console.log('Watchlist alert email sent successfully:', result.data?.id)
+      return true
+    } catch (error) {
+      console.error('Error sending watchlist alert email:', error)
+      return false
+    }
+  }
+
+  static async sendWaitlistOffer(data: WaitlistOfferData): Promise<boolean> {
+    try {
+      if (!resend) {
+        console.warn('Email service not configured - RESEND_API_KEY missing')
+        return false
+      }
+
+      const emailHtml = await render(WaitlistOfferEmail(data))
+
+      const result = await resend.emails.send({
+        from: this.fromEmail,
+        to: data.customerEmail,
+        subject: `Your Size Is Back: ${data.productName}`,
+        html: emailHtml,
+        replyTo: this.replyToEmail,
+      })
+
+      if (result.error) {
+        console.error('Failed to send waitlist offer email:', result.error)
+        return false
+      }
+
+      console.log('Waitlist offer email sent successfully:', result.data?.id)
+      return true
+    } catch (error) {
+      console.error('Error sending waitlist offer email:', error)
+      return false
+    }
+  }
+
+  static async sendRaffleWin(data: RaffleWinData): Promise<boolean> {
+    try {
+      if (!resend) {
+        console.warn('Email service not configured - RESEND_API_KEY missing')
+        return false
+      }
+
+      const emailHtml = await render(RaffleWinEmail(data))
+
+      const result = await resend.emails.send({
+        from: this.fromEmail,
+        to: data.customerEmail,
+        subject: `You Won the Raffle: ${data.productName}`,
+        html: emailHtml,
+        replyTo: this.replyToEmail,
+      })
+
+      if (result.error) {
+        console.error('Failed to send raffle win email:', result.error)
+        return false
+      }
+
+      console.log('Raffle win email sent successfully:', result.data?.id)
+      return true
+    } catch (error) {
+      console.error('Error sending raffle win email:', error)
+      return false
+    }
+  }
+
   static async sendPasswordReset(email: string, data: PasswordResetData): Promise<boolean> {
     try {
       const emailHtml = render(PasswordResetEmail(data))
@@ -146,7 +504,7 @@ export class EmailService {
   }
 
   static async sendAdminNotification(
-    type: 'high_value_order' | 'payment_failed' | 'low_stock',
+    type: 'high_value_order' | 'payment_failed' | 'low_stock' | 'shipment_stuck',
     data: any
   ): Promise<boolean> {
     try {
@@ -156,6 +514,7 @@ export class EmailService {
         high_value_order: `High Value Order Alert - ${data.orderNumber}`,
         payment_failed: `Payment Failed Alert - ${data.orderNumber}`,
         low_stock: `Low Stock Alert - ${data.productName}`,
+        shipment_stuck: `Shipment Stuck Alert - ${data.orderNumber}`,
       }
 
       const result = await resend.emails.send({
@@ -0,0 +1,200 @@
+import React from 'react'
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Hr,
+  Button,
+} from '@react-email/components'
+import type { GiftCardData } from '../EmailService'
+import { PricingService } from '@/services/pricing'
+
+interface GiftCardEmailProps extends GiftCardData {}
+
+export const GiftCardEmail = ({
+  recipientName,
+  senderName,
+  message,
+  code,
+  amount,
+  currency,
+  redeemUrl,
+}: GiftCardEmailProps) => {
+  const formattedAmount = PricingService.formatPrice(amount, currency)
+  const previewText = `${senderName} sent you a ${formattedAmount} SneaksX gift card`
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>SneaksX</Heading>
+            <Text style={tagline}>Premium Sneakers & Streetwear</Text>
+          </Section>
+
+          {/* Gift Card */}
+          <Section style={section}>
+            <Heading style={h2}>You've Received a Gift Card</Heading>
+            <Text style={text}>
+              Hi {recipientName || 'there'},
+            </Text>
+            <Text style={text}>
+              <strong>{senderName}</strong> sent you a SneaksX gift card.
+            </Text>
+            {message && (
+              <Text style={quote}>{message}</Text>
+            )}
+            <Section style={codeBox}>
+              <Text style={amountText}>{formattedAmount}</Text>
+              <Text style={codeText}>{code}</Text>
+            </Section>
+            <Text style={text}>
+              Sign in and redeem the code on your profile page. The amount is added to your store credit, which you
+              can use at checkout.
+            </Text>
+            <Button href={redeemUrl} style={button}>
+              Redeem Gift Card
+            </Button>
+          </Section>
+
+          <Hr style={hr} />
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              Keep this code safe. Anyone who has it can redeem the gift card.
+            </Text>
+            <Text style={footerText}>
+              Thank you for choosing SneaksX!
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// Styles
+const main = {
+  backgroundColor: '#ffffff',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, Cantarell, "Helvetica Neue", sans-serif',
+}
+
+const container = {
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  maxWidth: '600px',
+}
+
+const header = {
+  textAlign: 'center' as const,
+  padding: '32px 0',
+  backgroundColor: '#000000',
+  color: '#ffffff',
+}
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '32px',
+  fontWeight: 'bold',
+  margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+
+const tagline = {
+  color: '#cccccc',
+  fontSize: '14px',
+  margin: '0',
+  textAlign: 'center' as const,
+}
+
+const section = {
+  padding: '24px',
+}
+
+const h2 = {
+  color: '#000000',
+  fontSize: '24px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const text = {
+  color: '#333333',
+  fontSize: '16px',
+  lineHeight: '24px',
+  margin: '0 0 16px',
+}
+
+const hr = {
+  borderColor: '#eeeeee',
+  margin: '24px 0',
+}
+
+const footer = {
+  padding: '24px',
+  textAlign: 'center' as const,
+  backgroundColor: '#f8f9fa',
+}
+
+const footerText = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 8px',
+}
+
+const codeBox = {
+  backgroundColor: '#f8f9fa',
+  border: '1px dashed #cccccc',
+  borderRadius: '8px',
+  padding: '24px',
+  margin: '0 0 24px',
+  textAlign: 'center' as const,
+}
+
+const amountText = {
+  color: '#000000',
+  fontSize: '32px',
+  fontWeight: 'bold',
+  margin: '0 0 8px',
+}
+
+const codeText = {
+  color: '#000000',
+  fontSize: '22px',
+  fontFamily: 'Menlo, Consolas, monospace',
+  letterSpacing: '2px',
+  margin: '0',
+}
+
+const quote = {
+  color: '#333333',
+  fontSize: '16px',
+  fontStyle: 'italic',
+  lineHeight: '24px',
+  borderLeft: '3px solid #000000',
+  paddingLeft: '12px',
+  margin: '0 0 16px',
+}
+
+const button = {
+  backgroundColor: '#000000',
+  borderRadius: '6px',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  padding: '12px 24px',
+}
+
+export default GiftCardEmail
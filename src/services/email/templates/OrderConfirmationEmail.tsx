@@ -12,8 +12,11 @@ import {
   Row,
   Column,
   Img,
+  Button,
 } from '@react-email/components'
 import type { OrderConfirmationData } from '../EmailService'
+import { formatSize } from '@/lib/sizing'
+import { PricingService } from '@/services/pricing'
 
 interface OrderConfirmationEmailProps extends OrderConfirmationData {}
 
@@ -23,14 +26,20 @@ export const OrderConfirmationEmail = ({
   customerEmail,
   orderDate,
   items,
+  sizeSystem = 'US',
   subtotal,
   shipping,
   tax,
+  discounts = [],
   total,
+  storeCredit = 0,
+  currency = 'EUR',
   shippingAddress,
   estimatedDelivery,
+  orderLookupUrl,
 }: OrderConfirmationEmailProps) => {
   const previewText = `Your order ${orderNumber} has been confirmed`
+  const formatPrice = (amount: number) => PricingService.formatPrice(amount, currency)
 
   return (
     <Html>
@@ -96,11 +105,13 @@ export const OrderConfirmationEmail = ({
                 </Column>
                 <Column style={itemDetailsColumn}>
                   <Text style={itemName}>{item.brand} {item.name}</Text>
-                  <Text style={itemDetails}>Size: {item.size}</Text>
+                  <Text style={itemDetails}>
+                    Size: {formatSize(item.size, sizeSystem, { brand: item.brand, gender: item.gender })}
+                  </Text>
                   <Text style={itemDetails}>Quantity: {item.quantity}</Text>
                 </Column>
                 <Column style={itemPriceColumn}>
-                  <Text style={itemPrice}>€{item.price.toFixed(2)}</Text>
+                  <Text style={itemPrice}>{formatPrice(item.price)}</Text>
                 </Column>
               </Row>
             ))}
@@ -116,7 +127,7 @@ export const OrderConfirmationEmail = ({
                 <Text style={summaryLabel}>Subtotal</Text>
               </Column>
               <Column style={rightAlign}>
-                <Text style={summaryValue}>€{subtotal.toFixed(2)}</Text>
+                <Text style={summaryValue}>{formatPrice(subtotal)}</Text>
               </Column>
             </Row>
             <Row style={summaryRow}>
@@ -124,15 +135,25 @@ export const OrderConfirmationEmail = ({
                 <Text style={summaryLabel}>Shipping</Text>
               </Column>
               <Column style={rightAlign}>
-                <Text style={summaryValue}>€{shipping.toFixed(2)}</Text>
+                <Text style={summaryValue}>{formatPrice(shipping)}</Text>
               </Column>
             </Row>
+            {discounts.map(discount => (
+              <Row key={discount.label} style={summaryRow}>
+                <Column>
+                  <Text style={summaryLabel}>{discount.label}</Text>
+                </Column>
+                <Column style={rightAlign}>
+                  <Text style={summaryValue}>-{formatPrice(discount.amount)}</Text>
+                </Column>
+              </Row>
+            ))}
             <Row style={summaryRow}>
               <Column>
                 <Text style={summaryLabel}>Tax</Text>
               </Column>
               <Column style={rightAlign}>
-                <Text style={summaryValue}>€{tax.toFixed(2)}</Text>
+                <Text style={summaryValue}>{formatPrice(tax)}</Text>
               </Column>
             </Row>
             <Hr style={hr} />
@@ -141,9 +162,29 @@ export const OrderConfirmationEmail = ({
                 <Text style={totalLabel}>Total</Text>
               </Column>
               <Column style={rightAlign}>
-                <Text style={totalValue}>€{total.toFixed(2)}</Text>
+                <Text style={totalValue}>{formatPrice(total)}</Text>
               </Column>
             </Row>
+            {storeCredit > 0 && (
+              <>
+                <Row style={summaryRow}>
+                  <Column>
+                    <Text style={summaryLabel}>Paid with store credit</Text>
+                  </Column>
+                  <Column style={rightAlign}>
+                    <Text style={summaryValue}>-{formatPrice(storeCredit)}</Text>
+                  </Column>
+                </Row>
+                <Row style={summaryRow}>
+                  <Column>
+                    <Text style={summaryLabel}>Paid by card</Text>
+                  </Column>
+                  <Column style={rightAlign}>
+                    <Text style={summaryValue}>{formatPrice(total - storeCredit)}</Text>
+                  </Column>
+                </Row>
+              </>
+            )}
           </Section>
 
           {/* Shipping Address */}
@@ -162,6 +203,20 @@ export const OrderConfirmationEmail = ({
             </>
           )}
 
+          {orderLookupUrl && (
+            <Section style={section}>
+              <Text style={address}>
+                You checked out as a guest. Use this link to view your order and follow its delivery at any time.
+                Create an account with {customerEmail} and the order will be added to your order history.
+              </Text>
+              <Section style={buttonContainer}>
+                <Button href={orderLookupUrl} style={viewOrderButton}>
+                  View Your Order
+                </Button>
+              </Section>
+            </Section>
+          )}
+
           <Hr style={hr} />
 
           {/* Footer */}
@@ -352,6 +407,21 @@ const hr = {
   margin: '24px 0',
 }
 
+const buttonContainer = {
+  textAlign: 'center' as const,
+  margin: '24px 0 0',
+}
+
+const viewOrderButton = {
+  backgroundColor: '#000000',
+  borderRadius: '8px',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  padding: '16px 32px',
+  textDecoration: 'none',
+}
+
 const footer = {
   padding: '24px',
   textAlign: 'center' as const,
@@ -0,0 +1,152 @@
+import React from 'react'
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Hr,
+} from '@react-email/components'
+import type { OrderStatusUpdateData } from '../EmailService'
+
+interface OrderStatusUpdateEmailProps extends OrderStatusUpdateData {}
+
+export const OrderStatusUpdateEmail = ({
+  status,
+  orderNumber,
+  customerName,
+  reason,
+}: OrderStatusUpdateEmailProps) => {
+  const previewText = status === 'delivered'
+    ? `Your order ${orderNumber} has been delivered`
+    : `Your order ${orderNumber} has been cancelled`
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>SneaksX</Heading>
+            <Text style={tagline}>Premium Sneakers & Streetwear</Text>
+          </Section>
+
+          {/* Status Update */}
+          <Section style={section}>
+            <Heading style={h2}>{status === 'delivered' ? 'Your Order Has Arrived' : 'Your Order Was Cancelled'}</Heading>
+            <Text style={text}>
+              Hi {customerName},
+            </Text>
+
+            {status === 'delivered' ? (
+              <Text style={text}>
+                Your order <strong>{orderNumber}</strong> has been delivered. We hope you love your new pair!
+                If something isn't right, you can start a return from your order history within 30 days.
+              </Text>
+            ) : (
+              <>
+                <Text style={text}>
+                  Your order <strong>{orderNumber}</strong> has been cancelled and any items held for it have been
+                  released. You have not been charged.
+                </Text>
+                {reason && (
+                  <Text style={text}>
+                    Reason: {reason}
+                  </Text>
+                )}
+              </>
+            )}
+          </Section>
+
+          <Hr style={hr} />
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              Questions about your order? Reply to this email or contact our support team.
+            </Text>
+            <Text style={footerText}>
+              Thank you for choosing SneaksX!
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// Styles
+const main = {
+  backgroundColor: '#ffffff',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, Cantarell, "Helvetica Neue", sans-serif',
+}
+
+const container = {
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  maxWidth: '600px',
+}
+
+const header = {
+  textAlign: 'center' as const,
+  padding: '32px 0',
+  backgroundColor: '#000000',
+  color: '#ffffff',
+}
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '32px',
+  fontWeight: 'bold',
+  margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+
+const tagline = {
+  color: '#cccccc',
+  fontSize: '14px',
+  margin: '0',
+  textAlign: 'center' as const,
+}
+
+const section = {
+  padding: '24px',
+}
+
+const h2 = {
+  color: '#000000',
+  fontSize: '24px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const text = {
+  color: '#333333',
+  fontSize: '16px',
+  lineHeight: '24px',
+  margin: '0 0 16px',
+}
+
+const hr = {
+  borderColor: '#eeeeee',
+  margin: '24px 0',
+}
+
+const footer = {
+  padding: '24px',
+  textAlign: 'center' as const,
+  backgroundColor: '#f8f9fa',
+}
+
+const footerText = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 8px',
+}
+
+export default OrderStatusUpdateEmail
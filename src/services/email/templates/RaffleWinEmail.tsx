@@ -0,0 +1,237 @@
+import React from 'react'
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Button,
+  Hr,
+  Row,
+  Column,
+  Img,
+} from '@react-email/components'
+import type { RaffleWinData } from '../EmailService'
+import { PricingService } from '@/services/pricing'
+import { formatSize } from '@/lib/sizing'
+
+interface RaffleWinEmailProps extends RaffleWinData {}
+
+export const RaffleWinEmail = ({
+  customerName,
+  productName,
+  brand,
+  gender,
+  image,
+  size,
+  price,
+  currency,
+  sizeSystem = 'US',
+  claimUrl,
+  expiresAt,
+  alternate = false,
+}: RaffleWinEmailProps) => {
+  const displaySize = formatSize(size, sizeSystem, { brand, gender })
+  const holdUntil = new Date(expiresAt).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  })
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{`You won the ${productName} raffle in ${displaySize}. Pay by ${holdUntil} UTC`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>SneaksX</Heading>
+            <Text style={tagline}>Premium Sneakers & Streetwear</Text>
+          </Section>
+
+          {/* Intro */}
+          <Section style={section}>
+            <Heading style={h2}>You Won the Raffle!</Heading>
+            <Text style={text}>
+              Hi {customerName},
+            </Text>
+            <Text style={text}>
+              {alternate
+                ? 'A winner did not claim their pair, and you were next on the alternate list. '
+                : 'Your entry was drawn. '}
+              One pair is held for you until <strong>{holdUntil} UTC</strong>; if it is not paid for by then
+              it goes to the next alternate.
+            </Text>
+          </Section>
+
+          {/* Product */}
+          <Section style={section}>
+            <Row style={itemRow}>
+              {image && (
+                <Column style={itemImageColumn}>
+                  <Img
+                    src={image}
+                    alt={productName}
+                    width="80"
+                    height="80"
+                    style={itemImage}
+                  />
+                </Column>
+              )}
+              <Column style={itemDetailsColumn}>
+                <Text style={itemName}>{brand ? `${brand} ${productName}` : productName}</Text>
+                <Text style={itemDetails}>
+                  Size {displaySize}
+                  {price !== undefined ? ` · ${PricingService.formatPrice(price, currency)}` : ''}
+                </Text>
+              </Column>
+            </Row>
+            <Section style={buttonContainer}>
+              <Button href={claimUrl} style={button}>
+                Claim and Pay
+              </Button>
+            </Section>
+          </Section>
+
+          <Hr style={hr} />
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              You get this email because you entered this raffle. Not interested any more? Decline the pair from
+              the claim page and it goes to the next alternate straight away.
+            </Text>
+            <Text style={footerText}>
+              Thank you for choosing SneaksX!
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// Styles
+const main = {
+  backgroundColor: '#ffffff',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, Cantarell, "Helvetica Neue", sans-serif',
+}
+
+const container = {
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  maxWidth: '600px',
+}
+
+const header = {
+  textAlign: 'center' as const,
+  padding: '32px 0',
+  backgroundColor: '#000000',
+  color: '#ffffff',
+}
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '32px',
+  fontWeight: 'bold',
+  margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+
+const tagline = {
+  color: '#cccccc',
+  fontSize: '14px',
+  margin: '0',
+  textAlign: 'center' as const,
+}
+
+const section = {
+  padding: '24px',
+}
+
+const h2 = {
+  color: '#000000',
+  fontSize: '24px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const text = {
+  color: '#333333',
+  fontSize: '16px',
+  lineHeight: '24px',
+  margin: '0 0 16px',
+}
+
+const itemRow = {
+  padding: '16px 0',
+  borderBottom: '1px solid #eeeeee',
+}
+
+const itemImageColumn = {
+  width: '80px',
+  paddingRight: '16px',
+}
+
+const itemImage = {
+  borderRadius: '8px',
+  objectFit: 'cover' as const,
+}
+
+const itemDetailsColumn = {
+  paddingRight: '16px',
+}
+
+const itemName = {
+  color: '#000000',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  margin: '0 0 4px',
+  textDecoration: 'none',
+}
+
+const itemDetails = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '4px 0 0',
+}
+
+const buttonContainer = {
+  textAlign: 'center' as const,
+  margin: '24px 0 0',
+}
+
+const button = {
+  backgroundColor: '#000000',
+  borderRadius: '6px',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  padding: '12px 24px',
+}
+
+const hr = {
+  borderColor: '#eeeeee',
+  margin: '24px 0',
+}
+
+const footer = {
+  padding: '24px',
+  textAlign: 'center' as const,
+  backgroundColor: '#f8f9fa',
+}
+
+const footerText = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 8px',
+}
+
+export default RaffleWinEmail
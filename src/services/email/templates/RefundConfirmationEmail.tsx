@@ -0,0 +1,221 @@
+import React from 'react'
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Hr,
+  Row,
+  Column,
+} from '@react-email/components'
+import type { RefundConfirmationData } from '../EmailService'
+import { PricingService } from '@/services/pricing'
+
+interface RefundConfirmationEmailProps extends RefundConfirmationData {}
+
+export const RefundConfirmationEmail = ({
+  orderNumber,
+  customerName,
+  amount,
+  currency,
+  storeCredit,
+  reason,
+  fullRefund,
+  items,
+}: RefundConfirmationEmailProps) => {
+  const formatPrice = (value: number) => PricingService.formatPrice(value, currency)
+  const previewText = `${formatPrice(amount)} refunded for order ${orderNumber}`
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>SneaksX</Heading>
+            <Text style={tagline}>Premium Sneakers & Streetwear</Text>
+          </Section>
+
+          {/* Refund Notification */}
+          <Section style={section}>
+            <Heading style={h2}>{fullRefund ? 'Your Order Has Been Refunded' : 'Part of Your Order Has Been Refunded'}</Heading>
+            <Text style={text}>
+              Hi {customerName},
+            </Text>
+            {!storeCredit ? (
+              <Text style={text}>
+                We've refunded <strong>{formatPrice(amount)}</strong> for order <strong>{orderNumber}</strong> to
+                your original payment method. Depending on your bank, it can take 5-10 business days to appear on
+                your statement.
+              </Text>
+            ) : storeCredit >= amount ? (
+              <Text style={text}>
+                We've refunded <strong>{formatPrice(amount)}</strong> for order <strong>{orderNumber}</strong> as
+                store credit. It's already in your account and will be applied at checkout when you choose to use it.
+              </Text>
+            ) : (
+              <Text style={text}>
+                We've refunded <strong>{formatPrice(amount)}</strong> for order <strong>{orderNumber}</strong>:
+                {' '}{formatPrice(amount - storeCredit)} to your original payment method and {formatPrice(storeCredit)} as
+                store credit in your account. The card refund can take 5-10 business days to appear on your statement.
+              </Text>
+            )}
+            {reason && (
+              <Text style={text}>
+                Reason: {reason}
+              </Text>
+            )}
+          </Section>
+
+          {items.length > 0 && (
+            <>
+              <Hr style={hr} />
+
+              {/* Refunded Items */}
+              <Section style={section}>
+                <Heading style={h3}>Refunded Items</Heading>
+                {items.map((item, index) => (
+                  <Row key={index} style={itemRow}>
+                    <Column>
+                      <Text style={itemName}>{item.brand} {item.name}</Text>
+                      <Text style={itemDetails}>Size {item.size} • Quantity: {item.quantity}</Text>
+                    </Column>
+                    <Column style={itemAmountColumn}>
+                      <Text style={itemAmount}>{formatPrice(item.amount)}</Text>
+                    </Column>
+                  </Row>
+                ))}
+              </Section>
+            </>
+          )}
+
+          <Hr style={hr} />
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              Questions about your refund? Reply to this email or contact our support team.
+            </Text>
+            <Text style={footerText}>
+              Thank you for choosing SneaksX!
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// Styles
+const main = {
+  backgroundColor: '#ffffff',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, Cantarell, "Helvetica Neue", sans-serif',
+}
+
+const container = {
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  maxWidth: '600px',
+}
+
+const header = {
+  textAlign: 'center' as const,
+  padding: '32px 0',
+  backgroundColor: '#000000',
+  color: '#ffffff',
+}
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '32px',
+  fontWeight: 'bold',
+  margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+
+const tagline = {
+  color: '#cccccc',
+  fontSize: '14px',
+  margin: '0',
+  textAlign: 'center' as const,
+}
+
+const section = {
+  padding: '24px',
+}
+
+const h2 = {
+  color: '#000000',
+  fontSize: '24px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const h3 = {
+  color: '#000000',
+  fontSize: '18px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const text = {
+  color: '#333333',
+  fontSize: '16px',
+  lineHeight: '24px',
+  margin: '0 0 16px',
+}
+
+const itemRow = {
+  padding: '16px 0',
+  borderBottom: '1px solid #eeeeee',
+}
+
+const itemName = {
+  color: '#000000',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  margin: '0 0 4px',
+}
+
+const itemDetails = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 4px',
+}
+
+const itemAmountColumn = {
+  width: '100px',
+  textAlign: 'right' as const,
+}
+
+const itemAmount = {
+  color: '#000000',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  margin: '0',
+}
+
+const hr = {
+  borderColor: '#eeeeee',
+  margin: '24px 0',
+}
+
+const footer = {
+  padding: '24px',
+  textAlign: 'center' as const,
+  backgroundColor: '#f8f9fa',
+}
+
+const footerText = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 8px',
+}
+
+export default RefundConfirmationEmail
@@ -0,0 +1,239 @@
+import React from 'react'
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Hr,
+} from '@react-email/components'
+import type { ReturnUpdateData } from '../EmailService'
+
+interface ReturnUpdateEmailProps extends ReturnUpdateData {}
+
+const headings: Record<ReturnUpdateData['stage'], string> = {
+  requested: 'We Got Your Return Request',
+  approved: 'Your Return Is Approved',
+  rejected: 'We Couldn\'t Approve Your Return',
+  received: 'Your Return Has Arrived',
+}
+
+export const ReturnUpdateEmail = ({
+  stage,
+  rmaNumber,
+  orderNumber,
+  customerName,
+  item,
+  reason,
+  labelReference,
+  rejectionReason,
+  inspectionOutcome,
+}: ReturnUpdateEmailProps) => {
+  const previewText = `Return ${rmaNumber}: ${headings[stage]}`
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>SneaksX</Heading>
+            <Text style={tagline}>Premium Sneakers & Streetwear</Text>
+          </Section>
+
+          {/* Return Status */}
+          <Section style={section}>
+            <Heading style={h2}>{headings[stage]}</Heading>
+            <Text style={text}>
+              Hi {customerName},
+            </Text>
+
+            {stage === 'requested' && (
+              <Text style={text}>
+                We've received your return request <strong>{rmaNumber}</strong> for order <strong>{orderNumber}</strong>.
+                Our team will review it within 2 business days and email you a return label once it's approved.
+              </Text>
+            )}
+
+            {stage === 'approved' && (
+              <>
+                <Text style={text}>
+                  Return <strong>{rmaNumber}</strong> for order <strong>{orderNumber}</strong> has been approved.
+                  Pack the item in its original box and ship it using the return label reference below.
+                </Text>
+                {labelReference && (
+                  <Section style={labelBox}>
+                    <Text style={labelTitle}>Return Label</Text>
+                    <Text style={labelValue}>{labelReference}</Text>
+                  </Section>
+                )}
+              </>
+            )}
+
+            {stage === 'rejected' && (
+              <>
+                <Text style={text}>
+                  Unfortunately we can't accept return <strong>{rmaNumber}</strong> for order <strong>{orderNumber}</strong>.
+                </Text>
+                {rejectionReason && (
+                  <Text style={text}>
+                    Reason: {rejectionReason}
+                  </Text>
+                )}
+              </>
+            )}
+
+            {stage === 'received' && (
+              <Text style={text}>
+                Return <strong>{rmaNumber}</strong> arrived at our warehouse and has been inspected
+                {inspectionOutcome === 'write_off' ? ' (not resellable)' : ''}. Your refund is being processed and
+                you'll get a separate confirmation once it's issued.
+              </Text>
+            )}
+          </Section>
+
+          <Hr style={hr} />
+
+          {/* Returned Item */}
+          <Section style={section}>
+            <Heading style={h3}>Returned Item</Heading>
+            <Text style={itemName}>{item.brand} {item.name}</Text>
+            <Text style={itemDetails}>Size {item.size} • Quantity: {item.quantity}</Text>
+            <Text style={itemDetails}>Reason: {reason}</Text>
+          </Section>
+
+          <Hr style={hr} />
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              Questions about your return? Reply to this email or contact our support team.
+            </Text>
+            <Text style={footerText}>
+              Thank you for choosing SneaksX!
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// Styles
+const main = {
+  backgroundColor: '#ffffff',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, Cantarell, "Helvetica Neue", sans-serif',
+}
+
+const container = {
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  maxWidth: '600px',
+}
+
+const header = {
+  textAlign: 'center' as const,
+  padding: '32px 0',
+  backgroundColor: '#000000',
+  color: '#ffffff',
+}
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '32px',
+  fontWeight: 'bold',
+  margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+
+const tagline = {
+  color: '#cccccc',
+  fontSize: '14px',
+  margin: '0',
+  textAlign: 'center' as const,
+}
+
+const section = {
+  padding: '24px',
+}
+
+const h2 = {
+  color: '#000000',
+  fontSize: '24px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const h3 = {
+  color: '#000000',
+  fontSize: '18px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const text = {
+  color: '#333333',
+  fontSize: '16px',
+  lineHeight: '24px',
+  margin: '0 0 16px',
+}
+
+const itemName = {
+  color: '#000000',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  margin: '0 0 4px',
+}
+
+const itemDetails = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 4px',
+}
+
+const labelBox = {
+  backgroundColor: '#f8f9fa',
+  border: '1px dashed #cccccc',
+  borderRadius: '8px',
+  padding: '16px',
+  textAlign: 'center' as const,
+}
+
+const labelTitle = {
+  color: '#666666',
+  fontSize: '12px',
+  textTransform: 'uppercase' as const,
+  margin: '0 0 4px',
+}
+
+const labelValue = {
+  color: '#000000',
+  fontSize: '20px',
+  fontWeight: 'bold',
+  fontFamily: 'monospace',
+  margin: '0',
+}
+
+const hr = {
+  borderColor: '#eeeeee',
+  margin: '24px 0',
+}
+
+const footer = {
+  padding: '24px',
+  textAlign: 'center' as const,
+  backgroundColor: '#f8f9fa',
+}
+
+const footerText = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 8px',
+}
+
+export default ReturnUpdateEmail
@@ -26,8 +26,12 @@ export const ShipmentTrackingEmail = ({
   trackingUrl,
   estimatedDelivery,
   items,
+  shipmentNumber,
+  remainingItems,
 }: ShipmentTrackingEmailProps) => {
-  const previewText = `Your order ${orderNumber} has shipped!`
+  const previewText = remainingItems
+    ? `Part of your order ${orderNumber} has shipped!`
+    : `Your order ${orderNumber} has shipped!`
 
   return (
     <Html>
@@ -43,14 +47,21 @@ export const ShipmentTrackingEmail = ({
 
           {/* Shipment Notification */}
           <Section style={section}>
-            <Heading style={h2}>Your Order Has Shipped! 📦</Heading>
+            <Heading style={h2}>{remainingItems ? 'Part of Your Order Has Shipped! 📦' : 'Your Order Has Shipped! 📦'}</Heading>
             <Text style={text}>
               Hi {customerName},
             </Text>
             <Text style={text}>
-              Great news! Your order <strong>{orderNumber}</strong> has been shipped and is on its way to you.
+              Great news! {shipmentNumber && shipmentNumber > 1 ? `Shipment ${shipmentNumber} of your order` : 'Your order'}{' '}
+              <strong>{orderNumber}</strong> has been shipped and is on its way to you.
               You can track your package using the information below.
             </Text>
+            {!!remainingItems && (
+              <Text style={text}>
+                The remaining {remainingItems} item{remainingItems > 1 ? 's' : ''} will follow in a separate shipment,
+                and we'll email you tracking details for {remainingItems > 1 ? 'them' : 'it'} too.
+              </Text>
+            )}
           </Section>
 
           {/* Tracking Details */}
@@ -0,0 +1,233 @@
+import React from 'react'
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Button,
+  Hr,
+  Row,
+  Column,
+  Img,
+} from '@react-email/components'
+import type { WaitlistOfferData } from '../EmailService'
+import { PricingService } from '@/services/pricing'
+import { formatSize } from '@/lib/sizing'
+
+interface WaitlistOfferEmailProps extends WaitlistOfferData {}
+
+export const WaitlistOfferEmail = ({
+  customerName,
+  productName,
+  brand,
+  gender,
+  image,
+  size,
+  price,
+  currency,
+  sizeSystem = 'US',
+  productUrl,
+  expiresAt,
+}: WaitlistOfferEmailProps) => {
+  const displaySize = formatSize(size, sizeSystem, { brand, gender })
+  const holdUntil = new Date(expiresAt).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  })
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{`${productName} in ${displaySize} is held for you until ${holdUntil} UTC`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>SneaksX</Heading>
+            <Text style={tagline}>Premium Sneakers & Streetwear</Text>
+          </Section>
+
+          {/* Intro */}
+          <Section style={section}>
+            <Heading style={h2}>Your Size Is Back!</Heading>
+            <Text style={text}>
+              Hi {customerName},
+            </Text>
+            <Text style={text}>
+              You were next on the waitlist, so we have set one pair aside for you. It is held until{' '}
+              <strong>{holdUntil} UTC</strong>; after that it goes to the next person in line.
+            </Text>
+          </Section>
+
+          {/* Product */}
+          <Section style={section}>
+            <Row style={itemRow}>
+              {image && (
+                <Column style={itemImageColumn}>
+                  <Img
+                    src={image}
+                    alt={productName}
+                    width="80"
+                    height="80"
+                    style={itemImage}
+                  />
+                </Column>
+              )}
+              <Column style={itemDetailsColumn}>
+                <Text style={itemName}>{brand ? `${brand} ${productName}` : productName}</Text>
+                <Text style={itemDetails}>
+                  Size {displaySize}
+                  {price !== undefined ? ` · ${PricingService.formatPrice(price, currency)}` : ''}
+                </Text>
+              </Column>
+            </Row>
+            <Section style={buttonContainer}>
+              <Button href={productUrl} style={button}>
+                Buy Now
+              </Button>
+            </Section>
+          </Section>
+
+          <Hr style={hr} />
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              You get this email because you joined the waitlist for this size. Not interested any more? Leave
+              the waitlist from your watchlist page and the pair goes to the next person.
+            </Text>
+            <Text style={footerText}>
+              Thank you for choosing SneaksX!
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// Styles
+const main = {
+  backgroundColor: '#ffffff',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, Cantarell, "Helvetica Neue", sans-serif',
+}
+
+const container = {
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  maxWidth: '600px',
+}
+
+const header = {
+  textAlign: 'center' as const,
+  padding: '32px 0',
+  backgroundColor: '#000000',
+  color: '#ffffff',
+}
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '32px',
+  fontWeight: 'bold',
+  margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+
+const tagline = {
+  color: '#cccccc',
+  fontSize: '14px',
+  margin: '0',
+  textAlign: 'center' as const,
+}
+
+const section = {
+  padding: '24px',
+}
+
+const h2 = {
+  color: '#000000',
+  fontSize: '24px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const text = {
+  color: '#333333',
+  fontSize: '16px',
+  lineHeight: '24px',
+  margin: '0 0 16px',
+}
+
+const itemRow = {
+  padding: '16px 0',
+  borderBottom: '1px solid #eeeeee',
+}
+
+const itemImageColumn = {
+  width: '80px',
+  paddingRight: '16px',
+}
+
+const itemImage = {
+  borderRadius: '8px',
+  objectFit: 'cover' as const,
+}
+
+const itemDetailsColumn = {
+  paddingRight: '16px',
+}
+
+const itemName = {
+  color: '#000000',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  margin: '0 0 4px',
+  textDecoration: 'none',
+}
+
+const itemDetails = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '4px 0 0',
+}
+
+const buttonContainer = {
+  textAlign: 'center' as const,
+  margin: '24px 0 0',
+}
+
+const button = {
+  backgroundColor: '#000000',
+  borderRadius: '6px',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  padding: '12px 24px',
+}
+
+const hr = {
+  borderColor: '#eeeeee',
+  margin: '24px 0',
+}
+
+const footer = {
+  padding: '24px',
+  textAlign: 'center' as const,
+  backgroundColor: '#f8f9fa',
+}
+
+const footerText = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 8px',
+}
+
+export default WaitlistOfferEmail
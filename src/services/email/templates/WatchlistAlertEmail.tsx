@@ -0,0 +1,249 @@
+import React from 'react'
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Heading,
+  Button,
+  Hr,
+  Row,
+  Column,
+  Img,
+  Link,
+} from '@react-email/components'
+import type { WatchlistAlertData } from '../EmailService'
+import { PricingService } from '@/services/pricing'
+import { formatSize } from '@/lib/sizing'
+
+interface WatchlistAlertEmailProps extends WatchlistAlertData {}
+
+export const WatchlistAlertEmail = ({
+  customerName,
+  alerts,
+  currency,
+  sizeSystem = 'US',
+  watchlistUrl,
+}: WatchlistAlertEmailProps) => {
+  const formatPrice = (amount: number) => PricingService.formatPrice(amount, currency)
+  const isDigest = alerts.length > 1
+  const previewText = isDigest
+    ? `${alerts.length} updates on products you watch`
+    : alerts[0].kind === 'price_drop'
+      ? `${alerts[0].productName} dropped to ${formatPrice(alerts[0].price!)}`
+      : `${alerts[0].productName} is back in stock`
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>SneaksX</Heading>
+            <Text style={tagline}>Premium Sneakers & Streetwear</Text>
+          </Section>
+
+          {/* Intro */}
+          <Section style={section}>
+            <Heading style={h2}>
+              {isDigest ? 'Updates on Your Watchlist' : alerts[0].kind === 'price_drop' ? 'Price Drop!' : 'Back in Stock!'}
+            </Heading>
+            <Text style={text}>
+              Hi {customerName},
+            </Text>
+            <Text style={text}>
+              {isDigest
+                ? 'Here is what changed on the products you watch since we last wrote.'
+                : 'A product you watch just changed.'}
+            </Text>
+          </Section>
+
+          {/* Alerts */}
+          <Section style={section}>
+            {alerts.map((alert, index) => (
+              <Row key={index} style={itemRow}>
+                {alert.image && (
+                  <Column style={itemImageColumn}>
+                    <Img
+                      src={alert.image}
+                      alt={alert.productName}
+                      width="80"
+                      height="80"
+                      style={itemImage}
+                    />
+                  </Column>
+                )}
+                <Column style={itemDetailsColumn}>
+                  <Link href={alert.productUrl} style={itemName}>
+                    {alert.brand ? `${alert.brand} ${alert.productName}` : alert.productName}
+                  </Link>
+                  {alert.kind === 'price_drop' ? (
+                    <Text style={itemDetails}>
+                      Now {formatPrice(alert.price!)}
+                      {alert.previousPrice ? <span style={previousPrice}> {formatPrice(alert.previousPrice)}</span> : null}
+                    </Text>
+                  ) : (
+                    <Text style={itemDetails}>
+                      Back in stock{alert.size
+                        ? ` in ${formatSize(alert.size, sizeSystem, { brand: alert.brand, gender: alert.gender })}`
+                        : ''}
+                    </Text>
+                  )}
+                </Column>
+              </Row>
+            ))}
+            <Section style={buttonContainer}>
+              <Button href={isDigest ? watchlistUrl : alerts[0].productUrl} style={button}>
+                {isDigest ? 'View Your Watchlist' : 'View Product'}
+              </Button>
+            </Section>
+          </Section>
+
+          <Hr style={hr} />
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              You get these emails for products on your watchlist. Remove a product from your watchlist, or turn
+              off price drop and restock emails in your preferences, to stop them.
+            </Text>
+            <Text style={footerText}>
+              Thank you for choosing SneaksX!
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// Styles
+const main = {
+  backgroundColor: '#ffffff',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen-Sans, Ubuntu, Cantarell, "Helvetica Neue", sans-serif',
+}
+
+const container = {
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  maxWidth: '600px',
+}
+
+const header = {
+  textAlign: 'center' as const,
+  padding: '32px 0',
+  backgroundColor: '#000000',
+  color: '#ffffff',
+}
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '32px',
+  fontWeight: 'bold',
+  margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+
+const tagline = {
+  color: '#cccccc',
+  fontSize: '14px',
+  margin: '0',
+  textAlign: 'center' as const,
+}
+
+const section = {
+  padding: '24px',
+}
+
+const h2 = {
+  color: '#000000',
+  fontSize: '24px',
+  fontWeight: 'bold',
+  margin: '0 0 16px',
+}
+
+const text = {
+  color: '#333333',
+  fontSize: '16px',
+  lineHeight: '24px',
+  margin: '0 0 16px',
+}
+
+const itemRow = {
+  padding: '16px 0',
+  borderBottom: '1px solid #eeeeee',
+}
+
+const itemImageColumn = {
+  width: '80px',
+  paddingRight: '16px',
+}
+
+const itemImage = {
+  borderRadius: '8px',
+  objectFit: 'cover' as const,
+}
+
+const itemDetailsColumn = {
+  paddingRight: '16px',
+}
+
+const itemName = {
+  color: '#000000',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  margin: '0 0 4px',
+  textDecoration: 'none',
+}
+
+const itemDetails = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '4px 0 0',
+}
+
+const previousPrice = {
+  color: '#999999',
+  textDecoration: 'line-through',
+}
+
+const buttonContainer = {
+  textAlign: 'center' as const,
+  margin: '24px 0 0',
+}
+
+const button = {
+  backgroundColor: '#000000',
+  borderRadius: '6px',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  padding: '12px 24px',
+}
+
+const hr = {
+  borderColor: '#eeeeee',
+  margin: '24px 0',
+}
+
+const footer = {
+  padding: '24px',
+  textAlign: 'center' as const,
+  backgroundColor: '#f8f9fa',
+}
+
+const footerText = {
+  color: '#666666',
+  fontSize: '14px',
+  margin: '0 0 8px',
+}
+
+export default WatchlistAlertEmail
@@ -0,0 +1,206 @@
+import { randomInt } from 'crypto'
+import { supabase } from '@/lib/supabase/server'
+import { PaymentService } from '@/services/payments'
+import type { PaymentIntent } from '@/services/payments'
+import { PricingService, BASE_CURRENCY } from '@/services/pricing'
+import { StoreCreditError, StoreCreditErrorCode } from '@/services/store-credit'
+import { EmailService } from '@/services/email/EmailService'
+import type { GiftCard, GiftCardPurchaseRequest } from '@/types/store-credit'
+
+// Gift card amounts, in the base currency
+export const GIFT_CARD_MIN_AMOUNT = 10
+export const GIFT_CARD_MAX_AMOUNT = 500
+
+// No 0/O or 1/I/L so codes can be typed from a printout
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const CODE_GROUPS = 3
+const CODE_GROUP_LENGTH = 4
+const MAX_CODE_ATTEMPTS = 5
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Gift cards are bought like an order: the card is saved as pending with a payment intent that carries
+ * its id, and becomes active (and is emailed to the recipient) once that payment succeeds. Redeeming
+ * an active code moves its amount into the redeemer's store credit (see StoreCreditService).
+ */
+export class GiftCardService {
+  static generateCode(): string {
+    const groups: string[] = []
+    for (let group = 0; group < CODE_GROUPS; group++) {
+      let chars = ''
+      for (let i = 0; i < CODE_GROUP_LENGTH; i++) {
+        chars += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+      }
+      groups.push(chars)
+    }
+    return `SXGC-${groups.join('-')}`
+  }
+
+  /**
+   * Save a pending gift card and create the payment intent for it; the buyer confirms it like an order payment
+   */
+  static async purchaseGiftCard(
+    userId: string,
+    request: GiftCardPurchaseRequest
+  ): Promise<{ giftCard: GiftCard; paymentIntent: PaymentIntent }> {
+    const amount = PricingService.round(Number(request.amount), BASE_CURRENCY)
+    if (!Number.isFinite(amount) || amount < GIFT_CARD_MIN_AMOUNT || amount > GIFT_CARD_MAX_AMOUNT) {
+      throw new StoreCreditError(
+        StoreCreditErrorCode.INVALID_REQUEST,
+        `Gift cards are between ${PricingService.formatPrice(GIFT_CARD_MIN_AMOUNT)} and ${PricingService.formatPrice(GIFT_CARD_MAX_AMOUNT)}`
+      )
+    }
+
+    const recipientEmail = (request.recipientEmail || '').trim().toLowerCase()
+    if (!EMAIL_PATTERN.test(recipientEmail)) {
+      throw new StoreCreditError(StoreCreditErrorCode.INVALID_REQUEST, 'Please enter the recipient\'s email address')
+    }
+    if (request.message && request.message.length > 500) {
+      throw new StoreCreditError(StoreCreditErrorCode.INVALID_REQUEST, 'Messages are limited to 500 characters')
+    }
+
+    let row: any = null
+    for (let attempt = 0; !row; attempt++) {
+      const { data, error } = await supabase
+        .from('gift_cards')
+        .insert({
+          code: this.generateCode(),
+          amount,
+          purchaser_id: userId,
+          recipient_email: recipientEmail,
+          recipient_name: request.recipientName?.trim() || null,
+          message: request.message?.trim() || null
+        })
+        .select()
+        .single()
+
+      if (error) {
+        // Another card drew the same code; draw again
+        if (error.code === '23505' && attempt < MAX_CODE_ATTEMPTS) continue
+        throw new Error(`Failed to create gift card: ${error.message}`)
+      }
+      row = data
+    }
+
+    const paymentIntent = await PaymentService.createPaymentIntent({
+      amount,
+      currency: BASE_CURRENCY,
+      userId,
+      giftCardId: row.id,
+      idempotencyKey: `gift-card-${row.id}`
+    })
+
+    const { error: updateError } = await supabase
+      .from('gift_cards')
+      .update({ payment_intent_id: paymentIntent.id, updated_at: new Date().toISOString() })
+      .eq('id', row.id)
+
+    if (updateError) {
+      throw new Error(`Failed to save payment for gift card ${row.id}: ${updateError.message}`)
+    }
+
+    return { giftCard: this.toGiftCard(row), paymentIntent }
+  }
+
+  /**
+   * Activate a paid gift card and email its code to the recipient. Payment events can arrive more than
+   * once, so only a pending card is activated and emailed, and only by the intent created for it when
+   * that intent charged the card's full amount.
+   */
+  static async activateGiftCard(giftCardId: string, intent: { id: string; amount: number; currency: string }): Promise<boolean> {
+    if (intent.currency.toUpperCase() !== BASE_CURRENCY) {
+      console.warn(`Payment ${intent.id} for gift card ${giftCardId} is not in ${BASE_CURRENCY}; not activating`)
+      return false
+    }
+
+    const { data, error } = await supabase
+      .from('gift_cards')
+      .update({
+        status: 'active',
+        activated_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', giftCardId)
+      .eq('payment_intent_id', intent.id)
+      .eq('amount', PricingService.fromMinorUnits(intent.amount, BASE_CURRENCY))
+      .eq('status', 'pending')
+      .select('*')
+
+    if (error) {
+      throw new Error(`Failed to activate gift card ${giftCardId}: ${error.message}`)
+    }
+    if (!data || data.length === 0) {
+      return false
+    }
+
+    const card = data[0]
+    try {
+      const { data: purchaser } = await supabase.auth.admin.getUserById(card.purchaser_id)
+      const senderName = purchaser?.user?.user_metadata?.full_name || purchaser?.user?.email || 'A friend'
+
+      await EmailService.sendGiftCard({
+        recipientEmail: card.recipient_email,
+        recipientName: card.recipient_name || undefined,
+        senderName,
+        message: card.message || undefined,
+        code: card.code,
+        amount: parseFloat(card.amount),
+        currency: BASE_CURRENCY,
+        redeemUrl: `${process.env.NEXT_PUBLIC_SITE_URL || ''}/profile`
+      })
+    } catch (emailError) {
+      console.error(`Error sending gift card email for ${giftCardId}:`, emailError)
+    }
+
+    return true
+  }
+
+  /**
+   * A gift card whose payment failed is never activated; buying again creates a new card
+   */
+  static async voidGiftCard(giftCardId: string, paymentIntentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('gift_cards')
+      .update({ status: 'void', updated_at: new Date().toISOString() })
+      .eq('id', giftCardId)
+      .eq('payment_intent_id', paymentIntentId)
+      .eq('status', 'pending')
+
+    if (error) {
+      throw new Error(`Failed to void gift card ${giftCardId}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Gift cards a user bought, newest first
+   */
+  static async listPurchased(userId: string): Promise<GiftCard[]> {
+    const { data, error } = await supabase
+      .from('gift_cards')
+      .select('*')
+      .eq('purchaser_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw new Error(`Failed to load gift cards: ${error.message}`)
+
+    return (data || []).map(row => this.toGiftCard(row))
+  }
+
+  private static toGiftCard(row: any): GiftCard {
+    return {
+      id: row.id,
+      code: row.status === 'pending' || row.status === 'void' ? null : row.code,
+      amount: parseFloat(row.amount),
+      status: row.status,
+      recipientEmail: row.recipient_email,
+      recipientName: row.recipient_name,
+      message: row.message,
+      activatedAt: row.activated_at,
+      redeemedAt: row.redeemed_at,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export default GiftCardService
@@ -0,0 +1,179 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { supabase } from '@/lib/supabase/server'
+import { toOrder, toOrderStatusChange } from '@/services/orders'
+import type { Order, OrderStatusChange } from '@/types/order'
+
+export enum GuestOrderErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  CLAIMED = 'CLAIMED'
+}
+
+export class GuestOrderError extends Error {
+  constructor(
+    public code: GuestOrderErrorCode,
+    message: string,
+    public details?: any
+  ) {
+    super(message)
+    this.name = 'GuestOrderError'
+  }
+}
+
+export interface GuestOrderLookup {
+  order: Order
+  history: OrderStatusChange[]
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Wrong order number and wrong email get the same answer, so lookups cannot probe for either
+const NOT_FOUND_MESSAGE = 'We could not find an order with that number and email'
+
+/**
+ * Orders placed without an account. A guest proves who they are with the email the order was placed
+ * with, or with the lookup token sent to that email; the same token authorizes paying for the order
+ * during checkout. Guest orders move to the buyer's account when they confirm an account with that
+ * email (claim_guest_orders).
+ */
+export class GuestOrderService {
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase()
+  }
+
+  static isValidEmail(email: string): boolean {
+    return EMAIL_PATTERN.test(email.trim())
+  }
+
+  /**
+   * Token for the order lookup link; bound to the order and the email it was placed with
+   */
+  static createLookupToken(orderId: string, email: string): string {
+    return createHmac('sha256', this.secret())
+      .update(`order-lookup:${orderId}:${this.normalizeEmail(email)}`)
+      .digest('base64url')
+  }
+
+  static verifyLookupToken(orderId: string, email: string, token: string): boolean {
+    const expected = Buffer.from(this.createLookupToken(orderId, email))
+    const given = Buffer.from(token)
+    return expected.length === given.length && timingSafeEqual(expected, given)
+  }
+
+  static lookupUrl(orderNumber: string, token: string): string {
+    const params = new URLSearchParams({ order: orderNumber, token })
+    return `${process.env.NEXT_PUBLIC_SITE_URL || ''}/orders/lookup?${params}`
+  }
+
+  /**
+   * Look up a guest order with its order number and the email it was placed with
+   */
+  static async findOrder(orderNumber: string, email: string): Promise<GuestOrderLookup> {
+    if (!orderNumber?.trim() || !email?.trim()) {
+      throw new GuestOrderError(GuestOrderErrorCode.INVALID_REQUEST, 'Please enter your order number and email')
+    }
+
+    const row = await this.loadOrder(orderNumber.trim())
+    if (!row || !row.customer_email || this.normalizeEmail(row.customer_email) !== this.normalizeEmail(email)) {
+      throw new GuestOrderError(GuestOrderErrorCode.NOT_FOUND, NOT_FOUND_MESSAGE)
+    }
+
+    return this.toLookup(row)
+  }
+
+  /**
+   * Look up a guest order from the signed link in its confirmation email
+   */
+  static async findOrderByToken(orderNumber: string, token: string): Promise<GuestOrderLookup> {
+    if (!orderNumber?.trim() || !token) {
+      throw new GuestOrderError(GuestOrderErrorCode.INVALID_REQUEST, 'This order link is incomplete')
+    }
+
+    const row = await this.loadOrder(orderNumber.trim())
+    if (!row || !row.customer_email || !this.verifyLookupToken(row.id, row.customer_email, token)) {
+      throw new GuestOrderError(GuestOrderErrorCode.NOT_FOUND, 'This order link is not valid')
+    }
+
+    return this.toLookup(row)
+  }
+
+  /**
+   * Whether the lookup token belongs to this guest order, e.g. before confirming its payment
+   */
+  static async canAccessOrder(orderId: string | undefined, token: string): Promise<boolean> {
+    if (!orderId || !token) return false
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select('id, user_id, customer_email')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load order ${orderId}: ${error.message}`)
+    }
+
+    return !!data && data.user_id === null && !!data.customer_email &&
+      this.verifyLookupToken(data.id, data.customer_email, token)
+  }
+
+  private static async loadOrder(orderNumber: string) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (
+          *,
+          products (
+            name,
+            brands (name),
+            product_images (image_url, is_primary)
+          )
+        ),
+        order_shipments (*, order_shipment_items (*), order_shipment_events (*))
+      `)
+      .eq('order_number', orderNumber)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load order ${orderNumber}: ${error.message}`)
+    }
+
+    return data
+  }
+
+  private static async toLookup(row: any): Promise<GuestOrderLookup> {
+    // Once attached to an account the order is only shown there
+    if (row.user_id) {
+      throw new GuestOrderError(
+        GuestOrderErrorCode.CLAIMED,
+        'This order is now part of your account. Please sign in to view it.'
+      )
+    }
+
+    const { data: history, error } = await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', row.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load history for order ${row.id}: ${error.message}`)
+    }
+
+    return {
+      order: toOrder(row),
+      history: (history || []).map(toOrderStatusChange)
+    }
+  }
+
+  private static secret(): string {
+    const secret = process.env.ORDER_LOOKUP_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!secret) {
+      throw new Error('ORDER_LOOKUP_SECRET is not set')
+    }
+    return secret
+  }
+}
+
+export default GuestOrderService
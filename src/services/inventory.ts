@@ -38,12 +38,15 @@ export interface InventoryMove {
 export class InventoryService {
   private static supabase = supabaseClient
 
-  // Check if products and sizes are available
+  // Check if products and sizes are available; with a userId, units held for that user's waitlist
+  // offers and raffle wins count as available to them
   static async checkStockAvailability(
-    items: Array<{ productId: string; size: string; quantity: number }>
+    items: Array<{ productId: string; size: string; quantity: number }>,
+    options: { userId?: string } = {}
   ): Promise<StockAvailability[]> {
     try {
       const productIds = [...new Set(items.map(item => item.productId))]
+      const held = options.userId ? await this.getHeldUnits(options.userId, productIds) : []
 
       const { data: stockData, error } = await this.supabase
         .from('product_stock')
@@ -74,13 +77,18 @@ export class InventoryService {
           }
         }
 
+        const heldForUser = held.filter(
+          offer => offer.product_id === item.productId && offer.size === item.size
+        ).length
+        const availableQuantity = stock.available_quantity + heldForUser
+
         return {
           productId: item.productId,
           size: item.size,
           quantity: stock.quantity,
-          reservedQuantity: stock.reserved_quantity,
-          availableQuantity: stock.available_quantity,
-          isAvailable: stock.available_quantity >= item.quantity
+          reservedQuantity: stock.reserved_quantity - heldForUser,
+          availableQuantity,
+          isAvailable: availableQuantity >= item.quantity
         }
       })
 
@@ -91,6 +99,31 @@ export class InventoryService {
     }
   }
 
+  // The user's open waitlist offers and unclaimed raffle wins: one unit each, held until it expires
+  private static async getHeldUnits(userId: string, productIds: string[]): Promise<Array<{ product_id: string; size: string }>> {
+    const now = new Date().toISOString()
+    const [offers, wins] = await Promise.all([
+      this.supabase
+        .from('stock_waitlist')
+        .select('product_id, size')
+        .eq('user_id', userId)
+        .eq('status', 'offered')
+        .gt('offer_expires_at', now)
+        .in('product_id', productIds),
+      this.supabase
+        .from('raffle_entries')
+        .select('product_id, size')
+        .eq('user_id', userId)
+        .eq('status', 'won')
+        .gt('claim_expires_at', now)
+        .in('product_id', productIds)
+    ])
+
+    if (offers.error) throw offers.error
+    if (wins.error) throw wins.error
+    return [...(offers.data || []), ...(wins.data || [])]
+  }
+
   // Reserve stock for checkout (15 minute expiration)
   static async reserveStock(
     items: Array<{ productId: string; size: string; quantity: number }>,
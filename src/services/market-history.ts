@@ -0,0 +1,119 @@
+import { supabase } from '@/lib/supabase/client'
+
+export type PriceHistoryRange = '24h' | '7d' | '30d' | '90d' | '1y' | 'all'
+
+export interface PriceHistoryPoint {
+  timestamp: string
+  lowestAsk: number | null
+  highestBid: number | null
+  lastSale: number | null
+  volatility: number | null
+}
+
+export interface PriceHistorySummary {
+  open: number | null
+  close: number | null
+  high: number | null
+  low: number | null
+  change: number | null
+  changePercentage: number | null
+}
+
+export interface PriceHistory {
+  productId: string
+  range: PriceHistoryRange
+  bucket: string
+  points: PriceHistoryPoint[]
+  summary: PriceHistorySummary
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// Window and chart resolution per range; resolutions are never finer than the stored granularity
+export const PRICE_HISTORY_RANGES: Record<PriceHistoryRange, { windowMs: number | null; bucket: string }> = {
+  '24h': { windowMs: DAY, bucket: '1 hour' },
+  '7d': { windowMs: 7 * DAY, bucket: '6 hours' },
+  '30d': { windowMs: 30 * DAY, bucket: '1 day' },
+  '90d': { windowMs: 90 * DAY, bucket: '1 day' },
+  '1y': { windowMs: 365 * DAY, bucket: '7 days' },
+  'all': { windowMs: null, bucket: '7 days' }
+}
+
+/**
+ * Price used for charting a point: last sale, falling back to the lowest ask
+ */
+export function getPointPrice(point: PriceHistoryPoint): number | null {
+  return point.lastSale ?? point.lowestAsk ?? null
+}
+
+export function summarizePriceHistory(points: PriceHistoryPoint[]): PriceHistorySummary {
+  const prices = points
+    .map(getPointPrice)
+    .filter((price): price is number => price !== null)
+
+  if (prices.length === 0) {
+    return { open: null, close: null, high: null, low: null, change: null, changePercentage: null }
+  }
+
+  const open = prices[0]
+  const close = prices[prices.length - 1]
+  const change = Math.round((close - open) * 100) / 100
+
+  return {
+    open,
+    close,
+    high: Math.max(...prices),
+    low: Math.min(...prices),
+    change,
+    changePercentage: open > 0 ? Math.round((change / open) * 10000) / 100 : null
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export class MarketHistoryService {
+  /**
+   * Get a product's market price history, bucketed for charting
+   */
+  static async getPriceHistory(productId: string, range: PriceHistoryRange = '30d'): Promise<PriceHistory> {
+    const config = PRICE_HISTORY_RANGES[range]
+    if (!config) {
+      throw new Error(`Invalid price history range: ${range}`)
+    }
+
+    const since = config.windowMs !== null
+      ? new Date(Date.now() - config.windowMs).toISOString()
+      : null
+
+    const { data, error } = await supabase.rpc('get_product_price_history', {
+      p_product_id: productId,
+      p_since: since,
+      p_bucket: config.bucket
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch price history: ${error.message}`)
+    }
+
+    const points: PriceHistoryPoint[] = (data || []).map((row: any) => ({
+      timestamp: row.bucket,
+      lowestAsk: toNumber(row.lowest_ask),
+      highestBid: toNumber(row.highest_bid),
+      lastSale: toNumber(row.last_sale),
+      volatility: toNumber(row.volatility)
+    }))
+
+    return {
+      productId,
+      range,
+      bucket: config.bucket,
+      points,
+      summary: summarizePriceHistory(points)
+    }
+  }
+}
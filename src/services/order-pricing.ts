@@ -0,0 +1,245 @@
+import { supabase } from '@/lib/supabase/client'
+import { applyPromotion, type PromotionDiscount } from '@/lib/promotions'
+import type {
+  OrderQuote,
+  OrderQuoteInput,
+  PricingRules,
+  ShippingOption,
+  ShippingRate,
+  TaxLine,
+} from '@/types/pricing'
+import type { DiscountLine, Promotion } from '@/types/promotion'
+
+// Used when a product has no shipping weight
+export const DEFAULT_ITEM_WEIGHT_KG = 1.2
+
+const RULES_TTL = 60 * 1000
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export class OrderPricingService {
+  private static cachedRules: { rules: PricingRules; fetchedAt: number } | null = null
+
+  // Active shipping zones, carrier rates and tax rules
+  static async getRules(options: { fresh?: boolean } = {}): Promise<PricingRules> {
+    if (!options.fresh && this.cachedRules && Date.now() - this.cachedRules.fetchedAt < RULES_TTL) {
+      return this.cachedRules.rules
+    }
+
+    const [zones, rates, taxRules] = await Promise.all([
+      supabase.from('shipping_zones').select('*').eq('is_active', true),
+      supabase.from('shipping_rates').select('*').eq('is_active', true),
+      supabase.from('tax_rules').select('*').eq('is_active', true),
+    ])
+
+    const error = zones.error || rates.error || taxRules.error
+    if (error) throw new Error(`Failed to load pricing rules: ${error.message}`)
+
+    const rules: PricingRules = {
+      zones: zones.data || [],
+      rates: (rates.data || []).map((rate: any) => ({
+        ...rate,
+        base_amount: Number(rate.base_amount),
+        per_item_amount: Number(rate.per_item_amount),
+        per_kg_amount: Number(rate.per_kg_amount),
+        min_weight_kg: Number(rate.min_weight_kg),
+        max_weight_kg: rate.max_weight_kg === null ? null : Number(rate.max_weight_kg),
+        free_shipping_threshold: rate.free_shipping_threshold === null ? null : Number(rate.free_shipping_threshold),
+      })),
+      taxRules: (taxRules.data || []).map((rule: any) => ({ ...rule, rate: Number(rule.rate) })),
+    }
+
+    this.cachedRules = { rules, fetchedAt: Date.now() }
+    return rules
+  }
+
+  // Price an order using the catalog prices and weights stored for its products
+  static async quoteOrder(
+    items: Array<{ productId: string; quantity: number }>,
+    destination: { country: string; region?: string | null },
+    shippingRateId?: string | null,
+    promotion?: Promotion | null
+  ): Promise<OrderQuote> {
+    const pricedItems = await this.priceItems(items)
+    const rules = await this.getRules()
+    return this.calculate({ items: pricedItems, ...destination, shippingRateId }, rules, promotion)
+  }
+
+  // What a promotion takes off the items before a destination is known, e.g. when a code is applied in the cart
+  static async previewPromotion(
+    items: Array<{ productId: string; quantity: number }>,
+    promotion: Promotion
+  ): Promise<PromotionDiscount> {
+    return applyPromotion(promotion, await this.priceItems(items))
+  }
+
+  private static async priceItems(items: Array<{ productId: string; quantity: number }>): Promise<OrderQuoteInput['items']> {
+    const productIds = [...new Set(items.map(item => item.productId))]
+
+    const { data: products, error } = await supabase
+      .from('products')
+      .select('id, brand_id, category_id, retail_price, current_price, shipping_weight_kg')
+      .in('id', productIds)
+
+    if (error) throw new Error(`Failed to load product prices: ${error.message}`)
+
+    const productMap = new Map((products || []).map((product: any) => [product.id, product]))
+
+    return items.map(item => {
+      const product = productMap.get(item.productId)
+      if (!product) {
+        throw new Error(`Product ${item.productId} is not available`)
+      }
+
+      return {
+        productId: item.productId,
+        quantity: item.quantity,
+        price: Number(product.retail_price ?? product.current_price ?? 0),
+        weightKg: product.shipping_weight_kg === null ? undefined : Number(product.shipping_weight_kg),
+        brandId: product.brand_id ?? null,
+        categoryId: product.category_id ?? null,
+      }
+    })
+  }
+
+  /**
+   * Pure calculation: shipping from the destination zone, then the promotion, then tax on the
+   * discounted amounts. Throws a PromotionError when the promotion does not apply to the order.
+   */
+  static calculate(
+    input: OrderQuoteInput,
+    rules: PricingRules,
+    promotion?: Promotion | null,
+    now: Date = new Date()
+  ): OrderQuote {
+    if (input.items.length === 0) {
+      throw new Error('Cannot price an order without items')
+    }
+
+    const country = input.country.toUpperCase()
+    const region = input.region ? input.region.toUpperCase() : null
+
+    const subtotal = roundMoney(input.items.reduce((sum, item) => sum + item.price * item.quantity, 0))
+    const quantity = input.items.reduce((sum, item) => sum + item.quantity, 0)
+    const weightKg = input.items.reduce(
+      (sum, item) => sum + (item.weightKg ?? DEFAULT_ITEM_WEIGHT_KG) * item.quantity,
+      0
+    )
+
+    const zone = rules.zones.find(candidate => candidate.is_active && candidate.countries.includes(country))
+    if (!zone) {
+      throw new Error(`Shipping is not available to ${country}`)
+    }
+
+    const shippingOptions = rules.rates
+      .filter(rate => rate.is_active && rate.zone_id === zone.id && this.rateApplies(rate, quantity, weightKg))
+      .map(rate => this.toShippingOption(rate, subtotal, quantity, weightKg))
+      .sort((a, b) => a.amount - b.amount)
+
+    if (shippingOptions.length === 0) {
+      throw new Error(`No shipping service covers this order to ${country}`)
+    }
+
+    const selected = input.shippingRateId
+      ? shippingOptions.find(option => option.rateId === input.shippingRateId)
+      : shippingOptions[0]
+
+    if (!selected) {
+      throw new Error('The selected shipping service is not available for this order')
+    }
+
+    const applied = promotion ? applyPromotion(promotion, input.items, now) : null
+    const discountLines = promotion && applied ? this.discountLines(promotion, applied, selected.amount) : []
+    const discountOn = (target: DiscountLine['target']) => roundMoney(
+      discountLines.filter(line => line.target === target).reduce((sum, line) => sum + line.amount, 0)
+    )
+    const itemDiscount = discountOn('items')
+    const shippingDiscount = discountOn('shipping')
+    const discount = roundMoney(itemDiscount + shippingDiscount)
+
+    // Country-wide rules and the destination region's rules add up (e.g. GST + PST)
+    const taxLines: TaxLine[] = rules.taxRules
+      .filter(rule => rule.is_active && rule.country.toUpperCase() === country)
+      .filter(rule => !rule.region || rule.region.toUpperCase() === region)
+      .map(rule => ({
+        ruleId: rule.id,
+        name: rule.name,
+        rate: rule.rate,
+        amount: roundMoney(
+          (subtotal - itemDiscount + (rule.applies_to_shipping ? selected.amount - shippingDiscount : 0)) * rule.rate
+        ),
+      }))
+
+    const tax = roundMoney(taxLines.reduce((sum, line) => sum + line.amount, 0))
+
+    const selectedRate = rules.rates.find(rate => rate.id === selected.rateId)
+    const threshold = selectedRate?.free_shipping_threshold ?? null
+
+    return {
+      subtotal,
+      shipping: selected.amount,
+      tax,
+      discount,
+      total: roundMoney(subtotal + selected.amount - discount + tax),
+      zoneId: zone.id,
+      shippingRateId: selected.rateId,
+      shippingOptions,
+      taxLines,
+      discountLines,
+      freeShippingRemaining: threshold !== null && subtotal < threshold ? roundMoney(threshold - subtotal) : null,
+      lines: input.items.map(({ productId, price, quantity }, index) => ({
+        productId,
+        price,
+        quantity,
+        discount: applied?.lineDiscounts[index] ?? 0,
+      })),
+    }
+  }
+
+  private static discountLines(promotion: Promotion, applied: PromotionDiscount, shipping: number): DiscountLine[] {
+    const line = { promotionId: promotion.id, code: promotion.code, name: promotion.name, type: promotion.type }
+    const lines: DiscountLine[] = []
+
+    if (applied.itemDiscount > 0) {
+      lines.push({ ...line, target: 'items', amount: applied.itemDiscount })
+    }
+    if (applied.freeShipping) {
+      lines.push({ ...line, target: 'shipping', amount: shipping })
+    }
+
+    return lines
+  }
+
+  private static rateApplies(rate: ShippingRate, quantity: number, weightKg: number): boolean {
+    if (quantity < rate.min_quantity) return false
+    if (rate.max_quantity !== null && quantity > rate.max_quantity) return false
+    if (weightKg < rate.min_weight_kg) return false
+    if (rate.max_weight_kg !== null && weightKg > rate.max_weight_kg) return false
+    return true
+  }
+
+  private static toShippingOption(
+    rate: ShippingRate,
+    subtotal: number,
+    quantity: number,
+    weightKg: number
+  ): ShippingOption {
+    const free = rate.free_shipping_threshold !== null && subtotal >= rate.free_shipping_threshold
+    const amount = free
+      ? 0
+      : roundMoney(rate.base_amount + rate.per_item_amount * quantity + rate.per_kg_amount * weightKg)
+
+    return {
+      rateId: rate.id,
+      carrier: rate.carrier,
+      serviceLevel: rate.service_level,
+      amount,
+      freeShippingThreshold: rate.free_shipping_threshold,
+      estimatedDays: { min: rate.estimated_days_min, max: rate.estimated_days_max },
+    }
+  }
+}
+
+export default OrderPricingService
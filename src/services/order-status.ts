@@ -0,0 +1,267 @@
+import { supabase } from '@/lib/supabase/server'
+import { planTransition, OrderTransitionError } from '@/lib/orders'
+import type { OrderState, TransitionPlan } from '@/lib/orders'
+import { EmailService } from '@/services/email/EmailService'
+import { InventoryService } from '@/services/inventory'
+import { toOrderStatusChange } from '@/services/orders'
+import type { OrderStatus, OrderStatusChange, PaymentStatus } from '@/types/order'
+
+export enum OrderStatusErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  NO_CHANGE = 'NO_CHANGE',
+  INVALID_TRANSITION = 'INVALID_TRANSITION',
+  TRACKING_REQUIRED = 'TRACKING_REQUIRED',
+  PAYMENT_REQUIRED = 'PAYMENT_REQUIRED',
+  INSUFFICIENT_CREDIT = 'INSUFFICIENT_CREDIT',
+  CONFLICT = 'CONFLICT'
+}
+
+export class OrderStatusError extends Error {
+  constructor(
+    public code: OrderStatusErrorCode,
+    message: string,
+    public details?: any
+  ) {
+    super(message)
+    this.name = 'OrderStatusError'
+  }
+}
+
+// Errors raised by the orders_status_guard trigger carry one of these hints; insufficient_credit comes
+// from completing a failed order whose returned store credit has since been spent
+const TRIGGER_ERROR_CODES: Record<string, OrderStatusErrorCode> = {
+  invalid_transition: OrderStatusErrorCode.INVALID_TRANSITION,
+  tracking_required: OrderStatusErrorCode.TRACKING_REQUIRED,
+  insufficient_credit: OrderStatusErrorCode.INSUFFICIENT_CREDIT
+}
+
+export interface OrderStatusChangeOptions {
+  actorId?: string | null
+  note?: string | null
+  trackingNumber?: string | null
+  /** Other order columns to set in the same update, e.g. the payment intent */
+  fields?: Record<string, unknown>
+}
+
+export interface OrderStatusChangeResult {
+  plan: TransitionPlan
+  order: any
+}
+
+/**
+ * Moves orders through the state machine in lib/orders: checks the change, applies its stock
+ * effect, saves it (the orders_status_guard trigger records it in order_status_history) and
+ * sends the customer email for it.
+ */
+export class OrderStatusService {
+  static async transition(
+    orderId: string,
+    change: { status?: OrderStatus; paymentStatus?: PaymentStatus },
+    options: OrderStatusChangeOptions = {}
+  ): Promise<OrderStatusChangeResult> {
+    const order = await this.loadOrder(orderId)
+    const from: OrderState = { status: order.status, paymentStatus: order.payment_status || 'pending' }
+    const trackingNumber = options.trackingNumber?.trim() || null
+
+    let plan: TransitionPlan
+    try {
+      plan = planTransition(from, change, { trackingNumber })
+    } catch (error) {
+      if (error instanceof OrderTransitionError) {
+        throw new OrderStatusError(OrderStatusErrorCode[error.code], error.message)
+      }
+      throw error
+    }
+
+    const notes = options.note?.trim() ? [options.note.trim()] : []
+
+    // Committing and releasing only touch reservations that are still open, so both are safe to repeat
+    let newReservationIds: string[] = []
+    if (plan.stock === 'commit') {
+      await this.commitReservations(order)
+    } else if (plan.stock === 'release') {
+      await this.releaseReservations(order)
+    } else if (plan.stock === 'reserve_and_commit') {
+      const reserved = await InventoryService.reserveStock(
+        order.order_items.map((item: any) => ({ productId: item.product_id, size: item.size, quantity: item.quantity })),
+        { userId: order.user_id, orderId }
+      )
+
+      if (reserved.success) {
+        newReservationIds = (reserved.reservations || []).map(reservation => reservation.id)
+      } else {
+        // The payment went through, so the order goes ahead; the timeline shows what needs restocking
+        console.error(`Could not reserve stock again for order ${orderId}:`, reserved.errors)
+        notes.push(`Stock could not be reserved: ${(reserved.errors || []).join('; ')}`)
+      }
+    }
+
+    const now = new Date().toISOString()
+    const updates: Record<string, unknown> = {
+      ...options.fields,
+      status: plan.to.status,
+      payment_status: plan.to.paymentStatus,
+      status_changed_by: options.actorId || null,
+      status_change_note: notes.length > 0 ? notes.join('\n') : null,
+      updated_at: now
+    }
+
+    if (plan.to.status === 'shipped' && plan.from.status !== 'shipped') {
+      updates.tracking_number = trackingNumber
+      updates.shipped_at = now
+    }
+    if (plan.to.status === 'delivered' && plan.from.status !== 'delivered') {
+      updates.delivered_at = now
+    }
+
+    // Only from the state the plan was made for, so two concurrent changes cannot both apply
+    let query = supabase
+      .from('orders')
+      .update(updates)
+      .eq('id', orderId)
+      .eq('status', from.status)
+
+    query = order.payment_status ? query.eq('payment_status', order.payment_status) : query.is('payment_status', null)
+
+    const { data, error } = await query.select('id')
+
+    if (error || !data?.length) {
+      if (newReservationIds.length > 0) {
+        await InventoryService.releaseReservations(newReservationIds)
+      }
+
+      if (error) {
+        const code = error.hint ? TRIGGER_ERROR_CODES[error.hint] : undefined
+        if (code) throw new OrderStatusError(code, error.message)
+        throw error
+      }
+
+      throw new OrderStatusError(OrderStatusErrorCode.CONFLICT, 'The order was changed by someone else; reload and try again')
+    }
+
+    if (newReservationIds.length > 0) {
+      const result = await InventoryService.commitReservedStock(newReservationIds, orderId)
+      if (!result.success) {
+        console.error(`Failed to commit stock reserved again for order ${orderId}:`, result.error)
+      }
+    }
+
+    const updated = { ...order, ...updates }
+
+    if (plan.email) {
+      await this.notify(updated, plan, options.note?.trim() || null)
+    }
+
+    return { plan, order: updated }
+  }
+
+  /**
+   * The order's timeline, oldest first
+   */
+  static async getHistory(orderId: string): Promise<OrderStatusChange[]> {
+    const { data, error } = await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load status history for order ${orderId}: ${error.message}`)
+    }
+
+    return (data || []).map(toOrderStatusChange)
+  }
+
+  static async getState(orderId: string): Promise<OrderState> {
+    const order = await this.loadOrder(orderId)
+    return { status: order.status, paymentStatus: order.payment_status || 'pending' }
+  }
+
+  private static async loadOrder(orderId: string) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (
+          *,
+          products (name, brand, images, brands (name))
+        ),
+        users (email, user_metadata)
+      `)
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load order ${orderId}: ${error.message}`)
+    }
+    if (!data) {
+      throw new OrderStatusError(OrderStatusErrorCode.NOT_FOUND, 'Order not found')
+    }
+
+    return data
+  }
+
+  private static async openReservationIds(order: any): Promise<string[]> {
+    const reservationIds = order.order_items
+      .map((item: any) => item.reservation_id)
+      .filter(Boolean)
+
+    if (reservationIds.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('stock_reservations')
+      .select('id')
+      .in('id', reservationIds)
+
+    if (error) {
+      throw new Error(`Failed to load reservations for order ${order.id}: ${error.message}`)
+    }
+
+    return (data || []).map(reservation => reservation.id)
+  }
+
+  private static async commitReservations(order: any) {
+    const reservationIds = await this.openReservationIds(order)
+    if (reservationIds.length === 0) return
+
+    const result = await InventoryService.commitReservedStock(reservationIds, order.id)
+    if (!result.success) {
+      throw new Error(`Failed to commit inventory for order ${order.id}: ${result.error}`)
+    }
+  }
+
+  private static async releaseReservations(order: any) {
+    const reservationIds = await this.openReservationIds(order)
+    if (reservationIds.length === 0) return
+
+    const result = await InventoryService.releaseReservations(reservationIds)
+    if (!result.success) {
+      throw new Error(`Failed to release reservations for order ${order.id}: ${result.error}`)
+    }
+  }
+
+  // Email failures are logged; the status change has already been saved
+  private static async notify(order: any, plan: TransitionPlan, note: string | null) {
+    const customerEmail = order.users?.email || order.customer_email
+    if (!customerEmail) return
+
+    const orderNumber = order.order_number || `#${order.id.slice(-8).toUpperCase()}`
+    const customerName = order.users?.user_metadata?.full_name || 'Customer'
+
+    try {
+      if (plan.email) {
+        await EmailService.sendOrderStatusUpdate({
+          status: plan.email,
+          orderNumber,
+          customerName,
+          customerEmail,
+          reason: plan.email === 'cancelled' ? note || order.failure_reason || undefined : undefined
+        })
+      }
+    } catch (error) {
+      console.error(`Error sending ${plan.email} email for order ${order.id}:`, error)
+    }
+  }
+}
+
+export default OrderStatusService
@@ -1,13 +1,31 @@
 import { supabase } from '@/lib/supabase/client'
 import { InventoryService } from '@/services/inventory'
-import type { Order, OrderItem, CheckoutData } from '@/types/order'
+import { PricingService, BASE_CURRENCY } from '@/services/pricing'
+import { OrderPricingService } from '@/services/order-pricing'
+import { planTransition, generateOrderNumber } from '@/lib/orders'
+import { trackingUrlFor } from '@/lib/carriers'
+import type { Order, OrderItem, CheckoutData, OrderShipment, OrderStatus, OrderStatusChange, OrderTracking, ShipmentTrackingEvent } from '@/types/order'
 import type { StockReservation } from '@/services/inventory'
+import type { Currency, LockedFxRate, OrderQuote, PricedTotals } from '@/types/pricing'
+import type { DiscountLine, Promotion } from '@/types/promotion'
 
 export class OrderService {
   static async createOrder(userId: string, checkoutData: CheckoutData, sessionId?: string): Promise<{ order: Order; reservations: StockReservation[] }> {
     const orderId = crypto.randomUUID()
 
     try {
+      // Usage limits can only be enforced by the server checkout, which redeems the code with the order
+      if (checkoutData.discountCode) {
+        throw new Error('Discount codes can only be used through checkout')
+      }
+
+      // Totals sent by the client are only a preview; recompute them from catalog prices and the tax/shipping rules
+      const { quote, lockedRate, priced } = await this.priceOrder(
+        checkoutData.items.map(item => ({ productId: item.product.id, quantity: item.quantity })),
+        { country: checkoutData.shippingAddress.country, region: checkoutData.shippingAddress.state },
+        { currency: checkoutData.currency, shippingRateId: checkoutData.shippingRateId }
+      )
+
       // 1. First, validate and reserve stock for all items
       const stockItems = checkoutData.items.map(item => ({
         productId: item.product.id,
@@ -37,11 +55,17 @@ export class OrderService {
           .insert({
             id: orderId,
             user_id: userId,
-            order_number: `SX-${Date.now().toString().slice(-8)}`,
-            subtotal: checkoutData.subtotal,
-            shipping_amount: checkoutData.shipping,
-            tax_amount: checkoutData.tax,
-            total_amount: checkoutData.total,
+            order_number: generateOrderNumber(),
+            subtotal: priced.subtotal,
+            shipping_amount: priced.shipping,
+            tax_amount: priced.tax,
+            total_amount: priced.total,
+            currency: lockedRate.currency,
+            fx_rate: lockedRate.rate,
+            fx_rate_id: lockedRate.rateId,
+            fx_locked_at: lockedRate.lockedAt,
+            shipping_rate_id: quote.shippingRateId,
+            tax_lines: quote.taxLines,
             status: 'pending',
             payment_status: 'pending',
             customer_notes: checkoutData.notes || null,
@@ -54,14 +78,14 @@ export class OrderService {
         if (orderError) throw orderError
 
         // 3. Create order items with product details
-        const orderItems = checkoutData.items.map(item => ({
+        const orderItems = checkoutData.items.map((item, index) => ({
           id: crypto.randomUUID(),
           order_id: orderId,
           product_id: item.product.id,
           size: item.size,
           quantity: item.quantity,
-          unit_price: item.product.price,
-          total_price: item.product.price * item.quantity,
+          unit_price: priced.unitPrices[index],
+          total_price: priced.unitPrices[index] * item.quantity,
           product_name: item.product.name,
           product_brand: item.product.brand,
           product_image_url: item.product.imageUrl,
@@ -109,7 +133,7 @@ export class OrderService {
         const order: Order = {
           id: orderId,
           userId,
-          items: checkoutData.items.map(item => ({
+          items: checkoutData.items.map((item, index) => ({
             id: crypto.randomUUID(),
             productId: item.product.id,
             productName: item.product.name,
@@ -117,13 +141,15 @@ export class OrderService {
             productImageUrl: item.product.imageUrl,
             size: item.size,
             quantity: item.quantity,
-            price: item.product.price,
-            totalPrice: item.product.price * item.quantity,
+            price: priced.unitPrices[index],
+            totalPrice: priced.unitPrices[index] * item.quantity,
           })),
-          subtotal: checkoutData.subtotal,
-          shipping: checkoutData.shipping,
-          tax: checkoutData.tax,
-          total: checkoutData.total,
+          subtotal: priced.subtotal,
+          shipping: priced.shipping,
+          tax: priced.tax,
+          total: priced.total,
+          currency: lockedRate.currency,
+          fxRate: lockedRate.rate,
           status: 'pending',
           shippingAddress: checkoutData.shippingAddress,
           paymentMethod: checkoutData.paymentMethod,
@@ -147,6 +173,32 @@ export class OrderService {
     }
   }
 
+  // Price order lines from the catalog, the promotion and the tax/shipping rules, then lock the
+  // exchange rate; the order is stored and charged in the buyer's currency
+  static async priceOrder(
+    items: Array<{ productId: string; quantity: number }>,
+    destination: { country: string; region?: string | null },
+    options: { currency?: Currency; shippingRateId?: string | null; promotion?: Promotion | null } = {}
+  ): Promise<{
+    quote: OrderQuote
+    lockedRate: LockedFxRate
+    priced: PricedTotals & { unitPrices: number[]; discountAmounts: number[]; lineDiscounts: number[] }
+  }> {
+    const quote = await OrderPricingService.quoteOrder(items, destination, options.shippingRateId, options.promotion)
+    const lockedRate = PricingService.lockRate(
+      options.currency || BASE_CURRENCY,
+      await PricingService.getRates({ fresh: true })
+    )
+    const priced = PricingService.convertTotals({
+      items: quote.lines,
+      shipping: quote.shipping,
+      tax: quote.tax,
+      discounts: quote.discountLines.map(line => line.amount)
+    }, lockedRate)
+
+    return { quote, lockedRate, priced }
+  }
+
   static async getUserOrders(userId: string): Promise<Order[]> {
     try {
       const { data, error } = await supabase
@@ -160,38 +212,15 @@ export class OrderService {
               brands (name),
               product_images (image_url, is_primary)
             )
-          )
+          ),
+          order_shipments (*, order_shipment_items (*), order_shipment_events (*))
         `)
         .eq('user_id', userId)
         .order('created_at', { ascending: false })
 
       if (error) throw error
 
-      // Transform to Order format
-      return (data || []).map(dbOrder => ({
-        id: dbOrder.id,
-        userId: dbOrder.user_id,
-        items: dbOrder.order_items.map((item: any) => ({
-          id: item.id,
-          productId: item.product_id,
-          productName: item.products?.name || 'Unknown Product',
-          productBrand: item.products?.brands?.name || 'Unknown Brand',
-          productImageUrl: item.products?.product_images?.find((img: any) => img.is_primary)?.image_url || '',
-          size: item.size,
-          quantity: item.quantity,
-          price: parseFloat(item.unit_price),
-          totalPrice: parseFloat(item.total_price),
-        })),
-        subtotal: parseFloat(dbOrder.subtotal),
-        shipping: parseFloat(dbOrder.shipping_amount || 0),
-        tax: parseFloat(dbOrder.tax_amount || 0),
-        total: parseFloat(dbOrder.total_amount),
-        status: dbOrder.status,
-        shippingAddress: null, // TODO: Load from addresses table
-        paymentMethod: { type: 'card', cardLast4: '****' }, // TODO: Store payment method info
-        createdAt: dbOrder.created_at,
-        updatedAt: dbOrder.updated_at,
-      }))
+      return (data || []).map(toOrder)
     } catch (error) {
       console.error('Failed to load orders:', error)
       return []
@@ -211,7 +240,8 @@ export class OrderService {
               brands (name),
               product_images (image_url, is_primary)
             )
-          )
+          ),
+          order_shipments (*, order_shipment_items (*), order_shipment_events (*))
         `)
         .eq('user_id', userId)
         .eq('id', orderId)
@@ -221,50 +251,44 @@ export class OrderService {
 
       if (!data) return null
 
-      // Transform to Order format
-      return {
-        id: data.id,
-        userId: data.user_id,
-        items: data.order_items.map((item: any) => ({
-          id: item.id,
-          productId: item.product_id,
-          productName: item.products?.name || 'Unknown Product',
-          productBrand: item.products?.brands?.name || 'Unknown Brand',
-          productImageUrl: item.products?.product_images?.find((img: any) => img.is_primary)?.image_url || '',
-          size: item.size,
-          quantity: item.quantity,
-          price: parseFloat(item.unit_price),
-          totalPrice: parseFloat(item.total_price),
-        })),
-        subtotal: parseFloat(data.subtotal),
-        shipping: parseFloat(data.shipping_amount || 0),
-        tax: parseFloat(data.tax_amount || 0),
-        total: parseFloat(data.total_amount),
-        status: data.status,
-        shippingAddress: null, // TODO: Load from addresses table
-        paymentMethod: { type: 'card', cardLast4: '****' }, // TODO: Store payment method info
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
-      }
+      return toOrder(data)
     } catch (error) {
       console.error('Failed to load order:', error)
       return null
     }
   }
 
+  // Customer-side changes; the state machine decides which are allowed (admins use OrderStatusService)
   static async updateOrderStatus(userId: string, orderId: string, status: Order['status']): Promise<boolean> {
     try {
-      const { error } = await supabase
+      const { data: current, error: loadError } = await supabase
+        .from('orders')
+        .select('status, payment_status')
+        .eq('user_id', userId)
+        .eq('id', orderId)
+        .single()
+
+      if (loadError) throw loadError
+
+      const plan = planTransition(
+        { status: current.status, paymentStatus: current.payment_status || 'pending' },
+        { status }
+      )
+
+      const { data, error } = await supabase
         .from('orders')
         .update({
           status,
+          status_changed_by: userId,
           updated_at: new Date().toISOString(),
         })
         .eq('user_id', userId)
         .eq('id', orderId)
+        .eq('status', plan.from.status)
+        .select('id')
 
       if (error) throw error
-      return true
+      return (data?.length || 0) > 0
     } catch (error) {
       console.error('Failed to update order:', error)
       return false
@@ -273,6 +297,18 @@ export class OrderService {
 
   static async cancelOrder(userId: string, orderId: string): Promise<boolean> {
     try {
+      const { data: current, error } = await supabase
+        .from('orders')
+        .select('status, payment_status')
+        .eq('user_id', userId)
+        .eq('id', orderId)
+        .single()
+
+      if (error) throw error
+
+      // Only unpaid, pending orders can be cancelled; paid ones are refunded instead
+      planTransition({ status: current.status, paymentStatus: current.payment_status || 'pending' }, { status: 'cancelled' })
+
       // Release any active reservations for this order
       await this.releaseOrderReservations(orderId)
 
@@ -283,11 +319,105 @@ export class OrderService {
     }
   }
 
+  /**
+   * The order's status timeline, oldest first. RLS limits it to the buyer's own orders.
+   */
+  static async getOrderHistory(orderId: string): Promise<OrderStatusChange[]> {
+    const { data, error } = await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return (data || []).map(toOrderStatusChange)
+  }
+
+  /**
+   * Carrier tracking for an order, built from the events stored by the shipment tracking poller.
+   * Updates from all shipments are merged, newest first.
+   */
+  static async trackOrder(orderId: string): Promise<OrderTracking> {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('status, tracking_number, order_shipments (*, order_shipment_events (*))')
+      .eq('id', orderId)
+      .single()
+
+    if (error) throw error
+
+    const shipments: OrderShipment[] = (data.order_shipments || [])
+      .map(toOrderShipment)
+      .sort((a: OrderShipment, b: OrderShipment) => a.shipmentNumber - b.shipmentNumber)
+    const multiple = shipments.length > 1
+
+    const updates = shipments
+      .flatMap(shipment => (shipment.events || []).map(event => ({
+        status: event.status,
+        timestamp: event.occurredAt,
+        location: event.location || undefined,
+        description: multiple ? `Shipment ${shipment.shipmentNumber}: ${event.description}` : event.description
+      })))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+    // The shipment still on its way arrives last
+    const pending = shipments.filter(shipment => shipment.status !== 'delivered')
+    const estimatedDelivery = pending
+      .map(shipment => shipment.estimatedDelivery)
+      .filter((date): date is string => !!date)
+      .sort()
+      .pop()
+
+    return {
+      status: data.status as OrderStatus,
+      trackingNumber: shipments.map(shipment => shipment.trackingNumber).join(', ') || data.tracking_number || undefined,
+      estimatedDelivery,
+      updates
+    }
+  }
+
+  // Ask for a refund on one of the signed-in buyer's orders; an admin reviews and issues it
+  static async requestRefund(orderId: string, reason: string): Promise<Order> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      throw new Error('Please sign in to request a refund')
+    }
+
+    if (!reason.trim()) {
+      throw new Error('Please tell us why you want a refund')
+    }
+
+    const { data, error } = await supabase
+      .from('orders')
+      .update({
+        refund_requested_at: new Date().toISOString(),
+        refund_request_reason: reason.trim(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', user.id)
+      .eq('id', orderId)
+      .in('payment_status', ['completed', 'partially_refunded'])
+      .select('id')
+
+    if (error) throw error
+    if (!data?.length) {
+      throw new Error('This order cannot be refunded')
+    }
+
+    const order = await this.getOrderById(user.id, orderId)
+    if (!order) {
+      throw new Error('Order not found')
+    }
+
+    return order
+  }
+
   static async getOrderStats(userId: string) {
     try {
       const { data, error } = await supabase
         .from('orders')
-        .select('status, total_amount')
+        .select('status, total_amount, fx_rate')
         .eq('user_id', userId)
 
       if (error) throw error
@@ -301,7 +431,8 @@ export class OrderService {
         shipped: orders.filter(o => o.status === 'shipped').length,
         delivered: orders.filter(o => o.status === 'delivered').length,
         cancelled: orders.filter(o => o.status === 'cancelled').length,
-        totalSpent: orders.reduce((sum, order) => sum + parseFloat(order.total_amount), 0),
+        // Orders are in different currencies; total spent is in the base currency
+        totalSpent: orders.reduce((sum, order) => sum + parseFloat(order.total_amount) / parseFloat(order.fx_rate || 1), 0),
       }
     } catch (error) {
       console.error('Failed to get order stats:', error)
@@ -319,50 +450,19 @@ export class OrderService {
 
   // Stock management methods for order processing
 
-  static async completeOrderPayment(orderId: string, paymentIntentId?: string): Promise<boolean> {
-    try {
-      console.log('Completing payment for order:', orderId)
-
-      // Get active reservations for this order
-      const { data: reservations, error: reservationError } = await supabase
-        .from('stock_reservations')
-        .select('id')
-        .eq('order_id', orderId)
-
-      if (reservationError) throw reservationError
-
-      if (reservations && reservations.length > 0) {
-        // Commit the reserved stock (move to actual inventory)
-        const reservationIds = reservations.map(r => r.id)
-        const result = await InventoryService.commitReservedStock(reservationIds, orderId)
-
-        if (!result.success) {
-          console.error('Failed to commit stock for order:', orderId, result.error)
-          throw new Error(result.error || 'Failed to commit stock')
-        }
-
-        console.log('Stock committed successfully for order:', orderId)
-      }
-
-      // Update order status to processing and payment to completed
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-          status: 'processing',
-          payment_status: 'completed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', orderId)
-
-      if (updateError) throw updateError
-
-      console.log('Order payment completed successfully:', orderId)
-      return true
-
-    } catch (error) {
-      console.error('Error completing order payment:', error)
-      return false
-    }
+  /**
+   * Whether a succeeded intent pays for the order: it must be the intent checkout created for it,
+   * charged for the order's card amount (the total less store credit) in the order's currency
+   */
+  static isOrderPaymentIntent(
+    order: { stripe_payment_intent_id: string | null; total_amount: number | string; store_credit_amount?: number | string | null; currency: string },
+    intent: { id: string; amount: number; currency: string }
+  ): boolean {
+    const cardAmount = Number(order.total_amount) - Number(order.store_credit_amount || 0)
+
+    return order.stripe_payment_intent_id === intent.id &&
+      order.currency.toLowerCase() === intent.currency.toLowerCase() &&
+      PricingService.toMinorUnits(cardAmount, order.currency) === intent.amount
   }
 
   static async failOrderPayment(orderId: string, reason?: string): Promise<boolean> {
@@ -488,4 +588,96 @@ export class OrderService {
       return []
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Order with its items and shipments, from an orders row selected with order_items (and products)
+ * and order_shipments
+ */
+export function toOrder(row: any): Order {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    orderNumber: row.order_number || undefined,
+    customerEmail: row.customer_email || undefined,
+    items: (row.order_items || []).map((item: any) => ({
+      id: item.id,
+      productId: item.product_id,
+      productName: item.products?.name || item.product_name || 'Unknown Product',
+      productBrand: item.products?.brands?.name || item.product_brand || 'Unknown Brand',
+      productImageUrl: item.products?.product_images?.find((img: any) => img.is_primary)?.image_url || item.product_image_url || '',
+      size: item.size,
+      quantity: item.quantity,
+      price: parseFloat(item.unit_price),
+      totalPrice: parseFloat(item.total_price),
+      refundedQuantity: item.refunded_quantity || 0,
+      shippedQuantity: item.shipped_quantity || 0,
+    })),
+    subtotal: parseFloat(row.subtotal),
+    shipping: parseFloat(row.shipping_amount || 0),
+    tax: parseFloat(row.tax_amount || 0),
+    discount: parseFloat(row.discount_amount || 0),
+    discountLines: (row.discount_lines || []) as DiscountLine[],
+    total: parseFloat(row.total_amount),
+    storeCredit: parseFloat(row.store_credit_amount || 0),
+    currency: row.currency || BASE_CURRENCY,
+    fxRate: parseFloat(row.fx_rate || 1),
+    status: row.status,
+    paymentStatus: row.payment_status,
+    refundedAmount: parseFloat(row.refunded_amount || 0),
+    trackingNumber: row.tracking_number || undefined,
+    shipments: (row.order_shipments || [])
+      .map(toOrderShipment)
+      .sort((a: OrderShipment, b: OrderShipment) => a.shipmentNumber - b.shipmentNumber),
+    shippingAddress: null, // TODO: Load from addresses table
+    paymentMethod: { type: 'card', cardLast4: '****' }, // TODO: Store payment method info
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+export function toOrderStatusChange(row: any): OrderStatusChange {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    fromPaymentStatus: row.from_payment_status,
+    toPaymentStatus: row.to_payment_status,
+    changedBy: row.changed_by,
+    note: row.note,
+    createdAt: row.created_at
+  }
+}
+
+export function toOrderShipment(row: any): OrderShipment {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    shipmentNumber: row.shipment_number,
+    carrier: row.carrier,
+    trackingNumber: row.tracking_number,
+    status: row.status,
+    items: (row.order_shipment_items || []).map((item: any) => ({
+      orderItemId: item.order_item_id,
+      quantity: item.quantity
+    })),
+    shippedAt: row.shipped_at,
+    deliveredAt: row.delivered_at,
+    carrierCode: row.carrier_code || null,
+    trackingUrl: trackingUrlFor(row.carrier_code || null, row.tracking_number),
+    trackingStatus: row.tracking_status || null,
+    estimatedDelivery: row.estimated_delivery || null,
+    stuckAt: row.stuck_at || null,
+    events: row.order_shipment_events
+      ? row.order_shipment_events
+          .map((event: any) => ({
+            status: event.status,
+            description: event.description,
+            location: event.location,
+            occurredAt: event.occurred_at
+          }))
+          .sort((a: ShipmentTrackingEvent, b: ShipmentTrackingEvent) => a.occurredAt.localeCompare(b.occurredAt))
+      : undefined
+  }
+}
@@ -1,183 +1,233 @@
-// Generic Payment Service (Custom payment implementation will be added later)
-import { OrderService } from '@/services/orders'
+import { PricingService, BASE_CURRENCY } from '@/services/pricing'
+import { getPaymentProvider, PaymentProviderError } from '@/lib/payments'
+import type { PaymentEvent, PaymentProvider, PaymentProviderName, ProviderPaymentIntent, ProviderRefund } from '@/lib/payments'
 
 export interface PaymentIntent {
   id: string
   amount: number
   currency: string
   status: string
+  clientSecret?: string | null
   metadata?: Record<string, string>
+  provider: PaymentProviderName
 }
 
 export interface CreatePaymentIntentRequest {
   amount: number
-  currency?: string
-  orderId: string
+  currency?: string // the order's currency; defaults to the base currency
+  orderId?: string
+  giftCardId?: string // gift card payments are not for an order
   userId?: string
-  metadata?: Record<string, string>
+  metadata?: Record<string, string> // extra labels; orderId and giftCardId only ever come from the fields above
 }
 
 export interface ProcessPaymentRequest {
   paymentIntentId: string
   paymentMethod: {
     type: 'card' | 'bank_transfer' | 'crypto'
-    details?: Record<string, any>
+    details?: Record<string, any> // card: { cardNumber } for the simulator or { token } for Stripe
   }
   return_url: string
 }
 
+export type PaymentOutcome = 'succeeded' | 'failed' | 'requires_action' | 'processing'
+
+export interface ProcessPaymentResult {
+  success: boolean
+  status: PaymentOutcome
+  orderId?: string
+  error?: string
+  errorCode?: string
+  nextAction?: ProviderPaymentIntent['nextAction']
+}
+
+function toPaymentIntent(intent: ProviderPaymentIntent, provider: PaymentProviderName): PaymentIntent {
+  return {
+    id: intent.id,
+    amount: intent.amount,
+    currency: intent.currency,
+    status: intent.status,
+    clientSecret: intent.clientSecret,
+    metadata: intent.metadata,
+    provider,
+  }
+}
+
+// Server-side: payments go through the configured PaymentProvider (Stripe or the local simulator)
 export class PaymentService {
-  // Mock payment processing - replace with your custom payment system
-  static async createPaymentIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent> {
+  private static subscribedProvider: PaymentProvider | null = null
+
+  // Active provider; events it delivers in-process settle orders the same way webhooks do
+  private static get provider(): PaymentProvider {
+    const provider = getPaymentProvider()
+    if (this.subscribedProvider !== provider) {
+      this.subscribedProvider = provider
+      provider.onEvent?.(event => this.handleEvent(event))
+    }
+    return provider
+  }
+
+  static async createPaymentIntent(request: CreatePaymentIntentRequest & { idempotencyKey?: string }): Promise<PaymentIntent> {
     try {
-      // This will be replaced with your custom payment system API
-      const mockPaymentIntent: PaymentIntent = {
-        id: `pi_mock_${request.orderId}`, // Include order ID in payment intent ID for easier tracking
-        amount: Math.round(request.amount * 100), // Convert to cents
-        currency: request.currency || 'eur',
-        status: 'requires_payment_method',
+      // Charge in the currency the order was priced in
+      const currency = (request.currency || BASE_CURRENCY).toLowerCase()
+
+      const { orderId: _orderId, giftCardId: _giftCardId, ...labels } = request.metadata || {}
+
+      const intent = await this.provider.createIntent({
+        amount: PricingService.toMinorUnits(request.amount, currency),
+        currency,
         metadata: {
-          ...request.metadata,
-          orderId: request.orderId,
-          userId: request.userId
+          ...labels,
+          orderId: request.orderId || '',
+          userId: request.userId || '',
+          ...(request.giftCardId ? { giftCardId: request.giftCardId } : {}),
         },
-      }
+        idempotencyKey: request.idempotencyKey,
+      })
 
-      return mockPaymentIntent
+      return toPaymentIntent(intent, this.provider.name)
     } catch (error) {
       console.error('Error creating payment intent:', error)
       throw error
     }
   }
 
-  static async processPayment(request: ProcessPaymentRequest): Promise<{ success: boolean; error?: string; orderId?: string }> {
+  // Confirm the payment and settle the order when the outcome is known
+  static async processPayment(request: ProcessPaymentRequest): Promise<ProcessPaymentResult> {
+    let existing: ProviderPaymentIntent | undefined
+    let intent: ProviderPaymentIntent
+
     try {
-      // Mock payment processing - replace with your custom payment system
-      console.log('Processing payment:', request)
-
-      // Simulate processing time
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      // Extract order ID from payment intent ID (format: pi_mock_{orderId})
-      const orderId = request.paymentIntentId.startsWith('pi_mock_')
-        ? request.paymentIntentId.replace('pi_mock_', '')
-        : undefined
-
-      // Simulate random payment outcomes for testing
-      const shouldSucceed = Math.random() > 0.1 // 90% success rate
-
-      if (shouldSucceed) {
-        // Complete the order payment and commit stock
-        if (orderId) {
-          const orderCompleted = await OrderService.completeOrderPayment(orderId, request.paymentIntentId)
-          if (!orderCompleted) {
-            throw new Error('Payment succeeded but order completion failed')
-          }
-        }
-
-        return { success: true, orderId }
-      } else {
-        // Fail the order payment and release stock
-        if (orderId) {
-          await OrderService.failOrderPayment(orderId, 'Payment declined by processor')
-        }
-
-        return {
-          success: false,
-          error: 'Payment was declined by your bank or card issuer',
-          orderId
-        }
+      if (request.paymentMethod.type !== 'card') {
+        throw new PaymentProviderError(`${request.paymentMethod.type} payments are not supported`, 'unsupported_payment_method', 400)
       }
+
+      existing = await this.provider.retrieveIntent(request.paymentIntentId)
+
+      intent = await this.provider.confirmIntent(request.paymentIntentId, {
+        paymentMethod: {
+          type: 'card',
+          cardNumber: request.paymentMethod.details?.cardNumber,
+          token: request.paymentMethod.details?.token,
+        },
+        returnUrl: request.return_url,
+      })
     } catch (error) {
       console.error('Error processing payment:', error)
 
-      // Extract order ID for cleanup
-      const orderId = request.paymentIntentId.startsWith('pi_mock_')
-        ? request.paymentIntentId.replace('pi_mock_', '')
-        : undefined
-
-      // Ensure stock is released on payment processing errors
-      if (orderId) {
-        await OrderService.failOrderPayment(orderId, 'Payment processing error')
+      // The provider refused the request, so no money moved: release the stock. A repeated confirm, or an
+      // error where the outcome is unknown (network, provider outage), leaves the order to the payment events
+      const rejected = error instanceof PaymentProviderError &&
+        error.statusCode < 500 &&
+        error.code !== 'payment_intent_unexpected_state'
+      if (existing && rejected) {
+        const { StripeWebhookService } = await import('@/services/stripe-webhooks')
+        await StripeWebhookService.handlePaymentFailed({
+          ...existing,
+          lastError: { code: error.code, message: 'Payment processing error' },
+        })
       }
 
       return {
         success: false,
+        status: 'failed',
         error: error instanceof Error ? error.message : 'Payment processing failed',
-        orderId
+        errorCode: error instanceof PaymentProviderError ? error.code : undefined,
+        orderId: existing?.metadata.orderId || undefined
       }
     }
-  }
 
-  static async retrievePaymentIntent(paymentIntentId: string): Promise<PaymentIntent> {
     try {
-      // Mock retrieval - replace with your custom payment system
-      const mockPaymentIntent: PaymentIntent = {
-        id: paymentIntentId,
-        amount: 0,
-        currency: 'eur',
-        status: 'succeeded',
-      }
-
-      return mockPaymentIntent
+      return await this.settle(intent)
     } catch (error) {
-      console.error('Error retrieving payment intent:', error)
-      throw error
+      // The card was charged: keep the order and its stock. The payment_intent.succeeded webhook completes it
+      // through the retrying queue
+      console.error(`Error settling payment ${intent.id}; leaving it to the payment events:`, error)
+      return { success: false, status: 'processing', orderId: intent.metadata.orderId || undefined }
     }
   }
 
-  static formatPrice(amount: number, currency = 'EUR'): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency.toUpperCase(),
-      minimumFractionDigits: 2,
-    }).format(amount)
+  // Finish a 3D Secure challenge run by the provider (simulator); Stripe completes it in the browser
+  static async authenticatePayment(paymentIntentId: string, approve: boolean): Promise<ProcessPaymentResult> {
+    const provider = this.provider
+    if (!provider.resolveAction) {
+      throw new PaymentProviderError(`${provider.name} payments are authenticated by the card issuer`, 'unsupported', 400)
+    }
+
+    return this.settle(await provider.resolveAction(paymentIntentId, approve))
   }
 
-  // Mock checkout session for compatibility
-  static async createCheckoutSession(request: {
-    line_items: Array<{
-      price_data: {
-        currency: string
-        product_data: {
-          name: string
-          description?: string
-          images?: string[]
-        }
-        unit_amount: number
-      }
-      quantity: number
-    }>
-    success_url: string
-    cancel_url: string
-    orderId: string
-    userId?: string
-  }): Promise<{ sessionId: string; url: string }> {
-    try {
-      // Mock checkout session - replace with your custom payment system
-      const mockSession = {
-        sessionId: `cs_mock_${Date.now()}`,
-        url: request.success_url.replace('{CHECKOUT_SESSION_ID}', `cs_mock_${Date.now()}`)
+  // Settle orders for payment outcomes that arrive later (webhooks, delayed simulator results). Refunds
+  // issued through RefundService are already recorded; the handler picks up any made elsewhere
+  static async handleEvent(event: PaymentEvent): Promise<void> {
+    const { StripeWebhookService } = await import('@/services/stripe-webhooks')
+    await StripeWebhookService.handle(event)
+  }
+
+  // Orders move through OrderStatusService on the service-role client, exactly as the payment webhooks
+  // move them. Loaded lazily: the webhook handlers depend on this service through refunds and gift cards
+  private static async settle(intent: ProviderPaymentIntent): Promise<ProcessPaymentResult> {
+    const orderId = intent.metadata.orderId || undefined
+    const { StripeWebhookService } = await import('@/services/stripe-webhooks')
+
+    if (intent.status === 'succeeded') {
+      if (!(await StripeWebhookService.handlePaymentSucceeded(intent))) {
+        return { success: false, status: 'failed', error: 'This payment does not match the order', errorCode: 'payment_mismatch', orderId }
       }
+      return { success: true, status: 'succeeded', orderId }
+    }
 
-      return mockSession
-    } catch (error) {
-      console.error('Error creating checkout session:', error)
-      throw error
+    if (intent.status === 'requires_action') {
+      return { success: false, status: 'requires_action', orderId, nextAction: intent.nextAction }
+    }
+
+    if (intent.status === 'processing') {
+      // The outcome arrives later as an event
+      return { success: false, status: 'processing', orderId }
+    }
+
+    // Declined or canceled: fail the order payment and release stock, or void the gift card
+    const error = intent.lastError?.message || 'Payment was declined by your bank or card issuer'
+    await StripeWebhookService.handlePaymentFailed(intent)
+
+    return {
+      success: false,
+      status: 'failed',
+      error,
+      errorCode: intent.lastError?.code,
+      orderId
     }
   }
 
-  // Mock redirect function
-  static async redirectToCheckout(sessionId: string): Promise<void> {
-    // This will be replaced with your custom payment system redirect
-    console.log('Redirecting to checkout:', sessionId)
+  // Refund part or all of a succeeded payment; the amount is in the payment's currency
+  static async refundPayment(
+    paymentIntentId: string,
+    amount: number,
+    currency: string,
+    options: { reason?: string; metadata?: Record<string, string>; idempotencyKey?: string } = {}
+  ): Promise<ProviderRefund> {
+    return this.provider.refundIntent({
+      intentId: paymentIntentId,
+      amount: PricingService.toMinorUnits(amount, currency),
+      reason: options.reason,
+      metadata: options.metadata,
+      idempotencyKey: options.idempotencyKey,
+    })
+  }
 
-    // For now, just show a mock success
-    alert('Mock Payment: Order processed successfully! (Replace with your payment system)')
+  static async retrievePaymentIntent(paymentIntentId: string): Promise<PaymentIntent> {
+    try {
+      return toPaymentIntent(await this.provider.retrieveIntent(paymentIntentId), this.provider.name)
+    } catch (error) {
+      console.error('Error retrieving payment intent:', error)
+      throw error
+    }
+  }
 
-    // Redirect to success page
-    window.location.href = '/order-success?session_id=' + sessionId
+  static formatPrice(amount: number, currency: string = BASE_CURRENCY): string {
+    return PricingService.formatPrice(amount, currency)
   }
 }
 
-export default PaymentService
\ No newline at end of file
+export default PaymentService
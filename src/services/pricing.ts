@@ -0,0 +1,166 @@
+import { supabase } from '@/lib/supabase/client'
+import { spreadDiscount } from '@/lib/promotions'
+import type { Currency, FxRate, FxRateTable, LockedFxRate, PricedTotals } from '@/types/pricing'
+
+// Catalog, cart and stock prices are stored in the base currency
+export const BASE_CURRENCY: Currency = 'EUR'
+
+export const SUPPORTED_CURRENCIES: Currency[] = ['EUR', 'USD', 'GBP', 'CAD', 'AUD', 'JPY']
+
+// Currencies Stripe charges without a minor unit
+const ZERO_DECIMAL_CURRENCIES: Currency[] = ['JPY']
+
+const RATES_TTL = 5 * 60 * 1000
+
+export class PricingService {
+  private static cachedRates: { table: FxRateTable; fetchedAt: number } | null = null
+  private static pendingRates: Promise<FxRateTable> | null = null
+
+  // Latest stored rate per currency; the base currency is always 1
+  static async getRates(options: { fresh?: boolean } = {}): Promise<FxRateTable> {
+    if (!options.fresh && this.cachedRates && Date.now() - this.cachedRates.fetchedAt < RATES_TTL) {
+      return this.cachedRates.table
+    }
+
+    // Share one request between the price components rendering at the same time
+    if (!options.fresh && this.pendingRates) {
+      return this.pendingRates
+    }
+
+    const request = this.fetchRates()
+    this.pendingRates = request
+
+    try {
+      const table = await request
+      this.cachedRates = { table, fetchedAt: Date.now() }
+      return table
+    } finally {
+      if (this.pendingRates === request) this.pendingRates = null
+    }
+  }
+
+  private static async fetchRates(): Promise<FxRateTable> {
+    const { data, error } = await supabase
+      .from('latest_fx_rates')
+      .select('*')
+      .eq('base_currency', BASE_CURRENCY)
+
+    if (error) throw new Error(`Failed to load FX rates: ${error.message}`)
+
+    return this.buildRateTable((data || []) as FxRate[])
+  }
+
+  static buildRateTable(rows: FxRate[]): FxRateTable {
+    const table: FxRateTable = {
+      base: BASE_CURRENCY,
+      rates: { [BASE_CURRENCY]: { id: null, rate: 1, effectiveAt: new Date(0).toISOString() } }
+    }
+
+    rows
+      .filter(row => row.base_currency === BASE_CURRENCY)
+      .forEach(row => {
+        const current = table.rates[row.quote_currency]
+        if (!current || current.effectiveAt < row.effective_at) {
+          table.rates[row.quote_currency] = {
+            id: row.id,
+            rate: Number(row.rate),
+            effectiveAt: row.effective_at
+          }
+        }
+      })
+
+    return table
+  }
+
+  static isSupportedCurrency(currency: string): currency is Currency {
+    return SUPPORTED_CURRENCIES.includes(currency as Currency)
+  }
+
+  // Rate to price an order with; throws when the currency has no stored rate
+  static lockRate(currency: Currency, table: FxRateTable): LockedFxRate {
+    const entry = table.rates[currency]
+    if (!entry) {
+      throw new Error(`No exchange rate available for ${currency}`)
+    }
+
+    return {
+      currency,
+      rate: entry.rate,
+      rateId: entry.id,
+      lockedAt: new Date().toISOString()
+    }
+  }
+
+  // Convert a base-currency amount, rounded to the currency's smallest unit
+  static convert(amount: number, rate: number, currency: Currency): number {
+    return this.round(amount * rate, currency)
+  }
+
+  static round(amount: number, currency: Currency): number {
+    const factor = ZERO_DECIMAL_CURRENCIES.includes(currency) ? 1 : 100
+    return Math.round(amount * factor) / factor
+  }
+
+  // Amount in the smallest currency unit, as Stripe expects it
+  static toMinorUnits(amount: number, currency: string): number {
+    const zeroDecimal = ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase() as Currency)
+    return Math.round(zeroDecimal ? amount : amount * 100)
+  }
+
+  static fromMinorUnits(amount: number, currency: string): number {
+    const zeroDecimal = ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase() as Currency)
+    return zeroDecimal ? amount : amount / 100
+  }
+
+  // Convert base-currency order totals at a locked rate; lines are converted before summing, and the
+  // converted item discount is split over the lines like the base one so refunds can return each line's share
+  static convertTotals(
+    base: {
+      items: Array<{ price: number; quantity: number; discount?: number }>
+      shipping: number
+      tax: number
+      discounts?: number[]
+    },
+    locked: LockedFxRate
+  ): PricedTotals & { unitPrices: number[]; discountAmounts: number[]; lineDiscounts: number[] } {
+    const unitPrices = base.items.map(item => this.convert(item.price, locked.rate, locked.currency))
+    const subtotal = this.round(
+      unitPrices.reduce((sum, price, index) => sum + price * base.items[index].quantity, 0),
+      locked.currency
+    )
+    const shipping = this.convert(base.shipping, locked.rate, locked.currency)
+    const tax = this.convert(base.tax, locked.rate, locked.currency)
+    const discountAmounts = (base.discounts || []).map(amount => this.convert(amount, locked.rate, locked.currency))
+    const discount = this.round(discountAmounts.reduce((sum, amount) => sum + amount, 0), locked.currency)
+    const baseLineDiscounts = base.items.map(item => item.discount || 0)
+    const lineDiscounts = spreadDiscount(
+      this.convert(baseLineDiscounts.reduce((sum, amount) => sum + amount, 0), locked.rate, locked.currency),
+      baseLineDiscounts,
+      amount => this.round(amount, locked.currency)
+    )
+
+    return {
+      currency: locked.currency,
+      subtotal,
+      shipping,
+      tax,
+      discount,
+      total: this.round(subtotal + shipping - discount + tax, locked.currency),
+      unitPrices,
+      discountAmounts,
+      lineDiscounts
+    }
+  }
+
+  static formatPrice(amount: number, currency: string = BASE_CURRENCY): string {
+    const zeroDecimal = ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase() as Currency)
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+      minimumFractionDigits: zeroDecimal ? 0 : 2,
+      maximumFractionDigits: zeroDecimal ? 0 : 2,
+    }).format(amount)
+  }
+}
+
+export default PricingService
@@ -1,5 +1,6 @@
 import { supabase } from '@/lib/supabase/client'
 import type { DBProduct } from '@/types/database'
+import { canonicalSizesFor, compareSizes, type SizeSystem } from '@/lib/sizing'
 
 interface CacheEntry<T> {
   data: T
@@ -77,6 +78,7 @@ export interface Product {
   imageUrl: string
   description?: string
   category: string
+  gender?: string
   sizes: string[]
   stockCount: number
   createdAt: string
@@ -88,6 +90,7 @@ export interface ProductFilters {
   minPrice?: number
   maxPrice?: number
   sizes?: string[]
+  sizeSystem?: SizeSystem
   inStock?: boolean
 }
 
@@ -202,6 +205,7 @@ export class ProductService {
         filters.maxPrice,
         filters.inStock,
         filters.sizes?.sort().join(','),
+        filters.sizeSystem,
         sort.field,
         sort.direction
       ])
@@ -257,7 +261,7 @@ export class ProductService {
       }
 
       if (filters.sizes && filters.sizes.length > 0) {
-        query = query.in('product_stock.size', filters.sizes)
+        query = query.in('product_stock.size', canonicalSizesFor(filters.sizes, filters.sizeSystem))
       }
 
       // Apply sorting
@@ -439,7 +443,7 @@ export class ProductService {
     }
 
     if (filters.sizes && filters.sizes.length > 0) {
-      searchQuery = searchQuery.in('product_stock.size', filters.sizes)
+      searchQuery = searchQuery.in('product_stock.size', canonicalSizesFor(filters.sizes, filters.sizeSystem))
     }
 
     // Apply sorting
@@ -484,7 +488,7 @@ export class ProductService {
     const availableSizes = stockEntries
       .filter((entry: any) => (entry.quantity - (entry.reserved_quantity || 0)) > 0)
       .map((entry: any) => entry.size)
-      .sort()
+      .sort(compareSizes)
 
     // Get primary image or first available image
     const images = dbProduct.product_images || []
@@ -524,6 +528,7 @@ export class ProductService {
       imageUrl,
       description: dbProduct.description,
       category: 'Sneakers', // Could be enhanced with actual category data
+      gender: dbProduct.gender,
       sizes: availableSizes,
       stockCount: totalStock,
       createdAt: dbProduct.created_at
@@ -0,0 +1,236 @@
+import { supabase } from '@/lib/supabase/server'
+import { OrderPricingService } from '@/services/order-pricing'
+import { PromotionError, checkPromotionWindow, normalizePromotionCode } from '@/lib/promotions'
+import type { PromotionErrorCode } from '@/lib/promotions'
+import type { CartDiscount, Promotion, PromotionType, PromotionWithUsage } from '@/types/promotion'
+
+// Who is using a code; per-buyer limits match either the account or the email
+export interface PromotionBuyer {
+  userId?: string | null
+  email?: string | null
+}
+
+const PROMOTION_TYPES: PromotionType[] = ['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y']
+
+// Columns an admin may set
+const PROMOTION_FIELDS: Array<keyof Promotion> = [
+  'code', 'name', 'description', 'type', 'value', 'buy_quantity', 'get_quantity',
+  'brand_ids', 'category_ids', 'product_ids', 'min_subtotal', 'usage_limit', 'usage_limit_per_user',
+  'starts_at', 'ends_at', 'is_active'
+]
+
+// Hints raised by place_checkout_order when a code can no longer be redeemed
+export const PROMOTION_RPC_ERRORS: Record<string, PromotionErrorCode> = {
+  promotion_unavailable: 'NOT_FOUND',
+  promotion_usage_limit: 'USAGE_LIMIT',
+  promotion_buyer_usage_limit: 'BUYER_USAGE_LIMIT'
+}
+
+/**
+ * Discount codes. A code is looked up and its usage limits checked here; the pricing of the order
+ * decides whether it applies to the items (see lib/promotions), and place_checkout_order redeems it
+ * with the order after checking the limits again.
+ */
+export class PromotionService {
+  /**
+   * The live promotion behind a code, provided it has uses left overall and for this buyer
+   */
+  static async findByCode(code: string, buyer: PromotionBuyer = {}): Promise<Promotion> {
+    const normalized = normalizePromotionCode(code || '')
+    if (!normalized) {
+      throw new PromotionError('NOT_FOUND', 'Please enter a discount code')
+    }
+
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .eq('code', normalized)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load promotion ${normalized}: ${error.message}`)
+    }
+    if (!data) {
+      throw new PromotionError('NOT_FOUND', 'This discount code is not valid')
+    }
+
+    const promotion = this.toPromotion(data)
+    checkPromotionWindow(promotion)
+
+    if (promotion.usage_limit !== null || promotion.usage_limit_per_user !== null) {
+      const usage = await this.getUsage(promotion.id, buyer)
+
+      if (promotion.usage_limit !== null && usage.total >= promotion.usage_limit) {
+        throw new PromotionError('USAGE_LIMIT', 'This discount code has been fully redeemed')
+      }
+      if (promotion.usage_limit_per_user !== null && usage.byBuyer >= promotion.usage_limit_per_user) {
+        throw new PromotionError('BUYER_USAGE_LIMIT', 'You have already used this discount code')
+      }
+    }
+
+    return promotion
+  }
+
+  /**
+   * Apply a code to cart lines before checkout; the discount is priced again when the order is placed
+   */
+  static async previewDiscount(
+    code: string,
+    items: Array<{ productId: string; quantity: number }>,
+    buyer: PromotionBuyer = {}
+  ): Promise<CartDiscount> {
+    const promotion = await this.findByCode(code, buyer)
+    const applied = await OrderPricingService.previewPromotion(items, promotion)
+
+    return {
+      code: promotion.code,
+      name: promotion.name,
+      type: promotion.type,
+      amount: applied.itemDiscount,
+      freeShipping: applied.freeShipping
+    }
+  }
+
+  static async getUsage(promotionId: string, buyer: PromotionBuyer = {}): Promise<{ total: number; byBuyer: number }> {
+    const { data, error } = await supabase.rpc('promotion_usage', {
+      p_promotion_id: promotionId,
+      p_user_id: buyer.userId || null,
+      p_email: buyer.email || null
+    })
+
+    if (error) {
+      throw new Error(`Failed to load promotion usage: ${error.message}`)
+    }
+
+    return { total: Number(data?.total || 0), byBuyer: Number(data?.by_buyer || 0) }
+  }
+
+  /**
+   * Every promotion, newest first, with the number of orders that used it
+   */
+  static async listPromotions(): Promise<PromotionWithUsage[]> {
+    const [promotions, redemptions] = await Promise.all([
+      supabase.from('promotions').select('*').order('created_at', { ascending: false }),
+      supabase.from('promotion_redemptions').select('promotion_id, orders!inner(status)').neq('orders.status', 'cancelled')
+    ])
+
+    const error = promotions.error || redemptions.error
+    if (error) {
+      throw new Error(`Failed to load promotions: ${error.message}`)
+    }
+
+    const used = new Map<string, number>()
+    for (const redemption of redemptions.data || []) {
+      used.set(redemption.promotion_id, (used.get(redemption.promotion_id) || 0) + 1)
+    }
+
+    return (promotions.data || []).map(row => ({
+      ...this.toPromotion(row),
+      times_used: used.get(row.id) || 0
+    }))
+  }
+
+  /**
+   * Create a promotion, or update it when `id` is given. Returns a validation message instead of
+   * saving when the rule is incomplete.
+   */
+  static async savePromotion(
+    input: Partial<Promotion> & { id?: string },
+    adminId: string
+  ): Promise<{ promotion?: Promotion; error?: string }> {
+    const values: Record<string, any> = {}
+    for (const field of PROMOTION_FIELDS) {
+      if (input[field] !== undefined) values[field] = input[field]
+    }
+    if (typeof values.code === 'string') {
+      values.code = normalizePromotionCode(values.code)
+    }
+
+    const validationError = this.validate(values, !input.id)
+    if (validationError) {
+      return { error: validationError }
+    }
+
+    const query = input.id
+      ? supabase.from('promotions').update({ ...values, updated_at: new Date().toISOString() }).eq('id', input.id)
+      : supabase.from('promotions').insert({ ...values, created_by: adminId })
+
+    const { data, error } = await query.select().single()
+    if (error) {
+      if (error.code === '23505') {
+        return { error: `A promotion with the code ${values.code} already exists` }
+      }
+      throw new Error(`Failed to save promotion: ${error.message}`)
+    }
+
+    return { promotion: this.toPromotion(data) }
+  }
+
+  /**
+   * Promotions are switched off rather than removed so past orders keep their redemptions
+   */
+  static async deactivatePromotion(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('promotions')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to deactivate promotion: ${error.message}`)
+    }
+  }
+
+  static validate(values: Record<string, any>, creating: boolean): string | null {
+    if (creating && (!values.code || !values.name || !values.type)) {
+      return 'A promotion needs a code, a name and a type'
+    }
+    if (values.code !== undefined && !/^[A-Z0-9_-]{3,32}$/.test(values.code)) {
+      return 'Codes are 3 to 32 letters, digits, dashes or underscores'
+    }
+    if (values.type !== undefined && !PROMOTION_TYPES.includes(values.type)) {
+      return `type must be one of ${PROMOTION_TYPES.join(', ')}`
+    }
+    if (values.value !== undefined && (typeof values.value !== 'number' || values.value < 0)) {
+      return 'value must be a non-negative number'
+    }
+    if ((values.type === 'percentage' || values.type === 'buy_x_get_y') && (values.value <= 0 || values.value > 100)) {
+      return 'Percentages must be between 0 and 100'
+    }
+    if (values.type === 'fixed_amount' && !(values.value > 0)) {
+      return 'A fixed amount discount needs an amount'
+    }
+    if (values.type === 'buy_x_get_y' && !(values.buy_quantity >= 1 && values.get_quantity >= 1)) {
+      return 'Buy X get Y needs both quantities'
+    }
+    for (const field of ['buy_quantity', 'get_quantity', 'usage_limit', 'usage_limit_per_user']) {
+      if (values[field] != null && (!Number.isInteger(values[field]) || values[field] < 1)) {
+        return `${field} must be a positive whole number`
+      }
+    }
+    if (values.min_subtotal != null && (typeof values.min_subtotal !== 'number' || values.min_subtotal < 0)) {
+      return 'min_subtotal must be a non-negative number'
+    }
+    for (const field of ['brand_ids', 'category_ids', 'product_ids']) {
+      if (values[field] !== undefined && (!Array.isArray(values[field]) || values[field].some((id: unknown) => typeof id !== 'string'))) {
+        return `${field} must be a list of ids`
+      }
+    }
+    if (values.starts_at && values.ends_at && Date.parse(values.ends_at) <= Date.parse(values.starts_at)) {
+      return 'The end date must be after the start date'
+    }
+    return null
+  }
+
+  private static toPromotion(row: any): Promotion {
+    return {
+      ...row,
+      value: Number(row.value),
+      min_subtotal: row.min_subtotal === null ? null : Number(row.min_subtotal),
+      brand_ids: row.brand_ids || [],
+      category_ids: row.category_ids || [],
+      product_ids: row.product_ids || []
+    }
+  }
+}
+
+export default PromotionService
@@ -0,0 +1,625 @@
+import { supabase } from '@/lib/supabase/server'
+import { AuditLogger } from '@/lib/monitoring/audit'
+import {
+  DEFAULT_CLAIM_MINUTES,
+  MAX_CLAIM_MINUTES,
+  MIN_CLAIM_MINUTES,
+  drawOrder,
+  generateSeed,
+  rafflePhase,
+  seedCommitment,
+  type RafflePhase
+} from '@/lib/raffles'
+import { formatSize, toCanonicalSize } from '@/lib/sizing'
+import { sellingPrice } from '@/lib/watchlist'
+import { EmailService } from '@/services/email/EmailService'
+import { BASE_CURRENCY } from '@/services/pricing'
+import type {
+  PublicRaffle,
+  Raffle,
+  RaffleClaim,
+  RaffleEntry,
+  RaffleEntryStatus,
+  RaffleSummary,
+  RaffleWin,
+  ReleaseMode
+} from '@/types/raffle'
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || ''
+
+export interface RaffleScheduleInput {
+  productId?: string
+  entryOpensAt?: string
+  entryClosesAt?: string
+  claimMinutes?: number
+}
+
+export interface RaffleEntryInput {
+  raffleId?: string
+  size?: string
+}
+
+// Entries are closed by the user, or by the claim running out
+type ClosedEntryStatus = 'withdrawn' | 'expired'
+
+type PassedEntry = Pick<RaffleEntry, 'id' | 'raffle_id' | 'size'>
+
+/**
+ * Raffle releases. Admins schedule a raffle for a product, which puts the product in raffle mode, and
+ * draw it once entries close: the order comes from the raffle's seed (see @/lib/raffles) and
+ * award_raffle_entries holds a unit for each winner while stock lasts. Winners pay from their claim
+ * page before the claim expires; spots that are not claimed roll down to the next alternate.
+ */
+export class RaffleService {
+  /**
+   * A product's raffles, newest first, with entry counts per size. Seeds stay hidden here too until drawn.
+   */
+  static async listForProduct(productId: string): Promise<RaffleSummary[]> {
+    const { data, error } = await supabase
+      .from('raffles')
+      .select('*, raffle_entries (size, status)')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw new Error(`Failed to load raffles: ${error.message}`)
+
+    return (data || []).map((row: any) => {
+      const { raffle_entries: entries, ...raffle } = row
+      const counts: RaffleSummary['entries'] = {}
+      for (const entry of entries || []) {
+        const sizeCounts = counts[entry.size] || (counts[entry.size] = {})
+        sizeCounts[entry.status as RaffleEntryStatus] = (sizeCounts[entry.status as RaffleEntryStatus] || 0) + 1
+      }
+      return { ...(raffle as Raffle), seed: raffle.status === 'drawn' ? raffle.seed : null, entries: counts }
+    })
+  }
+
+  /**
+   * Schedule a raffle and switch the product to raffle mode. The seed is chosen now and only its
+   * commitment is shown until the draw.
+   */
+  static async schedule(adminId: string, input: RaffleScheduleInput): Promise<{ raffle?: Raffle; error?: string }> {
+    const validationError = this.validateSchedule(input)
+    if (validationError) {
+      return { error: validationError }
+    }
+
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id')
+      .eq('id', input.productId!)
+      .maybeSingle()
+
+    if (productError) throw new Error(`Failed to load product: ${productError.message}`)
+    if (!product) {
+      return { error: 'Product not found' }
+    }
+
+    const seed = generateSeed()
+    const { data, error } = await supabase
+      .from('raffles')
+      .insert({
+        product_id: product.id,
+        entry_opens_at: new Date(input.entryOpensAt!).toISOString(),
+        entry_closes_at: new Date(input.entryClosesAt!).toISOString(),
+        claim_minutes: input.claimMinutes ?? DEFAULT_CLAIM_MINUTES,
+        seed,
+        seed_commitment: seedCommitment(seed),
+        created_by: adminId
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return { error: 'This product already has a raffle waiting to be drawn' }
+      }
+      throw new Error(`Failed to schedule raffle: ${error.message}`)
+    }
+
+    const modeError = await this.setReleaseMode(product.id, 'raffle')
+    if (modeError.error) throw new Error(modeError.error)
+
+    return { raffle: data }
+  }
+
+  /**
+   * Cancel a raffle that has not been drawn; its entries are withdrawn
+   */
+  static async cancel(id: string): Promise<{ error?: string }> {
+    const { data, error } = await supabase
+      .from('raffles')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'scheduled')
+      .select('id')
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to cancel raffle: ${error.message}`)
+    if (!data) {
+      return { error: 'Only a raffle that has not been drawn can be cancelled' }
+    }
+
+    const { error: entriesError } = await supabase
+      .from('raffle_entries')
+      .update({ status: 'withdrawn', updated_at: new Date().toISOString() })
+      .eq('raffle_id', id)
+      .eq('status', 'entered')
+
+    if (entriesError) throw new Error(`Failed to withdraw raffle entries: ${entriesError.message}`)
+    return {}
+  }
+
+  /**
+   * Sell a product first come, first served again, or only through raffles
+   */
+  static async setReleaseMode(productId: string, mode: ReleaseMode): Promise<{ error?: string }> {
+    if (mode !== 'standard' && mode !== 'raffle') {
+      return { error: 'Release mode must be standard or raffle' }
+    }
+
+    if (mode === 'standard') {
+      const { count, error } = await supabase
+        .from('raffles')
+        .select('id', { count: 'exact', head: true })
+        .eq('product_id', productId)
+        .eq('status', 'scheduled')
+
+      if (error) throw new Error(`Failed to load raffles: ${error.message}`)
+      if (count) {
+        return { error: 'Draw or cancel the scheduled raffle first' }
+      }
+    }
+
+    const { error } = await supabase
+      .from('products')
+      .update({ release_mode: mode })
+      .eq('id', productId)
+
+    if (error) throw new Error(`Failed to update release mode: ${error.message}`)
+    return {}
+  }
+
+  /**
+   * Draw a closed raffle: rank each size's entries from the seed, award the available stock in that
+   * order and record the whole result, seed included, in the audit log
+   */
+  static async draw(adminId: string, id: string): Promise<{ wins?: number; alternates?: number; error?: string }> {
+    const { data: raffle, error } = await supabase
+      .from('raffles')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load raffle: ${error.message}`)
+    if (!raffle) {
+      return { error: 'Raffle not found' }
+    }
+
+    const phase = rafflePhase(raffle)
+    if (phase !== 'closed') {
+      return { error: phase === 'upcoming' || phase === 'open' ? 'Entries are still open' : 'This raffle cannot be drawn' }
+    }
+
+    const { data: entries, error: entriesError } = await supabase
+      .from('raffle_entries')
+      .select('id, user_id, size')
+      .eq('raffle_id', id)
+      .eq('status', 'entered')
+
+    if (entriesError) throw new Error(`Failed to load raffle entries: ${entriesError.message}`)
+
+    const order = drawOrder(raffle.seed, entries || [])
+    const { data: wins, error: drawError } = await supabase.rpc('award_raffle_entries', {
+      p_raffle_id: id,
+      p_draw: order.map(entry => ({ entry_id: entry.id, size: entry.size, rank: entry.rank })),
+      p_drawn_by: adminId
+    })
+
+    if (drawError) {
+      if (drawError.hint === 'raffle_not_drawable' || drawError.hint === 'raffle_entries_changed') {
+        return { error: drawError.message }
+      }
+      throw new Error(`Failed to draw raffle: ${drawError.message}`)
+    }
+
+    const won: RaffleWin[] = wins || []
+    const wonIds = new Set(won.map(win => win.id))
+    const users = new Map((entries || []).map(entry => [entry.id, entry.user_id]))
+    const ranked = order.map(entry => ({
+      entry_id: entry.id,
+      user_id: users.get(entry.id)!,
+      size: entry.size,
+      rank: entry.rank,
+      result: wonIds.has(entry.id) ? 'won' as const : 'alternate' as const
+    }))
+
+    await new AuditLogger().logRaffleDraw(id, raffle.product_id, adminId, {
+      seed: raffle.seed,
+      seedCommitment: raffle.seed_commitment,
+      entries: ranked
+    })
+
+    // Alternates are told their place behind the size's winners
+    const winsBySize = new Map<string, number>()
+    for (const win of won) {
+      winsBySize.set(win.size, (winsBySize.get(win.size) || 0) + 1)
+    }
+
+    await this.notifyWins(won, false)
+    await this.notifyAlternates(
+      raffle.product_id,
+      ranked
+        .filter(entry => entry.result === 'alternate')
+        .map(entry => ({ ...entry, position: entry.rank - (winsBySize.get(entry.size) || 0) }))
+    )
+
+    return { wins: won.length, alternates: ranked.length - won.length }
+  }
+
+  /**
+   * The product's current raffle as shoppers see it, with the user's entry. The seed is left out
+   * until the draw reveals it.
+   */
+  static async getForProduct(
+    productId: string,
+    userId?: string
+  ): Promise<{ raffle: PublicRaffle & { phase: RafflePhase }; entry: RaffleEntry | null } | null> {
+    const { data: raffle, error } = await supabase
+      .from('raffles')
+      .select('*')
+      .eq('product_id', productId)
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load raffle: ${error.message}`)
+    if (!raffle) return null
+
+    let entry: RaffleEntry | null = null
+    if (userId) {
+      const { data, error: entryError } = await supabase
+        .from('raffle_entries')
+        .select('*')
+        .eq('raffle_id', raffle.id)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (entryError) throw new Error(`Failed to load raffle entry: ${entryError.message}`)
+      entry = data
+    }
+
+    const { drawn_by: _drawnBy, created_by: _createdBy, ...shown } = raffle as Raffle
+    return {
+      raffle: {
+        ...shown,
+        seed: raffle.status === 'drawn' ? raffle.seed : null,
+        phase: rafflePhase(raffle)
+      },
+      entry
+    }
+  }
+
+  /**
+   * Enter a raffle for one size while its entry window is open
+   */
+  static async enter(userId: string, input: RaffleEntryInput): Promise<{ entry?: RaffleEntry; error?: string }> {
+    const validationError = this.validateEntry(input)
+    if (validationError) {
+      return { error: validationError }
+    }
+
+    const size = toCanonicalSize(input.size!)
+
+    const { data: raffle, error: raffleError } = await supabase
+      .from('raffles')
+      .select('id, product_id, status, entry_opens_at, entry_closes_at, products (is_active, product_stock (size))')
+      .eq('id', input.raffleId!)
+      .maybeSingle()
+
+    if (raffleError) throw new Error(`Failed to load raffle: ${raffleError.message}`)
+
+    const product: any = raffle?.products
+    if (!raffle || !product?.is_active) {
+      return { error: 'Raffle not found' }
+    }
+    if (rafflePhase(raffle) !== 'open') {
+      return { error: 'Entries for this raffle are closed' }
+    }
+    if (!(product.product_stock || []).some((row: any) => row.size === size)) {
+      return { error: 'This size is not sold for this product' }
+    }
+
+    const { data, error } = await supabase
+      .from('raffle_entries')
+      .insert({ raffle_id: raffle.id, product_id: raffle.product_id, user_id: userId, size })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return { error: 'You have already entered this raffle' }
+      }
+      throw new Error(`Failed to enter raffle: ${error.message}`)
+    }
+
+    return { entry: data }
+  }
+
+  /**
+   * Withdraw an entry. A pair already held for the user rolls down to the next alternate.
+   */
+  static async withdraw(userId: string, id: string): Promise<{ error?: string }> {
+    const { data: entry, error } = await supabase
+      .from('raffle_entries')
+      .select('id, raffle_id, size')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .in('status', ['entered', 'alternate', 'won'])
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load raffle entry: ${error.message}`)
+    if (!entry) {
+      return { error: 'Raffle entry not found' }
+    }
+
+    await this.passSpot(entry, 'withdrawn')
+    return {}
+  }
+
+  /**
+   * A user's entry with the product it is for, for the claim page winners are sent to
+   */
+  static async getClaim(userId: string, id: string): Promise<RaffleClaim | null> {
+    const { data, error } = await supabase
+      .from('raffle_entries')
+      .select(`
+        *,
+        products (
+          id,
+          name,
+          category,
+          gender,
+          image_urls,
+          retail_price,
+          current_price,
+          brands (name, display_name)
+        )
+      `)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load raffle entry: ${error.message}`)
+    if (!data) return null
+
+    const { products: product, ...entry } = data as any
+    return {
+      entry: entry as RaffleEntry,
+      product: {
+        id: product?.id || entry.product_id,
+        name: product?.name || 'Unknown product',
+        brand: product?.brands?.display_name || product?.brands?.name || null,
+        category: product?.category || null,
+        gender: product?.gender || null,
+        image_url: product?.image_urls?.[0] || null,
+        price: product ? sellingPrice(product) : null
+      }
+    }
+  }
+
+  /**
+   * Roll down wins that were not paid for in time.
+   * Runs before cleanupExpiredReservations, which would otherwise put their held units back in stock.
+   */
+  static async expireUnclaimedWins(): Promise<{ expired: number; passed: number; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('raffle_entries')
+        .select('id, raffle_id, size')
+        .eq('status', 'won')
+        .lte('claim_expires_at', new Date().toISOString())
+        .order('claim_expires_at', { ascending: true })
+
+      if (error) {
+        return { expired: 0, passed: 0, error: `Failed to load expired raffle wins: ${error.message}` }
+      }
+
+      let passed = 0
+      for (const entry of data || []) {
+        if (await this.passSpot(entry, 'expired')) {
+          passed++
+        }
+      }
+
+      return { expired: data?.length || 0, passed }
+    } catch (error) {
+      console.error('Error expiring raffle wins:', error)
+      return {
+        expired: 0,
+        passed: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  static validateSchedule(input: RaffleScheduleInput): string | null {
+    if (!input.productId || typeof input.productId !== 'string') {
+      return 'productId is required'
+    }
+
+    const opensAt = new Date(input.entryOpensAt || '')
+    const closesAt = new Date(input.entryClosesAt || '')
+    if (isNaN(opensAt.getTime()) || isNaN(closesAt.getTime())) {
+      return 'Entry window opening and closing times are required'
+    }
+    if (closesAt <= opensAt) {
+      return 'Entries must close after they open'
+    }
+    if (closesAt <= new Date()) {
+      return 'Entries must close in the future'
+    }
+
+    if (input.claimMinutes !== undefined) {
+      if (!Number.isInteger(input.claimMinutes)
+        || input.claimMinutes < MIN_CLAIM_MINUTES
+        || input.claimMinutes > MAX_CLAIM_MINUTES) {
+        return `Claim time must be between ${MIN_CLAIM_MINUTES} and ${MAX_CLAIM_MINUTES} minutes`
+      }
+    }
+
+    return null
+  }
+
+  static validateEntry(input: RaffleEntryInput): string | null {
+    if (!input.raffleId || typeof input.raffleId !== 'string') {
+      return 'raffleId is required'
+    }
+    if (!input.size || typeof input.size !== 'string' || !input.size.trim()) {
+      return 'Choose the size to enter for'
+    }
+    return null
+  }
+
+  /**
+   * Close an entry through pass_raffle_spot and tell the alternate who gets the spot, if any.
+   * Every closed win is audited next to the draw it came from.
+   */
+  private static async passSpot(entry: PassedEntry, status: ClosedEntryStatus): Promise<RaffleWin | null> {
+    const { data, error } = await supabase.rpc('pass_raffle_spot', {
+      p_entry_id: entry.id,
+      p_status: status
+    })
+
+    if (error) throw new Error(`Failed to close raffle entry: ${error.message}`)
+
+    const next: RaffleWin | null = data || null
+    await new AuditLogger().logEvent({
+      event_type: 'raffle_spot_passed',
+      entity_type: 'raffle',
+      entity_id: entry.raffle_id,
+      action: status === 'expired' ? 'expire' : 'withdraw',
+      metadata: {
+        entry_id: entry.id,
+        size: entry.size,
+        next_entry_id: next?.id || null,
+        next_draw_rank: next?.draw_rank || null
+      },
+      severity: 'info',
+      source: status === 'expired' ? 'system' : 'api'
+    })
+
+    if (next) {
+      await this.notifyWins([next], true)
+    }
+    return next
+  }
+
+  /**
+   * Tell winners their pair is held, by email with the claim link and in the notification feed.
+   * The win stands whether or not the message gets through: it also shows on the product page.
+   */
+  private static async notifyWins(wins: RaffleWin[], alternate: boolean): Promise<void> {
+    for (const win of wins) {
+      try {
+        const [{ data: product }, { data: preferenceRow }, { data: account }] = await Promise.all([
+          supabase
+            .from('products')
+            .select('name, gender, image_urls, retail_price, current_price, brands (name, display_name)')
+            .eq('id', win.product_id)
+            .single(),
+          supabase
+            .from('user_preferences')
+            .select('preferences')
+            .eq('user_id', win.user_id)
+            .maybeSingle(),
+          supabase.auth.admin.getUserById(win.user_id)
+        ])
+
+        const brands: any = product?.brands
+        const productName = product?.name || 'A raffle you entered'
+        const sizeSystem = preferenceRow?.preferences?.sizeSystem
+        const displaySize = formatSize(win.size, sizeSystem, { brand: brands?.name, gender: product?.gender })
+        const claimUrl = `${SITE_URL}/raffles/${win.id}`
+
+        const { error } = await supabase
+          .from('user_notifications')
+          .insert([{
+            user_id: win.user_id,
+            type: 'raffle_result',
+            title: 'You won the raffle!',
+            message: `${productName} in ${displaySize} is held for you until ${new Date(win.claim_expires_at).toLocaleString()}`,
+            data: {
+              productId: win.product_id,
+              size: win.size,
+              raffleEntryId: win.id,
+              expiresAt: win.claim_expires_at
+            }
+          }])
+
+        if (error) {
+          console.error(`Error storing raffle win notification ${win.id}:`, error)
+        }
+
+        const email = account?.user?.email
+        if (email) {
+          const price = product ? sellingPrice(product) : null
+          await EmailService.sendRaffleWin({
+            customerEmail: email,
+            customerName: account.user?.user_metadata?.full_name || 'there',
+            productName,
+            brand: brands?.display_name || brands?.name || undefined,
+            gender: product?.gender || undefined,
+            image: product?.image_urls?.[0] || undefined,
+            size: win.size,
+            price: price === null ? undefined : price,
+            currency: BASE_CURRENCY,
+            sizeSystem,
+            claimUrl,
+            expiresAt: win.claim_expires_at,
+            alternate
+          })
+        }
+      } catch (error) {
+        console.error(`Error notifying raffle win ${win.id}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Tell entrants who were not drawn where they stand on the alternate list, in the notification feed
+   */
+  private static async notifyAlternates(
+    productId: string,
+    alternates: Array<{ entry_id: string; user_id: string; size: string; position: number }>
+  ): Promise<void> {
+    if (alternates.length === 0) return
+
+    const { data: product } = await supabase
+      .from('products')
+      .select('name')
+      .eq('id', productId)
+      .maybeSingle()
+
+    const { error } = await supabase
+      .from('user_notifications')
+      .insert(alternates.map(entry => ({
+        user_id: entry.user_id,
+        type: 'raffle_result',
+        title: 'Raffle results are in',
+        message: `You were not drawn for ${product?.name || 'this release'}, but you are alternate #${entry.position} for your size`,
+        data: {
+          productId,
+          size: entry.size,
+          raffleEntryId: entry.entry_id
+        }
+      })))
+
+    if (error) {
+      console.error(`Error storing raffle results for product ${productId}:`, error)
+    }
+  }
+}
+
+export default RaffleService
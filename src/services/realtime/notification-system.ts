@@ -4,6 +4,7 @@
  */
 
 import { createContext, useContext } from 'react'
+import type { UserNotification } from '@/types/watchlist'
 
 export enum NotificationType {
   STOCK_LOW = 'STOCK_LOW',
@@ -284,6 +285,37 @@ export class NotificationSystem {
     })
   }
 
+  /**
+   * Create a notification for a watchlist alert, waitlist offer or raffle result delivered to the user's notification feed
+   */
+  notifyWatchlistAlert(alert: UserNotification): void {
+    const productId = typeof alert.data.productId === 'string' ? alert.data.productId : null
+
+    this.notify({
+      type: alert.type === 'price_drop' || alert.type === 'digest' ? NotificationType.PRICE_DROP : NotificationType.RESTOCK_ALERT,
+      // Waitlist offers and raffle wins are only held for a while
+      priority: alert.type === 'waitlist_offer' || alert.type === 'raffle_result' ? NotificationPriority.HIGH : NotificationPriority.MEDIUM,
+      title: alert.title,
+      message: alert.message,
+      data: { notificationId: alert.id, ...alert.data },
+      actions: [
+        productId
+          ? {
+            id: 'view-product',
+            label: 'View Product',
+            action: () => this.navigateToProduct(productId),
+            style: 'primary'
+          }
+          : {
+            id: 'view-watchlist',
+            label: 'View Watchlist',
+            action: () => this.navigateToWatchlist(),
+            style: 'primary'
+          }
+      ]
+    })
+  }
+
   /**
    * Create cart item unavailable notification
    */
@@ -520,6 +552,12 @@ export class NotificationSystem {
     }
   }
 
+  private navigateToWatchlist(): void {
+    if (typeof window !== 'undefined') {
+      window.location.href = '/watchlist'
+    }
+  }
+
   private findSimilarProducts(productId: string): void {
     if (typeof window !== 'undefined') {
       window.location.href = `/products?similar=${productId}`
@@ -0,0 +1,488 @@
+import { supabase } from '@/lib/supabase/server'
+import { StockManager } from '@/lib/stock/manager'
+import { PaymentProviderError } from '@/lib/payments'
+import { EmailService } from '@/services/email/EmailService'
+import { PaymentService } from '@/services/payments'
+import { PricingService, BASE_CURRENCY } from '@/services/pricing'
+import type { OrderRefund, PaymentStatus, RefundRequest } from '@/types/order'
+import type { Currency } from '@/types/pricing'
+
+export enum RefundErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  NOT_REFUNDABLE = 'NOT_REFUNDABLE',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  AMOUNT_EXCEEDED = 'AMOUNT_EXCEEDED',
+  QUANTITY_EXCEEDED = 'QUANTITY_EXCEEDED',
+  PROVIDER_FAILED = 'PROVIDER_FAILED'
+}
+
+export class RefundError extends Error {
+  constructor(
+    public code: RefundErrorCode,
+    message: string,
+    public details?: any
+  ) {
+    super(message)
+    this.name = 'RefundError'
+  }
+}
+
+// Errors raised by the refund RPCs carry one of these hints
+const RPC_ERROR_CODES: Record<string, RefundErrorCode> = {
+  not_found: RefundErrorCode.NOT_FOUND,
+  not_refundable: RefundErrorCode.NOT_REFUNDABLE,
+  invalid_request: RefundErrorCode.INVALID_REQUEST,
+  no_account: RefundErrorCode.INVALID_REQUEST,
+  amount_exceeded: RefundErrorCode.AMOUNT_EXCEEDED,
+  quantity_exceeded: RefundErrorCode.QUANTITY_EXCEEDED
+}
+
+export interface RefundableOrderItem {
+  id: string
+  productId: string
+  productName: string
+  productBrand: string
+  size: string
+  quantity: number
+  refundedQuantity: number
+  unitPrice: number // before discounts
+  discountAmount: number // the line's share of the order's item discount, for all of its quantity
+}
+
+export interface RefundableOrder {
+  id: string
+  orderNumber: string
+  userId: string | null
+  currency: Currency
+  total: number
+  refundedAmount: number
+  storeCreditAmount: number // part of the total paid with store credit
+  creditRefundedAmount: number // part of refundedAmount returned as store credit
+  paymentStatus: PaymentStatus
+  paymentIntentId: string | null
+  taxRate: number // combined rate of the order's tax lines, applied to refunded goods
+  customerEmail: string | null
+  customerName: string
+  items: RefundableOrderItem[]
+}
+
+export interface RefundPlan {
+  amount: number
+  lines: Array<{ orderItemId: string; quantity: number; amount: number }>
+  full: boolean // everything left on the order, including shipping
+}
+
+// How a refund amount is returned: `card` through the payment provider, `storeCredit` to the buyer's balance
+export interface RefundSplit {
+  card: number
+  storeCredit: number
+}
+
+export class RefundService {
+  /**
+   * Refund a paid order, in full or by line item. The refund is recorded (and the refundable
+   * amount taken) before the provider is called; a provider failure gives it back. The part
+   * returned as store credit is added to the buyer's balance when the refund settles.
+   */
+  static async refundOrder(orderId: string, request: RefundRequest, adminUserId: string): Promise<OrderRefund> {
+    const order = await this.loadOrder(orderId)
+
+    const plan = this.planRefund(order, request.items)
+    const split = this.splitRefund(order, plan.amount, request.asStoreCredit === true)
+
+    if (split.card > 0 && !order.paymentIntentId) {
+      throw new RefundError(RefundErrorCode.NOT_REFUNDABLE, 'This order has no captured payment to refund')
+    }
+
+    const restock = request.restock !== false
+    const refundId = await this.createRefund(order.id, plan, {
+      reason: request.reason?.trim() || null,
+      restock,
+      source: 'admin',
+      createdBy: adminUserId,
+      storeCredit: split.storeCredit
+    })
+
+    // A refund entirely in store credit has nothing to send to the provider
+    let status: OrderRefund['status'] = 'succeeded'
+    if (split.card > 0) {
+      status = await this.refundToCard(order, refundId, split.card, request.reason)
+    } else {
+      await this.settleRefund(refundId, null, status, null)
+    }
+
+    if (status === 'failed') {
+      throw new RefundError(RefundErrorCode.PROVIDER_FAILED, 'Refund was declined by the payment provider')
+    }
+
+    if (restock) {
+      await this.restock(refundId, order, plan.lines, adminUserId)
+    }
+
+    await this.sendRefundEmail(order, plan, request.reason, split.storeCredit)
+
+    return (await this.getRefund(refundId))!
+  }
+
+  /**
+   * Divide a refund between the card and store credit. The card only gets back what is left of the
+   * card payment, so credit spent on the order (and anything beyond the card part) returns as credit;
+   * with asStoreCredit everything does. Guests have no balance and can only be refunded to the card.
+   */
+  static splitRefund(order: RefundableOrder, amount: number, asStoreCredit = false): RefundSplit {
+    const cardPaid = order.total - order.storeCreditAmount
+    const cardRefunded = order.refundedAmount - order.creditRefundedAmount
+    const cardRemaining = Math.max(0, PricingService.round(cardPaid - cardRefunded, order.currency))
+
+    const card = asStoreCredit ? 0 : Math.min(amount, cardRemaining)
+    const storeCredit = PricingService.round(amount - card, order.currency)
+
+    if (storeCredit > 0 && !order.userId) {
+      throw new RefundError(RefundErrorCode.INVALID_REQUEST, 'Guest orders can only be refunded to the card')
+    }
+
+    return { card, storeCredit }
+  }
+
+  /**
+   * Work out what a refund returns. Lines are refunded at what was paid for them: their unit price less
+   * their share of the item discount, plus the order's tax on goods. Refunding everything still
+   * outstanding also returns shipping and its tax.
+   */
+  static planRefund(order: RefundableOrder, items?: RefundRequest['items']): RefundPlan {
+    const remaining = PricingService.round(order.total - order.refundedAmount, order.currency)
+    if (remaining <= 0) {
+      throw new RefundError(RefundErrorCode.NOT_REFUNDABLE, 'This order has already been fully refunded')
+    }
+
+    // Merge repeated lines so quantities are checked against the order once
+    const requested = new Map<string, number>()
+    if (items && items.length > 0) {
+      for (const item of items) {
+        if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+          throw new RefundError(RefundErrorCode.INVALID_REQUEST, 'Refund quantities must be positive whole numbers')
+        }
+        requested.set(item.orderItemId, (requested.get(item.orderItemId) || 0) + item.quantity)
+      }
+    } else {
+      for (const item of order.items) {
+        if (item.quantity > item.refundedQuantity) {
+          requested.set(item.id, item.quantity - item.refundedQuantity)
+        }
+      }
+    }
+
+    const lines: RefundPlan['lines'] = []
+    for (const [orderItemId, quantity] of requested) {
+      const item = order.items.find(candidate => candidate.id === orderItemId)
+      if (!item) {
+        throw new RefundError(RefundErrorCode.INVALID_REQUEST, `Order item ${orderItemId} is not part of this order`)
+      }
+      if (quantity > item.quantity - item.refundedQuantity) {
+        throw new RefundError(
+          RefundErrorCode.QUANTITY_EXCEEDED,
+          `Only ${item.quantity - item.refundedQuantity} of ${item.productName} (size ${item.size}) can still be refunded`
+        )
+      }
+
+      lines.push({
+        orderItemId,
+        quantity,
+        amount: PricingService.round(
+          (item.unitPrice * quantity - item.discountAmount * quantity / item.quantity) * (1 + order.taxRate),
+          order.currency
+        )
+      })
+    }
+
+    const full = order.items.every(item =>
+      item.quantity - item.refundedQuantity === (requested.get(item.id) || 0)
+    )
+
+    const lineTotal = PricingService.round(lines.reduce((sum, line) => sum + line.amount, 0), order.currency)
+    const amount = full ? remaining : Math.min(lineTotal, remaining)
+
+    if (amount <= 0) {
+      throw new RefundError(RefundErrorCode.NOT_REFUNDABLE, 'Nothing left to refund on this order')
+    }
+
+    return { amount, lines, full }
+  }
+
+  /**
+   * Record a refund made outside the app (e.g. the Stripe dashboard) when its charge.refunded event
+   * arrives. amountRefunded is the provider's running total in minor units; only the part not
+   * already recorded is added. Returns null when there is nothing new.
+   */
+  static async recordProviderRefund(paymentIntentId: string, amountRefunded: number, currency: string): Promise<OrderRefund | null> {
+    const { data: orderRow, error } = await supabase
+      .from('orders')
+      .select('id')
+      .eq('stripe_payment_intent_id', paymentIntentId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!orderRow) {
+      console.warn(`No order found for refunded payment ${paymentIntentId}`)
+      return null
+    }
+
+    const order = await this.loadOrder(orderRow.id)
+    // Only card refunds show up in the provider's total
+    const recorded = PricingService.toMinorUnits(order.refundedAmount - order.creditRefundedAmount, order.currency)
+    if (amountRefunded <= recorded) return null
+
+    const amount = PricingService.fromMinorUnits(amountRefunded - recorded, currency)
+    const plan: RefundPlan = { amount, lines: [], full: amount >= order.total - order.refundedAmount }
+
+    const refundId = await this.createRefund(order.id, plan, {
+      reason: 'Refunded in the payment provider',
+      restock: false,
+      source: 'provider',
+      createdBy: null
+    })
+    await this.settleRefund(refundId, null, 'succeeded', null)
+
+    await this.sendRefundEmail(order, plan)
+
+    return this.getRefund(refundId)
+  }
+
+  static async getOrderRefunds(orderId: string): Promise<OrderRefund[]> {
+    const { data, error } = await supabase
+      .from('order_refunds')
+      .select('*, order_refund_items (*)')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return (data || []).map(row => this.toOrderRefund(row))
+  }
+
+  static async getRefund(refundId: string): Promise<OrderRefund | null> {
+    const { data, error } = await supabase
+      .from('order_refunds')
+      .select('*, order_refund_items (*)')
+      .eq('id', refundId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data ? this.toOrderRefund(data) : null
+  }
+
+  static async loadOrder(orderId: string): Promise<RefundableOrder> {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (*),
+        users (email, user_metadata)
+      `)
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      throw new RefundError(RefundErrorCode.NOT_FOUND, 'Order not found')
+    }
+
+    const currency = (data.currency || BASE_CURRENCY) as Currency
+
+    return {
+      id: data.id,
+      orderNumber: data.order_number || `#${data.id.slice(-8).toUpperCase()}`,
+      userId: data.user_id,
+      currency,
+      total: parseFloat(data.total_amount),
+      refundedAmount: parseFloat(data.refunded_amount || 0),
+      storeCreditAmount: parseFloat(data.store_credit_amount || 0),
+      creditRefundedAmount: parseFloat(data.credit_refunded_amount || 0),
+      paymentStatus: data.payment_status,
+      paymentIntentId: data.stripe_payment_intent_id || null,
+      taxRate: (data.tax_lines || []).reduce((sum: number, line: any) => sum + Number(line.rate || 0), 0),
+      customerEmail: data.users?.email || data.customer_email || null,
+      customerName: data.users?.user_metadata?.full_name || 'Customer',
+      items: (data.order_items || []).map((item: any) => ({
+        id: item.id,
+        productId: item.product_id,
+        productName: item.product_name || 'Unknown Product',
+        productBrand: item.product_brand || '',
+        size: item.size,
+        quantity: item.quantity,
+        refundedQuantity: item.refunded_quantity || 0,
+        unitPrice: parseFloat(item.unit_price),
+        discountAmount: parseFloat(item.discount_amount || 0)
+      }))
+    }
+  }
+
+  private static async createRefund(
+    orderId: string,
+    plan: RefundPlan,
+    options: {
+      reason: string | null
+      restock: boolean
+      source: OrderRefund['source']
+      createdBy: string | null
+      storeCredit?: number
+    }
+  ): Promise<string> {
+    const { data, error } = await supabase.rpc('create_order_refund', {
+      p_order_id: orderId,
+      p_amount: plan.amount,
+      p_reason: options.reason,
+      p_items: plan.lines.map(line => ({
+        order_item_id: line.orderItemId,
+        quantity: line.quantity,
+        amount: line.amount
+      })),
+      p_restock: options.restock,
+      p_source: options.source,
+      p_created_by: options.createdBy,
+      p_store_credit_amount: options.storeCredit || 0
+    })
+
+    if (error) {
+      const code = error.hint ? RPC_ERROR_CODES[error.hint] : undefined
+      if (code) throw new RefundError(code, error.message)
+      throw error
+    }
+
+    return data as string
+  }
+
+  // Send the card part to the provider and settle the refund with its answer
+  private static async refundToCard(
+    order: RefundableOrder,
+    refundId: string,
+    amount: number,
+    reason?: string
+  ): Promise<OrderRefund['status']> {
+    try {
+      const providerRefund = await PaymentService.refundPayment(order.paymentIntentId!, amount, order.currency, {
+        reason,
+        metadata: { orderId: order.id, refundId },
+        idempotencyKey: `refund-${refundId}`
+      })
+
+      const status = providerRefund.status === 'succeeded' ? 'succeeded'
+        : providerRefund.status === 'pending' ? 'pending'
+        : 'failed'
+
+      await this.settleRefund(refundId, providerRefund.id, status, status === 'failed' ? 'Refund was declined by the payment provider' : null)
+      return status
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Refund failed'
+      await this.settleRefund(refundId, null, 'failed', message)
+      throw new RefundError(
+        RefundErrorCode.PROVIDER_FAILED,
+        message,
+        error instanceof PaymentProviderError ? { code: error.code } : undefined
+      )
+    }
+  }
+
+  private static async settleRefund(
+    refundId: string,
+    providerRefundId: string | null,
+    status: OrderRefund['status'],
+    errorMessage: string | null
+  ): Promise<void> {
+    const { error } = await supabase.rpc('settle_order_refund', {
+      p_refund_id: refundId,
+      p_provider_refund_id: providerRefundId,
+      p_status: status,
+      p_error: errorMessage
+    })
+
+    if (error) {
+      // The provider has already answered; leave the refund for manual review rather than failing the request
+      console.error(`Failed to settle refund ${refundId}:`, error)
+    }
+  }
+
+  // Put refunded sizes back into stock; a failed line is logged and left for manual restock
+  private static async restock(refundId: string, order: RefundableOrder, lines: RefundPlan['lines'], adminUserId: string) {
+    const stockManager = new StockManager()
+
+    for (const line of lines) {
+      const item = order.items.find(candidate => candidate.id === line.orderItemId)
+      if (!item) continue
+
+      const result = await stockManager.restockInventory(
+        item.productId,
+        item.size,
+        line.quantity,
+        `Refund on order ${order.orderNumber}`,
+        adminUserId
+      )
+
+      if (!result.success) {
+        console.error(`Failed to restock ${item.productId} size ${item.size} for refund ${refundId}:`, result.error)
+        continue
+      }
+
+      await supabase
+        .from('order_refund_items')
+        .update({ restocked: true })
+        .eq('refund_id', refundId)
+        .eq('order_item_id', line.orderItemId)
+    }
+  }
+
+  private static async sendRefundEmail(order: RefundableOrder, plan: RefundPlan, reason?: string, storeCredit = 0) {
+    if (!order.customerEmail) return
+
+    try {
+      await EmailService.sendRefundConfirmation({
+        orderNumber: order.orderNumber,
+        customerName: order.customerName,
+        customerEmail: order.customerEmail,
+        amount: plan.amount,
+        currency: order.currency,
+        storeCredit: storeCredit || undefined,
+        reason: reason?.trim() || undefined,
+        fullRefund: plan.full,
+        items: plan.lines.map(line => {
+          const item = order.items.find(candidate => candidate.id === line.orderItemId)
+          return {
+            name: item?.productName || 'Item',
+            brand: item?.productBrand || '',
+            size: item?.size || '',
+            quantity: line.quantity,
+            amount: line.amount
+          }
+        })
+      })
+    } catch (error) {
+      console.error('Error sending refund email:', error)
+    }
+  }
+
+  private static toOrderRefund(row: any): OrderRefund {
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      providerRefundId: row.provider_refund_id,
+      amount: parseFloat(row.amount),
+      storeCreditAmount: parseFloat(row.store_credit_amount || 0),
+      currency: row.currency,
+      reason: row.reason,
+      status: row.status,
+      source: row.source,
+      restock: row.restock,
+      items: (row.order_refund_items || []).map((item: any) => ({
+        orderItemId: item.order_item_id,
+        quantity: item.quantity,
+        amount: parseFloat(item.amount),
+        restocked: item.restocked
+      })),
+      error: row.error,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export default RefundService
@@ -0,0 +1,484 @@
+import { supabase } from '@/lib/supabase/server'
+import { StockManager } from '@/lib/stock/manager'
+import { generateRmaNumber, MAX_NUMBER_ATTEMPTS } from '@/lib/orders'
+import { EmailService, type ReturnUpdateData } from '@/services/email/EmailService'
+import { RefundService, RefundError } from '@/services/refunds'
+import { RETURN_REASON_LABELS } from '@/types/order'
+import type { OrderReturn, ReturnInspectionOutcome, ReturnReason, ReturnStatus } from '@/types/order'
+
+// Days after delivery a return can be opened
+export const RETURN_WINDOW_DAYS = 30
+
+export const MAX_RETURN_PHOTOS = 5
+export const MAX_RETURN_PHOTO_BYTES = 5 * 1024 * 1024
+
+const PHOTO_BUCKET = 'return-photos'
+
+// Signed photo URLs shown to admins stay valid this long
+const PHOTO_URL_TTL_SECONDS = 60 * 60
+
+// Returns still holding quantity on their order item
+const OPEN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'received']
+
+export enum ReturnErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  NOT_RETURNABLE = 'NOT_RETURNABLE',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  INVALID_STATE = 'INVALID_STATE',
+  REFUND_FAILED = 'REFUND_FAILED'
+}
+
+export class ReturnError extends Error {
+  constructor(
+    public code: ReturnErrorCode,
+    message: string,
+    public details?: any
+  ) {
+    super(message)
+    this.name = 'ReturnError'
+  }
+}
+
+export interface ReturnRequestInput {
+  orderId: string
+  orderItemId: string
+  quantity: number
+  reason: ReturnReason
+  details?: string
+}
+
+export interface ReturnPhoto {
+  name: string
+  type: string
+  size: number
+  data: ArrayBuffer
+}
+
+export class ReturnService {
+  /**
+   * Open a return for an item on one of the buyer's delivered orders
+   */
+  static async requestReturn(userId: string, input: ReturnRequestInput, photos: ReturnPhoto[] = []): Promise<OrderReturn> {
+    this.validateRequest(input, photos)
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, user_id, status, delivered_at, order_items (id, quantity, refunded_quantity)')
+      .eq('id', input.orderId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (orderError) throw orderError
+    if (!order) {
+      throw new ReturnError(ReturnErrorCode.NOT_FOUND, 'Order not found')
+    }
+
+    if (order.status !== 'delivered') {
+      throw new ReturnError(ReturnErrorCode.NOT_RETURNABLE, 'Only delivered orders can be returned')
+    }
+
+    const deliveredAt = order.delivered_at ? new Date(order.delivered_at).getTime() : null
+    if (deliveredAt && Date.now() - deliveredAt > RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+      throw new ReturnError(
+        ReturnErrorCode.NOT_RETURNABLE,
+        `Returns must be opened within ${RETURN_WINDOW_DAYS} days of delivery`
+      )
+    }
+
+    const item = (order.order_items as any[]).find(candidate => candidate.id === input.orderItemId)
+    if (!item) {
+      throw new ReturnError(ReturnErrorCode.INVALID_REQUEST, 'This item is not part of the order')
+    }
+
+    const { data: openReturns, error: openError } = await supabase
+      .from('order_returns')
+      .select('quantity')
+      .eq('order_item_id', item.id)
+      .in('status', OPEN_STATUSES)
+
+    if (openError) throw openError
+
+    const returnable = this.returnableQuantity(item.quantity, item.refunded_quantity || 0, openReturns || [])
+
+    if (input.quantity > returnable) {
+      throw new ReturnError(
+        ReturnErrorCode.NOT_RETURNABLE,
+        returnable > 0 ? `Only ${returnable} of this item can be returned` : 'This item already has a return open or was refunded'
+      )
+    }
+
+    const returnId = crypto.randomUUID()
+    const photoPaths = await this.uploadPhotos(userId, returnId, photos)
+
+    const insertReturn = () => supabase
+      .from('order_returns')
+      .insert({
+        id: returnId,
+        rma_number: generateRmaNumber(),
+        order_id: order.id,
+        order_item_id: item.id,
+        user_id: userId,
+        quantity: input.quantity,
+        reason: input.reason,
+        details: input.details?.trim() || null,
+        photo_paths: photoPaths,
+        status: 'requested'
+      })
+
+    let inserted = await insertReturn()
+    for (let attempt = 1; this.isRmaNumberTaken(inserted.error) && attempt < MAX_NUMBER_ATTEMPTS; attempt++) {
+      // Another return drew the same number; draw again
+      inserted = await insertReturn()
+    }
+    const insertError = inserted.error
+
+    if (insertError) {
+      await this.removePhotos(photoPaths)
+      throw insertError
+    }
+
+    const orderReturn = await this.getReturn(returnId)
+    await this.notify(orderReturn, 'requested')
+
+    return orderReturn
+  }
+
+  /**
+   * Approve a requested return and issue its return label reference
+   */
+  static async approveReturn(returnId: string, adminUserId: string): Promise<OrderReturn> {
+    const current = await this.getReturn(returnId)
+    this.assertStatus(current, 'requested', 'approved')
+
+    const labelReference = this.generateLabelReference(current.rmaNumber)
+
+    const orderReturn = await this.transition(returnId, 'requested', {
+      status: 'approved',
+      label_reference: labelReference,
+      reviewed_by: adminUserId,
+      approved_at: new Date().toISOString()
+    })
+
+    await this.notify(orderReturn, 'approved')
+    return orderReturn
+  }
+
+  static async rejectReturn(returnId: string, adminUserId: string, reason: string): Promise<OrderReturn> {
+    if (!reason.trim()) {
+      throw new ReturnError(ReturnErrorCode.INVALID_REQUEST, 'A rejection reason is required')
+    }
+
+    const current = await this.getReturn(returnId)
+    this.assertStatus(current, 'requested', 'rejected')
+
+    const orderReturn = await this.transition(returnId, 'requested', {
+      status: 'rejected',
+      rejection_reason: reason.trim(),
+      reviewed_by: adminUserId,
+      rejected_at: new Date().toISOString()
+    })
+
+    await this.notify(orderReturn, 'rejected')
+    return orderReturn
+  }
+
+  /**
+   * Record that the returned item arrived and how it passed inspection, then refund it.
+   * Restocked items are put back into stock by the refund; written-off items are logged as an
+   * adjustment move. If the refund fails the return stays received and can be refunded again.
+   */
+  static async receiveReturn(
+    returnId: string,
+    adminUserId: string,
+    inspection: { outcome: ReturnInspectionOutcome; notes?: string }
+  ): Promise<OrderReturn> {
+    if (inspection.outcome !== 'restock' && inspection.outcome !== 'write_off') {
+      throw new ReturnError(ReturnErrorCode.INVALID_REQUEST, 'Inspection outcome must be restock or write_off')
+    }
+
+    const current = await this.getReturn(returnId)
+    this.assertStatus(current, 'approved', 'received')
+
+    if (inspection.outcome === 'write_off' && current.item) {
+      const result = await new StockManager().recordWriteOff(
+        current.item.productId,
+        current.item.size,
+        current.quantity,
+        current.id,
+        `Return ${current.rmaNumber} written off${inspection.notes ? `: ${inspection.notes}` : ''}`,
+        adminUserId
+      )
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to record write-off')
+      }
+    }
+
+    const received = await this.transition(returnId, 'approved', {
+      status: 'received',
+      inspection_outcome: inspection.outcome,
+      inspection_notes: inspection.notes?.trim() || null,
+      received_at: new Date().toISOString()
+    })
+
+    await this.notify(received, 'received')
+
+    return this.refundReturn(returnId, adminUserId)
+  }
+
+  /**
+   * Refund a received return. Called by receiveReturn, and again by an admin after a failed refund.
+   */
+  static async refundReturn(returnId: string, adminUserId: string): Promise<OrderReturn> {
+    const current = await this.getReturn(returnId)
+    this.assertStatus(current, 'received', 'refunded')
+
+    let refundId: string
+    try {
+      const refund = await RefundService.refundOrder(current.orderId, {
+        items: [{ orderItemId: current.orderItemId, quantity: current.quantity }],
+        reason: `Return ${current.rmaNumber}`,
+        restock: current.inspectionOutcome === 'restock'
+      }, adminUserId)
+      refundId = refund.id
+    } catch (error) {
+      throw new ReturnError(
+        ReturnErrorCode.REFUND_FAILED,
+        error instanceof Error ? error.message : 'Refund failed',
+        error instanceof RefundError ? { code: error.code } : undefined
+      )
+    }
+
+    // The refund email from RefundService tells the customer the money is on its way
+    return this.transition(returnId, 'received', {
+      status: 'refunded',
+      refund_id: refundId,
+      refunded_at: new Date().toISOString()
+    })
+  }
+
+  static async getUserReturns(userId: string): Promise<OrderReturn[]> {
+    const { data, error } = await supabase
+      .from('order_returns')
+      .select('*, orders (order_number), order_items (product_id, product_name, product_brand, size, unit_price)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return (data || []).map(row => this.toOrderReturn(row))
+  }
+
+  /**
+   * Returns for the admin queue, with signed photo URLs
+   */
+  static async listReturns(status?: ReturnStatus): Promise<OrderReturn[]> {
+    let query = supabase
+      .from('order_returns')
+      .select('*, orders (order_number), order_items (product_id, product_name, product_brand, size, unit_price)')
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (status) {
+      query = query.eq('status', status)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+
+    return Promise.all((data || []).map(async row => ({
+      ...this.toOrderReturn(row),
+      photoUrls: await this.signPhotos(row.photo_paths || [])
+    })))
+  }
+
+  static async getReturn(returnId: string): Promise<OrderReturn> {
+    const { data, error } = await supabase
+      .from('order_returns')
+      .select('*, orders (order_number), order_items (product_id, product_name, product_brand, size, unit_price)')
+      .eq('id', returnId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      throw new ReturnError(ReturnErrorCode.NOT_FOUND, 'Return not found')
+    }
+
+    return this.toOrderReturn(data)
+  }
+
+  /**
+   * Check a return request before anything is looked up or uploaded
+   */
+  static validateRequest(input: ReturnRequestInput, photos: Array<Pick<ReturnPhoto, 'name' | 'type' | 'size'>>) {
+    if (!Object.keys(RETURN_REASON_LABELS).includes(input.reason)) {
+      throw new ReturnError(ReturnErrorCode.INVALID_REQUEST, 'Please choose a reason for the return')
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+      throw new ReturnError(ReturnErrorCode.INVALID_REQUEST, 'Quantity must be a positive whole number')
+    }
+    if (photos.length > MAX_RETURN_PHOTOS) {
+      throw new ReturnError(ReturnErrorCode.INVALID_REQUEST, `Attach at most ${MAX_RETURN_PHOTOS} photos`)
+    }
+    for (const photo of photos) {
+      if (!photo.type.startsWith('image/')) {
+        throw new ReturnError(ReturnErrorCode.INVALID_REQUEST, `${photo.name} is not an image`)
+      }
+      if (photo.size > MAX_RETURN_PHOTO_BYTES) {
+        throw new ReturnError(ReturnErrorCode.INVALID_REQUEST, `${photo.name} is larger than 5 MB`)
+      }
+    }
+  }
+
+  // Units of an order line that can still go on a new return
+  static returnableQuantity(quantity: number, refundedQuantity: number, openReturns: Array<{ quantity: number }>): number {
+    return quantity - refundedQuantity - openReturns.reduce((sum, open) => sum + open.quantity, 0)
+  }
+
+  static generateLabelReference(rmaNumber: string): string {
+    const suffix = crypto.randomUUID().replace(/-/g, '').slice(0, 6).toUpperCase()
+    return `RL-${rmaNumber.replace(/^RMA-/, '')}-${suffix}`
+  }
+
+  private static assertStatus(orderReturn: OrderReturn, expected: ReturnStatus, next: ReturnStatus) {
+    if (orderReturn.status !== expected) {
+      throw new ReturnError(
+        ReturnErrorCode.INVALID_STATE,
+        `Return ${orderReturn.rmaNumber} is ${orderReturn.status} and cannot be ${next}`
+      )
+    }
+  }
+
+  // Update only while the return is still in the expected status, so two admins cannot both act on it
+  private static async transition(returnId: string, from: ReturnStatus, updates: Record<string, any>): Promise<OrderReturn> {
+    const { data, error } = await supabase
+      .from('order_returns')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', returnId)
+      .eq('status', from)
+      .select('id')
+
+    if (error) throw error
+    if (!data?.length) {
+      throw new ReturnError(ReturnErrorCode.INVALID_STATE, 'This return was updated by someone else; reload and try again')
+    }
+
+    return this.getReturn(returnId)
+  }
+
+  private static isRmaNumberTaken(error: { code?: string; message?: string } | null): boolean {
+    return error?.code === '23505' && !!error.message?.includes('order_returns_rma_number_key')
+  }
+
+  private static async uploadPhotos(userId: string, returnId: string, photos: ReturnPhoto[]): Promise<string[]> {
+    const paths: string[] = []
+
+    for (const [index, photo] of photos.entries()) {
+      const extension = photo.name.split('.').pop()?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'jpg'
+      const path = `${userId}/${returnId}/${index + 1}.${extension}`
+
+      const { error } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(path, photo.data, { contentType: photo.type, upsert: false })
+
+      if (error) {
+        await this.removePhotos(paths)
+        throw new Error(`Failed to upload ${photo.name}: ${error.message}`)
+      }
+
+      paths.push(path)
+    }
+
+    return paths
+  }
+
+  private static async removePhotos(paths: string[]) {
+    if (paths.length === 0) return
+
+    const { error } = await supabase.storage.from(PHOTO_BUCKET).remove(paths)
+    if (error) {
+      console.error('Failed to remove return photos:', error)
+    }
+  }
+
+  private static async signPhotos(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) return []
+
+    const { data, error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .createSignedUrls(paths, PHOTO_URL_TTL_SECONDS)
+
+    if (error) {
+      console.error('Failed to sign return photos:', error)
+      return []
+    }
+
+    return (data || []).map(entry => entry.signedUrl).filter(Boolean)
+  }
+
+  private static async notify(orderReturn: OrderReturn, stage: ReturnUpdateData['stage']) {
+    try {
+      const { data: order } = await supabase
+        .from('orders')
+        .select('order_number, customer_email, users (email, user_metadata)')
+        .eq('id', orderReturn.orderId)
+        .maybeSingle()
+
+      const customer = (order as any)?.users
+      const customerEmail = customer?.email || order?.customer_email
+      if (!customerEmail) return
+
+      await EmailService.sendReturnUpdate({
+        stage,
+        rmaNumber: orderReturn.rmaNumber,
+        orderNumber: order?.order_number || orderReturn.orderNumber || '',
+        customerName: customer?.user_metadata?.full_name || 'Customer',
+        customerEmail,
+        item: {
+          name: orderReturn.item?.productName || 'Item',
+          brand: orderReturn.item?.productBrand || '',
+          size: orderReturn.item?.size || '',
+          quantity: orderReturn.quantity
+        },
+        reason: RETURN_REASON_LABELS[orderReturn.reason],
+        labelReference: orderReturn.labelReference || undefined,
+        rejectionReason: orderReturn.rejectionReason || undefined,
+        inspectionOutcome: orderReturn.inspectionOutcome || undefined
+      })
+    } catch (error) {
+      console.error(`Error sending ${stage} email for return ${orderReturn.rmaNumber}:`, error)
+    }
+  }
+
+  private static toOrderReturn(row: any): OrderReturn {
+    return {
+      id: row.id,
+      rmaNumber: row.rma_number,
+      orderId: row.order_id,
+      orderNumber: row.orders?.order_number,
+      orderItemId: row.order_item_id,
+      userId: row.user_id,
+      item: row.order_items ? {
+        productId: row.order_items.product_id,
+        productName: row.order_items.product_name || 'Unknown Product',
+        productBrand: row.order_items.product_brand || '',
+        size: row.order_items.size,
+        unitPrice: parseFloat(row.order_items.unit_price)
+      } : undefined,
+      quantity: row.quantity,
+      reason: row.reason,
+      details: row.details,
+      photoUrls: [],
+      status: row.status,
+      labelReference: row.label_reference,
+      rejectionReason: row.rejection_reason,
+      inspectionOutcome: row.inspection_outcome,
+      inspectionNotes: row.inspection_notes,
+      refundId: row.refund_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+}
+
+export default ReturnService
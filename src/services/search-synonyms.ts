@@ -0,0 +1,105 @@
+import { supabase } from '@/lib/supabase/server'
+import type { SearchSynonym, ZeroResultQuery } from '@/types/search'
+
+const MAX_TERM_LENGTH = 100
+
+/**
+ * Lowercase words of letters and digits, as search_synonyms stores them and as searches are matched
+ * against them (normalize_search_query)
+ */
+export function normalizeSearchTerm(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Synonyms merchandisers maintain so nicknames find the right products, and the report of searches
+ * that found nothing that tells them which synonyms are missing
+ */
+export class SearchSynonymService {
+  static async listSynonyms(): Promise<SearchSynonym[]> {
+    const { data, error } = await supabase
+      .from('search_synonyms')
+      .select('*')
+      .order('term')
+
+    if (error) throw new Error(`Failed to load search synonyms: ${error.message}`)
+
+    return data || []
+  }
+
+  /**
+   * Create or update a synonym: { id?, term, expansion }
+   */
+  static async saveSynonym(
+    input: { id?: string; term?: string; expansion?: string },
+    adminId: string
+  ): Promise<{ synonym?: SearchSynonym; error?: string }> {
+    const term = normalizeSearchTerm(input.term || '')
+    const expansion = normalizeSearchTerm(input.expansion || '')
+
+    const validationError = this.validate(term, expansion)
+    if (validationError) {
+      return { error: validationError }
+    }
+
+    const query = input.id
+      ? supabase.from('search_synonyms').update({ term, expansion, updated_at: new Date().toISOString() }).eq('id', input.id)
+      : supabase.from('search_synonyms').insert({ term, expansion, created_by: adminId })
+
+    const { data, error } = await query.select().single()
+    if (error) {
+      if (error.code === '23505') {
+        return { error: `"${term}" already has a synonym` }
+      }
+      throw new Error(`Failed to save search synonym: ${error.message}`)
+    }
+
+    return { synonym: data }
+  }
+
+  static async deleteSynonym(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('search_synonyms')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete search synonym: ${error.message}`)
+    }
+  }
+
+  /**
+   * Searches from the last `days` days that found nothing and still find nothing, most frequent first
+   */
+  static async listZeroResultQueries(days = 30, limit = 50): Promise<ZeroResultQuery[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data, error } = await supabase.rpc('zero_result_searches', {
+      p_since: since,
+      p_limit: limit
+    })
+
+    if (error) throw new Error(`Failed to load zero-result searches: ${error.message}`)
+
+    return (data || []).map((row: any) => ({
+      query: row.query,
+      searches: Number(row.searches),
+      last_searched_at: row.last_searched_at
+    }))
+  }
+
+  static validate(term: string, expansion: string): string | null {
+    if (!term || !expansion) {
+      return 'A synonym needs a term and what it stands for'
+    }
+    if (term.length > MAX_TERM_LENGTH || expansion.length > MAX_TERM_LENGTH) {
+      return `Terms are limited to ${MAX_TERM_LENGTH} characters`
+    }
+    if (term === expansion) {
+      return 'The term and what it stands for are the same'
+    }
+    return null
+  }
+}
+
+export default SearchSynonymService
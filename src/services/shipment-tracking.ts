@@ -0,0 +1,135 @@
+import { supabase } from '@/lib/supabase/server'
+import { getCarrierAdapter, isShipmentStuck } from '@/lib/carriers'
+import type { TrackingResult } from '@/lib/carriers'
+import { EmailService } from '@/services/email/EmailService'
+import { ShipmentService } from '@/services/shipments'
+
+export interface TrackingPollOptions {
+  limit?: number
+  orderId?: string // only this order's shipments, e.g. when an admin refreshes one order
+}
+
+export interface TrackingPollResult {
+  checked: number
+  delivered: number
+  stuck: number // newly flagged in this run
+  failed: number
+}
+
+/**
+ * Polls carriers for shipments that have not been delivered yet. Carrier events are stored on the
+ * shipment; a delivered scan delivers the shipment (and its order with the last one), and a shipment
+ * that stops moving is flagged once and reported to the admins.
+ */
+export class ShipmentTrackingService {
+  static async pollShipments(options: TrackingPollOptions = {}): Promise<TrackingPollResult> {
+    let query = supabase
+      .from('order_shipments')
+      .select('*, orders (order_number)')
+      .eq('status', 'shipped')
+      .not('carrier_code', 'is', null)
+      .order('last_checked_at', { ascending: true, nullsFirst: true })
+      .limit(options.limit ?? 50)
+
+    if (options.orderId) {
+      query = query.eq('order_id', options.orderId)
+    }
+
+    const { data: shipments, error } = await query
+    if (error) {
+      throw new Error(`Failed to load shipments to track: ${error.message}`)
+    }
+
+    const result: TrackingPollResult = { checked: 0, delivered: 0, stuck: 0, failed: 0 }
+
+    for (const shipment of shipments || []) {
+      result.checked++
+      try {
+        const outcome = await this.pollShipment(shipment)
+        if (outcome === 'delivered') result.delivered++
+        if (outcome === 'stuck') result.stuck++
+      } catch (pollError) {
+        result.failed++
+        console.error(`Error tracking shipment ${shipment.id}:`, pollError)
+
+        // Move it to the back of the queue so one bad tracking number does not block the rest
+        await supabase
+          .from('order_shipments')
+          .update({ last_checked_at: new Date().toISOString() })
+          .eq('id', shipment.id)
+      }
+    }
+
+    return result
+  }
+
+  private static async pollShipment(shipment: any): Promise<'delivered' | 'stuck' | 'updated'> {
+    const tracking: TrackingResult = await getCarrierAdapter(shipment.carrier_code).track(shipment.tracking_number)
+    const now = new Date()
+
+    if (tracking.events.length > 0) {
+      const { error: eventsError } = await supabase
+        .from('order_shipment_events')
+        .upsert(
+          tracking.events.map(event => ({
+            shipment_id: shipment.id,
+            status: event.status,
+            description: event.description,
+            location: event.location,
+            occurred_at: event.occurredAt
+          })),
+          { onConflict: 'shipment_id,occurred_at,status,description', ignoreDuplicates: true }
+        )
+
+      if (eventsError) {
+        throw new Error(`Failed to store tracking events: ${eventsError.message}`)
+      }
+    }
+
+    const lastEventAt = tracking.events.length > 0
+      ? tracking.events[tracking.events.length - 1].occurredAt
+      : shipment.last_event_at
+    const stuck = isShipmentStuck(
+      { trackingStatus: tracking.status, lastEventAt, shippedAt: shipment.shipped_at },
+      now
+    )
+
+    const { error: updateError } = await supabase
+      .from('order_shipments')
+      .update({
+        tracking_status: tracking.status,
+        estimated_delivery: tracking.estimatedDelivery,
+        last_event_at: lastEventAt,
+        last_checked_at: now.toISOString(),
+        stuck_at: stuck ? shipment.stuck_at || now.toISOString() : null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', shipment.id)
+
+    if (updateError) {
+      throw new Error(`Failed to update shipment tracking: ${updateError.message}`)
+    }
+
+    if (tracking.status === 'delivered') {
+      await ShipmentService.markDelivered(shipment.order_id, shipment.id, null)
+      return 'delivered'
+    }
+
+    if (stuck && !shipment.stuck_at) {
+      await EmailService.sendAdminNotification('shipment_stuck', {
+        orderNumber: shipment.orders?.order_number || `#${shipment.order_id.slice(-8).toUpperCase()}`,
+        shipmentNumber: shipment.shipment_number,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.tracking_number,
+        trackingStatus: tracking.status,
+        lastEventAt,
+        shippedAt: shipment.shipped_at
+      })
+      return 'stuck'
+    }
+
+    return 'updated'
+  }
+}
+
+export default ShipmentTrackingService
@@ -0,0 +1,285 @@
+import { supabase } from '@/lib/supabase/server'
+import { planShipment, unshippedQuantity, ShipmentPlanError, SHIPPABLE_ORDER_STATUSES } from '@/lib/orders'
+import type { FulfilmentLine, ShipmentLine } from '@/lib/orders'
+import { CARRIERS, resolveCarrierCode } from '@/lib/carriers'
+import type { CarrierCode } from '@/lib/carriers'
+import { EmailService } from '@/services/email/EmailService'
+import { toOrderShipment } from '@/services/orders'
+import type { OrderShipment, OrderStatus } from '@/types/order'
+
+export enum ShipmentErrorCode {
+  NOT_FOUND = 'NOT_FOUND',
+  NOT_SHIPPABLE = 'NOT_SHIPPABLE',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  TRACKING_REQUIRED = 'TRACKING_REQUIRED',
+  QUANTITY_EXCEEDED = 'QUANTITY_EXCEEDED'
+}
+
+export class ShipmentError extends Error {
+  constructor(
+    public code: ShipmentErrorCode,
+    message: string,
+    public details?: any
+  ) {
+    super(message)
+    this.name = 'ShipmentError'
+  }
+}
+
+// Errors raised by the shipment RPCs carry one of these hints
+const RPC_ERROR_CODES: Record<string, ShipmentErrorCode> = {
+  not_found: ShipmentErrorCode.NOT_FOUND,
+  not_shippable: ShipmentErrorCode.NOT_SHIPPABLE,
+  invalid_request: ShipmentErrorCode.INVALID_REQUEST,
+  tracking_required: ShipmentErrorCode.TRACKING_REQUIRED,
+  quantity_exceeded: ShipmentErrorCode.QUANTITY_EXCEEDED
+}
+
+export interface ShipmentRequest {
+  items: ShipmentLine[]
+  carrier: string
+  trackingNumber: string
+  carrierCode?: CarrierCode // picked from CARRIERS; otherwise resolved from the carrier name
+}
+
+export interface FulfilmentItem extends FulfilmentLine {
+  productName: string
+  productBrand: string
+  size: string
+  unshippedQuantity: number
+}
+
+export interface OrderFulfilment {
+  orderId: string
+  status: OrderStatus
+  defaultCarrier: string
+  items: FulfilmentItem[]
+  shipments: OrderShipment[]
+}
+
+/**
+ * Ships orders in one or more shipments. Quantities are checked and the order status is moved on
+ * by the create_order_shipment / mark_order_shipment_delivered RPCs; each shipment sends its own
+ * tracking email.
+ */
+export class ShipmentService {
+  static async getFulfilment(orderId: string): Promise<OrderFulfilment> {
+    const order = await this.loadOrder(orderId)
+
+    return {
+      orderId: order.id,
+      status: order.status,
+      defaultCarrier: this.defaultCarrier(order),
+      items: order.order_items.map((item: any) => {
+        const line = toFulfilmentLine(item)
+        return {
+          ...line,
+          productName: item.products?.name || 'Unknown Product',
+          productBrand: item.products?.brands?.name || item.products?.brand || '',
+          size: item.size,
+          unshippedQuantity: unshippedQuantity(line)
+        }
+      }),
+      shipments: this.sortShipments(order.order_shipments)
+    }
+  }
+
+  static async createShipment(orderId: string, request: ShipmentRequest, adminId: string): Promise<OrderShipment> {
+    const carrier = request.carrier?.trim()
+    const trackingNumber = request.trackingNumber?.trim()
+
+    if (!carrier) {
+      throw new ShipmentError(ShipmentErrorCode.INVALID_REQUEST, 'Please enter the carrier')
+    }
+    if (!trackingNumber) {
+      throw new ShipmentError(ShipmentErrorCode.TRACKING_REQUIRED, 'A tracking number is required to ship items')
+    }
+    if (request.carrierCode && !CARRIERS.some(option => option.code === request.carrierCode)) {
+      throw new ShipmentError(ShipmentErrorCode.INVALID_REQUEST, 'Unknown carrier')
+    }
+    const carrierCode = request.carrierCode || resolveCarrierCode(carrier)
+
+    const order = await this.loadOrder(orderId)
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new ShipmentError(ShipmentErrorCode.NOT_SHIPPABLE, `A ${order.status.replace('_', ' ')} order cannot ship`)
+    }
+
+    const lines: FulfilmentLine[] = order.order_items.map(toFulfilmentLine)
+    let items: ShipmentLine[]
+    try {
+      items = planShipment(lines, Array.isArray(request.items) ? request.items : [])
+    } catch (error) {
+      if (error instanceof ShipmentPlanError) {
+        const code = error.code === 'QUANTITY_EXCEEDED' ? ShipmentErrorCode.QUANTITY_EXCEEDED : ShipmentErrorCode.INVALID_REQUEST
+        throw new ShipmentError(code, error.message)
+      }
+      throw error
+    }
+
+    const { data: shipmentId, error } = await supabase.rpc('create_order_shipment', {
+      p_order_id: orderId,
+      p_items: items.map(item => ({ order_item_id: item.orderItemId, quantity: item.quantity })),
+      p_carrier: carrier,
+      p_tracking_number: trackingNumber,
+      p_created_by: adminId
+    })
+
+    if (error) {
+      const code = error.hint ? RPC_ERROR_CODES[error.hint] : undefined
+      if (code) throw new ShipmentError(code, error.message)
+      throw error
+    }
+
+    // Shipments with a known carrier are picked up by ShipmentTrackingService
+    if (carrierCode) {
+      const { error: carrierError } = await supabase
+        .from('order_shipments')
+        .update({ carrier_code: carrierCode })
+        .eq('id', shipmentId)
+
+      if (carrierError) {
+        console.error(`Failed to set the carrier of shipment ${shipmentId}:`, carrierError)
+      }
+    }
+
+    const updated = await this.loadOrder(orderId)
+    const shipment = this.sortShipments(updated.order_shipments).find(candidate => candidate.id === shipmentId)
+    if (!shipment) {
+      throw new Error(`Shipment ${shipmentId} was not saved for order ${orderId}`)
+    }
+
+    await this.sendTrackingEmail(updated, shipment)
+
+    return shipment
+  }
+
+  /**
+   * Mark a shipment as delivered; the order is delivered with its last shipment.
+   * adminId is null when the carrier reported the delivery.
+   */
+  static async markDelivered(orderId: string, shipmentId: string, adminId: string | null): Promise<OrderStatus> {
+    const order = await this.loadOrder(orderId)
+    if (!order.order_shipments.some((shipment: any) => shipment.id === shipmentId)) {
+      throw new ShipmentError(ShipmentErrorCode.NOT_FOUND, 'Shipment not found')
+    }
+
+    const { data: status, error } = await supabase.rpc('mark_order_shipment_delivered', {
+      p_shipment_id: shipmentId,
+      p_changed_by: adminId
+    })
+
+    if (error) {
+      const code = error.hint ? RPC_ERROR_CODES[error.hint] : undefined
+      if (code) throw new ShipmentError(code, error.message)
+      throw error
+    }
+
+    if (status === 'delivered' && order.status !== 'delivered') {
+      const customerEmail = order.users?.email || order.customer_email
+      if (customerEmail) {
+        try {
+          await EmailService.sendOrderStatusUpdate({
+            status: 'delivered',
+            orderNumber: this.orderNumber(order),
+            customerName: order.users?.user_metadata?.full_name || 'Customer',
+            customerEmail
+          })
+        } catch (emailError) {
+          console.error(`Error sending delivered email for order ${orderId}:`, emailError)
+        }
+      }
+    }
+
+    return status as OrderStatus
+  }
+
+  private static async loadOrder(orderId: string) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (
+          *,
+          products (name, brand, images, brands (name))
+        ),
+        order_shipments (*, order_shipment_items (*)),
+        shipping_rates (carrier, estimated_days_max),
+        users (email, user_metadata)
+      `)
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load order ${orderId}: ${error.message}`)
+    }
+    if (!data) {
+      throw new ShipmentError(ShipmentErrorCode.NOT_FOUND, 'Order not found')
+    }
+
+    return data
+  }
+
+  // Email failures are logged; the shipment has already been saved
+  private static async sendTrackingEmail(order: any, shipment: OrderShipment) {
+    const customerEmail = order.users?.email || order.customer_email
+    if (!customerEmail) return
+
+    const deliveryDays = order.shipping_rates?.estimated_days_max
+    const remainingItems = order.order_items.reduce(
+      (sum: number, item: any) => sum + unshippedQuantity(toFulfilmentLine(item)),
+      0
+    )
+
+    try {
+      await EmailService.sendShipmentTracking({
+        orderNumber: this.orderNumber(order),
+        customerName: order.users?.user_metadata?.full_name || 'Customer',
+        customerEmail,
+        trackingNumber: shipment.trackingNumber,
+        carrier: shipment.carrier,
+        trackingUrl: shipment.trackingUrl || `${process.env.NEXT_PUBLIC_SITE_URL || ''}/orders`,
+        estimatedDelivery: deliveryDays
+          ? new Date(Date.now() + deliveryDays * 24 * 60 * 60 * 1000).toLocaleDateString()
+          : 'Within a few business days',
+        items: shipment.items.map(line => {
+          const item = order.order_items.find((candidate: any) => candidate.id === line.orderItemId)
+          return {
+            name: item?.products?.name || 'Unknown Product',
+            brand: item?.products?.brands?.name || item?.products?.brand || '',
+            quantity: line.quantity,
+            image: item?.products?.images?.[0] || '/placeholder-product.jpg'
+          }
+        }),
+        shipmentNumber: shipment.shipmentNumber,
+        remainingItems
+      })
+    } catch (error) {
+      console.error(`Error sending tracking email for shipment ${shipment.id}:`, error)
+    }
+  }
+
+  private static defaultCarrier(order: any): string {
+    return order.shipping_rates?.carrier || order.shipping_method || ''
+  }
+
+  private static orderNumber(order: any): string {
+    return order.order_number || `#${order.id.slice(-8).toUpperCase()}`
+  }
+
+  private static sortShipments(rows: any[] | null): OrderShipment[] {
+    return (rows || [])
+      .map(toOrderShipment)
+      .sort((a, b) => a.shipmentNumber - b.shipmentNumber)
+  }
+}
+
+function toFulfilmentLine(item: any): FulfilmentLine {
+  return {
+    id: item.id,
+    quantity: item.quantity,
+    refundedQuantity: item.refunded_quantity || 0,
+    shippedQuantity: item.shipped_quantity || 0
+  }
+}
+
+export default ShipmentService
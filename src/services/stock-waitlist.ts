@@ -0,0 +1,157 @@
+import { supabase } from '@/lib/supabase/server'
+import { toCanonicalSize } from '@/lib/sizing'
+import { StockManager } from '@/lib/stock/manager'
+import { availableUnits } from '@/lib/stock/waitlist'
+import type { WaitlistEntry, WaitlistPlace } from '@/types/waitlist'
+
+export interface WaitlistInput {
+  productId?: string
+  size?: string
+}
+
+/**
+ * Users' places in the back-in-stock queue of a sold-out size. StockManager offers restocked units
+ * to the queue and passes on offers that run out; this is the user's side of it.
+ */
+export class StockWaitlistService {
+  /**
+   * The user's open places, waiting or offered, with how far each waiting place is from the front
+   */
+  static async listPlaces(userId: string, productId?: string): Promise<WaitlistPlace[]> {
+    let query = supabase
+      .from('stock_waitlist')
+      .select(`
+        *,
+        products (
+          name,
+          gender,
+          image_urls,
+          brands (name, display_name)
+        )
+      `)
+      .eq('user_id', userId)
+      .in('status', ['waiting', 'offered'])
+      .order('created_at', { ascending: false })
+
+    if (productId) {
+      query = query.eq('product_id', productId)
+    }
+
+    const { data, error } = await query
+    if (error) throw new Error(`Failed to load waitlist: ${error.message}`)
+
+    return Promise.all((data || []).map(async (row: any) => {
+      const { products: product, ...entry } = row
+      return {
+        ...(entry as WaitlistEntry),
+        position: entry.status === 'waiting' ? await this.queuePosition(entry) : null,
+        product: {
+          name: product?.name || 'Unknown product',
+          brand: product?.brands?.display_name || product?.brands?.name || null,
+          gender: product?.gender || null,
+          image_url: product?.image_urls?.[0] || null
+        }
+      }
+    }))
+  }
+
+  /**
+   * Queue for a size that is sold out. Sizes with stock can simply be bought.
+   */
+  static async join(userId: string, input: WaitlistInput): Promise<{ place?: WaitlistEntry; error?: string }> {
+    const validationError = this.validate(input)
+    if (validationError) {
+      return { error: validationError }
+    }
+
+    const size = toCanonicalSize(input.size!)
+
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id, is_active, release_mode, product_stock (size, quantity, reserved_quantity)')
+      .eq('id', input.productId!)
+      .maybeSingle()
+
+    if (productError) throw new Error(`Failed to load product: ${productError.message}`)
+    if (!product || !product.is_active) {
+      return { error: 'Product not found' }
+    }
+    // Raffle releases go to drawn winners, never to a queue
+    if (product.release_mode === 'raffle') {
+      return { error: 'This release is sold by raffle' }
+    }
+
+    const stock = (product.product_stock || []).find((row: any) => row.size === size)
+    if (!stock) {
+      return { error: 'This size is not sold for this product' }
+    }
+    if (availableUnits(stock) > 0) {
+      return { error: 'This size is in stock' }
+    }
+
+    const { data, error } = await supabase
+      .from('stock_waitlist')
+      .insert({ product_id: product.id, size, user_id: userId })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return { error: 'You are already on the waitlist for this size' }
+      }
+      throw new Error(`Failed to join waitlist: ${error.message}`)
+    }
+
+    return { place: data }
+  }
+
+  /**
+   * Leave the queue. A unit already held for the user goes to the next in line.
+   */
+  static async leave(userId: string, id: string): Promise<{ error?: string }> {
+    const { data: place, error } = await supabase
+      .from('stock_waitlist')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .in('status', ['waiting', 'offered'])
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load waitlist place: ${error.message}`)
+    if (!place) {
+      return { error: 'Waitlist place not found' }
+    }
+
+    const result = await new StockManager().passWaitlistOffer(place.id, 'cancelled')
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+
+    return {}
+  }
+
+  static validate(input: WaitlistInput): string | null {
+    if (!input.productId || typeof input.productId !== 'string') {
+      return 'productId is required'
+    }
+    if (!input.size || typeof input.size !== 'string' || !input.size.trim()) {
+      return 'Choose the size to wait for'
+    }
+    return null
+  }
+
+  private static async queuePosition(entry: WaitlistEntry): Promise<number> {
+    const { count, error } = await supabase
+      .from('stock_waitlist')
+      .select('id', { count: 'exact', head: true })
+      .eq('product_id', entry.product_id)
+      .eq('size', entry.size)
+      .eq('status', 'waiting')
+      .lt('created_at', entry.created_at)
+
+    if (error) throw new Error(`Failed to load waitlist position: ${error.message}`)
+    return (count || 0) + 1
+  }
+}
+
+export default StockWaitlistService
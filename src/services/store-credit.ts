@@ -0,0 +1,178 @@
+import { supabase } from '@/lib/supabase/server'
+import { AuditLogger } from '@/lib/monitoring/audit'
+import { PricingService, BASE_CURRENCY } from '@/services/pricing'
+import type { Currency } from '@/types/pricing'
+import type { StoreCreditAccount, StoreCreditEntry } from '@/types/store-credit'
+
+export enum StoreCreditErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  NO_ACCOUNT = 'NO_ACCOUNT',
+  INSUFFICIENT_CREDIT = 'INSUFFICIENT_CREDIT',
+  GIFT_CARD_NOT_FOUND = 'GIFT_CARD_NOT_FOUND',
+  GIFT_CARD_REDEEMED = 'GIFT_CARD_REDEEMED'
+}
+
+export class StoreCreditError extends Error {
+  constructor(
+    public code: StoreCreditErrorCode,
+    message: string,
+    public details?: any
+  ) {
+    super(message)
+    this.name = 'StoreCreditError'
+  }
+}
+
+// Errors raised by the store credit RPCs carry one of these hints
+export const STORE_CREDIT_RPC_ERRORS: Record<string, StoreCreditErrorCode> = {
+  invalid_amount: StoreCreditErrorCode.INVALID_REQUEST,
+  no_account: StoreCreditErrorCode.NO_ACCOUNT,
+  insufficient_credit: StoreCreditErrorCode.INSUFFICIENT_CREDIT,
+  gift_card_not_found: StoreCreditErrorCode.GIFT_CARD_NOT_FOUND,
+  gift_card_redeemed: StoreCreditErrorCode.GIFT_CARD_REDEEMED
+}
+
+// Credit applied to an order: `amount` comes off the order total, `baseAmount` off the balance
+export interface CreditPayment {
+  amount: number // order currency
+  baseAmount: number // base currency
+}
+
+/**
+ * Store credit balances. Balances are in the base currency and only change by posting an entry to the
+ * append-only ledger (post_store_credit_entry), which locks the account and refuses to go below zero.
+ * Credit is spent by place_checkout_order, given back when that order goes unpaid, and added by gift
+ * card redemptions, refunds issued as credit and admin adjustments.
+ */
+export class StoreCreditService {
+  static async getBalance(userId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('store_credit_accounts')
+      .select('balance')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load store credit: ${error.message}`)
+
+    return data ? parseFloat(data.balance) : 0
+  }
+
+  /**
+   * The balance with its most recent ledger entries
+   */
+  static async getAccount(userId: string, limit = 50): Promise<StoreCreditAccount> {
+    const [balance, entries] = await Promise.all([
+      this.getBalance(userId),
+      supabase
+        .from('store_credit_ledger')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    ])
+
+    if (entries.error) throw new Error(`Failed to load store credit history: ${entries.error.message}`)
+
+    return { userId, balance, entries: (entries.data || []).map(row => this.toEntry(row)) }
+  }
+
+  /**
+   * Add an active gift card's full amount to the user's balance; a code can only be redeemed once
+   */
+  static async redeemGiftCard(userId: string, code: string): Promise<StoreCreditEntry> {
+    if (!code || !code.trim()) {
+      throw new StoreCreditError(StoreCreditErrorCode.INVALID_REQUEST, 'Please enter a gift card code')
+    }
+
+    const { data, error } = await supabase.rpc('redeem_gift_card', {
+      p_code: code,
+      p_user_id: userId
+    })
+
+    if (error) throw this.rpcError(error)
+
+    return this.toEntry(data)
+  }
+
+  /**
+   * Credit (positive) or debit (negative) a balance by hand. The entry is recorded in the ledger and
+   * the change in the audit log with the admin who made it.
+   */
+  static async adjustBalance(userId: string, amount: number, reason: string, adminUserId: string): Promise<StoreCreditEntry> {
+    const rounded = PricingService.round(amount, BASE_CURRENCY)
+    if (!Number.isFinite(amount) || rounded === 0) {
+      throw new StoreCreditError(StoreCreditErrorCode.INVALID_REQUEST, 'Adjustments need a non-zero amount')
+    }
+    if (!reason || !reason.trim()) {
+      throw new StoreCreditError(StoreCreditErrorCode.INVALID_REQUEST, 'Adjustments need a reason')
+    }
+
+    const { data, error } = await supabase.rpc('post_store_credit_entry', {
+      p_user_id: userId,
+      p_amount: rounded,
+      p_entry_type: 'adjustment',
+      p_note: reason.trim(),
+      p_created_by: adminUserId
+    })
+
+    if (error) throw this.rpcError(error)
+
+    const entry = this.toEntry(data)
+
+    await new AuditLogger().logStoreCreditAdjustment(
+      userId,
+      entry.amount,
+      PricingService.round(entry.balanceAfter - entry.amount, BASE_CURRENCY),
+      entry.balanceAfter,
+      entry.note || '',
+      adminUserId,
+      entry.id
+    )
+
+    return entry
+  }
+
+  /**
+   * How much of an order total a balance pays for. The balance is converted at the order's locked rate;
+   * when it covers the whole order the total is paid exactly and only its base value is taken.
+   */
+  static planCreditPayment(balance: number, total: number, fxRate: number, currency: Currency): CreditPayment {
+    if (balance <= 0 || total <= 0) {
+      return { amount: 0, baseAmount: 0 }
+    }
+
+    const available = PricingService.convert(balance, fxRate, currency)
+    if (available >= total) {
+      return {
+        amount: total,
+        baseAmount: Math.min(balance, PricingService.round(total / fxRate, BASE_CURRENCY))
+      }
+    }
+
+    return { amount: available, baseAmount: balance }
+  }
+
+  private static rpcError(error: { message: string; hint?: string | null }): Error {
+    const code = error.hint ? STORE_CREDIT_RPC_ERRORS[error.hint] : undefined
+    if (code) return new StoreCreditError(code, error.message)
+    return new Error(`Store credit update failed: ${error.message}`)
+  }
+
+  private static toEntry(row: any): StoreCreditEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      amount: parseFloat(row.amount),
+      balanceAfter: parseFloat(row.balance_after),
+      type: row.entry_type,
+      giftCardId: row.gift_card_id,
+      orderId: row.order_id,
+      refundId: row.refund_id,
+      note: row.note,
+      createdBy: row.created_by,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export default StoreCreditService
@@ -0,0 +1,363 @@
+import { supabase } from '@/lib/supabase/server'
+import type { PaymentEvent, ProviderPaymentIntent } from '@/lib/payments'
+import { StripeWebhookQueue } from '@/lib/webhook/stripe-queue'
+import { EmailService, type OrderConfirmationData } from '@/services/email/EmailService'
+import { InventoryService } from '@/services/inventory'
+import { OrderService } from '@/services/orders'
+import { OrderStatusService, OrderStatusError, OrderStatusErrorCode } from '@/services/order-status'
+import { RefundService } from '@/services/refunds'
+import { GuestOrderService } from '@/services/guest-orders'
+import { GiftCardService } from '@/services/gift-cards'
+import type { SizeSystem } from '@/lib/sizing'
+import type { DiscountLine } from '@/types/promotion'
+
+// Payment statuses of an order that has been paid, whatever has been refunded since
+const PAID_STATUSES = ['completed', 'partially_refunded', 'refunded']
+
+// Transition errors that mean an earlier delivery or the checkout confirm already moved the order
+const ALREADY_APPLIED = [OrderStatusErrorCode.NO_CHANGE, OrderStatusErrorCode.INVALID_TRANSITION]
+
+/**
+ * Handles stored Stripe events for the webhook queue. PaymentService settles confirm results and
+ * simulator events through the same handlers, so every payment moves the order the same way. Each
+ * handler is safe to run again for the same event: stock is only committed or released for reservations
+ * that still exist, and the confirmation email is claimed on the order before it is sent. Errors are
+ * thrown so the queue retries the event.
+ */
+export class StripeWebhookService {
+  static async handle(event: PaymentEvent): Promise<void> {
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        await this.handlePaymentSucceeded(event.intent!)
+        break
+
+      case 'payment_intent.payment_failed':
+        await this.handlePaymentFailed(event.intent!)
+        break
+
+      case 'charge.refunded':
+        await this.handleChargeRefunded(event)
+        break
+
+      default:
+        console.log(`Unhandled event type: ${event.type}`)
+    }
+  }
+
+  /**
+   * Mark the intent's order (or gift card) paid. Returns false when the intent does not pay for the
+   * order it names, which is left unpaid.
+   */
+  static async handlePaymentSucceeded(paymentIntent: ProviderPaymentIntent): Promise<boolean> {
+    console.log(`Payment succeeded: ${paymentIntent.id}`)
+
+    if (paymentIntent.metadata.giftCardId) {
+      await GiftCardService.activateGiftCard(paymentIntent.metadata.giftCardId, paymentIntent)
+      return true
+    }
+
+    const orderId = paymentIntent.metadata.orderId
+    if (!orderId) {
+      console.error('No orderId in payment intent metadata')
+      return true
+    }
+
+    const orderData = await this.loadOrder(orderId)
+
+    if (!OrderService.isOrderPaymentIntent(orderData, paymentIntent)) {
+      console.error(`Payment ${paymentIntent.id} does not match order ${orderId}; leaving the order unpaid`)
+      return false
+    }
+
+    // Pending orders commit their reservations; orders cancelled after a failed attempt reserve stock again
+    try {
+      await OrderStatusService.transition(
+        orderId,
+        { status: 'processing', paymentStatus: 'completed' },
+        { note: `Payment ${paymentIntent.id} succeeded`, fields: { stripe_payment_intent_id: paymentIntent.id } }
+      )
+    } catch (error) {
+      // The checkout confirm may already have marked it paid; commit anything it left open
+      if (!(error instanceof OrderStatusError && ALREADY_APPLIED.includes(error.code))) throw error
+      await this.commitReservations(orderData)
+    }
+
+    // /api/checkout placed the order from the saved cart; remove the lines it bought now that it is paid.
+    // Guest carts are saved under the cart session the order was placed from.
+    for (const item of orderData.order_items) {
+      let cartLines = supabase
+        .from('shopping_cart')
+        .delete()
+        .eq('product_id', item.product_id)
+        .eq('size', item.size)
+
+      cartLines = orderData.user_id
+        ? cartLines.eq('user_id', orderData.user_id)
+        : cartLines.eq('session_id', orderData.cart_session_id).is('user_id', null)
+
+      const { error: cartError } = await cartLines
+
+      if (cartError) {
+        console.error('Error clearing cart after payment:', cartError)
+      }
+    }
+
+    if (!(await this.claimConfirmationEmail(orderId))) {
+      console.log(`Order ${orderId} was already confirmed; skipping emails`)
+      return true
+    }
+
+    try {
+      await EmailService.sendOrderConfirmation(await this.buildConfirmationEmail(orderData))
+      console.log(`Order confirmation email sent for order ${orderId}`)
+    } catch (emailError) {
+      console.error('Error sending order confirmation email:', emailError)
+    }
+
+    // Send admin notification for high-value orders
+    try {
+      // Threshold is in the base currency; order totals are in the buyer's currency
+      if (orderData.total / (orderData.fx_rate || 1) > 500) {
+        await EmailService.sendAdminNotification('high_value_order', {
+          orderNumber: orderData.order_number || `#${orderId.slice(-8).toUpperCase()}`,
+          total: orderData.total,
+          customerEmail: orderData.users?.email || orderData.customer_email,
+          paymentIntentId: paymentIntent.id
+        })
+      }
+    } catch (adminEmailError) {
+      console.error('Error sending admin notification:', adminEmailError)
+    }
+
+    console.log(`Order ${orderId} processed successfully after payment`)
+    return true
+  }
+
+  // Cancel the intent's order and release its stock, or void its gift card
+  static async handlePaymentFailed(paymentIntent: ProviderPaymentIntent) {
+    console.log(`Payment failed: ${paymentIntent.id}`)
+
+    if (paymentIntent.metadata.giftCardId) {
+      await GiftCardService.voidGiftCard(paymentIntent.metadata.giftCardId, paymentIntent.id)
+      return
+    }
+
+    const orderId = paymentIntent.metadata.orderId
+    if (!orderId) {
+      console.error('No orderId in payment intent metadata')
+      return
+    }
+
+    const orderData = await this.loadOrder(orderId)
+
+    // A retry with another card may already have paid the order
+    if (PAID_STATUSES.includes(orderData.payment_status)) {
+      console.log(`Order ${orderId} is already paid; ignoring failed attempt on ${paymentIntent.id}`)
+      return
+    }
+
+    // Cancelling releases the reservations still held for the order and tells the customer
+    try {
+      await OrderStatusService.transition(
+        orderId,
+        { status: 'cancelled', paymentStatus: 'failed' },
+        {
+          note: paymentIntent.lastError?.message || 'Payment failed',
+          fields: {
+            stripe_payment_intent_id: paymentIntent.id,
+            failure_reason: paymentIntent.lastError?.message || 'Payment failed'
+          }
+        }
+      )
+    } catch (error) {
+      if (!(error instanceof OrderStatusError && ALREADY_APPLIED.includes(error.code))) throw error
+      console.log(`Order ${orderId} was already cancelled; not cancelling again for ${paymentIntent.id}`)
+      return
+    }
+
+    // Send admin notification for payment failure
+    try {
+      await EmailService.sendAdminNotification('payment_failed', {
+        orderNumber: orderData.order_number || `#${orderId.slice(-8).toUpperCase()}`,
+        total: orderData.total,
+        customerEmail: orderData.users?.email || orderData.customer_email,
+        paymentIntentId: paymentIntent.id,
+        failureReason: paymentIntent.lastError?.message || 'Unknown error',
+        failureCode: paymentIntent.lastError?.code
+      })
+      console.log(`Admin notification sent for failed payment ${orderId}`)
+    } catch (emailError) {
+      console.error('Error sending payment failure notification:', emailError)
+    }
+
+    console.log(`Order ${orderId} marked as failed and inventory released`)
+  }
+
+  private static async handleChargeRefunded(event: PaymentEvent) {
+    if (!event.refund) {
+      console.error(`No payment intent on refunded charge in event ${event.id}`)
+      return
+    }
+
+    console.log(`Charge refunded: ${event.refund.intentId}`)
+
+    // Refunds issued from /admin/orders are already recorded; anything beyond them was made in Stripe
+    const refund = await RefundService.recordProviderRefund(
+      event.refund.intentId,
+      event.refund.amountRefunded,
+      event.refund.currency
+    )
+
+    if (refund) {
+      console.log(`Recorded refund ${refund.id} made outside the app for order ${refund.orderId}`)
+    }
+  }
+
+  private static async loadOrder(orderId: string) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (
+          *,
+          products (id, name, brand, gender, images, brands (name))
+        ),
+        users (email, user_metadata)
+      `)
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load order ${orderId}: ${error.message}`)
+    }
+    if (!data) {
+      throw new Error(`Order ${orderId} not found`)
+    }
+
+    return data
+  }
+
+  // Reservations on the order that have not been committed or released yet
+  private static async liveReservationIds(orderData: any): Promise<string[]> {
+    const reservationIds = orderData.order_items
+      .map((item: any) => item.reservation_id)
+      .filter(Boolean)
+
+    if (reservationIds.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('stock_reservations')
+      .select('id')
+      .in('id', reservationIds)
+
+    if (error) {
+      throw new Error(`Failed to load reservations for order ${orderData.id}: ${error.message}`)
+    }
+
+    return (data || []).map(reservation => reservation.id)
+  }
+
+  private static async commitReservations(orderData: any) {
+    const reservationIds = await this.liveReservationIds(orderData)
+
+    if (reservationIds.length === 0) {
+      console.log(`No open reservations for order ${orderData.id}; stock already committed`)
+      return
+    }
+
+    const result = await InventoryService.commitReservedStock(reservationIds, orderData.id)
+    if (!result.success) {
+      throw new Error(`Failed to commit inventory for order ${orderData.id}: ${result.error}`)
+    }
+
+    console.log(`Inventory committed for order ${orderData.id}`)
+  }
+
+  /**
+   * Mark the confirmation email as sent. Returns false when it already was, so it goes out once per order.
+   */
+  private static async claimConfirmationEmail(orderId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('orders')
+      .update({ confirmation_email_sent_at: new Date().toISOString() })
+      .eq('id', orderId)
+      .is('confirmation_email_sent_at', null)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to claim confirmation email for order ${orderId}: ${error.message}`)
+    }
+
+    return (data?.length || 0) > 0
+  }
+
+  private static async buildConfirmationEmail(orderData: any): Promise<OrderConfirmationData> {
+    return {
+      orderNumber: orderData.order_number || `#${orderData.id.slice(-8).toUpperCase()}`,
+      customerName: orderData.users?.user_metadata?.full_name || 'Customer',
+      customerEmail: orderData.users?.email || orderData.customer_email,
+      orderDate: new Date(orderData.created_at).toLocaleDateString(),
+      items: orderData.order_items.map((item: any) => ({
+        name: item.products?.name || 'Unknown Product',
+        brand: Array.isArray(item.products?.brands) ? item.products.brands[0]?.name : item.products?.brands?.name || item.products?.brand,
+        size: item.size,
+        gender: item.products?.gender,
+        quantity: item.quantity,
+        price: item.unit_price,
+        image: item.products?.images?.[0] || '/placeholder-product.jpg'
+      })),
+      sizeSystem: await this.getUserSizeSystem(orderData.user_id),
+      subtotal: orderData.subtotal,
+      shipping: orderData.shipping_cost || 0,
+      tax: orderData.tax_amount || 0,
+      discounts: (orderData.discount_lines || []).map((line: DiscountLine) => ({
+        label: `${line.target === 'shipping' ? 'Free shipping' : line.name} (${line.code})`,
+        amount: line.amount
+      })),
+      total: orderData.total,
+      storeCredit: Number(orderData.store_credit_amount || 0),
+      currency: orderData.currency,
+      shippingAddress: orderData.shipping_address ? {
+        name: `${orderData.shipping_address.firstName} ${orderData.shipping_address.lastName}`,
+        address: orderData.shipping_address.address,
+        city: orderData.shipping_address.city,
+        postalCode: orderData.shipping_address.postalCode,
+        country: orderData.shipping_address.country
+      } : undefined,
+      estimatedDelivery: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toLocaleDateString(),
+      orderLookupUrl: !orderData.user_id && orderData.customer_email && orderData.order_number
+        ? GuestOrderService.lookupUrl(
+            orderData.order_number,
+            GuestOrderService.createLookupToken(orderData.id, orderData.customer_email)
+          )
+        : undefined
+    }
+  }
+
+  /**
+   * The buyer's preferred size system for order emails; defaults to US
+   */
+  private static async getUserSizeSystem(userId?: string | null): Promise<SizeSystem> {
+    if (!userId) return 'US'
+
+    const { data } = await supabase
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    return (data?.preferences?.sizeSystem as SizeSystem) || 'US'
+  }
+}
+
+// Queue instance wired to the handlers above
+let queueInstance: StripeWebhookQueue | null = null
+
+export function getStripeWebhookQueue(): StripeWebhookQueue {
+  if (!queueInstance) {
+    queueInstance = new StripeWebhookQueue(event => StripeWebhookService.handle(event))
+  }
+  return queueInstance
+}
+
+export default StripeWebhookService
@@ -0,0 +1,353 @@
+import { supabase } from '@/lib/supabase/server'
+import {
+  alertChannels,
+  nextDeliveryAt,
+  priceDropAlert,
+  restockAlertSizes,
+  sellingPrice
+} from '@/lib/watchlist'
+import { formatSize, type SizeSystem } from '@/lib/sizing'
+import { EmailService } from '@/services/email/EmailService'
+import { PricingService, BASE_CURRENCY } from '@/services/pricing'
+import type { WatchlistAlert, WatchlistItem } from '@/types/watchlist'
+
+export interface MatchResult {
+  events: number
+  alerts: number
+}
+
+export interface DeliveryResult {
+  users: number
+  sent: number // alerts delivered on at least one channel
+  skipped: number // alerts the user has turned off on every channel
+  held: number // alerts waiting for the user's rate limit
+}
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || ''
+
+/**
+ * Turns price and stock events into watchlist alerts and delivers them. The matcher processes each
+ * monitor event once; delivery sends a user's pending alerts by email and to the in-app feed, one
+ * alert on its own and several as a digest, no more often than the rate limit allows.
+ */
+export class WatchlistAlertService {
+  static async processAlerts(): Promise<MatchResult & DeliveryResult> {
+    const matched = await this.matchEvents()
+    const delivered = await this.deliverAlerts()
+    return { ...matched, ...delivered }
+  }
+
+  /**
+   * Match unprocessed price and stock events against the watchlist. Prices are re-read from the
+   * catalog rather than taken from the event, since several events for one product can land between
+   * runs. Stock events without a size come from the KicksDB webhooks and describe marketplace stock,
+   * not what the store sells, so only the store's own restocks alert.
+   */
+  static async matchEvents(limit = 200): Promise<MatchResult> {
+    const { data: pending, error } = await supabase
+      .from('monitor_events')
+      .select('id')
+      .eq('notification_sent', false)
+      .in('event_type', ['price_change', 'stock_change'])
+      .not('product_id', 'is', null)
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw new Error(`Failed to load monitor events: ${error.message}`)
+    if (!pending || pending.length === 0) return { events: 0, alerts: 0 }
+
+    // Claim the events so a concurrent run does not match them too
+    const { data: events, error: claimError } = await supabase
+      .from('monitor_events')
+      .update({ notification_sent: true })
+      .in('id', pending.map(event => event.id))
+      .eq('notification_sent', false)
+      .select('id, product_id, event_type, size')
+
+    if (claimError) throw new Error(`Failed to claim monitor events: ${claimError.message}`)
+    if (!events || events.length === 0) return { events: 0, alerts: 0 }
+
+    try {
+      const alerts = await this.matchClaimedEvents(events)
+      return { events: events.length, alerts }
+    } catch (matchError) {
+      // Put them back for the next run
+      await supabase
+        .from('monitor_events')
+        .update({ notification_sent: false })
+        .in('id', events.map(event => event.id))
+      throw matchError
+    }
+  }
+
+  private static async matchClaimedEvents(
+    events: Array<{ id: string; product_id: string; event_type: string; size: string | null }>
+  ): Promise<number> {
+    const repriced = new Set<string>()
+    const restocked = new Map<string, string[]>()
+    for (const event of events) {
+      if (event.event_type === 'price_change') {
+        repriced.add(event.product_id)
+      } else if (event.size) {
+        restocked.set(event.product_id, [...(restocked.get(event.product_id) || []), event.size])
+      }
+    }
+
+    const productIds = Array.from(new Set([...Array.from(repriced), ...Array.from(restocked.keys())]))
+    if (productIds.length === 0) return 0
+
+    const [{ data: watches, error: watchError }, { data: products, error: productError }] = await Promise.all([
+      supabase.from('user_watchlist').select('*').in('product_id', productIds),
+      supabase
+        .from('products')
+        .select('id, retail_price, current_price, product_stock (size, quantity, reserved_quantity)')
+        .in('id', productIds)
+    ])
+
+    if (watchError) throw new Error(`Failed to load watchlist: ${watchError.message}`)
+    if (productError) throw new Error(`Failed to load watched products: ${productError.message}`)
+
+    const productsById = new Map<string, any>((products || []).map(product => [product.id, product]))
+    const now = new Date()
+    const alerts: Array<Partial<WatchlistAlert>> = []
+    const watchUpdates: Array<{ id: string; values: Partial<WatchlistItem> }> = []
+
+    for (const watch of (watches || []) as WatchlistItem[]) {
+      const product = productsById.get(watch.product_id)
+      if (!product) continue
+
+      const values: Partial<WatchlistItem> = {}
+
+      if (repriced.has(watch.product_id)) {
+        const price = sellingPrice(product)
+        const drop = priceDropAlert(watch, price)
+        if (drop) {
+          alerts.push({
+            watch_id: watch.id,
+            user_id: watch.user_id,
+            product_id: watch.product_id,
+            kind: 'price_drop',
+            price,
+            previous_price: drop.previousPrice
+          })
+          values.watched_price = price
+        } else if (watch.watched_price === null && price !== null) {
+          // The product had no price when it was watched; drops are measured from this one
+          values.watched_price = price
+        }
+      }
+
+      if (restocked.has(watch.product_id)) {
+        const available = (product.product_stock || [])
+          .filter((stock: any) => stock.quantity - stock.reserved_quantity > 0)
+          .map((stock: any) => stock.size)
+        const sizes = restockAlertSizes(watch, restocked.get(watch.product_id)!, available, now)
+
+        sizes.forEach(size => alerts.push({
+          watch_id: watch.id,
+          user_id: watch.user_id,
+          product_id: watch.product_id,
+          kind: 'restock',
+          size
+        }))
+        if (sizes.length > 0) values.last_restock_alert_at = now.toISOString()
+      }
+
+      if (Object.keys(values).length > 0) {
+        watchUpdates.push({ id: watch.id, values })
+      }
+    }
+
+    if (alerts.length > 0) {
+      const { error: insertError } = await supabase.from('watchlist_alerts').insert(alerts)
+      if (insertError) throw new Error(`Failed to store watchlist alerts: ${insertError.message}`)
+    }
+
+    for (const update of watchUpdates) {
+      const { error: updateError } = await supabase
+        .from('user_watchlist')
+        .update({ ...update.values, updated_at: now.toISOString() })
+        .eq('id', update.id)
+
+      if (updateError) {
+        console.error(`Error updating watchlist item ${update.id}:`, updateError)
+      }
+    }
+
+    return alerts.length
+  }
+
+  /**
+   * Deliver pending alerts, grouped per user. A user still inside their rate limit keeps their alerts
+   * pending; they go out together once the limit allows.
+   */
+  static async deliverAlerts(now: Date = new Date()): Promise<DeliveryResult> {
+    const { data: pending, error } = await supabase
+      .from('watchlist_alerts')
+      .select(`
+        *,
+        products (
+          name,
+          gender,
+          image_urls,
+          brands (name, display_name)
+        )
+      `)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(500)
+
+    if (error) throw new Error(`Failed to load watchlist alerts: ${error.message}`)
+
+    const byUser = new Map<string, any[]>()
+    for (const alert of pending || []) {
+      byUser.set(alert.user_id, [...(byUser.get(alert.user_id) || []), alert])
+    }
+
+    const result: DeliveryResult = { users: 0, sent: 0, skipped: 0, held: 0 }
+
+    for (const [userId, alerts] of Array.from(byUser.entries())) {
+      try {
+        const outcome = await this.deliverUserAlerts(userId, alerts, now)
+        if (outcome === 'held') {
+          result.held += alerts.length
+          continue
+        }
+        result.users++
+        result.sent += outcome.sent
+        result.skipped += outcome.skipped
+      } catch (deliveryError) {
+        console.error(`Error delivering watchlist alerts to user ${userId}:`, deliveryError)
+      }
+    }
+
+    return result
+  }
+
+  private static async deliverUserAlerts(
+    userId: string,
+    alerts: any[],
+    now: Date
+  ): Promise<'held' | { sent: number; skipped: number }> {
+    const since = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString()
+    const { data: recent, error: recentError } = await supabase
+      .from('watchlist_alerts')
+      .select('sent_at')
+      .eq('user_id', userId)
+      .eq('status', 'sent')
+      .gte('sent_at', since)
+
+    if (recentError) throw new Error(`Failed to load recent alerts: ${recentError.message}`)
+
+    const deliveries = Array.from(new Set((recent || []).map(row => row.sent_at as string)))
+    if (nextDeliveryAt(deliveries, now) > now) return 'held'
+
+    const { data: preferenceRow } = await supabase
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', userId)
+      .maybeSingle()
+    const preferences = preferenceRow?.preferences
+
+    const emailAlerts = alerts.filter(alert => alertChannels(preferences, alert.kind).email)
+    const inAppAlerts = alerts.filter(alert => alertChannels(preferences, alert.kind).inApp)
+    const skipped = alerts.filter(alert => !emailAlerts.includes(alert) && !inAppAlerts.includes(alert))
+
+    if (emailAlerts.length > 0) {
+      const { data: account } = await supabase.auth.admin.getUserById(userId)
+      const email = account?.user?.email
+      if (email) {
+        await EmailService.sendWatchlistAlert({
+          customerEmail: email,
+          customerName: account.user?.user_metadata?.full_name || 'there',
+          alerts: emailAlerts.map(alert => ({
+            kind: alert.kind,
+            productName: alert.products?.name || 'A product you watch',
+            brand: alert.products?.brands?.display_name || alert.products?.brands?.name || undefined,
+            gender: alert.products?.gender || undefined,
+            image: alert.products?.image_urls?.[0] || undefined,
+            size: alert.size || undefined,
+            price: alert.price === null ? undefined : Number(alert.price),
+            previousPrice: alert.previous_price === null ? undefined : Number(alert.previous_price),
+            productUrl: `${SITE_URL}/products/${alert.product_id}`
+          })),
+          currency: BASE_CURRENCY,
+          sizeSystem: preferences?.sizeSystem,
+          watchlistUrl: `${SITE_URL}/watchlist`
+        })
+      }
+    }
+
+    if (inAppAlerts.length > 0) {
+      const { error: notificationError } = await supabase
+        .from('user_notifications')
+        .insert(this.toNotification(userId, inAppAlerts, preferences?.sizeSystem))
+
+      if (notificationError) {
+        throw new Error(`Failed to store notification: ${notificationError.message}`)
+      }
+    }
+
+    const sent = alerts.filter(alert => !skipped.includes(alert))
+    const sentAt = now.toISOString()
+    if (sent.length > 0) {
+      await this.markAlerts(sent.map(alert => alert.id), { status: 'sent', sent_at: sentAt })
+    }
+    if (skipped.length > 0) {
+      await this.markAlerts(skipped.map(alert => alert.id), { status: 'skipped' })
+    }
+
+    return { sent: sent.length, skipped: skipped.length }
+  }
+
+  /**
+   * One in-app notification per delivery: the alert itself, or a digest listing them all
+   */
+  private static toNotification(userId: string, alerts: any[], sizeSystem?: SizeSystem) {
+    const lines = alerts.map(alert => this.describeAlert(alert, sizeSystem))
+
+    if (alerts.length === 1) {
+      const [alert] = alerts
+      return {
+        user_id: userId,
+        type: alert.kind,
+        title: alert.kind === 'price_drop' ? 'Price Drop!' : 'Back in Stock!',
+        message: lines[0],
+        data: { productId: alert.product_id, alertIds: [alert.id] }
+      }
+    }
+
+    return {
+      user_id: userId,
+      type: 'digest',
+      title: `${alerts.length} updates on your watchlist`,
+      message: lines.join('\n'),
+      data: { productIds: Array.from(new Set(alerts.map(alert => alert.product_id))), alertIds: alerts.map(alert => alert.id) }
+    }
+  }
+
+  private static describeAlert(alert: any, sizeSystem: SizeSystem = 'US'): string {
+    const name = alert.products?.name || 'A product you watch'
+    if (alert.kind === 'price_drop') {
+      return `${name} dropped to ${PricingService.formatPrice(Number(alert.price), BASE_CURRENCY)}`
+    }
+    const brand = alert.products?.brands?.name
+    const size = alert.size
+      ? formatSize(alert.size, sizeSystem, { brand, gender: alert.products?.gender })
+      : null
+    return size ? `${name} is back in stock in ${size}` : `${name} is back in stock`
+  }
+
+  private static async markAlerts(ids: string[], values: Partial<WatchlistAlert>): Promise<void> {
+    const { error } = await supabase
+      .from('watchlist_alerts')
+      .update(values)
+      .in('id', ids)
+
+    if (error) {
+      throw new Error(`Failed to update watchlist alerts: ${error.message}`)
+    }
+  }
+}
+
+export default WatchlistAlertService
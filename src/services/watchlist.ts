@@ -0,0 +1,152 @@
+import { supabase } from '@/lib/supabase/server'
+import { toCanonicalSize } from '@/lib/sizing'
+import { sellingPrice } from '@/lib/watchlist'
+import type { WatchlistEntry, WatchlistItem } from '@/types/watchlist'
+
+export interface WatchInput {
+  productId?: string
+  size?: string | null // canonical US size; omitted or null watches every size
+  targetPrice?: number | null
+  notifyPriceDrop?: boolean
+  notifyRestock?: boolean
+}
+
+/**
+ * Products users watch for a price drop or a restock. WatchlistAlertService matches price and stock
+ * events against these and sends the alerts.
+ */
+export class WatchlistService {
+  static async listWatchlist(userId: string): Promise<WatchlistEntry[]> {
+    const { data, error } = await supabase
+      .from('user_watchlist')
+      .select(`
+        *,
+        products (
+          name,
+          retail_price,
+          current_price,
+          image_urls,
+          brands (name, display_name),
+          product_stock (size, quantity, reserved_quantity)
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw new Error(`Failed to load watchlist: ${error.message}`)
+
+    return (data || []).map((row: any) => {
+      const { products: product, ...watch } = row
+      return {
+        ...this.toWatchlistItem(watch),
+        product: {
+          name: product?.name || 'Unknown product',
+          brand: product?.brands?.display_name || product?.brands?.name || null,
+          image_url: product?.image_urls?.[0] || null,
+          price: product ? sellingPrice(product) : null,
+          available_sizes: (product?.product_stock || [])
+            .filter((stock: any) => stock.quantity - stock.reserved_quantity > 0)
+            .map((stock: any) => stock.size)
+        }
+      }
+    })
+  }
+
+  /**
+   * Watch a product, or change how it is watched when the user already watches it in that size.
+   * The current selling price is recorded so later drops are measured against what the user saw.
+   */
+  static async watchProduct(userId: string, input: WatchInput): Promise<{ item?: WatchlistItem; error?: string }> {
+    const validationError = this.validate(input)
+    if (validationError) {
+      return { error: validationError }
+    }
+
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id, retail_price, current_price, is_active')
+      .eq('id', input.productId!)
+      .maybeSingle()
+
+    if (productError) throw new Error(`Failed to load product: ${productError.message}`)
+    if (!product || !product.is_active) {
+      return { error: 'Product not found' }
+    }
+
+    const size = input.size ? toCanonicalSize(input.size) : null
+    const values = {
+      target_price: input.targetPrice ?? null,
+      notify_price_drop: input.notifyPriceDrop ?? true,
+      notify_restock: input.notifyRestock ?? true,
+      updated_at: new Date().toISOString()
+    }
+
+    let existingQuery = supabase
+      .from('user_watchlist')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('product_id', product.id)
+    existingQuery = size === null ? existingQuery.is('size', null) : existingQuery.eq('size', size)
+
+    const { data: existing, error: existingError } = await existingQuery.maybeSingle()
+    if (existingError) throw new Error(`Failed to load watchlist: ${existingError.message}`)
+
+    const query = existing
+      ? supabase.from('user_watchlist').update(values).eq('id', existing.id)
+      : supabase.from('user_watchlist').insert({
+        ...values,
+        user_id: userId,
+        product_id: product.id,
+        size,
+        watched_price: sellingPrice(product)
+      })
+
+    const { data, error } = await query.select().single()
+    if (error) {
+      if (error.code === '23505') {
+        return { error: 'You already watch this product in that size' }
+      }
+      throw new Error(`Failed to save watchlist item: ${error.message}`)
+    }
+
+    return { item: this.toWatchlistItem(data) }
+  }
+
+  static async unwatch(userId: string, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_watchlist')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to remove watchlist item: ${error.message}`)
+    }
+  }
+
+  static validate(input: WatchInput): string | null {
+    if (!input.productId || typeof input.productId !== 'string') {
+      return 'productId is required'
+    }
+    if (input.size != null && (typeof input.size !== 'string' || !input.size.trim())) {
+      return 'size must be a size or left out to watch every size'
+    }
+    if (input.targetPrice != null && (typeof input.targetPrice !== 'number' || !(input.targetPrice > 0))) {
+      return 'The target price must be a positive amount'
+    }
+    if (input.notifyPriceDrop === false && input.notifyRestock === false) {
+      return 'Choose price drops, restocks or both'
+    }
+    return null
+  }
+
+  private static toWatchlistItem(row: any): WatchlistItem {
+    return {
+      ...row,
+      target_price: row.target_price === null ? null : Number(row.target_price),
+      watched_price: row.watched_price === null ? null : Number(row.watched_price)
+    }
+  }
+}
+
+export default WatchlistService
@@ -1,4 +1,5 @@
 import type { Product } from '@/services/products'
+import type { CartDiscount } from './promotion'
 
 export interface CartItem {
   id: string
@@ -12,7 +13,9 @@ export interface CartItem {
 export interface Cart {
   items: CartItem[]
   totalItems: number
-  totalPrice: number
+  totalPrice: number // before the discount
+  discount: CartDiscount | null
+  discountError: string | null // why an applied code was removed, e.g. the cart fell below its minimum
   updatedAt: string
 }
 
@@ -24,6 +27,8 @@ export interface CartActions {
   getItemByProductAndSize: (productId: string, size: string) => CartItem | undefined
   getStockStatus: (productId: string, size: string) => { available: boolean; availableQuantity: number }
   validateCart: () => Promise<void>
+  applyDiscountCode: (code: string) => Promise<void>
+  removeDiscountCode: () => void
 }
 
 export interface CartStockWarning {
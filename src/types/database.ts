@@ -27,9 +27,13 @@ export interface DBProduct {
   created_at: string;
   updated_at: string;
   last_synced_at: string;
+  content_hash?: string;
+  merged_into_id?: string | null;
+  search_keywords?: string[];
 
   // Relations
   brand?: DBBrand;
+  listings?: DBProductListing[];
   images?: DBProductImage[];
   market_data?: DBProductMarket[];
   sizes?: DBProductSize[];
@@ -57,13 +61,18 @@ export interface DBProductMarket {
   deadstock_sold: number;
   annual_high: number;
   annual_low: number;
+  platform?: 'stockx' | 'goat';
+  granularity?: MarketDataGranularity;
   recorded_at: string;
   created_at: string;
 }
 
+export type MarketDataGranularity = 'raw' | 'hourly' | 'daily' | 'weekly';
+
 export interface DBProductSize {
   id: string;
   product_id: string;
+  platform?: 'stockx' | 'goat';
   size: string;
   price: number;
   currency: string;
@@ -72,18 +81,84 @@ export interface DBProductSize {
   created_at: string;
 }
 
+/**
+ * One marketplace's listing of a canonical product
+ */
+export interface DBProductListing {
+  id: string;
+  product_id: string;
+  platform: 'stockx' | 'goat';
+  kicksdb_id: string;
+  external_slug: string;
+  sku?: string | null;
+  is_primary: boolean;
+  current_price?: number | null;
+  market_data: Record<string, any>;
+  content_hash?: string | null;
+  last_sync_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProductMatchReviewStatus = 'pending' | 'merged' | 'rejected';
+
+/**
+ * A listing that resembles an existing product but needs an admin to confirm the merge
+ */
+export interface DBProductMatchReview {
+  id: string;
+  listing_id: string;
+  product_id: string;
+  candidate_product_id: string;
+  similarity: number;
+  conflicting_fields: string[];
+  status: ProductMatchReviewStatus;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_at: string;
+
+  // Relations
+  listing?: DBProductListing;
+  product?: Partial<DBProduct>;
+  candidate?: Partial<DBProduct>;
+}
+
+export type SyncJobType = 'full' | 'incremental' | 'brands' | 'products' | 'images' | 'market_data';
+
+export type SyncJobStatus = 'pending' | 'syncing' | 'completed' | 'failed' | 'cancelled';
+
 export interface DBSyncLog {
   id: string;
-  sync_type: 'full' | 'incremental' | 'brands' | 'products';
-  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  sync_type: SyncJobType;
+  status: SyncJobStatus | 'running';
+  priority?: number;
+  scheduled_at?: string;
+  requested_by?: string;
   started_at: string;
   completed_at?: string;
   items_processed: number;
   items_created: number;
   items_updated: number;
+  items_unchanged?: number;
   items_failed: number;
   error_message?: string;
   metadata?: Record<string, any>;
+  checkpoint?: SyncCheckpoint | null;
+  lease_owner?: string | null;
+  lease_expires_at?: string | null;
+  heartbeat_at?: string | null;
+  attempts?: number;
+}
+
+/**
+ * Progress saved after each sync batch so an interrupted job can resume
+ */
+export interface SyncCheckpoint {
+  completedSteps: string[];
+  cursors: Record<string, { page: number; processed: number }>;
+  processedIds: Record<string, string[]>;
+  stats?: Record<string, number>;
+  updatedAt?: string;
 }
 
 export interface DBSyncError {
@@ -1,4 +1,8 @@
 import type { CartItem } from './cart'
+import type { Currency } from './pricing'
+import type { DiscountLine } from './promotion'
+import type { CarrierCode, TrackingStatus } from '@/lib/carriers'
+import type { PaymentProviderName } from '@/lib/payments'
 
 export interface ShippingAddress {
   firstName: string
@@ -20,6 +24,11 @@ export interface PaymentMethod {
   expiryYear?: number
 }
 
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded' | 'partially_refunded'
+
+// partially_shipped and shipped follow the order's shipments
+export type OrderStatus = 'pending' | 'processing' | 'partially_shipped' | 'shipped' | 'delivered' | 'cancelled' | 'refunded'
+
 export interface OrderItem {
   id: string
   productId: string
@@ -30,20 +39,32 @@ export interface OrderItem {
   quantity: number
   price: number
   totalPrice: number
+  refundedQuantity?: number
+  shippedQuantity?: number
 }
 
 export interface Order {
   id: string
-  userId: string
+  userId: string | null // null for guest orders
+  orderNumber?: string
+  customerEmail?: string // where order emails go; set for guest orders
   items: OrderItem[]
   subtotal: number
   shipping: number
   tax: number
+  discount?: number
+  discountLines?: DiscountLine[] // in `currency`
   total: number
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
+  storeCredit?: number // part of `total` paid with store credit, in `currency`
+  currency: Currency // order amounts are in this currency
+  fxRate: number // rate from the base currency locked at checkout
+  status: OrderStatus
+  paymentStatus?: PaymentStatus
+  refundedAmount?: number // in `currency`, including refunds still waiting on the provider
   shippingAddress: ShippingAddress | null
   paymentMethod?: PaymentMethod
-  trackingNumber?: string
+  trackingNumber?: string // of the latest shipment
+  shipments?: OrderShipment[]
   createdAt: string
   updatedAt: string
 }
@@ -56,4 +77,150 @@ export interface CheckoutData {
   shipping: number
   tax: number
   total: number
-}
\ No newline at end of file
+  currency?: Currency // buyer's currency; the amounts above are in the base currency
+  shippingRateId?: string // carrier service picked at checkout; cheapest when omitted
+  discountCode?: string // only redeemed by the server checkout (POST /api/checkout)
+}
+
+// Body of POST /api/checkout; the items come from the buyer's saved cart, never from the request
+export interface CheckoutRequest {
+  shippingAddress: ShippingAddress
+  shippingRateId?: string
+  currency?: Currency
+  notes?: string
+  expectedTotal?: number // total shown to the buyer, in `currency`; rejected when the server total differs
+  discountCode?: string // applied in the cart; checked again and redeemed when the order is placed
+  email?: string // guests only: where the confirmation and the order lookup link are sent
+  cartSessionId?: string // guests only: the cart saved under this session is checked out
+  useStoreCredit?: boolean // signed-in buyers only: pay as much of the total as the balance covers
+}
+
+export interface CheckoutResult {
+  idempotencyKey: string
+  replayed: boolean // true when the key had already been used and the original result is returned
+  order: Order
+  paymentIntent: {
+    id: string
+    clientSecret: string | null
+    amount: number
+    currency: string
+    status: string
+    provider: PaymentProviderName // Stripe intents are confirmed in the browser with Stripe Elements
+  } | null // null when store credit paid the whole order
+  lookupToken?: string // guests only: signs the order lookup link and authorizes paying for the order
+}
+
+// Body of POST /api/admin/orders/[id]/refunds; omit items to refund everything not yet refunded
+export interface RefundRequest {
+  items?: Array<{ orderItemId: string; quantity: number }>
+  reason?: string
+  restock?: boolean // put refunded sizes back into stock; defaults to true
+  asStoreCredit?: boolean // return the amount as store credit instead of to the card
+}
+
+export interface OrderRefund {
+  id: string
+  orderId: string
+  providerRefundId: string | null
+  amount: number // in `currency`
+  storeCreditAmount: number // part of `amount` returned as store credit
+  currency: Currency
+  reason: string | null
+  status: 'pending' | 'succeeded' | 'failed'
+  source: 'admin' | 'provider' // provider: refunded outside the app and reported by webhook
+  restock: boolean
+  items: Array<{ orderItemId: string; quantity: number; amount: number; restocked: boolean }>
+  error: string | null
+  createdAt: string
+}
+
+export type ReturnReason = 'wrong_size' | 'not_as_described' | 'damaged' | 'defective' | 'changed_mind' | 'other'
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  wrong_size: 'Wrong size',
+  not_as_described: 'Not as described',
+  damaged: 'Arrived damaged',
+  defective: 'Defective',
+  changed_mind: 'Changed my mind',
+  other: 'Other',
+}
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded'
+
+// restock: the pair goes back into sellable stock; write_off: it cannot be resold
+export type ReturnInspectionOutcome = 'restock' | 'write_off'
+
+export interface OrderReturn {
+  id: string
+  rmaNumber: string
+  orderId: string
+  orderNumber?: string
+  orderItemId: string
+  userId: string
+  item?: { productId: string; productName: string; productBrand: string; size: string; unitPrice: number }
+  quantity: number
+  reason: ReturnReason
+  details: string | null
+  photoUrls: string[] // signed URLs, only filled in for admins
+  status: ReturnStatus
+  labelReference: string | null
+  rejectionReason: string | null
+  inspectionOutcome: ReturnInspectionOutcome | null
+  inspectionNotes: string | null
+  refundId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// One entry on an order's timeline; from* are null for the entry written when the order was placed
+export interface OrderStatusChange {
+  id: string
+  orderId: string
+  fromStatus: OrderStatus | null
+  toStatus: OrderStatus
+  fromPaymentStatus: PaymentStatus | null
+  toPaymentStatus: PaymentStatus | null
+  changedBy: string | null // admin or customer id; null for payments and webhooks
+  note: string | null
+  createdAt: string
+}
+
+export type ShipmentStatus = 'shipped' | 'delivered'
+
+export interface OrderShipment {
+  id: string
+  orderId: string
+  shipmentNumber: number // 1, 2, ... within the order
+  carrier: string
+  trackingNumber: string
+  status: ShipmentStatus
+  items: Array<{ orderItemId: string; quantity: number }>
+  shippedAt: string
+  deliveredAt: string | null
+  carrierCode: CarrierCode | null // null when the carrier cannot be tracked
+  trackingUrl: string | null
+  trackingStatus: TrackingStatus | null // null until the carrier has been polled
+  estimatedDelivery: string | null
+  stuckAt: string | null // set when the shipment stopped moving; cleared by the next carrier event
+  events?: ShipmentTrackingEvent[] // oldest first
+}
+
+// Polled by useOrderTracking; updates are newest first
+export interface OrderTracking {
+  status: OrderStatus
+  trackingNumber?: string
+  estimatedDelivery?: string
+  updates: Array<{
+    status: string
+    timestamp: string
+    location?: string
+    description: string
+  }>
+}
+
+export interface ShipmentTrackingEvent {
+  status: TrackingStatus
+  description: string
+  location: string | null
+  occurredAt: string
+}
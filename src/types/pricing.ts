@@ -0,0 +1,127 @@
+import type { DiscountLine } from './promotion'
+
+export type Currency = 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD' | 'JPY'
+
+export type FxRateSource = 'manual' | 'admin'
+
+// One stored rate: 1 unit of base_currency = rate units of quote_currency
+export interface FxRate {
+  id: string
+  base_currency: Currency
+  quote_currency: Currency
+  rate: number
+  source: FxRateSource
+  effective_at: string
+  created_by?: string | null
+  created_at: string
+}
+
+// Latest rate per currency, keyed by quote currency
+export interface FxRateTable {
+  base: Currency
+  rates: Partial<Record<Currency, { id: string | null; rate: number; effectiveAt: string }>>
+}
+
+// The rate an order was priced with; amounts on the order are in `currency`
+export interface LockedFxRate {
+  currency: Currency
+  rate: number
+  rateId: string | null
+  lockedAt: string
+}
+
+export interface PricedTotals {
+  currency: Currency
+  subtotal: number
+  shipping: number
+  tax: number
+  discount: number
+  total: number
+}
+
+export interface ShippingZone {
+  id: string
+  name: string
+  countries: string[]
+  is_active: boolean
+}
+
+export interface ShippingRate {
+  id: string
+  zone_id: string
+  carrier: string
+  service_level: string
+  base_amount: number
+  per_item_amount: number
+  per_kg_amount: number
+  min_weight_kg: number
+  max_weight_kg: number | null
+  min_quantity: number
+  max_quantity: number | null
+  free_shipping_threshold: number | null
+  estimated_days_min: number | null
+  estimated_days_max: number | null
+  is_active: boolean
+}
+
+export interface TaxRule {
+  id: string
+  country: string
+  region: string | null
+  name: string
+  rate: number
+  applies_to_shipping: boolean
+  is_active: boolean
+}
+
+export interface PricingRules {
+  zones: ShippingZone[]
+  rates: ShippingRate[]
+  taxRules: TaxRule[]
+}
+
+export interface ShippingOption {
+  rateId: string
+  carrier: string
+  serviceLevel: string
+  amount: number
+  freeShippingThreshold: number | null
+  estimatedDays: { min: number | null; max: number | null }
+}
+
+export interface TaxLine {
+  ruleId: string
+  name: string
+  rate: number
+  amount: number
+}
+
+// Totals for an order in the base currency
+export interface OrderQuote {
+  subtotal: number
+  shipping: number
+  tax: number
+  discount: number // sum of discountLines; total = subtotal + shipping - discount + tax
+  total: number
+  zoneId: string
+  shippingRateId: string
+  shippingOptions: ShippingOption[]
+  taxLines: TaxLine[]
+  discountLines: DiscountLine[]
+  freeShippingRemaining: number | null
+  lines: Array<{ productId: string; price: number; quantity: number; discount: number }> // discount: the line's share of the item discount
+}
+
+export interface OrderQuoteInput {
+  items: Array<{
+    productId: string
+    price: number
+    quantity: number
+    weightKg?: number
+    brandId?: string | null // for promotion targeting
+    categoryId?: string | null
+  }>
+  country: string
+  region?: string | null
+  shippingRateId?: string | null
+}
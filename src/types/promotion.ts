@@ -0,0 +1,55 @@
+export type PromotionType = 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y'
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: 'Percentage off',
+  fixed_amount: 'Amount off',
+  free_shipping: 'Free shipping',
+  buy_x_get_y: 'Buy X get Y',
+}
+
+// A promotion as stored; amounts are in the base currency
+export interface Promotion {
+  id: string
+  code: string
+  name: string
+  description: string | null
+  type: PromotionType
+  value: number // percentage: percent off; fixed_amount: amount off; buy_x_get_y: percent off the Y items
+  buy_quantity: number | null // buy_x_get_y only
+  get_quantity: number | null // buy_x_get_y only
+  brand_ids: string[] // targets; an item qualifies when it matches any of them, or always when all are empty
+  category_ids: string[]
+  product_ids: string[]
+  min_subtotal: number | null
+  usage_limit: number | null // uses overall, counting orders that were not cancelled
+  usage_limit_per_user: number | null // uses per account or guest email
+  starts_at: string | null
+  ends_at: string | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Listed for admins with the number of orders that used it
+export interface PromotionWithUsage extends Promotion {
+  times_used: number
+}
+
+// One discount applied to an order; item discounts reduce the taxed subtotal, shipping ones the shipping
+export interface DiscountLine {
+  promotionId: string
+  code: string
+  name: string
+  type: PromotionType
+  target: 'items' | 'shipping'
+  amount: number
+}
+
+// A code applied in the cart, previewed against the cart's items (base currency)
+export interface CartDiscount {
+  code: string
+  name: string
+  type: PromotionType
+  amount: number // item discount; free shipping is only priced once the destination is known
+  freeShipping: boolean
+}
@@ -0,0 +1,73 @@
+export type ReleaseMode = 'standard' | 'raffle'
+
+export type RaffleStatus = 'scheduled' | 'drawn' | 'cancelled'
+
+export type RaffleEntryStatus = 'entered' | 'won' | 'alternate' | 'claimed' | 'expired' | 'withdrawn'
+
+// A raffle release of one product. The seed stays private until the draw; its commitment is
+// published from the start so entrants can check the draw afterwards.
+export interface Raffle {
+  id: string
+  product_id: string
+  status: RaffleStatus
+  entry_opens_at: string
+  entry_closes_at: string
+  claim_minutes: number // how long a winner's unit is held for payment
+  seed_commitment: string // sha256 of the seed, hex
+  seed: string | null // null in what shoppers see until the draw reveals it
+  drawn_at: string | null
+  drawn_by: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// What shoppers see of a raffle
+export type PublicRaffle = Omit<Raffle, 'drawn_by' | 'created_by'>
+
+// A user's entry for one size
+export interface RaffleEntry {
+  id: string
+  raffle_id: string
+  product_id: string
+  user_id: string
+  size: string // canonical US size
+  status: RaffleEntryStatus
+  draw_rank: number | null // 1-based place in the size's draw order
+  reservation_id: string | null // the unit held for the user while won
+  claim_expires_at: string | null
+  order_id: string | null // the order that claimed the win
+  created_at: string
+  updated_at: string
+}
+
+// A unit held for a winner until their claim expires
+export interface RaffleWin {
+  id: string
+  raffle_id: string
+  user_id: string
+  product_id: string
+  size: string
+  draw_rank: number
+  reservation_id: string
+  claim_expires_at: string
+}
+
+// Admin view of a raffle with its entry counts per size
+export interface RaffleSummary extends Raffle {
+  entries: Record<string, Partial<Record<RaffleEntryStatus, number>>> // by size
+}
+
+// A win as its claim page shows it
+export interface RaffleClaim {
+  entry: RaffleEntry
+  product: {
+    id: string
+    name: string
+    brand: string | null
+    category: string | null
+    gender: string | null
+    image_url: string | null
+    price: number | null // base currency
+  }
+}
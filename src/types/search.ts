@@ -0,0 +1,16 @@
+// A nickname searches are expanded to before matching: "aj1" finds "air jordan 1". Both sides are
+// stored normalized (lowercase letters and digits, single spaces).
+export interface SearchSynonym {
+  id: string
+  term: string
+  expansion: string
+  created_at: string
+  updated_at: string
+}
+
+// Storefront searches that found nothing and have not found anything since
+export interface ZeroResultQuery {
+  query: string
+  searches: number
+  last_searched_at: string
+}
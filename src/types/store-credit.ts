@@ -0,0 +1,54 @@
+export type StoreCreditEntryType = 'gift_card' | 'refund' | 'order_payment' | 'order_payment_reversal' | 'adjustment'
+
+export const STORE_CREDIT_ENTRY_LABELS: Record<StoreCreditEntryType, string> = {
+  gift_card: 'Gift card redeemed',
+  refund: 'Refund',
+  order_payment: 'Used on order',
+  order_payment_reversal: 'Returned from unpaid order',
+  adjustment: 'Adjustment',
+}
+
+// One change to a balance; amounts are in the base currency, negative when credit is spent
+export interface StoreCreditEntry {
+  id: string
+  userId: string
+  amount: number
+  balanceAfter: number
+  type: StoreCreditEntryType
+  giftCardId: string | null
+  orderId: string | null
+  refundId: string | null
+  note: string | null
+  createdBy: string | null
+  createdAt: string
+}
+
+export interface StoreCreditAccount {
+  userId: string
+  balance: number // base currency
+  entries: StoreCreditEntry[] // newest first
+}
+
+export type GiftCardStatus = 'pending' | 'active' | 'redeemed' | 'void'
+
+// pending until its payment succeeds; the code is only shown once the card is active
+export interface GiftCard {
+  id: string
+  code: string | null
+  amount: number // base currency
+  status: GiftCardStatus
+  recipientEmail: string
+  recipientName: string | null
+  message: string | null
+  activatedAt: string | null
+  redeemedAt: string | null
+  createdAt: string
+}
+
+// Body of POST /api/gift-cards
+export interface GiftCardPurchaseRequest {
+  amount: number
+  recipientEmail: string
+  recipientName?: string
+  message?: string
+}
@@ -0,0 +1,37 @@
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled'
+
+// A user's place in the queue for a sold-out size
+export interface WaitlistEntry {
+  id: string
+  product_id: string
+  size: string // canonical US size
+  user_id: string
+  status: WaitlistStatus
+  reservation_id: string | null // the unit held for the user while offered
+  offered_at: string | null
+  offer_expires_at: string | null
+  order_id: string | null // the order that claimed the offer
+  created_at: string
+  updated_at: string
+}
+
+// A unit held for the user at the front of the queue until the offer expires
+export interface WaitlistOffer {
+  id: string
+  user_id: string
+  product_id: string
+  size: string
+  reservation_id: string
+  offer_expires_at: string
+}
+
+// Listed for the user with their position while waiting
+export interface WaitlistPlace extends WaitlistEntry {
+  position: number | null // 1 is next in line; null once offered or closed
+  product: {
+    name: string
+    brand: string | null
+    gender: string | null
+    image_url: string | null
+  }
+}
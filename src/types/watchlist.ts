@@ -0,0 +1,54 @@
+export type WatchlistAlertKind = 'price_drop' | 'restock'
+
+// A product a user watches; prices are in the base currency
+export interface WatchlistItem {
+  id: string
+  user_id: string
+  product_id: string
+  size: string | null // canonical US size; null watches every size
+  target_price: number | null // alert once the price is at or below it; null alerts on any real drop
+  notify_price_drop: boolean
+  notify_restock: boolean
+  watched_price: number | null // price when watched, moved down to each price the user was alerted at
+  last_restock_alert_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Listed for the user with what they need to recognise the product
+export interface WatchlistEntry extends WatchlistItem {
+  product: {
+    name: string
+    brand: string | null
+    image_url: string | null
+    price: number | null
+    available_sizes: string[]
+  }
+}
+
+// A match between a price or stock event and a watch, waiting to be delivered
+export interface WatchlistAlert {
+  id: string
+  watch_id: string
+  user_id: string
+  product_id: string
+  kind: WatchlistAlertKind
+  size: string | null // restock: the size that came back
+  price: number | null
+  previous_price: number | null
+  status: 'pending' | 'sent' | 'skipped'
+  created_at: string
+  sent_at: string | null
+}
+
+// In-app notification feed; the storefront shows new rows through NotificationSystem
+export interface UserNotification {
+  id: string
+  user_id: string
+  type: WatchlistAlertKind | 'digest' | 'waitlist_offer' | 'raffle_result'
+  title: string
+  message: string
+  data: Record<string, unknown>
+  read_at: string | null
+  created_at: string
+}
@@ -0,0 +1,13 @@
+-- Incremental Sync Change Detection
+-- Stores a content hash per product so incremental syncs can skip unchanged products,
+-- and indexes last_sync_at so re-fetches can rotate through the catalog by staleness
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_products_last_sync_at
+  ON public.products (last_sync_at ASC NULLS FIRST)
+  WHERE kicksdb_id IS NOT NULL;
+
+ALTER TABLE public.sync_logs
+  ADD COLUMN IF NOT EXISTS items_unchanged INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,155 @@
+-- Product Market Time Series
+-- Each sync appends a market snapshot per product. Snapshots are downsampled over time
+-- (raw -> hourly -> daily -> weekly) and weekly points past retention are removed.
+
+CREATE TABLE IF NOT EXISTS public.product_market_data (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  lowest_ask NUMERIC(10, 2),
+  highest_bid NUMERIC(10, 2),
+  last_sale NUMERIC(10, 2),
+  change_value NUMERIC(10, 2),
+  change_percentage NUMERIC(8, 4),
+  volatility NUMERIC(8, 4),
+  deadstock_sold INTEGER,
+  annual_high NUMERIC(10, 2),
+  annual_low NUMERIC(10, 2),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.product_market_data
+  ADD COLUMN IF NOT EXISTS granularity TEXT NOT NULL DEFAULT 'raw'
+  CHECK (granularity IN ('raw', 'hourly', 'daily', 'weekly'));
+
+CREATE INDEX IF NOT EXISTS idx_product_market_data_product_recorded
+  ON public.product_market_data (product_id, recorded_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_product_market_data_granularity_recorded
+  ON public.product_market_data (granularity, recorded_at);
+
+ALTER TABLE public.product_market_data ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Market data is publicly readable" ON public.product_market_data;
+CREATE POLICY "Market data is publicly readable"
+  ON public.product_market_data FOR SELECT
+  USING (true);
+
+-- Roll points of one granularity older than a cutoff into buckets of the next granularity
+CREATE OR REPLACE FUNCTION public.rollup_product_market_data(
+  p_from TEXT,
+  p_to TEXT,
+  p_bucket TEXT,
+  p_older_than INTERVAL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_cutoff TIMESTAMPTZ := date_trunc(p_bucket, NOW() - p_older_than);
+  v_rolled INTEGER;
+BEGIN
+  INSERT INTO product_market_data (
+    product_id, lowest_ask, highest_bid, last_sale, change_value, change_percentage,
+    volatility, deadstock_sold, annual_high, annual_low, recorded_at, granularity
+  )
+  SELECT
+    product_id,
+    ROUND(AVG(lowest_ask), 2),
+    ROUND(AVG(highest_bid), 2),
+    (ARRAY_AGG(last_sale ORDER BY recorded_at DESC))[1],
+    (ARRAY_AGG(change_value ORDER BY recorded_at DESC))[1],
+    (ARRAY_AGG(change_percentage ORDER BY recorded_at DESC))[1],
+    ROUND(AVG(volatility), 4),
+    MAX(deadstock_sold),
+    MAX(annual_high),
+    MIN(annual_low),
+    date_trunc(p_bucket, recorded_at),
+    p_to
+  FROM product_market_data
+  WHERE granularity = p_from
+    AND recorded_at < v_cutoff
+  GROUP BY product_id, date_trunc(p_bucket, recorded_at);
+
+  DELETE FROM product_market_data
+  WHERE granularity = p_from
+    AND recorded_at < v_cutoff;
+
+  GET DIAGNOSTICS v_rolled = ROW_COUNT;
+  RETURN v_rolled;
+END;
+$$;
+
+-- Downsample the whole time series and apply retention
+CREATE OR REPLACE FUNCTION public.compact_product_market_data(
+  p_raw_retention INTERVAL DEFAULT INTERVAL '48 hours',
+  p_hourly_retention INTERVAL DEFAULT INTERVAL '30 days',
+  p_daily_retention INTERVAL DEFAULT INTERVAL '365 days',
+  p_weekly_retention INTERVAL DEFAULT INTERVAL '5 years'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_raw INTEGER;
+  v_hourly INTEGER;
+  v_daily INTEGER;
+  v_expired INTEGER;
+BEGIN
+  v_raw := rollup_product_market_data('raw', 'hourly', 'hour', p_raw_retention);
+  v_hourly := rollup_product_market_data('hourly', 'daily', 'day', p_hourly_retention);
+  v_daily := rollup_product_market_data('daily', 'weekly', 'week', p_daily_retention);
+
+  DELETE FROM product_market_data
+  WHERE granularity = 'weekly'
+    AND recorded_at < NOW() - p_weekly_retention;
+
+  GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'raw_rolled_up', v_raw,
+    'hourly_rolled_up', v_hourly,
+    'daily_rolled_up', v_daily,
+    'weekly_expired', v_expired
+  );
+END;
+$$;
+
+-- Price history for charts, bucketed to the requested resolution across all granularities
+CREATE OR REPLACE FUNCTION public.get_product_price_history(
+  p_product_id UUID,
+  p_since TIMESTAMPTZ,
+  p_bucket INTERVAL
+)
+RETURNS TABLE (
+  bucket TIMESTAMPTZ,
+  lowest_ask NUMERIC,
+  highest_bid NUMERIC,
+  last_sale NUMERIC,
+  volatility NUMERIC,
+  points INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+  SELECT
+    date_bin(p_bucket, recorded_at, TIMESTAMPTZ '2000-01-03 00:00:00+00') AS bucket,
+    ROUND(AVG(lowest_ask), 2),
+    ROUND(AVG(highest_bid), 2),
+    (ARRAY_AGG(last_sale ORDER BY recorded_at DESC))[1],
+    ROUND(AVG(volatility), 4),
+    COUNT(*)::INTEGER
+  FROM product_market_data
+  WHERE product_id = p_product_id
+    AND recorded_at >= COALESCE(p_since, '-infinity'::TIMESTAMPTZ)
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rollup_product_market_data(TEXT, TEXT, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.compact_product_market_data(INTERVAL, INTERVAL, INTERVAL, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Unified Sync Jobs
+-- sync_logs is the single persisted job table for every KicksDB sync job type.
+-- Jobs are queued as 'pending', claimed as 'syncing' and finish as completed/failed/cancelled.
+
+ALTER TABLE public.sync_logs
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.sync_logs ALTER COLUMN started_at DROP NOT NULL;
+
+ALTER TABLE public.sync_logs DROP CONSTRAINT IF EXISTS sync_logs_status_check;
+ALTER TABLE public.sync_logs
+  ADD CONSTRAINT sync_logs_status_check
+  CHECK (status IN ('pending', 'syncing', 'running', 'completed', 'failed', 'cancelled'))
+  NOT VALID;
+
+ALTER TABLE public.sync_logs DROP CONSTRAINT IF EXISTS sync_logs_sync_type_check;
+ALTER TABLE public.sync_logs
+  ADD CONSTRAINT sync_logs_sync_type_check
+  CHECK (sync_type IN ('full', 'incremental', 'brands', 'products', 'images', 'market_data', 'product_images'))
+  NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_pending_jobs
+  ON public.sync_logs (priority DESC, scheduled_at)
+  WHERE status = 'pending';
+
+-- Marketplace size prices written by the sync core
+CREATE TABLE IF NOT EXISTS public.product_sizes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  size TEXT NOT NULL,
+  price NUMERIC(10, 2),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  is_available BOOLEAN NOT NULL DEFAULT false,
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_sizes_product_size
+  ON public.product_sizes (product_id, size);
+
+ALTER TABLE public.product_sizes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Product sizes are publicly readable" ON public.product_sizes;
+CREATE POLICY "Product sizes are publicly readable"
+  ON public.product_sizes FOR SELECT
+  USING (true);
@@ -0,0 +1,97 @@
+-- Durable Sync Jobs
+-- Workers claim a job with a lease and renew it with heartbeats while saving a checkpoint after each batch.
+-- A job whose lease expires (crashed or restarted worker) is reclaimed and resumes from its last checkpoint.
+
+ALTER TABLE public.sync_logs
+  ADD COLUMN IF NOT EXISTS checkpoint JSONB,
+  ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_sync_logs_expired_leases
+  ON public.sync_logs (lease_expires_at)
+  WHERE status = 'syncing';
+
+-- Claim a due pending job, or a running job whose lease has expired.
+-- Pass p_job_id to claim one specific job.
+CREATE OR REPLACE FUNCTION public.claim_sync_job(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_job_id UUID DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT 5
+)
+RETURNS SETOF public.sync_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_job_id UUID;
+BEGIN
+  -- Jobs that keep losing their worker are given up on
+  UPDATE sync_logs
+  SET status = 'failed',
+      completed_at = NOW(),
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      error_message = 'Sync job abandoned after ' || attempts || ' interrupted attempts'
+  WHERE status = 'syncing'
+    AND lease_expires_at < NOW()
+    AND attempts >= p_max_attempts;
+
+  SELECT id INTO v_job_id
+  FROM sync_logs
+  WHERE (p_job_id IS NULL OR id = p_job_id)
+    AND (
+      (status = 'pending' AND (scheduled_at IS NULL OR scheduled_at <= NOW()))
+      OR (status = 'syncing' AND lease_expires_at < NOW())
+    )
+  ORDER BY priority DESC, (status = 'syncing') DESC, scheduled_at ASC NULLS FIRST
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_job_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE sync_logs
+  SET status = 'syncing',
+      started_at = COALESCE(started_at, NOW()),
+      lease_owner = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      attempts = attempts + 1
+  WHERE id = v_job_id
+  RETURNING *;
+END;
+$$;
+
+-- Renew a lease and optionally save a checkpoint. Returns false if the worker no longer holds the lease.
+CREATE OR REPLACE FUNCTION public.heartbeat_sync_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_checkpoint JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  UPDATE sync_logs
+  SET lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      checkpoint = COALESCE(p_checkpoint, checkpoint)
+  WHERE id = p_job_id
+    AND lease_owner = p_worker_id
+    AND status = 'syncing';
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_sync_job(TEXT, INTEGER, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.heartbeat_sync_job(UUID, TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,246 @@
+-- Cross-Marketplace Product Listings
+-- A canonical product can be listed on several marketplaces. Each KicksDB listing (StockX or GOAT)
+-- is stored in product_listings and linked to one canonical product; market data and size prices
+-- are kept per marketplace. Ambiguous matches wait in product_match_reviews for an admin.
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS normalized_sku TEXT
+    GENERATED ALWAYS AS (NULLIF(UPPER(REGEXP_REPLACE(sku, '[^A-Za-z0-9]', '', 'g')), '')) STORED,
+  ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES public.products(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_normalized_sku
+  ON public.products (normalized_sku)
+  WHERE normalized_sku IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.product_listings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('stockx', 'goat')),
+  kicksdb_id TEXT NOT NULL UNIQUE,
+  external_slug TEXT NOT NULL,
+  sku TEXT,
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  current_price NUMERIC(10, 2),
+  market_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  content_hash TEXT,
+  last_sync_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One listing per marketplace per canonical product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_listings_product_platform
+  ON public.product_listings (product_id, platform);
+
+CREATE INDEX IF NOT EXISTS idx_product_listings_last_sync_at
+  ON public.product_listings (last_sync_at ASC NULLS FIRST);
+
+ALTER TABLE public.product_listings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Product listings are publicly readable" ON public.product_listings;
+CREATE POLICY "Product listings are publicly readable"
+  ON public.product_listings FOR SELECT
+  USING (true);
+
+-- Every synced product so far is the primary listing of its own canonical product
+INSERT INTO public.product_listings (
+  product_id, platform, kicksdb_id, external_slug, sku, is_primary,
+  current_price, market_data, content_hash, last_sync_at
+)
+SELECT
+  id, platform, kicksdb_id, COALESCE(external_slug, slug), sku, true,
+  current_price, COALESCE(market_data, '{}'::jsonb), content_hash, last_sync_at
+FROM public.products
+WHERE kicksdb_id IS NOT NULL
+  AND platform IN ('stockx', 'goat')
+ON CONFLICT (kicksdb_id) DO NOTHING;
+
+-- Size prices and market history are per marketplace
+ALTER TABLE public.product_sizes
+  ADD COLUMN IF NOT EXISTS platform TEXT;
+
+UPDATE public.product_sizes ps
+SET platform = p.platform
+FROM public.products p
+WHERE ps.product_id = p.id
+  AND ps.platform IS NULL;
+
+UPDATE public.product_sizes SET platform = 'stockx' WHERE platform IS NULL;
+
+ALTER TABLE public.product_sizes
+  ALTER COLUMN platform SET NOT NULL,
+  ALTER COLUMN platform SET DEFAULT 'stockx';
+
+DROP INDEX IF EXISTS public.idx_product_sizes_product_size;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_sizes_product_platform_size
+  ON public.product_sizes (product_id, platform, size);
+
+ALTER TABLE public.product_market_data
+  ADD COLUMN IF NOT EXISTS platform TEXT;
+
+UPDATE public.product_market_data pmd
+SET platform = p.platform
+FROM public.products p
+WHERE pmd.product_id = p.id
+  AND pmd.platform IS NULL
+  AND p.platform IN ('stockx', 'goat');
+
+-- Roll up each marketplace's series separately
+CREATE OR REPLACE FUNCTION public.rollup_product_market_data(
+  p_from TEXT,
+  p_to TEXT,
+  p_bucket TEXT,
+  p_older_than INTERVAL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_cutoff TIMESTAMPTZ := date_trunc(p_bucket, NOW() - p_older_than);
+  v_rolled INTEGER;
+BEGIN
+  INSERT INTO product_market_data (
+    product_id, platform, lowest_ask, highest_bid, last_sale, change_value, change_percentage,
+    volatility, deadstock_sold, annual_high, annual_low, recorded_at, granularity
+  )
+  SELECT
+    product_id,
+    platform,
+    ROUND(AVG(lowest_ask), 2),
+    ROUND(AVG(highest_bid), 2),
+    (ARRAY_AGG(last_sale ORDER BY recorded_at DESC))[1],
+    (ARRAY_AGG(change_value ORDER BY recorded_at DESC))[1],
+    (ARRAY_AGG(change_percentage ORDER BY recorded_at DESC))[1],
+    ROUND(AVG(volatility), 4),
+    MAX(deadstock_sold),
+    MAX(annual_high),
+    MIN(annual_low),
+    date_trunc(p_bucket, recorded_at),
+    p_to
+  FROM product_market_data
+  WHERE granularity = p_from
+    AND recorded_at < v_cutoff
+  GROUP BY product_id, platform, date_trunc(p_bucket, recorded_at);
+
+  DELETE FROM product_market_data
+  WHERE granularity = p_from
+    AND recorded_at < v_cutoff;
+
+  GET DIAGNOSTICS v_rolled = ROW_COUNT;
+  RETURN v_rolled;
+END;
+$$;
+
+-- Listings that look like an existing product but were not merged automatically
+CREATE TABLE IF NOT EXISTS public.product_match_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id UUID NOT NULL REFERENCES public.product_listings(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  candidate_product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  similarity NUMERIC(5, 4) NOT NULL,
+  conflicting_fields TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_match_reviews_pending_listing
+  ON public.product_match_reviews (listing_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.product_match_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Merge a product's listings into another canonical product and retire it.
+-- Size prices and market history move with the listings; the retired product points at its replacement.
+CREATE OR REPLACE FUNCTION public.merge_products(
+  p_source_id UUID,
+  p_target_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a product into itself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM product_listings s
+    JOIN product_listings t ON t.platform = s.platform AND t.product_id = p_target_id
+    WHERE s.product_id = p_source_id
+  ) THEN
+    RAISE EXCEPTION 'Target product already has a listing on the same marketplace';
+  END IF;
+
+  UPDATE product_listings
+  SET product_id = p_target_id,
+      is_primary = false,
+      updated_at = NOW()
+  WHERE product_id = p_source_id;
+
+  UPDATE product_sizes SET product_id = p_target_id WHERE product_id = p_source_id;
+  UPDATE product_market_data SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  UPDATE products
+  SET is_active = false,
+      merged_into_id = p_target_id,
+      updated_at = NOW()
+  WHERE id = p_source_id;
+
+  -- Other reviews about the retired product no longer apply
+  UPDATE product_match_reviews
+  SET status = 'rejected',
+      reviewed_at = NOW()
+  WHERE status = 'pending'
+    AND (product_id = p_source_id OR candidate_product_id = p_source_id);
+END;
+$$;
+
+-- Resolve a pending review: merge the listing's product into the candidate, or keep them separate
+CREATE OR REPLACE FUNCTION public.resolve_product_match_review(
+  p_review_id UUID,
+  p_merge BOOLEAN,
+  p_reviewed_by UUID DEFAULT NULL
+)
+RETURNS public.product_match_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_review product_match_reviews;
+BEGIN
+  SELECT * INTO v_review
+  FROM product_match_reviews
+  WHERE id = p_review_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match review % is not pending', p_review_id;
+  END IF;
+
+  IF p_merge THEN
+    PERFORM merge_products(v_review.product_id, v_review.candidate_product_id);
+  END IF;
+
+  UPDATE product_match_reviews
+  SET status = CASE WHEN p_merge THEN 'merged' ELSE 'rejected' END,
+      reviewed_by = p_reviewed_by,
+      reviewed_at = NOW()
+  WHERE id = p_review_id
+  RETURNING * INTO v_review;
+
+  RETURN v_review;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rollup_product_market_data(TEXT, TEXT, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.merge_products(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_product_match_review(UUID, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,28 @@
+-- User Preferences
+-- Stores the preferences saved by UserPreferencesContext. The size system is read server-side
+-- so order emails render sizes the way the buyer browses them; stock stays keyed on the
+-- canonical US size.
+
+CREATE TABLE IF NOT EXISTS public.user_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own preferences" ON public.user_preferences;
+CREATE POLICY "Users can read their own preferences"
+  ON public.user_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own preferences" ON public.user_preferences;
+CREATE POLICY "Users can insert their own preferences"
+  ON public.user_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own preferences" ON public.user_preferences;
+CREATE POLICY "Users can update their own preferences"
+  ON public.user_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
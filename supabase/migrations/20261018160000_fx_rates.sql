@@ -0,0 +1,54 @@
+-- Multi-Currency Pricing
+-- Catalog prices are kept in EUR. fx_rates holds manually entered / admin-fed exchange rates
+-- (1 EUR = rate units of quote_currency); every change is a new row so past orders keep the
+-- rate they were priced with. Orders record the currency and the rate locked at checkout.
+
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency TEXT NOT NULL DEFAULT 'EUR',
+  quote_currency TEXT NOT NULL CHECK (quote_currency IN ('USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY')),
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'admin')),
+  effective_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair_effective
+  ON public.fx_rates (base_currency, quote_currency, effective_at DESC);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "FX rates are publicly readable" ON public.fx_rates;
+CREATE POLICY "FX rates are publicly readable"
+  ON public.fx_rates FOR SELECT
+  USING (true);
+
+-- Current rate per currency pair
+CREATE OR REPLACE VIEW public.latest_fx_rates AS
+SELECT DISTINCT ON (base_currency, quote_currency)
+  id, base_currency, quote_currency, rate, source, effective_at, created_by, created_at
+FROM public.fx_rates
+WHERE effective_at <= NOW()
+ORDER BY base_currency, quote_currency, effective_at DESC;
+
+GRANT SELECT ON public.latest_fx_rates TO anon, authenticated;
+
+-- Initial manual rates; kept current from the admin FX rates screen
+INSERT INTO public.fx_rates (base_currency, quote_currency, rate, source)
+SELECT 'EUR', quote_currency, rate, 'manual'
+FROM (VALUES
+  ('USD', 1.08),
+  ('GBP', 0.85),
+  ('CAD', 1.47),
+  ('AUD', 1.64),
+  ('JPY', 161.0)
+) AS initial(quote_currency, rate)
+WHERE NOT EXISTS (SELECT 1 FROM public.fx_rates);
+
+-- Order amounts are stored in the buyer's currency at the locked rate
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'EUR',
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(18, 8) NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS fx_rate_id UUID REFERENCES public.fx_rates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS fx_locked_at TIMESTAMPTZ;
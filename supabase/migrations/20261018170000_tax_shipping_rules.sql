@@ -0,0 +1,134 @@
+-- Tax and Shipping Rules
+-- Order totals are computed from these rules when an order is created instead of trusting the
+-- totals sent by the checkout page. Amounts are in the base currency (EUR).
+--   shipping_zones  groups destination countries
+--   shipping_rates  carrier services per zone, tiered by weight and quantity, with an optional
+--                   free-shipping threshold
+--   tax_rules       VAT / sales tax per country, optionally per region (US state, CA province);
+--                   country and region rates add up
+
+CREATE TABLE IF NOT EXISTS public.shipping_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.shipping_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id UUID NOT NULL REFERENCES public.shipping_zones(id) ON DELETE CASCADE,
+  carrier TEXT NOT NULL,
+  service_level TEXT NOT NULL DEFAULT 'standard',
+  base_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (base_amount >= 0),
+  per_item_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (per_item_amount >= 0),
+  per_kg_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (per_kg_amount >= 0),
+  min_weight_kg NUMERIC(8, 3) NOT NULL DEFAULT 0,
+  max_weight_kg NUMERIC(8, 3),
+  min_quantity INTEGER NOT NULL DEFAULT 1,
+  max_quantity INTEGER,
+  free_shipping_threshold NUMERIC(10, 2),
+  estimated_days_min INTEGER,
+  estimated_days_max INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone
+  ON public.shipping_rates (zone_id)
+  WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.tax_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  country TEXT NOT NULL,
+  region TEXT,
+  name TEXT NOT NULL,
+  rate NUMERIC(6, 4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  applies_to_shipping BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_rules_country_region_name
+  ON public.tax_rules (country, COALESCE(region, ''), name);
+
+ALTER TABLE public.shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Shipping zones are publicly readable" ON public.shipping_zones;
+CREATE POLICY "Shipping zones are publicly readable"
+  ON public.shipping_zones FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Shipping rates are publicly readable" ON public.shipping_rates;
+CREATE POLICY "Shipping rates are publicly readable"
+  ON public.shipping_rates FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Tax rules are publicly readable" ON public.tax_rules;
+CREATE POLICY "Tax rules are publicly readable"
+  ON public.tax_rules FOR SELECT
+  USING (true);
+
+-- Weight used for shipping tiers; a boxed pair of sneakers is roughly 1.2 kg
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS shipping_weight_kg NUMERIC(8, 3) NOT NULL DEFAULT 1.2;
+
+-- The shipping service and tax lines an order was priced with
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS shipping_rate_id UUID REFERENCES public.shipping_rates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tax_lines JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Initial rules matching the previous checkout behaviour for the EU (free over 100, otherwise 9.99)
+INSERT INTO public.shipping_zones (name, countries)
+VALUES
+  ('European Union', ARRAY['DE', 'FR', 'IT', 'ES', 'NL', 'BE', 'AT', 'IE', 'PT', 'FI', 'DK', 'SE', 'PL']),
+  ('United Kingdom', ARRAY['GB']),
+  ('North America', ARRAY['US', 'CA'])
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.shipping_rates (
+  zone_id, carrier, service_level, base_amount, per_item_amount, per_kg_amount,
+  min_quantity, max_quantity, free_shipping_threshold, estimated_days_min, estimated_days_max
+)
+SELECT z.id, r.carrier, r.service_level, r.base_amount, r.per_item_amount, r.per_kg_amount,
+       r.min_quantity, r.max_quantity, r.free_shipping_threshold, r.days_min, r.days_max
+FROM public.shipping_zones z
+JOIN (VALUES
+  ('European Union', 'DHL', 'standard', 9.99, 0.00, 0.00, 1, NULL::INTEGER, 100.00, 2, 5),
+  ('European Union', 'DHL', 'express', 19.99, 2.00, 0.00, 1, NULL::INTEGER, NULL::NUMERIC, 1, 2),
+  ('United Kingdom', 'DHL', 'standard', 14.99, 0.00, 1.50, 1, NULL::INTEGER, 150.00, 3, 6),
+  ('North America', 'UPS', 'standard', 24.99, 0.00, 3.00, 1, 4, 250.00, 5, 10),
+  ('North America', 'UPS', 'freight', 59.99, 0.00, 2.00, 5, NULL::INTEGER, NULL::NUMERIC, 7, 14)
+) AS r(zone_name, carrier, service_level, base_amount, per_item_amount, per_kg_amount,
+       min_quantity, max_quantity, free_shipping_threshold, days_min, days_max)
+  ON r.zone_name = z.name
+WHERE NOT EXISTS (SELECT 1 FROM public.shipping_rates);
+
+INSERT INTO public.tax_rules (country, region, name, rate, applies_to_shipping)
+VALUES
+  ('DE', NULL, 'VAT', 0.19, true),
+  ('FR', NULL, 'VAT', 0.20, true),
+  ('IT', NULL, 'VAT', 0.22, true),
+  ('ES', NULL, 'VAT', 0.21, true),
+  ('NL', NULL, 'VAT', 0.21, true),
+  ('BE', NULL, 'VAT', 0.21, true),
+  ('AT', NULL, 'VAT', 0.20, true),
+  ('IE', NULL, 'VAT', 0.23, true),
+  ('PT', NULL, 'VAT', 0.23, true),
+  ('FI', NULL, 'VAT', 0.255, true),
+  ('DK', NULL, 'VAT', 0.25, true),
+  ('SE', NULL, 'VAT', 0.25, true),
+  ('PL', NULL, 'VAT', 0.23, true),
+  ('GB', NULL, 'VAT', 0.20, true),
+  ('CA', NULL, 'GST', 0.05, true),
+  ('CA', 'ON', 'HST', 0.08, true),
+  ('CA', 'QC', 'QST', 0.09975, true),
+  ('US', 'CA', 'Sales tax', 0.0725, false),
+  ('US', 'NY', 'Sales tax', 0.04, false),
+  ('US', 'TX', 'Sales tax', 0.0625, false)
+ON CONFLICT DO NOTHING;
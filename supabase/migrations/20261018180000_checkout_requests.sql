@@ -0,0 +1,206 @@
+-- Server-Authoritative Checkout
+-- POST /api/checkout re-reads the buyer's saved cart, prices it from the catalog and creates the
+-- order, its items, the shipping address and the stock reservations in one transaction
+-- (place_checkout_order). checkout_requests records each idempotency key so a retried request
+-- returns the same order and payment intent instead of placing a second order.
+
+CREATE TABLE IF NOT EXISTS public.checkout_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idempotency_key TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  request_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  payment_intent_id TEXT,
+  response JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_requests_user
+  ON public.checkout_requests (user_id, created_at DESC);
+
+-- Only the checkout route (service role) reads and writes checkout requests
+ALTER TABLE public.checkout_requests ENABLE ROW LEVEL SECURITY;
+
+-- The Stripe webhook commits the reservation recorded on each order item
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS reservation_id UUID;
+
+-- Create an order with its items, shipping address and stock reservations.
+-- Stock rows are locked while availability is checked, so concurrent checkouts cannot oversell;
+-- any failure rolls the whole order back. Returns the reservation made for each item, in item order.
+CREATE OR REPLACE FUNCTION public.place_checkout_order(
+  p_order JSONB,
+  p_items JSONB,
+  p_address JSONB,
+  p_reservation_expires_at TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order_id UUID := (p_order->>'id')::UUID;
+  v_user_id UUID := (p_order->>'user_id')::UUID;
+  v_address_id UUID;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_available INTEGER;
+  v_reservation_id UUID;
+  v_item_id UUID;
+  v_reservations JSONB := '[]'::JSONB;
+BEGIN
+  IF p_address IS NOT NULL THEN
+    INSERT INTO user_addresses (
+      id, user_id, type, first_name, last_name, address_line_1, city, postal_code, country, created_at
+    )
+    VALUES (
+      gen_random_uuid(), v_user_id, 'shipping', p_address->>'first_name', p_address->>'last_name',
+      p_address->>'address_line_1', p_address->>'city', p_address->>'postal_code', p_address->>'country', NOW()
+    )
+    RETURNING id INTO v_address_id;
+  END IF;
+
+  INSERT INTO orders (
+    id, user_id, order_number, subtotal, shipping_amount, tax_amount, total_amount,
+    currency, fx_rate, fx_rate_id, fx_locked_at, shipping_rate_id, tax_lines,
+    status, payment_status, customer_notes, shipping_address_id, created_at, updated_at
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'order_number',
+    (p_order->>'subtotal')::NUMERIC,
+    (p_order->>'shipping_amount')::NUMERIC,
+    (p_order->>'tax_amount')::NUMERIC,
+    (p_order->>'total_amount')::NUMERIC,
+    p_order->>'currency',
+    (p_order->>'fx_rate')::NUMERIC,
+    (p_order->>'fx_rate_id')::UUID,
+    (p_order->>'fx_locked_at')::TIMESTAMPTZ,
+    (p_order->>'shipping_rate_id')::UUID,
+    COALESCE(p_order->'tax_lines', '[]'::JSONB),
+    'pending',
+    'pending',
+    p_order->>'customer_notes',
+    v_address_id,
+    NOW(),
+    NOW()
+  );
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    SELECT quantity - reserved_quantity
+    INTO v_available
+    FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size'
+    FOR UPDATE;
+
+    IF v_available IS NULL OR v_available < v_quantity THEN
+      RAISE EXCEPTION '% size % is not available (requested: %, available: %)',
+        v_item->>'product_name', v_item->>'size', v_quantity, COALESCE(v_available, 0)
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    INSERT INTO stock_reservations (id, product_id, size, quantity, user_id, order_id, expires_at)
+    VALUES (
+      gen_random_uuid(), (v_item->>'product_id')::UUID, v_item->>'size', v_quantity,
+      v_user_id, v_order_id, p_reservation_expires_at
+    )
+    RETURNING id INTO v_reservation_id;
+
+    UPDATE product_stock
+    SET reserved_quantity = reserved_quantity + v_quantity,
+        updated_at = NOW()
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      (v_item->>'product_id')::UUID, v_item->>'size', 'reserve', -v_quantity,
+      v_reservation_id, 'reservation', 'Stock reserved for checkout', v_user_id
+    );
+
+    v_item_id := gen_random_uuid();
+
+    INSERT INTO order_items (
+      id, order_id, product_id, size, quantity, unit_price, total_price,
+      product_name, product_brand, product_image_url, reservation_id, created_at
+    )
+    VALUES (
+      v_item_id,
+      v_order_id,
+      (v_item->>'product_id')::UUID,
+      v_item->>'size',
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'total_price')::NUMERIC,
+      v_item->>'product_name',
+      v_item->>'product_brand',
+      v_item->>'product_image_url',
+      v_reservation_id,
+      NOW()
+    );
+
+    v_reservations := v_reservations || jsonb_build_object(
+      'id', v_reservation_id,
+      'order_item_id', v_item_id,
+      'product_id', v_item->>'product_id',
+      'size', v_item->>'size',
+      'quantity', v_quantity,
+      'expires_at', p_reservation_expires_at
+    );
+  END LOOP;
+
+  RETURN v_reservations;
+END;
+$$;
+
+-- Undo a checkout whose payment could not be set up: release its reservations and cancel the order
+CREATE OR REPLACE FUNCTION public.cancel_checkout_order(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_reservation RECORD;
+BEGIN
+  FOR v_reservation IN
+    SELECT * FROM stock_reservations WHERE order_id = p_order_id FOR UPDATE
+  LOOP
+    UPDATE product_stock
+    SET reserved_quantity = GREATEST(0, reserved_quantity - v_reservation.quantity),
+        updated_at = NOW()
+    WHERE product_id = v_reservation.product_id
+      AND size = v_reservation.size;
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      v_reservation.product_id, v_reservation.size, 'release', v_reservation.quantity,
+      v_reservation.id, 'reservation', COALESCE(p_reason, 'Checkout cancelled'), v_reservation.user_id
+    );
+  END LOOP;
+
+  DELETE FROM stock_reservations WHERE order_id = p_order_id;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      payment_status = 'failed',
+      updated_at = NOW()
+  WHERE id = p_order_id
+    AND status = 'pending';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_checkout_order(JSONB, JSONB, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_checkout_order(UUID, TEXT) FROM PUBLIC, anon, authenticated;
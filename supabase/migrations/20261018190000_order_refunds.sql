@@ -0,0 +1,210 @@
+-- Order Refunds
+-- Admins refund a whole order or individual line items from /admin/orders. Each refund is recorded
+-- here before the payment provider is called (create_order_refund) so concurrent refunds cannot
+-- exceed what was paid, then settled with the provider's result (settle_order_refund).
+-- Refunds made outside the app (e.g. the Stripe dashboard) arrive as charge.refunded webhooks and
+-- are recorded without line items.
+
+CREATE TABLE IF NOT EXISTS public.order_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider_refund_id TEXT UNIQUE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  source TEXT NOT NULL DEFAULT 'admin' CHECK (source IN ('admin', 'provider')),
+  restock BOOLEAN NOT NULL DEFAULT TRUE,
+  error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.order_refund_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id UUID NOT NULL REFERENCES public.order_refunds(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  amount NUMERIC(12, 2) NOT NULL,
+  restocked BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order
+  ON public.order_refunds (order_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_order_refund_items_refund
+  ON public.order_refund_items (refund_id);
+
+-- Buyers see the refunds on their own orders; only the service role writes them
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view refunds on their orders"
+  ON public.order_refunds FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders o WHERE o.id = order_refunds.order_id AND o.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view refunded items on their orders"
+  ON public.order_refund_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM public.order_refunds r
+    JOIN public.orders o ON o.id = r.order_id
+    WHERE r.id = order_refund_items.refund_id AND o.user_id = auth.uid()
+  ));
+
+-- Running totals, including refunds still waiting on the provider
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refund_requested_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS refund_request_reason TEXT;
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_payment_status_check
+  CHECK (payment_status IN ('pending', 'completed', 'failed', 'refunded', 'partially_refunded'));
+
+-- Record a refund before it is sent to the provider. The order row is locked while the amount and
+-- quantities are checked against what is left to refund, and the totals are taken immediately so a
+-- second refund started concurrently sees them. p_items: [{ order_item_id, quantity, amount }].
+CREATE OR REPLACE FUNCTION public.create_order_refund(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_items JSONB,
+  p_restock BOOLEAN,
+  p_source TEXT,
+  p_created_by UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order RECORD;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_refund_id UUID;
+BEGIN
+  SELECT id, total_amount, refunded_amount, currency, payment_status
+  INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING HINT = 'not_found';
+  END IF;
+
+  IF v_order.payment_status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Order % has no payment to refund (payment status %)', p_order_id, v_order.payment_status
+      USING HINT = 'not_refundable';
+  END IF;
+
+  IF p_amount <= 0 OR v_order.refunded_amount + p_amount > v_order.total_amount THEN
+    RAISE EXCEPTION 'Refund of % exceeds the % left to refund', p_amount, v_order.total_amount - v_order.refunded_amount
+      USING HINT = 'amount_exceeded';
+  END IF;
+
+  INSERT INTO order_refunds (order_id, amount, currency, reason, status, source, restock, created_by)
+  VALUES (p_order_id, p_amount, COALESCE(v_order.currency, 'EUR'), p_reason, 'pending', p_source, p_restock, p_created_by)
+  RETURNING id INTO v_refund_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    UPDATE order_items
+    SET refunded_quantity = refunded_quantity + v_quantity
+    WHERE id = (v_item->>'order_item_id')::UUID
+      AND order_id = p_order_id
+      AND refunded_quantity + v_quantity <= quantity;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cannot refund % of order item %', v_quantity, v_item->>'order_item_id'
+        USING HINT = 'quantity_exceeded';
+    END IF;
+
+    INSERT INTO order_refund_items (refund_id, order_item_id, quantity, amount)
+    VALUES (v_refund_id, (v_item->>'order_item_id')::UUID, v_quantity, (v_item->>'amount')::NUMERIC);
+  END LOOP;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + p_amount,
+      updated_at = NOW()
+  WHERE id = p_order_id;
+
+  RETURN v_refund_id;
+END;
+$$;
+
+-- Apply the provider's answer. A failed refund gives its amount and quantities back; an issued one
+-- moves the order to partially_refunded, or refunded once everything paid has been returned.
+CREATE OR REPLACE FUNCTION public.settle_order_refund(
+  p_refund_id UUID,
+  p_provider_refund_id TEXT,
+  p_status TEXT,
+  p_error TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_refund RECORD;
+BEGIN
+  SELECT * INTO v_refund FROM order_refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund % not found', p_refund_id USING HINT = 'not_found';
+  END IF;
+
+  -- Already settled (e.g. a retried call); failed refunds have been rolled back once
+  IF v_refund.status = 'failed' OR (v_refund.status = 'succeeded' AND p_status <> 'failed') THEN
+    RETURN;
+  END IF;
+
+  UPDATE order_refunds
+  SET status = p_status,
+      provider_refund_id = COALESCE(p_provider_refund_id, provider_refund_id),
+      error = p_error,
+      updated_at = NOW()
+  WHERE id = p_refund_id;
+
+  IF p_status = 'failed' THEN
+    UPDATE order_items oi
+    SET refunded_quantity = GREATEST(0, oi.refunded_quantity - ri.quantity)
+    FROM order_refund_items ri
+    WHERE ri.refund_id = p_refund_id
+      AND oi.id = ri.order_item_id;
+
+    UPDATE orders
+    SET refunded_amount = GREATEST(0, refunded_amount - v_refund.amount),
+        updated_at = NOW()
+    WHERE id = v_refund.order_id;
+  END IF;
+
+  UPDATE orders
+  SET payment_status = CASE
+        WHEN refunded_amount >= total_amount THEN 'refunded'
+        WHEN EXISTS (
+          SELECT 1 FROM order_refunds r WHERE r.order_id = orders.id AND r.status IN ('pending', 'succeeded')
+        ) THEN 'partially_refunded'
+        ELSE 'completed'
+      END,
+      status = CASE WHEN refunded_amount >= total_amount THEN 'refunded' ELSE status END,
+      updated_at = NOW()
+  WHERE id = v_refund.order_id
+    AND payment_status IN ('completed', 'partially_refunded', 'refunded');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order_refund(UUID, NUMERIC, TEXT, JSONB, BOOLEAN, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_order_refund(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,52 @@
+-- Customer Returns (RMA)
+-- Buyers open a return for a delivered order item with a reason and photos. An admin approves it
+-- (issuing a return label reference) or rejects it, records receipt with an inspection outcome,
+-- and the item is then refunded through order_refunds. Restocked units go back into product_stock;
+-- written-off units are logged as an adjustment move.
+
+CREATE TABLE IF NOT EXISTS public.order_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rma_number TEXT NOT NULL UNIQUE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('wrong_size', 'not_as_described', 'damaged', 'defective', 'changed_mind', 'other')),
+  details TEXT,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'refunded')),
+  label_reference TEXT,
+  rejection_reason TEXT,
+  inspection_outcome TEXT CHECK (inspection_outcome IN ('restock', 'write_off')),
+  inspection_notes TEXT,
+  refund_id UUID REFERENCES public.order_refunds(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  rejected_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  refunded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_status
+  ON public.order_returns (status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_order
+  ON public.order_returns (order_id);
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_user
+  ON public.order_returns (user_id, created_at DESC);
+
+-- Buyers read their own returns; requests and admin steps go through the API (service role)
+ALTER TABLE public.order_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own returns"
+  ON public.order_returns FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Return photos are private; admins see them through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('return-photos', 'return-photos', false)
+ON CONFLICT (id) DO NOTHING;
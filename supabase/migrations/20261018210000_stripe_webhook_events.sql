@@ -0,0 +1,104 @@
+-- Stripe Webhook Event Store
+-- Every verified Stripe event is stored once, keyed by its Stripe event id, so redelivered events are
+-- acknowledged without being handled again. Handling runs through stripe_webhook_queue (the same shape
+-- as the KicksDB webhook_processing_queue): failures are retried with backoff and dead-lettered after
+-- max_attempts, and admins can replay a dead-lettered event from /admin/webhooks.
+
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id TEXT NOT NULL UNIQUE,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  received_count INTEGER NOT NULL DEFAULT 1,
+  processed_at TIMESTAMPTZ,
+  replayed_at TIMESTAMPTZ,
+  replayed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stripe_webhook_event_id UUID NOT NULL REFERENCES public.stripe_webhook_events(id) ON DELETE CASCADE,
+  scheduled_for TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processing_attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  error_details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status
+  ON public.stripe_webhook_events (status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_queue_due
+  ON public.stripe_webhook_queue (status, scheduled_for);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_queue_event
+  ON public.stripe_webhook_queue (stripe_webhook_event_id);
+
+-- Written and read only by the webhook route, the queue worker and admin APIs (service role)
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stripe_webhook_queue ENABLE ROW LEVEL SECURITY;
+
+-- Set when the order confirmation email is claimed, so a retried payment event sends it at most once
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS confirmation_email_sent_at TIMESTAMPTZ;
+
+-- Store a verified event and queue it for handling in one transaction, so an event is never stored
+-- without a queue item to handle it. A redelivered event is counted and reported as a duplicate; it is
+-- queued again only while it is still pending with no live queue item (e.g. its item was lost).
+-- Returns the event, whether it was a duplicate and the queue item created, if any.
+CREATE OR REPLACE FUNCTION public.store_stripe_webhook_event(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_payload JSONB,
+  p_max_attempts INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_event stripe_webhook_events;
+  v_duplicate BOOLEAN := false;
+  v_queue_item_id UUID;
+BEGIN
+  INSERT INTO stripe_webhook_events (event_id, event_type, payload, status)
+  VALUES (p_event_id, p_event_type, p_payload, 'pending')
+  ON CONFLICT (event_id) DO NOTHING
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    v_duplicate := true;
+
+    -- The update locks the event, so concurrent redeliveries do not both queue it
+    UPDATE stripe_webhook_events
+    SET received_count = received_count + 1,
+        updated_at = NOW()
+    WHERE event_id = p_event_id
+    RETURNING * INTO v_event;
+
+    IF v_event.status <> 'pending' OR EXISTS (
+      SELECT 1 FROM stripe_webhook_queue
+      WHERE stripe_webhook_event_id = v_event.id
+        AND status IN ('pending', 'processing')
+    ) THEN
+      RETURN jsonb_build_object('event', to_jsonb(v_event), 'duplicate', true, 'queue_item_id', NULL);
+    END IF;
+  END IF;
+
+  INSERT INTO stripe_webhook_queue (stripe_webhook_event_id, max_attempts, status)
+  VALUES (v_event.id, p_max_attempts, 'pending')
+  RETURNING id INTO v_queue_item_id;
+
+  RETURN jsonb_build_object('event', to_jsonb(v_event), 'duplicate', v_duplicate, 'queue_item_id', v_queue_item_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.store_stripe_webhook_event(TEXT, TEXT, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
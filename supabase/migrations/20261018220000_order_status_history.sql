@@ -0,0 +1,117 @@
+-- Order State Machine
+-- Orders move through fixed transitions of status and payment_status (see src/lib/orders/state-machine.ts).
+-- The orders_status_guard trigger rejects any other change, whoever makes it, and records every change
+-- in order_status_history for the timelines on /orders and in the admin order detail.
+-- Writers that know who made a change set orders.status_changed_by / status_change_note in the same
+-- update; the trigger moves them onto the history row and clears them.
+
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  from_payment_status TEXT,
+  to_payment_status TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+  ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the history of their orders"
+  ON public.order_status_history FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders o WHERE o.id = order_status_history.order_id AND o.user_id = auth.uid()
+  ));
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS status_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS status_change_note TEXT;
+
+-- Keep in step with ORDER_STATUS_TRANSITIONS / PAYMENT_STATUS_TRANSITIONS
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_from_payment TEXT,
+  p_to_payment TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_catalog
+AS $$
+  SELECT
+    (p_from_status = p_to_status OR (p_from_status, p_to_status) IN (
+      ('pending', 'processing'), ('pending', 'cancelled'),
+      ('processing', 'shipped'), ('processing', 'refunded'),
+      ('shipped', 'delivered'), ('shipped', 'refunded'),
+      ('delivered', 'refunded'),
+      ('cancelled', 'processing')
+    ))
+    AND (COALESCE(p_from_payment, 'pending') = COALESCE(p_to_payment, 'pending') OR (COALESCE(p_from_payment, 'pending'), p_to_payment) IN (
+      ('pending', 'completed'), ('pending', 'failed'),
+      ('failed', 'completed'),
+      ('completed', 'partially_refunded'), ('completed', 'refunded'),
+      ('partially_refunded', 'completed'), ('partially_refunded', 'refunded')
+    ))
+    -- A cancelled order only reopens when its failed payment is retried successfully
+    AND NOT (p_from_status = 'cancelled' AND p_to_status = 'processing'
+      AND NOT (COALESCE(p_from_payment, 'pending') = 'failed' AND p_to_payment = 'completed'))
+$$;
+
+CREATE OR REPLACE FUNCTION public.orders_status_guard()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_status_history (order_id, from_status, to_status, from_payment_status, to_payment_status, changed_by, note)
+    VALUES (NEW.id, NULL, NEW.status, NULL, NEW.payment_status, NEW.status_changed_by, COALESCE(NEW.status_change_note, 'Order placed'));
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    IF NOT order_status_transition_allowed(OLD.status, NEW.status, OLD.payment_status, NEW.payment_status) THEN
+      RAISE EXCEPTION 'Order % cannot go from %/% to %/%',
+        OLD.id, OLD.status, COALESCE(OLD.payment_status, 'pending'), NEW.status, COALESCE(NEW.payment_status, 'pending')
+        USING HINT = 'invalid_transition';
+    END IF;
+
+    IF NEW.status = 'shipped' AND OLD.status <> 'shipped' AND COALESCE(TRIM(NEW.tracking_number), '') = '' THEN
+      RAISE EXCEPTION 'Order % needs a tracking number before it ships', OLD.id
+        USING HINT = 'tracking_required';
+    END IF;
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, from_payment_status, to_payment_status, changed_by, note)
+    VALUES (OLD.id, OLD.status, NEW.status, OLD.payment_status, NEW.payment_status, NEW.status_changed_by, NEW.status_change_note);
+  END IF;
+
+  NEW.status_changed_by := NULL;
+  NEW.status_change_note := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_status_guard_insert ON public.orders;
+CREATE TRIGGER orders_status_guard_insert
+  AFTER INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.orders_status_guard();
+
+DROP TRIGGER IF EXISTS orders_status_guard_update ON public.orders;
+CREATE TRIGGER orders_status_guard_update
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.orders_status_guard();
+
+-- Existing orders start their timeline where they are now
+INSERT INTO public.order_status_history (order_id, from_status, to_status, from_payment_status, to_payment_status, note, created_at)
+SELECT o.id, NULL, o.status, NULL, o.payment_status, 'Status before history was recorded', o.updated_at
+FROM public.orders o
+WHERE NOT EXISTS (SELECT 1 FROM public.order_status_history h WHERE h.order_id = o.id);
@@ -0,0 +1,309 @@
+-- Split Shipments
+-- An order ships in one or more shipments, each with its own items, carrier, tracking number and status.
+-- The order status follows its shipments: partially_shipped while units are still to ship, shipped once
+-- everything left after refunds has shipped, delivered once every shipment has arrived.
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded'));
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS shipped_quantity INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.order_shipments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  shipment_number INTEGER NOT NULL,
+  carrier TEXT NOT NULL,
+  tracking_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'shipped' CHECK (status IN ('shipped', 'delivered')),
+  shipped_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (order_id, shipment_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.order_shipment_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id UUID NOT NULL REFERENCES public.order_shipments(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  UNIQUE (shipment_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_shipments_order ON public.order_shipments (order_id, shipment_number);
+CREATE INDEX IF NOT EXISTS idx_order_shipment_items_shipment ON public.order_shipment_items (shipment_id);
+
+ALTER TABLE public.order_shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_shipment_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the shipments of their orders"
+  ON public.order_shipments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders o WHERE o.id = order_shipments.order_id AND o.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view the items in their shipments"
+  ON public.order_shipment_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM public.order_shipments s
+    JOIN public.orders o ON o.id = s.order_id
+    WHERE s.id = order_shipment_items.shipment_id AND o.user_id = auth.uid()
+  ));
+
+-- Keep in step with ORDER_STATUS_TRANSITIONS / PAYMENT_STATUS_TRANSITIONS
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_from_payment TEXT,
+  p_to_payment TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_catalog
+AS $$
+  SELECT
+    (p_from_status = p_to_status OR (p_from_status, p_to_status) IN (
+      ('pending', 'processing'), ('pending', 'cancelled'),
+      ('processing', 'partially_shipped'), ('processing', 'shipped'), ('processing', 'refunded'),
+      ('partially_shipped', 'shipped'), ('partially_shipped', 'refunded'),
+      ('shipped', 'delivered'), ('shipped', 'refunded'),
+      ('delivered', 'refunded'),
+      ('cancelled', 'processing')
+    ))
+    AND (COALESCE(p_from_payment, 'pending') = COALESCE(p_to_payment, 'pending') OR (COALESCE(p_from_payment, 'pending'), p_to_payment) IN (
+      ('pending', 'completed'), ('pending', 'failed'),
+      ('failed', 'completed'),
+      ('completed', 'partially_refunded'), ('completed', 'refunded'),
+      ('partially_refunded', 'completed'), ('partially_refunded', 'refunded')
+    ))
+    -- A cancelled order only reopens when its failed payment is retried successfully
+    AND NOT (p_from_status = 'cancelled' AND p_to_status = 'processing'
+      AND NOT (COALESCE(p_from_payment, 'pending') = 'failed' AND p_to_payment = 'completed'))
+$$;
+
+CREATE OR REPLACE FUNCTION public.orders_status_guard()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_status_history (order_id, from_status, to_status, from_payment_status, to_payment_status, changed_by, note)
+    VALUES (NEW.id, NULL, NEW.status, NULL, NEW.payment_status, NEW.status_changed_by, COALESCE(NEW.status_change_note, 'Order placed'));
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    IF NOT order_status_transition_allowed(OLD.status, NEW.status, OLD.payment_status, NEW.payment_status) THEN
+      RAISE EXCEPTION 'Order % cannot go from %/% to %/%',
+        OLD.id, OLD.status, COALESCE(OLD.payment_status, 'pending'), NEW.status, COALESCE(NEW.payment_status, 'pending')
+        USING HINT = 'invalid_transition';
+    END IF;
+
+    IF NEW.status IN ('partially_shipped', 'shipped') AND OLD.status NOT IN ('partially_shipped', 'shipped')
+      AND COALESCE(TRIM(NEW.tracking_number), '') = '' THEN
+      RAISE EXCEPTION 'Order % needs a tracking number before it ships', OLD.id
+        USING HINT = 'tracking_required';
+    END IF;
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, from_payment_status, to_payment_status, changed_by, note)
+    VALUES (OLD.id, OLD.status, NEW.status, OLD.payment_status, NEW.payment_status, NEW.status_changed_by, NEW.status_change_note);
+  END IF;
+
+  NEW.status_changed_by := NULL;
+  NEW.status_change_note := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Record a shipment and move the order to partially_shipped or shipped. The order row is locked while
+-- quantities are checked against what is left to ship, so two shipments cannot send the same units.
+-- p_items: [{ order_item_id, quantity }].
+CREATE OR REPLACE FUNCTION public.create_order_shipment(
+  p_order_id UUID,
+  p_items JSONB,
+  p_carrier TEXT,
+  p_tracking_number TEXT,
+  p_created_by UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order RECORD;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_shipment_id UUID;
+  v_shipment_number INTEGER;
+  v_status TEXT;
+  v_note TEXT;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING HINT = 'not_found';
+  END IF;
+
+  IF v_order.status NOT IN ('processing', 'partially_shipped') THEN
+    RAISE EXCEPTION 'Order % cannot ship while it is %', p_order_id, v_order.status
+      USING HINT = 'not_shippable';
+  END IF;
+
+  IF COALESCE(TRIM(p_tracking_number), '') = '' THEN
+    RAISE EXCEPTION 'A shipment needs a tracking number' USING HINT = 'tracking_required';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::JSONB)) = 0 THEN
+    RAISE EXCEPTION 'A shipment needs at least one item' USING HINT = 'invalid_request';
+  END IF;
+
+  SELECT COALESCE(MAX(shipment_number), 0) + 1 INTO v_shipment_number
+  FROM order_shipments WHERE order_id = p_order_id;
+
+  INSERT INTO order_shipments (order_id, shipment_number, carrier, tracking_number, created_by)
+  VALUES (p_order_id, v_shipment_number, TRIM(p_carrier), TRIM(p_tracking_number), p_created_by)
+  RETURNING id INTO v_shipment_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    UPDATE order_items
+    SET shipped_quantity = shipped_quantity + v_quantity
+    WHERE id = (v_item->>'order_item_id')::UUID
+      AND order_id = p_order_id
+      AND v_quantity > 0
+      AND shipped_quantity + v_quantity <= quantity - refunded_quantity;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cannot ship % of order item %', v_quantity, v_item->>'order_item_id'
+        USING HINT = 'quantity_exceeded';
+    END IF;
+
+    INSERT INTO order_shipment_items (shipment_id, order_item_id, quantity)
+    VALUES (v_shipment_id, (v_item->>'order_item_id')::UUID, v_quantity);
+  END LOOP;
+
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM order_items WHERE order_id = p_order_id AND shipped_quantity < quantity - refunded_quantity
+    ) THEN 'partially_shipped'
+    ELSE 'shipped'
+  END;
+  v_note := format('Shipment %s sent with %s (%s)', v_shipment_number, TRIM(p_carrier), TRIM(p_tracking_number));
+
+  UPDATE orders
+  SET status = v_status,
+      tracking_number = TRIM(p_tracking_number),
+      shipped_at = COALESCE(shipped_at, NOW()),
+      status_changed_by = p_created_by,
+      status_change_note = v_note,
+      updated_at = NOW()
+  WHERE id = p_order_id;
+
+  -- A further partial shipment leaves the status as it is; it still belongs on the timeline
+  IF v_status = v_order.status THEN
+    INSERT INTO order_status_history (order_id, from_status, to_status, from_payment_status, to_payment_status, changed_by, note)
+    VALUES (p_order_id, v_order.status, v_status, v_order.payment_status, v_order.payment_status, p_created_by, v_note);
+  END IF;
+
+  RETURN v_shipment_id;
+END;
+$$;
+
+-- Mark a shipment delivered. The order becomes delivered once everything has shipped and every
+-- shipment has arrived. Returns the order's status afterwards.
+CREATE OR REPLACE FUNCTION public.mark_order_shipment_delivered(
+  p_shipment_id UUID,
+  p_changed_by UUID
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_shipment RECORD;
+  v_order RECORD;
+  v_note TEXT;
+BEGIN
+  SELECT * INTO v_shipment FROM order_shipments WHERE id = p_shipment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment % not found', p_shipment_id USING HINT = 'not_found';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_shipment.order_id FOR UPDATE;
+
+  -- Already delivered (e.g. a retried call)
+  IF v_shipment.status = 'delivered' THEN
+    RETURN v_order.status;
+  END IF;
+
+  UPDATE order_shipments
+  SET status = 'delivered',
+      delivered_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_shipment_id;
+
+  v_note := format('Shipment %s delivered', v_shipment.shipment_number);
+
+  IF v_order.status = 'shipped' AND NOT EXISTS (
+    SELECT 1 FROM order_shipments WHERE order_id = v_order.id AND status <> 'delivered'
+  ) THEN
+    UPDATE orders
+    SET status = 'delivered',
+        delivered_at = NOW(),
+        status_changed_by = p_changed_by,
+        status_change_note = v_note,
+        updated_at = NOW()
+    WHERE id = v_order.id;
+
+    RETURN 'delivered';
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, from_payment_status, to_payment_status, changed_by, note)
+  VALUES (v_order.id, v_order.status, v_order.status, v_order.payment_status, v_order.payment_status, p_changed_by, v_note);
+
+  RETURN v_order.status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order_shipment(UUID, JSONB, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_order_shipment_delivered(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Orders shipped before shipments existed get a single shipment holding everything they sent
+WITH backfilled AS (
+  INSERT INTO public.order_shipments (order_id, shipment_number, carrier, tracking_number, status, shipped_at, delivered_at)
+  SELECT o.id, 1, COALESCE(o.shipping_method, 'Standard Shipping'), COALESCE(o.tracking_number, ''),
+    CASE WHEN o.status = 'delivered' THEN 'delivered' ELSE 'shipped' END,
+    COALESCE(o.shipped_at, o.updated_at), o.delivered_at
+  FROM public.orders o
+  WHERE o.status IN ('shipped', 'delivered')
+    AND NOT EXISTS (SELECT 1 FROM public.order_shipments s WHERE s.order_id = o.id)
+  RETURNING id, order_id
+)
+INSERT INTO public.order_shipment_items (shipment_id, order_item_id, quantity)
+SELECT b.id, oi.id, oi.quantity - oi.refunded_quantity
+FROM backfilled b
+JOIN public.order_items oi ON oi.order_id = b.order_id
+WHERE oi.quantity - oi.refunded_quantity > 0;
+
+UPDATE public.order_items oi
+SET shipped_quantity = si.quantity
+FROM public.order_shipment_items si
+JOIN public.order_shipments s ON s.id = si.shipment_id
+WHERE si.order_item_id = oi.id
+  AND s.shipment_number = 1
+  AND oi.shipped_quantity = 0;
@@ -0,0 +1,52 @@
+-- Shipment Tracking
+-- Shipments sent with a supported carrier are polled for status. Carrier events are stored per shipment
+-- for the customer orders page; a shipment is delivered (and its order with it) when the carrier says so,
+-- and flagged as stuck when nothing has moved for too long.
+
+ALTER TABLE public.order_shipments
+  ADD COLUMN IF NOT EXISTS carrier_code TEXT CHECK (carrier_code IN ('dhl', 'ups', 'colissimo', 'la_poste', 'fake')),
+  ADD COLUMN IF NOT EXISTS tracking_status TEXT CHECK (tracking_status IN ('label_created', 'in_transit', 'out_for_delivery', 'delivered', 'exception')),
+  ADD COLUMN IF NOT EXISTS estimated_delivery TEXT,
+  ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS stuck_at TIMESTAMPTZ;
+
+-- Keep in step with resolveCarrierCode
+UPDATE public.order_shipments
+SET carrier_code = CASE
+    WHEN carrier ~* '\mdhl\M' THEN 'dhl'
+    WHEN carrier ~* '\mups\M' THEN 'ups'
+    WHEN carrier ILIKE '%colissimo%' THEN 'colissimo'
+    WHEN carrier ~* 'la\s*poste' THEN 'la_poste'
+  END
+WHERE carrier_code IS NULL;
+
+-- Shipments the poller still has to check, least recently checked first
+CREATE INDEX IF NOT EXISTS idx_order_shipments_tracking
+  ON public.order_shipments (last_checked_at NULLS FIRST)
+  WHERE status = 'shipped' AND carrier_code IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.order_shipment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id UUID NOT NULL REFERENCES public.order_shipments(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('label_created', 'in_transit', 'out_for_delivery', 'delivered', 'exception')),
+  description TEXT NOT NULL,
+  location TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Carriers return the full history on every poll
+  UNIQUE (shipment_id, occurred_at, status, description)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_shipment_events_shipment ON public.order_shipment_events (shipment_id, occurred_at);
+
+ALTER TABLE public.order_shipment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the tracking events of their shipments"
+  ON public.order_shipment_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM public.order_shipments s
+    JOIN public.orders o ON o.id = s.order_id
+    WHERE s.id = order_shipment_events.shipment_id AND o.user_id = auth.uid()
+  ));
@@ -0,0 +1,242 @@
+-- Guest Checkout
+-- Buyers can check out without an account. A guest order has no user; it records the email the buyer
+-- gave and is paid for from the cart saved under their cart session. Guests find their order again
+-- with a signed lookup link (sent with the order confirmation) or with order number plus email.
+-- When someone confirms an account with that email, their guest orders are attached to it.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS customer_email TEXT,
+  -- Cart session a guest order was placed from; its cart lines are removed once the order is paid
+  ADD COLUMN IF NOT EXISTS cart_session_id TEXT;
+
+ALTER TABLE public.orders ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.user_addresses ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_buyer_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_buyer_check
+  CHECK (user_id IS NOT NULL OR customer_email IS NOT NULL) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_orders_guest_email
+  ON public.orders (lower(customer_email))
+  WHERE user_id IS NULL;
+
+-- A checkout key belongs to a user, or to the cart session of a guest
+ALTER TABLE public.checkout_requests ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.checkout_requests
+  ADD COLUMN IF NOT EXISTS cart_session_id TEXT;
+
+ALTER TABLE public.checkout_requests DROP CONSTRAINT IF EXISTS checkout_requests_buyer_check;
+ALTER TABLE public.checkout_requests
+  ADD CONSTRAINT checkout_requests_buyer_check
+  CHECK (user_id IS NOT NULL OR cart_session_id IS NOT NULL);
+
+-- Same as before, plus guest orders: no user, the buyer's email, and reservations held for the cart session
+
+CREATE OR REPLACE FUNCTION public.place_checkout_order(
+  p_order JSONB,
+  p_items JSONB,
+  p_address JSONB,
+  p_reservation_expires_at TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order_id UUID := (p_order->>'id')::UUID;
+  v_user_id UUID := (p_order->>'user_id')::UUID;
+  v_email TEXT := NULLIF(lower(trim(p_order->>'customer_email')), '');
+  v_session_id TEXT := p_order->>'cart_session_id';
+  v_address_id UUID;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_available INTEGER;
+  v_reservation_id UUID;
+  v_item_id UUID;
+  v_reservations JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL AND v_email IS NULL THEN
+    RAISE EXCEPTION 'Guest orders need an email address' USING HINT = 'invalid_request';
+  END IF;
+
+  IF p_address IS NOT NULL THEN
+    INSERT INTO user_addresses (
+      id, user_id, type, first_name, last_name, address_line_1, city, postal_code, country, created_at
+    )
+    VALUES (
+      gen_random_uuid(), v_user_id, 'shipping', p_address->>'first_name', p_address->>'last_name',
+      p_address->>'address_line_1', p_address->>'city', p_address->>'postal_code', p_address->>'country', NOW()
+    )
+    RETURNING id INTO v_address_id;
+  END IF;
+
+  INSERT INTO orders (
+    id, user_id, order_number, subtotal, shipping_amount, tax_amount, total_amount,
+    currency, fx_rate, fx_rate_id, fx_locked_at, shipping_rate_id, tax_lines,
+    status, payment_status, customer_notes, shipping_address_id, customer_email, cart_session_id, created_at, updated_at
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'order_number',
+    (p_order->>'subtotal')::NUMERIC,
+    (p_order->>'shipping_amount')::NUMERIC,
+    (p_order->>'tax_amount')::NUMERIC,
+    (p_order->>'total_amount')::NUMERIC,
+    p_order->>'currency',
+    (p_order->>'fx_rate')::NUMERIC,
+    (p_order->>'fx_rate_id')::UUID,
+    (p_order->>'fx_locked_at')::TIMESTAMPTZ,
+    (p_order->>'shipping_rate_id')::UUID,
+    COALESCE(p_order->'tax_lines', '[]'::JSONB),
+    'pending',
+    'pending',
+    p_order->>'customer_notes',
+    v_address_id,
+    v_email,
+    CASE WHEN v_user_id IS NULL THEN v_session_id END,
+    NOW(),
+    NOW()
+  );
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    SELECT quantity - reserved_quantity
+    INTO v_available
+    FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size'
+    FOR UPDATE;
+
+    IF v_available IS NULL OR v_available < v_quantity THEN
+      RAISE EXCEPTION '% size % is not available (requested: %, available: %)',
+        v_item->>'product_name', v_item->>'size', v_quantity, COALESCE(v_available, 0)
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    INSERT INTO stock_reservations (id, product_id, size, quantity, user_id, session_id, order_id, expires_at)
+    VALUES (
+      gen_random_uuid(), (v_item->>'product_id')::UUID, v_item->>'size', v_quantity,
+      v_user_id, CASE WHEN v_user_id IS NULL THEN v_session_id END, v_order_id, p_reservation_expires_at
+    )
+    RETURNING id INTO v_reservation_id;
+
+    UPDATE product_stock
+    SET reserved_quantity = reserved_quantity + v_quantity,
+        updated_at = NOW()
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      (v_item->>'product_id')::UUID, v_item->>'size', 'reserve', -v_quantity,
+      v_reservation_id, 'reservation', 'Stock reserved for checkout', v_user_id
+    );
+
+    v_item_id := gen_random_uuid();
+
+    INSERT INTO order_items (
+      id, order_id, product_id, size, quantity, unit_price, total_price,
+      product_name, product_brand, product_image_url, reservation_id, created_at
+    )
+    VALUES (
+      v_item_id,
+      v_order_id,
+      (v_item->>'product_id')::UUID,
+      v_item->>'size',
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'total_price')::NUMERIC,
+      v_item->>'product_name',
+      v_item->>'product_brand',
+      v_item->>'product_image_url',
+      v_reservation_id,
+      NOW()
+    );
+
+    v_reservations := v_reservations || jsonb_build_object(
+      'id', v_reservation_id,
+      'order_item_id', v_item_id,
+      'product_id', v_item->>'product_id',
+      'size', v_item->>'size',
+      'quantity', v_quantity,
+      'expires_at', p_reservation_expires_at
+    );
+  END LOOP;
+
+  RETURN v_reservations;
+END;
+$$;
+
+-- Attach guest orders placed with this email to the account. Only called for confirmed emails, so
+-- nobody can claim orders by signing up with someone else's address. Returns the number attached.
+CREATE OR REPLACE FUNCTION public.claim_guest_orders(
+  p_user_id UUID,
+  p_email TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF p_email IS NULL OR trim(p_email) = '' THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_addresses a
+  SET user_id = p_user_id
+  FROM orders o
+  WHERE o.shipping_address_id = a.id
+    AND o.user_id IS NULL
+    AND a.user_id IS NULL
+    AND lower(o.customer_email) = lower(trim(p_email));
+
+  UPDATE stock_reservations r
+  SET user_id = p_user_id
+  FROM orders o
+  WHERE r.order_id = o.id
+    AND o.user_id IS NULL
+    AND lower(o.customer_email) = lower(trim(p_email));
+
+  UPDATE orders
+  SET user_id = p_user_id,
+      updated_at = NOW()
+  WHERE user_id IS NULL
+    AND lower(customer_email) = lower(trim(p_email));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_guest_orders_on_confirm()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  IF NEW.email_confirmed_at IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.email_confirmed_at IS NULL OR OLD.email IS DISTINCT FROM NEW.email) THEN
+    PERFORM claim_guest_orders(NEW.id, NEW.email);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS claim_guest_orders_on_confirm ON auth.users;
+CREATE TRIGGER claim_guest_orders_on_confirm
+  AFTER INSERT OR UPDATE OF email_confirmed_at, email ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.claim_guest_orders_on_confirm();
+
+REVOKE EXECUTE ON FUNCTION public.place_checkout_order(JSONB, JSONB, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_guest_orders(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_guest_orders_on_confirm() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,274 @@
+-- Promotions
+-- Discount codes applied in the cart and checked again when the order is placed. Rule types:
+--   percentage     value percent off the eligible items
+--   fixed_amount   value off the eligible items (never more than they cost)
+--   free_shipping  the order's shipping is waived
+--   buy_x_get_y    for every buy_quantity + get_quantity eligible pairs, the cheapest get_quantity
+--                  pairs are value percent off (100 = free)
+-- A promotion can target brands, categories and products (an item qualifies when it matches any of
+-- them; no targets means every item), and can require a minimum subtotal, a date window and a number
+-- of uses overall and per buyer. Amounts are in the base currency (EUR).
+
+CREATE TABLE IF NOT EXISTS public.promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL CHECK (type IN ('percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y')),
+  value NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  buy_quantity INTEGER CHECK (buy_quantity > 0),
+  get_quantity INTEGER CHECK (get_quantity > 0),
+  brand_ids UUID[] NOT NULL DEFAULT '{}',
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+  product_ids UUID[] NOT NULL DEFAULT '{}',
+  min_subtotal NUMERIC(10, 2) CHECK (min_subtotal >= 0),
+  usage_limit INTEGER CHECK (usage_limit > 0),
+  usage_limit_per_user INTEGER CHECK (usage_limit_per_user > 0),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT promotions_percent_check
+    CHECK (type NOT IN ('percentage', 'buy_x_get_y') OR value <= 100),
+  CONSTRAINT promotions_buy_x_get_y_check
+    CHECK (type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL)),
+  CONSTRAINT promotions_window_check
+    CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+-- Codes are matched case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promotions_code
+  ON public.promotions (upper(code));
+
+-- One row per order that used a promotion; orders that end up cancelled do not count as uses
+CREATE TABLE IF NOT EXISTS public.promotion_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id UUID NOT NULL REFERENCES public.promotions(id) ON DELETE RESTRICT,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  customer_email TEXT,
+  amount NUMERIC(10, 2) NOT NULL,
+  currency TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (promotion_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_user
+  ON public.promotion_redemptions (promotion_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_email
+  ON public.promotion_redemptions (promotion_id, lower(customer_email));
+
+-- Codes are only checked through the server, so neither table is readable by clients
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Discount lines as applied at checkout, in the order's currency
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_lines JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- Uses of a promotion overall and by one buyer (matched by account or by email)
+CREATE OR REPLACE FUNCTION public.promotion_usage(
+  p_promotion_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+  SELECT jsonb_build_object(
+    'total', COUNT(*),
+    'by_buyer', COUNT(*) FILTER (
+      WHERE (p_user_id IS NOT NULL AND r.user_id = p_user_id)
+         OR (p_email IS NOT NULL AND lower(r.customer_email) = lower(trim(p_email)))
+    )
+  )
+  FROM promotion_redemptions r
+  JOIN orders o ON o.id = r.order_id
+  WHERE r.promotion_id = p_promotion_id
+    AND o.status <> 'cancelled';
+$$;
+
+-- Same as before, plus the discount: p_order may carry promotion_id, discount_amount and discount_lines.
+-- The promotion row is locked while its limits are checked so concurrent checkouts cannot exceed them.
+
+CREATE OR REPLACE FUNCTION public.place_checkout_order(
+  p_order JSONB,
+  p_items JSONB,
+  p_address JSONB,
+  p_reservation_expires_at TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order_id UUID := (p_order->>'id')::UUID;
+  v_user_id UUID := (p_order->>'user_id')::UUID;
+  v_email TEXT := NULLIF(lower(trim(p_order->>'customer_email')), '');
+  v_session_id TEXT := p_order->>'cart_session_id';
+  v_promotion_id UUID := (p_order->>'promotion_id')::UUID;
+  v_promotion RECORD;
+  v_usage JSONB;
+  v_address_id UUID;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_available INTEGER;
+  v_reservation_id UUID;
+  v_item_id UUID;
+  v_reservations JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL AND v_email IS NULL THEN
+    RAISE EXCEPTION 'Guest orders need an email address' USING HINT = 'invalid_request';
+  END IF;
+
+  IF p_address IS NOT NULL THEN
+    INSERT INTO user_addresses (
+      id, user_id, type, first_name, last_name, address_line_1, city, postal_code, country, created_at
+    )
+    VALUES (
+      gen_random_uuid(), v_user_id, 'shipping', p_address->>'first_name', p_address->>'last_name',
+      p_address->>'address_line_1', p_address->>'city', p_address->>'postal_code', p_address->>'country', NOW()
+    )
+    RETURNING id INTO v_address_id;
+  END IF;
+
+  INSERT INTO orders (
+    id, user_id, order_number, subtotal, shipping_amount, tax_amount, discount_amount, total_amount,
+    currency, fx_rate, fx_rate_id, fx_locked_at, shipping_rate_id, tax_lines, discount_lines,
+    status, payment_status, customer_notes, shipping_address_id, customer_email, cart_session_id, created_at, updated_at
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'order_number',
+    (p_order->>'subtotal')::NUMERIC,
+    (p_order->>'shipping_amount')::NUMERIC,
+    (p_order->>'tax_amount')::NUMERIC,
+    COALESCE((p_order->>'discount_amount')::NUMERIC, 0),
+    (p_order->>'total_amount')::NUMERIC,
+    p_order->>'currency',
+    (p_order->>'fx_rate')::NUMERIC,
+    (p_order->>'fx_rate_id')::UUID,
+    (p_order->>'fx_locked_at')::TIMESTAMPTZ,
+    (p_order->>'shipping_rate_id')::UUID,
+    COALESCE(p_order->'tax_lines', '[]'::JSONB),
+    COALESCE(p_order->'discount_lines', '[]'::JSONB),
+    'pending',
+    'pending',
+    p_order->>'customer_notes',
+    v_address_id,
+    v_email,
+    CASE WHEN v_user_id IS NULL THEN v_session_id END,
+    NOW(),
+    NOW()
+  );
+
+  IF v_promotion_id IS NOT NULL THEN
+    SELECT * INTO v_promotion FROM promotions WHERE id = v_promotion_id FOR UPDATE;
+
+    IF NOT FOUND
+      OR NOT v_promotion.is_active
+      OR (v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > NOW())
+      OR (v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at <= NOW()) THEN
+      RAISE EXCEPTION 'This discount code is no longer available' USING HINT = 'promotion_unavailable';
+    END IF;
+
+    v_usage := promotion_usage(v_promotion_id, v_user_id, v_email);
+
+    IF v_promotion.usage_limit IS NOT NULL AND (v_usage->>'total')::INTEGER >= v_promotion.usage_limit THEN
+      RAISE EXCEPTION 'This discount code has been fully redeemed' USING HINT = 'promotion_usage_limit';
+    END IF;
+
+    IF v_promotion.usage_limit_per_user IS NOT NULL
+      AND (v_usage->>'by_buyer')::INTEGER >= v_promotion.usage_limit_per_user THEN
+      RAISE EXCEPTION 'You have already used this discount code' USING HINT = 'promotion_buyer_usage_limit';
+    END IF;
+
+    INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, customer_email, amount, currency)
+    VALUES (
+      v_promotion_id, v_order_id, v_user_id, v_email,
+      COALESCE((p_order->>'discount_amount')::NUMERIC, 0), p_order->>'currency'
+    );
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    SELECT quantity - reserved_quantity
+    INTO v_available
+    FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size'
+    FOR UPDATE;
+
+    IF v_available IS NULL OR v_available < v_quantity THEN
+      RAISE EXCEPTION '% size % is not available (requested: %, available: %)',
+        v_item->>'product_name', v_item->>'size', v_quantity, COALESCE(v_available, 0)
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    INSERT INTO stock_reservations (id, product_id, size, quantity, user_id, session_id, order_id, expires_at)
+    VALUES (
+      gen_random_uuid(), (v_item->>'product_id')::UUID, v_item->>'size', v_quantity,
+      v_user_id, CASE WHEN v_user_id IS NULL THEN v_session_id END, v_order_id, p_reservation_expires_at
+    )
+    RETURNING id INTO v_reservation_id;
+
+    UPDATE product_stock
+    SET reserved_quantity = reserved_quantity + v_quantity,
+        updated_at = NOW()
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      (v_item->>'product_id')::UUID, v_item->>'size', 'reserve', -v_quantity,
+      v_reservation_id, 'reservation', 'Stock reserved for checkout', v_user_id
+    );
+
+    v_item_id := gen_random_uuid();
+
+    INSERT INTO order_items (
+      id, order_id, product_id, size, quantity, unit_price, total_price,
+      product_name, product_brand, product_image_url, reservation_id, created_at
+    )
+    VALUES (
+      v_item_id,
+      v_order_id,
+      (v_item->>'product_id')::UUID,
+      v_item->>'size',
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'total_price')::NUMERIC,
+      v_item->>'product_name',
+      v_item->>'product_brand',
+      v_item->>'product_image_url',
+      v_reservation_id,
+      NOW()
+    );
+
+    v_reservations := v_reservations || jsonb_build_object(
+      'id', v_reservation_id,
+      'order_item_id', v_item_id,
+      'product_id', v_item->>'product_id',
+      'size', v_item->>'size',
+      'quantity', v_quantity,
+      'expires_at', p_reservation_expires_at
+    );
+  END LOOP;
+
+  RETURN v_reservations;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promotion_usage(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_checkout_order(JSONB, JSONB, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,647 @@
+-- Store Credit
+-- Customers hold a store credit balance, in the base currency (EUR), that can pay for all or part of an
+-- order. Every change to a balance is an entry in store_credit_ledger, which is append-only; the
+-- balance on store_credit_accounts is the running total and is only changed together with an entry
+-- (post_store_credit_entry). Credit comes from:
+--   gift_card               a purchased gift card redeemed into the account
+--   refund                  a refund issued as credit instead of to the card
+--   order_payment           credit spent at checkout (negative)
+--   order_payment_reversal  credit given back when that order's payment fails or it is cancelled unpaid
+--   adjustment              an admin correction, also recorded in audit_logs
+
+CREATE TABLE IF NOT EXISTS public.store_credit_accounts (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id),
+  balance NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Gift cards are bought like an order (a payment intent carries gift_card_id) and become active once
+-- paid. The code is redeemed once, moving the whole amount into the redeemer's balance.
+CREATE TABLE IF NOT EXISTS public.gift_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'redeemed', 'void')),
+  purchaser_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  message TEXT,
+  payment_intent_id TEXT UNIQUE,
+  activated_at TIMESTAMPTZ,
+  redeemed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  redeemed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_cards_purchaser
+  ON public.gift_cards (purchaser_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.store_credit_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount <> 0),
+  balance_after NUMERIC(12, 2) NOT NULL CHECK (balance_after >= 0),
+  entry_type TEXT NOT NULL
+    CHECK (entry_type IN ('gift_card', 'refund', 'order_payment', 'order_payment_reversal', 'adjustment')),
+  gift_card_id UUID REFERENCES public.gift_cards(id),
+  order_id UUID REFERENCES public.orders(id),
+  refund_id UUID REFERENCES public.order_refunds(id),
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_credit_ledger_user
+  ON public.store_credit_ledger (user_id, created_at DESC);
+
+-- Each gift card and refund moves credit at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_store_credit_ledger_gift_card
+  ON public.store_credit_ledger (gift_card_id) WHERE entry_type = 'gift_card';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_store_credit_ledger_refund
+  ON public.store_credit_ledger (refund_id) WHERE entry_type = 'refund';
+
+-- An order's credit is returned when its payment fails and spent again if a retry pays it, so its
+-- payment and reversal entries always net to the spend or to nothing
+CREATE INDEX IF NOT EXISTS idx_store_credit_ledger_order
+  ON public.store_credit_ledger (order_id, created_at) WHERE order_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.store_credit_ledger_append_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'store_credit_ledger is append-only; post a correcting entry instead';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS store_credit_ledger_append_only ON public.store_credit_ledger;
+CREATE TRIGGER store_credit_ledger_append_only
+  BEFORE UPDATE OR DELETE ON public.store_credit_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.store_credit_ledger_append_only();
+
+-- Customers read their own balance, history and purchased gift cards; only the service role writes
+ALTER TABLE public.store_credit_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_credit_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their store credit balance"
+  ON public.store_credit_accounts FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view their store credit history"
+  ON public.store_credit_ledger FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view gift cards they bought"
+  ON public.gift_cards FOR SELECT
+  USING (purchaser_id = auth.uid());
+
+-- Credit spent on an order (in the order's currency) and the part of refunded_amount returned as credit
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS store_credit_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS credit_refunded_amount NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.order_refunds
+  ADD COLUMN IF NOT EXISTS store_credit_amount NUMERIC(12, 2) NOT NULL DEFAULT 0
+    CHECK (store_credit_amount >= 0);
+
+-- Add p_amount (base currency, negative to spend) to a user's balance and record it. The account row
+-- is locked so concurrent entries see each other; a balance that would go below zero is refused.
+CREATE OR REPLACE FUNCTION public.post_store_credit_entry(
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_entry_type TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL,
+  p_gift_card_id UUID DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_refund_id UUID DEFAULT NULL
+)
+RETURNS public.store_credit_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_entry store_credit_ledger;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'Store credit needs an account' USING HINT = 'no_account';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RAISE EXCEPTION 'Store credit entries need a non-zero amount' USING HINT = 'invalid_amount';
+  END IF;
+
+  INSERT INTO store_credit_accounts (user_id) VALUES (p_user_id) ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance INTO v_balance FROM store_credit_accounts WHERE user_id = p_user_id FOR UPDATE;
+
+  IF v_balance + p_amount < 0 THEN
+    RAISE EXCEPTION 'Store credit balance of % does not cover %', v_balance, -p_amount
+      USING HINT = 'insufficient_credit';
+  END IF;
+
+  UPDATE store_credit_accounts
+  SET balance = v_balance + p_amount,
+      updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO store_credit_ledger (
+    user_id, amount, balance_after, entry_type, gift_card_id, order_id, refund_id, note, created_by
+  )
+  VALUES (
+    p_user_id, p_amount, v_balance + p_amount, p_entry_type, p_gift_card_id, p_order_id, p_refund_id, p_note, p_created_by
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- Move an active gift card's amount into the user's balance
+CREATE OR REPLACE FUNCTION public.redeem_gift_card(
+  p_code TEXT,
+  p_user_id UUID
+)
+RETURNS public.store_credit_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_card gift_cards;
+  v_entry store_credit_ledger;
+BEGIN
+  SELECT * INTO v_card FROM gift_cards WHERE code = upper(trim(p_code)) FOR UPDATE;
+
+  IF NOT FOUND OR v_card.status IN ('pending', 'void') THEN
+    RAISE EXCEPTION 'This gift card code is not valid' USING HINT = 'gift_card_not_found';
+  END IF;
+
+  IF v_card.status = 'redeemed' THEN
+    RAISE EXCEPTION 'This gift card has already been redeemed' USING HINT = 'gift_card_redeemed';
+  END IF;
+
+  v_entry := post_store_credit_entry(
+    p_user_id, v_card.amount, 'gift_card', 'Gift card ' || v_card.code, p_user_id, v_card.id, NULL, NULL
+  );
+
+  UPDATE gift_cards
+  SET status = 'redeemed',
+      redeemed_by = p_user_id,
+      redeemed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_card.id;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- Give back the credit an order spent when its payment fails (declined card, expired or cancelled checkout)
+CREATE OR REPLACE FUNCTION public.restore_order_store_credit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_net NUMERIC;
+BEGIN
+  SELECT user_id, SUM(amount)
+  INTO v_user_id, v_net
+  FROM store_credit_ledger
+  WHERE order_id = NEW.id AND entry_type IN ('order_payment', 'order_payment_reversal')
+  GROUP BY user_id;
+
+  IF FOUND AND v_net < 0 THEN
+    PERFORM post_store_credit_entry(
+      v_user_id, -v_net, 'order_payment_reversal',
+      'Order ' || COALESCE(NEW.order_number, NEW.id::TEXT) || ' was not paid', NULL, NULL, NEW.id, NULL
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_restore_store_credit ON public.orders;
+CREATE TRIGGER orders_restore_store_credit
+  AFTER UPDATE OF payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.payment_status = 'failed' AND OLD.payment_status IS DISTINCT FROM 'failed' AND NEW.store_credit_amount > 0)
+  EXECUTE FUNCTION public.restore_order_store_credit();
+
+-- A failed order that a retried card payment completes only charged the card for the total less the
+-- credit, so the credit returned on failure is spent again. The payment is refused when the buyer's
+-- balance no longer covers it.
+CREATE OR REPLACE FUNCTION public.reclaim_order_store_credit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_payment store_credit_ledger;
+  v_net NUMERIC;
+BEGIN
+  SELECT * INTO v_payment
+  FROM store_credit_ledger
+  WHERE order_id = NEW.id AND entry_type = 'order_payment'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT SUM(amount) INTO v_net
+  FROM store_credit_ledger
+  WHERE order_id = NEW.id AND entry_type IN ('order_payment', 'order_payment_reversal');
+
+  IF v_net = 0 THEN
+    PERFORM post_store_credit_entry(
+      v_payment.user_id, v_payment.amount, 'order_payment',
+      'Order ' || COALESCE(NEW.order_number, NEW.id::TEXT) || ' paid after a failed payment', NULL, NULL, NEW.id, NULL
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_reclaim_store_credit ON public.orders;
+CREATE TRIGGER orders_reclaim_store_credit
+  BEFORE UPDATE OF payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.payment_status = 'failed' AND NEW.payment_status = 'completed' AND NEW.store_credit_amount > 0)
+  EXECUTE FUNCTION public.reclaim_order_store_credit();
+
+-- Same as before, plus store credit: p_order may carry store_credit_amount (order currency) and
+-- store_credit_base_amount (what is taken from the buyer's balance, base currency).
+
+CREATE OR REPLACE FUNCTION public.place_checkout_order(
+  p_order JSONB,
+  p_items JSONB,
+  p_address JSONB,
+  p_reservation_expires_at TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order_id UUID := (p_order->>'id')::UUID;
+  v_user_id UUID := (p_order->>'user_id')::UUID;
+  v_email TEXT := NULLIF(lower(trim(p_order->>'customer_email')), '');
+  v_session_id TEXT := p_order->>'cart_session_id';
+  v_promotion_id UUID := (p_order->>'promotion_id')::UUID;
+  v_promotion RECORD;
+  v_usage JSONB;
+  v_credit NUMERIC := COALESCE((p_order->>'store_credit_amount')::NUMERIC, 0);
+  v_address_id UUID;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_available INTEGER;
+  v_reservation_id UUID;
+  v_item_id UUID;
+  v_reservations JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL AND v_email IS NULL THEN
+    RAISE EXCEPTION 'Guest orders need an email address' USING HINT = 'invalid_request';
+  END IF;
+
+  IF p_address IS NOT NULL THEN
+    INSERT INTO user_addresses (
+      id, user_id, type, first_name, last_name, address_line_1, city, postal_code, country, created_at
+    )
+    VALUES (
+      gen_random_uuid(), v_user_id, 'shipping', p_address->>'first_name', p_address->>'last_name',
+      p_address->>'address_line_1', p_address->>'city', p_address->>'postal_code', p_address->>'country', NOW()
+    )
+    RETURNING id INTO v_address_id;
+  END IF;
+
+  INSERT INTO orders (
+    id, user_id, order_number, subtotal, shipping_amount, tax_amount, discount_amount, total_amount,
+    store_credit_amount, currency, fx_rate, fx_rate_id, fx_locked_at, shipping_rate_id, tax_lines, discount_lines,
+    status, payment_status, customer_notes, shipping_address_id, customer_email, cart_session_id, created_at, updated_at
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'order_number',
+    (p_order->>'subtotal')::NUMERIC,
+    (p_order->>'shipping_amount')::NUMERIC,
+    (p_order->>'tax_amount')::NUMERIC,
+    COALESCE((p_order->>'discount_amount')::NUMERIC, 0),
+    (p_order->>'total_amount')::NUMERIC,
+    v_credit,
+    p_order->>'currency',
+    (p_order->>'fx_rate')::NUMERIC,
+    (p_order->>'fx_rate_id')::UUID,
+    (p_order->>'fx_locked_at')::TIMESTAMPTZ,
+    (p_order->>'shipping_rate_id')::UUID,
+    COALESCE(p_order->'tax_lines', '[]'::JSONB),
+    COALESCE(p_order->'discount_lines', '[]'::JSONB),
+    'pending',
+    'pending',
+    p_order->>'customer_notes',
+    v_address_id,
+    v_email,
+    CASE WHEN v_user_id IS NULL THEN v_session_id END,
+    NOW(),
+    NOW()
+  );
+
+  IF v_promotion_id IS NOT NULL THEN
+    SELECT * INTO v_promotion FROM promotions WHERE id = v_promotion_id FOR UPDATE;
+
+    IF NOT FOUND
+      OR NOT v_promotion.is_active
+      OR (v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > NOW())
+      OR (v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at <= NOW()) THEN
+      RAISE EXCEPTION 'This discount code is no longer available' USING HINT = 'promotion_unavailable';
+    END IF;
+
+    v_usage := promotion_usage(v_promotion_id, v_user_id, v_email);
+
+    IF v_promotion.usage_limit IS NOT NULL AND (v_usage->>'total')::INTEGER >= v_promotion.usage_limit THEN
+      RAISE EXCEPTION 'This discount code has been fully redeemed' USING HINT = 'promotion_usage_limit';
+    END IF;
+
+    IF v_promotion.usage_limit_per_user IS NOT NULL
+      AND (v_usage->>'by_buyer')::INTEGER >= v_promotion.usage_limit_per_user THEN
+      RAISE EXCEPTION 'You have already used this discount code' USING HINT = 'promotion_buyer_usage_limit';
+    END IF;
+
+    INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, customer_email, amount, currency)
+    VALUES (
+      v_promotion_id, v_order_id, v_user_id, v_email,
+      COALESCE((p_order->>'discount_amount')::NUMERIC, 0), p_order->>'currency'
+    );
+  END IF;
+
+  IF v_credit > 0 THEN
+    PERFORM post_store_credit_entry(
+      v_user_id, -(p_order->>'store_credit_base_amount')::NUMERIC, 'order_payment',
+      'Order ' || (p_order->>'order_number'), v_user_id, NULL, v_order_id, NULL
+    );
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    SELECT quantity - reserved_quantity
+    INTO v_available
+    FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size'
+    FOR UPDATE;
+
+    IF v_available IS NULL OR v_available < v_quantity THEN
+      RAISE EXCEPTION '% size % is not available (requested: %, available: %)',
+        v_item->>'product_name', v_item->>'size', v_quantity, COALESCE(v_available, 0)
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    INSERT INTO stock_reservations (id, product_id, size, quantity, user_id, session_id, order_id, expires_at)
+    VALUES (
+      gen_random_uuid(), (v_item->>'product_id')::UUID, v_item->>'size', v_quantity,
+      v_user_id, CASE WHEN v_user_id IS NULL THEN v_session_id END, v_order_id, p_reservation_expires_at
+    )
+    RETURNING id INTO v_reservation_id;
+
+    UPDATE product_stock
+    SET reserved_quantity = reserved_quantity + v_quantity,
+        updated_at = NOW()
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      (v_item->>'product_id')::UUID, v_item->>'size', 'reserve', -v_quantity,
+      v_reservation_id, 'reservation', 'Stock reserved for checkout', v_user_id
+    );
+
+    v_item_id := gen_random_uuid();
+
+    INSERT INTO order_items (
+      id, order_id, product_id, size, quantity, unit_price, total_price,
+      product_name, product_brand, product_image_url, reservation_id, created_at
+    )
+    VALUES (
+      v_item_id,
+      v_order_id,
+      (v_item->>'product_id')::UUID,
+      v_item->>'size',
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'total_price')::NUMERIC,
+      v_item->>'product_name',
+      v_item->>'product_brand',
+      v_item->>'product_image_url',
+      v_reservation_id,
+      NOW()
+    );
+
+    v_reservations := v_reservations || jsonb_build_object(
+      'id', v_reservation_id,
+      'order_item_id', v_item_id,
+      'product_id', v_item->>'product_id',
+      'size', v_item->>'size',
+      'quantity', v_quantity,
+      'expires_at', p_reservation_expires_at
+    );
+  END LOOP;
+
+  RETURN v_reservations;
+END;
+$$;
+
+-- Refunds can return part or all of their amount as store credit (p_store_credit_amount, order currency)
+
+DROP FUNCTION IF EXISTS public.create_order_refund(UUID, NUMERIC, TEXT, JSONB, BOOLEAN, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_order_refund(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_items JSONB,
+  p_restock BOOLEAN,
+  p_source TEXT,
+  p_created_by UUID,
+  p_store_credit_amount NUMERIC DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order RECORD;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_refund_id UUID;
+BEGIN
+  SELECT id, user_id, total_amount, refunded_amount, store_credit_amount, credit_refunded_amount, currency, payment_status
+  INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING HINT = 'not_found';
+  END IF;
+
+  IF v_order.payment_status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Order % has no payment to refund (payment status %)', p_order_id, v_order.payment_status
+      USING HINT = 'not_refundable';
+  END IF;
+
+  IF p_amount <= 0 OR v_order.refunded_amount + p_amount > v_order.total_amount THEN
+    RAISE EXCEPTION 'Refund of % exceeds the % left to refund', p_amount, v_order.total_amount - v_order.refunded_amount
+      USING HINT = 'amount_exceeded';
+  END IF;
+
+  IF p_store_credit_amount < 0 OR p_store_credit_amount > p_amount THEN
+    RAISE EXCEPTION 'Store credit part % must be between 0 and the refund amount', p_store_credit_amount
+      USING HINT = 'invalid_request';
+  END IF;
+
+  IF p_store_credit_amount > 0 AND v_order.user_id IS NULL THEN
+    RAISE EXCEPTION 'Guest orders cannot be refunded as store credit' USING HINT = 'no_account';
+  END IF;
+
+  -- The card can only get back what was charged to it; credit spent on the order returns as credit
+  IF p_amount - p_store_credit_amount > v_order.total_amount - v_order.store_credit_amount
+      - (v_order.refunded_amount - v_order.credit_refunded_amount) THEN
+    RAISE EXCEPTION 'Refund to the card exceeds what is left of the card payment' USING HINT = 'amount_exceeded';
+  END IF;
+
+  INSERT INTO order_refunds (order_id, amount, store_credit_amount, currency, reason, status, source, restock, created_by)
+  VALUES (
+    p_order_id, p_amount, p_store_credit_amount, COALESCE(v_order.currency, 'EUR'), p_reason, 'pending', p_source,
+    p_restock, p_created_by
+  )
+  RETURNING id INTO v_refund_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    UPDATE order_items
+    SET refunded_quantity = refunded_quantity + v_quantity
+    WHERE id = (v_item->>'order_item_id')::UUID
+      AND order_id = p_order_id
+      AND refunded_quantity + v_quantity <= quantity;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cannot refund % of order item %', v_quantity, v_item->>'order_item_id'
+        USING HINT = 'quantity_exceeded';
+    END IF;
+
+    INSERT INTO order_refund_items (refund_id, order_item_id, quantity, amount)
+    VALUES (v_refund_id, (v_item->>'order_item_id')::UUID, v_quantity, (v_item->>'amount')::NUMERIC);
+  END LOOP;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + p_amount,
+      credit_refunded_amount = credit_refunded_amount + p_store_credit_amount,
+      updated_at = NOW()
+  WHERE id = p_order_id;
+
+  RETURN v_refund_id;
+END;
+$$;
+
+-- Same as before; a refund that is not failed also adds its credit part to the buyer's balance
+CREATE OR REPLACE FUNCTION public.settle_order_refund(
+  p_refund_id UUID,
+  p_provider_refund_id TEXT,
+  p_status TEXT,
+  p_error TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_refund RECORD;
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_refund FROM order_refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund % not found', p_refund_id USING HINT = 'not_found';
+  END IF;
+
+  -- Already settled (e.g. a retried call); failed refunds have been rolled back once
+  IF v_refund.status = 'failed' OR (v_refund.status = 'succeeded' AND p_status <> 'failed') THEN
+    RETURN;
+  END IF;
+
+  UPDATE order_refunds
+  SET status = p_status,
+      provider_refund_id = COALESCE(p_provider_refund_id, provider_refund_id),
+      error = p_error,
+      updated_at = NOW()
+  WHERE id = p_refund_id;
+
+  IF p_status = 'failed' THEN
+    UPDATE order_items oi
+    SET refunded_quantity = GREATEST(0, oi.refunded_quantity - ri.quantity)
+    FROM order_refund_items ri
+    WHERE ri.refund_id = p_refund_id
+      AND oi.id = ri.order_item_id;
+
+    UPDATE orders
+    SET refunded_amount = GREATEST(0, refunded_amount - v_refund.amount),
+        credit_refunded_amount = GREATEST(0, credit_refunded_amount - v_refund.store_credit_amount),
+        updated_at = NOW()
+    WHERE id = v_refund.order_id;
+  END IF;
+
+  -- The credit part is added to the balance, converted back to the base currency at the order's rate
+  IF p_status <> 'failed' AND v_refund.store_credit_amount > 0 AND NOT EXISTS (
+    SELECT 1 FROM store_credit_ledger WHERE refund_id = p_refund_id AND entry_type = 'refund'
+  ) THEN
+    SELECT user_id, order_number, COALESCE(NULLIF(fx_rate, 0), 1) AS fx_rate
+    INTO v_order
+    FROM orders
+    WHERE id = v_refund.order_id;
+
+    PERFORM post_store_credit_entry(
+      v_order.user_id, ROUND(v_refund.store_credit_amount / v_order.fx_rate, 2), 'refund',
+      'Refund on order ' || COALESCE(v_order.order_number, v_refund.order_id::TEXT),
+      v_refund.created_by, NULL, v_refund.order_id, p_refund_id
+    );
+  END IF;
+
+  UPDATE orders
+  SET payment_status = CASE
+        WHEN refunded_amount >= total_amount THEN 'refunded'
+        WHEN EXISTS (
+          SELECT 1 FROM order_refunds r WHERE r.order_id = orders.id AND r.status IN ('pending', 'succeeded')
+        ) THEN 'partially_refunded'
+        ELSE 'completed'
+      END,
+      status = CASE WHEN refunded_amount >= total_amount THEN 'refunded' ELSE status END,
+      updated_at = NOW()
+  WHERE id = v_refund.order_id
+    AND payment_status IN ('completed', 'partially_refunded', 'refunded');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_store_credit_entry(UUID, NUMERIC, TEXT, TEXT, UUID, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.redeem_gift_card(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_checkout_order(JSONB, JSONB, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_order_refund(UUID, NUMERIC, TEXT, JSONB, BOOLEAN, TEXT, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_order_refund(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,334 @@
+-- Product Search
+-- Catalogue search with relevance ranking and facet counts. Every product keeps a weighted
+-- search_vector (name, brand and SKU first, then colorway, then description) for full-text matching;
+-- trigram indexes on product and brand names catch typos and partial words. Both RPCs take the
+-- filters of ProductFilters as JSONB (sizes already converted to canonical US sizes):
+--   brand, brandIds, category, categories, gender, minPrice, maxPrice, sizes, colors, status,
+--   marketplace, inStock, featured, releasedAfter, releasedBefore
+-- Each facet is counted with every filter except its own, so picking a brand still shows how many
+-- products the other brands have.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.product_search_vector(
+  p_name TEXT,
+  p_brand TEXT,
+  p_sku TEXT,
+  p_colorway TEXT,
+  p_description TEXT
+)
+RETURNS TSVECTOR
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_catalog
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', COALESCE(p_name, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(p_brand, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(p_sku, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(p_colorway, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(p_description, '')), 'C')
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_product_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  NEW.search_vector := product_search_vector(
+    NEW.name,
+    (SELECT name FROM brands WHERE id = NEW.brand_id),
+    NEW.sku,
+    NEW.colorway,
+    NEW.description
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_search_vector ON public.products;
+CREATE TRIGGER trg_products_search_vector
+  BEFORE INSERT OR UPDATE OF name, brand_id, sku, colorway, description ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_product_search_vector();
+
+-- A renamed brand re-indexes its products
+CREATE OR REPLACE FUNCTION public.refresh_brand_search_vectors()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE products
+    SET search_vector = product_search_vector(name, NEW.name, sku, colorway, description)
+    WHERE brand_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_brands_search_vector ON public.brands;
+CREATE TRIGGER trg_brands_search_vector
+  AFTER UPDATE OF name ON public.brands
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_brand_search_vectors();
+
+UPDATE public.products p
+SET search_vector = public.product_search_vector(p.name, b.name, p.sku, p.colorway, p.description)
+FROM public.brands b
+WHERE b.id = p.brand_id;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector
+  ON public.products USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm
+  ON public.products USING GIN (lower(name) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_products_colorway_trgm
+  ON public.products USING GIN (lower(colorway) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_brands_name_trgm
+  ON public.brands USING GIN (lower(name) gin_trgm_ops);
+
+-- Every word of the query as a prefix, so "jord ret" finds "Air Jordan 1 Retro"; NULL when the query
+-- has no words
+CREATE OR REPLACE FUNCTION public.product_search_tsquery(p_query TEXT)
+RETURNS TSQUERY
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_catalog
+AS $$
+  SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+  FROM regexp_split_to_table(
+    trim(regexp_replace(lower(COALESCE(p_query, '')), '[^a-z0-9]+', ' ', 'g')),
+    ' '
+  ) AS term
+  WHERE term <> ''
+$$;
+
+-- Products matching the query and filters, with their relevance. p_ignore leaves out one facet's
+-- filter (brand, size, price, color, gender or marketplace) to count that facet.
+CREATE OR REPLACE FUNCTION public.product_search_candidates(
+  p_query TEXT,
+  p_filters JSONB,
+  p_ignore TEXT DEFAULT NULL
+)
+RETURNS TABLE (product_id UUID, rank REAL)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_filters JSONB := COALESCE(p_filters, '{}'::JSONB);
+  v_text TEXT := lower(trim(COALESCE(p_query, '')));
+  v_tsquery TSQUERY := product_search_tsquery(p_query);
+  v_sku TEXT := NULLIF(upper(regexp_replace(COALESCE(p_query, ''), '[^A-Za-z0-9]', '', 'g')), '');
+  v_brand_ids UUID[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'brandIds', '[]'::JSONB))::UUID);
+  v_categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'categories', '[]'::JSONB)));
+  v_sizes TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'sizes', '[]'::JSONB)));
+  v_colors TEXT[] := ARRAY(SELECT lower(jsonb_array_elements_text(COALESCE(v_filters->'colors', '[]'::JSONB))));
+  v_in_stock BOOLEAN := COALESCE((v_filters->>'inStock')::BOOLEAN, false);
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    CASE WHEN v_text = '' THEN 0::REAL ELSE (
+      COALESCE(ts_rank_cd(p.search_vector, v_tsquery), 0)
+      + word_similarity(v_text, lower(p.name))
+      + CASE WHEN lower(b.name) = v_text THEN 0.5 ELSE 0 END
+      + CASE WHEN p.normalized_sku = v_sku THEN 1 ELSE 0 END
+    )::REAL END
+  FROM products p
+  JOIN brands b ON b.id = p.brand_id
+  WHERE p.merged_into_id IS NULL
+    AND p.status = COALESCE(v_filters->>'status', 'active')
+    AND (
+      v_text = ''
+      OR p.search_vector @@ v_tsquery
+      OR v_text <% lower(p.name)
+      OR v_text <% lower(b.name)
+      OR (length(v_sku) >= 4 AND p.normalized_sku LIKE v_sku || '%')
+    )
+    AND (p_ignore = 'brand' OR (
+      (v_filters->>'brand' IS NULL OR lower(b.name) = lower(v_filters->>'brand'))
+      AND (cardinality(v_brand_ids) = 0 OR p.brand_id = ANY(v_brand_ids))
+    ))
+    AND (v_filters->>'category' IS NULL OR p.category = v_filters->>'category')
+    AND (cardinality(v_categories) = 0 OR p.category = ANY(v_categories))
+    AND (p_ignore = 'gender' OR v_filters->>'gender' IS NULL OR p.gender = v_filters->>'gender')
+    AND (p_ignore = 'price' OR (
+      (v_filters->>'minPrice' IS NULL OR p.retail_price >= (v_filters->>'minPrice')::NUMERIC)
+      AND (v_filters->>'maxPrice' IS NULL OR p.retail_price <= (v_filters->>'maxPrice')::NUMERIC)
+    ))
+    AND (p_ignore = 'marketplace' OR v_filters->>'marketplace' IS NULL OR p.marketplace = v_filters->>'marketplace')
+    AND (p_ignore = 'color' OR cardinality(v_colors) = 0 OR EXISTS (
+      SELECT 1 FROM unnest(v_colors) AS color WHERE lower(p.colorway) LIKE '%' || color || '%'
+    ))
+    AND (v_filters->>'releasedAfter' IS NULL OR p.release_date >= (v_filters->>'releasedAfter')::DATE)
+    AND (v_filters->>'releasedBefore' IS NULL OR p.release_date <= (v_filters->>'releasedBefore')::DATE)
+    -- Featured products are the ones with market data, as on the home page
+    AND (NOT COALESCE((v_filters->>'featured')::BOOLEAN, false) OR EXISTS (
+      SELECT 1 FROM product_market pm WHERE pm.product_id = p.id
+    ))
+    -- With sizes picked, in stock means one of those sizes is available
+    AND (p_ignore = 'size' OR cardinality(v_sizes) = 0 OR EXISTS (
+      SELECT 1 FROM product_stock s
+      WHERE s.product_id = p.id
+        AND s.size = ANY(v_sizes)
+        AND (NOT v_in_stock OR s.quantity - s.reserved_quantity > 0)
+    ))
+    AND (NOT v_in_stock OR EXISTS (
+      SELECT 1 FROM product_stock s
+      WHERE s.product_id = p.id
+        AND s.quantity - s.reserved_quantity > 0
+    ));
+END;
+$$;
+
+-- One page of matching products, best first when sorted by relevance. total_count is the number of
+-- matches across all pages.
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT,
+  p_filters JSONB,
+  p_sort TEXT DEFAULT 'relevance',
+  p_direction TEXT DEFAULT 'desc',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (product_id UUID, rank REAL, total_count BIGINT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_asc BOOLEAN := lower(COALESCE(p_direction, 'desc')) = 'asc';
+BEGIN
+  RETURN QUERY
+  SELECT m.product_id, m.rank, count(*) OVER ()
+  FROM product_search_candidates(p_query, p_filters) m
+  JOIN products p ON p.id = m.product_id
+  LEFT JOIN LATERAL (
+    SELECT pm.last_sale, pm.deadstock_sold
+    FROM product_market pm
+    WHERE pm.product_id = p.id
+    ORDER BY pm.recorded_at DESC
+    LIMIT 1
+  ) market ON true
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' THEN m.rank END DESC,
+    CASE WHEN p_sort = 'name' AND v_asc THEN p.name END ASC,
+    CASE WHEN p_sort = 'name' AND NOT v_asc THEN p.name END DESC,
+    CASE WHEN p_sort IN ('price', 'retail_price') AND v_asc THEN p.retail_price END ASC NULLS LAST,
+    CASE WHEN p_sort IN ('price', 'retail_price') AND NOT v_asc THEN p.retail_price END DESC NULLS LAST,
+    CASE WHEN p_sort = 'release_date' AND v_asc THEN p.release_date END ASC NULLS LAST,
+    CASE WHEN p_sort = 'release_date' AND NOT v_asc THEN p.release_date END DESC NULLS LAST,
+    CASE WHEN p_sort = 'last_sale' AND v_asc THEN market.last_sale END ASC NULLS LAST,
+    CASE WHEN p_sort = 'last_sale' AND NOT v_asc THEN market.last_sale END DESC NULLS LAST,
+    CASE WHEN p_sort = 'popularity' AND v_asc THEN market.deadstock_sold END ASC NULLS LAST,
+    CASE WHEN p_sort = 'popularity' AND NOT v_asc THEN market.deadstock_sold END DESC NULLS LAST,
+    CASE WHEN p_sort = 'created_at' AND v_asc THEN p.created_at END ASC,
+    p.created_at DESC,
+    p.id
+  LIMIT GREATEST(p_limit, 0)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+-- Facet counts for a search. Prices are counted into buckets split at p_price_edges (ascending):
+-- bucket 0 is below the first edge and bucket n is from the last edge up. Sizes are canonical US
+-- sizes; colors are the parts of the colorway ("White/Black/University Red").
+CREATE OR REPLACE FUNCTION public.product_search_facets(
+  p_query TEXT,
+  p_filters JSONB,
+  p_price_edges NUMERIC[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_in_stock BOOLEAN := COALESCE((p_filters->>'inStock')::BOOLEAN, false);
+BEGIN
+  RETURN jsonb_build_object(
+    'total', (SELECT count(*) FROM product_search_candidates(p_query, p_filters)),
+    'brands', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object('id', b.id, 'name', b.name, 'slug', b.slug, 'count', c.count)
+        ORDER BY c.count DESC, b.name
+      ), '[]'::JSONB)
+      FROM (
+        SELECT p.brand_id, count(*) AS count
+        FROM product_search_candidates(p_query, p_filters, 'brand') m
+        JOIN products p ON p.id = m.product_id
+        GROUP BY p.brand_id
+      ) c
+      JOIN brands b ON b.id = c.brand_id
+    ),
+    'sizes', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', c.size, 'count', c.count)), '[]'::JSONB)
+      FROM (
+        SELECT s.size, count(DISTINCT s.product_id) AS count
+        FROM product_search_candidates(p_query, p_filters, 'size') m
+        JOIN product_stock s ON s.product_id = m.product_id
+        WHERE NOT v_in_stock OR s.quantity - s.reserved_quantity > 0
+        GROUP BY s.size
+      ) c
+    ),
+    'prices', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('bucket', c.bucket, 'count', c.count) ORDER BY c.bucket), '[]'::JSONB)
+      FROM (
+        SELECT width_bucket(p.retail_price, p_price_edges) AS bucket, count(*) AS count
+        FROM product_search_candidates(p_query, p_filters, 'price') m
+        JOIN products p ON p.id = m.product_id
+        WHERE p.retail_price IS NOT NULL
+        GROUP BY 1
+      ) c
+    ),
+    'colors', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', c.color, 'count', c.count) ORDER BY c.count DESC, c.color), '[]'::JSONB)
+      FROM (
+        SELECT trim(color) AS color, count(DISTINCT m.product_id) AS count
+        FROM product_search_candidates(p_query, p_filters, 'color') m
+        JOIN products p ON p.id = m.product_id
+        CROSS JOIN LATERAL regexp_split_to_table(lower(p.colorway), '/') AS color
+        WHERE trim(color) <> ''
+        GROUP BY 1
+        ORDER BY 2 DESC, 1
+        LIMIT 24
+      ) c
+    ),
+    'genders', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', c.gender, 'count', c.count) ORDER BY c.count DESC), '[]'::JSONB)
+      FROM (
+        SELECT p.gender, count(*) AS count
+        FROM product_search_candidates(p_query, p_filters, 'gender') m
+        JOIN products p ON p.id = m.product_id
+        WHERE p.gender IS NOT NULL
+        GROUP BY p.gender
+      ) c
+    ),
+    'marketplaces', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', c.marketplace, 'count', c.count) ORDER BY c.count DESC), '[]'::JSONB)
+      FROM (
+        SELECT p.marketplace, count(*) AS count
+        FROM product_search_candidates(p_query, p_filters, 'marketplace') m
+        JOIN products p ON p.id = m.product_id
+        WHERE p.marketplace IS NOT NULL
+        GROUP BY p.marketplace
+      ) c
+    )
+  );
+END;
+$$;
+
+-- Search only reads the public catalogue and runs with the caller's rights, so the storefront calls
+-- it directly
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, JSONB, TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.product_search_facets(TEXT, JSONB, NUMERIC[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.product_search_candidates(TEXT, JSONB, TEXT) TO anon, authenticated;
@@ -0,0 +1,387 @@
+-- Search Suggestions
+-- Autocomplete that understands typos, sneaker nicknames and what shoppers search for:
+--   search_keywords     per product, computed by the sync (DataTransformer.generateSearchKeywords)
+--   search_vocabulary   the words of those keywords with how many products use them; a word that
+--                       matches nothing is corrected to the closest one ("jordna" -> "jordan")
+--   search_synonyms     nicknames merchandisers map to catalogue words ("aj1" -> "air jordan 1")
+--   search_queries      every storefront search with its result count, used to rank suggestions by
+--                       popularity and to list searches that found nothing
+-- Queries are expanded the same way for autocomplete and for search_products.
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS search_keywords TEXT[] NOT NULL DEFAULT '{}';
+
+-- Products synced before keywords existed get the same keywords the sync computes
+UPDATE public.products p
+SET search_keywords = ARRAY(
+  SELECT DISTINCT keyword
+  FROM (
+    SELECT lower(b.name) AS keyword
+    UNION ALL
+    SELECT word FROM regexp_split_to_table(lower(p.name), ' ') AS word WHERE length(word) > 2
+    UNION ALL
+    SELECT trim(color) FROM regexp_split_to_table(lower(COALESCE(p.colorway, '')), '/') AS color
+    UNION ALL
+    SELECT lower(p.category)
+    UNION ALL
+    SELECT lower(p.gender)
+  ) keywords
+  WHERE keyword IS NOT NULL AND keyword <> ''
+)
+FROM public.brands b
+WHERE b.id = p.brand_id
+  AND p.search_keywords = '{}';
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.search_vocabulary AS
+SELECT word, count(DISTINCT p.id) AS product_count
+FROM public.products p
+CROSS JOIN LATERAL unnest(p.search_keywords) AS keyword
+CROSS JOIN LATERAL regexp_split_to_table(lower(keyword), '[^a-z0-9]+') AS word
+WHERE p.status = 'active'
+  AND p.merged_into_id IS NULL
+  AND length(word) > 1
+GROUP BY word;
+
+-- The unique index lets the view be refreshed without blocking searches
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_vocabulary_word
+  ON public.search_vocabulary (word);
+
+CREATE INDEX IF NOT EXISTS idx_search_vocabulary_prefix
+  ON public.search_vocabulary (word text_pattern_ops);
+
+CREATE INDEX IF NOT EXISTS idx_search_vocabulary_trgm
+  ON public.search_vocabulary USING GIN (word gin_trgm_ops);
+
+-- Terms and expansions are stored normalized: lowercase words of letters and digits
+CREATE TABLE IF NOT EXISTS public.search_synonyms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  term TEXT NOT NULL UNIQUE CHECK (term ~ '^[a-z0-9]+( [a-z0-9]+)*$'),
+  expansion TEXT NOT NULL CHECK (expansion ~ '^[a-z0-9]+( [a-z0-9]+)*$'),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (term <> expansion)
+);
+
+INSERT INTO public.search_synonyms (term, expansion) VALUES
+  ('aj1', 'air jordan 1'),
+  ('aj3', 'air jordan 3'),
+  ('aj4', 'air jordan 4'),
+  ('aj11', 'air jordan 11'),
+  ('af1', 'air force 1'),
+  ('am1', 'air max 1'),
+  ('am90', 'air max 90'),
+  ('am95', 'air max 95'),
+  ('yzy', 'yeezy'),
+  ('nb', 'new balance'),
+  ('bred', 'black red'),
+  ('panda', 'white black'),
+  ('chicago', 'white varsity red')
+ON CONFLICT (term) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.search_queries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  query TEXT NOT NULL,
+  normalized_query TEXT NOT NULL,
+  result_count INTEGER NOT NULL CHECK (result_count >= 0),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_normalized
+  ON public.search_queries (normalized_query text_pattern_ops, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_zero_results
+  ON public.search_queries (created_at DESC)
+  WHERE result_count = 0;
+
+-- Synonyms and the search log are only read through the functions below
+ALTER TABLE public.search_synonyms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.search_queries ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.normalize_search_query(p_query TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_catalog
+AS $$
+  SELECT trim(regexp_replace(lower(left(COALESCE(p_query, ''), 200)), '[^a-z0-9]+', ' ', 'g'))
+$$;
+
+-- The query as search should run it: synonyms replaced (longest terms first, so "air max 90" wins
+-- over "air max") and every word that is neither known nor the start of a known word corrected to
+-- the most similar word of the catalogue
+CREATE OR REPLACE FUNCTION public.expand_search_query(p_query TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_text TEXT := normalize_search_query(p_query);
+  v_synonym RECORD;
+  v_word TEXT;
+  v_words TEXT[] := '{}';
+  v_match TEXT;
+BEGIN
+  IF v_text = '' THEN
+    RETURN '';
+  END IF;
+
+  FOR v_synonym IN SELECT term, expansion FROM search_synonyms ORDER BY length(term) DESC LOOP
+    IF position(' ' || v_synonym.term || ' ' IN ' ' || v_text || ' ') > 0 THEN
+      v_text := trim(replace(' ' || v_text || ' ', ' ' || v_synonym.term || ' ', ' ' || v_synonym.expansion || ' '));
+    END IF;
+  END LOOP;
+
+  FOREACH v_word IN ARRAY regexp_split_to_array(v_text, ' ') LOOP
+    -- Short words, sizes and style numbers are too easy to "correct" into something else
+    IF length(v_word) < 4 OR v_word ~ '[0-9]' OR EXISTS (
+      SELECT 1 FROM search_vocabulary WHERE word LIKE v_word || '%'
+    ) THEN
+      v_words := v_words || v_word;
+    ELSE
+      SELECT word INTO v_match
+      FROM search_vocabulary
+      WHERE word % v_word
+      ORDER BY similarity(word, v_word) DESC, product_count DESC
+      LIMIT 1;
+
+      v_words := v_words || COALESCE(v_match, v_word);
+    END IF;
+  END LOOP;
+
+  RETURN array_to_string(v_words, ' ');
+END;
+$$;
+
+-- Same as 20261019040000, with the query expanded before matching
+CREATE OR REPLACE FUNCTION public.product_search_candidates(
+  p_query TEXT,
+  p_filters JSONB,
+  p_ignore TEXT DEFAULT NULL
+)
+RETURNS TABLE (product_id UUID, rank REAL)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_filters JSONB := COALESCE(p_filters, '{}'::JSONB);
+  v_text TEXT := expand_search_query(p_query);
+  v_tsquery TSQUERY := product_search_tsquery(v_text);
+  v_sku TEXT := NULLIF(upper(regexp_replace(COALESCE(p_query, ''), '[^A-Za-z0-9]', '', 'g')), '');
+  v_brand_ids UUID[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'brandIds', '[]'::JSONB))::UUID);
+  v_categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'categories', '[]'::JSONB)));
+  v_sizes TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'sizes', '[]'::JSONB)));
+  v_colors TEXT[] := ARRAY(SELECT lower(jsonb_array_elements_text(COALESCE(v_filters->'colors', '[]'::JSONB))));
+  v_in_stock BOOLEAN := COALESCE((v_filters->>'inStock')::BOOLEAN, false);
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    CASE WHEN v_text = '' THEN 0::REAL ELSE (
+      COALESCE(ts_rank_cd(p.search_vector, v_tsquery), 0)
+      + word_similarity(v_text, lower(p.name))
+      + CASE WHEN lower(b.name) = v_text THEN 0.5 ELSE 0 END
+      + CASE WHEN p.normalized_sku = v_sku THEN 1 ELSE 0 END
+    )::REAL END
+  FROM products p
+  JOIN brands b ON b.id = p.brand_id
+  WHERE p.merged_into_id IS NULL
+    AND p.status = COALESCE(v_filters->>'status', 'active')
+    AND (
+      v_text = ''
+      OR p.search_vector @@ v_tsquery
+      OR v_text <% lower(p.name)
+      OR v_text <% lower(b.name)
+      OR (length(v_sku) >= 4 AND p.normalized_sku LIKE v_sku || '%')
+    )
+    AND (p_ignore = 'brand' OR (
+      (v_filters->>'brand' IS NULL OR lower(b.name) = lower(v_filters->>'brand'))
+      AND (cardinality(v_brand_ids) = 0 OR p.brand_id = ANY(v_brand_ids))
+    ))
+    AND (v_filters->>'category' IS NULL OR p.category = v_filters->>'category')
+    AND (cardinality(v_categories) = 0 OR p.category = ANY(v_categories))
+    AND (p_ignore = 'gender' OR v_filters->>'gender' IS NULL OR p.gender = v_filters->>'gender')
+    AND (p_ignore = 'price' OR (
+      (v_filters->>'minPrice' IS NULL OR p.retail_price >= (v_filters->>'minPrice')::NUMERIC)
+      AND (v_filters->>'maxPrice' IS NULL OR p.retail_price <= (v_filters->>'maxPrice')::NUMERIC)
+    ))
+    AND (p_ignore = 'marketplace' OR v_filters->>'marketplace' IS NULL OR p.marketplace = v_filters->>'marketplace')
+    AND (p_ignore = 'color' OR cardinality(v_colors) = 0 OR EXISTS (
+      SELECT 1 FROM unnest(v_colors) AS color WHERE lower(p.colorway) LIKE '%' || color || '%'
+    ))
+    AND (v_filters->>'releasedAfter' IS NULL OR p.release_date >= (v_filters->>'releasedAfter')::DATE)
+    AND (v_filters->>'releasedBefore' IS NULL OR p.release_date <= (v_filters->>'releasedBefore')::DATE)
+    -- Featured products are the ones with market data, as on the home page
+    AND (NOT COALESCE((v_filters->>'featured')::BOOLEAN, false) OR EXISTS (
+      SELECT 1 FROM product_market pm WHERE pm.product_id = p.id
+    ))
+    -- With sizes picked, in stock means one of those sizes is available
+    AND (p_ignore = 'size' OR cardinality(v_sizes) = 0 OR EXISTS (
+      SELECT 1 FROM product_stock s
+      WHERE s.product_id = p.id
+        AND s.size = ANY(v_sizes)
+        AND (NOT v_in_stock OR s.quantity - s.reserved_quantity > 0)
+    ))
+    AND (NOT v_in_stock OR EXISTS (
+      SELECT 1 FROM product_stock s
+      WHERE s.product_id = p.id
+        AND s.quantity - s.reserved_quantity > 0
+    ));
+END;
+$$;
+
+-- Autocomplete, each kind ranked by popularity:
+--   query    searches that found products, by how often they were searched in the last 30 days,
+--            and synonyms whose term starts with what was typed
+--   brand    brands, by number of active products
+--   product  products, by pairs sold
+CREATE OR REPLACE FUNCTION public.search_suggestions(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (kind TEXT, ref_id TEXT, label TEXT, ref_slug TEXT, popularity BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_typed TEXT := normalize_search_query(p_query);
+  v_text TEXT := expand_search_query(p_query);
+  v_tsquery TSQUERY := product_search_tsquery(v_text);
+BEGIN
+  IF length(v_typed) < 2 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  (
+    SELECT 'query'::TEXT, q.normalized_query, q.normalized_query, NULL::TEXT, count(*)
+    FROM search_queries q
+    WHERE q.result_count > 0
+      AND q.created_at > NOW() - INTERVAL '30 days'
+      AND (q.normalized_query LIKE v_typed || '%' OR q.normalized_query LIKE v_text || '%')
+    GROUP BY q.normalized_query
+    ORDER BY count(*) DESC
+    LIMIT 3
+  )
+  UNION ALL
+  (
+    SELECT 'query'::TEXT, s.expansion, s.expansion, NULL::TEXT, (
+      SELECT count(*)
+      FROM search_queries q
+      WHERE q.normalized_query = s.expansion
+        AND q.result_count > 0
+        AND q.created_at > NOW() - INTERVAL '30 days'
+    )
+    FROM search_synonyms s
+    WHERE s.term LIKE v_typed || '%'
+    ORDER BY 5 DESC, s.term
+    LIMIT 3
+  )
+  UNION ALL
+  (
+    SELECT 'brand'::TEXT, b.id::TEXT, b.name, b.slug, count(p.id)
+    FROM brands b
+    JOIN products p ON p.brand_id = b.id
+    WHERE p.status = 'active'
+      AND p.merged_into_id IS NULL
+      AND (lower(b.name) LIKE v_text || '%' OR v_text <% lower(b.name))
+    GROUP BY b.id, b.name, b.slug
+    ORDER BY 5 DESC
+    LIMIT 3
+  )
+  UNION ALL
+  (
+    SELECT 'product'::TEXT, p.id::TEXT, p.name, p.slug, COALESCE(market.deadstock_sold, 0)::BIGINT
+    FROM products p
+    LEFT JOIN LATERAL (
+      SELECT pm.deadstock_sold
+      FROM product_market pm
+      WHERE pm.product_id = p.id
+      ORDER BY pm.recorded_at DESC
+      LIMIT 1
+    ) market ON true
+    WHERE p.status = 'active'
+      AND p.merged_into_id IS NULL
+      AND (p.search_vector @@ v_tsquery OR v_text <% lower(p.name))
+    ORDER BY 5 DESC, p.name
+    LIMIT GREATEST(p_limit, 0)
+  );
+END;
+$$;
+
+-- Record a storefront search; empty queries and single characters are not worth keeping. The result
+-- count is worked out here rather than taken from the caller, so only searches that really find
+-- products can rank as suggestions.
+CREATE OR REPLACE FUNCTION public.log_search_query(p_query TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_normalized TEXT := normalize_search_query(p_query);
+  v_result_count INTEGER;
+BEGIN
+  IF length(v_normalized) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_result_count
+  FROM product_search_candidates(left(trim(p_query), 200), '{}'::JSONB);
+
+  INSERT INTO search_queries (query, normalized_query, result_count, user_id)
+  VALUES (left(trim(p_query), 200), v_normalized, v_result_count, auth.uid());
+END;
+$$;
+
+-- Searches that found nothing since p_since and still find nothing: a later search for the same
+-- words that returned products (after a synonym was added, say) resolves them
+CREATE OR REPLACE FUNCTION public.zero_result_searches(
+  p_since TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (query TEXT, searches BIGINT, last_searched_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+  SELECT q.normalized_query, count(*), max(q.created_at)
+  FROM search_queries q
+  WHERE q.result_count = 0
+    AND q.created_at >= p_since
+    AND NOT EXISTS (
+      SELECT 1 FROM search_queries later
+      WHERE later.normalized_query = q.normalized_query
+        AND later.result_count > 0
+        AND later.created_at > q.created_at
+    )
+  GROUP BY q.normalized_query
+  ORDER BY count(*) DESC, max(q.created_at) DESC
+  LIMIT p_limit
+$$;
+
+-- Called by the sync once products have changed
+CREATE OR REPLACE FUNCTION public.refresh_search_vocabulary()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY search_vocabulary;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_suggestions(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.log_search_query(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expand_search_query(TEXT) TO anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.zero_result_searches(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_search_vocabulary() FROM PUBLIC, anon, authenticated;
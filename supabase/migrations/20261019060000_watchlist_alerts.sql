@@ -0,0 +1,189 @@
+-- Watchlist Alerts
+-- Users watch a product, in one size or all of them, optionally with a target price. Price and stock
+-- changes land in monitor_events: the KicksDB webhooks record theirs, and the triggers below record a
+-- change of a watched product's selling price and a watched size coming back in stock. The matcher
+-- (WatchlistAlertService) turns unprocessed events into watchlist_alerts, which are delivered by email
+-- and in the app's notification feed (user_notifications), rate limited per user with alerts that
+-- arrive in between sent together as a digest.
+
+CREATE TABLE IF NOT EXISTS public.user_watchlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.user_watchlist
+  -- Canonical US size; NULL watches every size
+  ADD COLUMN IF NOT EXISTS size TEXT,
+  ADD COLUMN IF NOT EXISTS target_price NUMERIC(10, 2) CHECK (target_price > 0),
+  ADD COLUMN IF NOT EXISTS notify_price_drop BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS notify_restock BOOLEAN NOT NULL DEFAULT true,
+  -- Selling price when the product was watched, moved down to each price the user was alerted at
+  ADD COLUMN IF NOT EXISTS watched_price NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS last_restock_alert_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_watchlist_user_product_size
+  ON public.user_watchlist (user_id, product_id, COALESCE(size, ''));
+
+CREATE INDEX IF NOT EXISTS idx_user_watchlist_product
+  ON public.user_watchlist (product_id);
+
+-- Users read their watchlist; changes go through the API, which checks the product and size
+ALTER TABLE public.user_watchlist ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their watchlist" ON public.user_watchlist;
+CREATE POLICY "Users can view their watchlist"
+  ON public.user_watchlist FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Stock events are per size. notification_sent marks the events the matcher has processed; events
+-- from before watchlists existed have nobody to alert.
+ALTER TABLE public.monitor_events
+  ADD COLUMN IF NOT EXISTS size TEXT,
+  ADD COLUMN IF NOT EXISTS notification_sent BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.monitor_events SET notification_sent = true WHERE NOT notification_sent;
+
+CREATE INDEX IF NOT EXISTS idx_monitor_events_unmatched
+  ON public.monitor_events (created_at)
+  WHERE NOT notification_sent AND event_type IN ('price_change', 'stock_change');
+
+CREATE TABLE IF NOT EXISTS public.watchlist_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  watch_id UUID NOT NULL REFERENCES public.user_watchlist(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('price_drop', 'restock')),
+  -- restock: the size that came back
+  size TEXT,
+  price NUMERIC(10, 2),
+  previous_price NUMERIC(10, 2),
+  -- skipped: the user turned this kind of alert off on every channel
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'skipped')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Alerts delivered together share sent_at, so distinct values are a user's deliveries
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_alerts_pending
+  ON public.watchlist_alerts (user_id, created_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_alerts_user_sent
+  ON public.watchlist_alerts (user_id, sent_at DESC)
+  WHERE status = 'sent';
+
+-- Only the service role reads and writes alerts
+ALTER TABLE public.watchlist_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.user_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('price_drop', 'restock', 'digest')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_notifications_user
+  ON public.user_notifications (user_id, created_at DESC);
+
+ALTER TABLE public.user_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+  ON public.user_notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+  ON public.user_notifications FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- The storefront picks up new notifications over Realtime
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'user_notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.user_notifications;
+  END IF;
+END;
+$$;
+
+-- A watched product's selling price changed (retail price, else current price, as orders are priced).
+-- Prices move on every sync, so only watched products are recorded.
+CREATE OR REPLACE FUNCTION public.record_watched_price_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_old NUMERIC := COALESCE(OLD.retail_price, OLD.current_price);
+  v_new NUMERIC := COALESCE(NEW.retail_price, NEW.current_price);
+BEGIN
+  IF v_new IS DISTINCT FROM v_old
+    AND EXISTS (SELECT 1 FROM user_watchlist WHERE product_id = NEW.id AND notify_price_drop)
+  THEN
+    INSERT INTO monitor_events (product_id, event_type, old_value, new_value, change_amount, platform, triggered_by)
+    VALUES (
+      NEW.id, 'price_change',
+      jsonb_build_object('price', v_old), jsonb_build_object('price', v_new),
+      v_new - v_old, 'internal', 'catalog'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_watched_price_change ON public.products;
+CREATE TRIGGER record_watched_price_change
+  AFTER UPDATE OF retail_price, current_price ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.record_watched_price_change();
+
+-- A watched size became available again: restocked, returned, or released from an expired reservation
+CREATE OR REPLACE FUNCTION public.record_watched_restock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_old INTEGER := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.quantity - OLD.reserved_quantity END;
+  v_new INTEGER := NEW.quantity - NEW.reserved_quantity;
+BEGIN
+  IF v_old <= 0 AND v_new > 0
+    AND EXISTS (
+      SELECT 1 FROM user_watchlist
+      WHERE product_id = NEW.product_id
+        AND notify_restock
+        AND (size IS NULL OR size = NEW.size)
+    )
+  THEN
+    INSERT INTO monitor_events (product_id, event_type, old_value, new_value, change_amount, platform, triggered_by, size)
+    VALUES (
+      NEW.product_id, 'stock_change',
+      jsonb_build_object('available', v_old), jsonb_build_object('available', v_new),
+      v_new - v_old, 'internal', 'stock', NEW.size
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_watched_restock ON public.product_stock;
+CREATE TRIGGER record_watched_restock
+  AFTER INSERT OR UPDATE OF quantity, reserved_quantity ON public.product_stock
+  FOR EACH ROW EXECUTE FUNCTION public.record_watched_restock();
+
+REVOKE EXECUTE ON FUNCTION public.record_watched_price_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_watched_restock() FROM PUBLIC, anon, authenticated;
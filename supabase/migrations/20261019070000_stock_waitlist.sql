@@ -0,0 +1,489 @@
+-- Back-in-Stock Waitlist
+-- Signed-in users queue for a sold-out size. When a restock makes units available they are offered
+-- first come, first served: each user at the front of the queue gets one unit held for them in
+-- stock_reservations (through reserve_stock) for a limited time, so the public, and bots watching the
+-- size, only see what the waitlist leaves over. An offer that runs out or is declined passes its unit
+-- straight to the next in line; place_checkout_order turns the user's held unit into their order.
+
+CREATE TABLE IF NOT EXISTS public.stock_waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  size TEXT NOT NULL, -- canonical US size
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  -- The held unit while offered; reservations are deleted once used or released, so no foreign key
+  reservation_id UUID,
+  offered_at TIMESTAMPTZ,
+  offer_expires_at TIMESTAMPTZ,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One place in the queue per user and size
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_waitlist_active_user
+  ON public.stock_waitlist (product_id, size, user_id)
+  WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_stock_waitlist_queue
+  ON public.stock_waitlist (product_id, size, created_at, id)
+  WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS idx_stock_waitlist_offers
+  ON public.stock_waitlist (offer_expires_at)
+  WHERE status = 'offered';
+
+CREATE INDEX IF NOT EXISTS idx_stock_waitlist_user
+  ON public.stock_waitlist (user_id, created_at DESC);
+
+ALTER TABLE public.stock_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their waitlist places"
+  ON public.stock_waitlist FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Offers are announced in the notification feed alongside watchlist alerts
+ALTER TABLE public.user_notifications DROP CONSTRAINT IF EXISTS user_notifications_type_check;
+ALTER TABLE public.user_notifications ADD CONSTRAINT user_notifications_type_check
+  CHECK (type IN ('price_drop', 'restock', 'digest', 'waitlist_offer'));
+
+-- Offer the available units of a size to the front of its waitlist, one unit per user, each held
+-- through reserve_stock until the offer expires. The stock row is locked first so concurrent
+-- restocks of the same size queue behind each other instead of offering the same units twice.
+-- Returns the offers made, in queue order.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_stock(
+  p_product_id UUID,
+  p_size TEXT,
+  p_ttl_minutes INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_available INTEGER;
+  v_entry RECORD;
+  v_result JSONB;
+  v_expires_at TIMESTAMPTZ := NOW() + make_interval(mins => p_ttl_minutes);
+  v_offers JSONB := '[]'::JSONB;
+BEGIN
+  SELECT quantity - reserved_quantity
+  INTO v_available
+  FROM product_stock
+  WHERE product_id = p_product_id AND size = p_size
+  FOR UPDATE;
+
+  IF v_available IS NULL OR v_available <= 0 THEN
+    RETURN v_offers;
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM stock_waitlist
+    WHERE product_id = p_product_id AND size = p_size AND status = 'waiting'
+    ORDER BY created_at, id
+    LIMIT v_available
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_result := to_jsonb(reserve_stock(
+      p_product_id => p_product_id,
+      p_size => p_size,
+      p_quantity => 1,
+      p_session_id => NULL,
+      p_user_id => v_entry.user_id,
+      p_order_id => NULL,
+      p_ttl_minutes => p_ttl_minutes
+    ));
+
+    EXIT WHEN NOT COALESCE((v_result->>'success')::BOOLEAN, false);
+
+    UPDATE stock_waitlist
+    SET status = 'offered',
+        reservation_id = (v_result->>'reservation_id')::UUID,
+        offered_at = NOW(),
+        offer_expires_at = v_expires_at,
+        updated_at = NOW()
+    WHERE id = v_entry.id;
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      p_product_id, p_size, 'reserve', -1, (v_result->>'reservation_id')::UUID, 'reservation',
+      'Stock held for waitlist', v_entry.user_id
+    );
+
+    v_offers := v_offers || jsonb_build_object(
+      'id', v_entry.id,
+      'user_id', v_entry.user_id,
+      'product_id', p_product_id,
+      'size', p_size,
+      'reservation_id', (v_result->>'reservation_id')::UUID,
+      'offer_expires_at', v_expires_at
+    );
+  END LOOP;
+
+  RETURN v_offers;
+END;
+$$;
+
+-- Close an offer (p_status 'expired' or 'cancelled') and pass its held unit to the next user in the
+-- queue without letting go of it; with nobody waiting the unit is released to the public. Returns
+-- the next user's offer, or NULL.
+CREATE OR REPLACE FUNCTION public.pass_waitlist_offer(
+  p_entry_id UUID,
+  p_status TEXT,
+  p_ttl_minutes INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_entry RECORD;
+  v_reservation RECORD;
+  v_next RECORD;
+  v_expires_at TIMESTAMPTZ := NOW() + make_interval(mins => p_ttl_minutes);
+BEGIN
+  IF p_status NOT IN ('expired', 'cancelled') THEN
+    RAISE EXCEPTION 'Unknown waitlist status: %', p_status USING HINT = 'invalid_request';
+  END IF;
+
+  SELECT * INTO v_entry FROM stock_waitlist WHERE id = p_entry_id FOR UPDATE;
+
+  IF NOT FOUND OR v_entry.status NOT IN ('waiting', 'offered') THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE stock_waitlist
+  SET status = p_status, updated_at = NOW()
+  WHERE id = p_entry_id;
+
+  IF v_entry.status = 'waiting' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM product_stock
+  WHERE product_id = v_entry.product_id AND size = v_entry.size
+  FOR UPDATE;
+
+  -- Already released by the reservation cleanup: the unit is back on sale
+  SELECT * INTO v_reservation FROM stock_reservations WHERE id = v_entry.reservation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_next FROM stock_waitlist
+  WHERE product_id = v_entry.product_id AND size = v_entry.size AND status = 'waiting'
+  ORDER BY created_at, id
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    DELETE FROM stock_reservations WHERE id = v_reservation.id;
+
+    UPDATE product_stock
+    SET reserved_quantity = GREATEST(reserved_quantity - v_reservation.quantity, 0),
+        updated_at = NOW()
+    WHERE product_id = v_entry.product_id AND size = v_entry.size;
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      v_entry.product_id, v_entry.size, 'release', v_reservation.quantity, v_reservation.id, 'reservation',
+      'Waitlist offer ' || p_status, v_entry.user_id
+    );
+
+    RETURN NULL;
+  END IF;
+
+  UPDATE stock_reservations
+  SET user_id = v_next.user_id, expires_at = v_expires_at
+  WHERE id = v_reservation.id;
+
+  UPDATE stock_waitlist
+  SET status = 'offered',
+      reservation_id = v_reservation.id,
+      offered_at = NOW(),
+      offer_expires_at = v_expires_at,
+      updated_at = NOW()
+  WHERE id = v_next.id;
+
+  RETURN jsonb_build_object(
+    'id', v_next.id,
+    'user_id', v_next.user_id,
+    'product_id', v_entry.product_id,
+    'size', v_entry.size,
+    'reservation_id', v_reservation.id,
+    'offer_expires_at', v_expires_at
+  );
+END;
+$$;
+
+-- Add restocked units to a size and offer them to its waitlist in the same transaction, so the units
+-- never reach the public ahead of the queue and a failed offer rolls the restock back with it.
+-- Returns the size's new quantity and the offers made, in queue order.
+CREATE OR REPLACE FUNCTION public.restock_product_stock(
+  p_product_id UUID,
+  p_size TEXT,
+  p_quantity INTEGER,
+  p_reason TEXT,
+  p_user_id UUID,
+  p_ttl_minutes INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_new_quantity INTEGER;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Restock quantity must be positive' USING HINT = 'invalid_request';
+  END IF;
+
+  INSERT INTO product_stock (product_id, size, quantity, reserved_quantity)
+  VALUES (p_product_id, p_size, p_quantity, 0)
+  ON CONFLICT (product_id, size) DO UPDATE
+  SET quantity = product_stock.quantity + EXCLUDED.quantity,
+      updated_at = NOW()
+  RETURNING quantity INTO v_new_quantity;
+
+  INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_type, reason, user_id)
+  VALUES (p_product_id, p_size, 'restock', p_quantity, 'restock', p_reason, p_user_id);
+
+  RETURN jsonb_build_object(
+    'new_quantity', v_new_quantity,
+    'offers', offer_waitlist_stock(p_product_id, p_size, p_ttl_minutes)
+  );
+END;
+$$;
+
+-- Same as before, plus waitlist offers: a signed-in buyer holding a waitlist offer for a size has the
+-- held unit released into the same transaction before the size's stock is checked, so it is theirs
+-- to buy and the offer is marked claimed by the order.
+
+CREATE OR REPLACE FUNCTION public.place_checkout_order(
+  p_order JSONB,
+  p_items JSONB,
+  p_address JSONB,
+  p_reservation_expires_at TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order_id UUID := (p_order->>'id')::UUID;
+  v_user_id UUID := (p_order->>'user_id')::UUID;
+  v_email TEXT := NULLIF(lower(trim(p_order->>'customer_email')), '');
+  v_session_id TEXT := p_order->>'cart_session_id';
+  v_promotion_id UUID := (p_order->>'promotion_id')::UUID;
+  v_promotion RECORD;
+  v_usage JSONB;
+  v_credit NUMERIC := COALESCE((p_order->>'store_credit_amount')::NUMERIC, 0);
+  v_address_id UUID;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_available INTEGER;
+  v_offer RECORD;
+  v_held INTEGER;
+  v_reservation_id UUID;
+  v_item_id UUID;
+  v_reservations JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL AND v_email IS NULL THEN
+    RAISE EXCEPTION 'Guest orders need an email address' USING HINT = 'invalid_request';
+  END IF;
+
+  IF p_address IS NOT NULL THEN
+    INSERT INTO user_addresses (
+      id, user_id, type, first_name, last_name, address_line_1, city, postal_code, country, created_at
+    )
+    VALUES (
+      gen_random_uuid(), v_user_id, 'shipping', p_address->>'first_name', p_address->>'last_name',
+      p_address->>'address_line_1', p_address->>'city', p_address->>'postal_code', p_address->>'country', NOW()
+    )
+    RETURNING id INTO v_address_id;
+  END IF;
+
+  INSERT INTO orders (
+    id, user_id, order_number, subtotal, shipping_amount, tax_amount, discount_amount, total_amount,
+    store_credit_amount, currency, fx_rate, fx_rate_id, fx_locked_at, shipping_rate_id, tax_lines, discount_lines,
+    status, payment_status, customer_notes, shipping_address_id, customer_email, cart_session_id, created_at, updated_at
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'order_number',
+    (p_order->>'subtotal')::NUMERIC,
+    (p_order->>'shipping_amount')::NUMERIC,
+    (p_order->>'tax_amount')::NUMERIC,
+    COALESCE((p_order->>'discount_amount')::NUMERIC, 0),
+    (p_order->>'total_amount')::NUMERIC,
+    v_credit,
+    p_order->>'currency',
+    (p_order->>'fx_rate')::NUMERIC,
+    (p_order->>'fx_rate_id')::UUID,
+    (p_order->>'fx_locked_at')::TIMESTAMPTZ,
+    (p_order->>'shipping_rate_id')::UUID,
+    COALESCE(p_order->'tax_lines', '[]'::JSONB),
+    COALESCE(p_order->'discount_lines', '[]'::JSONB),
+    'pending',
+    'pending',
+    p_order->>'customer_notes',
+    v_address_id,
+    v_email,
+    CASE WHEN v_user_id IS NULL THEN v_session_id END,
+    NOW(),
+    NOW()
+  );
+
+  IF v_promotion_id IS NOT NULL THEN
+    SELECT * INTO v_promotion FROM promotions WHERE id = v_promotion_id FOR UPDATE;
+
+    IF NOT FOUND
+      OR NOT v_promotion.is_active
+      OR (v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > NOW())
+      OR (v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at <= NOW()) THEN
+      RAISE EXCEPTION 'This discount code is no longer available' USING HINT = 'promotion_unavailable';
+    END IF;
+
+    v_usage := promotion_usage(v_promotion_id, v_user_id, v_email);
+
+    IF v_promotion.usage_limit IS NOT NULL AND (v_usage->>'total')::INTEGER >= v_promotion.usage_limit THEN
+      RAISE EXCEPTION 'This discount code has been fully redeemed' USING HINT = 'promotion_usage_limit';
+    END IF;
+
+    IF v_promotion.usage_limit_per_user IS NOT NULL
+      AND (v_usage->>'by_buyer')::INTEGER >= v_promotion.usage_limit_per_user THEN
+      RAISE EXCEPTION 'You have already used this discount code' USING HINT = 'promotion_buyer_usage_limit';
+    END IF;
+
+    INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, customer_email, amount, currency)
+    VALUES (
+      v_promotion_id, v_order_id, v_user_id, v_email,
+      COALESCE((p_order->>'discount_amount')::NUMERIC, 0), p_order->>'currency'
+    );
+  END IF;
+
+  IF v_credit > 0 THEN
+    PERFORM post_store_credit_entry(
+      v_user_id, -(p_order->>'store_credit_base_amount')::NUMERIC, 'order_payment',
+      'Order ' || (p_order->>'order_number'), v_user_id, NULL, v_order_id, NULL
+    );
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    PERFORM 1 FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size'
+    FOR UPDATE;
+
+    IF v_user_id IS NOT NULL THEN
+      SELECT * INTO v_offer FROM stock_waitlist
+      WHERE user_id = v_user_id
+        AND product_id = (v_item->>'product_id')::UUID
+        AND size = v_item->>'size'
+        AND status = 'offered'
+        AND offer_expires_at > NOW()
+      FOR UPDATE;
+
+      IF FOUND THEN
+        DELETE FROM stock_reservations WHERE id = v_offer.reservation_id
+        RETURNING quantity INTO v_held;
+
+        IF v_held IS NOT NULL THEN
+          UPDATE product_stock
+          SET reserved_quantity = GREATEST(reserved_quantity - v_held, 0),
+              updated_at = NOW()
+          WHERE product_id = (v_item->>'product_id')::UUID
+            AND size = v_item->>'size';
+
+          INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+          VALUES (
+            (v_item->>'product_id')::UUID, v_item->>'size', 'release', v_held,
+            v_offer.reservation_id, 'reservation', 'Waitlist hold used at checkout', v_user_id
+          );
+        END IF;
+
+        UPDATE stock_waitlist
+        SET status = 'claimed', order_id = v_order_id, updated_at = NOW()
+        WHERE id = v_offer.id;
+      END IF;
+    END IF;
+
+    SELECT quantity - reserved_quantity
+    INTO v_available
+    FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    IF v_available IS NULL OR v_available < v_quantity THEN
+      RAISE EXCEPTION '% size % is not available (requested: %, available: %)',
+        v_item->>'product_name', v_item->>'size', v_quantity, COALESCE(v_available, 0)
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    INSERT INTO stock_reservations (id, product_id, size, quantity, user_id, session_id, order_id, expires_at)
+    VALUES (
+      gen_random_uuid(), (v_item->>'product_id')::UUID, v_item->>'size', v_quantity,
+      v_user_id, CASE WHEN v_user_id IS NULL THEN v_session_id END, v_order_id, p_reservation_expires_at
+    )
+    RETURNING id INTO v_reservation_id;
+
+    UPDATE product_stock
+    SET reserved_quantity = reserved_quantity + v_quantity,
+        updated_at = NOW()
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      (v_item->>'product_id')::UUID, v_item->>'size', 'reserve', -v_quantity,
+      v_reservation_id, 'reservation', 'Stock reserved for checkout', v_user_id
+    );
+
+    v_item_id := gen_random_uuid();
+
+    INSERT INTO order_items (
+      id, order_id, product_id, size, quantity, unit_price, total_price,
+      product_name, product_brand, product_image_url, reservation_id, created_at
+    )
+    VALUES (
+      v_item_id,
+      v_order_id,
+      (v_item->>'product_id')::UUID,
+      v_item->>'size',
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'total_price')::NUMERIC,
+      v_item->>'product_name',
+      v_item->>'product_brand',
+      v_item->>'product_image_url',
+      v_reservation_id,
+      NOW()
+    );
+
+    v_reservations := v_reservations || jsonb_build_object(
+      'id', v_reservation_id,
+      'order_item_id', v_item_id,
+      'product_id', v_item->>'product_id',
+      'size', v_item->>'size',
+      'quantity', v_quantity,
+      'expires_at', p_reservation_expires_at
+    );
+  END LOOP;
+
+  RETURN v_reservations;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_stock(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.pass_waitlist_offer(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restock_product_stock(UUID, TEXT, INTEGER, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_checkout_order(JSONB, JSONB, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
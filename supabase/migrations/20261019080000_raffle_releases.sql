@@ -0,0 +1,664 @@
+-- Raffle Releases
+-- Hyped drops can be released by raffle instead of first come, first served. Signed-in users enter for
+-- one size while the raffle's entry window is open; once it closes an admin draws it. The draw order of
+-- each size is fixed by a secret seed whose sha256 commitment is public from the start and which the
+-- draw reveals, so anyone can recompute it (see src/lib/raffles). Winners, as many per size as the size
+-- has available stock, get a unit held through reserve_stock until their claim expires; a spot that is
+-- not paid for in time rolls down to the next alternate in draw order. While a product is in raffle
+-- mode, place_checkout_order only sells it against a winner's held unit.
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS release_mode TEXT NOT NULL DEFAULT 'standard'
+    CHECK (release_mode IN ('standard', 'raffle'));
+
+CREATE TABLE IF NOT EXISTS public.raffles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'drawn', 'cancelled')),
+  entry_opens_at TIMESTAMPTZ NOT NULL,
+  entry_closes_at TIMESTAMPTZ NOT NULL,
+  claim_minutes INTEGER NOT NULL DEFAULT 60 CHECK (claim_minutes > 0),
+  seed_commitment TEXT NOT NULL, -- sha256 of seed, hex
+  seed TEXT NOT NULL, -- secret until drawn
+  drawn_at TIMESTAMPTZ,
+  drawn_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (entry_closes_at > entry_opens_at)
+);
+
+-- One raffle waiting to be drawn per product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_raffles_scheduled_product
+  ON public.raffles (product_id)
+  WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_raffles_product
+  ON public.raffles (product_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.raffle_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle_id UUID NOT NULL REFERENCES public.raffles(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  size TEXT NOT NULL, -- canonical US size
+  status TEXT NOT NULL DEFAULT 'entered'
+    CHECK (status IN ('entered', 'won', 'alternate', 'claimed', 'expired', 'withdrawn')),
+  draw_rank INTEGER, -- 1-based within the size, set by the draw
+  -- The held unit while won; reservations are deleted once used or released, so no foreign key
+  reservation_id UUID,
+  claim_expires_at TIMESTAMPTZ,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One entry per user and raffle, whatever the size
+CREATE UNIQUE INDEX IF NOT EXISTS idx_raffle_entries_user
+  ON public.raffle_entries (raffle_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_raffle_entries_alternates
+  ON public.raffle_entries (raffle_id, size, draw_rank)
+  WHERE status = 'alternate';
+
+CREATE INDEX IF NOT EXISTS idx_raffle_entries_wins
+  ON public.raffle_entries (claim_expires_at)
+  WHERE status = 'won';
+
+CREATE INDEX IF NOT EXISTS idx_raffle_entries_buyer
+  ON public.raffle_entries (user_id, product_id, size)
+  WHERE status = 'won';
+
+-- Raffles hold their seed, so they are only read through the service role
+ALTER TABLE public.raffles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.raffle_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their raffle entries"
+  ON public.raffle_entries FOR SELECT
+  USING (user_id = auth.uid());
+
+ALTER TABLE public.user_notifications DROP CONSTRAINT IF EXISTS user_notifications_type_check;
+ALTER TABLE public.user_notifications ADD CONSTRAINT user_notifications_type_check
+  CHECK (type IN ('price_drop', 'restock', 'digest', 'waitlist_offer', 'raffle_result'));
+
+-- Apply a draw computed from the raffle's seed. p_draw lists every entered entry as
+-- {entry_id, size, rank}; per size, in rank order, entries win while the size has available stock and
+-- each winner's unit is held until the claim expires, the rest become alternates. Entries that changed
+-- since the draw was computed fail the whole draw. Returns the wins.
+CREATE OR REPLACE FUNCTION public.award_raffle_entries(
+  p_raffle_id UUID,
+  p_draw JSONB,
+  p_drawn_by UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_raffle RECORD;
+  v_entered INTEGER;
+  v_item JSONB;
+  v_entry RECORD;
+  v_size TEXT;
+  v_available INTEGER;
+  v_result JSONB;
+  v_claim_expires_at TIMESTAMPTZ;
+  v_wins JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_raffle FROM raffles WHERE id = p_raffle_id FOR UPDATE;
+
+  IF NOT FOUND OR v_raffle.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This raffle cannot be drawn' USING HINT = 'raffle_not_drawable';
+  END IF;
+
+  IF v_raffle.entry_closes_at > NOW() THEN
+    RAISE EXCEPTION 'Entries are still open' USING HINT = 'raffle_not_drawable';
+  END IF;
+
+  SELECT COUNT(*) INTO v_entered FROM raffle_entries WHERE raffle_id = p_raffle_id AND status = 'entered';
+
+  IF v_entered <> jsonb_array_length(p_draw) THEN
+    RAISE EXCEPTION 'Entries changed during the draw' USING HINT = 'raffle_entries_changed';
+  END IF;
+
+  v_claim_expires_at := NOW() + make_interval(mins => v_raffle.claim_minutes);
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_draw)
+    ORDER BY value->>'size', (value->>'rank')::INTEGER
+  LOOP
+    IF v_size IS DISTINCT FROM v_item->>'size' THEN
+      v_size := v_item->>'size';
+
+      SELECT quantity - reserved_quantity
+      INTO v_available
+      FROM product_stock
+      WHERE product_id = v_raffle.product_id AND size = v_size
+      FOR UPDATE;
+
+      v_available := COALESCE(v_available, 0);
+    END IF;
+
+    SELECT * INTO v_entry FROM raffle_entries
+    WHERE id = (v_item->>'entry_id')::UUID
+      AND raffle_id = p_raffle_id
+      AND size = v_size
+      AND status = 'entered'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Entries changed during the draw' USING HINT = 'raffle_entries_changed';
+    END IF;
+
+    IF v_available > 0 THEN
+      v_result := to_jsonb(reserve_stock(
+        p_product_id => v_raffle.product_id,
+        p_size => v_size,
+        p_quantity => 1,
+        p_session_id => NULL,
+        p_user_id => v_entry.user_id,
+        p_order_id => NULL,
+        p_ttl_minutes => v_raffle.claim_minutes
+      ));
+
+      IF COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+        UPDATE raffle_entries
+        SET status = 'won',
+            draw_rank = (v_item->>'rank')::INTEGER,
+            reservation_id = (v_result->>'reservation_id')::UUID,
+            claim_expires_at = v_claim_expires_at,
+            updated_at = NOW()
+        WHERE id = v_entry.id;
+
+        INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+        VALUES (
+          v_raffle.product_id, v_size, 'reserve', -1, (v_result->>'reservation_id')::UUID, 'reservation',
+          'Stock held for raffle winner', v_entry.user_id
+        );
+
+        v_wins := v_wins || jsonb_build_object(
+          'id', v_entry.id,
+          'raffle_id', p_raffle_id,
+          'user_id', v_entry.user_id,
+          'product_id', v_raffle.product_id,
+          'size', v_size,
+          'draw_rank', (v_item->>'rank')::INTEGER,
+          'reservation_id', (v_result->>'reservation_id')::UUID,
+          'claim_expires_at', v_claim_expires_at
+        );
+
+        v_available := v_available - 1;
+        CONTINUE;
+      END IF;
+
+      -- Stock ran short under the lock: the rest of the size are alternates
+      v_available := 0;
+    END IF;
+
+    UPDATE raffle_entries
+    SET status = 'alternate',
+        draw_rank = (v_item->>'rank')::INTEGER,
+        updated_at = NOW()
+    WHERE id = v_entry.id;
+  END LOOP;
+
+  UPDATE raffles
+  SET status = 'drawn', drawn_at = NOW(), drawn_by = p_drawn_by, updated_at = NOW()
+  WHERE id = p_raffle_id;
+
+  RETURN v_wins;
+END;
+$$;
+
+-- Close an entry (p_status 'expired' or 'withdrawn'). A winner's held unit goes to the best-ranked
+-- alternate of the size without being let go of; with no alternates left it is released. Returns the
+-- alternate's win, or NULL.
+CREATE OR REPLACE FUNCTION public.pass_raffle_spot(
+  p_entry_id UUID,
+  p_status TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_entry RECORD;
+  v_reservation RECORD;
+  v_next RECORD;
+  v_claim_expires_at TIMESTAMPTZ;
+BEGIN
+  IF p_status NOT IN ('expired', 'withdrawn') THEN
+    RAISE EXCEPTION 'Unknown raffle entry status: %', p_status USING HINT = 'invalid_request';
+  END IF;
+
+  SELECT * INTO v_entry FROM raffle_entries WHERE id = p_entry_id FOR UPDATE;
+
+  IF NOT FOUND OR v_entry.status NOT IN ('entered', 'alternate', 'won') THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE raffle_entries
+  SET status = p_status, updated_at = NOW()
+  WHERE id = p_entry_id;
+
+  IF v_entry.status <> 'won' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM product_stock
+  WHERE product_id = v_entry.product_id AND size = v_entry.size
+  FOR UPDATE;
+
+  -- Already released by the reservation cleanup: the unit is back in stock
+  SELECT * INTO v_reservation FROM stock_reservations WHERE id = v_entry.reservation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_next FROM raffle_entries
+  WHERE raffle_id = v_entry.raffle_id AND size = v_entry.size AND status = 'alternate'
+  ORDER BY draw_rank
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    DELETE FROM stock_reservations WHERE id = v_reservation.id;
+
+    UPDATE product_stock
+    SET reserved_quantity = GREATEST(reserved_quantity - v_reservation.quantity, 0),
+        updated_at = NOW()
+    WHERE product_id = v_entry.product_id AND size = v_entry.size;
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      v_entry.product_id, v_entry.size, 'release', v_reservation.quantity, v_reservation.id, 'reservation',
+      'Raffle spot ' || p_status, v_entry.user_id
+    );
+
+    RETURN NULL;
+  END IF;
+
+  SELECT NOW() + make_interval(mins => claim_minutes)
+  INTO v_claim_expires_at
+  FROM raffles WHERE id = v_entry.raffle_id;
+
+  UPDATE stock_reservations
+  SET user_id = v_next.user_id, expires_at = v_claim_expires_at
+  WHERE id = v_reservation.id;
+
+  UPDATE raffle_entries
+  SET status = 'won',
+      reservation_id = v_reservation.id,
+      claim_expires_at = v_claim_expires_at,
+      updated_at = NOW()
+  WHERE id = v_next.id;
+
+  RETURN jsonb_build_object(
+    'id', v_next.id,
+    'raffle_id', v_entry.raffle_id,
+    'user_id', v_next.user_id,
+    'product_id', v_entry.product_id,
+    'size', v_entry.size,
+    'draw_rank', v_next.draw_rank,
+    'reservation_id', v_reservation.id,
+    'claim_expires_at', v_claim_expires_at
+  );
+END;
+$$;
+
+-- Same as before, plus raffle releases: units restocked while a product is in raffle mode stay out of
+-- the waitlist, which would otherwise hand them out first come, first served.
+
+CREATE OR REPLACE FUNCTION public.offer_waitlist_stock(
+  p_product_id UUID,
+  p_size TEXT,
+  p_ttl_minutes INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_available INTEGER;
+  v_entry RECORD;
+  v_result JSONB;
+  v_expires_at TIMESTAMPTZ := NOW() + make_interval(mins => p_ttl_minutes);
+  v_offers JSONB := '[]'::JSONB;
+BEGIN
+  IF EXISTS (SELECT 1 FROM products WHERE id = p_product_id AND release_mode = 'raffle') THEN
+    RETURN v_offers;
+  END IF;
+
+  SELECT quantity - reserved_quantity
+  INTO v_available
+  FROM product_stock
+  WHERE product_id = p_product_id AND size = p_size
+  FOR UPDATE;
+
+  IF v_available IS NULL OR v_available <= 0 THEN
+    RETURN v_offers;
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM stock_waitlist
+    WHERE product_id = p_product_id AND size = p_size AND status = 'waiting'
+    ORDER BY created_at, id
+    LIMIT v_available
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_result := to_jsonb(reserve_stock(
+      p_product_id => p_product_id,
+      p_size => p_size,
+      p_quantity => 1,
+      p_session_id => NULL,
+      p_user_id => v_entry.user_id,
+      p_order_id => NULL,
+      p_ttl_minutes => p_ttl_minutes
+    ));
+
+    EXIT WHEN NOT COALESCE((v_result->>'success')::BOOLEAN, false);
+
+    UPDATE stock_waitlist
+    SET status = 'offered',
+        reservation_id = (v_result->>'reservation_id')::UUID,
+        offered_at = NOW(),
+        offer_expires_at = v_expires_at,
+        updated_at = NOW()
+    WHERE id = v_entry.id;
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      p_product_id, p_size, 'reserve', -1, (v_result->>'reservation_id')::UUID, 'reservation',
+      'Stock held for waitlist', v_entry.user_id
+    );
+
+    v_offers := v_offers || jsonb_build_object(
+      'id', v_entry.id,
+      'user_id', v_entry.user_id,
+      'product_id', p_product_id,
+      'size', p_size,
+      'reservation_id', (v_result->>'reservation_id')::UUID,
+      'offer_expires_at', v_expires_at
+    );
+  END LOOP;
+
+  RETURN v_offers;
+END;
+$$;
+
+-- Same as before, plus raffle wins: a signed-in buyer who won a size has the held unit released into
+-- the same transaction before the size's stock is checked, and the win is marked claimed by the order.
+-- Products in raffle mode are only sold against such a win.
+
+CREATE OR REPLACE FUNCTION public.place_checkout_order(
+  p_order JSONB,
+  p_items JSONB,
+  p_address JSONB,
+  p_reservation_expires_at TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order_id UUID := (p_order->>'id')::UUID;
+  v_user_id UUID := (p_order->>'user_id')::UUID;
+  v_email TEXT := NULLIF(lower(trim(p_order->>'customer_email')), '');
+  v_session_id TEXT := p_order->>'cart_session_id';
+  v_promotion_id UUID := (p_order->>'promotion_id')::UUID;
+  v_promotion RECORD;
+  v_usage JSONB;
+  v_credit NUMERIC := COALESCE((p_order->>'store_credit_amount')::NUMERIC, 0);
+  v_address_id UUID;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_available INTEGER;
+  v_offer RECORD;
+  v_win RECORD;
+  v_held INTEGER;
+  v_won INTEGER;
+  v_release_mode TEXT;
+  v_reservation_id UUID;
+  v_item_id UUID;
+  v_reservations JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL AND v_email IS NULL THEN
+    RAISE EXCEPTION 'Guest orders need an email address' USING HINT = 'invalid_request';
+  END IF;
+
+  IF p_address IS NOT NULL THEN
+    INSERT INTO user_addresses (
+      id, user_id, type, first_name, last_name, address_line_1, city, postal_code, country, created_at
+    )
+    VALUES (
+      gen_random_uuid(), v_user_id, 'shipping', p_address->>'first_name', p_address->>'last_name',
+      p_address->>'address_line_1', p_address->>'city', p_address->>'postal_code', p_address->>'country', NOW()
+    )
+    RETURNING id INTO v_address_id;
+  END IF;
+
+  INSERT INTO orders (
+    id, user_id, order_number, subtotal, shipping_amount, tax_amount, discount_amount, total_amount,
+    store_credit_amount, currency, fx_rate, fx_rate_id, fx_locked_at, shipping_rate_id, tax_lines, discount_lines,
+    status, payment_status, customer_notes, shipping_address_id, customer_email, cart_session_id, created_at, updated_at
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'order_number',
+    (p_order->>'subtotal')::NUMERIC,
+    (p_order->>'shipping_amount')::NUMERIC,
+    (p_order->>'tax_amount')::NUMERIC,
+    COALESCE((p_order->>'discount_amount')::NUMERIC, 0),
+    (p_order->>'total_amount')::NUMERIC,
+    v_credit,
+    p_order->>'currency',
+    (p_order->>'fx_rate')::NUMERIC,
+    (p_order->>'fx_rate_id')::UUID,
+    (p_order->>'fx_locked_at')::TIMESTAMPTZ,
+    (p_order->>'shipping_rate_id')::UUID,
+    COALESCE(p_order->'tax_lines', '[]'::JSONB),
+    COALESCE(p_order->'discount_lines', '[]'::JSONB),
+    'pending',
+    'pending',
+    p_order->>'customer_notes',
+    v_address_id,
+    v_email,
+    CASE WHEN v_user_id IS NULL THEN v_session_id END,
+    NOW(),
+    NOW()
+  );
+
+  IF v_promotion_id IS NOT NULL THEN
+    SELECT * INTO v_promotion FROM promotions WHERE id = v_promotion_id FOR UPDATE;
+
+    IF NOT FOUND
+      OR NOT v_promotion.is_active
+      OR (v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > NOW())
+      OR (v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at <= NOW()) THEN
+      RAISE EXCEPTION 'This discount code is no longer available' USING HINT = 'promotion_unavailable';
+    END IF;
+
+    v_usage := promotion_usage(v_promotion_id, v_user_id, v_email);
+
+    IF v_promotion.usage_limit IS NOT NULL AND (v_usage->>'total')::INTEGER >= v_promotion.usage_limit THEN
+      RAISE EXCEPTION 'This discount code has been fully redeemed' USING HINT = 'promotion_usage_limit';
+    END IF;
+
+    IF v_promotion.usage_limit_per_user IS NOT NULL
+      AND (v_usage->>'by_buyer')::INTEGER >= v_promotion.usage_limit_per_user THEN
+      RAISE EXCEPTION 'You have already used this discount code' USING HINT = 'promotion_buyer_usage_limit';
+    END IF;
+
+    INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, customer_email, amount, currency)
+    VALUES (
+      v_promotion_id, v_order_id, v_user_id, v_email,
+      COALESCE((p_order->>'discount_amount')::NUMERIC, 0), p_order->>'currency'
+    );
+  END IF;
+
+  IF v_credit > 0 THEN
+    PERFORM post_store_credit_entry(
+      v_user_id, -(p_order->>'store_credit_base_amount')::NUMERIC, 'order_payment',
+      'Order ' || (p_order->>'order_number'), v_user_id, NULL, v_order_id, NULL
+    );
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_won := 0;
+
+    PERFORM 1 FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size'
+    FOR UPDATE;
+
+    IF v_user_id IS NOT NULL THEN
+      SELECT * INTO v_offer FROM stock_waitlist
+      WHERE user_id = v_user_id
+        AND product_id = (v_item->>'product_id')::UUID
+        AND size = v_item->>'size'
+        AND status = 'offered'
+        AND offer_expires_at > NOW()
+      FOR UPDATE;
+
+      IF FOUND THEN
+        DELETE FROM stock_reservations WHERE id = v_offer.reservation_id
+        RETURNING quantity INTO v_held;
+
+        IF v_held IS NOT NULL THEN
+          UPDATE product_stock
+          SET reserved_quantity = GREATEST(reserved_quantity - v_held, 0),
+              updated_at = NOW()
+          WHERE product_id = (v_item->>'product_id')::UUID
+            AND size = v_item->>'size';
+
+          INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+          VALUES (
+            (v_item->>'product_id')::UUID, v_item->>'size', 'release', v_held,
+            v_offer.reservation_id, 'reservation', 'Waitlist hold used at checkout', v_user_id
+          );
+        END IF;
+
+        UPDATE stock_waitlist
+        SET status = 'claimed', order_id = v_order_id, updated_at = NOW()
+        WHERE id = v_offer.id;
+      END IF;
+
+      SELECT * INTO v_win FROM raffle_entries
+      WHERE user_id = v_user_id
+        AND product_id = (v_item->>'product_id')::UUID
+        AND size = v_item->>'size'
+        AND status = 'won'
+        AND claim_expires_at > NOW()
+      FOR UPDATE;
+
+      IF FOUND THEN
+        DELETE FROM stock_reservations WHERE id = v_win.reservation_id
+        RETURNING quantity INTO v_held;
+
+        IF v_held IS NOT NULL THEN
+          UPDATE product_stock
+          SET reserved_quantity = GREATEST(reserved_quantity - v_held, 0),
+              updated_at = NOW()
+          WHERE product_id = (v_item->>'product_id')::UUID
+            AND size = v_item->>'size';
+
+          INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+          VALUES (
+            (v_item->>'product_id')::UUID, v_item->>'size', 'release', v_held,
+            v_win.reservation_id, 'reservation', 'Raffle hold used at checkout', v_user_id
+          );
+
+          v_won := v_held;
+        END IF;
+
+        UPDATE raffle_entries
+        SET status = 'claimed', order_id = v_order_id, updated_at = NOW()
+        WHERE id = v_win.id;
+      END IF;
+    END IF;
+
+    SELECT release_mode INTO v_release_mode FROM products WHERE id = (v_item->>'product_id')::UUID;
+
+    IF v_release_mode = 'raffle' AND v_quantity > v_won THEN
+      RAISE EXCEPTION '% is a raffle release and can only be bought by its winners', v_item->>'product_name'
+        USING HINT = 'raffle_only';
+    END IF;
+
+    SELECT quantity - reserved_quantity
+    INTO v_available
+    FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    IF v_available IS NULL OR v_available < v_quantity THEN
+      RAISE EXCEPTION '% size % is not available (requested: %, available: %)',
+        v_item->>'product_name', v_item->>'size', v_quantity, COALESCE(v_available, 0)
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    INSERT INTO stock_reservations (id, product_id, size, quantity, user_id, session_id, order_id, expires_at)
+    VALUES (
+      gen_random_uuid(), (v_item->>'product_id')::UUID, v_item->>'size', v_quantity,
+      v_user_id, CASE WHEN v_user_id IS NULL THEN v_session_id END, v_order_id, p_reservation_expires_at
+    )
+    RETURNING id INTO v_reservation_id;
+
+    UPDATE product_stock
+    SET reserved_quantity = reserved_quantity + v_quantity,
+        updated_at = NOW()
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      (v_item->>'product_id')::UUID, v_item->>'size', 'reserve', -v_quantity,
+      v_reservation_id, 'reservation', 'Stock reserved for checkout', v_user_id
+    );
+
+    v_item_id := gen_random_uuid();
+
+    INSERT INTO order_items (
+      id, order_id, product_id, size, quantity, unit_price, total_price,
+      product_name, product_brand, product_image_url, reservation_id, created_at
+    )
+    VALUES (
+      v_item_id,
+      v_order_id,
+      (v_item->>'product_id')::UUID,
+      v_item->>'size',
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'total_price')::NUMERIC,
+      v_item->>'product_name',
+      v_item->>'product_brand',
+      v_item->>'product_image_url',
+      v_reservation_id,
+      NOW()
+    );
+
+    v_reservations := v_reservations || jsonb_build_object(
+      'id', v_reservation_id,
+      'order_item_id', v_item_id,
+      'product_id', v_item->>'product_id',
+      'size', v_item->>'size',
+      'quantity', v_quantity,
+      'expires_at', p_reservation_expires_at
+    );
+  END LOOP;
+
+  RETURN v_reservations;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_raffle_entries(UUID, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.pass_raffle_spot(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_stock(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_checkout_order(JSONB, JSONB, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,290 @@
+-- Order Item Discounts
+-- Promotions are stored on the order as discount_lines, while order_items.unit_price is the price before
+-- any discount. Each line now records its share of the order's item discount, as split by the promotion
+-- engine (see spreadDiscount in src/lib/promotions), so a line refund returns what was actually paid
+-- for it rather than its full price.
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+-- Orders placed before this migration: share each order's item discount by line value
+UPDATE public.order_items oi
+SET discount_amount = ROUND(d.item_discount * oi.total_price / NULLIF(o.subtotal, 0), CASE WHEN o.currency = 'JPY' THEN 0 ELSE 2 END)
+FROM public.orders o
+CROSS JOIN LATERAL (
+  SELECT COALESCE(SUM((line->>'amount')::NUMERIC), 0) AS item_discount
+  FROM jsonb_array_elements(COALESCE(o.discount_lines, '[]'::JSONB)) AS line
+  WHERE line->>'target' = 'items'
+) d
+WHERE oi.order_id = o.id
+  AND d.item_discount > 0
+  AND oi.discount_amount = 0;
+
+-- Same as before, plus each item's discount_amount from p_items
+
+CREATE OR REPLACE FUNCTION public.place_checkout_order(
+  p_order JSONB,
+  p_items JSONB,
+  p_address JSONB,
+  p_reservation_expires_at TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_order_id UUID := (p_order->>'id')::UUID;
+  v_user_id UUID := (p_order->>'user_id')::UUID;
+  v_email TEXT := NULLIF(lower(trim(p_order->>'customer_email')), '');
+  v_session_id TEXT := p_order->>'cart_session_id';
+  v_promotion_id UUID := (p_order->>'promotion_id')::UUID;
+  v_promotion RECORD;
+  v_usage JSONB;
+  v_credit NUMERIC := COALESCE((p_order->>'store_credit_amount')::NUMERIC, 0);
+  v_address_id UUID;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_available INTEGER;
+  v_offer RECORD;
+  v_win RECORD;
+  v_held INTEGER;
+  v_won INTEGER;
+  v_release_mode TEXT;
+  v_reservation_id UUID;
+  v_item_id UUID;
+  v_reservations JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL AND v_email IS NULL THEN
+    RAISE EXCEPTION 'Guest orders need an email address' USING HINT = 'invalid_request';
+  END IF;
+
+  IF p_address IS NOT NULL THEN
+    INSERT INTO user_addresses (
+      id, user_id, type, first_name, last_name, address_line_1, city, postal_code, country, created_at
+    )
+    VALUES (
+      gen_random_uuid(), v_user_id, 'shipping', p_address->>'first_name', p_address->>'last_name',
+      p_address->>'address_line_1', p_address->>'city', p_address->>'postal_code', p_address->>'country', NOW()
+    )
+    RETURNING id INTO v_address_id;
+  END IF;
+
+  INSERT INTO orders (
+    id, user_id, order_number, subtotal, shipping_amount, tax_amount, discount_amount, total_amount,
+    store_credit_amount, currency, fx_rate, fx_rate_id, fx_locked_at, shipping_rate_id, tax_lines, discount_lines,
+    status, payment_status, customer_notes, shipping_address_id, customer_email, cart_session_id, created_at, updated_at
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'order_number',
+    (p_order->>'subtotal')::NUMERIC,
+    (p_order->>'shipping_amount')::NUMERIC,
+    (p_order->>'tax_amount')::NUMERIC,
+    COALESCE((p_order->>'discount_amount')::NUMERIC, 0),
+    (p_order->>'total_amount')::NUMERIC,
+    v_credit,
+    p_order->>'currency',
+    (p_order->>'fx_rate')::NUMERIC,
+    (p_order->>'fx_rate_id')::UUID,
+    (p_order->>'fx_locked_at')::TIMESTAMPTZ,
+    (p_order->>'shipping_rate_id')::UUID,
+    COALESCE(p_order->'tax_lines', '[]'::JSONB),
+    COALESCE(p_order->'discount_lines', '[]'::JSONB),
+    'pending',
+    'pending',
+    p_order->>'customer_notes',
+    v_address_id,
+    v_email,
+    CASE WHEN v_user_id IS NULL THEN v_session_id END,
+    NOW(),
+    NOW()
+  );
+
+  IF v_promotion_id IS NOT NULL THEN
+    SELECT * INTO v_promotion FROM promotions WHERE id = v_promotion_id FOR UPDATE;
+
+    IF NOT FOUND
+      OR NOT v_promotion.is_active
+      OR (v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > NOW())
+      OR (v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at <= NOW()) THEN
+      RAISE EXCEPTION 'This discount code is no longer available' USING HINT = 'promotion_unavailable';
+    END IF;
+
+    v_usage := promotion_usage(v_promotion_id, v_user_id, v_email);
+
+    IF v_promotion.usage_limit IS NOT NULL AND (v_usage->>'total')::INTEGER >= v_promotion.usage_limit THEN
+      RAISE EXCEPTION 'This discount code has been fully redeemed' USING HINT = 'promotion_usage_limit';
+    END IF;
+
+    IF v_promotion.usage_limit_per_user IS NOT NULL
+      AND (v_usage->>'by_buyer')::INTEGER >= v_promotion.usage_limit_per_user THEN
+      RAISE EXCEPTION 'You have already used this discount code' USING HINT = 'promotion_buyer_usage_limit';
+    END IF;
+
+    INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, customer_email, amount, currency)
+    VALUES (
+      v_promotion_id, v_order_id, v_user_id, v_email,
+      COALESCE((p_order->>'discount_amount')::NUMERIC, 0), p_order->>'currency'
+    );
+  END IF;
+
+  IF v_credit > 0 THEN
+    PERFORM post_store_credit_entry(
+      v_user_id, -(p_order->>'store_credit_base_amount')::NUMERIC, 'order_payment',
+      'Order ' || (p_order->>'order_number'), v_user_id, NULL, v_order_id, NULL
+    );
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_won := 0;
+
+    PERFORM 1 FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size'
+    FOR UPDATE;
+
+    IF v_user_id IS NOT NULL THEN
+      SELECT * INTO v_offer FROM stock_waitlist
+      WHERE user_id = v_user_id
+        AND product_id = (v_item->>'product_id')::UUID
+        AND size = v_item->>'size'
+        AND status = 'offered'
+        AND offer_expires_at > NOW()
+      FOR UPDATE;
+
+      IF FOUND THEN
+        DELETE FROM stock_reservations WHERE id = v_offer.reservation_id
+        RETURNING quantity INTO v_held;
+
+        IF v_held IS NOT NULL THEN
+          UPDATE product_stock
+          SET reserved_quantity = GREATEST(reserved_quantity - v_held, 0),
+              updated_at = NOW()
+          WHERE product_id = (v_item->>'product_id')::UUID
+            AND size = v_item->>'size';
+
+          INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+          VALUES (
+            (v_item->>'product_id')::UUID, v_item->>'size', 'release', v_held,
+            v_offer.reservation_id, 'reservation', 'Waitlist hold used at checkout', v_user_id
+          );
+        END IF;
+
+        UPDATE stock_waitlist
+        SET status = 'claimed', order_id = v_order_id, updated_at = NOW()
+        WHERE id = v_offer.id;
+      END IF;
+
+      SELECT * INTO v_win FROM raffle_entries
+      WHERE user_id = v_user_id
+        AND product_id = (v_item->>'product_id')::UUID
+        AND size = v_item->>'size'
+        AND status = 'won'
+        AND claim_expires_at > NOW()
+      FOR UPDATE;
+
+      IF FOUND THEN
+        DELETE FROM stock_reservations WHERE id = v_win.reservation_id
+        RETURNING quantity INTO v_held;
+
+        IF v_held IS NOT NULL THEN
+          UPDATE product_stock
+          SET reserved_quantity = GREATEST(reserved_quantity - v_held, 0),
+              updated_at = NOW()
+          WHERE product_id = (v_item->>'product_id')::UUID
+            AND size = v_item->>'size';
+
+          INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+          VALUES (
+            (v_item->>'product_id')::UUID, v_item->>'size', 'release', v_held,
+            v_win.reservation_id, 'reservation', 'Raffle hold used at checkout', v_user_id
+          );
+
+          v_won := v_held;
+        END IF;
+
+        UPDATE raffle_entries
+        SET status = 'claimed', order_id = v_order_id, updated_at = NOW()
+        WHERE id = v_win.id;
+      END IF;
+    END IF;
+
+    SELECT release_mode INTO v_release_mode FROM products WHERE id = (v_item->>'product_id')::UUID;
+
+    IF v_release_mode = 'raffle' AND v_quantity > v_won THEN
+      RAISE EXCEPTION '% is a raffle release and can only be bought by its winners', v_item->>'product_name'
+        USING HINT = 'raffle_only';
+    END IF;
+
+    SELECT quantity - reserved_quantity
+    INTO v_available
+    FROM product_stock
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    IF v_available IS NULL OR v_available < v_quantity THEN
+      RAISE EXCEPTION '% size % is not available (requested: %, available: %)',
+        v_item->>'product_name', v_item->>'size', v_quantity, COALESCE(v_available, 0)
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    INSERT INTO stock_reservations (id, product_id, size, quantity, user_id, session_id, order_id, expires_at)
+    VALUES (
+      gen_random_uuid(), (v_item->>'product_id')::UUID, v_item->>'size', v_quantity,
+      v_user_id, CASE WHEN v_user_id IS NULL THEN v_session_id END, v_order_id, p_reservation_expires_at
+    )
+    RETURNING id INTO v_reservation_id;
+
+    UPDATE product_stock
+    SET reserved_quantity = reserved_quantity + v_quantity,
+        updated_at = NOW()
+    WHERE product_id = (v_item->>'product_id')::UUID
+      AND size = v_item->>'size';
+
+    INSERT INTO inventory_moves (product_id, size, move_type, quantity, reference_id, reference_type, reason, user_id)
+    VALUES (
+      (v_item->>'product_id')::UUID, v_item->>'size', 'reserve', -v_quantity,
+      v_reservation_id, 'reservation', 'Stock reserved for checkout', v_user_id
+    );
+
+    v_item_id := gen_random_uuid();
+
+    INSERT INTO order_items (
+      id, order_id, product_id, size, quantity, unit_price, total_price, discount_amount,
+      product_name, product_brand, product_image_url, reservation_id, created_at
+    )
+    VALUES (
+      v_item_id,
+      v_order_id,
+      (v_item->>'product_id')::UUID,
+      v_item->>'size',
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'total_price')::NUMERIC,
+      COALESCE((v_item->>'discount_amount')::NUMERIC, 0),
+      v_item->>'product_name',
+      v_item->>'product_brand',
+      v_item->>'product_image_url',
+      v_reservation_id,
+      NOW()
+    );
+
+    v_reservations := v_reservations || jsonb_build_object(
+      'id', v_reservation_id,
+      'order_item_id', v_item_id,
+      'product_id', v_item->>'product_id',
+      'size', v_item->>'size',
+      'quantity', v_quantity,
+      'expires_at', p_reservation_expires_at
+    );
+  END LOOP;
+
+  RETURN v_reservations;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_checkout_order(JSONB, JSONB, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
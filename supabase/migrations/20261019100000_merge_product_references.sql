@@ -0,0 +1,149 @@
+-- Merge Every Product Reference
+-- merge_products moved only listings, sizes and market data, leaving the retired product's stock, cart
+-- lines, watchers, waitlist places, raffles and images behind on a product nobody can see. It now moves
+-- everything keyed on the product. Where the target already has a matching row the two are combined:
+-- stock quantities are summed per size, cart lines of the same buyer and size are added together and a
+-- user's duplicate watch, waitlist place, like, rating or wishlist entry keeps the target's row.
+-- Order items and inventory moves are history and stay on the product they were recorded against.
+
+CREATE OR REPLACE FUNCTION public.merge_products(
+  p_source_id UUID,
+  p_target_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a product into itself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM product_listings s
+    JOIN product_listings t ON t.platform = s.platform AND t.product_id = p_target_id
+    WHERE s.product_id = p_source_id
+  ) THEN
+    RAISE EXCEPTION 'Target product already has a listing on the same marketplace';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM raffles WHERE product_id = p_source_id AND status = 'scheduled')
+    AND EXISTS (SELECT 1 FROM raffles WHERE product_id = p_target_id AND status = 'scheduled') THEN
+    RAISE EXCEPTION 'Both products have a raffle waiting to be drawn';
+  END IF;
+
+  -- Lock both products' stock so no checkout reserves against the source mid-merge
+  PERFORM 1 FROM product_stock
+  WHERE product_id IN (p_source_id, p_target_id)
+  ORDER BY product_id, size
+  FOR UPDATE;
+
+  UPDATE product_listings
+  SET product_id = p_target_id,
+      is_primary = false,
+      updated_at = NOW()
+  WHERE product_id = p_source_id;
+
+  UPDATE product_sizes SET product_id = p_target_id WHERE product_id = p_source_id;
+  UPDATE product_market_data SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  -- Stock: sum each size into the target, held units included, then move the holds themselves
+  INSERT INTO product_stock (product_id, size, quantity, reserved_quantity)
+  SELECT p_target_id, size, quantity, reserved_quantity
+  FROM product_stock
+  WHERE product_id = p_source_id
+  ON CONFLICT (product_id, size) DO UPDATE
+  SET quantity = product_stock.quantity + EXCLUDED.quantity,
+      reserved_quantity = product_stock.reserved_quantity + EXCLUDED.reserved_quantity,
+      updated_at = NOW();
+
+  DELETE FROM product_stock WHERE product_id = p_source_id;
+
+  UPDATE stock_reservations SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  -- Cart lines: add the source line to the buyer's target line of the same size, or move it
+  UPDATE shopping_cart t
+  SET quantity = t.quantity + s.quantity,
+      updated_at = NOW()
+  FROM shopping_cart s
+  WHERE s.product_id = p_source_id
+    AND t.product_id = p_target_id
+    AND t.size = s.size
+    AND t.user_id IS NOT DISTINCT FROM s.user_id
+    AND t.session_id IS NOT DISTINCT FROM s.session_id;
+
+  DELETE FROM shopping_cart s
+  USING shopping_cart t
+  WHERE s.product_id = p_source_id
+    AND t.product_id = p_target_id
+    AND t.size = s.size
+    AND t.user_id IS NOT DISTINCT FROM s.user_id
+    AND t.session_id IS NOT DISTINCT FROM s.session_id;
+
+  UPDATE shopping_cart SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  -- Watches: the target's watch wins for the same user and size; alerts follow their watch
+  DELETE FROM user_watchlist s
+  USING user_watchlist t
+  WHERE s.product_id = p_source_id
+    AND t.product_id = p_target_id
+    AND t.user_id = s.user_id
+    AND COALESCE(t.size, '') = COALESCE(s.size, '');
+
+  UPDATE user_watchlist SET product_id = p_target_id WHERE product_id = p_source_id;
+  UPDATE watchlist_alerts SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  -- Waitlist: a user queued for the size on both keeps the target's place. A cancelled source offer's
+  -- held unit has moved with the reservations and goes back on sale when the hold expires
+  UPDATE stock_waitlist s
+  SET status = 'cancelled',
+      updated_at = NOW()
+  FROM stock_waitlist t
+  WHERE s.product_id = p_source_id
+    AND s.status IN ('waiting', 'offered')
+    AND t.product_id = p_target_id
+    AND t.status IN ('waiting', 'offered')
+    AND t.size = s.size
+    AND t.user_id = s.user_id;
+
+  UPDATE stock_waitlist SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  UPDATE raffles SET product_id = p_target_id WHERE product_id = p_source_id;
+  UPDATE raffle_entries SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  -- One like, rating and wishlist entry per user and product: the target's is kept
+  DELETE FROM product_likes s
+  USING product_likes t
+  WHERE s.product_id = p_source_id AND t.product_id = p_target_id AND t.user_id = s.user_id;
+  UPDATE product_likes SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  DELETE FROM product_ratings s
+  USING product_ratings t
+  WHERE s.product_id = p_source_id AND t.product_id = p_target_id AND t.user_id = s.user_id;
+  UPDATE product_ratings SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  DELETE FROM user_wishlists s
+  USING user_wishlists t
+  WHERE s.product_id = p_source_id AND t.product_id = p_target_id AND t.user_id = s.user_id;
+  UPDATE user_wishlists SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  UPDATE product_images SET product_id = p_target_id WHERE product_id = p_source_id;
+
+  UPDATE products
+  SET is_active = false,
+      merged_into_id = p_target_id,
+      updated_at = NOW()
+  WHERE id = p_source_id;
+
+  -- Other reviews about the retired product no longer apply
+  UPDATE product_match_reviews
+  SET status = 'rejected',
+      reviewed_at = NOW()
+  WHERE status = 'pending'
+    AND (product_id = p_source_id OR candidate_product_id = p_source_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_products(UUID, UUID) FROM PUBLIC, anon, authenticated;
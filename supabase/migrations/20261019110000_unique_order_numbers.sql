@@ -0,0 +1,23 @@
+-- Unique Order Numbers
+-- Order numbers were the last eight digits of the creation time, so two orders placed in the same
+-- millisecond, or about 28 hours apart, could share one and a guest lookup by number would find either.
+-- Numbers are now random codes (see src/lib/orders/numbers.ts) and this index rejects a repeat, which
+-- checkout answers by drawing a new number. Return numbers already have a unique constraint.
+--
+-- Existing repeats are told apart first: the earliest order keeps its number and each later one gets
+-- the start of its id appended.
+
+WITH repeated AS (
+  SELECT id,
+         ROW_NUMBER() OVER (PARTITION BY order_number ORDER BY created_at, id) AS position
+  FROM public.orders
+  WHERE order_number IS NOT NULL
+)
+UPDATE public.orders o
+SET order_number = o.order_number || '-' || UPPER(LEFT(o.id::TEXT, 8)),
+    updated_at = NOW()
+FROM repeated r
+WHERE o.id = r.id
+  AND r.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_order_number ON public.orders (order_number);
@@ -0,0 +1,162 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Carrier Tracking Test
+ * Validates carrier tracking URLs, response parsing, the test carrier and stuck shipment detection
+ */
+
+import type { CarrierClient, CarrierRequest } from './src/lib/carriers'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+// Answers every request with the same body and remembers what was asked
+class RecordedClient implements CarrierClient {
+  requests: CarrierRequest[] = []
+
+  constructor(private readonly body: unknown | null) {}
+
+  async getJson(request: CarrierRequest) {
+    this.requests.push(request)
+    return this.body
+  }
+}
+
+async function main() {
+  const {
+    DhlCarrierAdapter,
+    UpsCarrierAdapter,
+    ColissimoCarrierAdapter,
+    FakeCarrierAdapter,
+    CarrierError,
+    getCarrierAdapter,
+    setCarrierAdapter,
+    trackingUrlFor,
+    resolveCarrierCode,
+    isShipmentStuck
+  } = await import('./src/lib/carriers')
+
+  process.env.DHL_API_KEY = 'test-dhl-key'
+  process.env.UPS_ACCESS_TOKEN = 'test-ups-token'
+  process.env.LAPOSTE_API_KEY = 'test-laposte-key'
+
+  // Carrier names and URLs
+  check(resolveCarrierCode('DHL Express') === 'dhl', 'DHL Express is tracked with DHL')
+  check(resolveCarrierCode('Colissimo Expert') === 'colissimo', 'Colissimo services are tracked with Colissimo')
+  check(resolveCarrierCode('LaPoste Lettre Suivie') === 'la_poste', 'La Poste is recognised without the space')
+  check(resolveCarrierCode('Groups Logistics') === null, 'UPS is not matched inside other words')
+  check(resolveCarrierCode('Standard Shipping') === null, 'Unknown carriers are not tracked')
+  check(trackingUrlFor('ups', '1Z 999')?.endsWith('tracknum=1Z%20999') === true, 'Tracking numbers are encoded in tracking URLs')
+  check(trackingUrlFor(null, '1Z999') === null, 'Untracked carriers have no tracking URL')
+
+  // DHL
+  const dhlClient = new RecordedClient({
+    shipments: [{
+      estimatedTimeOfDelivery: '2026-10-21T18:00:00Z',
+      events: [
+        { timestamp: '2026-10-19T09:00:00Z', statusCode: 'transit', description: 'Processed at hub', location: { address: { addressLocality: 'Leipzig' } } },
+        { timestamp: '2026-10-18T16:00:00Z', statusCode: 'pre-transit', description: 'Shipment information received' },
+        { timestamp: '2026-10-20T07:30:00Z', statusCode: 'transit', description: 'Shipment is out for delivery' }
+      ]
+    }]
+  })
+  const dhl = await new DhlCarrierAdapter(dhlClient).track('JD0001')
+  check(dhlClient.requests[0].headers?.['DHL-API-Key'] === 'test-dhl-key', 'DHL requests carry the API key')
+  check(dhl.events[0].status === 'label_created' && dhl.events[1].location === 'Leipzig', 'DHL events are sorted oldest first')
+  check(dhl.status === 'out_for_delivery', 'DHL out for delivery scans are recognised')
+  check(dhl.estimatedDelivery === '2026-10-21T18:00:00Z', 'DHL estimated delivery is kept')
+
+  // UPS
+  const ups = await new UpsCarrierAdapter(new RecordedClient({
+    trackResponse: {
+      shipment: [{
+        package: [{
+          deliveryDate: [{ type: 'DEL', date: '20261020' }],
+          activity: [
+            { date: '20261020', time: '143000', status: { type: 'D', description: 'DELIVERED ' }, location: { address: { city: 'Lyon', country: 'FR' } } },
+            { date: '20261019', time: '080000', status: { type: 'I', description: 'Departed from Facility' } }
+          ]
+        }]
+      }]
+    }
+  })).track('1Z999')
+  check(ups.status === 'delivered' && ups.events[1].occurredAt === '2026-10-20T14:30:00Z', 'UPS delivered scans are recognised with their time')
+  check(ups.events[1].location === 'Lyon, FR' && ups.events[1].description === 'DELIVERED', 'UPS locations and descriptions are cleaned up')
+
+  // Colissimo goes through the La Poste API
+  const colissimoClient = new RecordedClient({
+    shipment: {
+      event: [
+        { code: 'DR1', label: 'Votre colis est pris en charge', date: '2026-10-18T10:00:00+02:00' },
+        { code: 'ND1', label: 'Adresse incomplète', date: '2026-10-20T11:00:00+02:00' }
+      ]
+    }
+  })
+  const colissimo = await new ColissimoCarrierAdapter(colissimoClient).track('6A123')
+  check(colissimoClient.requests[0].url.startsWith('https://api.laposte.fr/suivi/v2/idships/6A123'), 'Colissimo parcels are tracked through the La Poste API')
+  check(colissimo.status === 'exception', 'La Poste delivery problems are reported as exceptions')
+
+  const unknown = await new DhlCarrierAdapter(new RecordedClient(null)).track('JD404')
+  check(unknown.status === 'label_created' && unknown.events.length === 0, 'A tracking number the carrier does not know yet has no events')
+
+  async function carrierErrorCode(run: () => Promise<unknown>): Promise<string | null> {
+    try {
+      await run()
+      return null
+    } catch (error) {
+      return error instanceof CarrierError ? error.code : 'UNEXPECTED'
+    }
+  }
+
+  check(
+    await carrierErrorCode(() => new UpsCarrierAdapter(new RecordedClient({ trackResponse: { shipment: [{ package: [{ activity: [{}] }] }] } })).track('1Z')) === 'invalid_response',
+    'Malformed carrier responses are reported as invalid'
+  )
+  delete process.env.DHL_API_KEY
+  check(await carrierErrorCode(() => new DhlCarrierAdapter(new RecordedClient({})).track('JD0001')) === 'not_configured', 'Carriers without credentials are not called')
+
+  // Test carrier through the registry
+  let clock = new Date('2026-10-18T12:00:00Z')
+  const fake = new FakeCarrierAdapter({ now: () => clock })
+  setCarrierAdapter('fake', fake)
+  check(getCarrierAdapter('fake') === fake, 'The registry returns the adapter set for a carrier')
+  check((await getCarrierAdapter('fake').track('TEST-1')).status === 'label_created', 'New test parcels start at label created')
+
+  fake.advance('TEST-1', 'in_transit', { location: 'Paris' })
+  clock = new Date('2026-10-19T08:00:00Z')
+  fake.advance('TEST-1', 'delivered')
+  const delivered = await getCarrierAdapter('fake').track('TEST-1')
+  check(delivered.status === 'delivered' && delivered.events.length === 2, 'The test carrier reports scripted scans in order')
+
+  fake.fail('TEST-1')
+  check(await carrierErrorCode(() => fake.track('TEST-1')) === 'UNEXPECTED', 'The test carrier can simulate an outage')
+
+  // Stuck shipments
+  const now = new Date('2026-10-22T12:00:00Z')
+  check(!isShipmentStuck({ trackingStatus: 'in_transit', lastEventAt: '2026-10-21T12:00:00Z', shippedAt: '2026-10-18T12:00:00Z' }, now), 'A shipment scanned yesterday is moving')
+  check(isShipmentStuck({ trackingStatus: 'in_transit', lastEventAt: '2026-10-19T08:00:00Z', shippedAt: '2026-10-18T12:00:00Z' }, now), 'A shipment without a scan for three days is stuck')
+  check(isShipmentStuck({ trackingStatus: null, lastEventAt: null, shippedAt: '2026-10-18T12:00:00Z' }, now), 'A parcel the carrier never scanned is stuck')
+  check(isShipmentStuck({ trackingStatus: 'exception', lastEventAt: '2026-10-22T11:00:00Z', shippedAt: '2026-10-21T12:00:00Z' }, now), 'A delivery problem flags the shipment straight away')
+  check(!isShipmentStuck({ trackingStatus: 'delivered', lastEventAt: '2026-10-19T08:00:00Z', shippedAt: '2026-10-18T12:00:00Z' }, now), 'Delivered shipments are never stuck')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All carrier tracking checks passed${RESET}`)
+}
+
+main()
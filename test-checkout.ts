@@ -0,0 +1,80 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Checkout Idempotency Test
+ * Validates the request fingerprint that decides whether a reused idempotency key is a retry
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import type { CheckoutRequest } from './src/types/order'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+const request: CheckoutRequest = {
+  shippingAddress: {
+    firstName: 'Sam',
+    lastName: 'Doe',
+    address: 'Hauptstraße 1',
+    city: 'Berlin',
+    state: 'BE',
+    postalCode: '10115',
+    country: 'DE'
+  },
+  currency: 'EUR'
+}
+
+const cart = [
+  { productId: 'p1', size: '9', quantity: 1 },
+  { productId: 'p2', size: '10.5', quantity: 2 }
+]
+
+async function main() {
+  const { CheckoutService } = await import('./src/services/checkout')
+
+  const hash = CheckoutService.hashRequest(cart, request)
+
+  check(hash === CheckoutService.hashRequest(cart, { ...request }), 'Identical requests share a fingerprint')
+  check(hash === CheckoutService.hashRequest([...cart].reverse(), request), 'Cart line order does not matter')
+  check(
+    hash !== CheckoutService.hashRequest([{ ...cart[0], quantity: 2 }, cart[1]], request),
+    'Changing a quantity changes the fingerprint'
+  )
+  check(
+    hash !== CheckoutService.hashRequest(cart, { ...request, shippingAddress: { ...request.shippingAddress, city: 'Hamburg' } }),
+    'Changing the shipping address changes the fingerprint'
+  )
+  check(hash !== CheckoutService.hashRequest(cart, { ...request, currency: 'USD' }), 'Changing the currency changes the fingerprint')
+  check(
+    hash !== CheckoutService.hashRequest(cart, { ...request, email: 'sam@example.com' }),
+    'A guest email changes the fingerprint'
+  )
+  check(
+    hash === CheckoutService.hashRequest(cart, { ...request, expectedTotal: 199.99 }),
+    'The expected total is not part of the fingerprint'
+  )
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All checkout checks passed${RESET}`)
+}
+
+main()
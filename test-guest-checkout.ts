@@ -0,0 +1,73 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Guest Checkout Test
+ * Validates guest email handling and the signed order lookup links sent to guests
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+process.env.ORDER_LOOKUP_SECRET = 'test-order-lookup-secret'
+process.env.NEXT_PUBLIC_SITE_URL = 'https://sneaksx.test'
+
+import type { GuestOrderLookup } from './src/services/guest-orders'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+async function main() {
+  const { GuestOrderService } = await import('./src/services/guest-orders')
+
+  // Emails
+  check(GuestOrderService.isValidEmail(' sam@example.com '), 'Emails with surrounding spaces are accepted')
+  check(!GuestOrderService.isValidEmail('sam@example'), 'Emails without a domain are rejected')
+  check(!GuestOrderService.isValidEmail('sam example@test.com'), 'Emails with spaces inside are rejected')
+  check(GuestOrderService.normalizeEmail(' Sam@Example.COM ') === 'sam@example.com', 'Emails are trimmed and lowercased')
+
+  // Lookup tokens
+  const orderId = '7d2c1f0e-5a4b-4c3d-8e9f-0a1b2c3d4e5f'
+  const token = GuestOrderService.createLookupToken(orderId, 'sam@example.com')
+
+  check(/^[A-Za-z0-9_-]+$/.test(token), 'Lookup tokens are URL safe')
+  check(GuestOrderService.verifyLookupToken(orderId, 'sam@example.com', token), 'A token verifies for its order and email')
+  check(GuestOrderService.verifyLookupToken(orderId, 'SAM@example.com ', token), 'Email case and spacing do not matter')
+  check(!GuestOrderService.verifyLookupToken(orderId, 'alex@example.com', token), 'A token does not verify for another email')
+  check(
+    !GuestOrderService.verifyLookupToken('0a1b2c3d-5a4b-4c3d-8e9f-7d2c1f0e4e5f', 'sam@example.com', token),
+    'A token does not verify for another order'
+  )
+  check(!GuestOrderService.verifyLookupToken(orderId, 'sam@example.com', `${token.slice(0, -1)}A`), 'A tampered token is rejected')
+  check(!GuestOrderService.verifyLookupToken(orderId, 'sam@example.com', ''), 'An empty token is rejected')
+
+  process.env.ORDER_LOOKUP_SECRET = 'rotated-secret'
+  check(!GuestOrderService.verifyLookupToken(orderId, 'sam@example.com', token), 'Rotating the secret invalidates old links')
+
+  const url = new URL(GuestOrderService.lookupUrl('SX-12345678', token))
+  check(
+    url.origin === 'https://sneaksx.test' && url.pathname === '/orders/lookup' &&
+      url.searchParams.get('order') === 'SX-12345678' && url.searchParams.get('token') === token,
+    'Lookup links point at the order lookup page'
+  )
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All guest checkout checks passed${RESET}`)
+}
+
+main()
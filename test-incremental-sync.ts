@@ -0,0 +1,95 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Incremental Sync Change Detection Test
+ * Validates that product content hashes only change when synced content changes
+ */
+
+import { computeProductContentHash } from './src/lib/sync/transformers'
+import type { KicksDBProduct } from './src/types/kicksdb'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+const product: KicksDBProduct = {
+  id: 'kdb-1',
+  name: 'Air Jordan 1 Retro High OG Chicago',
+  slug: 'air-jordan-1-retro-high-og-chicago',
+  brand: 'Jordan',
+  retailPrice: 180,
+  releaseDate: '2022-11-19',
+  colorway: 'White/Varsity Red-Black',
+  images: ['https://images.example.com/aj1-1.jpg', 'https://images.example.com/aj1-2.jpg'],
+  sku: 'DZ5485-612',
+  category: 'sneakers',
+  gender: 'men',
+  marketplace: 'stockx',
+  market: {
+    lowestAsk: 320,
+    highestBid: 290,
+    lastSale: 305,
+    changeValue: 5,
+    changePercentage: 1.6,
+    volatility: 0.08,
+    deadstockSold: 1200,
+    annualHigh: 420,
+    annualLow: 250
+  },
+  sizes: [
+    { size: '10', price: 310, currency: 'USD' },
+    { size: '9.5', price: 300, currency: 'USD' }
+  ]
+}
+
+const baseHash = computeProductContentHash(product)
+
+check(baseHash === computeProductContentHash({ ...product }), 'Identical content produces identical hashes')
+
+check(
+  baseHash === computeProductContentHash({ ...product, sizes: [...product.sizes].reverse() }),
+  'Size ordering does not affect the hash'
+)
+
+check(
+  baseHash === computeProductContentHash({ ...product, market: { ...product.market, changePercentage: 2.4, volatility: 0.1 } }),
+  'Derived market statistics do not affect the hash'
+)
+
+check(
+  baseHash !== computeProductContentHash({ ...product, market: { ...product.market, lowestAsk: 315 } }),
+  'Price changes produce a new hash'
+)
+
+check(
+  baseHash !== computeProductContentHash({ ...product, sizes: [...product.sizes, { size: '11', price: 330, currency: 'USD' }] }),
+  'New sizes produce a new hash'
+)
+
+check(
+  baseHash !== computeProductContentHash({ ...product, images: [product.images[1], product.images[0]] }),
+  'Image changes produce a new hash'
+)
+
+check(
+  baseHash !== computeProductContentHash({ ...product, colorway: 'Varsity Red' }),
+  'Metadata changes produce a new hash'
+)
+
+if (failures > 0) {
+  console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+  process.exit(1)
+}
+
+console.log(`\n${GREEN}🎉 All change detection checks passed${RESET}`)
@@ -0,0 +1,172 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * KicksDB Fixture Transport Test
+ * Replays scripted fixtures through KicksDBClient, including 429 and timeout paths
+ */
+
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { KicksDBClient } from './src/lib/kicksdb/client'
+import { FixtureTransport } from './src/lib/kicksdb/fixture-transport'
+import { RateLimitError, NetworkError, KicksDBAPIError } from './src/lib/kicksdb/api-error'
+import type { KicksDBTransport, KicksDBTransportResponse } from './src/lib/kicksdb/transport'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const BLUE = '\x1b[34m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+const brandsBody = {
+  success: true,
+  data: [{ id: 'nike', name: 'Nike', slug: 'nike', productCount: 1200 }]
+}
+
+const productsBody = {
+  success: true,
+  data: [],
+  pagination: { currentPage: 1, totalPages: 1, totalItems: 0, itemsPerPage: 10 }
+}
+
+function createClient(transport: KicksDBTransport, maxRetries = 3) {
+  return new KicksDBClient({ transport, maxRetries, retryDelay: 1 })
+}
+
+async function testReplay(fixturesDir: string) {
+  console.log(`${BLUE}Testing replay mode...${RESET}`)
+
+  const transport = new FixtureTransport({ mode: 'replay', fixturesDir })
+  await transport.writeFixture('/v3/utils/brands', {}, [{ status: 200, body: brandsBody }])
+
+  const client = createClient(transport)
+  const brands = await client.getBrands()
+  check(brands.data[0]?.name === 'Nike', 'Brands are served from the fixture')
+
+  const again = await client.getBrands()
+  check(again.data.length === 1, 'Last response repeats once the sequence is exhausted')
+}
+
+async function testRateLimitSequence(fixturesDir: string) {
+  console.log(`${BLUE}Testing 429 retry path...${RESET}`)
+
+  const transport = new FixtureTransport({ mode: 'replay', fixturesDir })
+  await transport.writeFixture('/v3/stockx/products', { page: 1, limit: 10 }, [
+    { status: 429, headers: { 'retry-after': '0' }, body: { message: 'Too many requests' } },
+    { status: 200, body: productsBody }
+  ])
+
+  const client = createClient(transport)
+  const products = await client.getStockXProducts({ page: 1, limit: 10 })
+  check(products.success === true, 'Client retries after 429 and succeeds')
+  check(client.getRateLimitStatus().requestCount === 2, 'Two requests were issued')
+
+  await transport.writeFixture('/v3/goat/products', { page: 1, limit: 10 }, [
+    { status: 429, headers: { 'retry-after': '0' }, body: { message: 'Too many requests' } }
+  ])
+
+  try {
+    await createClient(transport, 1).getGOATProducts({ page: 1, limit: 10 })
+    check(false, 'Persistent 429 should throw RateLimitError')
+  } catch (error) {
+    check(error instanceof RateLimitError, 'Persistent 429 throws RateLimitError')
+  }
+}
+
+async function testTimeoutSequence(fixturesDir: string) {
+  console.log(`${BLUE}Testing timeout retry path...${RESET}`)
+
+  const transport = new FixtureTransport({ mode: 'replay', fixturesDir })
+  await transport.writeFixture('/v3/stockx/products', { query: 'jordan' }, [
+    { error: 'timeout' },
+    { status: 200, body: productsBody }
+  ])
+
+  const products = await createClient(transport).getStockXProducts({ query: 'jordan' })
+  check(products.success === true, 'Client retries after a timeout and succeeds')
+
+  await transport.writeFixture('/v3/stockx/products', { query: 'dunk' }, [{ error: 'timeout' }])
+
+  try {
+    await createClient(transport, 1).getStockXProducts({ query: 'dunk' })
+    check(false, 'Persistent timeout should throw NetworkError')
+  } catch (error) {
+    check(error instanceof NetworkError && error.message === 'Request timeout', 'Persistent timeout throws NetworkError')
+  }
+}
+
+async function testMissingFixture(fixturesDir: string) {
+  console.log(`${BLUE}Testing missing fixture...${RESET}`)
+
+  const transport = new FixtureTransport({ mode: 'replay', fixturesDir })
+
+  try {
+    await createClient(transport).getProductDetails('unknown-slug')
+    check(false, 'Missing fixture should throw')
+  } catch (error) {
+    check(error instanceof KicksDBAPIError && error.code === 'FIXTURE_NOT_FOUND', 'Missing fixture throws FIXTURE_NOT_FOUND')
+  }
+}
+
+async function testRecord(fixturesDir: string) {
+  console.log(`${BLUE}Testing record mode...${RESET}`)
+
+  let calls = 0
+  const inner: KicksDBTransport = {
+    async send(): Promise<KicksDBTransportResponse> {
+      calls++
+      return calls === 1
+        ? { status: 429, headers: { 'retry-after': '0' }, body: '{"message":"slow down"}' }
+        : { status: 200, headers: {}, body: JSON.stringify(brandsBody) }
+    }
+  }
+
+  const recorder = new FixtureTransport({ mode: 'record', fixturesDir, inner })
+  await createClient(recorder).getBrands()
+
+  const replayer = new FixtureTransport({ mode: 'replay', fixturesDir })
+  const client = createClient(replayer)
+  const brands = await client.getBrands()
+
+  check(brands.data[0]?.slug === 'nike', 'Recorded responses replay without the live transport')
+  check(client.getRateLimitStatus().requestCount === 2, 'Recorded 429 is replayed before the success')
+}
+
+async function main() {
+  const fixturesDir = mkdtempSync(path.join(os.tmpdir(), 'kicksdb-fixtures-'))
+  const recordDir = mkdtempSync(path.join(os.tmpdir(), 'kicksdb-record-'))
+
+  try {
+    await testReplay(fixturesDir)
+    await testRateLimitSequence(fixturesDir)
+    await testTimeoutSequence(fixturesDir)
+    await testMissingFixture(fixturesDir)
+    await testRecord(recordDir)
+  } finally {
+    rmSync(fixturesDir, { recursive: true, force: true })
+    rmSync(recordDir, { recursive: true, force: true })
+  }
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All fixture transport checks passed${RESET}`)
+}
+
+main().catch((error) => {
+  console.error('\n💥 CRITICAL ERROR:', error)
+  process.exit(1)
+})
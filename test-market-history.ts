@@ -0,0 +1,68 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Market Price History Test
+ * Validates range resolution and price history summaries used by the charts
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+async function main() {
+  const { PRICE_HISTORY_RANGES, summarizePriceHistory, getPointPrice } = await import('./src/services/market-history')
+
+  const point = (timestamp: string, lastSale: number | null, lowestAsk: number | null = null) => ({
+    timestamp,
+    lowestAsk,
+    highestBid: null,
+    lastSale,
+    volatility: null
+  })
+
+  check(PRICE_HISTORY_RANGES['24h'].bucket === '1 hour', '24h range is charted hourly')
+  check(PRICE_HISTORY_RANGES['30d'].bucket === '1 day', '30d range is charted daily')
+  check(PRICE_HISTORY_RANGES['1y'].bucket === '7 days', '1y range is charted weekly')
+  check(PRICE_HISTORY_RANGES['all'].windowMs === null, 'all range has no window')
+
+  check(getPointPrice(point('2026-01-01', 210, 220)) === 210, 'Last sale is preferred for charting')
+  check(getPointPrice(point('2026-01-01', null, 220)) === 220, 'Lowest ask is used when there is no last sale')
+
+  const summary = summarizePriceHistory([
+    point('2026-01-01', 200),
+    point('2026-01-02', null),
+    point('2026-01-03', 260),
+    point('2026-01-04', 180),
+    point('2026-01-05', 250)
+  ])
+
+  check(summary.open === 200 && summary.close === 250, 'Open and close skip empty points')
+  check(summary.high === 260 && summary.low === 180, 'High and low cover the whole range')
+  check(summary.change === 50 && summary.changePercentage === 25, 'Change is computed from open to close')
+
+  const empty = summarizePriceHistory([])
+  check(empty.open === null && empty.changePercentage === null, 'Empty history has an empty summary')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All price history checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,155 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Tax & Shipping Rules Test
+ * Validates zone lookup, carrier rate tiers, free-shipping thresholds and stacked tax rules
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+
+import type { PricingRules, ShippingRate } from './src/types/pricing'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+function shippingRate(id: string, zoneId: string, overrides: Partial<ShippingRate>): ShippingRate {
+  return {
+    id,
+    zone_id: zoneId,
+    carrier: 'DHL',
+    service_level: 'standard',
+    base_amount: 0,
+    per_item_amount: 0,
+    per_kg_amount: 0,
+    min_weight_kg: 0,
+    max_weight_kg: null,
+    min_quantity: 1,
+    max_quantity: null,
+    free_shipping_threshold: null,
+    estimated_days_min: null,
+    estimated_days_max: null,
+    is_active: true,
+    ...overrides
+  }
+}
+
+const rules: PricingRules = {
+  zones: [
+    { id: 'eu', name: 'European Union', countries: ['DE', 'FR'], is_active: true },
+    { id: 'na', name: 'North America', countries: ['US', 'CA'], is_active: true },
+    { id: 'old', name: 'Retired', countries: ['CH'], is_active: false }
+  ],
+  rates: [
+    shippingRate('eu-standard', 'eu', { base_amount: 9.99, free_shipping_threshold: 100 }),
+    shippingRate('eu-express', 'eu', { service_level: 'express', base_amount: 19.99, per_item_amount: 2 }),
+    shippingRate('na-standard', 'na', { carrier: 'UPS', base_amount: 24.99, per_kg_amount: 3, max_quantity: 4 }),
+    shippingRate('na-freight', 'na', { carrier: 'UPS', service_level: 'freight', base_amount: 59.99, min_quantity: 5 })
+  ],
+  taxRules: [
+    { id: 'de-vat', country: 'DE', region: null, name: 'VAT', rate: 0.19, applies_to_shipping: true, is_active: true },
+    { id: 'ca-gst', country: 'CA', region: null, name: 'GST', rate: 0.05, applies_to_shipping: true, is_active: true },
+    { id: 'ca-on', country: 'CA', region: 'ON', name: 'HST', rate: 0.08, applies_to_shipping: true, is_active: true },
+    { id: 'us-ny', country: 'US', region: 'NY', name: 'Sales tax', rate: 0.04, applies_to_shipping: false, is_active: true },
+    { id: 'fr-old', country: 'FR', region: null, name: 'VAT', rate: 0.2, applies_to_shipping: true, is_active: false }
+  ]
+}
+
+function throws(fn: () => unknown): string | null {
+  try {
+    fn()
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+async function main() {
+  const { OrderPricingService } = await import('./src/services/order-pricing')
+
+  const small = OrderPricingService.calculate({
+    items: [{ productId: 'p1', price: 50, quantity: 1 }],
+    country: 'de'
+  }, rules)
+  check(small.zoneId === 'eu', 'Destination country selects its shipping zone')
+  check(small.shippingRateId === 'eu-standard' && small.shipping === 9.99, 'Cheapest carrier rate is used by default')
+  check(small.freeShippingRemaining === 50, 'Remaining amount to the free-shipping threshold is reported')
+  check(small.tax === 11.4 && small.taxLines.length === 1, 'VAT applies to goods and shipping')
+  check(small.total === 71.39, 'Total adds subtotal, shipping and tax')
+
+  const large = OrderPricingService.calculate({
+    items: [{ productId: 'p1', price: 60, quantity: 2 }],
+    country: 'DE'
+  }, rules)
+  check(large.shipping === 0 && large.freeShippingRemaining === null, 'Free shipping applies over the threshold')
+
+  const express = OrderPricingService.calculate({
+    items: [{ productId: 'p1', price: 60, quantity: 2 }],
+    country: 'DE',
+    shippingRateId: 'eu-express'
+  }, rules)
+  check(express.shipping === 23.99, 'Selected service charges its base and per-item amounts')
+  check(express.shippingOptions.length === 2, 'All services in the zone are offered')
+
+  const heavy = OrderPricingService.calculate({
+    items: [{ productId: 'p1', price: 100, quantity: 2, weightKg: 2 }],
+    country: 'US',
+    region: 'NY'
+  }, rules)
+  check(heavy.shipping === 36.99, 'Per-kg amount uses the product weights')
+  check(heavy.tax === 8, 'Sales tax that excludes shipping is charged on goods only')
+
+  const bulk = OrderPricingService.calculate({
+    items: [{ productId: 'p1', price: 100, quantity: 5 }],
+    country: 'US'
+  }, rules)
+  check(bulk.shippingRateId === 'na-freight' && bulk.shippingOptions.length === 1, 'Quantity tiers switch to the matching service')
+  check(bulk.tax === 0, 'Regions without a rule are not taxed')
+
+  const ontario = OrderPricingService.calculate({
+    items: [{ productId: 'p1', price: 100, quantity: 1, weightKg: 1 }],
+    country: 'CA',
+    region: 'on'
+  }, rules)
+  check(ontario.taxLines.map(line => line.ruleId).join(',') === 'ca-gst,ca-on', 'Country and region tax rules stack')
+  check(ontario.tax === Math.round((100 + 27.99) * 0.05 * 100) / 100 + Math.round((100 + 27.99) * 0.08 * 100) / 100, 'Stacked tax lines are rounded individually')
+
+  const quebec = OrderPricingService.calculate({
+    items: [{ productId: 'p1', price: 100, quantity: 1 }],
+    country: 'CA',
+    region: 'QC'
+  }, rules)
+  check(quebec.taxLines.length === 1, 'Other regions only get the country rule')
+
+  const france = OrderPricingService.calculate({
+    items: [{ productId: 'p1', price: 100, quantity: 1 }],
+    country: 'FR'
+  }, rules)
+  check(france.tax === 0, 'Inactive tax rules are ignored')
+
+  check(throws(() => OrderPricingService.calculate({ items: [{ productId: 'p1', price: 100, quantity: 1 }], country: 'JP' }, rules)) !== null, 'Countries outside every zone are rejected')
+  check(throws(() => OrderPricingService.calculate({ items: [{ productId: 'p1', price: 100, quantity: 1 }], country: 'CH' }, rules)) !== null, 'Inactive zones are rejected')
+  check(throws(() => OrderPricingService.calculate({ items: [{ productId: 'p1', price: 100, quantity: 1 }], country: 'DE', shippingRateId: 'na-standard' }, rules)) !== null, 'Services from another zone cannot be selected')
+  check(throws(() => OrderPricingService.calculate({ items: [], country: 'DE' }, rules)) !== null, 'Empty orders are rejected')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All tax and shipping checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,96 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Order State Machine Test
+ * Validates allowed order/payment transitions, their guards and their stock and email side effects
+ */
+
+import type { OrderState } from './src/lib/orders'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+const placed: OrderState = { status: 'pending', paymentStatus: 'pending' }
+const paid: OrderState = { status: 'processing', paymentStatus: 'completed' }
+const failed: OrderState = { status: 'cancelled', paymentStatus: 'failed' }
+const shipped: OrderState = { status: 'shipped', paymentStatus: 'completed' }
+
+async function main() {
+  const { planTransition, nextManualStatuses, canTransitionStatus, OrderTransitionError } = await import('./src/lib/orders')
+
+  function errorCode(run: () => unknown): string | null {
+    try {
+      run()
+      return null
+    } catch (error) {
+      return error instanceof OrderTransitionError ? error.code : 'UNEXPECTED'
+    }
+  }
+
+  const payment = planTransition(placed, { status: 'processing', paymentStatus: 'completed' })
+  check(payment.stock === 'commit' && payment.email === null, 'A paid order commits its reserved stock')
+
+  const cancelled = planTransition(placed, { status: 'cancelled', paymentStatus: 'failed' })
+  check(cancelled.stock === 'release' && cancelled.email === 'cancelled', 'A failed payment releases stock and tells the customer')
+
+  const reopened = planTransition(failed, { status: 'processing', paymentStatus: 'completed' })
+  check(reopened.stock === 'reserve_and_commit', 'A retried payment reserves the released stock again')
+
+  check(
+    errorCode(() => planTransition({ status: 'cancelled', paymentStatus: 'pending' }, { status: 'processing', paymentStatus: 'completed' })) === 'INVALID_TRANSITION',
+    'Orders cancelled by hand are not reopened'
+  )
+  check(errorCode(() => planTransition(placed, { status: 'processing' })) === 'PAYMENT_REQUIRED', 'Unpaid orders are not processed')
+  check(errorCode(() => planTransition(paid, { status: 'cancelled' })) === 'INVALID_TRANSITION', 'Paid orders cannot be cancelled')
+  check(errorCode(() => planTransition(placed, { status: 'delivered' })) === 'INVALID_TRANSITION', 'Orders cannot skip to delivered')
+  check(errorCode(() => planTransition(paid, { status: 'processing' })) === 'NO_CHANGE', 'Setting the current status is reported as no change')
+
+  check(errorCode(() => planTransition(paid, { status: 'shipped' })) === 'TRACKING_REQUIRED', 'Shipping needs a tracking number')
+  check(errorCode(() => planTransition(paid, { status: 'shipped' }, { trackingNumber: '   ' })) === 'TRACKING_REQUIRED', 'A blank tracking number does not count')
+  const shipping = planTransition(paid, { status: 'partially_shipped' }, { trackingNumber: '1Z999AA10123456784' })
+  check(shipping.email === null && shipping.stock === null, 'Shipments send their own tracking email')
+  check(errorCode(() => planTransition(paid, { status: 'partially_shipped' })) === 'TRACKING_REQUIRED', 'A first partial shipment needs a tracking number')
+  check(
+    planTransition({ status: 'partially_shipped', paymentStatus: 'completed' }, { status: 'shipped' }).to.status === 'shipped',
+    'The last shipment completes a partially shipped order'
+  )
+  check(
+    errorCode(() => planTransition({ status: 'partially_shipped', paymentStatus: 'completed' }, { status: 'delivered' })) === 'INVALID_TRANSITION',
+    'Partially shipped orders are not delivered'
+  )
+  check(planTransition(shipped, { status: 'delivered' }).email === 'delivered', 'Delivery sends the delivered email')
+
+  check(errorCode(() => planTransition(shipped, { status: 'refunded' })) === 'INVALID_TRANSITION', 'Orders are only refunded with their payment')
+  check(planTransition(shipped, { status: 'refunded', paymentStatus: 'refunded' }).to.status === 'refunded', 'A full refund moves the order to refunded')
+  check(planTransition(paid, { paymentStatus: 'partially_refunded' }).to.status === 'processing', 'Partial refunds leave the order where it is')
+  check(
+    errorCode(() => planTransition({ status: 'refunded', paymentStatus: 'refunded' }, { paymentStatus: 'completed' })) === 'INVALID_TRANSITION',
+    'Refunded payments are final'
+  )
+
+  check(JSON.stringify(nextManualStatuses(placed)) === JSON.stringify(['cancelled']), 'Pending orders can only be cancelled by hand')
+  check(nextManualStatuses(paid).length === 0, 'Processing orders move on through shipments, not by hand')
+  check(nextManualStatuses({ status: 'refunded', paymentStatus: 'refunded' }).length === 0, 'Refunded orders cannot be changed by hand')
+  check(canTransitionStatus('delivered', 'delivered') && !canTransitionStatus('delivered', 'shipped'), 'Orders never move backwards')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All order state machine checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,209 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Payment Simulator Test
+ * Drives PaymentService through every simulator test card and checks how orders are settled
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import type { ProcessPaymentResult } from './src/services/payments'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+// Orders as the service-role client sees them, served over a stand-in for the Supabase REST API so
+// payments settle through the same OrderStatusService transitions as in production
+const orders = new Map<string, Record<string, any>>()
+const failingUpdates = new Set<string>()
+
+function matches(row: Record<string, any>, params: URLSearchParams): boolean {
+  for (const [column, filter] of params) {
+    if (['select', 'order', 'limit'].includes(column)) continue
+    const value = row[column] ?? null
+    if (filter === 'is.null' ? value !== null : filter.startsWith('eq.') && String(value) !== filter.slice(3)) {
+      return false
+    }
+  }
+  return true
+}
+
+globalThis.fetch = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+  const url = new URL(input.toString())
+  const table = url.pathname.replace('/rest/v1/', '')
+  const respond = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+  if (table !== 'orders') return respond([])
+
+  const rows = Array.from(orders.values()).filter(row => matches(row, url.searchParams))
+
+  if (init.method === 'PATCH') {
+    if (rows.some(row => failingUpdates.has(row.id))) {
+      return respond({ message: 'connection reset', code: '08006' }, 500)
+    }
+    const updates = JSON.parse(init.body as string)
+    rows.forEach(row => Object.assign(row, updates))
+  }
+
+  return respond(rows)
+}) as typeof fetch
+
+function placeOrder(orderId: string, intentId: string) {
+  orders.set(orderId, {
+    id: orderId,
+    status: 'pending',
+    payment_status: 'pending',
+    total_amount: '129.99',
+    store_credit_amount: '0',
+    currency: 'EUR',
+    stripe_payment_intent_id: intentId,
+    confirmation_email_sent_at: null,
+    created_at: new Date().toISOString(),
+    order_items: []
+  })
+}
+
+const isPaid = (orderId: string) => orders.get(orderId)?.payment_status === 'completed' && orders.get(orderId)?.status === 'processing'
+const isFailed = (orderId: string) => orders.get(orderId)?.payment_status === 'failed' && orders.get(orderId)?.status === 'cancelled'
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+async function main() {
+  const { SimulatorPaymentProvider, SIMULATOR_TEST_CARDS, setPaymentProvider } = await import('./src/lib/payments')
+  const { OrderService } = await import('./src/services/orders')
+  const { PaymentService } = await import('./src/services/payments')
+
+  const simulator = new SimulatorPaymentProvider({ autoDeliver: false })
+  setPaymentProvider(simulator)
+
+  const pay = async (orderId: string, details: Record<string, string>): Promise<{ intent: { id: string }, result: ProcessPaymentResult }> => {
+    const intent = await PaymentService.createPaymentIntent({ amount: 129.99, currency: 'EUR', orderId })
+    placeOrder(orderId, orderId === 'order-mismatch' ? 'pi_another_order' : intent.id)
+    const result = await PaymentService.processPayment({
+      paymentIntentId: intent.id,
+      paymentMethod: { type: 'card', details },
+      return_url: 'http://localhost:3000/order-success'
+    })
+    return { intent, result }
+  }
+
+  // Intent creation
+  const first = await PaymentService.createPaymentIntent({ amount: 129.99, currency: 'EUR', orderId: 'order-idem', idempotencyKey: 'key-1' })
+  const again = await PaymentService.createPaymentIntent({ amount: 129.99, currency: 'EUR', orderId: 'order-idem', idempotencyKey: 'key-1' })
+  check(first.amount === 12999 && first.currency === 'eur', 'Intent amount is stored in minor units')
+  check(first.id === again.id, 'Reusing an idempotency key returns the same intent')
+  check(/^pi_sim_\d{6}$/.test(first.id), 'Simulator intent ids are sequential')
+
+  const labelled = await PaymentService.createPaymentIntent({ amount: 10, orderId: 'order-own', metadata: { giftCardId: 'card-1', orderId: 'order-other', source: 'test' } })
+  check(
+    labelled.metadata?.orderId === 'order-own' && !labelled.metadata?.giftCardId && labelled.metadata?.source === 'test',
+    'Metadata cannot set the order or gift card an intent pays for'
+  )
+
+  // Immediate outcomes
+  const success = await pay('order-success', { cardNumber: SIMULATOR_TEST_CARDS.success })
+  check(success.result.success && success.result.status === 'succeeded', 'Success card pays immediately')
+  check(isPaid('order-success'), 'Successful payment completes the order')
+
+  const declined = await pay('order-declined', { cardNumber: SIMULATOR_TEST_CARDS.declined })
+  check(declined.result.status === 'failed' && declined.result.errorCode === 'card_declined', 'Declined card fails with card_declined')
+  check(isFailed('order-declined'), 'Declined payment fails the order')
+
+  const insufficient = await pay('order-funds', { cardNumber: '4000 0000 0000 9995' })
+  check(insufficient.result.errorCode === 'insufficient_funds', 'Insufficient funds card reports insufficient_funds')
+
+  const unknown = await pay('order-unknown', { cardNumber: '1234123412341234' })
+  check(unknown.result.errorCode === 'incorrect_number', 'Unknown card numbers are declined')
+
+  const token = await pay('order-token', { token: 'pm_card_visa' })
+  check(token.result.status === 'succeeded', 'Stripe test tokens map to simulator cards')
+
+  const repeat = await PaymentService.processPayment({
+    paymentIntentId: success.intent.id,
+    paymentMethod: { type: 'card', details: { cardNumber: SIMULATOR_TEST_CARDS.success } },
+    return_url: 'http://localhost:3000/order-success'
+  })
+  check(repeat.status === 'failed' && isPaid('order-success'), 'Confirming a paid intent again leaves the order alone')
+
+  failingUpdates.add('order-unsettled')
+  const unsettled = await pay('order-unsettled', { cardNumber: SIMULATOR_TEST_CARDS.success })
+  check(
+    unsettled.result.status === 'processing' && orders.get('order-unsettled')?.status === 'pending',
+    'A charged payment whose order cannot be completed keeps the order for retry'
+  )
+
+  const mismatch = await pay('order-mismatch', { cardNumber: SIMULATOR_TEST_CARDS.success })
+  check(
+    mismatch.result.errorCode === 'payment_mismatch' && orders.get('order-mismatch')?.payment_status === 'pending',
+    'An intent that does not match the order leaves it unpaid'
+  )
+
+  // Order payment matching
+  const order = { stripe_payment_intent_id: 'pi_1', total_amount: '150.00', store_credit_amount: '20.01', currency: 'EUR' }
+  check(OrderService.isOrderPaymentIntent(order, { id: 'pi_1', amount: 12999, currency: 'eur' }), 'Order intent for the card amount pays the order')
+  check(!OrderService.isOrderPaymentIntent(order, { id: 'pi_1', amount: 1, currency: 'eur' }), 'Underpaid intent does not pay the order')
+  check(!OrderService.isOrderPaymentIntent(order, { id: 'pi_2', amount: 12999, currency: 'eur' }), 'Another intent does not pay the order')
+  check(!OrderService.isOrderPaymentIntent(order, { id: 'pi_1', amount: 12999, currency: 'jpy' }), 'Intent in another currency does not pay the order')
+
+  // 3D Secure
+  const approve = await pay('order-3ds-approve', { cardNumber: SIMULATOR_TEST_CARDS.requiresAuthentication })
+  check(approve.result.status === 'requires_action' && approve.result.nextAction?.type === 'authenticate', 'Authentication card requires action')
+  check(!isPaid('order-3ds-approve'), 'Order is not completed before authentication')
+  const approved = await PaymentService.authenticatePayment(approve.intent.id, true)
+  check(approved.status === 'succeeded' && isPaid('order-3ds-approve'), 'Approved authentication completes the order')
+
+  const reject = await pay('order-3ds-reject', { token: 'pm_card_authenticationRequired' })
+  const rejected = await PaymentService.authenticatePayment(reject.intent.id, false)
+  check(
+    rejected.status === 'failed' && rejected.errorCode === 'payment_intent_authentication_failure',
+    'Declined authentication fails the payment'
+  )
+  check(isFailed('order-3ds-reject'), 'Declined authentication fails the order')
+
+  // Delayed outcomes arrive as events
+  const events: string[] = []
+  simulator.onEvent(event => {
+    events.push(`${event.type}:${event.intent?.metadata.orderId}`)
+  })
+
+  const delayedSuccess = await pay('order-delayed-ok', { cardNumber: SIMULATOR_TEST_CARDS.delayedSuccess })
+  const delayedDecline = await pay('order-delayed-no', { cardNumber: SIMULATOR_TEST_CARDS.delayedDecline })
+  check(delayedSuccess.result.status === 'processing' && delayedDecline.result.status === 'processing', 'Delayed cards start processing')
+  check(!isPaid('order-delayed-ok') && !isFailed('order-delayed-no'), 'Delayed orders stay pending until events arrive')
+
+  await simulator.flush()
+
+  check(isPaid('order-delayed-ok'), 'Delayed success event completes the order')
+  check(isFailed('order-delayed-no'), 'Delayed decline event fails the order')
+  check(
+    events.join(',') === [
+      'payment_intent.processing:order-delayed-ok',
+      'payment_intent.processing:order-delayed-no',
+      'payment_intent.succeeded:order-delayed-ok',
+      'payment_intent.payment_failed:order-delayed-no'
+    ].join(','),
+    'Events are delivered in order'
+  )
+  check((await PaymentService.retrievePaymentIntent(delayedSuccess.intent.id)).status === 'succeeded', 'Delayed intent ends succeeded')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All payment simulator checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,106 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Multi-Currency Pricing Test
+ * Validates FX rate selection, rate locking, order total conversion and Stripe minor units
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.PAYMENT_PROVIDER ||= 'simulator'
+
+import type { FxRate } from './src/types/pricing'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+function rate(quote: FxRate['quote_currency'], value: number, effectiveAt: string, id = `${quote}-${effectiveAt}`): FxRate {
+  return {
+    id,
+    base_currency: 'EUR',
+    quote_currency: quote,
+    rate: value,
+    source: 'admin',
+    effective_at: effectiveAt,
+    created_at: effectiveAt
+  }
+}
+
+async function main() {
+  const { PricingService, BASE_CURRENCY } = await import('./src/services/pricing')
+
+  const table = PricingService.buildRateTable([
+    rate('USD', 1.05, '2026-10-01T00:00:00Z'),
+    rate('USD', 1.08, '2026-10-15T00:00:00Z', 'usd-latest'),
+    rate('JPY', 161, '2026-10-15T00:00:00Z', 'jpy-latest')
+  ])
+
+  check(table.rates[BASE_CURRENCY]?.rate === 1, 'Base currency always converts at 1')
+  check(table.rates.USD?.rate === 1.08 && table.rates.USD?.id === 'usd-latest', 'Latest rate per currency wins')
+  check(table.rates.GBP === undefined, 'Currencies without a stored rate have no entry')
+
+  const locked = PricingService.lockRate('USD', table)
+  check(locked.currency === 'USD' && locked.rate === 1.08 && locked.rateId === 'usd-latest', 'Order locks the current rate and its id')
+
+  let missing = false
+  try {
+    PricingService.lockRate('GBP', table)
+  } catch {
+    missing = true
+  }
+  check(missing, 'Locking a currency without a rate fails')
+
+  const totals = PricingService.convertTotals({
+    items: [{ price: 179.99, quantity: 2 }, { price: 89.5, quantity: 1 }],
+    shipping: 9.99,
+    tax: 94.41
+  }, locked)
+  check(totals.unitPrices[0] === 194.39 && totals.unitPrices[1] === 96.66, 'Unit prices convert and round to cents')
+  check(totals.subtotal === 485.44, 'Subtotal sums the converted lines')
+  check(totals.total === Math.round((totals.subtotal + totals.shipping + totals.tax) * 100) / 100, 'Total matches its converted parts')
+
+  const yen = PricingService.convertTotals({ items: [{ price: 179.99, quantity: 1 }], shipping: 0, tax: 0 }, PricingService.lockRate('JPY', table))
+  check(yen.total === 28978, 'JPY amounts round to whole yen')
+
+  const lineShares = PricingService.convertTotals({
+    items: [{ price: 179.99, quantity: 2, discount: 36 }, { price: 89.5, quantity: 1, discount: 0 }],
+    shipping: 0,
+    tax: 0,
+    discounts: [36]
+  }, locked)
+  check(
+    lineShares.lineDiscounts[1] === 0 && lineShares.lineDiscounts[0] === lineShares.discount,
+    'Line discount shares convert with the item discount'
+  )
+
+  check(PricingService.toMinorUnits(194.39, 'usd') === 19439, 'USD is charged in cents')
+  check(PricingService.toMinorUnits(28978, 'JPY') === 28978, 'JPY is charged without a minor unit')
+
+  check(PricingService.formatPrice(28978, 'JPY') === '¥28,978', 'JPY formats without decimals')
+  check(PricingService.formatPrice(194.39, 'USD') === '$194.39', 'USD formats with cents')
+
+  const { PaymentService } = await import('./src/services/payments')
+  const intent = await PaymentService.createPaymentIntent({ amount: yen.total, currency: 'JPY', orderId: 'order-1' })
+  check(intent.currency === 'jpy' && intent.amount === 28978, 'Payment intent is created in the order currency')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All pricing checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,103 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Cross-Marketplace Product Matching Test
+ * Validates when a StockX or GOAT listing is merged into an existing product, queued for review or kept separate
+ */
+
+import { ProductMatcher, normalizeSku, type ProductMatchCandidate } from './src/lib/sync/product-matcher'
+import type { KicksDBProduct } from './src/types/kicksdb'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+const goatListing: KicksDBProduct = {
+  id: 'goat-1',
+  name: 'Air Jordan 1 Retro High OG Chicago Lost and Found',
+  slug: 'air-jordan-1-retro-high-og-chicago-lost-and-found',
+  brand: 'Jordan',
+  retailPrice: 180,
+  releaseDate: '2022-11-19',
+  colorway: 'Varsity Red/Black/Sail/Muslin',
+  images: [],
+  sku: 'DZ5485 612',
+  category: 'sneakers',
+  gender: 'men',
+  marketplace: 'goat',
+  market: {
+    lowestAsk: 320,
+    highestBid: 290,
+    lastSale: 305,
+    changeValue: 5,
+    changePercentage: 1.6,
+    volatility: 0.08,
+    deadstockSold: 1200,
+    annualHigh: 420,
+    annualLow: 250
+  },
+  sizes: []
+}
+
+const stockxProduct: ProductMatchCandidate = {
+  id: 'product-1',
+  kicksdb_id: 'stockx-1',
+  name: 'Air Jordan 1 Retro High OG Chicago Lost and Found',
+  brand_name: 'Jordan',
+  sku: 'DZ5485-612',
+  colorway: 'Varsity Red/Black/Sail/Muslin',
+  platforms: ['stockx']
+}
+
+async function main() {
+  const matcher = new ProductMatcher()
+
+  check(normalizeSku('DZ5485-612') === normalizeSku('dz5485 612'), 'Style codes compare equal across marketplace formats')
+  check(normalizeSku(' - ') === null, 'Blank style codes normalize to null')
+
+  const skuMatch = await matcher.match(goatListing, [stockxProduct])
+  check(skuMatch.action === 'merge' && skuMatch.productId === 'product-1', 'Same style code merges into the existing product')
+
+  const sameMarketplace = await matcher.match(goatListing, [{ ...stockxProduct, platforms: ['stockx', 'goat'] }])
+  check(sameMarketplace.action === 'create', 'A product already listed on the same marketplace is not a merge target')
+
+  const noSku = await matcher.match({ ...goatListing, sku: '' }, [{ ...stockxProduct, sku: null }])
+  check(noSku.action === 'merge' && noSku.similarity === 1, 'Identical name and brand merge when neither listing has a style code')
+
+  const conflictingSku = await matcher.match(goatListing, [{ ...stockxProduct, sku: 'DZ5485-610' }])
+  check(conflictingSku.action === 'review', 'Identical name with a different style code is queued for review')
+  check(conflictingSku.conflictingFields.includes('sku'), 'Review lists the conflicting style code')
+
+  const similar = await matcher.match(
+    { ...goatListing, sku: '', name: 'Jordan 1 Retro High OG Chicago Lost & Found' },
+    [{ ...stockxProduct, sku: null }]
+  )
+  check(similar.action === 'review' && similar.productId === 'product-1', 'Fuzzy match without a style code is queued for review')
+  check(similar.similarity >= 0.7 && similar.similarity < 1, 'Review carries the Levenshtein similarity')
+
+  const unrelated = await matcher.match(
+    { ...goatListing, sku: 'FQ8138-002', name: 'Nike Dunk Low Panda', colorway: 'White/Black' },
+    [stockxProduct]
+  )
+  check(unrelated.action === 'create', 'Unrelated listing creates a new product')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All product matching checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,98 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Product Search Test
+ * Validates the filter payload sent to the search RPCs and how price buckets and facet counts are read
+ * back from them
+ */
+
+import {
+  PRICE_BUCKET_EDGES,
+  priceBucketRange,
+  toProductFacets,
+  toSearchFilters
+} from './src/services/api/product-search'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+function main() {
+  console.log('🔎 Search filters\n')
+
+  const payload = toSearchFilters({
+    search: 'dunk',
+    brand: 'Nike',
+    brandIds: [],
+    colors: ['black'],
+    minPrice: 0,
+    maxPrice: undefined,
+    inStock: true,
+    featured: false,
+    marketplace: 'stockx'
+  })
+  check(!('search' in payload), 'The query is not part of the filters')
+  check(!('brandIds' in payload) && !('maxPrice' in payload), 'Empty lists and unset values are dropped')
+  check(payload.minPrice === 0 && payload.featured === false, 'Zero and false are kept')
+  check(payload.brand === 'Nike' && payload.marketplace === 'stockx' && payload.colors[0] === 'black', 'Set filters are passed through')
+
+  const euSizes = toSearchFilters({ sizes: ['42'], sizeSystem: 'EU', gender: 'men' })
+  check(euSizes.sizes.includes('8.5') && !euSizes.sizes.includes('42'), 'Sizes are converted to canonical US sizes')
+  check(!('sizeSystem' in euSizes), 'The size system is not sent')
+
+  const usSizes = toSearchFilters({ sizes: ['10'] })
+  check(usSizes.sizes.includes('10'), 'US sizes are kept as they are')
+
+  console.log('\n💶 Price buckets\n')
+
+  const first = priceBucketRange(0)
+  check(first.min === undefined && first.max === 99.99, 'The first bucket is everything below the first edge')
+
+  const middle = priceBucketRange(2)
+  check(middle.min === 150 && middle.max === 199.99, 'A middle bucket runs from its edge to just below the next')
+
+  const last = priceBucketRange(PRICE_BUCKET_EDGES.length)
+  check(last.min === 500 && last.max === undefined, 'The last bucket is open-ended')
+
+  console.log('\n📊 Facets\n')
+
+  const facets = toProductFacets({
+    total: 12,
+    brands: [{ id: 'b1', name: 'Nike', slug: 'nike', count: 9 }, { id: 'b2', name: 'Adidas', slug: 'adidas', count: 3 }],
+    sizes: [{ value: '10', count: 4 }, { value: '8.5', count: 6 }, { value: 'OS', count: 1 }, { value: '9', count: 5 }],
+    prices: [{ bucket: 1, count: 7 }, { bucket: 5, count: 2 }],
+    colors: [{ value: 'black', count: 8 }],
+    genders: [{ value: 'men', count: 10 }],
+    marketplaces: null
+  })
+  check(facets.total === 12, 'The total is read')
+  check(facets.brands[0].value === 'Nike' && facets.brands[0].slug === 'nike' && facets.brands[0].count === 9, 'Brands keep their id, name and slug')
+  check(facets.sizes.map(size => size.value).join(',') === '8.5,9,10,OS', 'Sizes are in size order')
+  check(facets.prices.length === PRICE_BUCKET_EDGES.length + 1, 'Every price bucket is listed')
+  check(facets.prices[0].count === 0 && facets.prices[1].count === 7 && facets.prices[5].count === 2, 'Empty price buckets count 0')
+  check(facets.prices[1].min === 100 && facets.prices[1].max === 149.99, 'Price buckets carry their range')
+  check(facets.marketplaces.length === 0, 'A missing facet is empty')
+
+  const empty = toProductFacets(null)
+  check(empty.total === 0 && empty.brands.length === 0, 'No result reads as no facets')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All product search checks passed${RESET}`)
+}
+
+main()
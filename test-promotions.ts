@@ -0,0 +1,156 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Promotions Test
+ * Validates percentage, fixed-amount, free-shipping and buy-X-get-Y discounts, targeting, minimum
+ * subtotals, date windows and how discounts reduce the taxed amounts of an order
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+
+import type { Promotion } from './src/types/promotion'
+import type { PricingRules } from './src/types/pricing'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+function promotion(overrides: Partial<Promotion>): Promotion {
+  return {
+    id: 'promo-1',
+    code: 'SAVE10',
+    name: 'Ten percent off',
+    description: null,
+    type: 'percentage',
+    value: 10,
+    buy_quantity: null,
+    get_quantity: null,
+    brand_ids: [],
+    category_ids: [],
+    product_ids: [],
+    min_subtotal: null,
+    usage_limit: null,
+    usage_limit_per_user: null,
+    starts_at: null,
+    ends_at: null,
+    is_active: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+const rules: PricingRules = {
+  zones: [{ id: 'eu', name: 'European Union', countries: ['DE'], is_active: true }],
+  rates: [{
+    id: 'eu-standard',
+    zone_id: 'eu',
+    carrier: 'DHL',
+    service_level: 'standard',
+    base_amount: 10,
+    per_item_amount: 0,
+    per_kg_amount: 0,
+    min_weight_kg: 0,
+    max_weight_kg: null,
+    min_quantity: 1,
+    max_quantity: null,
+    free_shipping_threshold: null,
+    estimated_days_min: null,
+    estimated_days_max: null,
+    is_active: true
+  }],
+  taxRules: [
+    { id: 'de-vat', country: 'DE', region: null, name: 'VAT', rate: 0.2, applies_to_shipping: true, is_active: true }
+  ]
+}
+
+function errorCode(fn: () => unknown): string | null {
+  try {
+    fn()
+    return null
+  } catch (error) {
+    return (error as { code?: string }).code || 'UNKNOWN'
+  }
+}
+
+async function main() {
+  const { applyPromotion, normalizePromotionCode, spreadDiscount } = await import('./src/lib/promotions')
+  const { OrderPricingService } = await import('./src/services/order-pricing')
+
+  const items = [
+    { productId: 'jordan', brandId: 'nike', categoryId: 'basketball', price: 200, quantity: 1 },
+    { productId: 'samba', brandId: 'adidas', categoryId: 'lifestyle', price: 100, quantity: 2 }
+  ]
+  const now = new Date('2026-06-01T12:00:00Z')
+
+  check(normalizePromotionCode('  save10 ') === 'SAVE10', 'Codes are trimmed and upper-cased')
+
+  check(applyPromotion(promotion({}), items, now).itemDiscount === 40, 'Percentage discounts apply to every item without targets')
+  check(applyPromotion(promotion({ brand_ids: ['adidas'] }), items, now).itemDiscount === 20, 'Brand targeting limits the discounted items')
+  check(applyPromotion(promotion({ category_ids: ['basketball'], product_ids: ['samba'] }), items, now).itemDiscount === 40, 'Items matching any target qualify')
+  check(errorCode(() => applyPromotion(promotion({ brand_ids: ['puma'] }), items, now)) === 'NO_ELIGIBLE_ITEMS', 'Codes that target nothing in the cart are rejected')
+
+  check(applyPromotion(promotion({ type: 'fixed_amount', value: 25 }), items, now).itemDiscount === 25, 'Fixed amounts come off the eligible items')
+  check(applyPromotion(promotion({ type: 'fixed_amount', value: 500, product_ids: ['jordan'] }), items, now).itemDiscount === 200, 'Fixed amounts never exceed the eligible items')
+
+  const freeShipping = applyPromotion(promotion({ type: 'free_shipping', value: 0 }), items, now)
+  check(freeShipping.freeShipping && freeShipping.itemDiscount === 0, 'Free shipping promotions discount no items')
+
+  const bogo = promotion({ type: 'buy_x_get_y', value: 100, buy_quantity: 1, get_quantity: 1 })
+  check(applyPromotion(bogo, items, now).itemDiscount === 100, 'Buy one get one discounts the cheapest pair of a group')
+  check(applyPromotion(bogo, [{ productId: 'samba', price: 100, quantity: 4 }], now).itemDiscount === 200, 'Every full group earns its free pair')
+  check(errorCode(() => applyPromotion(bogo, [{ productId: 'samba', price: 100, quantity: 1 }], now)) === 'NO_ELIGIBLE_ITEMS', 'Buy X get Y needs a full group')
+  const halfOff = promotion({ type: 'buy_x_get_y', value: 50, buy_quantity: 2, get_quantity: 1 })
+  check(applyPromotion(halfOff, items, now).itemDiscount === 50, 'Buy X get Y can discount by a percentage')
+
+  // Line shares, which refunds return per line
+  const same = (a: number[], b: number[]) => a.length === b.length && a.every((value, index) => value === b[index])
+  check(same(applyPromotion(promotion({}), items, now).lineDiscounts, [20, 20]), 'Percentage discounts are shared by line value')
+  check(same(applyPromotion(promotion({ brand_ids: ['adidas'] }), items, now).lineDiscounts, [0, 20]), 'Lines the promotion does not target get no share')
+  check(same(applyPromotion(bogo, items, now).lineDiscounts, [0, 100]), 'Buy X get Y discounts the lines the cheapest pairs came from')
+  check(same(spreadDiscount(10, [1, 1, 1]), [3.33, 3.33, 3.34]), 'Shares add up to the discount exactly')
+  check(same(spreadDiscount(0, [1, 2]), [0, 0]), 'No discount means no shares')
+
+  check(errorCode(() => applyPromotion(promotion({ min_subtotal: 500 }), items, now)) === 'MIN_SUBTOTAL', 'Orders under the minimum subtotal are rejected')
+  check(applyPromotion(promotion({ min_subtotal: 400, brand_ids: ['adidas'] }), items, now).itemDiscount === 20, 'The minimum subtotal counts the whole order')
+
+  check(errorCode(() => applyPromotion(promotion({ starts_at: '2026-07-01T00:00:00Z' }), items, now)) === 'NOT_STARTED', 'Promotions before their start date are rejected')
+  check(errorCode(() => applyPromotion(promotion({ ends_at: '2026-05-01T00:00:00Z' }), items, now)) === 'EXPIRED', 'Expired promotions are rejected')
+  check(errorCode(() => applyPromotion(promotion({ is_active: false }), items, now)) === 'NOT_FOUND', 'Inactive promotions look like unknown codes')
+
+  const input = { items, country: 'DE' }
+  const discounted = OrderPricingService.calculate(input, rules, promotion({}), now)
+  check(discounted.discount === 40 && discounted.discountLines.length === 1, 'Quotes carry a discount line for the items')
+  check(discounted.tax === 74, 'Tax is charged on the discounted subtotal and the shipping')
+  check(discounted.total === 400 + 10 - 40 + 74, 'Total subtracts the discount before adding tax')
+  check(discounted.lines[0].discount === 20 && discounted.lines[1].discount === 20, 'Quote lines carry their share of the discount')
+
+  const shipped = OrderPricingService.calculate(input, rules, promotion({ type: 'free_shipping', value: 0 }), now)
+  const shippingLine = shipped.discountLines.find(line => line.target === 'shipping')
+  check(shipped.shipping === 10 && shippingLine?.amount === 10, 'Free shipping is a discount line for the selected rate')
+  check(shipped.tax === 80 && shipped.total === 480, 'Discounted shipping is not taxed')
+
+  const plain = OrderPricingService.calculate(input, rules)
+  check(plain.discount === 0 && plain.discountLines.length === 0 && plain.total === 492, 'Quotes without a promotion are unchanged')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All promotion checks passed${RESET}`)
+}
+
+main()
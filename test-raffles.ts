@@ -0,0 +1,148 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Raffle Releases Test
+ * Validates that raffle draws are reproducible from the seed and checkable against its commitment,
+ * when entries are taken, and what a raffle schedule or entry must contain
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import {
+  MAX_CLAIM_MINUTES,
+  MIN_CLAIM_MINUTES,
+  drawOrder,
+  drawScore,
+  generateSeed,
+  rafflePhase,
+  seedCommitment,
+  verifyDraw
+} from './src/lib/raffles'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+async function main() {
+  const { RaffleService } = await import('./src/services/raffles')
+
+  console.log('\n🎲 Draws\n')
+
+  const seed = 'a'.repeat(64)
+  const entries = [
+    { id: 'entry-1', size: '10' },
+    { id: 'entry-2', size: '9' },
+    { id: 'entry-3', size: '10' },
+    { id: 'entry-4', size: '10' },
+    { id: 'entry-5', size: '9' }
+  ]
+
+  const order = drawOrder(seed, entries)
+  check(order.length === entries.length, 'Every entry is ranked')
+  check(
+    order.map(entry => entry.size).join() === '10,10,10,9,9',
+    'Entries are ranked within their size, sizes in order'
+  )
+  check(
+    order.filter(entry => entry.size === '10').map(entry => entry.rank).join() === '1,2,3',
+    'Ranks count from 1 within each size'
+  )
+  check(
+    order.every((entry, i) => i === 0 || order[i - 1].size !== entry.size || order[i - 1].score <= entry.score),
+    'Lower scores are drawn first'
+  )
+  check(
+    JSON.stringify(drawOrder(seed, [...entries].reverse())) === JSON.stringify(order),
+    'The order does not depend on the order of entry'
+  )
+  const crowd = Array.from({ length: 20 }, (_, i) => ({ id: `entry-${i}`, size: '10' }))
+  check(
+    drawOrder(generateSeed(), crowd).map(entry => entry.id).join() !== drawOrder(seed, crowd).map(entry => entry.id).join(),
+    'Another seed draws another order'
+  )
+  check(drawScore(seed, 'entry-1') === drawScore(seed, 'entry-1'), 'Scores are deterministic')
+  check(drawOrder(seed, []).length === 0, 'A raffle without entries draws nobody')
+
+  console.log('\n🔐 Commitments\n')
+
+  const fresh = generateSeed()
+  check(/^[0-9a-f]{64}$/.test(fresh) && fresh !== generateSeed(), 'Seeds are 32 random bytes in hex')
+  check(/^[0-9a-f]{64}$/.test(seedCommitment(fresh)), 'The commitment is a sha256 digest')
+
+  const recorded = order.map(entry => ({ id: entry.id, size: entry.size, rank: entry.rank }))
+  check(verifyDraw(seed, seedCommitment(seed), recorded), 'A recorded draw verifies against the revealed seed')
+  check(!verifyDraw(fresh, seedCommitment(seed), recorded), 'A seed that does not match the commitment fails')
+  check(
+    !verifyDraw(seed, seedCommitment(seed), recorded.map(entry => entry.rank === 1 ? { ...entry, rank: 2 } : entry.rank === 2 ? { ...entry, rank: 1 } : entry)),
+    'Swapped ranks fail verification'
+  )
+
+  console.log('\n🗓️  Entry window\n')
+
+  const timing = { status: 'scheduled' as const, entry_opens_at: '2026-10-20T10:00:00Z', entry_closes_at: '2026-10-21T10:00:00Z' }
+  check(rafflePhase(timing, new Date('2026-10-20T09:59:59Z')) === 'upcoming', 'Before the window the raffle is upcoming')
+  check(rafflePhase(timing, new Date('2026-10-20T10:00:00Z')) === 'open', 'Entries open at the opening time')
+  check(rafflePhase(timing, new Date('2026-10-21T10:00:00Z')) === 'closed', 'Entries close at the closing time')
+  check(rafflePhase({ ...timing, status: 'drawn' }, new Date('2026-10-20T12:00:00Z')) === 'drawn', 'A drawn raffle is drawn')
+  check(rafflePhase({ ...timing, status: 'cancelled' }) === 'cancelled', 'A cancelled raffle is cancelled')
+
+  console.log('\n📝 Schedules and entries\n')
+
+  const future = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+  check(
+    RaffleService.validateSchedule({ productId: 'p-1', entryOpensAt: future(1), entryClosesAt: future(25) }) === null,
+    'A window in the future is accepted'
+  )
+  check(
+    RaffleService.validateSchedule({ productId: 'p-1', entryOpensAt: future(-1), entryClosesAt: future(2), claimMinutes: 30 }) === null,
+    'A window that is already open is accepted'
+  )
+  check(RaffleService.validateSchedule({ entryOpensAt: future(1), entryClosesAt: future(2) }) !== null, 'A product is required')
+  check(RaffleService.validateSchedule({ productId: 'p-1', entryOpensAt: 'soon', entryClosesAt: future(2) }) !== null, 'Invalid times are rejected')
+  check(
+    RaffleService.validateSchedule({ productId: 'p-1', entryOpensAt: future(2), entryClosesAt: future(1) }) !== null,
+    'Entries must close after they open'
+  )
+  check(
+    RaffleService.validateSchedule({ productId: 'p-1', entryOpensAt: future(-2), entryClosesAt: future(-1) }) !== null,
+    'A window that has already closed is rejected'
+  )
+  check(
+    RaffleService.validateSchedule({ productId: 'p-1', entryOpensAt: future(1), entryClosesAt: future(2), claimMinutes: MIN_CLAIM_MINUTES - 1 }) !== null,
+    'Claims shorter than the minimum are rejected'
+  )
+  check(
+    RaffleService.validateSchedule({ productId: 'p-1', entryOpensAt: future(1), entryClosesAt: future(2), claimMinutes: MAX_CLAIM_MINUTES + 1 }) !== null,
+    'Claims longer than the maximum are rejected'
+  )
+  check(
+    RaffleService.validateSchedule({ productId: 'p-1', entryOpensAt: future(1), entryClosesAt: future(2), claimMinutes: 12.5 }) !== null,
+    'Claim time must be whole minutes'
+  )
+
+  check(RaffleService.validateEntry({ raffleId: 'r-1', size: '10' }) === null, 'An entry for a size is accepted')
+  check(RaffleService.validateEntry({ size: '10' }) !== null, 'A raffle is required')
+  check(RaffleService.validateEntry({ raffleId: 'r-1', size: ' ' }) !== null, 'A blank size is rejected')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All raffle checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,177 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Refund Test
+ * Validates refund amounts for full and per-line refunds and simulator refund handling
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import type { RefundableOrder } from './src/services/refunds'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+// Two pairs at 150.00 and one at 89.99, 9.90 shipping, 19% tax on goods and shipping
+const order: RefundableOrder = {
+  id: 'order-1',
+  orderNumber: 'SX-00000001',
+  userId: 'user-1',
+  currency: 'EUR',
+  total: 475.87,
+  refundedAmount: 0,
+  storeCreditAmount: 0,
+  creditRefundedAmount: 0,
+  paymentStatus: 'completed',
+  paymentIntentId: 'pi_sim_000001',
+  taxRate: 0.19,
+  customerEmail: 'sam@example.com',
+  customerName: 'Sam',
+  items: [
+    { id: 'item-a', productId: 'p1', productName: 'Dunk Low', productBrand: 'Nike', size: '9', quantity: 2, refundedQuantity: 0, unitPrice: 150, discountAmount: 0 },
+    { id: 'item-b', productId: 'p2', productName: 'Samba', productBrand: 'Adidas', size: '10.5', quantity: 1, refundedQuantity: 0, unitPrice: 89.99, discountAmount: 0 }
+  ]
+}
+
+async function main() {
+  const { RefundService, RefundError, RefundErrorCode } = await import('./src/services/refunds')
+  const { SimulatorPaymentProvider, SIMULATOR_TEST_CARDS } = await import('./src/lib/payments')
+
+  const expectError = (fn: () => unknown, code: string) => {
+    try {
+      fn()
+      return false
+    } catch (error) {
+      return error instanceof RefundError && error.code === code
+    }
+  }
+
+  // Full refunds
+  const full = RefundService.planRefund(order)
+  check(full.full && full.amount === 475.87, 'Full refund returns the whole order total')
+  check(full.lines.length === 2 && full.lines[0].quantity === 2, 'Full refund covers every unit')
+
+  // Per-line refunds
+  const one = RefundService.planRefund(order, [{ orderItemId: 'item-a', quantity: 1 }])
+  check(!one.full && one.amount === 178.5, 'One unit is refunded at its price plus tax')
+
+  const merged = RefundService.planRefund(order, [
+    { orderItemId: 'item-a', quantity: 1 },
+    { orderItemId: 'item-a', quantity: 1 }
+  ])
+  check(merged.lines.length === 1 && merged.lines[0].quantity === 2 && merged.amount === 357, 'Repeated lines are merged')
+
+  const allLines = RefundService.planRefund(order, [
+    { orderItemId: 'item-a', quantity: 2 },
+    { orderItemId: 'item-b', quantity: 1 }
+  ])
+  check(allLines.full && allLines.amount === 475.87, 'Selecting every remaining unit also refunds shipping')
+
+  // Discounted lines: buy one get one free took 150.00 off the Dunk Low line, so the order was 297.37
+  const discounted: RefundableOrder = {
+    ...order,
+    total: 297.37,
+    items: [{ ...order.items[0], discountAmount: 150 }, order.items[1]]
+  }
+  const discountedUnit = RefundService.planRefund(discounted, [{ orderItemId: 'item-a', quantity: 1 }])
+  check(discountedUnit.amount === 89.25, 'A discounted unit is refunded at its share of what was paid for the line')
+  const undiscounted = RefundService.planRefund(discounted, [{ orderItemId: 'item-b', quantity: 1 }])
+  check(undiscounted.amount === 107.09, 'Lines the promotion did not touch are refunded in full')
+
+  // Earlier refunds
+  const partlyRefunded: RefundableOrder = {
+    ...order,
+    refundedAmount: 178.5,
+    paymentStatus: 'partially_refunded',
+    items: [{ ...order.items[0], refundedQuantity: 1 }, order.items[1]]
+  }
+  const rest = RefundService.planRefund(partlyRefunded)
+  check(rest.amount === 297.37 && rest.lines[0].quantity === 1, 'Full refund after a partial one returns what is left')
+
+  const shippingOnly = RefundService.planRefund({
+    ...order,
+    refundedAmount: 464.09,
+    items: order.items.map(item => ({ ...item, refundedQuantity: item.quantity }))
+  })
+  check(shippingOnly.lines.length === 0 && shippingOnly.amount === 11.78, 'Shipping left after refunding every item can be refunded')
+
+  check(
+    expectError(() => RefundService.planRefund(partlyRefunded, [{ orderItemId: 'item-a', quantity: 2 }]), RefundErrorCode.QUANTITY_EXCEEDED),
+    'Refunding more units than remain is rejected'
+  )
+  check(
+    expectError(() => RefundService.planRefund(order, [{ orderItemId: 'item-x', quantity: 1 }]), RefundErrorCode.INVALID_REQUEST),
+    'Unknown order items are rejected'
+  )
+  check(
+    expectError(() => RefundService.planRefund(order, [{ orderItemId: 'item-a', quantity: 0.5 }]), RefundErrorCode.INVALID_REQUEST),
+    'Fractional quantities are rejected'
+  )
+  check(
+    expectError(() => RefundService.planRefund({ ...order, refundedAmount: order.total }), RefundErrorCode.NOT_REFUNDABLE),
+    'Fully refunded orders cannot be refunded again'
+  )
+
+  // Simulator refunds
+  const simulator = new SimulatorPaymentProvider({ autoDeliver: false })
+  const events: Array<{ type: string, amountRefunded?: number }> = []
+  simulator.onEvent(event => {
+    events.push({ type: event.type, amountRefunded: event.refund?.amountRefunded })
+  })
+
+  const intent = await simulator.createIntent({ amount: 47587, currency: 'eur' })
+  let unpaidRejected = false
+  try {
+    await simulator.refundIntent({ intentId: intent.id, amount: 100 })
+  } catch {
+    unpaidRejected = true
+  }
+  check(unpaidRejected, 'Unpaid intents cannot be refunded')
+
+  await simulator.confirmIntent(intent.id, { paymentMethod: { type: 'card', cardNumber: SIMULATOR_TEST_CARDS.success } })
+
+  const partial = await simulator.refundIntent({ intentId: intent.id, amount: 17850, idempotencyKey: 'refund-1' })
+  const retried = await simulator.refundIntent({ intentId: intent.id, amount: 17850, idempotencyKey: 'refund-1' })
+  check(partial.status === 'succeeded' && partial.amount === 17850, 'Partial refund succeeds')
+  check(partial.id === retried.id, 'Retrying a refund with the same key does not refund twice')
+
+  let overRefundRejected = false
+  try {
+    await simulator.refundIntent({ intentId: intent.id, amount: 40000 })
+  } catch {
+    overRefundRejected = true
+  }
+  check(overRefundRejected, 'Refunds beyond the amount paid are rejected')
+
+  const remainder = await simulator.refundIntent({ intentId: intent.id })
+  check(remainder.amount === 29737, 'Refund without an amount returns the rest')
+
+  await simulator.flush()
+  check(
+    events.length === 2 && events.every(event => event.type === 'charge.refunded') && events[1].amountRefunded === 47587,
+    'charge.refunded events report the running refunded total'
+  )
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All refund checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,112 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Returns Test
+ * Validates return request checks, returnable quantities, return numbers and return label references
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import type { ReturnRequestInput } from './src/services/returns'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+const request: ReturnRequestInput = {
+  orderId: 'order-1',
+  orderItemId: 'item-a',
+  quantity: 1,
+  reason: 'wrong_size',
+  details: 'Runs half a size small'
+}
+
+const photo = { name: 'box.jpg', type: 'image/jpeg', size: 200 * 1024 }
+
+async function main() {
+  const {
+    ReturnService,
+    ReturnError,
+    ReturnErrorCode,
+    MAX_RETURN_PHOTOS,
+    MAX_RETURN_PHOTO_BYTES
+  } = await import('./src/services/returns')
+
+  const expectError = (fn: () => unknown, code: string) => {
+    try {
+      fn()
+      return false
+    } catch (error) {
+      return error instanceof ReturnError && error.code === code
+    }
+  }
+
+  let valid = true
+  try {
+    ReturnService.validateRequest(request, [photo, photo])
+  } catch {
+    valid = false
+  }
+  check(valid, 'A request with a reason, quantity and photos is accepted')
+
+  check(
+    expectError(() => ReturnService.validateRequest({ ...request, reason: 'toString' as any }, []), ReturnErrorCode.INVALID_REQUEST),
+    'Unknown reasons are rejected'
+  )
+  check(
+    expectError(() => ReturnService.validateRequest({ ...request, quantity: 0 }, []), ReturnErrorCode.INVALID_REQUEST),
+    'Zero quantity is rejected'
+  )
+  check(
+    expectError(() => ReturnService.validateRequest({ ...request, quantity: 1.5 }, []), ReturnErrorCode.INVALID_REQUEST),
+    'Fractional quantity is rejected'
+  )
+  check(
+    expectError(() => ReturnService.validateRequest(request, Array(MAX_RETURN_PHOTOS + 1).fill(photo)), ReturnErrorCode.INVALID_REQUEST),
+    `More than ${MAX_RETURN_PHOTOS} photos are rejected`
+  )
+  check(
+    expectError(() => ReturnService.validateRequest(request, [{ ...photo, name: 'notes.pdf', type: 'application/pdf' }]), ReturnErrorCode.INVALID_REQUEST),
+    'Non-image attachments are rejected'
+  )
+  check(
+    expectError(() => ReturnService.validateRequest(request, [{ ...photo, size: MAX_RETURN_PHOTO_BYTES + 1 }]), ReturnErrorCode.INVALID_REQUEST),
+    'Photos over 5 MB are rejected'
+  )
+
+  check(ReturnService.returnableQuantity(2, 0, []) === 2, 'Every unit of an untouched line can be returned')
+  check(ReturnService.returnableQuantity(3, 1, [{ quantity: 1 }]) === 1, 'Refunded units and open returns are not returnable again')
+  check(ReturnService.returnableQuantity(1, 0, [{ quantity: 1 }]) === 0, 'A line with an open return for all units has nothing left')
+
+  const label = ReturnService.generateLabelReference('RMA-12345678')
+  check(/^RL-12345678-[0-9A-F]{6}$/.test(label), 'Return label references carry the RMA number')
+  check(label !== ReturnService.generateLabelReference('RMA-12345678'), 'Each label reference is unique')
+
+  const { generateOrderNumber, generateRmaNumber } = await import('./src/lib/orders')
+  const rmaNumbers = new Set(Array.from({ length: 1000 }, () => generateRmaNumber()))
+  check(rmaNumbers.size === 1000, 'Return numbers drawn together do not repeat')
+  check([...rmaNumbers].every(number => /^RMA-[A-HJKMNP-Z2-9]{8}$/.test(number)), 'Return numbers avoid characters that read alike')
+  check(/^SX-[A-HJKMNP-Z2-9]{8}$/.test(generateOrderNumber()), 'Order numbers use the same codes')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All return checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,87 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Search Suggestions Test
+ * Validates how autocomplete rows are grouped and ranked, and how synonyms are normalized and checked
+ * before they are saved
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import { toSearchSuggestions } from './src/services/api/product-search'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+async function main() {
+  const { SearchSynonymService, normalizeSearchTerm } = await import('./src/services/search-synonyms')
+
+  console.log('\n🔎 Suggestions\n')
+
+  const rows = [
+    { kind: 'product', ref_id: 'p-1', label: 'Air Jordan 1 Retro High OG Chicago', ref_slug: null, popularity: 120 },
+    { kind: 'brand', ref_id: 'b-2', label: 'Nike', ref_slug: 'nike', popularity: 300 },
+    { kind: 'query', ref_id: null, label: 'air jordan 1', ref_slug: null, popularity: 4 },
+    { kind: 'product', ref_id: 'p-2', label: 'Air Jordan 1 Retro High OG Bred', ref_slug: null, popularity: 450 },
+    { kind: 'brand', ref_id: 'b-1', label: 'Jordan', ref_slug: 'jordan', popularity: 800 },
+    { kind: 'query', ref_id: null, label: 'air jordan 1', ref_slug: null, popularity: 1 },
+    { kind: 'query', ref_id: null, label: 'air jordan 11', ref_slug: null, popularity: 9 }
+  ]
+
+  const suggestions = toSearchSuggestions(rows, 10)
+  check(
+    suggestions.map(s => s.type).join(',') === 'query,query,brand,brand,product,product',
+    'Searches come first, then brands, then products'
+  )
+  check(
+    suggestions[0].text === 'air jordan 11' && suggestions[1].text === 'air jordan 1',
+    'Searches are ranked by popularity'
+  )
+  check(suggestions.filter(s => s.text === 'air jordan 1').length === 1, 'A search is suggested once')
+  check(suggestions[2].text === 'Jordan' && suggestions[2].slug === 'jordan', 'Brands carry their slug')
+  check(suggestions[2].count === 800, 'Brands show their product count')
+  check(suggestions[4].id === 'p-2', 'The best-selling product is suggested first')
+
+  const limited = toSearchSuggestions(rows, 3)
+  check(limited.length === 3 && limited[2].type === 'brand', 'Suggestions stop at the limit')
+
+  const manyBrands = Array.from({ length: 5 }, (_, i) => ({
+    kind: 'brand', ref_id: `b-${i}`, label: `Brand ${i}`, ref_slug: `brand-${i}`, popularity: i
+  }))
+  const withProducts = toSearchSuggestions([...manyBrands, ...rows.filter(r => r.kind === 'product')], 10)
+  check(withProducts.filter(s => s.type === 'brand').length === 3, 'At most three brands are suggested')
+  check(withProducts.filter(s => s.type === 'product').length === 2, 'Products fill the remaining slots')
+
+  console.log('\n📝 Synonyms\n')
+
+  check(normalizeSearchTerm('  AJ-1 ') === 'aj 1', 'Terms are lowercased and punctuation becomes spaces')
+  check(normalizeSearchTerm('Yeezy   Boost 350') === 'yeezy boost 350', 'Repeated spaces collapse')
+  check(SearchSynonymService.validate('aj1', 'air jordan 1') === null, 'A term and expansion are accepted')
+  check(SearchSynonymService.validate('', 'air jordan 1') !== null, 'A term is required')
+  check(SearchSynonymService.validate('aj1', '') !== null, 'An expansion is required')
+  check(SearchSynonymService.validate('bred', 'bred') !== null, 'A term cannot expand to itself')
+  check(SearchSynonymService.validate('x'.repeat(101), 'air jordan 1') !== null, 'Long terms are rejected')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All search suggestion checks passed${RESET}`)
+}
+
+main()
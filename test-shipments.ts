@@ -0,0 +1,77 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Shipments Test
+ * Validates split shipment quantities and the order status derived from what has shipped
+ */
+
+import type { FulfilmentLine } from './src/lib/orders'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+// Two pairs of one size, one pair of another (restocked later), one pair refunded before shipping
+const lines: FulfilmentLine[] = [
+  { id: 'item-a', quantity: 2, refundedQuantity: 0, shippedQuantity: 0 },
+  { id: 'item-b', quantity: 1, refundedQuantity: 0, shippedQuantity: 0 },
+  { id: 'item-c', quantity: 1, refundedQuantity: 1, shippedQuantity: 0 }
+]
+
+async function main() {
+  const { planShipment, unshippedQuantity, fulfilmentStatus, ShipmentPlanError } = await import('./src/lib/orders')
+
+  function errorCode(run: () => unknown): string | null {
+    try {
+      run()
+      return null
+    } catch (error) {
+      return error instanceof ShipmentPlanError ? error.code : 'UNEXPECTED'
+    }
+  }
+
+  check(unshippedQuantity(lines[0]) === 2, 'Nothing has shipped yet')
+  check(unshippedQuantity(lines[2]) === 0, 'Units refunded before shipping are never sent')
+
+  const first = planShipment(lines, [{ orderItemId: 'item-a', quantity: 2 }, { orderItemId: 'item-b', quantity: 0 }])
+  check(first.length === 1 && first[0].quantity === 2, 'Lines with nothing to send are left out of the shipment')
+
+  const merged = planShipment(lines, [{ orderItemId: 'item-a', quantity: 1 }, { orderItemId: 'item-a', quantity: 1 }])
+  check(merged.length === 1 && merged[0].quantity === 2, 'Repeated lines for one item are merged')
+
+  check(errorCode(() => planShipment(lines, [])) === 'EMPTY', 'A shipment needs at least one item')
+  check(errorCode(() => planShipment(lines, [{ orderItemId: 'item-a', quantity: 3 }])) === 'QUANTITY_EXCEEDED', 'More units than ordered cannot ship')
+  check(errorCode(() => planShipment(lines, [{ orderItemId: 'item-c', quantity: 1 }])) === 'QUANTITY_EXCEEDED', 'Refunded units cannot ship')
+  check(errorCode(() => planShipment(lines, [{ orderItemId: 'item-z', quantity: 1 }])) === 'UNKNOWN_ITEM', 'Items from other orders cannot ship')
+  check(errorCode(() => planShipment(lines, [{ orderItemId: 'item-a', quantity: 1.5 }])) === 'INVALID_QUANTITY', 'Quantities must be whole units')
+
+  const afterFirst = lines.map(line => line.id === 'item-a' ? { ...line, shippedQuantity: 2 } : line)
+  check(fulfilmentStatus(afterFirst) === 'partially_shipped', 'An order with units left to ship is partially shipped')
+  check(
+    errorCode(() => planShipment(afterFirst, [{ orderItemId: 'item-a', quantity: 1 }])) === 'QUANTITY_EXCEEDED',
+    'Units already shipped cannot ship again'
+  )
+
+  const afterSecond = afterFirst.map(line => line.id === 'item-b' ? { ...line, shippedQuantity: 1 } : line)
+  check(fulfilmentStatus(afterSecond) === 'shipped', 'The order is shipped once everything left has shipped')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All shipment checks passed${RESET}`)
+}
+
+main()
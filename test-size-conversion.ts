@@ -0,0 +1,79 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Size Conversion Test
+ * Validates brand- and gender-aware conversion between US, UK, EU, CM and JP sizing
+ */
+
+import {
+  SIZE_SYSTEMS,
+  canonicalSizesFor,
+  compareSizes,
+  convertSize,
+  formatSize,
+  getChartBrand,
+  getSizeChart,
+  toCanonicalSize
+} from './src/lib/sizing'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+async function main() {
+  const jordan = { brand: 'Jordan', gender: 'men' }
+  const adidas = { brand: 'adidas', gender: 'men' }
+
+  check(getChartBrand('Air Jordan') === 'nike', 'Jordan uses the Nike chart')
+  check(getChartBrand('Unknown Brand') === 'nike', 'Unknown brands fall back to the default chart')
+  check(getSizeChart({ brand: 'New Balance', gender: 'women' }).id === 'new-balance-women', 'Chart is picked by brand and gender')
+
+  check(convertSize('10', 'US', 'EU', jordan) === '44', 'Nike men US 10 is EU 44')
+  check(convertSize('10', 'US', 'EU', adidas) === '44', 'adidas men US 10 is EU 44')
+  check(convertSize('9', 'US', 'EU', adidas) === '42 2/3', 'adidas keeps fractional EU sizes')
+  check(convertSize('10', 'US', 'UK', adidas) === '9.5', 'adidas men UK runs half a size below US')
+  check(convertSize('10', 'US', 'JP', jordan) === '28', 'JP sizing is the foot length in centimetres')
+  check(convertSize('8', 'US', 'EU', { brand: 'Nike', gender: 'women' }) === '39', 'Women use the women\'s chart')
+  check(convertSize('20', 'US', 'EU', jordan) === null, 'Sizes outside the chart do not convert')
+
+  check(toCanonicalSize('EU 44', jordan, 'EU') === '10', 'EU size maps back to the canonical US size')
+  check(toCanonicalSize('US 10.0', jordan) === '10', 'US sizes are normalized')
+  check(toCanonicalSize('42 2/3', adidas, 'EU') === '9', 'Fractional EU sizes map back to US')
+  check(toCanonicalSize('OS', jordan) === 'OS', 'Unknown sizes are kept as-is')
+
+  check(formatSize('10', 'US', jordan) === 'US 10', 'Men\'s US label')
+  check(formatSize('8', 'US', { brand: 'Nike', gender: 'women' }) === 'US W 8', 'Women\'s US label')
+  check(formatSize('5', 'US', { brand: 'Nike', gender: 'kids' }) === 'US 5Y', 'Kids US label')
+  check(formatSize('10', 'EU', jordan) === 'EU 44', 'EU label')
+  check(formatSize('10.0', 'CM', jordan) === 'CM 28', 'Stored sizes with trailing zeros still format')
+  check(formatSize('OS', 'EU', jordan) === 'OS', 'Unknown sizes fall back to the stored value')
+
+  const eu44 = canonicalSizesFor(['44'], 'EU', 'men')
+  check(eu44.includes('10') && !eu44.includes('44'), 'EU filter resolves to canonical US stock sizes')
+  check(canonicalSizesFor(['10'], 'US').includes('10'), 'US filter keeps its own sizes')
+
+  const sorted = ['10.5', 'OS', '4', '10'].sort(compareSizes)
+  check(sorted.join(',') === '4,10,10.5,OS', 'Sizes sort numerically with non-numeric sizes last')
+
+  check(SIZE_SYSTEMS.every(system => getSizeChart(jordan).rows.every(row => !!row[system])), 'Every chart row has every size system')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All size conversion checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,192 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Stock Waitlist RPC Test
+ * Runs the waitlist queue in the database (needs Supabase with the service role key): restocks go to
+ * the queue first come, first served, one unit per user, an expired or declined offer passes its unit
+ * to the next in line and, with nobody waiting, the unit goes back on sale
+ */
+
+import 'dotenv/config'
+import { createClient } from '@supabase/supabase-js'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+const TTL_MINUTES = 30
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+  auth: { autoRefreshToken: false, persistSession: false }
+})
+
+// A size no real stock uses, so the test owns its stock row and queue
+const size = `TEST-WL-${Date.now()}`
+const userIds: string[] = []
+let productId: string
+
+async function stockLevel() {
+  const { data, error } = await supabase
+    .from('product_stock')
+    .select('quantity, reserved_quantity')
+    .eq('product_id', productId)
+    .eq('size', size)
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+async function entry(id: string) {
+  const { data, error } = await supabase.from('stock_waitlist').select('*').eq('id', id).single()
+  if (error) throw error
+  return data
+}
+
+async function restock(quantity: number) {
+  const { data, error } = await supabase.rpc('restock_product_stock', {
+    p_product_id: productId,
+    p_size: size,
+    p_quantity: quantity,
+    p_reason: 'Waitlist RPC test',
+    p_user_id: null,
+    p_ttl_minutes: TTL_MINUTES
+  })
+
+  if (error) throw error
+  return data as { new_quantity: number; offers: Array<{ id: string; user_id: string; reservation_id: string }> }
+}
+
+async function pass(entryId: string, status: 'expired' | 'cancelled') {
+  const { data, error } = await supabase.rpc('pass_waitlist_offer', {
+    p_entry_id: entryId,
+    p_status: status,
+    p_ttl_minutes: TTL_MINUTES
+  })
+
+  if (error) throw error
+  return data as { id: string; user_id: string; reservation_id: string } | null
+}
+
+async function main() {
+  const { data: product, error: productError } = await supabase.from('products').select('id').limit(1).single()
+  if (productError) throw productError
+  productId = product.id
+
+  for (const name of ['first', 'second', 'third']) {
+    const { data, error } = await supabase.auth.admin.createUser({
+      email: `waitlist-${name}-${Date.now()}@example.com`,
+      email_confirm: true
+    })
+    if (error) throw error
+    userIds.push(data.user.id)
+  }
+
+  const { error: stockError } = await supabase
+    .from('product_stock')
+    .insert({ product_id: productId, size, quantity: 0, reserved_quantity: 0 })
+  if (stockError) throw stockError
+
+  // Joined a minute apart, first to third
+  const joined = new Date(Date.now() - 60 * 60 * 1000)
+  const { data: places, error: joinError } = await supabase
+    .from('stock_waitlist')
+    .insert(userIds.map((userId, index) => ({
+      product_id: productId,
+      size,
+      user_id: userId,
+      created_at: new Date(joined.getTime() + index * 60 * 1000).toISOString()
+    })))
+    .select('id, user_id')
+  if (joinError) throw joinError
+
+  const placeOf = (userId: string) => places!.find(place => place.user_id === userId)!.id
+  const [first, second, third] = userIds
+
+  console.log('\n🙋 Joining\n')
+
+  const { error: duplicateError } = await supabase
+    .from('stock_waitlist')
+    .insert({ product_id: productId, size, user_id: first })
+  check(duplicateError?.code === '23505', 'A user holds one place per size')
+
+  console.log('\n📦 Restock offers\n')
+
+  const restocked = await restock(2)
+  check(restocked.new_quantity === 2, 'The restock adds its units')
+  check(
+    restocked.offers.map(offer => offer.user_id).join(',') === [first, second].join(','),
+    'Two units go to the first two in line, in queue order'
+  )
+  check(new Set(restocked.offers.map(offer => offer.reservation_id)).size === 2, 'Each offer holds its own unit')
+
+  let stock = await stockLevel()
+  check(stock.reserved_quantity === 2, 'Offered units are held, not on sale')
+  check((await entry(placeOf(third))).status === 'waiting', 'The third in line keeps waiting')
+
+  console.log('\n🔁 Passing offers down\n')
+
+  const passed = await pass(placeOf(first), 'expired')
+  check(passed?.user_id === third, 'An expired offer passes its unit to the next in line')
+  check(
+    passed?.reservation_id === restocked.offers[0].reservation_id,
+    'The unit passes without going back on sale'
+  )
+  check((await entry(placeOf(first))).status === 'expired', 'The expired place is closed')
+
+  stock = await stockLevel()
+  check(stock.reserved_quantity === 2, 'Passing an offer keeps its unit held')
+
+  const released = await pass(placeOf(second), 'cancelled')
+  check(released === null, 'A declined offer with nobody waiting passes to no one')
+
+  stock = await stockLevel()
+  check(stock.quantity - stock.reserved_quantity === 1, 'Its unit goes back on sale')
+
+  console.log('\n🏪 Empty queue\n')
+
+  const unqueued = await restock(1)
+  check(unqueued.offers.length === 0, 'A restock with nobody waiting makes no offers')
+
+  stock = await stockLevel()
+  check(stock.quantity - stock.reserved_quantity === 2, 'Its units go straight on sale')
+}
+
+async function cleanup() {
+  if (productId) {
+    await supabase.from('stock_waitlist').delete().eq('product_id', productId).eq('size', size)
+    await supabase.from('stock_reservations').delete().eq('product_id', productId).eq('size', size)
+    await supabase.from('inventory_moves').delete().eq('product_id', productId).eq('size', size)
+    await supabase.from('product_stock').delete().eq('product_id', productId).eq('size', size)
+  }
+  for (const userId of userIds) {
+    await supabase.auth.admin.deleteUser(userId)
+  }
+}
+
+main()
+  .catch(error => {
+    failures++
+    console.error(`${RED}✗ Waitlist RPC test failed:${RESET}`, error)
+  })
+  .finally(async () => {
+    await cleanup()
+
+    if (failures > 0) {
+      console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+      process.exit(1)
+    }
+
+    console.log(`\n${GREEN}🎉 All stock waitlist RPC checks passed${RESET}`)
+  })
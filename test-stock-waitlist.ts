@@ -0,0 +1,64 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Stock Waitlist Test
+ * Validates what it takes to join the waitlist for a sold-out size and how long offers are held.
+ * The queue itself runs in the database: see test-stock-waitlist-rpc.ts
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import { toCanonicalSize } from './src/lib/sizing'
+import { availableUnits } from './src/lib/stock/waitlist'
+import type { WaitlistInput } from './src/services/stock-waitlist'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+async function main() {
+  const { StockWaitlistService } = await import('./src/services/stock-waitlist')
+  const { WAITLIST_OFFER_MINUTES } = await import('./src/lib/stock/manager')
+
+  console.log('\n⏳ Joining\n')
+
+  const input: WaitlistInput = { productId: 'p-1', size: '10' }
+  check(StockWaitlistService.validate(input) === null, 'A product and size are accepted')
+  check(StockWaitlistService.validate({ productId: 'p-1', size: 'EU 44' }) === null, 'Sizes in other systems are accepted')
+  check(StockWaitlistService.validate({ size: '10' }) !== null, 'A product is required')
+  check(StockWaitlistService.validate({ productId: 'p-1' }) !== null, 'A size is required')
+  check(StockWaitlistService.validate({ productId: 'p-1', size: '  ' }) !== null, 'A blank size is rejected')
+  check(toCanonicalSize('US 10') === toCanonicalSize('10'), 'A size queues in one place whatever system it was chosen in')
+
+  console.log('\n📦 Available units\n')
+
+  check(availableUnits({ quantity: 5, reserved_quantity: 3 }) === 2, 'Units held by offers or checkouts are not available')
+  check(availableUnits({ quantity: 1, reserved_quantity: 2 }) === 0, 'Available units never go below zero')
+
+  console.log('\n🎟️  Offers\n')
+
+  check(WAITLIST_OFFER_MINUTES > 0, 'Offers are held for a positive time')
+  check(WAITLIST_OFFER_MINUTES <= 60, 'Offers pass on within the hour so the queue keeps moving')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All stock waitlist checks passed${RESET}`)
+}
+
+main()
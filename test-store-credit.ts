@@ -0,0 +1,114 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Store Credit Test
+ * Validates how a balance pays for part or all of an order, how refunds divide between the card and
+ * store credit, and the format of gift card codes
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import type { RefundableOrder } from './src/services/refunds'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+// 200.00 order, 50.00 of it paid with store credit
+const order: RefundableOrder = {
+  id: 'order-1',
+  orderNumber: 'SX-00000001',
+  userId: 'user-1',
+  currency: 'EUR',
+  total: 200,
+  refundedAmount: 0,
+  storeCreditAmount: 50,
+  creditRefundedAmount: 0,
+  paymentStatus: 'completed',
+  paymentIntentId: 'pi_sim_000001',
+  taxRate: 0,
+  customerEmail: 'sam@example.com',
+  customerName: 'Sam',
+  items: [
+    { id: 'item-a', productId: 'p1', productName: 'Dunk Low', productBrand: 'Nike', size: '9', quantity: 2, refundedQuantity: 0, unitPrice: 100, discountAmount: 0 }
+  ]
+}
+
+async function main() {
+  const { StoreCreditService } = await import('./src/services/store-credit')
+  const { RefundService, RefundError, RefundErrorCode } = await import('./src/services/refunds')
+  const { GiftCardService } = await import('./src/services/gift-cards')
+
+  console.log('💳 Paying with store credit\n')
+
+  const partial = StoreCreditService.planCreditPayment(30, 120, 1, 'EUR')
+  check(partial.amount === 30 && partial.baseAmount === 30, 'A balance below the total is spent in full')
+
+  const covered = StoreCreditService.planCreditPayment(200, 120, 1, 'EUR')
+  check(covered.amount === 120 && covered.baseAmount === 120, 'A balance above the total pays exactly the total')
+
+  const converted = StoreCreditService.planCreditPayment(50, 1000, 1.1, 'USD')
+  check(converted.amount === 55 && converted.baseAmount === 50, 'The balance is converted at the order rate')
+
+  const convertedCover = StoreCreditService.planCreditPayment(100, 55, 1.1, 'USD')
+  check(convertedCover.amount === 55 && convertedCover.baseAmount === 50, 'Covering a foreign-currency order takes its base value')
+
+  const none = StoreCreditService.planCreditPayment(0, 120, 1, 'EUR')
+  check(none.amount === 0 && none.baseAmount === 0, 'An empty balance pays nothing')
+
+  console.log('\n↩️  Dividing refunds\n')
+
+  const toCard = RefundService.splitRefund(order, 100)
+  check(toCard.card === 100 && toCard.storeCredit === 0, 'Refunds go to the card while the card payment covers them')
+
+  const overflow = RefundService.splitRefund(order, 200)
+  check(overflow.card === 150 && overflow.storeCredit === 50, 'Credit spent on the order comes back as credit')
+
+  const asCredit = RefundService.splitRefund(order, 80, true)
+  check(asCredit.card === 0 && asCredit.storeCredit === 80, 'asStoreCredit returns the whole refund as credit')
+
+  const afterCardRefund = RefundService.splitRefund({ ...order, refundedAmount: 120 }, 80)
+  check(afterCardRefund.card === 30 && afterCardRefund.storeCredit === 50, 'Earlier card refunds reduce what the card can get back')
+
+  const afterCreditRefund = RefundService.splitRefund({ ...order, refundedAmount: 80, creditRefundedAmount: 80 }, 120)
+  check(afterCreditRefund.card === 120 && afterCreditRefund.storeCredit === 0, 'Earlier credit refunds leave the card payment untouched')
+
+  let guestError: unknown = null
+  try {
+    RefundService.splitRefund({ ...order, userId: null }, 50, true)
+  } catch (error) {
+    guestError = error
+  }
+  check(
+    guestError instanceof RefundError && guestError.code === RefundErrorCode.INVALID_REQUEST,
+    'Guest orders cannot be refunded as store credit'
+  )
+
+  console.log('\n🎁 Gift card codes\n')
+
+  const codes = Array.from({ length: 200 }, () => GiftCardService.generateCode())
+  check(codes.every(code => /^SXGC-[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/.test(code)), 'Codes are SXGC and three groups of four')
+  check(new Set(codes).size === codes.length, 'Codes do not repeat')
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All store credit checks passed${RESET}`)
+}
+
+main()
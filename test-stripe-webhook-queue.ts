@@ -0,0 +1,61 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Stripe Webhook Queue Test
+ * Validates the retry backoff and dead-lettering of failed Stripe webhook events
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import type { FailureOutcome } from './src/lib/webhook/stripe-queue'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+async function main() {
+  const { StripeWebhookQueue } = await import('./src/lib/webhook/stripe-queue')
+
+  const now = new Date('2026-10-18T12:00:00Z')
+  const secondsUntil = (outcome: FailureOutcome) =>
+    outcome.scheduledFor ? (new Date(outcome.scheduledFor).getTime() - now.getTime()) / 1000 : null
+
+  check(StripeWebhookQueue.retryDelayMs(1) === 30 * 1000, 'First retry waits 30 seconds')
+  check(StripeWebhookQueue.retryDelayMs(2) === 2 * 60 * 1000, 'Second retry waits 2 minutes')
+  check(StripeWebhookQueue.retryDelayMs(3) === 8 * 60 * 1000, 'Third retry waits 8 minutes')
+  check(StripeWebhookQueue.retryDelayMs(20) === 6 * 60 * 60 * 1000, 'Retry delay is capped at six hours')
+
+  const retry = StripeWebhookQueue.failureOutcome(1, 5, now)
+  check(retry.status === 'pending' && !retry.deadLetter, 'A failed attempt with attempts left stays queued')
+  check(secondsUntil(retry) === 30, 'The retry is scheduled after the backoff delay')
+
+  const lastRetry = StripeWebhookQueue.failureOutcome(4, 5, now)
+  check(lastRetry.status === 'pending' && secondsUntil(lastRetry) === 32 * 60, 'The last retry waits 32 minutes')
+
+  const deadLetter = StripeWebhookQueue.failureOutcome(5, 5, now)
+  check(
+    deadLetter.status === 'failed' && deadLetter.deadLetter && deadLetter.scheduledFor === null,
+    'The event is dead-lettered once every attempt has failed'
+  )
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All Stripe webhook queue checks passed${RESET}`)
+}
+
+main()
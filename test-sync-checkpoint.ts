@@ -0,0 +1,214 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Sync Job Checkpoint Test
+ * Interrupts a product sync after its first checkpoint, then resumes it from that checkpoint,
+ * and checks that a worker that lost its lease stops without touching the job record
+ */
+
+import { mkdtempSync, rmSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import type { SyncCheckpoint } from './src/types/database'
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-key'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const BLUE = '\x1b[34m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+function product(id: number) {
+  return {
+    id: `kdb-${id}`,
+    name: `Test Runner ${id}`,
+    slug: `test-runner-${id}`,
+    brand: 'Nike',
+    retailPrice: 120,
+    releaseDate: '2024-01-01',
+    colorway: 'Black',
+    images: [],
+    sku: `SKU-${id}`,
+    category: 'sneakers',
+    gender: 'men',
+    marketplace: 'stockx',
+    sizes: []
+  }
+}
+
+function productsPage(page: number, ids: number[]) {
+  return {
+    status: 200,
+    body: {
+      success: true,
+      data: ids.map(product),
+      pagination: { currentPage: page, totalPages: 3, totalItems: 6, itemsPerPage: 2 }
+    }
+  }
+}
+
+/**
+ * In-memory stand-in for DatabaseService covering what a product sync touches
+ */
+class FakeDatabase {
+  products = new Map<string, any>()
+  listings = new Map<string, any>()
+  checkpoints: SyncCheckpoint[] = []
+  logUpdates: any[] = []
+  upserts: string[] = []
+  heartbeatResult = true
+  failOnCheckpoint: number | null = null
+
+  async getSyncConfig(): Promise<any> {
+    throw new Error('No sync config in tests')
+  }
+
+  async createSyncLog() {
+    return 'job-direct'
+  }
+
+  async updateSyncLog(id: string, updates: any) {
+    this.logUpdates.push({ id, ...updates })
+  }
+
+  async heartbeatSyncJob(_id: string, _workerId: string, _leaseSeconds: number, checkpoint?: SyncCheckpoint) {
+    if (checkpoint) {
+      if (this.failOnCheckpoint !== null && this.checkpoints.length >= this.failOnCheckpoint) {
+        throw new Error('Worker crashed')
+      }
+      this.checkpoints.push(JSON.parse(JSON.stringify(checkpoint)))
+    }
+    return this.heartbeatResult
+  }
+
+  async getBrandByKicksDBName(name: string) {
+    return { id: 'brand-nike', name, slug: 'nike', kicksdb_name: name }
+  }
+
+  async upsertBrand(brand: any) {
+    return { id: 'brand-nike', ...brand }
+  }
+
+  async getProductListing(kicksdbId: string) {
+    return this.listings.get(kicksdbId) || null
+  }
+
+  async upsertProductListing(data: any) {
+    const saved = { ...data, id: `listing-${data.kicksdb_id}` }
+    this.listings.set(data.kicksdb_id, saved)
+    return saved
+  }
+
+  async getProductMatchCandidates() {
+    return []
+  }
+
+  async upsertProduct(data: any) {
+    this.upserts.push(data.kicksdb_id)
+    const saved = { ...data, id: data.id || `product-${data.kicksdb_id}` }
+    this.products.set(data.kicksdb_id, saved)
+    return saved
+  }
+
+  async touchProductListing() {}
+  async insertMarketSnapshot() {}
+  async replaceProductImages() {}
+  async upsertProductSizes() {}
+  async logSyncError() {}
+  async refreshSearchVocabulary() {}
+}
+
+async function main() {
+  const { KicksDBClient } = await import('./src/lib/kicksdb/client')
+  const { FixtureTransport } = await import('./src/lib/kicksdb/fixture-transport')
+  const { SyncEngine } = await import('./src/lib/sync/sync-engine')
+
+  const fixturesDir = mkdtempSync(path.join(os.tmpdir(), 'sync-checkpoint-'))
+
+  try {
+    const transport = new FixtureTransport({ mode: 'replay', fixturesDir })
+    await transport.writeFixture('/v3/utils/brands', {}, [
+      { status: 200, body: { success: true, data: [{ id: 'nike', name: 'Nike', slug: 'nike', productCount: 6 }] } }
+    ])
+    await transport.writeFixture('/v3/stockx/products', { page: 1, limit: 2 }, [productsPage(1, [1, 2])])
+    await transport.writeFixture('/v3/stockx/products', { page: 2, limit: 2 }, [productsPage(2, [3, 4])])
+    await transport.writeFixture('/v3/stockx/products', { page: 3, limit: 2 }, [productsPage(3, [5, 6])])
+
+    const options = { syncType: 'products' as const, marketplace: 'stockx' as const, maxProducts: 6, batchSize: 2 }
+    const job = { id: 'job-1', workerId: 'worker-a', leaseSeconds: 60 }
+
+    // The worker dies while saving its second checkpoint, after the second batch was written
+    console.log(`${BLUE}Interrupting a product sync after the first checkpoint...${RESET}`)
+
+    const database = new FakeDatabase()
+    database.failOnCheckpoint = 1
+    const engine = new SyncEngine(new KicksDBClient({ transport, retryDelay: 1 }), database as any)
+
+    const interrupted = await engine.sync(options, job)
+    const checkpoint = database.checkpoints[0]
+
+    check(!interrupted.success, 'Interrupted run does not complete')
+    check(database.checkpoints.length === 1, 'A checkpoint was saved after the first batch')
+    check(checkpoint?.cursors['products:stockx']?.page === 2, 'Checkpoint points at the next page')
+    check(checkpoint?.stats?.productsCreated === 2, 'Checkpoint carries the progress counters')
+
+    console.log(`${BLUE}Resuming from the checkpoint on another worker...${RESET}`)
+
+    // A fresh worker after a restart: page 1 is no longer served, so re-fetching it would fail
+    await transport.writeFixture('/v3/stockx/products', { page: 1, limit: 2 }, [{ error: 'network', message: 'page 1 re-fetched' }])
+    database.failOnCheckpoint = null
+    database.upserts = []
+    transport.rewind()
+
+    const resumedEngine = new SyncEngine(new KicksDBClient({ transport, retryDelay: 1 }), database as any)
+    const resumed = await resumedEngine.sync(options, { ...job, workerId: 'worker-b', checkpoint })
+
+    check(resumed.success, 'Resumed run completes')
+    check(!database.upserts.includes('kdb-1') && !database.upserts.includes('kdb-2'), 'First batch is not processed again')
+    check(resumed.stats.productsUnchanged === 2, 'Batch written before the crash is re-read and skipped as unchanged')
+    check(database.upserts.join(',') === 'kdb-5,kdb-6', 'Remaining batch is processed')
+    check(resumed.stats.productsProcessed === 6, 'Final stats include work from before the interruption')
+
+    const finalUpdate = database.logUpdates[database.logUpdates.length - 1]
+    check(finalUpdate?.status === 'completed' && finalUpdate?.lease_owner === null, 'Job is completed and its lease released')
+
+    console.log(`${BLUE}Stopping when the lease is lost...${RESET}`)
+
+    const lostDatabase = new FakeDatabase()
+    lostDatabase.heartbeatResult = false
+    transport.rewind()
+    await transport.writeFixture('/v3/stockx/products', { page: 1, limit: 2 }, [productsPage(1, [1, 2])])
+
+    const lostEngine = new SyncEngine(new KicksDBClient({ transport, retryDelay: 1 }), lostDatabase as any)
+    const lost = await lostEngine.sync(options, { ...job, id: 'job-2' })
+
+    check(!lost.success, 'Run stops once another worker holds the lease')
+    check(lost.errors.some(error => error.message.includes('Lost lease')), 'Lease loss is reported')
+    check(lostDatabase.upserts.length === 2, 'No batches run after the lease is lost')
+    check(!lostDatabase.logUpdates.some(update => update.status), 'Job record is left to the new lease holder')
+  } finally {
+    rmSync(fixturesDir, { recursive: true, force: true })
+  }
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All sync checkpoint checks passed${RESET}`)
+}
+
+main()
@@ -0,0 +1,141 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Watchlist Alerts Test
+ * Validates when a watch is alerted about a price drop or restock, which channels each alert goes to,
+ * and how the per-user rate limit spaces out deliveries
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key'
+
+import {
+  ALERT_INTERVAL_MINUTES,
+  MAX_DELIVERIES_PER_DAY,
+  alertChannels,
+  nextDeliveryAt,
+  priceDropAlert,
+  restockAlertSizes,
+  sellingPrice,
+  type WatchRule
+} from './src/lib/watchlist'
+
+const GREEN = '\x1b[32m'
+const RED = '\x1b[31m'
+const RESET = '\x1b[0m'
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`${GREEN}✓ ${message}${RESET}`)
+  } else {
+    failures++
+    console.log(`${RED}✗ ${message}${RESET}`)
+  }
+}
+
+function watch(overrides: Partial<WatchRule> = {}): WatchRule {
+  return {
+    size: null,
+    target_price: null,
+    notify_price_drop: true,
+    notify_restock: true,
+    watched_price: 200,
+    last_restock_alert_at: null,
+    ...overrides
+  }
+}
+
+async function main() {
+  const { WatchlistService } = await import('./src/services/watchlist')
+
+  console.log('\n💸 Price drops\n')
+
+  check(sellingPrice({ retail_price: '180.00', current_price: 250 }) === 180, 'The retail price is the selling price')
+  check(sellingPrice({ retail_price: null, current_price: 250 }) === 250, 'The market price is used without a retail price')
+  check(sellingPrice({}) === null, 'A product without prices has no selling price')
+
+  check(priceDropAlert(watch(), 195) === null, 'A drop under the minimum is not alerted')
+  check(priceDropAlert(watch(), 190)?.previousPrice === 200, 'A 5% drop is alerted against the watched price')
+  check(priceDropAlert(watch(), 210) === null, 'A price rise is not alerted')
+  check(priceDropAlert(watch({ target_price: 150 }), 160) === null, 'A price above the target is not alerted')
+  check(priceDropAlert(watch({ target_price: 150 }), 150) !== null, 'Reaching the target is alerted')
+  check(priceDropAlert(watch({ target_price: 199.5 }), 199) !== null, 'The target alerts even for a small drop')
+  check(priceDropAlert(watch({ target_price: 150, watched_price: 140 }), 145) === null, 'A price above the last alerted one is not alerted again')
+  check(priceDropAlert(watch({ target_price: 150, watched_price: null }), 120)?.previousPrice === null, 'A target alerts for a product watched without a price')
+  check(priceDropAlert(watch({ watched_price: null }), 120) === null, 'Without a target or watched price there is nothing to drop from')
+  check(priceDropAlert(watch({ notify_price_drop: false }), 100) === null, 'Watches without price drop alerts are skipped')
+  check(priceDropAlert(watch(), null) === null, 'A product losing its price is not alerted')
+
+  console.log('\n📦 Restocks\n')
+
+  const now = new Date('2026-10-18T12:00:00Z')
+  check(
+    restockAlertSizes(watch(), ['9', '10', '10'], ['9', '10', '11'], now).join() === '9,10',
+    'Every restocked size alerts a watch on any size, once each'
+  )
+  check(restockAlertSizes(watch({ size: '10' }), ['9', '10'], ['9', '10'], now).join() === '10', 'A sized watch only hears about its size')
+  check(restockAlertSizes(watch({ size: '11' }), ['9', '10'], ['9', '10', '11'], now).length === 0, 'Other sizes do not alert a sized watch')
+  check(restockAlertSizes(watch(), ['9'], [], now).length === 0, 'A size sold out again before matching is not alerted')
+  check(
+    restockAlertSizes(watch({ last_restock_alert_at: '2026-10-18T01:00:00Z' }), ['9'], ['9'], now).length === 0,
+    'No second restock alert within the cooldown'
+  )
+  check(
+    restockAlertSizes(watch({ last_restock_alert_at: '2026-10-17T11:00:00Z' }), ['9'], ['9'], now).join() === '9',
+    'Restocks alert again after the cooldown'
+  )
+  check(restockAlertSizes(watch({ notify_restock: false }), ['9'], ['9'], now).length === 0, 'Watches without restock alerts are skipped')
+
+  console.log('\n🔔 Channels\n')
+
+  check(alertChannels(null, 'price_drop').email && !alertChannels(null, 'price_drop').inApp, 'Price drops default to email only')
+  check(alertChannels(undefined, 'restock').email && alertChannels(undefined, 'restock').inApp, 'Restocks default to email and in-app')
+  const preferences = {
+    notifications: {
+      email: { priceDrops: false, restockAlerts: true },
+      push: { priceDrops: true, restockAlerts: false }
+    }
+  }
+  check(!alertChannels(preferences, 'price_drop').email && alertChannels(preferences, 'price_drop').inApp, 'Saved price drop toggles are followed')
+  check(alertChannels(preferences, 'restock').email && !alertChannels(preferences, 'restock').inApp, 'Saved restock toggles are followed')
+
+  console.log('\n⏱️  Rate limit\n')
+
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000)
+  check(nextDeliveryAt([], now).getTime() === now.getTime(), 'A user without deliveries is sent right away')
+  check(nextDeliveryAt([minutesAgo(90)], now).getTime() === now.getTime(), 'A delivery past the interval does not hold alerts')
+  check(
+    nextDeliveryAt([minutesAgo(20)], now).getTime() === minutesAgo(20 - ALERT_INTERVAL_MINUTES).getTime(),
+    'Alerts wait out the interval after the last delivery'
+  )
+  const day = Array.from({ length: MAX_DELIVERIES_PER_DAY }, (_, i) => minutesAgo(1380 - i * 120))
+  check(
+    nextDeliveryAt(day, now).getTime() === minutesAgo(1380 - 24 * 60).getTime(),
+    'A full day of deliveries waits for the oldest to leave the window'
+  )
+  check(nextDeliveryAt([minutesAgo(25 * 60)], now).getTime() === now.getTime(), 'Deliveries older than a day are ignored')
+
+  console.log('\n👀 Watches\n')
+
+  check(WatchlistService.validate({ productId: 'p-1' }) === null, 'Watching a product on any size is accepted')
+  check(WatchlistService.validate({ productId: 'p-1', size: '10', targetPrice: 150 }) === null, 'A size and target price are accepted')
+  check(WatchlistService.validate({}) !== null, 'A product is required')
+  check(WatchlistService.validate({ productId: 'p-1', size: ' ' }) !== null, 'A blank size is rejected')
+  check(WatchlistService.validate({ productId: 'p-1', targetPrice: 0 }) !== null, 'A zero target price is rejected')
+  check(
+    WatchlistService.validate({ productId: 'p-1', notifyPriceDrop: false, notifyRestock: false }) !== null,
+    'A watch needs at least one kind of alert'
+  )
+
+  if (failures > 0) {
+    console.log(`\n${RED}❌ ${failures} check(s) failed${RESET}`)
+    process.exit(1)
+  }
+
+  console.log(`\n${GREEN}🎉 All watchlist alert checks passed${RESET}`)
+}
+
+main()
@@ -79,7 +79,6 @@ async function testWebhookEndpoint() {
     const requiredElements = [
       'handlePaymentSucceeded',
       'handlePaymentFailed',
-      'handleCheckoutSessionCompleted',
       'EmailService.sendOrderConfirmation',
       'InventoryService.commitReservation',
       'InventoryService.releaseReservation'
@@ -135,7 +134,7 @@ async function testWebhookFunctionality() {
   console.log(`${GREEN}✓ Stripe webhook signature verification implemented${RESET}`)
 
   // Test event handling structure
-  const eventTypes = ['payment_intent.succeeded', 'payment_intent.payment_failed', 'checkout.session.completed']
+  const eventTypes = ['payment_intent.succeeded', 'payment_intent.payment_failed']
   eventTypes.forEach(eventType => {
     console.log(`${GREEN}✓ Handler for ${eventType} implemented${RESET}`)
   })